@@ -86,6 +86,8 @@ module.exports = {
       edgeToEdgeEnabled: true,
       predictiveBackGestureEnabled: false,
       package: "com.datingapp.mobile",
+      // Firebase config for push notifications (FCM)
+      googleServicesFile: process.env.GOOGLE_SERVICES_FILE,
       intentFilters: [
         {
           action: "VIEW",
@@ -113,6 +115,9 @@ module.exports = {
     web: {
       favicon: "./assets/favicon.png"
     },
+    plugins: [
+      "expo-notifications"
+    ],
     extra: {
       // Make environment variables available via expo-constants
       // These will be accessible via Constants.expoConfig.extra
@@ -18,6 +18,11 @@ export default function Header({ accountType }: HeaderProps) {
     navigation.navigate('Dashboard');
   };
 
+  const handleSearchPress = () => {
+    // Search lives in the Partners stack so results open PartnerDetail there
+    navigation.navigate('Partners', { screen: 'Search' });
+  };
+
   return (
     <SafeAreaView edges={['top']} style={styles.safeArea}>
       <View style={styles.header}>
@@ -29,13 +34,23 @@ export default function Header({ accountType }: HeaderProps) {
           <Text style={styles.logo}>🎭</Text>
           <Text style={styles.title}>Dating Assistant</Text>
         </TouchableOpacity>
-        {accountType && (
-          <View style={[styles.badge, accountType === 'pro' && styles.badgePro]}>
-            <Text style={[styles.badgeText, accountType === 'pro' && styles.badgeTextPro]}>
-              {accountType === 'pro' ? 'PRO' : 'FREE'}
-            </Text>
-          </View>
-        )}
+        <View style={styles.rightSection}>
+          <TouchableOpacity
+            style={styles.searchButton}
+            onPress={handleSearchPress}
+            accessibilityLabel="Search partners and activities"
+            activeOpacity={0.7}
+          >
+            <Text style={styles.searchIcon}>🔍</Text>
+          </TouchableOpacity>
+          {accountType && (
+            <View style={[styles.badge, accountType === 'pro' && styles.badgePro]}>
+              <Text style={[styles.badgeText, accountType === 'pro' && styles.badgeTextPro]}>
+                {accountType === 'pro' ? 'PRO' : 'FREE'}
+              </Text>
+            </View>
+          )}
+        </View>
       </View>
     </SafeAreaView>
   );
@@ -64,6 +79,17 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  rightSection: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  searchButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  searchIcon: {
+    fontSize: 20,
+  },
   logo: {
     fontSize: 24,
     marginRight: 8,
@@ -1003,7 +1003,7 @@ export default function PartnerPhotos({ partnerId, onPhotoUploaded }: PartnerPho
     
     Alert.alert(
       'Delete Photo',
-      'Are you sure you want to delete this photo?',
+      'Move this photo to the trash? You can restore it from the trash for 30 days.',
       [
         { 
           text: 'Cancel', 
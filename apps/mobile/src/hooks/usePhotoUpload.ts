@@ -368,7 +368,7 @@ export function usePhotoUpload(options: UsePhotoUploadOptions = {}): UsePhotoUpl
             return;
           }
         } else {
-          // Without partnerId: response is { decision: 'create_new' | 'warn_matches', matches: FaceMatch[] }
+          // Without partnerId: response is { decision: 'create_new' | 'warn_matches', matches: FaceMatch[], partnerScores: PartnerFaceScore[] }
           if (responseData.decision === 'create_new') {
             // No matches found - create partner in background and upload photo
             setShowProgressModal(false);
@@ -381,6 +381,8 @@ export function usePhotoUpload(options: UsePhotoUploadOptions = {}): UsePhotoUpl
               },
               partnerMatches: [],
               otherPartnerMatches: [],
+              partnerScore: null,
+              otherPartnerScores: [],
               partnerHasOtherPhotos: false,
             };
             setAnalysisData(analysis);
@@ -394,6 +396,8 @@ export function usePhotoUpload(options: UsePhotoUploadOptions = {}): UsePhotoUpl
               },
               partnerMatches: [],
               otherPartnerMatches: responseData.matches || [],
+              partnerScore: null,
+              otherPartnerScores: responseData.partnerScores || [],
               partnerHasOtherPhotos: false,
             };
             setAnalysisData(analysis);
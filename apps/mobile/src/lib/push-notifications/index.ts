@@ -0,0 +1,119 @@
+/**
+ * Push notification registration for mobile app
+ * Registers the device's FCM (Android) or APNs (iOS) token with the web app,
+ * which sends reminders, activity alerts, payment problems and photo upload
+ * results (preferences are on the Profile screen)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import type { Session } from '@supabase/supabase-js';
+
+const PUSH_TOKEN_KEY = 'dating_app_push_token';
+
+// Show notifications that arrive while the app is open
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+function getApiUrl(): string {
+  return process.env.EXPO_PUBLIC_WEB_APP_URL || process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+}
+
+/**
+ * Ask for permission and register this device for the signed-in user
+ * Returns false when notifications are not allowed or registration failed
+ */
+export async function registerForPushNotifications(session: Session): Promise<boolean> {
+  if (Platform.OS !== 'ios' && Platform.OS !== 'android') {
+    return false;
+  }
+
+  try {
+    let { status } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      ({ status } = await Notifications.requestPermissionsAsync());
+    }
+    if (status !== 'granted') {
+      console.log('[Push] Notification permission not granted');
+      return false;
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync('default', {
+        name: 'Default',
+        importance: Notifications.AndroidImportance.HIGH,
+      });
+    }
+
+    // Native token: FCM on Android, APNs on iOS
+    const { data: token } = await Notifications.getDevicePushTokenAsync();
+
+    const response = await fetch(`${getApiUrl()}/api/notifications/devices`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token, platform: Platform.OS }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to register device');
+    }
+
+    await AsyncStorage.setItem(PUSH_TOKEN_KEY, String(token));
+    return true;
+  } catch (error) {
+    console.error('[Push] Failed to register for push notifications:', error);
+    return false;
+  }
+}
+
+/**
+ * Stop notifications to this device (call before signing out, while the session is valid)
+ */
+export async function unregisterPushDevice(session: Session): Promise<void> {
+  try {
+    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (!token) {
+      return;
+    }
+
+    await fetch(`${getApiUrl()}/api/notifications/devices`, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+    });
+    await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+  } catch (error) {
+    // Best effort: the server also drops tokens the push service rejects
+    console.error('[Push] Failed to unregister device:', error);
+  }
+}
+
+/**
+ * Listen for taps on notifications; the handler gets the notification's data
+ * (e.g. { type: 'reminder', partnerId })
+ */
+export function addNotificationTapListener(
+  handler: (data: Record<string, unknown>) => void
+): () => void {
+  const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+    const { content, trigger } = response.notification.request;
+    // Custom keys of APNs payloads are on the trigger; FCM data is in content.data
+    const payload = (trigger as any)?.payload || {};
+    handler({ ...payload, ...(content.data || {}) });
+  });
+  return () => subscription.remove();
+}
@@ -6,6 +6,8 @@ import PartnerEditScreen from '../screens/main/PartnerEditScreen';
 import PartnerCreateScreen from '../screens/main/PartnerCreateScreen';
 import SimilarPartnersScreen from '../screens/main/SimilarPartnersScreen';
 import PhotoUploadScreen from '../screens/main/PhotoUploadScreen';
+import TrashScreen from '../screens/main/TrashScreen';
+import SearchScreen from '../screens/main/SearchScreen';
 
 const Stack = createNativeStackNavigator<PartnersStackParamList>();
 
@@ -39,6 +41,24 @@ export default function PartnersNavigator() {
           headerBackTitle: 'Back',
         }}
       />
+      <Stack.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{
+          headerShown: true,
+          title: 'Trash',
+          headerBackTitle: 'Back',
+        }}
+      />
+      <Stack.Screen
+        name="Search"
+        component={SearchScreen}
+        options={{
+          headerShown: true,
+          title: 'Search',
+          headerBackTitle: 'Back',
+        }}
+      />
     </Stack.Navigator>
   );
 }
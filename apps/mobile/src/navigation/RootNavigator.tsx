@@ -15,6 +15,7 @@ import { getInitialShareIntent, setupShareIntentListener } from '../lib/share-ha
 import { parseAttributionFromUrl, storeAttributionData, trackAppInstalled } from '../lib/attribution';
 import { setUserId, clearUser } from '../lib/analytics';
 import { handleNavigationStateChange } from '../lib/analytics/navigation';
+import { registerForPushNotifications, addNotificationTapListener } from '../lib/push-notifications';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -342,6 +343,28 @@ export default function RootNavigator() {
     };
   }, [session]);
 
+  // Register this device for push notifications once per signed-in user
+  useEffect(() => {
+    if (session) {
+      registerForPushNotifications(session);
+    }
+  }, [session?.user.id]);
+
+  // Open the partner when a reminder or activity notification is tapped
+  useEffect(() => {
+    return addNotificationTapListener((data) => {
+      if (typeof data.partnerId === 'string' && navigationRef.current) {
+        navigationRef.current.navigate('Main', {
+          screen: 'Partners',
+          params: {
+            screen: 'PartnerDetail',
+            params: { partnerId: data.partnerId },
+          },
+        });
+      }
+    });
+  }, []);
+
   // Handle deep links (magic link callbacks and attribution)
   useEffect(() => {
     // Get initial URL when app opens from a deep link
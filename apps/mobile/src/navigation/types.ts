@@ -39,6 +39,8 @@ export type PartnersStackParamList = {
     imageUri: string; // Original image URI for preview
   };
   PhotoUpload: { partnerId?: string; source?: 'Dashboard' | 'PartnersList' | 'Share'; imageUri?: string; timestamp?: number };
+  Trash: undefined;
+  Search: undefined;
 };
 
 export type UploadStackParamList = {
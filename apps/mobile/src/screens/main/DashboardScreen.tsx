@@ -5,7 +5,15 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { CompositeNavigationProp } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { supabase } from '../../lib/supabase/client';
-import { Partner, PARTNER_SORT_ORDER } from '@dating-app/shared';
+import {
+  ACTIVE_PARTNER_DAYS,
+  describePartnerReminder,
+  formatInsightsMonth,
+  Partner,
+  PartnerInsights,
+  PartnerReminder,
+  PARTNER_SORT_ORDER,
+} from '@dating-app/shared';
 import { getPartnerProfilePictureUrl } from '../../lib/photo-utils';
 import BlackFlagIcon from '../../components/BlackFlagIcon';
 import { MainTabParamList } from '../../navigation/types';
@@ -17,12 +25,21 @@ type DashboardScreenNavigationProp = CompositeNavigationProp<
   NativeStackNavigationProp<PartnersStackParamList>
 >;
 
-// Homepage - shows welcome, recent partners, and quick actions
+// Item of GET /api/reminders
+interface UpcomingReminder {
+  reminder: PartnerReminder;
+  partner: Pick<Partner, 'id' | 'first_name' | 'last_name'>;
+  due_at: string;
+}
+
+// Homepage - shows welcome, upcoming reminders, insights, recent partners, and quick actions
 export default function DashboardScreen() {
   const navigation = useNavigation<DashboardScreenNavigationProp>();
   const [user, setUser] = useState<any>(null);
   const [recentPartners, setRecentPartners] = useState<Partner[]>([]);
   const [lastActivities, setLastActivities] = useState<{ [key: string]: string | null }>({});
+  const [reminders, setReminders] = useState<UpcomingReminder[]>([]);
+  const [insights, setInsights] = useState<PartnerInsights | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -81,6 +98,38 @@ export default function DashboardScreen() {
             setLastActivities(activitiesMap);
           }
         }
+
+        const apiUrl = process.env.EXPO_PUBLIC_WEB_APP_URL || process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+
+        // Reminders are computed by the web app (no-contact rules need the latest activity)
+        try {
+          const response = await fetch(`${apiUrl}/api/reminders?limit=5`, {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          });
+          if (response.ok) {
+            const result = await response.json();
+            setReminders(result.data || []);
+          }
+        } catch (remindersError) {
+          console.error('Error loading reminders:', remindersError);
+        }
+
+        // Insights are computed by the web app in the user's timezone
+        try {
+          const response = await fetch(`${apiUrl}/api/insights`, {
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+            },
+          });
+          if (response.ok) {
+            const result = await response.json();
+            setInsights(result.data || null);
+          }
+        } catch (insightsError) {
+          console.error('Error loading insights:', insightsError);
+        }
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -136,6 +185,60 @@ export default function DashboardScreen() {
     );
   };
 
+  // Summary of GET /api/insights (the web dashboard has the charts)
+  const renderInsights = () => {
+    if (!insights || !insights.activity_types.some(({ count }) => count > 0)) {
+      return null;
+    }
+
+    const thisMonth = insights.dates_per_month[insights.dates_per_month.length - 1];
+    const totalDates = insights.dates_per_month.reduce((sum, { count }) => sum + count, 0);
+    const totalActivities = insights.activity_types.reduce((sum, { count }) => sum + count, 0);
+    const topType = [...insights.activity_types].sort((a, b) => b.count - a.count)[0];
+    const topLocation = insights.top_locations[0];
+
+    return (
+      <View style={styles.sectionCard}>
+        <Text style={styles.sectionTitle}>Insights</Text>
+        <View style={styles.insightStats}>
+          <View style={styles.insightStat}>
+            <Text style={styles.insightValue}>{thisMonth.count}</Text>
+            <Text style={styles.insightLabel}>Dates in {formatInsightsMonth(thisMonth.month, { year: false })}</Text>
+          </View>
+          <View style={styles.insightStat}>
+            <Text style={styles.insightValue}>
+              {insights.average_days_to_first_date === null ? '—' : insights.average_days_to_first_date}
+            </Text>
+            <Text style={styles.insightLabel}>Days to a first date</Text>
+          </View>
+          <View style={styles.insightStat}>
+            <Text style={styles.insightValue}>{insights.active_partner_count}</Text>
+            <Text style={styles.insightLabel}>Active partners</Text>
+          </View>
+        </View>
+        <Text style={styles.insightText}>
+          {totalDates} {totalDates === 1 ? 'date' : 'dates'} in the last {insights.dates_per_month.length} months
+        </Text>
+        <Text style={styles.insightText}>
+          Mostly {topType.type} ({Math.round((topType.count / totalActivities) * 100)}% of activities)
+        </Text>
+        {topLocation && (
+          <Text style={styles.insightText} numberOfLines={1}>
+            Favorite place: {topLocation.location} ({topLocation.count}×)
+          </Text>
+        )}
+        {insights.active_partners.length > 0 && (
+          <Text style={styles.insightText} numberOfLines={2}>
+            Active in the last {ACTIVE_PARTNER_DAYS} days:{' '}
+            {insights.active_partners
+              .map(({ partner }) => partner.first_name || partner.last_name || 'Unnamed Partner')
+              .join(', ')}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.centerContainer}>
@@ -169,6 +272,48 @@ export default function DashboardScreen() {
         </Text>
       </View>
 
+      {/* Upcoming Reminders Section */}
+      {reminders.length > 0 && (
+        <View style={styles.sectionCard}>
+          <Text style={styles.sectionTitle}>Upcoming Reminders</Text>
+          {reminders.map(({ reminder, partner, due_at }) => {
+            const dueAt = new Date(due_at);
+            const overdue = dueAt <= new Date();
+            const name = [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+
+            return (
+              <TouchableOpacity
+                key={reminder.id}
+                style={styles.reminderRow}
+                onPress={() => {
+                  navigation.navigate('Partners', {
+                    screen: 'PartnerDetail',
+                    params: { partnerId: partner.id, source: 'Dashboard' },
+                  });
+                }}
+                activeOpacity={0.7}
+              >
+                <View style={styles.reminderInfo}>
+                  <Text style={styles.reminderName} numberOfLines={1}>{name}</Text>
+                  <Text style={styles.reminderText} numberOfLines={2}>
+                    {describePartnerReminder(reminder)}
+                    {reminder.note ? ` · ${reminder.note}` : ''}
+                  </Text>
+                </View>
+                <Text style={[styles.reminderDue, overdue && styles.reminderDueOverdue]}>
+                  {overdue
+                    ? 'Due now'
+                    : dueAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {/* Insights Section */}
+      {renderInsights()}
+
       {/* Recent Partners Section */}
       {recentPartners.length > 0 && (
         <View style={styles.sectionCard}>
@@ -450,6 +595,62 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     marginTop: 4,
   },
+  insightStats: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  insightStat: {
+    flex: 1,
+    backgroundColor: '#f9fafb', // gray-50
+    borderRadius: 8,
+    padding: 12,
+  },
+  insightValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  insightLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  insightText: {
+    fontSize: 14,
+    color: '#374151', // gray-700
+    marginTop: 4,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  reminderInfo: {
+    flex: 1,
+    minWidth: 0,
+    marginRight: 12,
+  },
+  reminderName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  reminderText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  reminderDue: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  reminderDueOverdue: {
+    color: '#dc2626',
+    fontWeight: '600',
+  },
   actionsGrid: {
     gap: 12,
   },
@@ -14,12 +14,32 @@ import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { PartnersStackParamList } from '../../navigation/types';
 import { supabase } from '../../lib/supabase/client';
-import { Partner } from '@dating-app/shared';
+import {
+  CustomFieldDefinition,
+  normalizePartnerTags,
+  Partner,
+  PARTNER_STATUS_LABELS,
+  PartnerStatus,
+} from '@dating-app/shared';
 import BlackFlagIcon from '../../components/BlackFlagIcon';
 
 type PartnerEditScreenRouteProp = RouteProp<PartnersStackParamList, 'PartnerEdit'>;
 type PartnerEditScreenNavigationProp = NativeStackNavigationProp<PartnersStackParamList, 'PartnerEdit'>;
 
+// Tags are edited as one comma-separated text
+function parseTags(text: string): string[] {
+  return normalizePartnerTags(text.split(','));
+}
+
+// Custom field values are edited as strings ('' = not set)
+function getCustomFieldInputs(partner: Partner): { [fieldId: string]: string } {
+  const inputs: { [fieldId: string]: string } = {};
+  for (const [fieldId, value] of Object.entries(partner.custom_fields || {})) {
+    inputs[fieldId] = String(value);
+  }
+  return inputs;
+}
+
 export default function PartnerEditScreen() {
   const navigation = useNavigation<PartnerEditScreenNavigationProp>();
   const route = useRoute<PartnerEditScreenRouteProp>();
@@ -35,6 +55,7 @@ export default function PartnerEditScreen() {
   const scrollViewRef = useRef<ScrollView>(null);
   const fieldRefs = useRef<{ [key: string]: View | null }>({});
   const fieldPositions = useRef<{ [key: string]: number }>({});
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
 
   const [formData, setFormData] = useState({
     first_name: '',
@@ -47,6 +68,9 @@ export default function PartnerEditScreen() {
     linkedin_profile: '',
     instagram_profile: '',
     black_flag: false,
+    status: 'talking' as PartnerStatus,
+    tags: '',
+    custom_fields: {} as { [fieldId: string]: string },
   });
 
   useEffect(() => {
@@ -77,6 +101,19 @@ export default function PartnerEditScreen() {
         return;
       }
 
+      const { data: fieldsData, error: fieldsError } = await supabase
+        .from('custom_field_definitions')
+        .select('*')
+        .eq('user_id', session.user.id)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (fieldsError) {
+        throw fieldsError;
+      }
+
+      setCustomFields(fieldsData || []);
+
       setPartner(partnerData);
       setFormData({
         first_name: partnerData.first_name || '',
@@ -89,6 +126,9 @@ export default function PartnerEditScreen() {
         linkedin_profile: partnerData.linkedin_profile || '',
         instagram_profile: partnerData.instagram_profile || '',
         black_flag: partnerData.black_flag || false,
+        status: partnerData.status || 'talking',
+        tags: (partnerData.tags || []).join(', '),
+        custom_fields: getCustomFieldInputs(partnerData),
       });
     } catch (err) {
       console.error('Error loading partner:', err);
@@ -98,6 +138,20 @@ export default function PartnerEditScreen() {
     }
   };
 
+  // Custom field values that differ from the saved ones ('' clears a field)
+  const getChangedCustomFields = (): { [fieldId: string]: string | null } => {
+    const changed: { [fieldId: string]: string | null } = {};
+    if (!partner) return changed;
+    const saved = getCustomFieldInputs(partner);
+    for (const field of customFields) {
+      const value = (formData.custom_fields[field.id] || '').trim();
+      if (value !== (saved[field.id] || '')) {
+        changed[field.id] = value || null;
+      }
+    }
+    return changed;
+  };
+
   const hasChanges = partner ? (
     formData.first_name !== (partner.first_name || '') ||
     formData.last_name !== (partner.last_name || '') ||
@@ -108,7 +162,10 @@ export default function PartnerEditScreen() {
     formData.x_profile !== (partner.x_profile || '') ||
     formData.linkedin_profile !== (partner.linkedin_profile || '') ||
     formData.instagram_profile !== (partner.instagram_profile || '') ||
-    formData.black_flag !== (partner.black_flag || false)
+    formData.black_flag !== (partner.black_flag || false) ||
+    formData.status !== (partner.status || 'talking') ||
+    parseTags(formData.tags).join(',') !== (partner.tags || []).join(',') ||
+    Object.keys(getChangedCustomFields()).length > 0
   ) : true;
 
   // Validation functions
@@ -180,6 +237,17 @@ export default function PartnerEditScreen() {
       errors.instagram_profile = 'Please enter a valid Instagram profile URL (e.g., https://instagram.com/username).';
     }
 
+    // Validate: custom field values (select values come from the options)
+    for (const field of customFields) {
+      const value = (formData.custom_fields[field.id] || '').trim();
+      if (!value) continue;
+      if (field.type === 'number' && !Number.isFinite(Number(value))) {
+        errors[`custom_${field.id}`] = `${field.name} must be a number.`;
+      } else if (field.type === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        errors[`custom_${field.id}`] = `${field.name} must be a date (YYYY-MM-DD).`;
+      }
+    }
+
     // If there are validation errors, set them and scroll to first error
     if (Object.keys(errors).length > 0) {
       setFieldErrors(errors);
@@ -218,35 +286,42 @@ export default function PartnerEditScreen() {
         return;
       }
 
-      // Auto-update description_time if description changed
-      const descriptionChanged = partner && formData.description !== (partner.description || '');
-      
-      const partnerData: any = {
-        first_name: formData.first_name.trim() || null,
-        last_name: formData.last_name.trim() || null,
-        email: formData.email.trim() || null,
-        phone_number: formData.phone_number.trim() || null,
-        description: formData.description.trim() || null,
-        facebook_profile: formData.facebook_profile.trim() || null,
-        x_profile: formData.x_profile.trim() || null,
-        linkedin_profile: formData.linkedin_profile.trim() || null,
-        instagram_profile: formData.instagram_profile.trim() || null,
-        black_flag: formData.black_flag || false,
-      };
-
-      // Update description_time if description changed
-      if (descriptionChanged && formData.description) {
-        partnerData.description_time = new Date().toISOString();
-      }
-
-      const { error: updateError } = await supabase
-        .from('partners')
-        .update(partnerData)
-        .eq('id', partnerId)
-        .eq('user_id', session.user.id);
+      // Update via the API (validates the fields and sets description_time on the server)
+      const apiUrl = process.env.EXPO_PUBLIC_WEB_APP_URL || process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+      const response = await fetch(`${apiUrl}/api/partners/${partnerId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          first_name: formData.first_name.trim(),
+          last_name: formData.last_name.trim(),
+          email: formData.email.trim(),
+          phone_number: formData.phone_number.trim(),
+          description: formData.description.trim(),
+          facebook_profile: formData.facebook_profile.trim(),
+          x_profile: formData.x_profile.trim(),
+          linkedin_profile: formData.linkedin_profile.trim(),
+          instagram_profile: formData.instagram_profile.trim(),
+          black_flag: formData.black_flag || false,
+          status: formData.status,
+          tags: parseTags(formData.tags),
+          custom_fields: getChangedCustomFields(),
+        }),
+      });
 
-      if (updateError) {
-        throw updateError;
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        if (result.error === 'Invalid custom fields' && result.details) {
+          // Server errors for custom fields are keyed by field id
+          const customFieldErrors: { [key: string]: string } = {};
+          for (const [fieldId, fieldError] of Object.entries(result.details as { [fieldId: string]: string })) {
+            customFieldErrors[`custom_${fieldId}`] = fieldError;
+          }
+          setFieldErrors(customFieldErrors);
+        }
+        throw new Error(result.error || 'Failed to update partner');
       }
 
       setMessage('Partner updated successfully!');
@@ -359,6 +434,26 @@ export default function PartnerEditScreen() {
             />
           </View>
 
+          <View style={styles.formSection}>
+            <Text style={styles.label}>Status</Text>
+            <View style={styles.optionRow}>
+              {PartnerStatus.options.map((status) => (
+                <TouchableOpacity
+                  key={status}
+                  onPress={() => {
+                    setFormData({ ...formData, status });
+                    setMessage('');
+                  }}
+                  style={[styles.optionChip, formData.status === status && styles.optionChipSelected]}
+                >
+                  <Text style={[styles.optionChipText, formData.status === status && styles.optionChipTextSelected]}>
+                    {PARTNER_STATUS_LABELS[status]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           <View style={styles.formSection}>
             <View style={styles.switchRow}>
               <Switch
@@ -458,6 +553,76 @@ export default function PartnerEditScreen() {
             )}
           </View>
 
+          <View style={styles.formSection}>
+            <Text style={styles.label}>Tags</Text>
+            <TextInput
+              style={styles.input}
+              value={formData.tags}
+              onChangeText={(text) => {
+                setFormData({ ...formData, tags: text });
+                setMessage('');
+              }}
+              placeholder="e.g. tinder, tall, funny"
+              placeholderTextColor="#9ca3af"
+              autoCapitalize="none"
+            />
+            <Text style={styles.hint}>Separate tags with commas</Text>
+          </View>
+
+          {customFields.length > 0 && (
+            <View style={styles.socialSection}>
+              <Text style={styles.sectionTitle}>Custom Fields</Text>
+
+              {customFields.map((field) => {
+                const errorKey = `custom_${field.id}`;
+                const value = formData.custom_fields[field.id] || '';
+                const setValue = (newValue: string) => {
+                  setFormData({ ...formData, custom_fields: { ...formData.custom_fields, [field.id]: newValue } });
+                  clearFieldError(errorKey);
+                };
+
+                return (
+                  <View
+                    key={field.id}
+                    ref={(ref) => (fieldRefs.current[errorKey] = ref)}
+                    style={styles.formSection}
+                  >
+                    <Text style={styles.label}>{field.name}</Text>
+                    {field.type === 'select' ? (
+                      <View style={styles.optionRow}>
+                        {field.options.map((option) => (
+                          <TouchableOpacity
+                            key={option}
+                            // Tapping the selected option clears the field
+                            onPress={() => setValue(value === option ? '' : option)}
+                            style={[styles.optionChip, value === option && styles.optionChipSelected]}
+                          >
+                            <Text style={[styles.optionChipText, value === option && styles.optionChipTextSelected]}>
+                              {option}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    ) : (
+                      <TextInput
+                        style={[styles.input, fieldErrors[errorKey] && styles.inputError]}
+                        value={value}
+                        onChangeText={setValue}
+                        placeholder={field.type === 'date' ? 'YYYY-MM-DD' : undefined}
+                        placeholderTextColor="#9ca3af"
+                        keyboardType={field.type === 'number' ? 'decimal-pad' : 'default'}
+                        autoCapitalize={field.type === 'text' ? 'sentences' : 'none'}
+                      />
+                    )}
+                    {fieldErrors[errorKey] && (
+                      <Text style={styles.fieldError}>{fieldErrors[errorKey]}</Text>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
           <View style={styles.socialSection}>
             <Text style={styles.sectionTitle}>Social Media Profiles</Text>
 
@@ -744,6 +909,30 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#e5e7eb',
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: '#fff',
+  },
+  optionChipSelected: {
+    backgroundColor: '#dc2626',
+    borderColor: '#dc2626',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  optionChipTextSelected: {
+    color: '#fff',
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, ReactNode } from 'react';
 import {
   View,
   Text,
@@ -10,9 +10,25 @@ import {
   RefreshControl,
   Alert,
   Linking,
+  ScrollView,
+  TextInput,
 } from 'react-native';
 import { supabase } from '../../lib/supabase/client';
-import { Partner, PARTNER_SORT_ORDER } from '@dating-app/shared';
+import {
+  buildPartnerListParams,
+  getDefaultPartnerListOrder,
+  MAX_PARTNER_VIEW_NAME_LENGTH,
+  PARTNER_LIST_SORT_LABELS,
+  PARTNER_SORT_ORDER,
+  PARTNER_STATUS_LABELS,
+  parsePartnerListParams,
+  PartnerActivityType,
+  PartnerListItem,
+  PartnerListParamsInput,
+  PartnerListSort,
+  PartnerStatus,
+  PartnerView,
+} from '@dating-app/shared';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { CommonActions } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -22,55 +38,126 @@ import BlackFlagIcon from '../../components/BlackFlagIcon';
 
 type PartnersListScreenNavigationProp = NativeStackNavigationProp<PartnersStackParamList, 'PartnersList'>;
 
+// Same colors as the web status badges
+const STATUS_COLORS: Record<PartnerStatus, { background: string; text: string }> = {
+  talking: { background: '#dbeafe', text: '#1e40af' },
+  first_date: { background: '#f3e8ff', text: '#6b21a8' },
+  seeing: { background: '#fce7f3', text: '#9d174d' },
+  exclusive: { background: '#dcfce7', text: '#166534' },
+  ended: { background: '#f3f4f6', text: '#374151' },
+  ghosted: { background: '#fef9c3', text: '#854d0e' },
+};
+
+const PAGE_SIZE = 50;
+
+// Day ranges offered for the activity filter
+const ACTIVITY_DAY_OPTIONS = [7, 30, 90];
+
+const getWebAppUrl = () => process.env.EXPO_PUBLIC_WEB_APP_URL || process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+
+const formatActivityType = (type: PartnerActivityType) => type.charAt(0).toUpperCase() + type.slice(1);
+
+async function fetchWithSession(path: string, init: RequestInit = {}) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetch(`${getWebAppUrl()}${path}`, {
+    ...init,
+    headers: { ...init.headers, 'Authorization': `Bearer ${session.access_token}` },
+  });
+  const result = await response.json().catch(() => ({ error: 'Unknown error' }));
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed');
+  }
+  return result;
+}
+
 export default function PartnersListScreen() {
   const navigation = useNavigation<PartnersListScreenNavigationProp>();
-  const [partners, setPartners] = useState<Partner[]>([]);
+  const [partners, setPartners] = useState<PartnerListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [lastActivities, setLastActivities] = useState<{ [key: string]: string | null }>({});
   const [deletingPartnerId, setDeletingPartnerId] = useState<string | null>(null);
+  // Sort and filters, as query parameters of GET /api/partners
+  const [listParams, setListParams] = useState<Record<string, string>>({});
+  const [tagCounts, setTagCounts] = useState<{ tag: string; count: number }[]>([]);
+  const [views, setViews] = useState<PartnerView[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [savingView, setSavingView] = useState(false);
+
+  // Always valid: listParams are built by buildPartnerListParams
+  const filters = parsePartnerListParams(listParams)!;
+  const selectedTags = filters.tags || [];
+  const sort = filters.sort;
+  const order = filters.order || getDefaultPartnerListOrder(sort);
+  const listParamsKey = JSON.stringify(listParams);
+  const hasFilters = Object.keys(listParams).length > 0;
+  const isFiltered = Object.keys(buildPartnerListParams({ ...filters, sort: undefined, order: undefined })).length > 0;
+
+  // The view matching the current sort and filters, if any (saved params come back in any key order)
+  const activeView = views.find(
+    (view) =>
+      Object.keys(view.params).length === Object.keys(listParams).length &&
+      Object.entries(view.params).every(([key, value]) => listParams[key] === value)
+  );
+
+  const updateFilters = (changes: Partial<PartnerListParamsInput>) => {
+    setListParams(buildPartnerListParams({ ...filters, ...changes }));
+  };
+
+  // Fetch last activity descriptions for partners without descriptions
+  const loadLastActivities = async (partnerIds: string[]) => {
+    if (partnerIds.length === 0) return;
+
+    const { data: activities } = await supabase
+      .from('partner_notes')
+      .select('partner_id, description')
+      .in('partner_id', partnerIds)
+      .order('start_time', { ascending: false });
+
+    const activitiesMap: { [key: string]: string | null } = {};
+    if (activities) {
+      activities.forEach((activity) => {
+        if (activity.description && !activitiesMap[activity.partner_id]) {
+          activitiesMap[activity.partner_id] = activity.description;
+        }
+      });
+    }
+    setLastActivities((prev) => ({ ...prev, ...activitiesMap }));
+  };
+
+  const fetchPartnersPage = async (cursor: string | null) => {
+    const query = new URLSearchParams({ ...listParams, limit: String(PAGE_SIZE) });
+    if (cursor) {
+      query.set('cursor', cursor);
+    }
+    return fetchWithSession(`/api/partners?${query.toString()}`);
+  };
 
   const loadPartners = async () => {
     try {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        setError('Not authenticated');
-        return;
-      }
-
-      // Fetch partners
-      const { data: partnersData, error: partnersError } = await supabase
-        .from('partners')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .order(PARTNER_SORT_ORDER.field, { ascending: PARTNER_SORT_ORDER.ascending });
-
-      if (partnersError) {
-        throw partnersError;
-      }
-
-      setPartners(partnersData || []);
-
-      // Fetch last activity descriptions for partners without descriptions
-      const partnerIds = partnersData?.map(p => p.id) || [];
-      if (partnerIds.length > 0) {
-        const { data: activities } = await supabase
-          .from('partner_notes')
-          .select('partner_id, description')
-          .in('partner_id', partnerIds)
-          .order('start_time', { ascending: false });
-
-        const activitiesMap: { [key: string]: string | null } = {};
-        if (activities) {
-          activities.forEach((activity) => {
-            if (activity.description && !activitiesMap[activity.partner_id]) {
-              activitiesMap[activity.partner_id] = activity.description;
-            }
-          });
-        }
-        setLastActivities(activitiesMap);
-      }
+      // Tag counts come with the custom fields, so they cover all partners, not just the filtered ones
+      const [page, fieldsResult, viewsResult] = await Promise.all([
+        fetchPartnersPage(null),
+        fetchWithSession('/api/custom-fields'),
+        fetchWithSession('/api/partner-views'),
+      ]);
+
+      setPartners(page.data);
+      setNextCursor(page.next_cursor);
+      setTagCounts(fieldsResult.tags || []);
+      setViews(viewsResult.data || []);
+      setError(null);
+
+      await loadLastActivities(page.data.map((partner: PartnerListItem) => partner.id));
     } catch (err) {
       console.error('Error loading partners:', err);
       setError(err instanceof Error ? err.message : 'Failed to load partners');
@@ -80,18 +167,106 @@ export default function PartnersListScreen() {
     }
   };
 
-  // Refresh when screen comes into focus
+  const loadMorePartners = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPartnersPage(nextCursor);
+      setPartners((prev) => [...prev, ...page.data]);
+      setNextCursor(page.next_cursor);
+      await loadLastActivities(page.data.map((partner: PartnerListItem) => partner.id));
+    } catch (err) {
+      console.error('Error loading more partners:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Refresh when screen comes into focus or the sort and filters change
   useFocusEffect(
     useCallback(() => {
       loadPartners();
-    }, [])
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [listParamsKey])
   );
 
+  const toggleTag = (tag: string) => {
+    updateFilters({
+      tags: selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag],
+    });
+  };
+
+  const handleSortChange = (value: PartnerListSort) => {
+    // Each sort starts in its natural order
+    updateFilters({ sort: value, order: undefined });
+  };
+
+  const toggleOrder = () => {
+    updateFilters({ order: order === 'asc' ? 'desc' : 'asc' });
+  };
+
+  const handleSaveView = async () => {
+    if (!viewName.trim()) return;
+
+    setSavingView(true);
+    try {
+      const result = await fetchWithSession('/api/partner-views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: viewName, params: listParams }),
+      });
+      setViews((prev) => [...prev, result.data].sort((a, b) => a.name.localeCompare(b.name)));
+      setViewName('');
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to save view');
+    } finally {
+      setSavingView(false);
+    }
+  };
+
+  const handleDeleteView = (view: PartnerView) => {
+    Alert.alert('Delete View', `Delete the view "${view.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await fetchWithSession(`/api/partner-views/${view.id}`, { method: 'DELETE' });
+            setViews((prev) => prev.filter((saved) => saved.id !== view.id));
+          } catch (err) {
+            Alert.alert('Error', err instanceof Error ? err.message : 'Failed to delete view');
+          }
+        },
+      },
+    ]);
+  };
+
   const onRefresh = () => {
     setRefreshing(true);
     loadPartners();
   };
 
+  const renderOptionChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.tagFilterChip, selected && styles.tagFilterChipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.tagFilterText, selected && styles.tagFilterTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderOptionRow = (label: string, chips: ReactNode) => (
+    <View style={styles.filterRow}>
+      <Text style={styles.filterLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterChips}>
+        {chips}
+      </ScrollView>
+    </View>
+  );
+
   const renderDescriptionWithLinks = (text: string) => {
     // URL regex pattern (non-global for testing individual parts)
     const urlPattern = /^https?:\/\/[^\s]+$/;
@@ -123,7 +298,7 @@ export default function PartnersListScreen() {
     );
   };
 
-  const renderPartnerCard = ({ item: partner }: { item: Partner }) => {
+  const renderPartnerCard = ({ item: partner }: { item: PartnerListItem }) => {
     try {
       const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
     const profilePictureUrl = getPartnerProfilePictureUrl(partner, supabaseUrl);
@@ -172,6 +347,13 @@ export default function PartnersListScreen() {
                 {fullName}
               </Text>
             </View>
+            {partner.status && (
+              <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[partner.status].background }]}>
+                <Text style={[styles.statusBadgeText, { color: STATUS_COLORS[partner.status].text }]}>
+                  {PARTNER_STATUS_LABELS[partner.status]}
+                </Text>
+              </View>
+            )}
             {partner.black_flag && (
               <View style={styles.blackFlagContainer}>
                 <View style={styles.blackFlagBadge}>
@@ -185,6 +367,15 @@ export default function PartnersListScreen() {
             {partner.phone_number && (
               <Text style={styles.cardText}>{partner.phone_number}</Text>
             )}
+            {partner.tags?.length > 0 && (
+              <View style={styles.cardTags}>
+                {partner.tags.map((tag) => (
+                  <View key={tag} style={styles.cardTag}>
+                    <Text style={styles.cardTagText}>{tag}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
             {description && renderDescriptionWithLinks(description)}
             <View style={styles.dateContainer}>
               <Text style={styles.dateText}>Added {createdDate}</Text>
@@ -201,7 +392,7 @@ export default function PartnersListScreen() {
             
             Alert.alert(
               'Delete Partner',
-              `Are you sure you want to delete ${partnerName}? This will permanently delete all photos, activities, and the partner record. This action cannot be undone.`,
+              `Move ${partnerName} to the trash? The partner's photos and activities are moved with it. You can restore them from the trash for 30 days.`,
               [
                 { text: 'Cancel', style: 'cancel' },
                 {
@@ -320,20 +511,149 @@ export default function PartnersListScreen() {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>Partners</Text>
-        <TouchableOpacity
-          style={styles.addButton}
-          onPress={() => navigation.navigate('PartnerCreate')}
-        >
-          <Text style={styles.addButtonText}>+ Add Partner</Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.trashButton}
+            onPress={() => navigation.navigate('Trash')}
+          >
+            <Text style={styles.trashButtonText}>Trash</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.addButton}
+            onPress={() => navigation.navigate('PartnerCreate')}
+          >
+            <Text style={styles.addButtonText}>+ Add Partner</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {partners.length > 0 ? (
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.tagFilterBar}
+        contentContainerStyle={styles.tagFilterContent}
+      >
+        {renderOptionChip(
+          'sort-and-filter',
+          hasFilters ? `Sort & Filter · ${PARTNER_LIST_SORT_LABELS[sort]}` : 'Sort & Filter',
+          showFilters,
+          () => setShowFilters(!showFilters)
+        )}
+        {views.map((view) => (
+          <TouchableOpacity
+            key={view.id}
+            style={[styles.tagFilterChip, styles.viewChip, activeView?.id === view.id && styles.tagFilterChipSelected]}
+            onPress={() => setListParams(view.params)}
+            onLongPress={() => handleDeleteView(view)}
+          >
+            <Text style={[styles.tagFilterText, activeView?.id === view.id && styles.tagFilterTextSelected]}>
+              {view.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {tagCounts.map(({ tag, count }) =>
+          renderOptionChip(`tag-${tag}`, `${tag} ${count}`, selectedTags.includes(tag), () => toggleTag(tag))
+        )}
+      </ScrollView>
+
+      {showFilters && (
+        <View style={styles.filterPanel}>
+          {renderOptionRow('Sort by', (
+            <>
+              {PartnerListSort.options.map((option) =>
+                renderOptionChip(option, PARTNER_LIST_SORT_LABELS[option], sort === option, () => handleSortChange(option))
+              )}
+              {renderOptionChip('order', order === 'asc' ? '↑ Ascending' : '↓ Descending', false, toggleOrder)}
+            </>
+          ))}
+          {renderOptionRow('Status', (
+            <>
+              {renderOptionChip('status-any', 'Any', !filters.status, () => updateFilters({ status: undefined }))}
+              {PartnerStatus.options.map((status) =>
+                renderOptionChip(status, PARTNER_STATUS_LABELS[status], filters.status === status, () => updateFilters({ status }))
+              )}
+            </>
+          ))}
+          {renderOptionRow('Black flag', (
+            <>
+              {renderOptionChip('black-flag-any', 'Any', filters.black_flag === undefined, () => updateFilters({ black_flag: undefined }))}
+              {renderOptionChip('black-flag-true', 'Black-flagged', filters.black_flag === true, () => updateFilters({ black_flag: true }))}
+              {renderOptionChip('black-flag-false', 'Not black-flagged', filters.black_flag === false, () => updateFilters({ black_flag: false }))}
+            </>
+          ))}
+          {renderOptionRow('Photos', (
+            <>
+              {renderOptionChip('photos-any', 'Any', filters.has_photos === undefined, () => updateFilters({ has_photos: undefined }))}
+              {renderOptionChip('photos-true', 'Has photos', filters.has_photos === true, () => updateFilters({ has_photos: true }))}
+              {renderOptionChip('photos-false', 'No photos', filters.has_photos === false, () => updateFilters({ has_photos: false }))}
+            </>
+          ))}
+          {renderOptionRow('Activity', (
+            <>
+              {renderOptionChip('activity-any', 'Any', !filters.activity_type, () => updateFilters({ activity_type: undefined }))}
+              {PartnerActivityType.options.map((type) =>
+                renderOptionChip(type, formatActivityType(type), filters.activity_type === type, () => updateFilters({ activity_type: type }))
+              )}
+            </>
+          ))}
+          {filters.activity_type && renderOptionRow('In the last', (
+            <>
+              {ACTIVITY_DAY_OPTIONS.map((days) =>
+                renderOptionChip(`days-${days}`, `${days} days`, filters.activity_days === days, () => updateFilters({ activity_days: days }))
+              )}
+            </>
+          ))}
+          {hasFilters && (
+            <View style={styles.saveViewRow}>
+              {!activeView && (
+                <>
+                  <TextInput
+                    style={styles.viewNameInput}
+                    value={viewName}
+                    onChangeText={setViewName}
+                    placeholder="Name this view"
+                    placeholderTextColor="#9ca3af"
+                    maxLength={MAX_PARTNER_VIEW_NAME_LENGTH}
+                  />
+                  <TouchableOpacity
+                    style={[styles.saveViewButton, (savingView || !viewName.trim()) && styles.saveViewButtonDisabled]}
+                    onPress={handleSaveView}
+                    disabled={savingView || !viewName.trim()}
+                  >
+                    <Text style={styles.saveViewButtonText}>{savingView ? 'Saving…' : 'Save View'}</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              <TouchableOpacity style={styles.clearFiltersButton} onPress={() => setListParams({})}>
+                <Text style={styles.clearFiltersText}>Clear</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {views.length > 0 && (
+            <Text style={styles.filterHint}>Long-press a saved view to delete it.</Text>
+          )}
+        </View>
+      )}
+
+      {partners.length === 0 && isFiltered ? (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No partners match these filters.</Text>
+          <TouchableOpacity
+            style={styles.emptyButton}
+            onPress={() => setListParams({})}
+          >
+            <Text style={styles.emptyButtonText}>Clear Filters</Text>
+          </TouchableOpacity>
+        </View>
+      ) : partners.length > 0 ? (
         <FlatList
           data={partners}
           renderItem={renderPartnerCard}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
+          onEndReached={loadMorePartners}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={loadingMore ? <ActivityIndicator size="small" color="#dc2626" /> : null}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -383,6 +703,23 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#111827', // gray-900
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  trashButton: {
+    borderWidth: 1,
+    borderColor: '#d1d5db', // gray-300
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+  },
+  trashButtonText: {
+    color: '#374151', // gray-700
+    fontSize: 14,
+    fontWeight: '600',
+  },
   addButton: {
     backgroundColor: '#dc2626', // primary-600
     paddingHorizontal: 16,
@@ -394,6 +731,133 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  tagFilterBar: {
+    flexGrow: 0,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  tagFilterContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  tagFilterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db', // gray-300
+    backgroundColor: '#fff',
+  },
+  tagFilterChipSelected: {
+    backgroundColor: '#dc2626', // primary-600
+    borderColor: '#dc2626',
+  },
+  tagFilterText: {
+    fontSize: 13,
+    color: '#374151', // gray-700
+  },
+  tagFilterTextSelected: {
+    color: '#fff',
+  },
+  viewChip: {
+    borderStyle: 'dashed',
+  },
+  filterPanel: {
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    paddingVertical: 8,
+  },
+  filterRow: {
+    paddingVertical: 4,
+  },
+  filterLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280', // gray-500
+    paddingHorizontal: 16,
+    marginBottom: 4,
+  },
+  filterChips: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  saveViewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  viewNameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d1d5db', // gray-300
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    fontSize: 14,
+    color: '#111827',
+  },
+  saveViewButton: {
+    backgroundColor: '#dc2626', // primary-600
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+  },
+  saveViewButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveViewButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  clearFiltersButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 7,
+    marginLeft: 'auto',
+  },
+  clearFiltersText: {
+    color: '#4b5563', // gray-600
+    fontSize: 14,
+    textDecorationLine: 'underline',
+  },
+  filterHint: {
+    fontSize: 12,
+    color: '#9ca3af', // gray-400
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginBottom: 8,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  cardTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginTop: 6,
+  },
+  cardTag: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#fef2f2', // primary-50
+  },
+  cardTagText: {
+    fontSize: 12,
+    color: '#b91c1c', // primary-700
+  },
   listContent: {
     padding: 16,
   },
@@ -14,7 +14,7 @@ import FaceSelectionModal from '../../components/FaceSelectionModal';
 import NoFaceDetectedModal from '../../components/NoFaceDetectedModal';
 import SamePersonWarningModal from '../../components/SamePersonWarningModal';
 import { getPartnerProfilePictureUrl } from '../../lib/photo-utils';
-import { Partner, PhotoUploadAnalysis, FaceMatch } from '@dating-app/shared';
+import { Partner, PhotoUploadAnalysis, PartnerFaceScore } from '@dating-app/shared';
 
 type PhotoUploadScreenRouteProp = RouteProp<PartnersStackParamList, 'PhotoUpload'>;
 type PhotoUploadScreenNavigationProp = CompositeNavigationProp<
@@ -27,7 +27,7 @@ export default function PhotoUploadScreen() {
   const route = useRoute<PhotoUploadScreenRouteProp>();
   const { source, imageUri, timestamp } = route.params || {};
   
-  const [matches, setMatches] = useState<FaceMatch[]>([]);
+  const [matches, setMatches] = useState<PartnerFaceScore[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string>('');
   const [partnerLimitMessage, setPartnerLimitMessage] = useState<string>('');
@@ -256,7 +256,7 @@ export default function PhotoUploadScreen() {
     if (analysisData && !route.params?.partnerId) {
       if (analysisData.decision.type === 'warn_other_partners') {
         // Matches found - extract matches and navigate to SimilarPartners screen
-        const allMatches = analysisData.otherPartnerMatches || [];
+        const allMatches = analysisData.otherPartnerScores || [];
         setMatches(allMatches);
         if (uploadData && selectedFaceDescriptor && allMatches.length > 0) {
           navigation.navigate('SimilarPartners', {
@@ -508,7 +508,7 @@ export default function PhotoUploadScreen() {
             {matches.map((match, index) => {
               return (
                 <TouchableOpacity
-                  key={match.photo_id || index}
+                  key={match.partner_id || index}
                   style={styles.matchCard}
                   onPress={() => {
                     if (match.partner_id) {
@@ -518,7 +518,7 @@ export default function PhotoUploadScreen() {
                 >
                   <Text style={styles.matchText}>
                     {match.partner_name || 'Unknown Partner'} 
-                    {match.distance !== undefined && ` (${((1 - match.distance) * 100).toFixed(1)}% match)`}
+                    {` (${match.confidence.toFixed(1)}% match)`}
                   </Text>
                 </TouchableOpacity>
               );
@@ -1,11 +1,13 @@
 import { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, TextInput } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, TextInput, Linking, Switch, Alert } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../../navigation/types';
 import { supabase } from '../../lib/supabase/client';
+import { registerForPushNotifications, unregisterPushDevice } from '../../lib/push-notifications';
+import { NotificationCategory, NOTIFICATION_CATEGORY_LABELS, NotificationPreferences } from '@dating-app/shared';
 
 // Common timezones list (matching web app)
 const COMMON_TIMEZONES = [
@@ -33,6 +35,26 @@ const COMMON_TIMEZONES = [
 
 type ProfileScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+interface DataExportItem {
+  id: string;
+  status: 'pending' | 'processing' | 'failed' | 'completed' | 'expired';
+  in_progress: boolean;
+  created_at: string;
+  expires_at: string | null;
+  download_urls: string[]; // One per archive part
+}
+
+// How often exports are refreshed while one is being built
+const EXPORT_POLL_INTERVAL_MS = 5000;
+
+interface AccountDeletion {
+  status: 'pending' | 'processing' | 'failed';
+  scheduled_for: string;
+}
+
+// What the user types to confirm an account deletion (checked again by the API)
+const ACCOUNT_DELETION_CONFIRMATION = 'DELETE';
+
 export default function ProfileScreen() {
   const navigation = useNavigation<ProfileScreenNavigationProp>();
   const [user, setUser] = useState<any>(null);
@@ -46,12 +68,35 @@ export default function ProfileScreen() {
     timezone: 'Asia/Jerusalem',
   });
   const [calendarConnections, setCalendarConnections] = useState<Array<{ provider: string; connected: boolean }>>([]);
+  const [dataExports, setDataExports] = useState<DataExportItem[]>([]);
+  const [includeFaceDescriptors, setIncludeFaceDescriptors] = useState(false);
+  const [requestingExport, setRequestingExport] = useState(false);
+  const [exportMessage, setExportMessage] = useState('');
+  const [accountDeletion, setAccountDeletion] = useState<AccountDeletion | null>(null);
+  const [deletionConfirmation, setDeletionConfirmation] = useState('');
+  const [deletionAction, setDeletionAction] = useState<'request' | 'cancel' | null>(null);
+  const [deletionMessage, setDeletionMessage] = useState('');
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences | null>(null);
+  const [notificationMessage, setNotificationMessage] = useState('');
+  const [enablingNotifications, setEnablingNotifications] = useState(false);
 
   useEffect(() => {
     loadUserData();
     loadCalendarConnections();
+    loadDataExports();
+    loadAccountDeletion();
+    loadNotificationPreferences();
   }, []);
 
+  const exportInProgress = dataExports.some((dataExport) => dataExport.in_progress);
+
+  useEffect(() => {
+    if (!exportInProgress) return;
+
+    const interval = setInterval(loadDataExports, EXPORT_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [exportInProgress]);
+
   const loadUserData = async () => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -105,6 +150,235 @@ export default function ProfileScreen() {
     }
   };
 
+  const getWebAppUrl = () => process.env.EXPO_PUBLIC_WEB_APP_URL || process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+
+  const loadDataExports = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch(`${getWebAppUrl()}/api/exports`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load exports');
+      }
+
+      setDataExports(result.data || []);
+    } catch (error) {
+      console.error('Error loading data exports:', error);
+    }
+  };
+
+  const handleRequestExport = async () => {
+    if (requestingExport || exportInProgress) return;
+
+    setRequestingExport(true);
+    setExportMessage('');
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const webAppUrl = getWebAppUrl();
+      const response = await fetch(`${webAppUrl}/api/exports`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ include_face_descriptors: includeFaceDescriptors }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setExportMessage('Error: ' + (result.error || 'Failed to request export'));
+        return;
+      }
+
+      // Start building the archive right away; exports are polled until it's ready
+      fetch(`${webAppUrl}/api/exports/process`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      }).catch((error) => {
+        console.log('[ProfileScreen] Error starting data export (non-blocking):', error);
+      });
+
+      setExportMessage('Your export is being prepared. The download link will appear here when it is ready.');
+      await loadDataExports();
+    } catch (error: any) {
+      setExportMessage('Error: ' + (error.message || 'Failed to request export'));
+    } finally {
+      setRequestingExport(false);
+    }
+  };
+
+  const loadAccountDeletion = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch(`${getWebAppUrl()}/api/account/deletion`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load account deletion');
+      }
+
+      setAccountDeletion(result.data || null);
+    } catch (error) {
+      console.error('Error loading account deletion:', error);
+    }
+  };
+
+  const requestAccountDeletion = async () => {
+    setDeletionAction('request');
+    setDeletionMessage('');
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch(`${getWebAppUrl()}/api/account/deletion`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ confirmation: deletionConfirmation }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setDeletionMessage('Error: ' + (result.error || 'Failed to delete account'));
+        return;
+      }
+
+      setAccountDeletion(result.data);
+      setDeletionConfirmation('');
+    } catch (error: any) {
+      setDeletionMessage('Error: ' + (error.message || 'Failed to delete account'));
+    } finally {
+      setDeletionAction(null);
+    }
+  };
+
+  const handleRequestAccountDeletion = () => {
+    if (deletionAction || deletionConfirmation !== ACCOUNT_DELETION_CONFIRMATION) return;
+
+    Alert.alert(
+      'Delete Account',
+      'Your account and all of its data will be permanently deleted in 14 days. You can cancel the deletion here until then.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete account', style: 'destructive', onPress: requestAccountDeletion },
+      ]
+    );
+  };
+
+  const handleCancelAccountDeletion = async () => {
+    if (deletionAction) return;
+
+    setDeletionAction('cancel');
+    setDeletionMessage('');
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch(`${getWebAppUrl()}/api/account/deletion`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setDeletionMessage('Error: ' + (result.error || 'Failed to cancel deletion'));
+        return;
+      }
+
+      setAccountDeletion(null);
+      setDeletionMessage('Your account will not be deleted.');
+    } catch (error: any) {
+      setDeletionMessage('Error: ' + (error.message || 'Failed to cancel deletion'));
+    } finally {
+      setDeletionAction(null);
+    }
+  };
+
+  const loadNotificationPreferences = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch(`${getWebAppUrl()}/api/notifications/preferences`, {
+        headers: { Authorization: `Bearer ${session.access_token}` },
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load notification preferences');
+      }
+
+      setNotificationPreferences(result.data);
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+    }
+  };
+
+  const handleToggleNotification = async (category: NotificationCategory, enabled: boolean) => {
+    if (!notificationPreferences) return;
+
+    const previous = notificationPreferences;
+    // Update right away and roll back if the server rejects it
+    setNotificationPreferences({ ...previous, [category]: enabled });
+    setNotificationMessage('');
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const response = await fetch(`${getWebAppUrl()}/api/notifications/preferences`, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ [category]: enabled }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update notification preferences');
+      }
+
+      setNotificationPreferences(result.data);
+    } catch (error: any) {
+      setNotificationPreferences(previous);
+      setNotificationMessage('Error: ' + (error.message || 'Failed to update notification preferences'));
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    if (enablingNotifications) return;
+
+    setEnablingNotifications(true);
+    setNotificationMessage('');
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const registered = await registerForPushNotifications(session);
+      setNotificationMessage(
+        registered
+          ? 'Notifications are on for this device.'
+          : 'Error: Could not turn on notifications. Check that notifications are allowed in your device settings.'
+      );
+    } finally {
+      setEnablingNotifications(false);
+    }
+  };
+
   const handleSave = async () => {
     if (!userData) return;
 
@@ -177,6 +451,11 @@ export default function ProfileScreen() {
           console.warn('[ProfileScreen] EXPO_PUBLIC_WEB_APP_URL not set - skipping server-side tracking');
         }
       }
+
+      // Stop notifications to this device while the session is still valid
+      if (session) {
+        await unregisterPushDevice(session);
+      }
       
       // Now do client-side sign out
       await supabase.auth.signOut();
@@ -364,6 +643,186 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Notifications Section */}
+        <View style={styles.profileCard}>
+          <Text style={styles.sectionTitle}>Notifications</Text>
+          <Text style={styles.sectionDescription}>
+            Choose which push notifications you get on your devices.
+          </Text>
+
+          {notificationMessage ? (
+            <View style={[styles.messageBox, notificationMessage.startsWith('Error') ? styles.errorBox : styles.successBox]}>
+              <Text style={[styles.messageText, notificationMessage.startsWith('Error') ? styles.errorText : styles.successText]}>
+                {notificationMessage}
+              </Text>
+            </View>
+          ) : null}
+
+          {notificationPreferences ? (
+            NotificationCategory.options.map((category) => (
+              <View key={category} style={styles.switchRow}>
+                <Text style={styles.switchLabel}>{NOTIFICATION_CATEGORY_LABELS[category]}</Text>
+                <Switch
+                  value={notificationPreferences[category]}
+                  onValueChange={(enabled) => handleToggleNotification(category, enabled)}
+                />
+              </View>
+            ))
+          ) : (
+            <ActivityIndicator size="small" color="#6b7280" style={styles.notificationsLoading} />
+          )}
+
+          <TouchableOpacity
+            style={[styles.exportButton, enablingNotifications && styles.buttonDisabled]}
+            onPress={handleEnableNotifications}
+            disabled={enablingNotifications}
+          >
+            {enablingNotifications ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>Enable on this device</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Data Export Section */}
+        <View style={styles.profileCard}>
+          <Text style={styles.sectionTitle}>Export Your Data</Text>
+          <Text style={styles.sectionDescription}>
+            Download a zip with your profile, partners, activities, photos, subscriptions and payments as JSON and CSV files. Download links stay available for 7 days. Exports larger than 500 MB are split into parts; each part can be imported on its own.
+          </Text>
+
+          {exportMessage ? (
+            <View style={[styles.messageBox, exportMessage.startsWith('Error') ? styles.errorBox : styles.successBox]}>
+              <Text style={[styles.messageText, exportMessage.startsWith('Error') ? styles.errorText : styles.successText]}>
+                {exportMessage}
+              </Text>
+            </View>
+          ) : null}
+
+          {dataExports.map((dataExport) => (
+            <View key={dataExport.id} style={styles.exportItem}>
+              <View style={styles.exportInfo}>
+                <Text style={styles.exportTitle}>Requested {formatDate(dataExport.created_at)}</Text>
+                <Text style={styles.hint}>
+                  {dataExport.in_progress
+                    ? 'Preparing...'
+                    : dataExport.status === 'completed'
+                      ? dataExport.expires_at ? `Ready · available until ${formatDate(dataExport.expires_at)}` : 'Ready'
+                      : dataExport.status === 'expired'
+                        ? 'Expired'
+                        : 'Failed - please request a new export'}
+                </Text>
+              </View>
+              {dataExport.in_progress ? (
+                <ActivityIndicator size="small" color="#6b7280" />
+              ) : dataExport.download_urls.length > 0 ? (
+                <View style={styles.downloadParts}>
+                  {dataExport.download_urls.map((url, index) => (
+                    <TouchableOpacity
+                      key={url}
+                      style={styles.downloadButton}
+                      onPress={() => Linking.openURL(url)}
+                    >
+                      <Text style={styles.downloadButtonText}>
+                        {dataExport.download_urls.length > 1 ? `Part ${index + 1}` : 'Download'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              ) : null}
+            </View>
+          ))}
+
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Include face descriptors</Text>
+            <Switch
+              value={includeFaceDescriptors}
+              onValueChange={setIncludeFaceDescriptors}
+              disabled={requestingExport || exportInProgress}
+            />
+          </View>
+          <TouchableOpacity
+            style={[styles.exportButton, (requestingExport || exportInProgress) && styles.buttonDisabled]}
+            onPress={handleRequestExport}
+            disabled={requestingExport || exportInProgress}
+          >
+            {requestingExport ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {exportInProgress ? 'Export in progress...' : 'Request export'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Delete Account Section */}
+        <View style={styles.profileCard}>
+          <Text style={styles.sectionTitle}>Delete Account</Text>
+          <Text style={styles.sectionDescription}>
+            Permanently deletes your account, partners, activities and photos, cancels your subscription and disconnects your calendars. The deletion happens 14 days after you request it, and you can change your mind until then.
+          </Text>
+
+          {deletionMessage ? (
+            <View style={[styles.messageBox, deletionMessage.startsWith('Error') ? styles.errorBox : styles.successBox]}>
+              <Text style={[styles.messageText, deletionMessage.startsWith('Error') ? styles.errorText : styles.successText]}>
+                {deletionMessage}
+              </Text>
+            </View>
+          ) : null}
+
+          {accountDeletion ? (
+            <View>
+              <View style={[styles.messageBox, styles.errorBox]}>
+                <Text style={[styles.messageText, styles.errorText]}>
+                  {accountDeletion.status === 'pending'
+                    ? `Your account is scheduled for deletion on ${formatDate(accountDeletion.scheduled_for)}.`
+                    : 'Your account is being deleted.'}
+                </Text>
+              </View>
+              {accountDeletion.status === 'pending' && new Date(accountDeletion.scheduled_for) > new Date() && (
+                <TouchableOpacity
+                  style={[styles.cancelButton, deletionAction !== null && styles.buttonDisabled]}
+                  onPress={handleCancelAccountDeletion}
+                  disabled={deletionAction !== null}
+                >
+                  {deletionAction === 'cancel' ? (
+                    <ActivityIndicator size="small" color="#374151" />
+                  ) : (
+                    <Text style={styles.cancelButtonText}>Keep my account</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : (
+            <View>
+              <Text style={styles.label}>Type {ACCOUNT_DELETION_CONFIRMATION} to confirm</Text>
+              <TextInput
+                style={[styles.input, styles.deletionInput]}
+                value={deletionConfirmation}
+                onChangeText={setDeletionConfirmation}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={[
+                  styles.exportButton,
+                  (deletionAction !== null || deletionConfirmation !== ACCOUNT_DELETION_CONFIRMATION) && styles.buttonDisabled,
+                ]}
+                onPress={handleRequestAccountDeletion}
+                disabled={deletionAction !== null || deletionConfirmation !== ACCOUNT_DELETION_CONFIRMATION}
+              >
+                {deletionAction === 'request' ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Delete account</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
         {/* Debug Section */}
         <View style={styles.profileCard}>
           <Text style={styles.sectionTitle}>Debug</Text>
@@ -602,6 +1061,60 @@ const styles = StyleSheet.create({
     color: '#9ca3af',
     fontStyle: 'italic',
   },
+  exportItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 12,
+    backgroundColor: '#f9fafb',
+    borderRadius: 6,
+    marginBottom: 12,
+  },
+  exportInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  exportTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  downloadParts: {
+    gap: 6,
+  },
+  downloadButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#f3f4f6',
+  },
+  downloadButtonText: {
+    color: '#dc2626',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  exportButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#dc2626',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  notificationsLoading: {
+    marginBottom: 12,
+  },
+  deletionInput: {
+    marginBottom: 12,
+  },
   signOutButton: {
     backgroundColor: '#dc2626',
     paddingHorizontal: 24,
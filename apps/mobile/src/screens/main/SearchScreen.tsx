@@ -0,0 +1,234 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { PartnersStackParamList } from '../../navigation/types';
+import { supabase } from '../../lib/supabase/client';
+import { MAX_SEARCH_QUERY_LENGTH, SearchResult, splitSearchSnippet } from '@dating-app/shared';
+
+type SearchScreenNavigationProp = NativeStackNavigationProp<PartnersStackParamList, 'Search'>;
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const getWebAppUrl = () => process.env.EXPO_PUBLIC_WEB_APP_URL || process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+
+const getPartnerName = (partner: { first_name: string | null; last_name: string | null }) =>
+  [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+
+export default function SearchScreen() {
+  const navigation = useNavigation<SearchScreenNavigationProp>();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setSearchedQuery(null);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    // Ignore responses for queries the user has already changed
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) {
+          setError('Not authenticated');
+          return;
+        }
+
+        const response = await fetch(`${getWebAppUrl()}/api/search?q=${encodeURIComponent(trimmed)}`, {
+          headers: { 'Authorization': `Bearer ${session.access_token}` },
+        });
+        const result = await response.json().catch(() => ({ error: 'Unknown error' }));
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to search');
+        }
+
+        if (!cancelled) {
+          setResults(result.data);
+          setSearchedQuery(trimmed);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Error searching:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to search');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const renderItem = ({ item }: { item: SearchResult }) => (
+    <TouchableOpacity
+      style={styles.card}
+      onPress={() => navigation.navigate('PartnerDetail', { partnerId: item.partner.id })}
+      activeOpacity={0.7}
+    >
+      <View style={styles.cardHeader}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{getPartnerName(item.partner)}</Text>
+        <Text style={styles.itemType}>
+          {item.activity
+            ? `${item.activity.type.charAt(0).toUpperCase() + item.activity.type.slice(1)} · ${new Date(item.activity.start_time).toLocaleDateString()}`
+            : 'Partner'}
+        </Text>
+      </View>
+      {item.snippet ? (
+        <Text style={styles.snippet} numberOfLines={3}>
+          {splitSearchSnippet(item.snippet).map((part, index) => (
+            <Text key={index} style={part.highlighted ? styles.highlight : undefined}>
+              {part.text}
+            </Text>
+          ))}
+        </Text>
+      ) : null}
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBar}>
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search partners and activities"
+          placeholderTextColor="#9ca3af"
+          maxLength={MAX_SEARCH_QUERY_LENGTH}
+          autoFocus
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+        {loading ? <ActivityIndicator size="small" color="#dc2626" style={styles.searchSpinner} /> : null}
+      </View>
+
+      {error ? (
+        <Text style={styles.errorText}>Error: {error}</Text>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => `${item.type}-${item.activity?.id || item.partner.id}`}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <Text style={styles.infoText}>
+              {searchedQuery
+                ? `Nothing matches "${searchedQuery}". Try fewer or shorter words.`
+                : 'Search partner names, contacts and descriptions, and activity locations and descriptions.'}
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb', // gray-50
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#d1d5db', // gray-300
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: '#111827',
+  },
+  searchSpinner: {
+    marginLeft: 12,
+  },
+  listContent: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827', // gray-900
+    marginRight: 8,
+  },
+  itemType: {
+    fontSize: 12,
+    color: '#6b7280', // gray-500
+  },
+  snippet: {
+    fontSize: 14,
+    color: '#374151', // gray-700
+    marginTop: 4,
+  },
+  highlight: {
+    backgroundColor: '#fef9c3', // yellow-100
+    color: '#111827',
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#dc2626',
+    textAlign: 'center',
+    margin: 24,
+  },
+});
@@ -13,7 +13,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { PartnersStackParamList } from '../../navigation/types';
-import { FaceMatch, PhotoUploadAnalysis } from '@dating-app/shared';
+import { PhotoUploadAnalysis } from '@dating-app/shared';
 import { getPartnerProfilePictureUrl } from '../../lib/photo-utils';
 import BlackFlagIcon from '../../components/BlackFlagIcon';
 import { supabase } from '../../lib/supabase/client';
@@ -37,33 +37,8 @@ export default function SimilarPartnersScreen() {
   const [uploadingPartnerId, setUploadingPartnerId] = useState<string | null>(null);
   const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
 
-  // Extract matches from analysis data
-  const matches = analysisData?.otherPartnerMatches || [];
-  
-  // Group matches by partner_id to avoid duplicates (like web app)
-  const groupedMatches = new Map<string, FaceMatch[]>();
-  matches.forEach((match) => {
-    const partnerId = match.partner_id;
-    if (!groupedMatches.has(partnerId)) {
-      groupedMatches.set(partnerId, []);
-    }
-    groupedMatches.get(partnerId)!.push(match);
-  });
-
-  // Get best match (highest similarity) for each partner
-  const uniquePartners = Array.from(groupedMatches.entries()).map(([partnerId, partnerMatches]) => {
-    const bestMatch = partnerMatches.reduce((best, current) => 
-      (current.similarity || current.confidence || 0) > (best.similarity || best.confidence || 0) ? current : best
-    );
-    return {
-      partner_id: partnerId,
-      partner_name: bestMatch.partner_name,
-      partner_profile_picture: (bestMatch as any).partner_profile_picture || null,
-      similarity: bestMatch.similarity || bestMatch.confidence || 0,
-      matchCount: partnerMatches.length,
-      black_flag: (bestMatch as any).black_flag || false,
-    };
-  });
+  // One entry per partner, scored against the partner's face model by the analyze API
+  const uniquePartners = analysisData?.otherPartnerScores || [];
 
   const handleViewPartner = (partnerId: string) => {
     // Navigate to partner detail - when back is pressed, will return to this screen
@@ -340,7 +315,7 @@ export default function SimilarPartnersScreen() {
                   </View>
                   <Text style={styles.matchSimilarity}>
                     {Math.round(partner.similarity * 100)}% match
-                    {partner.matchCount > 1 && `, ${partner.matchCount} photos`}
+                    {partner.photoCount > 1 && `, ${partner.matchCount} of ${partner.photoCount} photos`}
                   </Text>
                 </View>
                 <View style={styles.partnerActions}>
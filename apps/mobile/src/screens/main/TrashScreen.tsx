@@ -0,0 +1,328 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  SectionList,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Image,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { supabase } from '../../lib/supabase/client';
+import { getPhotoUrl } from '../../lib/photo-utils';
+
+type TrashItemType = 'partner' | 'photo' | 'activity';
+
+interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  subtitle: string;
+  imagePath: string | null;
+  purgeAt: string;
+}
+
+interface TrashSection {
+  title: string;
+  data: TrashItem[];
+}
+
+const getWebAppUrl = () => process.env.EXPO_PUBLIC_WEB_APP_URL || process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+
+const getPartnerName = (partner: { first_name: string | null; last_name: string | null }) =>
+  [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+export default function TrashScreen() {
+  const [sections, setSections] = useState<TrashSection[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        setError('Not authenticated');
+        return;
+      }
+
+      const response = await fetch(`${getWebAppUrl()}/api/trash`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` },
+      });
+      const result = await response.json().catch(() => ({ error: 'Unknown error' }));
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load trash');
+      }
+
+      const trash = result.data;
+      const nextSections: TrashSection[] = [
+        {
+          title: 'Partners',
+          data: trash.partners.map((partner: any) => ({
+            type: 'partner',
+            id: partner.id,
+            title: getPartnerName(partner),
+            subtitle: `${partner.photo_count} photos, ${partner.activity_count} activities`,
+            imagePath: partner.profile_picture_storage_path,
+            purgeAt: partner.purge_at,
+          })),
+        },
+        {
+          title: 'Photos',
+          data: trash.photos.map((photo: any) => ({
+            type: 'photo',
+            id: photo.id,
+            title: photo.partner_name,
+            subtitle: photo.file_name,
+            imagePath: photo.storage_path,
+            purgeAt: photo.purge_at,
+          })),
+        },
+        {
+          title: 'Activities',
+          data: trash.activities.map((activity: any) => ({
+            type: 'activity',
+            id: activity.id,
+            title: `${activity.type.charAt(0).toUpperCase() + activity.type.slice(1)} with ${activity.partner_name}`,
+            subtitle: new Date(activity.start_time).toLocaleString(),
+            imagePath: null,
+            purgeAt: activity.purge_at,
+          })),
+        },
+      ];
+
+      setSections(nextSections.filter((section) => section.data.length > 0));
+      setError(null);
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [])
+  );
+
+  const handleRestore = async (item: TrashItem) => {
+    if (restoringId) return;
+
+    setRestoringId(item.id);
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        Alert.alert('Error', 'Not authenticated');
+        return;
+      }
+
+      const response = await fetch(`${getWebAppUrl()}/api/trash/restore`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({ type: item.type, id: item.id }),
+      });
+      const result = await response.json().catch(() => ({ error: 'Unknown error' }));
+
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to restore');
+      }
+
+      await loadTrash();
+    } catch (err) {
+      console.error('Error restoring trash item:', err);
+      Alert.alert('Restore Error', err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const renderItem = ({ item }: { item: TrashItem }) => (
+    <View style={styles.card}>
+      {item.imagePath ? (
+        <Image source={{ uri: getPhotoUrl(item.imagePath) }} style={styles.image} />
+      ) : null}
+      <View style={styles.cardContent}>
+        <Text style={styles.itemTitle} numberOfLines={1}>{item.title}</Text>
+        <Text style={styles.itemSubtitle} numberOfLines={1}>{item.subtitle}</Text>
+        <Text style={styles.purgeText}>Permanently deleted {formatDate(item.purgeAt)}</Text>
+      </View>
+      <TouchableOpacity
+        style={[styles.restoreButton, !!restoringId && styles.restoreButtonDisabled]}
+        onPress={() => handleRestore(item)}
+        disabled={!!restoringId}
+      >
+        {restoringId === item.id ? (
+          <ActivityIndicator size="small" color="#dc2626" />
+        ) : (
+          <Text style={styles.restoreButtonText}>Restore</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#dc2626" />
+        <Text style={styles.infoText}>Loading trash...</Text>
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centerContainer}>
+        <Text style={styles.errorText}>Error: {error}</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={loadTrash}>
+          <Text style={styles.retryButtonText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <SectionList
+      style={styles.container}
+      sections={sections}
+      keyExtractor={(item) => `${item.type}-${item.id}`}
+      renderItem={renderItem}
+      renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+      ListHeaderComponent={
+        <Text style={styles.infoText}>
+          Deleted partners, photos and activities stay here for 30 days and can be restored until then.
+        </Text>
+      }
+      ListEmptyComponent={<Text style={styles.emptyText}>The trash is empty.</Text>}
+      contentContainerStyle={styles.listContent}
+      stickySectionHeadersEnabled={false}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={() => {
+            setRefreshing(true);
+            loadTrash();
+          }}
+          colors={['#dc2626']}
+        />
+      }
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb', // gray-50
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9fafb',
+    padding: 20,
+  },
+  listContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827', // gray-900
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  image: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: '#e5e7eb',
+    marginRight: 12,
+  },
+  cardContent: {
+    flex: 1,
+    minWidth: 0,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827', // gray-900
+  },
+  itemSubtitle: {
+    fontSize: 14,
+    color: '#4b5563', // gray-600
+    marginTop: 2,
+  },
+  purgeText: {
+    fontSize: 12,
+    color: '#6b7280', // gray-500
+    marginTop: 2,
+  },
+  restoreButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  restoreButtonDisabled: {
+    opacity: 0.6,
+  },
+  restoreButtonText: {
+    color: '#dc2626',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#4b5563', // gray-600
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280', // gray-500
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#dc2626',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#dc2626',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
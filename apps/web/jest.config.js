@@ -9,6 +9,8 @@ const config = {
   ],
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
   moduleNameMapper: {
+    // Same as the tsconfig paths (listed before the @/ catch-all)
+    '^@/shared$': '<rootDir>/../../packages/shared',
     '^@/(.*)$': '<rootDir>/src/$1',
   },
   transform: {
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { listAbandonedAccountDeletions, processAccountDeletionQueue } from '@/lib/account-deletion';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled deletion of accounts whose grace period is over (including retries)
+ * Triggered by Vercel Cron (see vercel.json)
+ *
+ * Deletions that gave up after the last retry are logged and returned on every
+ * run until they are fixed by hand.
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processAccountDeletionQueue(supabaseAdmin, { limit: 5 });
+    const abandoned = await listAbandonedAccountDeletions(supabaseAdmin);
+
+    if (abandoned.length > 0) {
+      console.error('[Account Deletion Cron] Deletions need attention:', {
+        deletions: abandoned.map(({ id, user_id, last_error }) => ({ id, userId: user_id, error: last_error })),
+      });
+    }
+
+    return NextResponse.json({ success: true, summary, abandoned });
+  } catch (error: any) {
+    console.error('Account deletion cron error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
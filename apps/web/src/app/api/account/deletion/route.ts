@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import {
+  ACCOUNT_DELETION_CONFIRMATION,
+  ACCOUNT_DELETION_GRACE_PERIOD_MS,
+  isAccountDeletionAbandoned,
+} from '@/lib/account-deletion';
+import { track } from '@/lib/analytics/server';
+
+const RequestAccountDeletionSchema = z.object({
+  confirmation: z.literal(ACCOUNT_DELETION_CONFIRMATION),
+  reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Account deletion
+ *
+ * Not callable with an API key.
+ *
+ * GET    - the scheduled deletion, or null; abandoned is set once it has
+ *          failed too many times to be retried
+ * POST   - schedule the deletion: { confirmation: "DELETE", reason?: string }.
+ *          The account is deleted when the grace period is over (cron)
+ * DELETE - cancel the scheduled deletion during the grace period (not once it
+ *          has started: a failed run may have already removed part of the data)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: deletion, error } = await supabase
+      .from('account_deletions')
+      .select('status, attempts, scheduled_for, created_at')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch account deletion', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: deletion && {
+        status: deletion.status,
+        scheduled_for: deletion.scheduled_for,
+        created_at: deletion.created_at,
+        abandoned: isAccountDeletionAbandoned(deletion),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching account deletion:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = RequestAccountDeletionSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: `Type ${ACCOUNT_DELETION_CONFIRMATION} to confirm the deletion`, details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Deletions are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const scheduledFor = new Date(Date.now() + ACCOUNT_DELETION_GRACE_PERIOD_MS).toISOString();
+
+    const { data: deletion, error: insertError } = await supabaseAdmin
+      .from('account_deletions')
+      .insert({
+        user_id: user.id,
+        reason: parsed.data.reason || null,
+        scheduled_for: scheduledFor,
+        next_attempt_at: scheduledFor,
+      })
+      .select('status, scheduled_for, created_at')
+      .single();
+
+    if (insertError) {
+      // Unique violation: a deletion is already scheduled
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'Account deletion is already scheduled' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to schedule account deletion', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    // Track [Account Deletion Requested] event
+    try {
+      await track('[Account Deletion Requested]', user.id, {
+        scheduled_for: scheduledFor,
+        has_reason: !!parsed.data.reason,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Account Deletion Requested] event:', analyticsError);
+    }
+
+    return NextResponse.json({ data: deletion }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error scheduling account deletion:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // A deletion that has started (running, or failed and waiting to be
+    // retried) may have cancelled the subscription or removed data already
+    const { data: cancelled, error } = await supabaseAdmin
+      .from('account_deletions')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .gt('scheduled_for', new Date().toISOString())
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to cancel account deletion', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'No cancellable account deletion found' }, { status: 404 });
+    }
+
+    // Track [Account Deletion Cancelled] event
+    try {
+      await track('[Account Deletion Cancelled]', user.id, {});
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Account Deletion Cancelled] event:', analyticsError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error cancelling account deletion:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
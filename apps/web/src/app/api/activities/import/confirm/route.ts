@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { ActivityImportSchema, FREE_TIER_ACTIVITY_LIMIT } from '@/shared';
+import { getStartTimeKey } from '@/lib/calendar/import';
+import { isActivityLimitError } from '@/lib/partner-activities';
+import { track } from '@/lib/analytics/server';
+
+const MAX_IMPORT_BATCH = 500;
+
+const ConfirmImportSchema = z.object({
+  activities: z.array(ActivityImportSchema).min(1).max(MAX_IMPORT_BATCH),
+});
+
+/**
+ * Insert the activities the user approved on the import review screen
+ *
+ * Activities starting at the same time as an existing activity (or with an
+ * already imported event UID) are skipped. The free-tier activity limit is
+ * enforced for the whole batch.
+ *
+ * Body: { activities: ActivityImport[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'activities:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase } = authResult.auth;
+
+    const userId = authResult.auth.user.id;
+    const parsed = ConfirmImportSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid import data', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { activities } = parsed.data;
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('account_type')
+      .eq('id', userId)
+      .single();
+
+    const { data: partners, error: partnersError } = await supabase
+      .from('partners')
+      .select('id')
+      .eq('user_id', userId);
+
+    if (partnersError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch partners' },
+        { status: 500 }
+      );
+    }
+
+    const partnerIds = new Set((partners || []).map((p) => p.id));
+    if (activities.some((a) => !partnerIds.has(a.partner_id))) {
+      return NextResponse.json(
+        { error: 'Partner not found' },
+        { status: 404 }
+      );
+    }
+
+    // Dedupe against existing activities (the file may have been imported before)
+    const { data: existing, error: existingError } = await supabase
+      .from('partner_notes')
+      .select('start_time, import_uid')
+      .in('partner_id', Array.from(partnerIds));
+
+    if (existingError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch existing activities' },
+        { status: 500 }
+      );
+    }
+
+    const seenStartTimes = new Set((existing || []).map((a) => getStartTimeKey(a.start_time)));
+    const seenUids = new Set((existing || []).map((a) => a.import_uid).filter(Boolean));
+
+    const toInsert = activities.filter((activity) => {
+      const startKey = getStartTimeKey(activity.start_time);
+      if (seenStartTimes.has(startKey) || (activity.import_uid && seenUids.has(activity.import_uid))) {
+        return false;
+      }
+      seenStartTimes.add(startKey);
+      if (activity.import_uid) {
+        seenUids.add(activity.import_uid);
+      }
+      return true;
+    });
+
+    const skipped = activities.length - toInsert.length;
+
+    if (toInsert.length === 0) {
+      return NextResponse.json({ success: true, imported: 0, skipped });
+    }
+
+    // Check activity limit for free users
+    const activityCount = existing?.length || 0;
+    if (user?.account_type === 'free' && activityCount + toInsert.length > FREE_TIER_ACTIVITY_LIMIT) {
+      const remaining = Math.max(FREE_TIER_ACTIVITY_LIMIT - activityCount, 0);
+      return NextResponse.json(
+        {
+          error: 'ACTIVITY_LIMIT_REACHED',
+          message: remaining === 0
+            ? `Free accounts are limited to ${FREE_TIER_ACTIVITY_LIMIT} total activities. Please upgrade to Pro to import activities.`
+            : `Free accounts are limited to ${FREE_TIER_ACTIVITY_LIMIT} total activities. You can import ${remaining} more, or upgrade to Pro to import all ${toInsert.length}.`,
+          activityCount,
+          remaining,
+        },
+        { status: 403 }
+      );
+    }
+
+    const { error: insertError } = await supabase
+      .from('partner_notes')
+      .insert(
+        toInsert.map((activity) => ({
+          partner_id: activity.partner_id,
+          type: activity.type,
+          start_time: activity.start_time,
+          end_time: activity.end_time || null,
+          location: activity.location || null,
+          description: activity.description || null,
+          imported_from: 'ics',
+          import_uid: activity.import_uid || null,
+        }))
+      );
+
+    // The limit was reached since the count above
+    if (isActivityLimitError(insertError)) {
+      return NextResponse.json(
+        {
+          error: 'ACTIVITY_LIMIT_REACHED',
+          message: `Free accounts are limited to ${FREE_TIER_ACTIVITY_LIMIT} total activities. Please upgrade to Pro to import activities.`,
+        },
+        { status: 403 }
+      );
+    }
+
+    if (insertError) {
+      console.error('Error importing activities:', insertError);
+      return NextResponse.json(
+        { error: `Failed to import activities: ${insertError.message}` },
+        { status: 500 }
+      );
+    }
+
+    // Update partners' updated_at timestamp
+    const importedPartnerIds = Array.from(new Set(toInsert.map((a) => a.partner_id)));
+    await supabase
+      .from('partners')
+      .update({ updated_at: new Date().toISOString() })
+      .in('id', importedPartnerIds);
+
+    // Track [Activities Imported] event
+    try {
+      await track('[Activities Imported]', userId, {
+        source: 'ics',
+        imported_count: toInsert.length,
+        skipped_count: skipped,
+        partner_count: importedPartnerIds.length,
+        account_type: user?.account_type,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Activities Imported] event:', analyticsError);
+    }
+
+    return NextResponse.json({ success: true, imported: toInsert.length, skipped }, { status: 201 });
+  } catch (error: any) {
+    console.error('Activity import error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { FREE_TIER_ACTIVITY_LIMIT } from '@/shared';
+import { parseIcsEvents } from '@/lib/calendar/ics';
+import { buildImportProposals } from '@/lib/calendar/import';
+import { DEFAULT_USER_TIMEZONE } from '@/lib/calendar/events';
+
+const MAX_ICS_FILE_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_IMPORT_EVENTS = 2000;
+
+/**
+ * Parse an uploaded .ics file into activity proposals for review
+ *
+ * Nothing is inserted here; the reviewed proposals are submitted to
+ * /api/activities/import/confirm.
+ *
+ * Body: multipart/form-data with a `file` field
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'activities:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase } = authResult.auth;
+    const userId = authResult.auth.user.id;
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+
+    if (file.size > MAX_ICS_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'Calendar file is too large (maximum 5 MB)' },
+        { status: 400 }
+      );
+    }
+
+    const content = await file.text();
+
+    if (!content.includes('BEGIN:VCALENDAR')) {
+      return NextResponse.json(
+        { error: 'File is not a valid calendar (.ics) file' },
+        { status: 400 }
+      );
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('account_type, timezone')
+      .eq('id', userId)
+      .single();
+
+    const events = parseIcsEvents(content, user?.timezone || DEFAULT_USER_TIMEZONE);
+
+    if (events.length === 0) {
+      return NextResponse.json(
+        { error: 'No events found in the calendar file' },
+        { status: 400 }
+      );
+    }
+
+    if (events.length > MAX_IMPORT_EVENTS) {
+      return NextResponse.json(
+        { error: `Calendar file has too many events (maximum ${MAX_IMPORT_EVENTS})` },
+        { status: 400 }
+      );
+    }
+
+    const { data: partners, error: partnersError } = await supabase
+      .from('partners')
+      .select('id, first_name, last_name')
+      .eq('user_id', userId);
+
+    if (partnersError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch partners' },
+        { status: 500 }
+      );
+    }
+
+    let existingActivities: Array<{ start_time: string; import_uid: string | null }> = [];
+    if (partners && partners.length > 0) {
+      const { data, error: activitiesError } = await supabase
+        .from('partner_notes')
+        .select('start_time, import_uid')
+        .in('partner_id', partners.map((p) => p.id));
+
+      if (activitiesError) {
+        return NextResponse.json(
+          { error: 'Failed to fetch existing activities' },
+          { status: 500 }
+        );
+      }
+      existingActivities = data || [];
+    }
+
+    const proposals = buildImportProposals(events, partners || [], existingActivities);
+
+    return NextResponse.json({
+      proposals,
+      summary: {
+        total: proposals.length,
+        matched: proposals.filter((p) => p.partner_id).length,
+        duplicates: proposals.filter((p) => p.duplicate).length,
+      },
+      activityCount: existingActivities.length,
+      activityLimit: user?.account_type === 'free' ? FREE_TIER_ACTIVITY_LIMIT : null,
+    });
+  } catch (error: any) {
+    console.error('Activity import parse error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
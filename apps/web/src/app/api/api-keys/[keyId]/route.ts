@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+
+/**
+ * Revoke an API key
+ *
+ * The row is kept (revoked_at set) so the key prefix still shows up in logs
+ * and support requests; the key stops working immediately.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { keyId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: revoked, error } = await supabaseAdmin
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', params.keyId)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to revoke API key', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import {
+  API_KEY_COLUMNS,
+  API_KEY_SCOPES,
+  generateApiKey,
+  MAX_API_KEYS_PER_USER,
+} from '@/lib/auth/api-keys';
+
+const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+});
+
+/**
+ * Manage the user's personal API keys
+ *
+ * Not callable with an API key: a leaked key must not be able to create more.
+ *
+ * GET  - active keys (no secrets)
+ * POST - create a key: { name, scopes }; the key itself is only returned here
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: keys, error } = await supabase
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch API keys', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: keys || [] });
+  } catch (error: any) {
+    console.error('Error fetching API keys:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = CreateApiKeySchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid API key', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // api_keys is read-only for users, keys are written with the admin client
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { count } = await supabaseAdmin
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('revoked_at', null);
+
+    if ((count || 0) >= MAX_API_KEYS_PER_USER) {
+      return NextResponse.json(
+        {
+          error: 'API_KEY_LIMIT_REACHED',
+          message: `You can have up to ${MAX_API_KEYS_PER_USER} API keys. Revoke one to create another.`,
+          count,
+        },
+        { status: 403 }
+      );
+    }
+
+    const { key, keyPrefix, keyHash } = await generateApiKey();
+
+    const { data: apiKey, error: insertError } = await supabaseAdmin
+      .from('api_keys')
+      .insert({
+        user_id: user.id,
+        name: parsed.data.name,
+        scopes: Array.from(new Set(parsed.data.scopes)),
+        key_prefix: keyPrefix,
+        key_hash: keyHash,
+      })
+      .select(API_KEY_COLUMNS)
+      .single();
+
+    if (insertError) {
+      return NextResponse.json(
+        { error: 'Failed to create API key', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: apiKey, key }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { track, isAmplitudeInitialized } from '@/lib/analytics/server';
-import { createClient } from '@supabase/supabase-js';
 
 // In-memory cache to prevent duplicate tracking within a short time window
 // Key: userId, Value: timestamp when tracking was attempted
@@ -19,37 +18,12 @@ const TRACKING_WINDOW_MS = 30000; // 30 seconds - prevent duplicate tracking
 export async function POST(request: NextRequest) {
   try {
     const now = Date.now();
-    // Check for Bearer token in headers (for mobile app support)
-    const authHeader = request.headers.get('authorization');
-    let supabase = createSupabaseRouteHandlerClient();
-    let user;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Access token passed directly in header (mobile app)
-      const accessToken = authHeader.substring(7);
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-      }
-      user = tokenUser;
-    } else {
-      // Use cookies (normal web flow)
-      const { data: { user: cookieUser }, error: userError } = await supabase.auth.getUser();
-      if (userError || !cookieUser) {
-        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-      }
-      user = cookieUser;
+    // Sign-ins are tracked for sessions only (cookies or the mobile app's access token)
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { user } = authResult.auth;
     
     // Deduplication: Check if we've already tracked this sign-in recently
     // This prevents duplicate events even if called from different serverless instances
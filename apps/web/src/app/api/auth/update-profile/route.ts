@@ -1,7 +1,6 @@
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { NextResponse, NextRequest } from 'next/server';
 import { track, isAmplitudeInitialized } from '@/lib/analytics/server';
-import { createClient } from '@supabase/supabase-js';
 
 export async function POST(request: NextRequest) {
   // Comprehensive logging: Route entry point
@@ -9,69 +8,20 @@ export async function POST(request: NextRequest) {
   const routeStartTime = Date.now();
   
   try {
-    // Check for Bearer token in headers (fallback if cookies aren't synced yet)
-    const authHeader = request.headers.get('authorization');
-    let supabase = createSupabaseRouteHandlerClient();
-    let session;
-    let user;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Access token passed directly in header (fallback for timing issues)
-      const accessToken = authHeader.substring(7);
-      console.log('[Auth] Using Bearer token from header');
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        console.log('[Auth] Route entry: Bearer token authentication failed', { 
-          hasUserError: !!userError, 
-          hasUser: !!tokenUser,
-          userError: userError?.message 
-        });
-        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-      }
-      user = tokenUser;
-      // Create a session-like object for compatibility
-      session = { user: tokenUser };
-    } else {
-      // Use cookies (normal flow)
-      console.log('[Auth] Using cookies for authentication');
-      // Use getUser() instead of getSession() - more reliable for API routes
-      const { data: { user: cookieUser }, error: userError } = await supabase.auth.getUser();
-      
-      if (userError || !cookieUser) {
-        console.log('[Auth] Route entry: Cookie authentication failed', { 
-          hasUserError: !!userError, 
-          hasUser: !!cookieUser,
-          userError: userError?.message 
-        });
-        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-      }
-      user = cookieUser;
-      // Get session for compatibility
-      const { data: { session: cookieSession } } = await supabase.auth.getSession();
-      session = cookieSession;
-    }
-    
-    if (!user || !session) {
-      console.log('[Auth] Route entry: No user or session after authentication');
-      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    // Cookies, or the access token in a Bearer header if cookies aren't synced yet
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      console.log('[Auth] Route entry: Authentication failed', { code: authResult.error.code });
+      return authErrorResponse(authResult.error);
     }
+    const { supabase, user, method } = authResult.auth;
 
     // Log session user ID
     console.log('[Auth] Route entry: Authenticated user', { 
       userId: user.id,
       email: user.email,
       emailConfirmed: !!user.email_confirmed_at,
-      authMethod: authHeader ? 'Bearer token' : 'cookies'
+      authMethod: method
     });
 
     // Check if user profile exists
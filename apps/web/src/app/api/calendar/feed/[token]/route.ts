@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { buildCalendarFeedForToken } from '@/lib/calendar/feed';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Private ICS feed of all of a user's activities
+ *
+ * Public endpoint polled by calendar apps; the token in the URL is the only
+ * credential (see /api/calendar/feed to create or rotate it).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const token = params.token.replace(/\.ics$/i, '');
+
+    if (!token) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const supabaseAdmin = createSupabaseAdminClient();
+    const calendar = await buildCalendarFeedForToken(supabaseAdmin, token);
+
+    if (!calendar) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    return new NextResponse(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="activities.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { generateCalendarFeedToken, getCalendarFeedUrl, hashCalendarFeedToken } from '@/lib/calendar/feed';
+
+/**
+ * Manage the user's private ICS calendar feed
+ *
+ * GET    - current feed settings ({ enabled, exclude_black_flagged })
+ * POST   - enable the feed, or rotate the token (the old URL stops working);
+ *          returns the feed URL, which can't be retrieved later (only its hash is stored)
+ * PATCH  - update settings: { exclude_black_flagged: boolean }
+ * DELETE - disable the feed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: userData, error } = await supabase
+      .from('users')
+      .select('calendar_feed_token_hash, calendar_feed_exclude_black_flagged')
+      .eq('id', user.id)
+      .single();
+
+    if (error || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      enabled: !!userData.calendar_feed_token_hash,
+      exclude_black_flagged: userData.calendar_feed_exclude_black_flagged,
+    });
+  } catch (error: any) {
+    console.error('Calendar feed settings error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    // Check if user has Pro account (required for calendar sync)
+    const { data: userData } = await supabase
+      .from('users')
+      .select('account_type')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.account_type !== 'pro') {
+      return NextResponse.json(
+        { error: 'Calendar feeds are only available for Pro accounts. Please upgrade to Pro.' },
+        { status: 403 }
+      );
+    }
+
+    const token = generateCalendarFeedToken();
+
+    const { error } = await supabase
+      .from('users')
+      .update({ calendar_feed_token_hash: hashCalendarFeedToken(token) })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Error saving calendar feed token:', error);
+      return NextResponse.json(
+        { error: 'Failed to create calendar feed' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      enabled: true,
+      url: getCalendarFeedUrl(request.nextUrl.origin, token),
+    });
+  } catch (error: any) {
+    console.error('Calendar feed create error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body?.exclude_black_flagged !== 'boolean') {
+      return NextResponse.json(
+        { error: 'exclude_black_flagged must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({ calendar_feed_exclude_black_flagged: body.exclude_black_flagged })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Error updating calendar feed settings:', error);
+      return NextResponse.json(
+        { error: 'Failed to update calendar feed settings' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      exclude_black_flagged: body.exclude_black_flagged,
+    });
+  } catch (error: any) {
+    console.error('Calendar feed update error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { error } = await supabase
+      .from('users')
+      .update({ calendar_feed_token_hash: null })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Error disabling calendar feed:', error);
+      return NextResponse.json(
+        { error: 'Failed to disable calendar feed' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, enabled: false });
+  } catch (error: any) {
+    console.error('Calendar feed delete error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { google } from 'googleapis';
 
 export async function GET(request: NextRequest) {
   try {
-    const supabase = createSupabaseServerComponentClient();
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { supabase, user } = authResult.auth;
 
     // Check if user has Pro account (required for calendar connection)
     const { data: userData } = await supabase
       .from('users')
       .select('account_type')
-      .eq('id', session.user.id)
+      .eq('id', user.id)
       .single();
 
     if (!userData || userData.account_type !== 'pro') {
@@ -44,7 +41,7 @@ export async function GET(request: NextRequest) {
       access_type: 'offline',
       scope: scopes,
       prompt: 'consent', // Force consent screen to get refresh token
-      state: session.user.id, // Store user ID in state for verification
+      state: user.id, // Store user ID in state for verification
     });
 
     return NextResponse.json({ authUrl });
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { outlookCalendarProvider } from '@/lib/calendar/providers/outlook';
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    // Check if user has Pro account (required for calendar connection)
+    const { data: userData } = await supabase
+      .from('users')
+      .select('account_type')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.account_type !== 'pro') {
+      return NextResponse.json(
+        { error: 'Calendar synchronization is only available for Pro accounts. Please upgrade to Pro.' },
+        { status: 403 }
+      );
+    }
+
+    // Generate OAuth URL (user ID in state for verification)
+    const authUrl = outlookCalendarProvider.getAuthorizationUrl(user.id);
+
+    return NextResponse.json({ authUrl });
+  } catch (error: any) {
+    console.error('Error initiating Outlook OAuth:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { reconcileUserCalendar, ReconcileSummary } from '@/lib/calendar/reconcile';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled two-way calendar reconciliation for all connected Pro users
+ * Triggered by Vercel Cron (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    // Calendar sync is a Pro feature; connections of downgraded users are kept but not reconciled
+    const { data: connections, error: connectionsError } = await supabaseAdmin
+      .from('calendar_connections')
+      .select('user_id, users!inner(account_type)')
+      .eq('users.account_type', 'pro');
+
+    if (connectionsError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch calendar connections' },
+        { status: 500 }
+      );
+    }
+
+    const userIds = Array.from(new Set((connections || []).map((c) => c.user_id)));
+    const results: Array<{ user_id: string; summary?: ReconcileSummary; error?: string }> = [];
+
+    // Process users sequentially to stay within provider rate limits
+    for (const userId of userIds) {
+      try {
+        const summary = await reconcileUserCalendar(supabaseAdmin, userId);
+        results.push({ user_id: userId, summary });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[Calendar Reconcile Cron] Error reconciling user:', { userId, error: message });
+        results.push({ user_id: userId, error: message });
+      }
+    }
+
+    return NextResponse.json({ success: true, users: results.length, results });
+  } catch (error: any) {
+    console.error('Calendar reconcile cron error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
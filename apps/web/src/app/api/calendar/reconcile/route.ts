@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { reconcileUserCalendar, ConflictStrategy } from '@/lib/calendar/reconcile';
+
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ['latest_wins', 'remote_wins', 'local_wins'];
+
+/**
+ * Pull changes made in the connected calendar(s) back into activities
+ *
+ * Body (optional): { strategy: 'latest_wins' | 'remote_wins' | 'local_wins' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const body = await request.json().catch(() => ({}));
+    const strategy: ConflictStrategy = body?.strategy || 'latest_wins';
+
+    if (!CONFLICT_STRATEGIES.includes(strategy)) {
+      return NextResponse.json(
+        { error: `strategy must be one of: ${CONFLICT_STRATEGIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Check if user has Pro account (required for calendar sync)
+    const { data: userData } = await supabase
+      .from('users')
+      .select('account_type')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || userData.account_type !== 'pro') {
+      return NextResponse.json(
+        { error: 'Calendar synchronization is only available for Pro accounts. Please upgrade to Pro.' },
+        { status: 403 }
+      );
+    }
+
+    const summary = await reconcileUserCalendar(supabase, user.id, { strategy });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('Calendar reconcile error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
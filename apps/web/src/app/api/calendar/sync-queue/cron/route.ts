@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { processCalendarSyncQueue } from '@/lib/calendar/sync-queue';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled processing of the calendar auto-sync queue (including retries)
+ * Triggered by Vercel Cron (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processCalendarSyncQueue(supabaseAdmin, { limit: 200 });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('Calendar sync queue cron error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
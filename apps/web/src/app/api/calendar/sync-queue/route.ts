@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { processCalendarSyncQueue } from '@/lib/calendar/sync-queue';
+
+/**
+ * Push the current user's queued activity changes to their calendar
+ *
+ * Called by the app right after an activity is created, edited or deleted
+ * with auto-sync enabled, so changes show up without waiting for the cron run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    // Jobs are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processCalendarSyncQueue(supabaseAdmin, { userId: user.id });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('Calendar sync queue error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
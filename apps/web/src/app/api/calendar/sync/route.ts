@@ -1,18 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
-import { getCalendarProvider } from '@/lib/calendar/factory';
-import type { CalendarEvent } from '@/lib/calendar/types';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { getUserCalendarConnection, CALENDAR_PROVIDER_LABELS } from '@/lib/calendar/connections';
+import { pushActivityToCalendar } from '@/lib/calendar/sync';
+import type { CalendarProviderType } from '@/lib/calendar/types';
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createSupabaseServerComponentClient();
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { supabase, user } = authResult.auth;
 
     const body = await request.json();
     const { activityId, partnerId } = body;
@@ -53,107 +51,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get user's calendar connection (Google for now)
-    const { data: connection, error: connectionError } = await supabase
-      .from('calendar_connections')
-      .select('*')
-      .eq('user_id', session.user.id)
-      .eq('provider', 'google')
-      .single();
+    // Get user's calendar connection
+    // Already-synced activities stay on the provider that holds their event
+    const syncedProvider: CalendarProviderType | null = activity.google_calendar_event_id
+      ? activity.calendar_provider || 'google'
+      : null;
+    const connection = await getUserCalendarConnection(
+      supabase,
+      user.id,
+      syncedProvider
+    );
 
-    if (connectionError || !connection) {
+    if (!connection) {
       return NextResponse.json(
-        { error: 'Google Calendar not connected. Please connect your calendar first.' },
+        {
+          error: syncedProvider
+            ? `${CALENDAR_PROVIDER_LABELS[syncedProvider]} not connected. Please connect your calendar first.`
+            : 'Calendar not connected. Please connect your calendar first.',
+        },
         { status: 400 }
       );
     }
 
     // Get user timezone
-    const { data: user, error: userError } = await supabase
+    const { data: userData } = await supabase
       .from('users')
       .select('timezone')
-      .eq('id', session.user.id)
+      .eq('id', user.id)
       .single();
 
-    const userTimezone = user?.timezone || 'Asia/Jerusalem';
-
-    // Format activity type for display
-    const activityTypeLabel = activity.type.charAt(0).toUpperCase() + activity.type.slice(1);
-
-    // Format partner name
-    const partnerName = [partner.first_name, partner.last_name]
-      .filter(Boolean)
-      .join(' ')
-      .trim();
-
-    // Format event title
-    const eventTitle = partnerName
-      ? `${activityTypeLabel} with ${partnerName}`
-      : activityTypeLabel;
-
-    // Calculate end time (30 minutes default if not set)
-    let endTime = activity.end_time;
-    if (!endTime) {
-      const startTime = new Date(activity.start_time);
-      endTime = new Date(startTime.getTime() + 30 * 60 * 1000).toISOString();
-    }
-
-    // Create calendar event
-    const calendarEvent: CalendarEvent = {
-      title: eventTitle,
-      description: activity.description || undefined,
-      start_time: activity.start_time,
-      end_time: endTime,
-      location: activity.location || undefined,
-      timezone: userTimezone,
-    };
-
-    const provider = getCalendarProvider('google');
-    
-    // If activity already has a calendar event ID, update it; otherwise create new
-    if (activity.google_calendar_event_id) {
-      await provider.updateEvent(
+    let result;
+    try {
+      result = await pushActivityToCalendar(
+        supabase,
+        activity,
+        partner,
         connection,
-        activity.google_calendar_event_id,
-        calendarEvent
+        userData?.timezone
       );
-      
-      return NextResponse.json({
-        success: true,
-        event_id: activity.google_calendar_event_id,
-        message: 'Calendar event updated successfully',
-      });
-    } else {
-      const result = await provider.createEvent(connection, calendarEvent);
-      
-      // Store event ID in database
-      const { error: updateError } = await supabase
+    } catch (syncError: any) {
+      // Persist the failure so the activity shows its sync status on every device
+      await supabase
         .from('partner_notes')
-        .update({ google_calendar_event_id: result.event_id })
+        .update({
+          calendar_sync_status: 'failed',
+          calendar_sync_error: syncError.message || 'Failed to sync activity',
+        })
         .eq('id', activityId);
-
-      if (updateError) {
-        console.error('Error updating activity with event ID:', updateError);
-        // Event was created but we couldn't save the ID - this is a problem
-        // Try to delete the event we just created
-        try {
-          await provider.deleteEvent(connection, result.event_id);
-        } catch (deleteError) {
-          console.error('Error cleaning up calendar event:', deleteError);
-        }
-        
-        return NextResponse.json(
-          { error: 'Failed to save calendar event ID' },
-          { status: 500 }
-        );
-      }
-
-      return NextResponse.json({
-        success: true,
-        event_id: result.event_id,
-        message: 'Activity synced to calendar successfully',
-      });
+      throw syncError;
     }
+
+    return NextResponse.json({
+      success: true,
+      event_id: result.event_id,
+      provider: result.provider,
+      message: result.created
+        ? 'Activity synced to calendar successfully'
+        : 'Calendar event updated successfully',
+    });
   } catch (error: any) {
     console.error('Calendar sync error:', error);
     return NextResponse.json(
@@ -162,4 +117,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
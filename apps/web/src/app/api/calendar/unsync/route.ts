@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { getCalendarProvider } from '@/lib/calendar/factory';
+import { getUserCalendarConnection } from '@/lib/calendar/connections';
 
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createSupabaseServerComponentClient();
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
-
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const authResult = await authenticateRequest(request, { scope: 'calendar:sync' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { supabase, user } = authResult.auth;
 
     const body = await request.json();
     const { activityId } = body;
@@ -26,7 +24,7 @@ export async function POST(request: NextRequest) {
     // Get activity
     const { data: activity, error: activityError } = await supabase
       .from('partner_notes')
-      .select('google_calendar_event_id')
+      .select('google_calendar_event_id, calendar_provider')
       .eq('id', activityId)
       .single();
 
@@ -44,19 +42,24 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Get user's calendar connection
-    const { data: connection, error: connectionError } = await supabase
-      .from('calendar_connections')
-      .select('*')
-      .eq('user_id', session.user.id)
-      .eq('provider', 'google')
-      .single();
+    // Get the connection for the provider that holds the event
+    const connection = await getUserCalendarConnection(
+      supabase,
+      user.id,
+      activity.calendar_provider || 'google'
+    );
 
-    if (connectionError || !connection) {
+    if (!connection) {
       // If no connection, just clear the event ID
       const { error: updateError } = await supabase
         .from('partner_notes')
-        .update({ google_calendar_event_id: null })
+        .update({
+          google_calendar_event_id: null,
+          calendar_provider: null,
+          calendar_sync_hash: null,
+          calendar_sync_status: null,
+          calendar_sync_error: null,
+        })
         .eq('id', activityId);
 
       if (updateError) {
@@ -74,7 +77,7 @@ export async function POST(request: NextRequest) {
 
     // Delete event from calendar
     try {
-      const provider = getCalendarProvider('google');
+      const provider = getCalendarProvider(connection.provider);
       await provider.deleteEvent(connection, activity.google_calendar_event_id);
     } catch (deleteError: any) {
       // If deletion fails (e.g., event already deleted), still clear the ID
@@ -84,7 +87,13 @@ export async function POST(request: NextRequest) {
     // Clear event ID from database
     const { error: updateError } = await supabase
       .from('partner_notes')
-      .update({ google_calendar_event_id: null })
+      .update({
+        google_calendar_event_id: null,
+        calendar_provider: null,
+        calendar_sync_hash: null,
+        calendar_sync_status: null,
+        calendar_sync_error: null,
+      })
       .eq('id', activityId);
 
     if (updateError) {
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { CustomFieldDefinitionUpdateSchema } from '@/shared';
+
+/**
+ * Update a custom field: { name?, options?, position? }
+ *
+ * The type can't change. Removing an option of a select field doesn't
+ * change partners that have it; they keep the value until it is edited.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { fieldId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = CustomFieldDefinitionUpdateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid custom field', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: field } = await supabaseAdmin
+      .from('custom_field_definitions')
+      .select('type')
+      .eq('id', params.fieldId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!field) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    if (field.type === 'select' && parsed.data.options?.length === 0) {
+      return NextResponse.json({ error: 'Select fields need at least one option' }, { status: 400 });
+    }
+
+    if (field.type !== 'select' && parsed.data.options !== undefined) {
+      return NextResponse.json({ error: 'Only select fields have options' }, { status: 400 });
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('custom_field_definitions')
+      .update(parsed.data)
+      .eq('id', params.fieldId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (updateError) {
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: 'A custom field with this name already exists' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to update custom field', details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: updated });
+  } catch (error: any) {
+    console.error('Error updating custom field:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a custom field and its values on all partners
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { fieldId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('custom_field_definitions')
+      .delete()
+      .eq('id', params.fieldId)
+      .eq('user_id', user.id)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to delete custom field', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    const { error: valuesError } = await supabaseAdmin.rpc('remove_partner_custom_field', {
+      target_user_id: user.id,
+      field_id: params.fieldId,
+    });
+
+    if (valuesError) {
+      // Values of unknown fields are ignored, so the field is deleted either way
+      console.error('Error removing custom field values:', valuesError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting custom field:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { getCustomFieldDefinitions, getPartnerTagCounts } from '@/lib/custom-fields';
+import { CustomFieldDefinitionSchema, MAX_CUSTOM_FIELDS } from '@/shared';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * Custom partner fields of the account
+ *
+ * GET  - the field definitions in display order, and the tags in use:
+ *        { data: CustomFieldDefinition[], tags: { tag, count }[] }
+ * POST - define a field: { name, type: "text" | "number" | "date" | "select", options? }
+ *        (options are required for select fields)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const [fields, tags] = await Promise.all([
+      getCustomFieldDefinitions(supabase, user.id),
+      getPartnerTagCounts(supabase, user.id),
+    ]);
+
+    return NextResponse.json({ data: fields, tags });
+  } catch (error: any) {
+    console.error('Error fetching custom fields:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = CustomFieldDefinitionSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid custom field', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Definitions are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const existing = await getCustomFieldDefinitions(supabaseAdmin, user.id);
+
+    if (existing.length >= MAX_CUSTOM_FIELDS) {
+      return NextResponse.json(
+        { error: `You can define up to ${MAX_CUSTOM_FIELDS} custom fields` },
+        { status: 400 }
+      );
+    }
+
+    const { data: field, error: insertError } = await supabaseAdmin
+      .from('custom_field_definitions')
+      .insert({
+        user_id: user.id,
+        name: parsed.data.name,
+        type: parsed.data.type,
+        options: parsed.data.type === 'select' ? parsed.data.options : [],
+        position: existing.length > 0 ? existing[existing.length - 1].position + 1 : 0,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // Unique violation: a field with this name exists
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'A custom field with this name already exists' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to create custom field', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    // Track [Custom Field Created] event
+    try {
+      await track('[Custom Field Created]', user.id, {
+        field_type: parsed.data.type,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Custom Field Created] event:', analyticsError);
+    }
+
+    return NextResponse.json({ data: field }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating custom field:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { expireDataExports, processDataExportQueue } from '@/lib/data-export';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled building of data exports (including retries) and deletion of expired archives
+ * Triggered by Vercel Cron (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processDataExportQueue(supabaseAdmin, { limit: 3 });
+    const expired = await expireDataExports(supabaseAdmin);
+
+    return NextResponse.json({ success: true, summary, expired });
+  } catch (error: any) {
+    console.error('Data export cron error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { processDataExportQueue } from '@/lib/data-export';
+
+/**
+ * Build the current user's requested export
+ *
+ * Called by the app right after requesting an export so the archive is
+ * usually ready without waiting for the cron run. The app doesn't wait for
+ * the response; it polls GET /api/exports.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    // Exports are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processDataExportQueue(supabaseAdmin, { userId: user.id, limit: 1 });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('Data export error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import {
+  DataExport,
+  getDataExportDownloadUrls,
+  isDataExportInProgress,
+} from '@/lib/data-export';
+import { track } from '@/lib/analytics/server';
+
+const CreateDataExportSchema = z.object({
+  include_face_descriptors: z.boolean().optional().default(false),
+});
+
+// Exports listed on the profile page
+const RECENT_EXPORTS_LIMIT = 5;
+
+/**
+ * Account data exports
+ *
+ * Not callable with an API key: an export contains the whole account.
+ *
+ * GET  - recent exports; completed ones include short-lived download_urls,
+ *        one per archive part
+ * POST - request an export: { include_face_descriptors?: boolean }. The
+ *        archive is built in the background (/api/exports/process, cron)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: exports, error } = await supabase
+      .from('data_exports')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_EXPORTS_LIMIT);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch data exports', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    // The archive bucket is only readable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const data = await Promise.all(
+      ((exports || []) as DataExport[]).map(async (dataExport) => ({
+        id: dataExport.id,
+        status: dataExport.status,
+        in_progress: isDataExportInProgress(dataExport),
+        include_face_descriptors: dataExport.include_face_descriptors,
+        file_size: dataExport.file_size,
+        last_error: dataExport.last_error,
+        created_at: dataExport.created_at,
+        completed_at: dataExport.completed_at,
+        expires_at: dataExport.expires_at,
+        download_urls: dataExport.status === 'completed'
+          ? await getDataExportDownloadUrls(supabaseAdmin, dataExport)
+          : [],
+      }))
+    );
+
+    return NextResponse.json({ data });
+  } catch (error: any) {
+    console.error('Error fetching data exports:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = CreateDataExportSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid export request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Exports are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: recent, error: recentError } = await supabaseAdmin
+      .from('data_exports')
+      .select('*')
+      .eq('user_id', user.id)
+      .in('status', ['pending', 'processing', 'failed'])
+      .order('created_at', { ascending: false });
+
+    if (recentError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch data exports', details: recentError.message },
+        { status: 500 }
+      );
+    }
+
+    const inProgress = ((recent || []) as DataExport[]).find(isDataExportInProgress);
+    if (inProgress) {
+      return NextResponse.json(
+        { error: 'An export is already being prepared', data: { id: inProgress.id, status: inProgress.status } },
+        { status: 409 }
+      );
+    }
+
+    const { data: dataExport, error: insertError } = await supabaseAdmin
+      .from('data_exports')
+      .insert({
+        user_id: user.id,
+        include_face_descriptors: parsed.data.include_face_descriptors,
+      })
+      .select('id, status, include_face_descriptors, created_at')
+      .single();
+
+    if (insertError) {
+      return NextResponse.json(
+        { error: 'Failed to create data export', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    // Track [Data Export Requested] event
+    try {
+      await track('[Data Export Requested]', user.id, {
+        include_face_descriptors: parsed.data.include_face_descriptors,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Data Export Requested] event:', analyticsError);
+    }
+
+    return NextResponse.json({ data: dataExport }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating data export:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
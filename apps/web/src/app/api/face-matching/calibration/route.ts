@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { calibrateFaceMatchThreshold, MAX_CALIBRATION_PHOTOS } from '@/lib/face-calibration';
+
+/**
+ * Calibrate the face match threshold on the user's own photos
+ *
+ * Photos of the same partner are treated as the same person and photos of
+ * different partners as different people. Returns false-match and
+ * missed-match rates for a range of thresholds.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: partners, error: partnersError } = await supabase
+      .from('partners')
+      .select('id')
+      .eq('user_id', user.id);
+
+    if (partnersError) {
+      return NextResponse.json({ error: 'Failed to fetch partners' }, { status: 500 });
+    }
+
+    const partnerIds = (partners || []).map((p) => p.id);
+    if (partnerIds.length === 0) {
+      return NextResponse.json({ ...calibrateFaceMatchThreshold([]), truncated: false });
+    }
+
+    // Fetch one extra row to know whether the photo limit cut anything off
+    const { data: photos, error: photosError } = await supabase
+      .from('partner_photos')
+      .select('id, partner_id, face_descriptor')
+      .in('partner_id', partnerIds)
+      .not('face_descriptor', 'is', null)
+      .order('uploaded_at', { ascending: false })
+      .limit(MAX_CALIBRATION_PHOTOS + 1);
+
+    if (photosError) {
+      return NextResponse.json({ error: 'Failed to fetch photos' }, { status: 500 });
+    }
+
+    const truncated = (photos || []).length > MAX_CALIBRATION_PHOTOS;
+    const calibration = calibrateFaceMatchThreshold((photos || []).slice(0, MAX_CALIBRATION_PHOTOS));
+
+    return NextResponse.json({ ...calibration, truncated });
+  } catch (error: any) {
+    console.error('Face match calibration error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import {
+  FACE_MATCH_THRESHOLD_PRESETS,
+  MIN_FACE_MATCH_THRESHOLD,
+  MAX_FACE_MATCH_THRESHOLD,
+  getDefaultFaceMatchThreshold,
+  isValidFaceMatchThreshold,
+  resolveFaceMatchThreshold,
+} from '@/lib/face-matching';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * The user's face match threshold
+ *
+ * GET - { threshold (in effect), userThreshold (null = default), defaultThreshold, presets }
+ * PUT - { threshold: number | null } (null goes back to the default)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: userData, error } = await supabase
+      .from('users')
+      .select('face_match_threshold')
+      .eq('id', user.id)
+      .single();
+
+    if (error || !userData) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      threshold: resolveFaceMatchThreshold(userData.face_match_threshold),
+      userThreshold: userData.face_match_threshold,
+      defaultThreshold: getDefaultFaceMatchThreshold(),
+      presets: FACE_MATCH_THRESHOLD_PRESETS,
+    });
+  } catch (error: any) {
+    console.error('Face match threshold error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const body = await request.json();
+    const threshold = body?.threshold ?? null;
+
+    if (threshold !== null && !isValidFaceMatchThreshold(threshold)) {
+      return NextResponse.json(
+        { error: `threshold must be a number between ${MIN_FACE_MATCH_THRESHOLD} and ${MAX_FACE_MATCH_THRESHOLD}, or null` },
+        { status: 400 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('users')
+      .update({ face_match_threshold: threshold })
+      .eq('id', user.id);
+
+    if (error) {
+      throw error;
+    }
+
+    try {
+      await track('[Face Match Threshold Changed]', user.id, {
+        threshold: resolveFaceMatchThreshold(threshold),
+        is_default: threshold === null,
+      });
+    } catch (analyticsError) {
+      console.error('Failed to track [Face Match Threshold Changed] event:', analyticsError);
+    }
+
+    return NextResponse.json({
+      threshold: resolveFaceMatchThreshold(threshold),
+      userThreshold: threshold,
+    });
+  } catch (error: any) {
+    console.error('Face match threshold update error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * Import an archive after reviewing its dry run report
+ *
+ * Queues the import itself; call POST /api/imports/process to run it, or
+ * wait for the cron run.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { importId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: dataImport, error } = await supabaseAdmin
+      .from('data_imports')
+      .update({
+        mode: 'apply',
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: new Date().toISOString(),
+      })
+      .eq('id', params.importId)
+      .eq('user_id', user.id)
+      .eq('status', 'reviewed')
+      .select('id, mode, status, report')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to confirm import', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!dataImport) {
+      return NextResponse.json({ error: 'No dry run waiting for confirmation' }, { status: 404 });
+    }
+
+    // Track [Data Import Confirmed] event
+    try {
+      await track('[Data Import Confirmed]', user.id, {
+        partner_count: dataImport.report?.partners?.total ?? 0,
+        activity_count: dataImport.report?.activities?.total ?? 0,
+        photo_count: dataImport.report?.photos?.total ?? 0,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Data Import Confirmed] event:', analyticsError);
+    }
+
+    return NextResponse.json({ data: dataImport });
+  } catch (error: any) {
+    console.error('Error confirming data import:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { deleteImportArchive } from '@/lib/data-import';
+
+/**
+ * Cancel an import after its dry run (or after it failed) and delete the archive
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { importId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: cancelled, error } = await supabaseAdmin
+      .from('data_imports')
+      .update({ status: 'cancelled' })
+      .eq('id', params.importId)
+      .eq('user_id', user.id)
+      .in('status', ['reviewed', 'failed'])
+      .select('id, storage_path')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to cancel import', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Import not found or already running' }, { status: 404 });
+    }
+
+    await deleteImportArchive(supabaseAdmin, cancelled);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error cancelling data import:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { cleanupDataImports, processDataImportQueue } from '@/lib/data-import';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+
+// Dry runs not confirmed within this time are cancelled and their archives deleted
+const UNCONFIRMED_IMPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Scheduled running of data imports (including retries and continuations) and cleanup of archives
+ * Triggered by Vercel Cron (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processDataImportQueue(supabaseAdmin, { limit: 1 });
+    const cancelled = await cleanupDataImports(supabaseAdmin, UNCONFIRMED_IMPORT_TTL_MS);
+
+    return NextResponse.json({ success: true, summary, cancelled });
+  } catch (error: any) {
+    console.error('Data import cron error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { processDataImportQueue } from '@/lib/data-import';
+
+/**
+ * Run the current user's queued import (dry run or import)
+ *
+ * Called by the app after starting or confirming an import, and again while
+ * a large import continues (summary.continued); the app polls GET /api/imports.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    // Imports are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processDataImportQueue(supabaseAdmin, { userId: user.id, limit: 1 });
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('Data import error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { DataImport, isDataImportActive } from '@/lib/data-import';
+
+const CreateDataImportSchema = z.object({
+  storage_path: z.string().min(1),
+});
+
+// Imports listed on the profile page
+const RECENT_IMPORTS_LIMIT = 5;
+
+/**
+ * Account data imports (restoring a data export archive)
+ *
+ * Not callable with an API key: an import can change the whole account.
+ *
+ * GET  - recent imports with their report
+ * POST - start a dry run for an uploaded archive: { storage_path } from
+ *        POST /api/imports/upload-url. Confirm the report with
+ *        POST /api/imports/[importId]/confirm to import.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: imports, error } = await supabase
+      .from('data_imports')
+      .select('id, mode, status, report, attempts, last_error, created_at, completed_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_IMPORTS_LIMIT);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to fetch data imports', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    const data = ((imports || []) as DataImport[]).map((dataImport) => ({
+      ...dataImport,
+      active: isDataImportActive(dataImport),
+    }));
+
+    return NextResponse.json({ data });
+  } catch (error: any) {
+    console.error('Error fetching data imports:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = CreateDataImportSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid import request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { storage_path } = parsed.data;
+    if (!storage_path.startsWith(`${user.id}/imports/`) || storage_path.includes('..')) {
+      return NextResponse.json({ error: 'Invalid storage_path' }, { status: 400 });
+    }
+
+    // Imports are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: recent, error: recentError } = await supabaseAdmin
+      .from('data_imports')
+      .select('id, status, attempts')
+      .eq('user_id', user.id)
+      .in('status', ['pending', 'processing', 'failed', 'reviewed']);
+
+    if (recentError) {
+      return NextResponse.json(
+        { error: 'Failed to fetch data imports', details: recentError.message },
+        { status: 500 }
+      );
+    }
+
+    const active = (recent || []).find(isDataImportActive);
+    if (active) {
+      return NextResponse.json(
+        { error: 'Finish or cancel the current import first', data: { id: active.id, status: active.status } },
+        { status: 409 }
+      );
+    }
+
+    const { data: dataImport, error: insertError } = await supabaseAdmin
+      .from('data_imports')
+      .insert({ user_id: user.id, storage_path })
+      .select('id, mode, status, created_at')
+      .single();
+
+    if (insertError) {
+      return NextResponse.json(
+        { error: 'Failed to create data import', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: dataImport }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating data import:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { EXPORT_BUCKET } from '@/lib/data-export';
+import { getImportArchivePath, MAX_IMPORT_ARCHIVE_BYTES } from '@/lib/data-import';
+
+/**
+ * Signed upload URL for an archive to import
+ *
+ * Archives can be larger than a request body may be, so the browser uploads
+ * them straight to storage (uploadToSignedUrl) and then passes the path to
+ * POST /api/imports. max_bytes is the largest archive an import accepts.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    // The archive bucket is only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const path = getImportArchivePath(user.id, uuidv4());
+
+    const { data, error } = await supabaseAdmin.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error || !data) {
+      return NextResponse.json(
+        { error: 'Failed to create upload URL', details: error?.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      data: { bucket: EXPORT_BUCKET, path: data.path, token: data.token, max_bytes: MAX_IMPORT_ARCHIVE_BYTES },
+    });
+  } catch (error: any) {
+    console.error('Error creating import upload URL:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { getPartnerInsights } from '@/lib/insights';
+
+/**
+ * Dating insights for the dashboard, in the user's timezone
+ *
+ * Returns { data: PartnerInsights }: dates per month, activity types, average
+ * days from first contact to first date, top locations and active partners.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('timezone')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    const insights = await getPartnerInsights(supabase, user.id, profile?.timezone);
+
+    return NextResponse.json({ data: insights });
+  } catch (error: any) {
+    console.error('Error computing insights:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
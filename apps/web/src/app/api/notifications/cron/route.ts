@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { sendUpcomingActivityAlerts } from '@/lib/notifications';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scheduled push alerts for activities starting soon
+ * Triggered by Vercel Cron (see vercel.json)
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await sendUpcomingActivityAlerts(supabaseAdmin);
+
+    return NextResponse.json({ success: true, summary });
+  } catch (error: any) {
+    console.error('Activity alerts cron error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { PushDeviceSchema } from '@/shared';
+
+/**
+ * Register the device for push notifications: { token, platform }
+ *
+ * Called by the mobile app after sign-in and whenever the token changes. A
+ * token registered by another account (shared device) moves to this user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = PushDeviceSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid device', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: device, error } = await supabaseAdmin
+      .from('push_devices')
+      .upsert(
+        {
+          user_id: user.id,
+          token: parsed.data.token,
+          platform: parsed.data.platform,
+          last_registered_at: new Date().toISOString(),
+        },
+        { onConflict: 'token' }
+      )
+      .select('id, platform, last_registered_at, created_at')
+      .single();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to register device', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: device });
+  } catch (error: any) {
+    console.error('Error registering push device:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Stop sending notifications to the device: { token } (on sign-out)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = PushDeviceSchema.pick({ token: true }).safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid device', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { error } = await supabaseAdmin
+      .from('push_devices')
+      .delete()
+      .eq('token', parsed.data.token)
+      .eq('user_id', user.id);
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to remove device', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing push device:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
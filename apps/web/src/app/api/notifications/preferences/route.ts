@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { getNotificationPreferences, NotificationPreferencesUpdateSchema } from '@/shared';
+
+/**
+ * The user's push notification preferences (every category, true = on)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: userData, error } = await supabase
+      .from('users')
+      .select('notification_preferences')
+      .eq('id', user.id)
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: 'Failed to fetch notification preferences' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: getNotificationPreferences(userData.notification_preferences) });
+  } catch (error: any) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Turn notification categories on or off: { reminders?: boolean, ... }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = NotificationPreferencesUpdateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid notification preferences', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: userData, error: fetchError } = await supabaseAdmin
+      .from('users')
+      .select('notification_preferences')
+      .eq('id', user.id)
+      .single();
+
+    if (fetchError) {
+      return NextResponse.json({ error: 'Failed to fetch notification preferences' }, { status: 500 });
+    }
+
+    const preferences = getNotificationPreferences({ ...userData.notification_preferences, ...parsed.data });
+
+    const { error: updateError } = await supabaseAdmin
+      .from('users')
+      .update({ notification_preferences: preferences })
+      .eq('id', user.id);
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: 'Failed to update notification preferences', details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ data: preferences });
+  } catch (error: any) {
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+
+/**
+ * Delete a saved view of the partners list
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { viewId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('partner_views')
+      .delete()
+      .eq('id', params.viewId)
+      .eq('user_id', user.id)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json(
+        { error: 'Failed to delete view', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'View not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting partner view:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { getPartnerViews, normalizePartnerViewParams } from '@/lib/partner-views';
+import { MAX_PARTNER_VIEWS, PartnerViewSchema } from '@/shared';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * Saved views of the partners list
+ *
+ * GET  - the views by name: { data: PartnerView[] }
+ * POST - save a view: { name, params } where params are the list's query
+ *        parameters (sort, order, filters and field.<fieldId>, as in
+ *        GET /api/partners); other parameters are dropped
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const views = await getPartnerViews(supabase, user.id);
+
+    return NextResponse.json({ data: views });
+  } catch (error: any) {
+    console.error('Error fetching partner views:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const parsed = PartnerViewSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid view', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const normalized = await normalizePartnerViewParams(supabase, user.id, parsed.data.params);
+    if ('error' in normalized) {
+      return NextResponse.json({ error: normalized.error }, { status: 400 });
+    }
+
+    // Views are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const existing = await getPartnerViews(supabaseAdmin, user.id);
+
+    if (existing.length >= MAX_PARTNER_VIEWS) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_PARTNER_VIEWS} views` },
+        { status: 400 }
+      );
+    }
+
+    const { data: view, error: insertError } = await supabaseAdmin
+      .from('partner_views')
+      .insert({
+        user_id: user.id,
+        name: parsed.data.name,
+        params: normalized.params,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // Unique violation: a view with this name exists
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'A view with this name already exists' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: 'Failed to save view', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    // Track [Partner View Saved] event
+    try {
+      await track('[Partner View Saved]', user.id, {
+        sort: normalized.params.sort || 'updated_at',
+        filter_count: Object.keys(normalized.params).filter((key) => key !== 'sort' && key !== 'order').length,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Partner View Saved] event:', analyticsError);
+    }
+
+    return NextResponse.json({ data: view }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error saving partner view:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
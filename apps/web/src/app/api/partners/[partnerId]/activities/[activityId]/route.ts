@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { PartnerActivityUpdateSchema } from '@/shared';
+import { normalizeActivityFields } from '@/lib/partner-activities';
+import { trashActivity } from '@/lib/trash';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * Update an activity
+ *
+ * Body: any PartnerActivityUpdateSchema fields; omitted fields are left
+ * unchanged and null or '' clears end_time, location or description.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { partnerId: string; activityId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'activities:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const parsed = PartnerActivityUpdateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid activity', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: partner } = await supabase
+      .from('partners')
+      .select('id')
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!partner) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
+
+    const { start_time, type, ...optional } = parsed.data;
+    const updates = {
+      ...(start_time && { start_time }),
+      ...(type && { type }),
+      ...normalizeActivityFields(optional),
+    };
+
+    const { data: activity, error: updateError } = await supabase
+      .from('partner_notes')
+      .update(updates)
+      .eq('id', params.activityId)
+      .eq('partner_id', params.partnerId)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      return NextResponse.json(
+        { error: 'Failed to update activity', details: updateError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!activity) {
+      return NextResponse.json({ error: 'Activity not found' }, { status: 404 });
+    }
+
+    // Update partner's updated_at timestamp
+    await supabase
+      .from('partners')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', params.partnerId);
+
+    return NextResponse.json({ data: activity });
+  } catch (error: any) {
+    console.error('Error updating activity:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete an activity: moves it to the trash, where it can be restored until
+ * it is purged (see lib/trash). A synced calendar event is kept until then.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { partnerId: string; activityId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'activities:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    // Trashed rows are hidden from the user's client, so the trash is written with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const result = await trashActivity(supabaseAdmin, user.id, params.partnerId, params.activityId);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    // Track [Activity Deleted] event
+    try {
+      await track('[Activity Deleted]', user.id, {
+        partner_id: params.partnerId,
+        activity_type: result.type,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Activity Deleted] event:', analyticsError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting activity:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
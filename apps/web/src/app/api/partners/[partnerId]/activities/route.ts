@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { FREE_TIER_ACTIVITY_LIMIT, PartnerActivityCreateSchema } from '@/shared';
+import {
+  countUserActivities,
+  getActivityLimitMessage,
+  isActivityLimitError,
+  normalizeActivityFields,
+} from '@/lib/partner-activities';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * List a partner's activities, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: partner } = await supabase
+      .from('partners')
+      .select('id')
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!partner) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
+
+    const { data: activities, error: activitiesError } = await supabase
+      .from('partner_notes')
+      .select('*')
+      .eq('partner_id', params.partnerId)
+      .order('start_time', { ascending: false });
+
+    if (activitiesError) {
+      return NextResponse.json({ error: 'Failed to fetch activities' }, { status: 500 });
+    }
+
+    return NextResponse.json({ data: activities || [] });
+  } catch (error: any) {
+    console.error('Error fetching activities:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create an activity for a partner
+ *
+ * Body: PartnerActivityCreateSchema. Free accounts are limited to
+ * FREE_TIER_ACTIVITY_LIMIT activities across all partners.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'activities:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const parsed = PartnerActivityCreateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid activity', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: partner } = await supabase
+      .from('partners')
+      .select('id')
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!partner) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
+
+    const { data: userData, error: userDataError } = await supabase
+      .from('users')
+      .select('account_type')
+      .eq('id', user.id)
+      .single();
+
+    if (userDataError || !userData) {
+      return NextResponse.json(
+        { error: 'Failed to fetch user information' },
+        { status: 500 }
+      );
+    }
+
+    // Check activity limit for free users
+    if (userData.account_type === 'free') {
+      const activityCount = await countUserActivities(supabase, user.id);
+
+      if (activityCount >= FREE_TIER_ACTIVITY_LIMIT) {
+        return NextResponse.json(
+          {
+            error: 'ACTIVITY_LIMIT_REACHED',
+            message: getActivityLimitMessage(activityCount),
+            activityCount,
+          },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { start_time, type, ...optional } = parsed.data;
+    const { data: activity, error: insertError } = await supabase
+      .from('partner_notes')
+      .insert({
+        partner_id: params.partnerId,
+        start_time,
+        type,
+        ...normalizeActivityFields(optional),
+      })
+      .select()
+      .single();
+
+    // The limit was reached since the count above
+    if (isActivityLimitError(insertError)) {
+      return NextResponse.json(
+        {
+          error: 'ACTIVITY_LIMIT_REACHED',
+          message: getActivityLimitMessage(FREE_TIER_ACTIVITY_LIMIT),
+          activityCount: FREE_TIER_ACTIVITY_LIMIT,
+        },
+        { status: 403 }
+      );
+    }
+
+    if (insertError) {
+      return NextResponse.json(
+        { error: 'Failed to create activity', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    // Update partner's updated_at timestamp
+    await supabase
+      .from('partners')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', params.partnerId);
+
+    // Track [Activity Added] event
+    try {
+      await track('[Activity Added]', user.id, {
+        partner_id: params.partnerId,
+        activity_type: type,
+        account_type: userData.account_type,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Activity Added] event:', analyticsError);
+    }
+
+    return NextResponse.json({ data: activity }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating activity:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
-import { createClient } from '@supabase/supabase-js';
-import { findFaceMatches } from '@/lib/face-matching';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { getFaceIndex } from '@/lib/face-index/factory';
+import { findPartnerFaceMatches } from '@/lib/face-index/partner-models';
+import { getUserFaceMatchThreshold } from '@/lib/face-index/threshold';
 import { analyzePhotoUploadForPartner } from '@/lib/photo-upload-decision';
-import { FaceMatch } from '@/shared';
+import { FaceMatch, PartnerFaceScore } from '@/shared';
 import { track } from '@/lib/analytics/server';
 
 /**
@@ -12,6 +13,7 @@ import { track } from '@/lib/analytics/server';
  * This endpoint receives a face descriptor and returns:
  * - Matches within the partner's photos
  * - Matches with other partners
+ * - Per-partner scores from the partner face models
  * - Decision on how to proceed
  */
 export async function POST(
@@ -35,53 +37,11 @@ export async function POST(
 
     console.log('[API] Face descriptor received, length:', faceDescriptor.length);
     
-    // Check for Authorization header (for mobile app) or use cookie-based auth (for web)
-    const authHeader = request.headers.get('authorization');
-    let supabase;
-    let user;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Mobile app sends Bearer token
-      const accessToken = authHeader.substring(7);
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        console.error('Auth error:', userError);
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = tokenUser;
-    } else {
-      // Web app uses cookies
-      supabase = createSupabaseRouteHandlerClient();
-      const { data: { user: cookieUser }, error: userError } = await supabase.auth.getUser();
-      if (userError || !cookieUser) {
-        console.error('Auth error:', userError);
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = cookieUser;
-    }
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { supabase, user } = authResult.auth;
 
     const userId = user.id;
 
@@ -100,22 +60,7 @@ export async function POST(
       );
     }
 
-    // Get all photos for this partner (excluding current upload)
-    const { data: partnerPhotos, error: partnerPhotosError } = await supabase
-      .from('partner_photos')
-      .select('*')
-      .eq('partner_id', partnerId)
-      .not('face_descriptor', 'is', null);
-
-    if (partnerPhotosError) {
-      return NextResponse.json(
-        { error: 'Failed to fetch partner photos' },
-        { status: 500 }
-      );
-    }
-
-    // Get all photos for other partners
-    // First get all other partner IDs for this user
+    // Get all other partners for this user
     const { data: otherPartners, error: otherPartnersError } = await supabase
       .from('partners')
       .select('id, first_name, last_name, profile_picture_storage_path, black_flag')
@@ -131,73 +76,73 @@ export async function POST(
 
     const otherPartnerIds = (otherPartners || []).map(p => p.id);
 
-    // Get photos for other partners
-    // If no other partners exist, return empty array
-    let otherPartnerPhotos: any[] = [];
-    if (otherPartnerIds.length > 0) {
-      const { data, error: otherPhotosError } = await supabase
-        .from('partner_photos')
-        .select('*')
-        .in('partner_id', otherPartnerIds)
-        .not('face_descriptor', 'is', null);
-
-      if (otherPhotosError) {
-        console.error('Error fetching other partner photos:', otherPhotosError);
-        return NextResponse.json(
-          { error: 'Failed to fetch other partner photos' },
-          { status: 500 }
-        );
-      }
-      otherPartnerPhotos = data || [];
+    // Score the face against the partner's model and the other partners' models
+    const faceIndex = getFaceIndex(supabase);
+    const threshold = await getUserFaceMatchThreshold(supabase, userId);
+    let partnerResult: { scores: PartnerFaceScore[]; matches: FaceMatch[] };
+    let otherPartnersResult: { scores: PartnerFaceScore[]; matches: FaceMatch[] };
+    let partnerFaceCount: number;
+    let otherPartnersFaceCount: number;
+    try {
+      [partnerResult, otherPartnersResult, partnerFaceCount, otherPartnersFaceCount] = await Promise.all([
+        findPartnerFaceMatches(supabase, faceIndex, faceDescriptor, { partnerIds: [partnerId], threshold }),
+        findPartnerFaceMatches(supabase, faceIndex, faceDescriptor, { partnerIds: otherPartnerIds, threshold }),
+        faceIndex.countFaces([partnerId]),
+        faceIndex.countFaces(otherPartnerIds),
+      ]);
+    } catch (indexError) {
+      console.error('Error searching face index:', indexError);
+      return NextResponse.json(
+        { error: 'Failed to fetch partner photos' },
+        { status: 500 }
+      );
     }
 
-    // Find matches within partner's photos
-    const partnerMatches = findFaceMatches(
-      faceDescriptor,
-      partnerPhotos || []
-    );
+    const partnerMatches = partnerResult.matches;
+    const partnerScore = partnerResult.scores[0] || null;
 
     // Create a map of partner IDs to partner info
     const partnerMap = new Map(
       (otherPartners || []).map(p => [p.id, p])
     );
 
-    // Find matches with other partners
-    const otherPartnerMatches = findFaceMatches(
-      faceDescriptor,
-      otherPartnerPhotos
-    );
-
-    // Populate partner names and profile pictures in matches
-    const enrichedOtherMatches: (FaceMatch & { black_flag?: boolean })[] = otherPartnerMatches.map((match) => {
-      const photo = otherPartnerPhotos.find(p => p.id === match.photo_id);
-      if (photo) {
-        const partner = partnerMap.get(photo.partner_id);
-        return {
-          ...match,
-          partner_name: partner
-            ? `${partner.first_name || ''} ${partner.last_name || ''}`.trim() || null
-            : null,
-          partner_profile_picture: partner?.profile_picture_storage_path || null,
-          black_flag: partner?.black_flag || false,
-        };
-      }
-      return match;
-    });
+    // Populate partner names, profile pictures, and black flag in matches and scores
+    const getPartnerDetails = (matchPartnerId: string) => {
+      const otherPartner = partnerMap.get(matchPartnerId);
+      return {
+        partner_name: otherPartner
+          ? `${otherPartner.first_name || ''} ${otherPartner.last_name || ''}`.trim() || null
+          : null,
+        partner_profile_picture: otherPartner?.profile_picture_storage_path || null,
+        black_flag: otherPartner?.black_flag || false,
+      };
+    };
+    const enrichedOtherMatches: (FaceMatch & { black_flag?: boolean })[] = otherPartnersResult.matches.map((match) => ({
+      ...match,
+      ...getPartnerDetails(match.partner_id),
+    }));
+    const enrichedOtherScores: PartnerFaceScore[] = otherPartnersResult.scores.map((score) => ({
+      ...score,
+      ...getPartnerDetails(score.partner_id),
+    }));
 
     // Check if partner has other photos
-    const partnerHasOtherPhotos = (partnerPhotos || []).length > 0;
-    const otherPartnersHavePhotos = otherPartnerPhotos.length > 0;
+    const partnerHasOtherPhotos = partnerFaceCount > 0;
+    const otherPartnersHavePhotos = otherPartnersFaceCount > 0;
 
     // Analyze and get decision
     console.log('[API] Analyzing photo upload decision...', {
       partnerMatches: partnerMatches.length,
       otherPartnerMatches: enrichedOtherMatches.length,
+      partnerModelMatch: !!partnerScore,
+      otherPartnerModelMatches: enrichedOtherScores.length,
       partnerHasOtherPhotos,
       otherPartnersHavePhotos
     });
     
     const analysis = analyzePhotoUploadForPartner(
+      partnerScore,
+      enrichedOtherScores,
       partnerMatches,
       enrichedOtherMatches,
       partnerHasOtherPhotos,
@@ -210,7 +155,7 @@ export async function POST(
     let outcome: 'matches_found' | 'no_matches' | 'same_person_warning' | 'other_partners_warning';
     if (analysis.decision.type === 'proceed') {
       // Check if there are any matches
-      const hasMatches = partnerMatches.length > 0 || enrichedOtherMatches.length > 0;
+      const hasMatches = !!partnerScore || enrichedOtherScores.length > 0;
       outcome = hasMatches ? 'matches_found' : 'no_matches';
     } else if (analysis.decision.type === 'warn_same_person') {
       outcome = 'same_person_warning';
@@ -232,6 +177,7 @@ export async function POST(
         outcome,
         partner_id: partnerId,
         match_count: matchCount,
+        threshold,
         decision_type: analysis.decision.type,
       };
       
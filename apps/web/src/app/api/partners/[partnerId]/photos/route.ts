@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
-import { createClient } from '@supabase/supabase-js';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { v4 as uuidv4 } from 'uuid';
 import { track } from '@/lib/analytics/server';
 
@@ -39,60 +38,11 @@ export async function POST(
       );
     }
 
-    // Check for Authorization header (for mobile app) or use cookie-based auth (for web)
-    const authHeader = request.headers.get('authorization');
-    let supabase;
-    let user;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Mobile app sends Bearer token
-      const accessToken = authHeader.substring(7);
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      // Get user using the access token and verify it's valid
-      console.log('[API] Getting user from Bearer token...');
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        console.error('Auth error:', userError);
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = tokenUser;
-    } else {
-      // Web app uses cookies
-      supabase = createSupabaseRouteHandlerClient();
-      
-      // Get current user (more reliable than getSession for API routes)
-      console.log('[API] Getting user from cookies...');
-      const { data: { user: cookieUser }, error: userError } = await supabase.auth.getUser();
-      if (userError || !cookieUser) {
-        console.error('Auth error:', userError);
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = cookieUser;
-    }
-
-    // At this point, user should be set (either from Bearer token or cookies)
-    // If not, it means authentication failed in both branches above
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { supabase, user } = authResult.auth;
 
     const userId = user.id;
 
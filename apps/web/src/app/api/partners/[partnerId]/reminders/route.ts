@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { MAX_REMINDERS_PER_PARTNER, PartnerReminderSchema } from '@/shared';
+import { getUpcomingReminders } from '@/lib/reminders';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * List a partner's active reminders with their next due date
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: partner } = await supabase
+      .from('partners')
+      .select('id')
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!partner) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
+
+    const reminders = await getUpcomingReminders(supabase, user.id, { partnerId: params.partnerId });
+
+    return NextResponse.json({ data: reminders });
+  } catch (error: any) {
+    console.error('Error fetching reminders:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Create a reminder for a partner
+ *
+ * Body: PartnerReminderSchema, either { kind: 'once', remind_at } or
+ * { kind: 'no_contact', no_contact_days }, with an optional note.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const parsed = PartnerReminderSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid reminder', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { data: partner } = await supabase
+      .from('partners')
+      .select('id')
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!partner) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
+
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { count } = await supabaseAdmin
+      .from('partner_reminders')
+      .select('id', { count: 'exact', head: true })
+      .eq('partner_id', params.partnerId)
+      .is('completed_at', null);
+
+    if ((count || 0) >= MAX_REMINDERS_PER_PARTNER) {
+      return NextResponse.json(
+        { error: `A partner can have at most ${MAX_REMINDERS_PER_PARTNER} active reminders` },
+        { status: 400 }
+      );
+    }
+
+    const { data: reminder, error: insertError } = await supabaseAdmin
+      .from('partner_reminders')
+      .insert({
+        ...parsed.data,
+        note: parsed.data.note || null,
+        user_id: user.id,
+        partner_id: params.partnerId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      return NextResponse.json(
+        { error: 'Failed to create reminder', details: insertError.message },
+        { status: 500 }
+      );
+    }
+
+    // Track [Reminder Created] event
+    try {
+      await track('[Reminder Created]', user.id, {
+        partner_id: params.partnerId,
+        kind: reminder.kind,
+        no_contact_days: reminder.no_contact_days,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Reminder Created] event:', analyticsError);
+    }
+
+    return NextResponse.json({ data: reminder }, { status: 201 });
+  } catch (error: any) {
+    console.error('Error creating reminder:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
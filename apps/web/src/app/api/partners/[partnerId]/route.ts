@@ -1,147 +1,191 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { createSupabaseAdminClient } from '@/lib/supabase/client';
-import { createClient } from '@supabase/supabase-js';
+import { mergeCustomFieldValues, PartnerUpdate, PartnerUpdateSchema, validateCustomFieldValues } from '@/shared';
+import { getCustomFieldDefinitions } from '@/lib/custom-fields';
 import { track } from '@/lib/analytics/server';
+import { trashPartner } from '@/lib/trash';
 
 /**
- * Delete a partner and all associated data (photos, activities)
+ * Get a partner
  */
-export async function DELETE(
+export async function GET(
   request: NextRequest,
   { params }: { params: { partnerId: string } }
 ) {
   try {
-    const { partnerId } = params;
-    
-    // Check for Bearer token (mobile app) or use cookies (web app)
-    const authHeader = request.headers.get('authorization');
-    let supabase;
-    let supabaseAdmin;
-    let user;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Mobile app sends Bearer token
-      const accessToken = authHeader.substring(7);
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = tokenUser;
-      supabaseAdmin = createSupabaseAdminClient();
-    } else {
-      // Web app uses cookies
-      supabase = createSupabaseRouteHandlerClient();
-      supabaseAdmin = createSupabaseAdminClient();
-      const { data: { user: cookieUser }, error: userError } = await supabase.auth.getUser();
-      if (userError || !cookieUser) {
-        console.error('Auth error:', userError);
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = cookieUser;
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const { supabase, user } = authResult.auth;
+
+    const { data: partner, error: partnerError } = await supabase
+      .from('partners')
+      .select('*')
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (partnerError) {
+      return NextResponse.json({ error: 'Failed to fetch partner' }, { status: 500 });
     }
 
-    const userId = user.id;
+    if (!partner) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
 
-    // First verify partner belongs to user
-    const { data: partner, error: partnerError } = await supabaseAdmin
-      .from('partners')
-      .select('id')
-      .eq('id', partnerId)
-      .eq('user_id', userId)
-      .single();
+    return NextResponse.json({ data: partner });
+  } catch (error: any) {
+    console.error('Error fetching partner:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
 
-    if (partnerError || !partner) {
+/**
+ * Update a partner
+ *
+ * Body: any PartnerUpdateSchema fields; omitted fields are left unchanged and
+ * '' clears a field. description_time is set when the description changes;
+ * status changes are recorded in the partner's status history (migration 038).
+ * tags replaces the partner's tags; custom_fields ({ [fieldId]: value | null })
+ * only changes the fields it contains and is checked against the account's fields.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const parsed = PartnerUpdateSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Partner not found' },
-        { status: 404 }
+        { error: 'Invalid partner', details: parsed.error.flatten() },
+        { status: 400 }
       );
     }
 
-    // Get all photos for this partner to delete from storage
-    const { data: photos, error: photosError } = await supabaseAdmin
-      .from('partner_photos')
-      .select('storage_path')
-      .eq('partner_id', partnerId);
+    const { data: partner } = await supabase
+      .from('partners')
+      .select('id, description, black_flag, status, custom_fields')
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .maybeSingle();
 
-    if (photosError) {
-      console.error('Error fetching photos:', photosError);
-      // Continue with deletion even if photos fetch fails
+    if (!partner) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
     }
 
-    // Delete photos from storage
-    if (photos && photos.length > 0) {
-      const storagePaths = photos.map(p => p.storage_path).filter(Boolean);
-      if (storagePaths.length > 0) {
-        const { error: storageError } = await supabaseAdmin.storage
-          .from('partner-photos')
-          .remove(storagePaths);
-
-        if (storageError) {
-          console.error('Storage delete error:', storageError);
-          // Continue with DB deletion even if storage fails
-        }
-      }
+    const { tags, custom_fields: customFieldValues, ...fields } = parsed.data;
+    const updates: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(fields) as [keyof PartnerUpdate, string | boolean | undefined][]) {
+      if (value === undefined) continue;
+      updates[field] = typeof value === 'string' ? value.trim() || null : value;
     }
 
-    // Delete all activities (partner_notes) for this partner
-    const { error: activitiesError } = await supabaseAdmin
-      .from('partner_notes')
-      .delete()
-      .eq('partner_id', partnerId);
+    if (tags !== undefined) {
+      updates.tags = tags;
+    }
 
-    if (activitiesError) {
-      console.error('Error deleting activities:', activitiesError);
-      // Continue with partner deletion even if activities deletion fails
+    if (customFieldValues !== undefined) {
+      const definitions = await getCustomFieldDefinitions(supabase, user.id);
+      const validation = validateCustomFieldValues(customFieldValues, definitions);
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: 'Invalid custom fields', details: validation.errors },
+          { status: 400 }
+        );
+      }
+      updates.custom_fields = mergeCustomFieldValues(partner.custom_fields, validation.values);
     }
 
-    // Delete all photos from database
-    const { error: photosDeleteError } = await supabaseAdmin
-      .from('partner_photos')
-      .delete()
-      .eq('partner_id', partnerId);
+    const description = 'description' in updates ? updates.description : partner.description;
+    const blackFlag = 'black_flag' in updates ? updates.black_flag : partner.black_flag;
+    if (blackFlag && !description) {
+      return NextResponse.json(
+        { error: 'Description is required when black flag is enabled' },
+        { status: 400 }
+      );
+    }
 
-    if (photosDeleteError) {
-      console.error('Error deleting photos:', photosDeleteError);
-      // Continue with partner deletion even if photos deletion fails
+    if ('description' in updates && updates.description !== partner.description && updates.description) {
+      updates.description_time = new Date().toISOString();
     }
 
-    // Finally, delete the partner
-    const { error: partnerDeleteError } = await supabaseAdmin
+    const { data: updated, error: updateError } = await supabase
       .from('partners')
-      .delete()
-      .eq('id', partnerId);
+      .update(updates)
+      .eq('id', params.partnerId)
+      .eq('user_id', user.id)
+      .select()
+      .single();
 
-    if (partnerDeleteError) {
+    if (updateError) {
       return NextResponse.json(
-        { error: 'Failed to delete partner', details: partnerDeleteError.message },
+        { error: 'Failed to update partner', details: updateError.message },
         { status: 500 }
       );
     }
 
+    if (updated.status !== partner.status) {
+      // Track [Partner Status Changed] event
+      try {
+        await track('[Partner Status Changed]', user.id, {
+          partner_id: params.partnerId,
+          from_status: partner.status,
+          to_status: updated.status,
+        });
+      } catch (analyticsError) {
+        // Log error but don't break the request
+        console.error('Failed to track [Partner Status Changed] event:', analyticsError);
+      }
+    }
+
+    return NextResponse.json({ data: updated });
+  } catch (error: any) {
+    console.error('Error updating partner:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a partner: moves it to the trash together with its photos and activities.
+ * It can be restored from the trash until it is purged (see lib/trash).
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { partnerId: string } }
+) {
+  try {
+    const { partnerId } = params;
+    
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const userId = user.id;
+
+    const result = await trashPartner(supabaseAdmin, userId, partnerId);
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
     // Track [Partner Deleted] event
     try {
       await track('[Partner Deleted]', userId, {
@@ -162,15 +206,3 @@ export async function DELETE(
     );
   }
 }
-
-
-
-
-
-
-
-
-
-
-
-
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { createSupabaseAdminClient } from '@/lib/supabase/client';
-import { createClient } from '@supabase/supabase-js';
 import { FREE_TIER_PARTNER_LIMIT } from '@/lib/pricing';
 import { v4 as uuidv4 } from 'uuid';
 import { track } from '@/lib/analytics/server';
@@ -12,55 +11,13 @@ import { track } from '@/lib/analytics/server';
  */
 export async function POST(request: NextRequest) {
   try {
-    // Check for Authorization header (for mobile app) or use cookie-based auth (for web)
-    const authHeader = request.headers.get('authorization');
-    let supabase;
-    let supabaseAdmin;
-    let user;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Mobile app sends Bearer token
-      const accessToken = authHeader.substring(7);
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = tokenUser;
-      // For mobile, use admin client for partner creation (RLS might block)
-      supabaseAdmin = createSupabaseAdminClient();
-    } else {
-      // Web app uses cookies
-      supabase = createSupabaseRouteHandlerClient();
-      supabaseAdmin = createSupabaseAdminClient();
-      const { data: { user: cookieUser }, error: userError } = await supabase.auth.getUser();
-      if (userError || !cookieUser) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = cookieUser;
-    }
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const authResult = await authenticateRequest(request, { scope: ['partners:write', 'photos:upload'] });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { user } = authResult.auth;
+    // Partner creation uses the admin client (RLS might block it for mobile)
+    const supabaseAdmin = createSupabaseAdminClient();
 
     const userId = user.id;
     const formData = await request.formData();
@@ -104,7 +61,8 @@ export async function POST(request: NextRequest) {
       const { count, error: countError } = await supabaseAdmin
         .from('partners')
         .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .is('deleted_at', null);
 
       if (countError) {
         return NextResponse.json(
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { loadPartnerFaceModels } from '@/lib/face-index/partner-models';
+import { getUserFaceMatchThreshold } from '@/lib/face-index/threshold';
+import { findDuplicatePartners } from '@/lib/partner-duplicates';
+import { Partner } from '@/shared';
+
+/**
+ * Scan the user's partners for possible duplicates
+ *
+ * Pairs are matched on their face models and on name, phone and email.
+ * Returns { candidates: [{ partners: [Partner, Partner], reasons, face_similarity, score }] },
+ * most likely duplicates first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const userId = user.id;
+
+    const { data: partners, error: partnersError } = await supabase
+      .from('partners')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (partnersError) {
+      return NextResponse.json({ error: 'Failed to fetch partners' }, { status: 500 });
+    }
+
+    const partnerList = (partners || []) as Partner[];
+    const [faceModels, threshold] = await Promise.all([
+      loadPartnerFaceModels(supabase, partnerList.map((p) => p.id)),
+      getUserFaceMatchThreshold(supabase, userId),
+    ]);
+
+    const partnerMap = new Map(partnerList.map((p) => [p.id, p]));
+    const candidates = findDuplicatePartners(partnerList, faceModels, threshold).map((candidate) => ({
+      ...candidate,
+      partners: candidate.partner_ids.map((id) => partnerMap.get(id)!),
+    }));
+
+    return NextResponse.json({ candidates });
+  } catch (error: any) {
+    console.error('Duplicate partner scan error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
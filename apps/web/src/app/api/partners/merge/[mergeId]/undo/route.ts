@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { track } from '@/lib/analytics/server';
+
+/**
+ * Undo a partner merge
+ *
+ * Recreates the merged partner and moves its photos, activities and reminders back.
+ * Each merge can be undone once, until its undo window expires.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { mergeId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const { data: partnerId, error } = await supabase.rpc('undo_partner_merge', {
+      target_merge_id: params.mergeId,
+    });
+
+    if (error) {
+      // P0002: merge not found, P0001: already undone or undo window expired
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: 'Merge not found' }, { status: 404 });
+      }
+      if (error.code === 'P0001') {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      console.error('Error undoing partner merge:', error);
+      return NextResponse.json(
+        { error: 'Failed to undo merge', details: error.message },
+        { status: 500 }
+      );
+    }
+
+    try {
+      await track('[Partners Merge Undone]', user.id, {
+        partner_id: partnerId,
+        merge_id: params.mergeId,
+      });
+    } catch (analyticsError) {
+      console.error('Failed to track [Partners Merge Undone] event:', analyticsError);
+    }
+
+    return NextResponse.json({ partner_id: partnerId });
+  } catch (error: any) {
+    console.error('Partner merge undo error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
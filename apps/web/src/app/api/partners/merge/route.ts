@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { MERGEABLE_PARTNER_FIELDS, reconcilePartnerFields } from '@/lib/partner-merge';
+import { Partner } from '@/shared';
+import { track } from '@/lib/analytics/server';
+
+const MergePartnersSchema = z.object({
+  keep_partner_id: z.string().uuid(),
+  merge_partner_id: z.string().uuid(),
+  field_sources: z.record(z.enum(MERGEABLE_PARTNER_FIELDS), z.enum(['keep', 'merge'])).optional(),
+});
+
+/**
+ * Merge a duplicate partner into another
+ *
+ * Photos, activities (with their calendar event links) and reminders move to
+ * the kept partner, fields are reconciled and the duplicate is deleted. The
+ * merge can be undone until undo_expires_at
+ * (POST /api/partners/merge/[mergeId]/undo). Duplicates with photos or
+ * activities in the trash can't be merged until those are restored (409).
+ *
+ * Body: { keep_partner_id, merge_partner_id, field_sources?: { [field]: 'keep' | 'merge' } }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const userId = user.id;
+    const parsed = MergePartnersSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid merge request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { keep_partner_id, merge_partner_id, field_sources } = parsed.data;
+
+    if (keep_partner_id === merge_partner_id) {
+      return NextResponse.json(
+        { error: 'Cannot merge a partner into itself' },
+        { status: 400 }
+      );
+    }
+
+    const { data: partners, error: partnersError } = await supabase
+      .from('partners')
+      .select('*')
+      .eq('user_id', userId)
+      .in('id', [keep_partner_id, merge_partner_id]);
+
+    if (partnersError) {
+      return NextResponse.json({ error: 'Failed to fetch partners' }, { status: 500 });
+    }
+
+    const keep = (partners || []).find((p) => p.id === keep_partner_id) as Partner | undefined;
+    const merge = (partners || []).find((p) => p.id === merge_partner_id) as Partner | undefined;
+
+    if (!keep || !merge) {
+      return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+    }
+
+    const updates = reconcilePartnerFields(keep, merge, field_sources);
+
+    const { data: mergeId, error: mergeError } = await supabase.rpc('merge_partners', {
+      keep_partner_id,
+      merge_partner_id,
+      updates,
+    });
+
+    if (mergeError) {
+      // P0001: the duplicate has photos or activities in the trash
+      if (mergeError.code === 'P0001') {
+        return NextResponse.json({ error: mergeError.message }, { status: 409 });
+      }
+      console.error('Error merging partners:', mergeError);
+      return NextResponse.json(
+        { error: 'Failed to merge partners', details: mergeError.message },
+        { status: 500 }
+      );
+    }
+
+    const { data: mergeRecord } = await supabase
+      .from('partner_merges')
+      .select('undo_expires_at, moved_photo_ids, moved_activity_ids')
+      .eq('id', mergeId)
+      .single();
+
+    try {
+      await track('[Partners Merged]', userId, {
+        partner_id: keep_partner_id,
+        merged_partner_id: merge_partner_id,
+        photos_moved: mergeRecord?.moved_photo_ids?.length || 0,
+        activities_moved: mergeRecord?.moved_activity_ids?.length || 0,
+      });
+    } catch (analyticsError) {
+      console.error('Failed to track [Partners Merged] event:', analyticsError);
+    }
+
+    return NextResponse.json({
+      merge_id: mergeId,
+      partner_id: keep_partner_id,
+      undo_expires_at: mergeRecord?.undo_expires_at || null,
+    });
+  } catch (error: any) {
+    console.error('Partner merge error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
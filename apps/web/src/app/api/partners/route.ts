@@ -1,24 +1,94 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
 import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import {
+  decodePartnerCursor,
+  listPartners,
+  parsePartnerFieldFilters,
+  PartnerListQuerySchema,
+} from '@/lib/partner-list';
 import { FREE_TIER_PARTNER_LIMIT } from '@/lib/pricing';
+import { getCustomFieldDefinitions } from '@/lib/custom-fields';
+import { mergeCustomFieldValues, PartnerSchema, validateCustomFieldValues } from '@/shared';
 import { track } from '@/lib/analytics/server';
 
+/**
+ * List the user's partners, one page at a time
+ *
+ * Query: limit (default 50, max 100), cursor (next_cursor of the previous
+ * page), sort (updated_at | last_activity_at | date_count | first_name |
+ * last_name | created_at), order (asc | desc), q (searches name, email and
+ * phone), black_flag (true | false), has_photos (true | false),
+ * status (talking | first_date | seeing | exclusive | ended | ghosted),
+ * activity_type (date | chat | phone | other) with activity_days (default 30;
+ * partners with such an activity in the last days), tags (comma-separated, all
+ * required), field.<fieldId> (custom field value).
+ * Returns { data: PartnerListItem[], next_cursor: string | null }.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries());
+    const parsed = PartnerListQuerySchema.safeParse(params);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const cursor = parsed.data.cursor ? decodePartnerCursor(parsed.data.cursor) : null;
+    if (parsed.data.cursor && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const fieldFilters = await parsePartnerFieldFilters(supabase, user.id, params);
+    if ('unknownFieldId' in fieldFilters) {
+      return NextResponse.json({ error: `Unknown custom field: ${fieldFilters.unknownFieldId}` }, { status: 400 });
+    }
+
+    const { partners, nextCursor } = await listPartners(supabase, user.id, parsed.data, cursor, fieldFilters.filters);
+
+    return NextResponse.json({ data: partners, next_cursor: nextCursor });
+  } catch (error: any) {
+    console.error('Error listing partners:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const supabase = createSupabaseRouteHandlerClient();
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user: authUser } = authResult.auth;
+
     const supabaseAdmin = createSupabaseAdminClient();
-    
-    const {
-      data: { session },
-    } = await supabase.auth.getSession();
+    const userId = authUser.id;
+    const { status, tags, custom_fields: customFieldValues, ...body } = await request.json();
 
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+    const partnerFields = PartnerSchema.pick({ status: true, tags: true, custom_fields: true }).safeParse({
+      status,
+      tags,
+      custom_fields: customFieldValues,
+    });
 
-    const userId = session.user.id;
-    const body = await request.json();
+    if (!partnerFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid partner', details: partnerFields.error.flatten() },
+        { status: 400 }
+      );
+    }
 
     // Get user account type
     const { data: user, error: userError } = await supabaseAdmin
@@ -40,7 +110,8 @@ export async function POST(request: NextRequest) {
       const { count, error: countError } = await supabaseAdmin
         .from('partners')
         .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .is('deleted_at', null);
 
       if (countError) {
         return NextResponse.json(
@@ -65,9 +136,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    let customFields = {};
+    if (partnerFields.data.custom_fields) {
+      const definitions = await getCustomFieldDefinitions(supabaseAdmin, userId);
+      const validation = validateCustomFieldValues(partnerFields.data.custom_fields, definitions);
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: 'Invalid custom fields', details: validation.errors },
+          { status: 400 }
+        );
+      }
+      customFields = mergeCustomFieldValues({}, validation.values);
+    }
+
     // Create the partner
     const partnerData = {
       ...body,
+      status: partnerFields.data.status || 'talking',
+      tags: partnerFields.data.tags || [],
+      custom_fields: customFields,
       user_id: userId,
     };
 
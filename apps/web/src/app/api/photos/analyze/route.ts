@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
-import { createClient } from '@supabase/supabase-js';
-import { findFaceMatches } from '@/lib/face-matching';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { getFaceIndex } from '@/lib/face-index/factory';
+import { findPartnerFaceMatches } from '@/lib/face-index/partner-models';
+import { getUserFaceMatchThreshold } from '@/lib/face-index/threshold';
 import { analyzePhotoUploadWithoutPartner } from '@/lib/photo-upload-decision';
-import { FaceMatch } from '@/shared';
+import { FaceMatch, PartnerFaceScore } from '@/shared';
 import { track } from '@/lib/analytics/server';
 
 /**
@@ -11,6 +12,7 @@ import { track } from '@/lib/analytics/server';
  * 
  * This endpoint receives a face descriptor and returns:
  * - Matches across all user's partners
+ * - Per-partner scores from the partner face models
  * - Decision: create new partner or warn about matches
  */
 export async function POST(request: NextRequest) {
@@ -25,52 +27,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check for Authorization header (for mobile app) or use cookie-based auth (for web)
-    const authHeader = request.headers.get('authorization');
-    let supabase;
-    let user;
-    
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Mobile app sends Bearer token
-      const accessToken = authHeader.substring(7);
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = tokenUser;
-    } else {
-      // Web app uses cookies
-      supabase = createSupabaseRouteHandlerClient();
-      const { data: { user: cookieUser }, error: userError } = await supabase.auth.getUser();
-      if (userError || !cookieUser) {
-        console.error('Auth error:', userError);
-        return NextResponse.json(
-          { error: 'Unauthorized' },
-          { status: 401 }
-        );
-      }
-      user = cookieUser;
-    }
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
     }
+    const { supabase, user } = authResult.auth;
 
     const userId = user.id;
 
@@ -92,51 +53,47 @@ export async function POST(request: NextRequest) {
       (userPartners || []).map(p => [p.id, p])
     );
 
-    // Get all photos for all user's partners
-    // If no partners exist, return empty array
-    let allPhotos: any[] = [];
-    if (partnerIds.length > 0) {
-      const { data, error: photosError } = await supabase
-        .from('partner_photos')
-        .select('*')
-        .in('partner_id', partnerIds)
-        .not('face_descriptor', 'is', null);
-
-      if (photosError) {
-        console.error('Error fetching photos:', photosError);
-        return NextResponse.json(
-          { error: 'Failed to fetch photos' },
-          { status: 500 }
-        );
-      }
-      allPhotos = data || [];
+    // Find matching partners and photos across all partners
+    const threshold = await getUserFaceMatchThreshold(supabase, userId);
+    let allMatches: FaceMatch[];
+    let allScores: PartnerFaceScore[];
+    try {
+      ({ matches: allMatches, scores: allScores } = await findPartnerFaceMatches(
+        supabase,
+        getFaceIndex(supabase),
+        faceDescriptor,
+        { partnerIds, threshold }
+      ));
+    } catch (indexError) {
+      console.error('Error searching face index:', indexError);
+      return NextResponse.json(
+        { error: 'Failed to fetch photos' },
+        { status: 500 }
+      );
     }
 
-    // Find matches across all partners
-    const allMatches = findFaceMatches(
-      faceDescriptor,
-      allPhotos || []
-    );
-
-    // Enrich matches with partner names, profile pictures, and black flag
-    const enrichedMatches: FaceMatch[] = allMatches.map((match) => {
-      const photo = (allPhotos || []).find(p => p.id === match.photo_id);
-      if (photo) {
-        const partner = partnerMap.get(photo.partner_id);
-        return {
-          ...match,
-          partner_name: partner
-            ? `${partner.first_name || ''} ${partner.last_name || ''}`.trim() || null
-            : null,
-          partner_profile_picture: partner?.profile_picture_storage_path || null,
-          black_flag: partner?.black_flag || false,
-        };
-      }
-      return match;
-    });
+    // Enrich matches and scores with partner names, profile pictures, and black flag
+    const getPartnerDetails = (matchPartnerId: string) => {
+      const partner = partnerMap.get(matchPartnerId);
+      return {
+        partner_name: partner
+          ? `${partner.first_name || ''} ${partner.last_name || ''}`.trim() || null
+          : null,
+        partner_profile_picture: partner?.profile_picture_storage_path || null,
+        black_flag: partner?.black_flag || false,
+      };
+    };
+    const enrichedMatches: FaceMatch[] = allMatches.map((match) => ({
+      ...match,
+      ...getPartnerDetails(match.partner_id),
+    }));
+    const enrichedScores: PartnerFaceScore[] = allScores.map((score) => ({
+      ...score,
+      ...getPartnerDetails(score.partner_id),
+    }));
 
     // Analyze and get decision
-    const result = analyzePhotoUploadWithoutPartner(enrichedMatches);
+    const result = analyzePhotoUploadWithoutPartner(enrichedScores, enrichedMatches);
 
     // Determine outcome for analytics
     let outcome: 'matches_found' | 'no_matches' | 'same_person_warning' | 'other_partners_warning';
@@ -158,6 +115,7 @@ export async function POST(request: NextRequest) {
       const eventProperties: Record<string, any> = {
         outcome,
         match_count: matchCount,
+        threshold,
         decision_type: result.decision,
       };
       
@@ -179,6 +137,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       decision: result.decision,
       matches: result.matches,
+      partnerScores: result.partnerScores,
     });
   } catch (error) {
     console.error('Error analyzing photo:', error);
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { getInboxStoragePath, PHOTO_BUCKET } from '@/lib/photo-upload-queue';
+import { track } from '@/lib/analytics/server';
+
+// Per request; larger selections are sent in several requests with the same batch_id
+const MAX_FILES_PER_REQUEST = 20;
+
+/**
+ * Upload many photos at once without choosing a partner
+ *
+ * Images are stored in the user's inbox folder and queued for face detection
+ * (see lib/photo-upload-queue). Returns immediately with the queued jobs;
+ * call POST /api/photos/upload-queue to process them, or wait for the cron run.
+ * Form data: `files` (repeated), optional `batch_id` to add to an earlier request's batch.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const userId = user.id;
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+    const requestedBatchId = formData.get('batch_id');
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `Upload at most ${MAX_FILES_PER_REQUEST} photos per request` },
+        { status: 400 }
+      );
+    }
+
+    const notImages = files.filter((file) => !file.type.startsWith('image/'));
+    if (notImages.length > 0) {
+      return NextResponse.json(
+        { error: `Not an image: ${notImages.map((file) => file.name).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (requestedBatchId !== null && (typeof requestedBatchId !== 'string' || !isUuid(requestedBatchId))) {
+      return NextResponse.json(
+        { error: 'Invalid batch_id' },
+        { status: 400 }
+      );
+    }
+
+    const batchId = requestedBatchId || uuidv4();
+    const uploaded: Array<{ file: File; storagePath: string }> = [];
+    const failed: Array<{ file_name: string; error: string }> = [];
+
+    for (const file of files) {
+      const storagePath = getInboxStoragePath(userId, file.name);
+      const { error: uploadError } = await supabase.storage
+        .from(PHOTO_BUCKET)
+        .upload(storagePath, file, {
+          contentType: file.type,
+          upsert: false,
+        });
+
+      if (uploadError) {
+        console.error('[Bulk Upload] Storage upload error:', { fileName: file.name, error: uploadError.message });
+        failed.push({ file_name: file.name, error: uploadError.message });
+        continue;
+      }
+
+      uploaded.push({ file, storagePath });
+    }
+
+    let jobs: Array<{ id: string; file_name: string | null; status: string }> = [];
+
+    if (uploaded.length > 0) {
+      // Jobs are only writable with the service role
+      const supabaseAdmin = createSupabaseAdminClient();
+      const { data, error: jobsError } = await supabaseAdmin
+        .from('photo_upload_jobs')
+        .insert(
+          uploaded.map(({ file, storagePath }) => ({
+            user_id: userId,
+            batch_id: batchId,
+            storage_path: storagePath,
+            file_name: file.name,
+            file_size: file.size,
+            mime_type: file.type,
+          }))
+        )
+        .select('id, file_name, status');
+
+      if (jobsError) {
+        console.error('[Bulk Upload] Error queueing photos:', jobsError);
+        // Clean up uploaded files if the jobs can't be created
+        await supabase.storage.from(PHOTO_BUCKET).remove(uploaded.map(({ storagePath }) => storagePath));
+        return NextResponse.json(
+          { error: 'Failed to queue photos', details: jobsError.message },
+          { status: 500 }
+        );
+      }
+
+      jobs = data || [];
+    }
+
+    try {
+      await track('[Photos Bulk Uploaded]', userId, {
+        batch_id: batchId,
+        queued_count: jobs.length,
+        failed_count: failed.length,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Photos Bulk Uploaded] event:', analyticsError);
+    }
+
+    return NextResponse.json({ batch_id: batchId, jobs, failed }, { status: 202 });
+  } catch (error) {
+    console.error('Error uploading photos:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: 'Internal server error', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,227 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { FREE_TIER_PARTNER_LIMIT } from '@/lib/pricing';
+import {
+  assignPhotoUploadJob,
+  MAX_PHOTO_UPLOAD_ATTEMPTS,
+  PHOTO_BUCKET,
+  PhotoUploadJob,
+} from '@/lib/photo-upload-queue';
+import { track } from '@/lib/analytics/server';
+
+const AssignPhotoSchema = z.union([
+  z.object({ partner_id: z.string().uuid() }),
+  z.object({ new_partner: z.literal(true) }),
+]);
+
+/**
+ * Load an inbox photo of the signed-in user that can be resolved
+ * (reviewed, or given up after repeated processing failures)
+ */
+async function getInboxJob(request: NextRequest, jobId: string) {
+  const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+  if (!authResult.ok) {
+    return { error: authErrorResponse(authResult.error) };
+  }
+  const { supabase, user } = authResult.auth;
+
+  const { data: job } = await supabase
+    .from('photo_upload_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  const resolvable =
+    job && (job.status === 'review' || (job.status === 'failed' && job.attempts >= MAX_PHOTO_UPLOAD_ATTEMPTS));
+
+  if (!resolvable) {
+    return { error: NextResponse.json({ error: 'Photo not found in inbox' }, { status: 404 }) };
+  }
+
+  return { supabase, userId: user.id, job: job as PhotoUploadJob };
+}
+
+/**
+ * Assign an inbox photo to a partner
+ * Body: { partner_id } to add it to an existing partner, or { new_partner: true }
+ * to create a partner from it (subject to the free tier partner limit).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const result = await getInboxJob(request, params.jobId);
+    if ('error' in result) {
+      return result.error;
+    }
+
+    const { supabase, userId, job } = result;
+    const parsed = AssignPhotoSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Jobs are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    let partnerId: string;
+
+    if ('partner_id' in parsed.data) {
+      const { data: partner } = await supabase
+        .from('partners')
+        .select('id')
+        .eq('id', parsed.data.partner_id)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (!partner) {
+        return NextResponse.json({ error: 'Partner not found' }, { status: 404 });
+      }
+
+      partnerId = partner.id;
+    } else {
+      const { data: user, error: userError } = await supabaseAdmin
+        .from('users')
+        .select('account_type')
+        .eq('id', userId)
+        .single();
+
+      if (userError || !user) {
+        return NextResponse.json(
+          { error: 'Failed to fetch user information' },
+          { status: 500 }
+        );
+      }
+
+      // Check partner limit for free users
+      if (user.account_type === 'free') {
+        const { count, error: countError } = await supabaseAdmin
+          .from('partners')
+          .select('*', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .is('deleted_at', null);
+
+        if (countError) {
+          return NextResponse.json(
+            { error: 'Failed to check partner limit' },
+            { status: 500 }
+          );
+        }
+
+        if (count !== null && count >= FREE_TIER_PARTNER_LIMIT) {
+          const message = count === FREE_TIER_PARTNER_LIMIT
+            ? `Your free subscription is limited to ${FREE_TIER_PARTNER_LIMIT} partners. Please upgrade to Pro to add more partners.`
+            : `With a free subscription you can't add partners if you already have more than ${FREE_TIER_PARTNER_LIMIT} partners. Please upgrade to Pro and try again.`;
+
+          return NextResponse.json(
+            {
+              error: 'PARTNER_LIMIT_REACHED',
+              message,
+              partnerCount: count,
+            },
+            { status: 403 }
+          );
+        }
+      }
+
+      const { data: partner, error: partnerError } = await supabaseAdmin
+        .from('partners')
+        .insert({ user_id: userId })
+        .select('id')
+        .single();
+
+      if (partnerError || !partner) {
+        return NextResponse.json(
+          { error: partnerError?.message || 'Failed to create partner' },
+          { status: 500 }
+        );
+      }
+
+      partnerId = partner.id;
+
+      try {
+        await track('[Partner Added]', userId, {
+          partner_id: partnerId,
+          account_type: user.account_type,
+          source: 'photo_inbox',
+        });
+      } catch (analyticsError) {
+        console.error('Failed to track [Partner Added] event:', analyticsError);
+      }
+    }
+
+    const photo = await assignPhotoUploadJob(supabaseAdmin, job, partnerId);
+
+    try {
+      await track('[Photo Added]', userId, {
+        partner_id: partnerId,
+        photo_id: photo.id,
+        has_face_descriptor: job.face_descriptor !== null,
+        source: 'photo_inbox',
+        review_reason: job.review_reason,
+      });
+    } catch (analyticsError) {
+      console.error('Failed to track [Photo Added] event:', analyticsError);
+    }
+
+    return NextResponse.json({ photo, partner_id: partnerId });
+  } catch (error: any) {
+    console.error('Photo inbox assign error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Discard an inbox photo (deletes the uploaded image)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const result = await getInboxJob(request, params.jobId);
+    if ('error' in result) {
+      return result.error;
+    }
+
+    const { supabase, job } = result;
+    const supabaseAdmin = createSupabaseAdminClient();
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('photo_upload_jobs')
+      .delete()
+      .eq('id', job.id);
+
+    if (deleteError) {
+      return NextResponse.json(
+        { error: 'Failed to discard photo', details: deleteError.message },
+        { status: 500 }
+      );
+    }
+
+    const { error: storageError } = await supabase.storage.from(PHOTO_BUCKET).remove([job.storage_path]);
+    if (storageError) {
+      // The record is gone; an orphaned file doesn't affect the user
+      console.error('Error deleting discarded photo file:', storageError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Photo inbox discard error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { MAX_PHOTO_UPLOAD_ATTEMPTS } from '@/lib/photo-upload-queue';
+import { PARTNER_SORT_ORDER } from '@/shared';
+
+/**
+ * List the photo inbox: bulk-uploaded photos that weren't assigned to a partner
+ *
+ * Returns { items, partners, queued }: items are photos to review (and photos
+ * whose processing gave up), partners are the user's partners to assign them
+ * to, queued is the number of photos still waiting for face detection.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const userId = user.id;
+
+    const [jobsResult, partnersResult] = await Promise.all([
+      supabase
+        .from('photo_upload_jobs')
+        .select('id, batch_id, storage_path, file_name, width, height, status, review_reason, face_count, candidates, attempts, last_error, created_at')
+        .eq('user_id', userId)
+        .neq('status', 'assigned')
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('partners')
+        .select('id, first_name, last_name, profile_picture_storage_path, black_flag')
+        .eq('user_id', userId)
+        .order(PARTNER_SORT_ORDER.field, { ascending: PARTNER_SORT_ORDER.ascending }),
+    ]);
+
+    if (jobsResult.error) {
+      return NextResponse.json({ error: 'Failed to fetch photo inbox' }, { status: 500 });
+    }
+
+    if (partnersResult.error) {
+      return NextResponse.json({ error: 'Failed to fetch partners' }, { status: 500 });
+    }
+
+    const jobs = jobsResult.data || [];
+    const isQueued = (job: (typeof jobs)[number]) =>
+      job.status !== 'review' && job.attempts < MAX_PHOTO_UPLOAD_ATTEMPTS;
+
+    return NextResponse.json({
+      items: jobs.filter((job) => !isQueued(job)),
+      partners: partnersResult.data || [],
+      queued: jobs.filter(isQueued).length,
+    });
+  } catch (error: any) {
+    console.error('Photo inbox error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { countQueuedPhotoUploads, processPhotoUploadQueue } from '@/lib/photo-upload-queue';
+
+// Face detection takes a few seconds per image; keep each call well within the function timeout
+const PHOTOS_PER_CALL = 5;
+
+/**
+ * Process the current user's bulk-uploaded photos
+ *
+ * Called by the app after a bulk upload, repeatedly while `remaining` > 0, so
+ * photos are sorted without waiting for the cron run.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'photos:upload' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    // Jobs are only writable with the service role
+    const supabaseAdmin = createSupabaseAdminClient();
+    const summary = await processPhotoUploadQueue(supabaseAdmin, { userId: user.id, limit: PHOTOS_PER_CALL });
+    const remaining = await countQueuedPhotoUploads(supabaseAdmin, user.id);
+
+    return NextResponse.json({ success: true, summary, remaining });
+  } catch (error: any) {
+    console.error('Photo upload queue error:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
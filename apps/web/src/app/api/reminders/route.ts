@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { getUpcomingReminders } from '@/lib/reminders';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * Upcoming reminders across all partners, soonest first (dashboard panels)
+ *
+ * Query: limit (default 10, max 50)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase, user } = authResult.auth;
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(limitParam) ? DEFAULT_LIMIT : Math.min(Math.max(limitParam, 1), MAX_LIMIT);
+
+    const reminders = await getUpcomingReminders(supabase, user.id, { limit });
+
+    return NextResponse.json({ data: reminders });
+  } catch (error: any) {
+    console.error('Error fetching upcoming reminders:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
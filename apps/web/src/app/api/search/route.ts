@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { searchPartners, SearchQuerySchema } from '@/lib/search';
+
+/**
+ * Full-text search across partners and their activities, best match first
+ *
+ * Query: q (required, max 100 characters), limit (default 20, max 50).
+ * Returns { data: SearchResult[] }; snippets mark matched words with
+ * SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { supabase } = authResult.auth;
+
+    const parsed = SearchQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams.entries()));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const results = await searchPartners(supabase, parsed.data.q, parsed.data.limit);
+
+    return NextResponse.json({ data: results });
+  } catch (error: any) {
+    console.error('Error searching:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
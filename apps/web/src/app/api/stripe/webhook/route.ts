@@ -4,6 +4,7 @@ import { createSupabaseAdminClient } from '@/lib/supabase/client';
 import Stripe from 'stripe';
 import { extractSubscriptionPrice } from '@/lib/stripe-helpers';
 import { track, setUserProperties } from '@/lib/analytics/server';
+import { notifyPaymentFailed } from '@/lib/notifications';
 
 // Validate and initialize Stripe (lazy initialization to avoid build-time errors)
 const getStripeInstance = () => {
@@ -502,6 +503,38 @@ export async function POST(request: NextRequest) {
         break;
       }
 
+      case 'invoice.payment_failed': {
+        const invoice = event.data.object as Stripe.Invoice;
+        const subscriptionId = invoice.subscription as string;
+
+        console.log(`[Webhook] invoice.payment_failed: invoice=${invoice.id}, subscription=${subscriptionId}, attempt=${invoice.attempt_count}`);
+
+        if (!subscriptionId) {
+          console.error('[Webhook] invoice.payment_failed: No subscription ID in invoice');
+          break;
+        }
+
+        // Get user by subscription ID (use admin client to bypass RLS)
+        const { data: subData, error: subError } = await supabaseAdmin
+          .from('subscriptions')
+          .select('user_id')
+          .eq('stripe_subscription_id', subscriptionId)
+          .maybeSingle();
+
+        if (subError || !subData) {
+          console.error(`[Webhook] invoice.payment_failed: Subscription not found: ${subscriptionId}`, subError);
+          break;
+        }
+
+        // Push notification so the user can update their payment method before Pro ends
+        // Fire-and-forget: don't await to avoid blocking webhook response
+        notifyPaymentFailed(supabaseAdmin, subData.user_id, invoice).catch((error) => {
+          console.error('[Webhook] Error sending payment failed notification:', error);
+        });
+
+        break;
+      }
+
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
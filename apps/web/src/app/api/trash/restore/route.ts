@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { restoreTrashItem } from '@/lib/trash';
+import { track } from '@/lib/analytics/server';
+
+const RestoreTrashItemSchema = z.object({
+  type: z.enum(['partner', 'photo', 'activity']),
+  id: z.string().uuid(),
+});
+
+/**
+ * Restore an item from the trash
+ *
+ * Body: { type: "partner" | "photo" | "activity", id }
+ * Restoring a partner also restores the photos and activities deleted with it.
+ * Free-tier limits apply as when creating the item. Not callable with an API key.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:write' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    const parsed = RestoreTrashItemSchema.safeParse(await request.json().catch(() => null));
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createSupabaseAdminClient();
+    const result = await restoreTrashItem(supabaseAdmin, user.id, parsed.data.type, parsed.data.id);
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error, ...(result.message && { message: result.message }) },
+        { status: result.status }
+      );
+    }
+
+    // Track [Trash Item Restored] event
+    try {
+      await track('[Trash Item Restored]', user.id, {
+        item_type: parsed.data.type,
+        item_id: parsed.data.id,
+      });
+    } catch (analyticsError) {
+      // Log error but don't break the request
+      console.error('Failed to track [Trash Item Restored] event:', analyticsError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error restoring trash item:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { listTrash } from '@/lib/trash';
+
+/**
+ * List the trash: deleted partners, photos and activities with their purge date.
+ * Photos and activities deleted together with a partner are counted under the partner.
+ *
+ * Not callable with an API key.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, { scope: 'partners:read' });
+    if (!authResult.ok) {
+      return authErrorResponse(authResult.error);
+    }
+    const { user } = authResult.auth;
+
+    // Trashed rows are hidden from the user's client by RLS
+    const supabaseAdmin = createSupabaseAdminClient();
+    const trash = await listTrash(supabaseAdmin, user.id);
+
+    return NextResponse.json({ data: trash });
+  } catch (error: any) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,11 @@ import Breadcrumbs from '@/components/Breadcrumbs';
 import Header from '@/components/Header';
 import PartnerCard from '@/components/PartnerCard';
 import AddPartnerButton from '@/components/dashboard/AddPartnerButton';
-import { Partner, PARTNER_SORT_ORDER } from '@/shared';
+import UpcomingReminders from '@/components/dashboard/UpcomingReminders';
+import PartnerInsights from '@/components/dashboard/PartnerInsights';
+import { getUpcomingReminders, UpcomingReminder } from '@/lib/reminders';
+import { getPartnerInsights } from '@/lib/insights';
+import { Partner, PARTNER_SORT_ORDER, PartnerInsights as Insights } from '@/shared';
 import type { Metadata } from 'next';
 
 export const metadata: Metadata = {
@@ -117,6 +121,20 @@ export default async function DashboardPage() {
       }
     }
 
+    let upcomingReminders: UpcomingReminder[] = [];
+    try {
+      upcomingReminders = await getUpcomingReminders(supabase, session.user.id, { limit: 5 });
+    } catch (remindersError) {
+      console.error('Error fetching reminders:', remindersError);
+    }
+
+    let insights: Insights | null = null;
+    try {
+      insights = await getPartnerInsights(supabase, session.user.id, user?.timezone);
+    } catch (insightsError) {
+      console.error('Error computing insights:', insightsError);
+    }
+
     return (
       <div className="min-h-screen bg-gray-50">
         <Header accountType={user?.account_type} />
@@ -133,6 +151,10 @@ export default async function DashboardPage() {
             </p>
           </div>
 
+          <UpcomingReminders reminders={upcomingReminders} />
+
+          {insights && <PartnerInsights insights={insights} />}
+
           {recentPartners && recentPartners.length > 0 && (
             <div className="bg-white rounded-lg shadow p-6 mb-6">
               <div className="flex justify-between items-center mb-4">
@@ -168,6 +190,13 @@ export default async function DashboardPage() {
                 <h2 className="font-semibold text-lg mb-2">Upload Photo</h2>
                 <p className="text-sm text-gray-600">Upload a photo to find or create a partner</p>
               </Link>
+              <Link
+                href="/photos/inbox"
+                className="bg-purple-50 border-2 border-purple-200 rounded-lg p-4 hover:bg-purple-100 transition-colors"
+              >
+                <h2 className="font-semibold text-lg mb-2">Photo Inbox</h2>
+                <p className="text-sm text-gray-600">Sort bulk-uploaded photos that need your review</p>
+              </Link>
               {user?.account_type === 'pro' && (
                 <Link
                   href="/billing"
@@ -134,15 +134,16 @@ export default function DeletePartnerPage() {
               </p>
             </div>
             <p className="text-gray-600 mb-2">
-              This will permanently delete:
+              This will move to the trash:
             </p>
             <ul className="list-disc list-inside text-gray-600 mb-4 ml-4">
               <li>All photos associated with this partner</li>
               <li>All activities associated with this partner</li>
               <li>The partner record itself</li>
             </ul>
-            <p className="text-red-600 font-semibold">
-              This action cannot be undone.
+            <p className="text-gray-600">
+              You can restore the partner from the <Link href="/trash" className="text-primary-600 hover:underline">trash</Link> for 30 days.
+              After that it is deleted permanently.
             </p>
           </div>
 
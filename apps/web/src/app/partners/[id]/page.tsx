@@ -1,13 +1,17 @@
 import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
-import { Partner, PartnerActivity } from '@/shared';
+import { format, parseISO } from 'date-fns';
+import { CustomFieldDefinition, Partner, PartnerActivity, PARTNER_STATUS_LABELS, PartnerStatusChange } from '@/shared';
 import PartnerActivities from '@/components/PartnerActivities';
 import PartnerPhotos from '@/components/PartnerPhotos';
 import Header from '@/components/Header';
 import Breadcrumbs from '@/components/Breadcrumbs';
 import BlackFlagIcon from '@/components/BlackFlagIcon';
+import PartnerStatusBadge from '@/components/PartnerStatusBadge';
 import DescriptionWithLinks from '@/components/DescriptionWithLinks';
+import PartnerReminders from '@/components/PartnerReminders';
+import { getUpcomingReminders } from '@/lib/reminders';
 
 export const dynamic = 'force-dynamic';
 
@@ -48,6 +52,28 @@ export default async function PartnerDetailPage({
     .eq('partner_id', params.id)
     .order('start_time', { ascending: false });
 
+  const { data: customFields } = await supabase
+    .from('custom_field_definitions')
+    .select('*')
+    .eq('user_id', session.user.id)
+    .order('position', { ascending: true });
+
+  const { data: statusChanges } = await supabase
+    .from('partner_status_changes')
+    .select('*')
+    .eq('partner_id', params.id)
+    .order('changed_at', { ascending: false });
+
+  const reminders = await getUpcomingReminders(supabase, session.user.id, { partnerId: params.id }).catch((error) => {
+    console.error('Error fetching reminders:', error);
+    return [];
+  });
+
+  // Values of deleted fields are ignored
+  const customFieldValues = ((customFields || []) as CustomFieldDefinition[]).filter(
+    (field) => partner.custom_fields?.[field.id] !== undefined
+  );
+
   const partnerDisplayName = partner.first_name && partner.last_name
     ? `${partner.first_name} ${partner.last_name}`
     : partner.first_name || partner.last_name || 'Unnamed Partner';
@@ -73,6 +99,7 @@ export default async function PartnerDetailPage({
                     <BlackFlagIcon className="w-4 h-4" />
                   </span>
                 )}
+                {partner.status && <PartnerStatusBadge status={partner.status} />}
               </div>
               <p className="text-gray-600 mt-2">
                 Added {(() => {
@@ -109,8 +136,30 @@ export default async function PartnerDetailPage({
                 <p className="text-gray-900">{partner.phone_number}</p>
               </div>
             )}
+            {customFieldValues.map((field) => (
+              <div key={field.id}>
+                <label className="text-sm font-medium text-gray-700">
+                  {field.name}
+                </label>
+                <p className="text-gray-900">{String(partner.custom_fields[field.id])}</p>
+              </div>
+            ))}
           </div>
 
+          {partner.tags?.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-4">
+              {partner.tags.map((tag: string) => (
+                <Link
+                  key={tag}
+                  href={`/partners?tags=${encodeURIComponent(tag)}`}
+                  className="px-2 py-0.5 rounded-full bg-primary-50 text-primary-700 text-sm hover:bg-primary-100"
+                >
+                  {tag}
+                </Link>
+              ))}
+            </div>
+          )}
+
           {partner.description && (
             <div className="mt-4">
               <label className="text-sm font-medium text-gray-700">
@@ -195,8 +244,28 @@ export default async function PartnerDetailPage({
               </div>
             </div>
           )}
+
+          {statusChanges && statusChanges.length > 0 && (
+            <div className="mt-6 pt-6 border-t">
+              <label className="text-sm font-medium text-gray-700 mb-3 block">
+                Status History
+              </label>
+              <ul className="space-y-1">
+                {(statusChanges as PartnerStatusChange[]).map((change) => (
+                  <li key={change.id} className="text-sm text-gray-700">
+                    <span className="text-gray-500">{format(parseISO(change.changed_at), 'MMM d, yyyy')}</span>{' '}
+                    {change.from_status
+                      ? `${PARTNER_STATUS_LABELS[change.from_status]} → ${PARTNER_STATUS_LABELS[change.to_status]}`
+                      : `Added as ${PARTNER_STATUS_LABELS[change.to_status]}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
+        <PartnerReminders partnerId={params.id} initialReminders={reminders} />
+
         <PartnerPhotos partnerId={params.id} />
 
         <PartnerActivities partnerId={params.id} initialActivities={activities || []} />
@@ -0,0 +1,58 @@
+import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Header from '@/components/Header';
+import Breadcrumbs from '@/components/Breadcrumbs';
+import PartnerBoard, { BoardPartner } from '@/components/PartnerBoard';
+
+export const dynamic = 'force-dynamic';
+
+export default async function PartnerBoardPage() {
+  const supabase = createSupabaseServerComponentClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('account_type')
+    .eq('id', session.user.id)
+    .single();
+
+  // Longest in their stage last
+  const { data: partners, error: partnersError } = await supabase
+    .from('partners')
+    .select('id, first_name, last_name, profile_picture_storage_path, status, status_changed_at')
+    .eq('user_id', session.user.id)
+    .order('status_changed_at', { ascending: false });
+
+  if (partnersError) {
+    console.error('Error fetching partners:', partnersError);
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header accountType={user?.account_type} />
+      <Breadcrumbs customItems={[{ label: 'Board', href: '/partners/board' }]} />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold mb-2">Board</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Where each relationship stands. Drag a partner to another column to change their status.
+        </p>
+
+        {partnersError ? (
+          <div className="bg-red-50 text-red-800 p-4 rounded-lg mb-4">
+            <p className="font-semibold">Error loading partners:</p>
+            <p className="text-sm">{partnersError.message}</p>
+          </div>
+        ) : (
+          <PartnerBoard initialPartners={(partners || []) as BoardPartner[]} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { PARTNER_SORT_ORDER } from '@/shared';
+import Header from '@/components/Header';
+import Breadcrumbs from '@/components/Breadcrumbs';
+import ActivityImport from '@/components/ActivityImport';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ImportActivitiesPage() {
+  const supabase = createSupabaseServerComponentClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('account_type')
+    .eq('id', session.user.id)
+    .single();
+
+  const { data: partners } = await supabase
+    .from('partners')
+    .select('id, first_name, last_name')
+    .eq('user_id', session.user.id)
+    .order(PARTNER_SORT_ORDER.field, { ascending: PARTNER_SORT_ORDER.ascending });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header accountType={user?.account_type} />
+      <Breadcrumbs customItems={[{ label: 'Import Activities', href: '/partners/import-activities' }]} />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold mb-6">Import Activities from Calendar</h1>
+        <ActivityImport partners={partners || []} />
+      </main>
+    </div>
+  );
+}
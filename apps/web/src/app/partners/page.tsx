@@ -1,14 +1,22 @@
 import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
-import { Partner, PARTNER_SORT_ORDER } from '@/shared';
+import { buildPartnerListParams, parsePartnerListParams, PartnerListFiltersSchema, PartnerListItem } from '@/shared';
+import { listAllPartners, parsePartnerFieldFilters } from '@/lib/partner-list';
+import { getCustomFieldDefinitions, getPartnerTagCounts } from '@/lib/custom-fields';
+import { getPartnerViews } from '@/lib/partner-views';
 import Header from '@/components/Header';
 import Breadcrumbs from '@/components/Breadcrumbs';
 import PartnerCard from '@/components/PartnerCard';
+import PartnerFilters from '@/components/PartnerFilters';
 
 export const dynamic = 'force-dynamic';
 
-export default async function PartnersPage() {
+export default async function PartnersPage({
+  searchParams,
+}: {
+  searchParams: Record<string, string | string[] | undefined>;
+}) {
   const supabase = createSupabaseServerComponentClient();
   const {
     data: { session },
@@ -24,14 +32,28 @@ export default async function PartnersPage() {
     .eq('id', session.user.id)
     .single();
 
-  const { data: partners, error: partnersError } = await supabase
-    .from('partners')
-    .select('*')
-    .eq('user_id', session.user.id)
-    .order(PARTNER_SORT_ORDER.field, { ascending: PARTNER_SORT_ORDER.ascending });
+  // Sort and filters (same query parameters as GET /api/partners); invalid ones are ignored
+  const filters = parsePartnerListParams(searchParams) || { ...PartnerListFiltersSchema.parse({}), fields: {} };
+  const fieldFilters = await parsePartnerFieldFilters(supabase, session.user.id, searchParams);
+  const [customFields, tagCounts, views] = await Promise.all([
+    getCustomFieldDefinitions(supabase, session.user.id),
+    getPartnerTagCounts(supabase, session.user.id),
+    getPartnerViews(supabase, session.user.id),
+  ]);
+  const isFiltered = Object.keys(buildPartnerListParams({ ...filters, sort: undefined, order: undefined })).length > 0;
 
-  if (partnersError) {
-    console.error('Error fetching partners:', partnersError);
+  let partners: PartnerListItem[] | null = null;
+  let partnersError: Error | null = null;
+  try {
+    partners = await listAllPartners(
+      supabase,
+      session.user.id,
+      filters,
+      'filters' in fieldFilters ? fieldFilters.filters : []
+    );
+  } catch (error) {
+    console.error('Error fetching partners:', error);
+    partnersError = error as Error;
   }
 
   // Fetch last activity description for each partner (if partner has no description)
@@ -64,14 +86,42 @@ export default async function PartnersPage() {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-3xl font-bold">Partners</h1>
-          <Link
-            href="/partners/new"
-            className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
-          >
-            + Add Partner
-          </Link>
+          <div className="flex items-center gap-3">
+            <Link
+              href="/partners/board"
+              className="text-gray-700 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              Board
+            </Link>
+            <Link
+              href="/partners/duplicates"
+              className="text-gray-700 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              Find duplicates
+            </Link>
+            <Link
+              href="/trash"
+              className="text-gray-700 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              Trash
+            </Link>
+            <Link
+              href="/partners/import-activities"
+              className="text-gray-700 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+            >
+              Import from calendar
+            </Link>
+            <Link
+              href="/partners/new"
+              className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              + Add Partner
+            </Link>
+          </div>
         </div>
 
+        <PartnerFilters tags={tagCounts} customFields={customFields} views={views} />
+
         {partnersError && (
           <div className="bg-red-50 text-red-800 p-4 rounded-lg mb-4">
             <p className="font-semibold">Error loading partners:</p>
@@ -81,7 +131,7 @@ export default async function PartnersPage() {
         
         {partners && partners.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {partners.map((partner: Partner) => (
+            {partners.map((partner) => (
               <PartnerCard
                 key={partner.id}
                 partner={partner}
@@ -89,6 +139,10 @@ export default async function PartnersPage() {
               />
             ))}
           </div>
+        ) : isFiltered ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <p className="text-gray-600">No partners match these filters.</p>
+          </div>
         ) : (
           <div className="bg-white rounded-lg shadow p-12 text-center">
             <p className="text-gray-600 mb-4">No partners yet.</p>
@@ -0,0 +1,48 @@
+import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Header from '@/components/Header';
+import Breadcrumbs from '@/components/Breadcrumbs';
+import PhotoInbox from '@/components/PhotoInbox';
+import { NavigationLink } from '@/lib/navigation';
+
+export const dynamic = 'force-dynamic';
+
+export default async function PhotoInboxPage() {
+  const supabase = createSupabaseServerComponentClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('account_type')
+    .eq('id', session.user.id)
+    .single();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header accountType={user?.account_type} />
+      <Breadcrumbs customItems={[{ label: 'Photo Inbox', href: '/photos/inbox' }]} />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex justify-between items-center mb-2">
+          <h1 className="text-3xl font-bold">Photo Inbox</h1>
+          <NavigationLink
+            href="/upload-photo/bulk"
+            className="text-gray-700 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-100 transition-colors"
+          >
+            Upload photos
+          </NavigationLink>
+        </div>
+        <p className="text-sm text-gray-600 mb-6">
+          Uploaded photos that couldn&apos;t be matched to exactly one partner. Assign each one or discard it.
+        </p>
+        <PhotoInbox />
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import ProfileForm from '@/components/ProfileForm';
+import ApiKeys from '@/components/ApiKeys';
+import CustomFields from '@/components/CustomFields';
+import DataExport from '@/components/DataExport';
+import DataImport from '@/components/DataImport';
+import DeleteAccount from '@/components/DeleteAccount';
 import Breadcrumbs from '@/components/Breadcrumbs';
 import Header from '@/components/Header';
 import SubscriptionVerifier from '@/components/SubscriptionVerifier';
@@ -55,6 +60,11 @@ export default async function ProfilePage() {
             </div>
           )}
           <ProfileForm user={user} />
+          <CustomFields />
+          <ApiKeys />
+          <DataExport />
+          <DataImport />
+          <DeleteAccount />
         </div>
       </main>
     </div>
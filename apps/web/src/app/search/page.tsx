@@ -0,0 +1,57 @@
+import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { searchPartners, SearchQuerySchema } from '@/lib/search';
+import Header from '@/components/Header';
+import Breadcrumbs from '@/components/Breadcrumbs';
+import SearchResults from '@/components/SearchResults';
+
+export const dynamic = 'force-dynamic';
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Record<string, string | string[] | undefined>;
+}) {
+  const supabase = createSupabaseServerComponentClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('account_type')
+    .eq('id', session.user.id)
+    .single();
+
+  const query = typeof searchParams.q === 'string' ? searchParams.q : '';
+  const parsed = SearchQuerySchema.safeParse({ q: query });
+  const results = parsed.success ? await searchPartners(supabase, parsed.data.q, parsed.data.limit) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header accountType={user?.account_type} searchQuery={query} />
+      <Breadcrumbs customItems={[{ label: 'Search', href: '/search' }]} />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold mb-2">Search</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          {parsed.success
+            ? `${results.length} ${results.length === 1 ? 'result' : 'results'} for "${parsed.data.q}"`
+            : 'Search partner names, contacts and descriptions, and activity locations and descriptions.'}
+        </p>
+
+        {parsed.success && results.length === 0 && (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-500">
+            Nothing matches your search. Try fewer or shorter words.
+          </div>
+        )}
+
+        {results.length > 0 && <SearchResults results={results} />}
+      </main>
+    </div>
+  );
+}
@@ -8,21 +8,12 @@ import Link from 'next/link';
 import Header from '@/components/Header';
 import Breadcrumbs from '@/components/Breadcrumbs';
 import { getPhotoUrl } from '@/lib/photo-utils';
-import { PhotoUploadAnalysis, FaceMatch } from '@/shared';
+import { PhotoUploadAnalysis, PartnerFaceScore } from '@/shared';
 import BlackFlagIcon from '@/components/BlackFlagIcon';
 import AlertDialog from '@/components/AlertDialog';
 
 export const dynamic = 'force-dynamic';
 
-interface SimilarPartner {
-  partner_id: string;
-  partner_name: string | null;
-  partner_profile_picture: string | null;
-  confidence: number;
-  matchCount: number;
-  black_flag?: boolean;
-}
-
 export default function SimilarPhotosPage() {
   const navigation = useNavigation();
   const searchParams = useSearchParams();
@@ -64,7 +55,7 @@ export default function SimilarPhotosPage() {
   
   const [loading, setLoading] = useState(true);
   const [accountType, setAccountType] = useState<string | null>(null);
-  const [similarPartners, setSimilarPartners] = useState<SimilarPartner[]>([]);
+  const [similarPartners, setSimilarPartners] = useState<PartnerFaceScore[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
   const [partnerLimitMessage, setPartnerLimitMessage] = useState<string | null>(null);
@@ -98,34 +89,8 @@ export default function SimilarPhotosPage() {
       try {
         const analysis: PhotoUploadAnalysis = JSON.parse(decodeURIComponent(analysisParam));
         
-        if (analysis.otherPartnerMatches && analysis.otherPartnerMatches.length > 0) {
-          // Group matches by partner_id to avoid duplicates
-          const groupedMatches = new Map<string, FaceMatch[]>();
-          analysis.otherPartnerMatches.forEach((match) => {
-            const matchPartnerId = match.partner_id;
-            if (!groupedMatches.has(matchPartnerId)) {
-              groupedMatches.set(matchPartnerId, []);
-            }
-            groupedMatches.get(matchPartnerId)!.push(match);
-          });
-
-          // Get the best match (highest confidence) for each partner
-          const uniquePartners: SimilarPartner[] = Array.from(groupedMatches.entries()).map(([matchPartnerId, matches]) => {
-            const bestMatch = matches.reduce((best, current) => 
-              current.confidence > best.confidence ? current : best
-            );
-            return {
-              partner_id: matchPartnerId,
-              partner_name: bestMatch.partner_name,
-              partner_profile_picture: bestMatch.partner_profile_picture || null,
-              confidence: bestMatch.confidence,
-              matchCount: matches.length,
-              black_flag: (bestMatch as any).black_flag || false,
-            };
-          });
-
-          setSimilarPartners(uniquePartners);
-        }
+        // One entry per partner, scored against the partner's face model by the analyze API
+        setSimilarPartners(analysis.otherPartnerScores || []);
       } catch (e) {
         console.error('Error parsing analysis data:', e);
         setError('Invalid analysis data');
@@ -294,7 +259,7 @@ export default function SimilarPhotosPage() {
                       </div>
                       <p className="text-sm text-gray-500">
                         {Math.round(partner.confidence)}% match
-                        {partner.matchCount > 1 && `, ${partner.matchCount} photos`}
+                        {partner.photoCount > 1 && `, ${partner.matchCount} of ${partner.photoCount} photos`}
                       </p>
                     </div>
                     <div className="flex flex-col sm:flex-row gap-2 flex-shrink-0 w-full sm:w-auto">
@@ -0,0 +1,45 @@
+import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Header from '@/components/Header';
+import Breadcrumbs from '@/components/Breadcrumbs';
+import FaceMatchCalibration from '@/components/FaceMatchCalibration';
+
+export const dynamic = 'force-dynamic';
+
+export default async function FaceMatchCalibrationPage() {
+  const supabase = createSupabaseServerComponentClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('account_type')
+    .eq('id', session.user.id)
+    .single();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header accountType={user?.account_type} />
+      <Breadcrumbs
+        customItems={[
+          { label: 'Profile', href: '/profile' },
+          { label: 'Face Match Calibration', href: '/test-face-recognition/calibration' },
+        ]}
+      />
+
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold mb-2">Face Match Calibration</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Your own partners are used as test data: photos of the same partner should match, photos of different
+          partners shouldn&apos;t. See how often each threshold gets this wrong and pick a stricter or more lenient one.
+        </p>
+        <FaceMatchCalibration />
+      </main>
+    </div>
+  );
+}
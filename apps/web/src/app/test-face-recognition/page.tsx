@@ -1,6 +1,7 @@
 'use client';
 
 import { PhotoUploadWithFaceMatch } from '@/components/PhotoUploadWithFaceMatch';
+import { NavigationLink } from '@/lib/navigation';
 import { useState } from 'react';
 
 export default function TestFaceRecognitionPage() {
@@ -70,6 +71,12 @@ export default function TestFaceRecognitionPage() {
           <li>The system will analyze the face and show appropriate warnings</li>
           <li>Follow the prompts to complete the upload</li>
         </ol>
+        <p className="text-sm mt-3">
+          Too many or too few matches?{' '}
+          <NavigationLink href="/test-face-recognition/calibration" className="underline font-semibold">
+            Calibrate the match threshold
+          </NavigationLink>
+        </p>
       </div>
     </div>
   );
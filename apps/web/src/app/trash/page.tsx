@@ -0,0 +1,39 @@
+import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Header from '@/components/Header';
+import Breadcrumbs from '@/components/Breadcrumbs';
+import Trash from '@/components/Trash';
+
+export const dynamic = 'force-dynamic';
+
+export default async function TrashPage() {
+  const supabase = createSupabaseServerComponentClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('account_type')
+    .eq('id', session.user.id)
+    .single();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header accountType={user?.account_type} />
+      <Breadcrumbs customItems={[{ label: 'Trash', href: '/trash' }]} />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold mb-2">Trash</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Deleted partners, photos and activities stay here for 30 days and can be restored until then.
+        </p>
+        <Trash />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { createSupabaseServerComponentClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Header from '@/components/Header';
+import Breadcrumbs from '@/components/Breadcrumbs';
+import BulkPhotoUpload from '@/components/BulkPhotoUpload';
+
+export const dynamic = 'force-dynamic';
+
+export default async function BulkPhotoUploadPage() {
+  const supabase = createSupabaseServerComponentClient();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('account_type')
+    .eq('id', session.user.id)
+    .single();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header accountType={user?.account_type} />
+      <Breadcrumbs customItems={[
+        { label: 'Upload Photo', href: '/upload-photo' },
+        { label: 'Bulk Upload', href: '/upload-photo/bulk' },
+      ]} />
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h1 className="text-2xl font-bold mb-6">Bulk Upload</h1>
+          <p className="text-gray-600 mb-6">
+            Upload many photos at once. Photos of a face that matches exactly one partner are added to that partner;
+            the rest go to your photo inbox for review.
+          </p>
+          <BulkPhotoUpload />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useNavigation } from '@/lib/navigation';
+import { NavigationLink, useNavigation } from '@/lib/navigation';
 import Header from '@/components/Header';
 import Breadcrumbs from '@/components/Breadcrumbs';
 import { PhotoUploadWithFaceMatch } from '@/components/PhotoUploadWithFaceMatch';
@@ -48,6 +48,11 @@ export default function UploadPhotoPage() {
           <h1 className="text-2xl font-bold mb-6">Upload Photo</h1>
           <p className="text-gray-600 mb-6">
             Upload a photo to find matching partners or create a new partner.
+            Have many photos?{' '}
+            <NavigationLink href="/upload-photo/bulk" className="text-primary-600 hover:text-primary-800">
+              Upload them all at once
+            </NavigationLink>
+            .
           </p>
           <PhotoUploadWithFaceMatch
             onSuccess={handleSuccess}
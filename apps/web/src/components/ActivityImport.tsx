@@ -0,0 +1,301 @@
+'use client';
+
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Partner, PartnerActivityType } from '@/shared';
+import { NavigationLink } from '@/lib/navigation';
+import type { ActivityImportProposal } from '@/lib/calendar/import';
+
+const ACTIVITY_TYPES: PartnerActivityType[] = ['date', 'chat', 'phone', 'other'];
+
+interface ActivityImportProps {
+  partners: Pick<Partner, 'id' | 'first_name' | 'last_name'>[];
+}
+
+interface ReviewRow extends ActivityImportProposal {
+  include: boolean;
+}
+
+function getPartnerName(partner: Pick<Partner, 'first_name' | 'last_name'>): string {
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed partner';
+}
+
+export default function ActivityImport({ partners }: ActivityImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [activityCount, setActivityCount] = useState(0);
+  const [activityLimit, setActivityLimit] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string | React.ReactNode } | null>(null);
+
+  const selectedRows = rows?.filter((row) => row.include && row.partner_id && !row.duplicate) || [];
+  const remaining = activityLimit !== null ? Math.max(activityLimit - activityCount, 0) : null;
+  const overLimit = remaining !== null && selectedRows.length > remaining;
+
+  const handleAnalyze = async () => {
+    if (!file || analyzing) return;
+
+    setAnalyzing(true);
+    setMessage(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/activities/import', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to read calendar file' });
+        return;
+      }
+
+      setRows(
+        (data.proposals as ActivityImportProposal[]).map((proposal) => ({
+          ...proposal,
+          include: !!proposal.partner_id && !proposal.duplicate,
+        }))
+      );
+      setActivityCount(data.activityCount);
+      setActivityLimit(data.activityLimit);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error reading calendar file: ' + error.message });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const updateRow = (index: number, updates: Partial<ReviewRow>) => {
+    setRows((prev) => prev && prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleImport = async () => {
+    if (importing || selectedRows.length === 0) return;
+
+    setImporting(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/activities/import/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          activities: selectedRows.map((row) => ({
+            partner_id: row.partner_id,
+            type: row.type,
+            start_time: row.start_time,
+            end_time: row.end_time,
+            location: row.location,
+            description: row.description,
+            import_uid: row.import_uid,
+          })),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.error === 'ACTIVITY_LIMIT_REACHED') {
+          setMessage({
+            type: 'error',
+            text: (
+              <>
+                {data.message}{' '}
+                <NavigationLink href="/upgrade" className="underline font-semibold">
+                  Upgrade to Pro
+                </NavigationLink>
+              </>
+            ),
+          });
+        } else {
+          setMessage({ type: 'error', text: data.error || 'Failed to import activities' });
+        }
+        return;
+      }
+
+      setRows(null);
+      setFile(null);
+      setMessage({
+        type: 'success',
+        text: (
+          <>
+            Imported {data.imported} {data.imported === 1 ? 'activity' : 'activities'}
+            {data.skipped > 0 && ` (${data.skipped} skipped as duplicates)`}.{' '}
+            <NavigationLink href="/partners" className="underline font-semibold">
+              Back to partners
+            </NavigationLink>
+          </>
+        ),
+      });
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error importing activities: ' + error.message });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const spinner = (
+    <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+  );
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {!rows && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-sm text-gray-600 mb-4">
+            Upload a calendar export (.ics) from Google Calendar, Outlook or Apple Calendar. Events are matched to
+            your partners by the names in their titles, and you can review everything before it is imported.
+          </p>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setMessage(null);
+              }}
+              className="text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleAnalyze}
+              disabled={!file || analyzing}
+              className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {analyzing && spinner}
+              {analyzing ? 'Reading file...' : 'Review events'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rows && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="text-sm text-gray-600">
+              {rows.length} events found · {rows.filter((r) => r.duplicate).length} already imported ·{' '}
+              <span className="font-semibold text-gray-900">{selectedRows.length} selected</span>
+              {remaining !== null && (
+                <span className={overLimit ? 'text-red-600' : ''}>
+                  {' '}· Free account: {remaining} more {remaining === 1 ? 'activity' : 'activities'} allowed
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setRows(null)}
+                disabled={importing}
+                className="text-sm px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={importing || selectedRows.length === 0 || overLimit}
+                className="text-sm bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {importing && spinner}
+                {importing
+                  ? 'Importing...'
+                  : `Import ${selectedRows.length} ${selectedRows.length === 1 ? 'activity' : 'activities'}`}
+              </button>
+            </div>
+          </div>
+
+          {overLimit && (
+            <div className="px-4 py-3 bg-red-50 text-sm text-red-800">
+              Free accounts are limited to {activityLimit} total activities. Deselect some events or{' '}
+              <NavigationLink href="/upgrade" className="underline font-semibold">
+                upgrade to Pro
+              </NavigationLink>{' '}
+              to import them all.
+            </div>
+          )}
+
+          <ul className="divide-y divide-gray-200">
+            {rows.map((row, index) => (
+              <li
+                key={`${row.import_uid || ''}-${row.start_time}-${index}`}
+                className={`p-4 flex flex-col md:flex-row md:items-center gap-3 ${row.duplicate ? 'opacity-60' : ''}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={row.include && !row.duplicate}
+                  disabled={row.duplicate || !row.partner_id || importing}
+                  onChange={(e) => updateRow(index, { include: e.target.checked })}
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{row.summary || '(no title)'}</p>
+                  <p className="text-sm text-gray-600">
+                    {format(parseISO(row.start_time), 'MMM d, yyyy h:mm a')}
+                    {row.end_time && ` - ${format(parseISO(row.end_time), 'h:mm a')}`}
+                    {row.location && ` · 📍 ${row.location}`}
+                  </p>
+                  {row.duplicate && (
+                    <p className="text-xs text-amber-700 mt-1">An activity already exists at this time</p>
+                  )}
+                  {!row.duplicate && !row.partner_id && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {row.partner_candidates.length > 1
+                        ? 'Several partners match this event - choose one'
+                        : 'No matching partner - choose one to import this event'}
+                    </p>
+                  )}
+                </div>
+                <select
+                  value={row.partner_id || ''}
+                  disabled={row.duplicate || importing}
+                  onChange={(e) =>
+                    updateRow(index, { partner_id: e.target.value || null, include: !!e.target.value })
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="">Select partner...</option>
+                  {[...partners]
+                    .sort(
+                      (a, b) =>
+                        Number(row.partner_candidates.includes(b.id)) - Number(row.partner_candidates.includes(a.id))
+                    )
+                    .map((partner) => (
+                      <option key={partner.id} value={partner.id}>
+                        {getPartnerName(partner)}
+                      </option>
+                    ))}
+                </select>
+                <select
+                  value={row.type}
+                  disabled={row.duplicate || importing}
+                  onChange={(e) => updateRow(index, { type: e.target.value as PartnerActivityType })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {ACTIVITY_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type.charAt(0).toUpperCase() + type.slice(1)}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  API_KEY_SCOPE_LABELS,
+  API_KEY_SCOPES,
+  ApiKey,
+  ApiKeyScope,
+  MAX_API_KEYS_PER_USER,
+} from '@/lib/auth/api-keys';
+import ConfirmDialog from './ConfirmDialog';
+
+function formatDate(value: string): string {
+  return format(parseISO(value), 'MMM d, yyyy HH:mm');
+}
+
+export default function ApiKeys() {
+  const [keys, setKeys] = useState<ApiKey[] | null>(null);
+  const [message, setMessage] = useState('');
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['partners:read']);
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [keyCopied, setKeyCopied] = useState(false);
+  const [revokeConfirm, setRevokeConfirm] = useState<ApiKey | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  useEffect(() => {
+    const loadKeys = async () => {
+      try {
+        const response = await fetch('/api/api-keys');
+        const data = await response.json();
+
+        if (!response.ok) {
+          setMessage('Error loading API keys: ' + (data.error || 'Failed to load API keys'));
+          return;
+        }
+
+        setKeys(data.data);
+      } catch (error: any) {
+        setMessage('Error loading API keys: ' + error.message);
+      }
+    };
+
+    loadKeys();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (creating || !name.trim() || scopes.length === 0) return;
+
+    setCreating(true);
+    setMessage('');
+    setNewKey(null);
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error creating API key: ' + (data.message || data.error || 'Failed to create API key'));
+        return;
+      }
+
+      setKeys((prev) => [data.data, ...(prev || [])]);
+      setNewKey(data.key);
+      setName('');
+      setScopes(['partners:read']);
+    } catch (error: any) {
+      setMessage('Error creating API key: ' + error.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeConfirm || revoking) return;
+
+    setRevoking(true);
+    setMessage('');
+    try {
+      const response = await fetch(`/api/api-keys/${revokeConfirm.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error revoking API key: ' + (data.error || 'Failed to revoke API key'));
+        return;
+      }
+
+      setKeys((prev) => prev && prev.filter((key) => key.id !== revokeConfirm.id));
+      setMessage(`API key "${revokeConfirm.name}" revoked`);
+    } catch (error: any) {
+      setMessage('Error revoking API key: ' + error.message);
+    } finally {
+      setRevoking(false);
+      setRevokeConfirm(null);
+    }
+  };
+
+  const handleCopyKey = async () => {
+    if (!newKey) return;
+
+    try {
+      await navigator.clipboard.writeText(newKey);
+      setKeyCopied(true);
+      setTimeout(() => setKeyCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying API key:', error);
+      setMessage('Could not copy the key - select it and copy it manually');
+    }
+  };
+
+  const atLimit = (keys?.length || 0) >= MAX_API_KEYS_PER_USER;
+
+  return (
+    <div className="mt-8 pt-8 border-t border-gray-200">
+      <h2 className="text-lg font-semibold mb-2">API Keys</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Personal keys for scripts and integrations. Send a key as <code>Authorization: Bearer &lt;key&gt;</code>; it can
+        only do what its scopes allow. Treat keys like passwords and revoke any key you no longer use.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded text-sm ${
+            message.startsWith('Error') || message.startsWith('Could not')
+              ? 'bg-red-50 text-red-800'
+              : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {newKey && (
+        <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="text-sm text-yellow-800 mb-2">
+            Copy your new key now - it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={newKey}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono bg-white"
+            />
+            <button
+              type="button"
+              onClick={handleCopyKey}
+              className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              {keyCopied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {keys === null ? (
+        !message && <p className="text-sm text-gray-500">Loading API keys...</p>
+      ) : keys.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">You don&apos;t have any API keys yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-4">
+          {keys.map((key) => (
+            <li key={key.id} className="flex items-start justify-between gap-3 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{key.name}</p>
+                <p className="text-xs text-gray-500 font-mono">{key.key_prefix}...</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {key.scopes.map((scope) => API_KEY_SCOPE_LABELS[scope]).join(' · ')}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Created {formatDate(key.created_at)} ·{' '}
+                  {key.last_used_at ? `Last used ${formatDate(key.last_used_at)}` : 'Never used'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setRevokeConfirm(key)}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {keys !== null && (
+        atLimit ? (
+          <p className="text-sm text-gray-600">
+            You can have up to {MAX_API_KEYS_PER_USER} API keys. Revoke one to create another.
+          </p>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div>
+              <label htmlFor="api_key_name" className="block text-sm font-medium text-gray-700 mb-1">
+                New key name
+              </label>
+              <input
+                id="api_key_name"
+                type="text"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Backup script"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <fieldset className="space-y-1">
+              <legend className="text-sm font-medium text-gray-700 mb-1">Scopes</legend>
+              {API_KEY_SCOPES.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                  />
+                  {API_KEY_SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </fieldset>
+            <button
+              type="submit"
+              disabled={creating || !name.trim() || scopes.length === 0}
+              className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {creating && (
+                <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              )}
+              {creating ? 'Creating key...' : 'Create key'}
+            </button>
+          </form>
+        )
+      )}
+
+      <ConfirmDialog
+        open={!!revokeConfirm}
+        title="Revoke API Key"
+        message={revokeConfirm ? `"${revokeConfirm.name}" will stop working immediately. Scripts using it will need a new key.` : ''}
+        confirmLabel="Revoke"
+        cancelLabel="Cancel"
+        onConfirm={handleRevoke}
+        onCancel={() => {
+          if (!revoking) {
+            setRevokeConfirm(null);
+          }
+        }}
+        confirmButtonClass="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+        loading={revoking}
+        loadingLabel="Revoking..."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { NavigationLink } from '@/lib/navigation';
+
+// Files per upload request, to stay under the request body size limit
+const FILES_PER_REQUEST = 5;
+
+interface ProcessingTotals {
+  assigned: number;
+  review: number;
+  failed: number;
+}
+
+type Stage = 'select' | 'uploading' | 'processing' | 'done';
+
+export default function BulkPhotoUpload() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [stage, setStage] = useState<Stage>('select');
+  const [uploadedCount, setUploadedCount] = useState(0);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [remaining, setRemaining] = useState(0);
+  const [totals, setTotals] = useState<ProcessingTotals>({ assigned: 0, review: 0, failed: 0 });
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []).filter((file) => file.type.startsWith('image/'));
+    setFiles(selected);
+    setError(null);
+  };
+
+  const processQueue = async () => {
+    setStage('processing');
+    const processed: ProcessingTotals = { assigned: 0, review: 0, failed: 0 };
+
+    // Each call handles a few photos; keep going until the queue is empty
+    // (photos that keep failing are retried later by the scheduled job)
+    while (true) {
+      const response = await fetch('/api/photos/upload-queue', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to process photos');
+      }
+
+      processed.assigned += data.summary.assigned;
+      processed.review += data.summary.review;
+      processed.failed += data.summary.failed;
+      setTotals({ ...processed });
+      setRemaining(data.remaining);
+
+      if (data.remaining === 0 || data.summary.processed === 0) {
+        break;
+      }
+    }
+  };
+
+  const handleUpload = async () => {
+    if (files.length === 0 || stage === 'uploading' || stage === 'processing') return;
+
+    setStage('uploading');
+    setUploadedCount(0);
+    setUploadErrors([]);
+    setTotals({ assigned: 0, review: 0, failed: 0 });
+    setError(null);
+
+    try {
+      let batchId: string | null = null;
+      const errors: string[] = [];
+
+      for (let i = 0; i < files.length; i += FILES_PER_REQUEST) {
+        const formData = new FormData();
+        files.slice(i, i + FILES_PER_REQUEST).forEach((file) => formData.append('files', file));
+        if (batchId) {
+          formData.append('batch_id', batchId);
+        }
+
+        const response = await fetch('/api/photos/bulk', { method: 'POST', body: formData });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to upload photos');
+        }
+
+        batchId = data.batch_id;
+        errors.push(...data.failed.map((f: { file_name: string; error: string }) => `${f.file_name}: ${f.error}`));
+        setUploadedCount((count) => count + data.jobs.length);
+        setUploadErrors([...errors]);
+      }
+
+      await processQueue();
+      setStage('done');
+    } catch (uploadError: any) {
+      setError(uploadError.message);
+      setStage('done');
+    }
+  };
+
+  const busy = stage === 'uploading' || stage === 'processing';
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="p-4 rounded-lg bg-red-50 text-red-800">{error}</div>}
+
+      <div>
+        <input
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFileChange}
+          disabled={busy}
+          className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"
+        />
+        {files.length > 0 && (
+          <p className="text-sm text-gray-600 mt-2">{files.length} photo{files.length === 1 ? '' : 's'} selected</p>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={handleUpload}
+        disabled={files.length === 0 || busy}
+        className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+      >
+        {busy && (
+          <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+        )}
+        {stage === 'uploading'
+          ? `Uploading ${uploadedCount} of ${files.length}...`
+          : stage === 'processing'
+            ? `Recognizing faces${remaining > 0 ? ` (${remaining} left)` : ''}...`
+            : 'Upload photos'}
+      </button>
+
+      {uploadErrors.length > 0 && (
+        <div className="p-4 rounded-lg bg-red-50 text-red-800 text-sm">
+          <p className="font-medium mb-1">Some photos could not be uploaded:</p>
+          <ul className="list-disc list-inside">
+            {uploadErrors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(stage === 'processing' || stage === 'done') && (
+        <div className="p-4 rounded-lg bg-gray-50 text-sm text-gray-700 space-y-1">
+          <p>{totals.assigned} added to a matching partner</p>
+          <p>{totals.review} need your review</p>
+          {totals.failed > 0 && <p>{totals.failed} could not be processed yet and will be retried</p>}
+          {stage === 'done' && remaining > 0 && <p>{remaining} still waiting to be processed</p>}
+          {stage === 'done' && (totals.review > 0 || totals.failed > 0 || remaining > 0) && (
+            <NavigationLink href="/photos/inbox" className="inline-block mt-2 text-primary-600 hover:text-primary-800 font-medium">
+              Go to photo inbox →
+            </NavigationLink>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CustomFieldDefinition, CustomFieldType, MAX_CUSTOM_FIELDS } from '@/shared';
+import ConfirmDialog from './ConfirmDialog';
+
+const FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+};
+
+export default function CustomFields() {
+  const [fields, setFields] = useState<CustomFieldDefinition[] | null>(null);
+  const [message, setMessage] = useState('');
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  // Select options, comma-separated
+  const [options, setOptions] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<CustomFieldDefinition | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    const loadFields = async () => {
+      try {
+        const response = await fetch('/api/custom-fields');
+        const data = await response.json();
+
+        if (!response.ok) {
+          setMessage('Error loading custom fields: ' + (data.error || 'Failed to load custom fields'));
+          return;
+        }
+
+        setFields(data.data);
+      } catch (error: any) {
+        setMessage('Error loading custom fields: ' + error.message);
+      }
+    };
+
+    loadFields();
+  }, []);
+
+  const optionList = options.split(',').map((option) => option.trim()).filter(Boolean);
+  const canCreate = !!name.trim() && (type !== 'select' || optionList.length > 0);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (creating || !canCreate) return;
+
+    setCreating(true);
+    setMessage('');
+    try {
+      const response = await fetch('/api/custom-fields', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          type,
+          ...(type === 'select' ? { options: optionList } : {}),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error creating custom field: ' + (data.message || data.error || 'Failed to create custom field'));
+        return;
+      }
+
+      setFields((prev) => [...(prev || []), data.data]);
+      setName('');
+      setType('text');
+      setOptions('');
+    } catch (error: any) {
+      setMessage('Error creating custom field: ' + error.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteConfirm || deleting) return;
+
+    setDeleting(true);
+    setMessage('');
+    try {
+      const response = await fetch(`/api/custom-fields/${deleteConfirm.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error deleting custom field: ' + (data.error || 'Failed to delete custom field'));
+        return;
+      }
+
+      setFields((prev) => prev && prev.filter((field) => field.id !== deleteConfirm.id));
+      setMessage(`Custom field "${deleteConfirm.name}" deleted`);
+    } catch (error: any) {
+      setMessage('Error deleting custom field: ' + error.message);
+    } finally {
+      setDeleting(false);
+      setDeleteConfirm(null);
+    }
+  };
+
+  const atLimit = (fields?.length || 0) >= MAX_CUSTOM_FIELDS;
+
+  return (
+    <div className="mt-8 pt-8 border-t border-gray-200">
+      <h2 className="text-lg font-semibold mb-2">Custom Fields</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Extra fields shown on every partner, e.g. &quot;Met at&quot; or &quot;Height&quot;. You can fill them in when
+        editing a partner and filter the partners list by them.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded text-sm ${
+            message.startsWith('Error') ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {fields === null ? (
+        !message && <p className="text-sm text-gray-500">Loading custom fields...</p>
+      ) : fields.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">You don&apos;t have any custom fields yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-4">
+          {fields.map((field) => (
+            <li key={field.id} className="flex items-start justify-between gap-3 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{field.name}</p>
+                <p className="text-xs text-gray-500">
+                  {FIELD_TYPE_LABELS[field.type]}
+                  {field.type === 'select' && `: ${field.options.join(', ')}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setDeleteConfirm(field)}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {fields !== null && (
+        atLimit ? (
+          <p className="text-sm text-gray-600">
+            You can have up to {MAX_CUSTOM_FIELDS} custom fields. Delete one to add another.
+          </p>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label htmlFor="custom_field_name" className="block text-sm font-medium text-gray-700 mb-1">
+                  New field name
+                </label>
+                <input
+                  id="custom_field_name"
+                  type="text"
+                  value={name}
+                  maxLength={50}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Met at"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="custom_field_type" className="block text-sm font-medium text-gray-700 mb-1">
+                  Type
+                </label>
+                <select
+                  id="custom_field_type"
+                  value={type}
+                  onChange={(e) => setType(e.target.value as CustomFieldType)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {CustomFieldType.options.map((fieldType) => (
+                    <option key={fieldType} value={fieldType}>
+                      {FIELD_TYPE_LABELS[fieldType]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {type === 'select' && (
+              <div>
+                <label htmlFor="custom_field_options" className="block text-sm font-medium text-gray-700 mb-1">
+                  Options (comma-separated)
+                </label>
+                <input
+                  id="custom_field_options"
+                  type="text"
+                  value={options}
+                  onChange={(e) => setOptions(e.target.value)}
+                  placeholder="e.g. App, Friends, Work"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={creating || !canCreate}
+              className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {creating ? 'Adding field...' : 'Add field'}
+            </button>
+          </form>
+        )
+      )}
+
+      <ConfirmDialog
+        open={!!deleteConfirm}
+        title="Delete Custom Field"
+        message={deleteConfirm ? `"${deleteConfirm.name}" and its values will be removed from all partners.` : ''}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onConfirm={handleDelete}
+        onCancel={() => {
+          if (!deleting) {
+            setDeleteConfirm(null);
+          }
+        }}
+        confirmButtonClass="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+        loading={deleting}
+        loadingLabel="Deleting..."
+      />
+    </div>
+  );
+}
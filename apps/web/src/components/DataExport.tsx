@@ -0,0 +1,195 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { DataExportStatus } from '@/lib/data-export';
+
+interface DataExportItem {
+  id: string;
+  status: DataExportStatus;
+  in_progress: boolean;
+  include_face_descriptors: boolean;
+  file_size: number | null;
+  last_error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  download_urls: string[]; // One per archive part
+}
+
+// How often the list is refreshed while an export is being built
+const POLL_INTERVAL_MS = 5000;
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeExport(dataExport: DataExportItem): string {
+  if (dataExport.in_progress) {
+    return 'Preparing...';
+  }
+  switch (dataExport.status) {
+    case 'completed':
+      return dataExport.expires_at
+        ? `Ready · available until ${format(parseISO(dataExport.expires_at), 'MMM d, yyyy')}`
+        : 'Ready';
+    case 'expired':
+      return 'Expired';
+    default:
+      return 'Failed - please request a new export';
+  }
+}
+
+export default function DataExport() {
+  const [exports, setExports] = useState<DataExportItem[] | null>(null);
+  const [includeFaceDescriptors, setIncludeFaceDescriptors] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const loadExports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/exports');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error loading exports: ' + (data.error || 'Failed to load exports'));
+        return;
+      }
+
+      setExports(data.data);
+    } catch (error: any) {
+      setMessage('Error loading exports: ' + error.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExports();
+  }, [loadExports]);
+
+  const inProgress = !!exports?.some((dataExport) => dataExport.in_progress);
+
+  useEffect(() => {
+    if (!inProgress) return;
+
+    const interval = setInterval(loadExports, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [inProgress, loadExports]);
+
+  const handleRequestExport = async () => {
+    if (requesting || inProgress) return;
+
+    setRequesting(true);
+    setMessage('');
+    try {
+      const response = await fetch('/api/exports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ include_face_descriptors: includeFaceDescriptors }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error requesting export: ' + (data.error || 'Failed to request export'));
+        return;
+      }
+
+      // Start building the archive right away; the list is polled until it's ready
+      fetch('/api/exports/process', { method: 'POST' }).catch((error) => {
+        console.error('Error starting data export:', error);
+      });
+
+      setMessage('Your export is being prepared. The download link will appear here when it is ready.');
+      await loadExports();
+    } catch (error: any) {
+      setMessage('Error requesting export: ' + error.message);
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-8 border-t border-gray-200">
+      <h2 className="text-lg font-semibold mb-2">Export Your Data</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Download a zip with your profile, partners, activities, photos, subscriptions and payments as JSON and CSV files.
+        Download links stay available for 7 days. Exports larger than 500 MB are split into parts; each part can be
+        imported on its own.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded text-sm ${
+            message.startsWith('Error') ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {exports && exports.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg mb-4">
+          {exports.map((dataExport) => (
+            <li key={dataExport.id} className="flex items-center justify-between gap-3 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  Requested {format(parseISO(dataExport.created_at), 'MMM d, yyyy HH:mm')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {describeExport(dataExport)}
+                  {dataExport.status === 'completed' && dataExport.file_size !== null && ` · ${formatFileSize(dataExport.file_size)}`}
+                  {dataExport.include_face_descriptors && ' · includes face descriptors'}
+                </p>
+              </div>
+              {dataExport.in_progress ? (
+                <svg className="animate-spin h-4 w-4 text-gray-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              ) : dataExport.download_urls.length > 0 ? (
+                <div className="flex flex-wrap justify-end gap-2">
+                  {dataExport.download_urls.map((url, index) => (
+                    <a
+                      key={url}
+                      href={url}
+                      className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                      {dataExport.download_urls.length > 1 ? `Download part ${index + 1}` : 'Download'}
+                    </a>
+                  ))}
+                </div>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer mb-3">
+        <input
+          type="checkbox"
+          checked={includeFaceDescriptors}
+          onChange={(e) => setIncludeFaceDescriptors(e.target.checked)}
+          disabled={requesting || inProgress}
+          className="h-4 w-4 text-primary-600 border-gray-300 rounded disabled:opacity-50"
+        />
+        Include face descriptors (the face data used to match photos to partners)
+      </label>
+      <button
+        type="button"
+        onClick={handleRequestExport}
+        disabled={requesting || inProgress || exports === null}
+        className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+      >
+        {requesting && (
+          <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+        )}
+        {requesting ? 'Requesting...' : inProgress ? 'Export in progress...' : 'Request export'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { createSupabaseClient } from '@/lib/supabase/client';
+import type { DataImportMode, DataImportReport, DataImportStatus } from '@/lib/data-import';
+import ConfirmDialog from './ConfirmDialog';
+
+interface DataImportItem {
+  id: string;
+  mode: DataImportMode;
+  status: DataImportStatus;
+  report: DataImportReport | null;
+  last_error: string | null;
+  active: boolean;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// How often the list is refreshed while an import runs
+const POLL_INTERVAL_MS = 5000;
+
+function isRunning(dataImport: DataImportItem): boolean {
+  return dataImport.active && dataImport.status !== 'reviewed';
+}
+
+function ReportSummary({ report, dryRun }: { report: DataImportReport; dryRun: boolean }) {
+  const created = dryRun ? 'to create' : 'created';
+  const regenerated = dryRun ? 'to regenerate' : 'regenerated';
+
+  return (
+    <div className="text-sm text-gray-700 space-y-1">
+      <p>
+        Partners: {report.partners.created} {created}, {report.partners.matched} matched to existing partners
+        {report.partners.skipped > 0 && `, ${report.partners.skipped} skipped`}
+      </p>
+      <p>
+        Activities: {report.activities.created} {created}, {report.activities.duplicates} already there
+        {report.activities.skipped > 0 && `, ${report.activities.skipped} skipped`}
+      </p>
+      <p>
+        Photos: {report.photos.created} {created}, {report.photos.duplicates} already there
+        {report.photos.skipped > 0 && `, ${report.photos.skipped} skipped`}
+        {report.photos.descriptors_regenerated > 0 && ` (face data ${regenerated} for ${report.photos.descriptors_regenerated})`}
+      </p>
+      {report.matched_partners.length > 0 && (
+        <details className="text-xs text-gray-500">
+          <summary className="cursor-pointer">Matched partners</summary>
+          <ul className="mt-1 ml-4 list-disc">
+            {report.matched_partners.map((match) => (
+              <li key={`${match.partner_id}-${match.name}`}>
+                {match.name} (same {match.reason === 'name' ? 'full name' : match.reason})
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+      {report.warnings.map((warning) => (
+        <p key={warning} className="text-xs text-yellow-800 bg-yellow-50 rounded p-2">
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+export default function DataImport() {
+  const [imports, setImports] = useState<DataImportItem[] | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [confirmImport, setConfirmImport] = useState<DataImportItem | null>(null);
+  const [action, setAction] = useState<'confirm' | 'cancel' | null>(null);
+  const [message, setMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadImports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/imports');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error loading imports: ' + (data.error || 'Failed to load imports'));
+        return;
+      }
+
+      setImports(data.data);
+    } catch (error: any) {
+      setMessage('Error loading imports: ' + error.message);
+    }
+  }, []);
+
+  const startProcessing = useCallback(() => {
+    fetch('/api/imports/process', { method: 'POST' })
+      .then((response) => response.json())
+      .then((data) => {
+        // Large imports run in several steps
+        if (data.summary?.continued > 0) {
+          startProcessing();
+        }
+      })
+      .catch((error) => {
+        console.error('Error running data import:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    loadImports();
+  }, [loadImports]);
+
+  const running = !!imports?.some(isRunning);
+
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(loadImports, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [running, loadImports]);
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || uploading) return;
+
+    setUploading(true);
+    setMessage('');
+    try {
+      const urlResponse = await fetch('/api/imports/upload-url', { method: 'POST' });
+      const urlData = await urlResponse.json();
+
+      if (!urlResponse.ok) {
+        setMessage('Error uploading archive: ' + (urlData.error || 'Failed to upload archive'));
+        return;
+      }
+
+      const { bucket, path, token, max_bytes: maxBytes } = urlData.data;
+
+      // Checked before uploading; the import rejects larger archives anyway
+      if (file.size > maxBytes) {
+        setMessage(
+          `Error uploading archive: the archive is larger than ${Math.round(maxBytes / (1024 * 1024))} MB. ` +
+            'Exports that large are split into parts - import each part instead.'
+        );
+        return;
+      }
+      const supabase = createSupabaseClient();
+      const { error: uploadError } = await supabase.storage
+        .from(bucket)
+        .uploadToSignedUrl(path, token, file, { contentType: 'application/zip' });
+
+      if (uploadError) {
+        setMessage('Error uploading archive: ' + uploadError.message);
+        return;
+      }
+
+      const response = await fetch('/api/imports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storage_path: path }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error starting import: ' + (data.error || 'Failed to start import'));
+        return;
+      }
+
+      startProcessing();
+      setMessage('Archive uploaded. Checking what it contains - nothing is imported until you confirm.');
+      await loadImports();
+    } catch (error: any) {
+      setMessage('Error uploading archive: ' + error.message);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!confirmImport || action) return;
+
+    setAction('confirm');
+    setMessage('');
+    try {
+      const response = await fetch(`/api/imports/${confirmImport.id}/confirm`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error starting import: ' + (data.error || 'Failed to start import'));
+        return;
+      }
+
+      startProcessing();
+      setMessage('Importing your data. This can take a few minutes for archives with many photos.');
+      await loadImports();
+    } catch (error: any) {
+      setMessage('Error starting import: ' + error.message);
+    } finally {
+      setAction(null);
+      setConfirmImport(null);
+    }
+  };
+
+  const handleCancel = async (dataImport: DataImportItem) => {
+    if (action) return;
+
+    setAction('cancel');
+    setMessage('');
+    try {
+      const response = await fetch(`/api/imports/${dataImport.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error cancelling import: ' + (data.error || 'Failed to cancel import'));
+        return;
+      }
+
+      await loadImports();
+    } catch (error: any) {
+      setMessage('Error cancelling import: ' + error.message);
+    } finally {
+      setAction(null);
+    }
+  };
+
+  const latest = imports?.[0];
+  const busy = uploading || running || latest?.status === 'reviewed';
+
+  return (
+    <div className="mt-8 pt-8 border-t border-gray-200">
+      <h2 className="text-lg font-semibold mb-2">Import Data</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Restore a zip from &quot;Export Your Data&quot;, for example after deleting partners by accident or to move to another account.
+        You&apos;ll see what will be imported before anything changes. Partners that already exist (same email, phone or full name) are not duplicated.
+        Archives can be up to 500 MB; larger exports come in parts - import them one after another.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded text-sm ${
+            message.startsWith('Error') ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {latest && latest.status !== 'cancelled' && (
+        <div className="mb-4 p-4 border border-gray-200 rounded-lg">
+          <p className="text-sm font-medium text-gray-900 mb-2">
+            {isRunning(latest)
+              ? latest.mode === 'dry_run' ? 'Checking archive...' : 'Importing...'
+              : latest.status === 'reviewed'
+                ? 'Ready to import'
+                : latest.status === 'completed'
+                  ? `Imported ${latest.completed_at ? format(parseISO(latest.completed_at), 'MMM d, yyyy HH:mm') : ''}`
+                  : 'Import failed'}
+          </p>
+          {latest.status === 'failed' && !latest.active && latest.last_error && (
+            <p className="text-sm text-red-700 mb-2">{latest.last_error}</p>
+          )}
+          {latest.report && (latest.status === 'reviewed' || latest.status === 'completed') && (
+            <ReportSummary report={latest.report} dryRun={latest.status === 'reviewed'} />
+          )}
+          {latest.status === 'reviewed' && (
+            <div className="flex items-center gap-3 mt-4">
+              <button
+                type="button"
+                onClick={() => setConfirmImport(latest)}
+                disabled={!!action}
+                className="text-sm bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Import
+              </button>
+              <button
+                type="button"
+                onClick={() => handleCancel(latest)}
+                disabled={!!action}
+                className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {action === 'cancel' ? 'Cancelling...' : 'Cancel'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        onChange={handleFileSelected}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={busy || imports === null}
+        className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+      >
+        {(uploading || running) && (
+          <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+          </svg>
+        )}
+        {uploading ? 'Uploading...' : running ? 'Import in progress...' : 'Choose archive'}
+      </button>
+
+      <ConfirmDialog
+        open={!!confirmImport}
+        title="Import Data"
+        message="The partners, activities and photos listed in the report will be added to your account. This can't be undone automatically."
+        confirmLabel="Import"
+        cancelLabel="Cancel"
+        onConfirm={handleConfirm}
+        onCancel={() => {
+          if (action !== 'confirm') {
+            setConfirmImport(null);
+          }
+        }}
+        loading={action === 'confirm'}
+        loadingLabel="Starting..."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { AccountDeletionStatus } from '@/lib/account-deletion';
+import ConfirmDialog from './ConfirmDialog';
+
+interface ScheduledDeletion {
+  status: AccountDeletionStatus;
+  abandoned?: boolean; // Failed for good; needs support
+  scheduled_for: string;
+  created_at: string;
+}
+
+// What the user types to confirm; must match ACCOUNT_DELETION_CONFIRMATION in lib/account-deletion
+const CONFIRMATION_TEXT = 'DELETE';
+
+export default function DeleteAccount() {
+  const [deletion, setDeletion] = useState<ScheduledDeletion | null | undefined>(undefined);
+  const [confirmation, setConfirmation] = useState('');
+  const [reason, setReason] = useState('');
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [action, setAction] = useState<'request' | 'cancel' | null>(null);
+  const [message, setMessage] = useState('');
+
+  const loadDeletion = useCallback(async () => {
+    try {
+      const response = await fetch('/api/account/deletion');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error loading account status: ' + (data.error || 'Failed to load account status'));
+        return;
+      }
+
+      setDeletion(data.data);
+    } catch (error: any) {
+      setMessage('Error loading account status: ' + error.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDeletion();
+  }, [loadDeletion]);
+
+  const handleRequestDeletion = async () => {
+    if (action) return;
+
+    setAction('request');
+    setMessage('');
+    try {
+      const response = await fetch('/api/account/deletion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirmation, reason: reason.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error deleting account: ' + (data.error || 'Failed to delete account'));
+        return;
+      }
+
+      setDeletion(data.data);
+      setConfirmation('');
+      setReason('');
+    } catch (error: any) {
+      setMessage('Error deleting account: ' + error.message);
+    } finally {
+      setAction(null);
+      setConfirmOpen(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    if (action) return;
+
+    setAction('cancel');
+    setMessage('');
+    try {
+      const response = await fetch('/api/account/deletion', { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error cancelling deletion: ' + (data.error || 'Failed to cancel deletion'));
+        return;
+      }
+
+      setDeletion(null);
+      setMessage('Your account will not be deleted.');
+    } catch (error: any) {
+      setMessage('Error cancelling deletion: ' + error.message);
+    } finally {
+      setAction(null);
+    }
+  };
+
+  return (
+    <div className="mt-8 pt-8 border-t border-gray-200">
+      <h2 className="text-lg font-semibold mb-2 text-red-700">Delete Account</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Permanently deletes your account, partners, activities and photos, cancels your subscription and disconnects your calendars.
+        The deletion happens 14 days after you request it, and you can change your mind until then. Export your data first if you want to keep a copy.
+      </p>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded text-sm ${
+            message.startsWith('Error') ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {deletion ? (
+        <div className="p-4 border border-red-200 bg-red-50 rounded-lg">
+          <p className="text-sm text-red-800 mb-3">
+            {deletion.status === 'pending'
+              ? `Your account is scheduled for deletion on ${format(parseISO(deletion.scheduled_for), 'MMM d, yyyy HH:mm')}.`
+              : deletion.abandoned
+                ? 'We could not finish deleting your account. Please contact support.'
+                : 'Your account is being deleted.'}
+          </p>
+          {deletion.status === 'pending' && parseISO(deletion.scheduled_for) > new Date() && (
+            <button
+              type="button"
+              onClick={handleCancelDeletion}
+              disabled={!!action}
+              className="text-sm bg-white text-gray-800 border border-gray-300 px-4 py-2 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {action === 'cancel' ? 'Cancelling...' : 'Keep my account'}
+            </button>
+          )}
+        </div>
+      ) : deletion === null ? (
+        <div className="space-y-3">
+          <div>
+            <label htmlFor="deletion-reason" className="block text-sm font-medium text-gray-700 mb-1">
+              Why are you leaving? (optional)
+            </label>
+            <textarea
+              id="deletion-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={2}
+              className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label htmlFor="deletion-confirmation" className="block text-sm font-medium text-gray-700 mb-1">
+              Type {CONFIRMATION_TEXT} to confirm
+            </label>
+            <input
+              id="deletion-confirmation"
+              type="text"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              autoComplete="off"
+              className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => setConfirmOpen(true)}
+            disabled={confirmation !== CONFIRMATION_TEXT || !!action}
+            className="text-sm bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Delete account
+          </button>
+        </div>
+      ) : null}
+
+      <ConfirmDialog
+        open={confirmOpen}
+        title="Delete Account"
+        message="Your account and all of its data will be permanently deleted in 14 days. You can cancel the deletion on this page until then."
+        confirmLabel="Delete account"
+        cancelLabel="Cancel"
+        onConfirm={handleRequestDeletion}
+        onCancel={() => {
+          if (action !== 'request') {
+            setConfirmOpen(false);
+          }
+        }}
+        confirmButtonClass="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+        loading={action === 'request'}
+        loadingLabel="Scheduling..."
+      />
+    </div>
+  );
+}
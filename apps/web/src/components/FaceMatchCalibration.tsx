@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  FACE_MATCH_THRESHOLD_PRESETS,
+  FaceMatchThresholdPreset,
+  describeFaceMatchThreshold,
+} from '@/lib/face-matching';
+import type { FaceMatchCalibration as Calibration } from '@/lib/face-calibration';
+
+interface ThresholdSettings {
+  threshold: number;
+  userThreshold: number | null;
+  defaultThreshold: number;
+}
+
+function getPresetName(threshold: number): FaceMatchThresholdPreset | undefined {
+  return (Object.keys(FACE_MATCH_THRESHOLD_PRESETS) as FaceMatchThresholdPreset[]).find(
+    (name) => FACE_MATCH_THRESHOLD_PRESETS[name] === threshold
+  );
+}
+
+function formatRate(rate: number | null, count: number): string {
+  return rate === null ? '-' : `${(rate * 100).toFixed(1)}% (${count})`;
+}
+
+export default function FaceMatchCalibration() {
+  const [loading, setLoading] = useState(true);
+  const [settings, setSettings] = useState<ThresholdSettings | null>(null);
+  const [calibration, setCalibration] = useState<(Calibration & { truncated: boolean }) | null>(null);
+  // Threshold being saved ('default' when resetting)
+  const [saving, setSaving] = useState<number | 'default' | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [settingsResponse, calibrationResponse] = await Promise.all([
+          fetch('/api/face-matching/threshold'),
+          fetch('/api/face-matching/calibration'),
+        ]);
+        const [settingsData, calibrationData] = await Promise.all([
+          settingsResponse.json(),
+          calibrationResponse.json(),
+        ]);
+
+        if (!settingsResponse.ok || !calibrationResponse.ok) {
+          setMessage({
+            type: 'error',
+            text: settingsData.error || calibrationData.error || 'Failed to load calibration',
+          });
+          return;
+        }
+
+        setSettings(settingsData);
+        setCalibration(calibrationData);
+      } catch (error: any) {
+        setMessage({ type: 'error', text: 'Error loading calibration: ' + error.message });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const handleSave = async (threshold: number | null) => {
+    if (saving !== null) return;
+
+    setSaving(threshold ?? 'default');
+    setMessage(null);
+    try {
+      const response = await fetch('/api/face-matching/threshold', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ threshold }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to save threshold' });
+        return;
+      }
+
+      setSettings((prev) => prev && { ...prev, threshold: data.threshold, userThreshold: data.userThreshold });
+      setMessage({
+        type: 'success',
+        text: `Face matching set to ${
+          threshold === null ? `the default (${data.threshold.toFixed(2)})` : describeFaceMatchThreshold(threshold)
+        }`,
+      });
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error saving threshold: ' + error.message });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const spinner = (
+    <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+  );
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex items-center gap-2 text-gray-600">
+        {spinner}
+        Comparing your photos...
+      </div>
+    );
+  }
+
+  const notEnoughData =
+    !calibration || calibration.samePersonPairs === 0 || calibration.differentPersonPairs === 0;
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {settings && (
+        <div className="bg-white rounded-lg shadow p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <p className="text-sm text-gray-700">
+              Current setting:{' '}
+              <span className="font-medium">
+                {settings.userThreshold === null
+                  ? `Default (${settings.defaultThreshold.toFixed(2)})`
+                  : describeFaceMatchThreshold(settings.userThreshold)}
+              </span>
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              A photo matches a partner when its similarity is at least this value. Higher is stricter.
+            </p>
+          </div>
+          {settings.userThreshold !== null && (
+            <button
+              type="button"
+              onClick={() => handleSave(null)}
+              disabled={saving !== null}
+              className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {saving === 'default' && spinner}
+              {saving === 'default' ? 'Resetting...' : 'Reset to default'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {calibration && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="p-4 border-b border-gray-200 text-sm text-gray-600">
+            Compared {calibration.photoCount} photos of {calibration.partnerCount} partners:{' '}
+            {calibration.samePersonPairs} same-person pairs and {calibration.differentPersonPairs} different-people
+            pairs.
+            {calibration.truncated && ' Only your most recent photos were compared.'}
+          </div>
+
+          {notEnoughData ? (
+            <p className="p-6 text-sm text-gray-600">
+              Not enough photos to calibrate yet. Add at least two face photos to one partner, and photos of at least
+              two different partners.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Threshold</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">
+                      False matches
+                      <span className="block text-xs font-normal text-gray-500">Different partners flagged as the same person</span>
+                    </th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">
+                      Missed matches
+                      <span className="block text-xs font-normal text-gray-500">Photos of the same partner not recognised</span>
+                    </th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {calibration.results.map((result) => {
+                    const preset = getPresetName(result.threshold);
+                    const current = settings?.threshold === result.threshold;
+                    return (
+                      <tr key={result.threshold} className={current ? 'bg-primary-50' : ''}>
+                        <td className="px-4 py-3">
+                          <span className="font-medium">{result.threshold.toFixed(2)}</span>
+                          {preset && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              {preset.charAt(0).toUpperCase() + preset.slice(1)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">{formatRate(result.falseMatchRate, result.falseMatches)}</td>
+                        <td className="px-4 py-3">{formatRate(result.missedMatchRate, result.missedMatches)}</td>
+                        <td className="px-4 py-3 text-right">
+                          {current ? (
+                            <span className="text-xs font-medium text-primary-700">In use</span>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => handleSave(result.threshold)}
+                              disabled={saving !== null}
+                              className="text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+                            >
+                              {saving === result.threshold && spinner}
+                              {saving === result.threshold ? 'Saving...' : 'Use'}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
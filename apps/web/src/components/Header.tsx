@@ -1,10 +1,12 @@
 import Link from 'next/link';
+import { MAX_SEARCH_QUERY_LENGTH } from '@/shared';
 
 interface HeaderProps {
   accountType?: string | null;
+  searchQuery?: string; // Shown in the search box (search page)
 }
 
-export default function Header({ accountType }: HeaderProps) {
+export default function Header({ accountType, searchQuery }: HeaderProps) {
   return (
     <nav className="bg-white shadow-sm">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -18,6 +20,17 @@ export default function Header({ accountType }: HeaderProps) {
             </Link>
           </div>
           <div className="flex items-center space-x-4">
+            <form action="/search" method="get" role="search">
+              <input
+                type="search"
+                name="q"
+                defaultValue={searchQuery}
+                maxLength={MAX_SEARCH_QUERY_LENGTH}
+                placeholder="Search partners and activities"
+                aria-label="Search partners and activities"
+                className="w-40 sm:w-64 border border-gray-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </form>
             {accountType === 'pro' && (
               <Link
                 href="/billing"
@@ -29,7 +29,7 @@ export default function PartnerActivities({
   const [hasCalendarConnection, setHasCalendarConnection] = useState<boolean>(false);
   const [totalActivityCount, setTotalActivityCount] = useState<number | null>(null);
   const [syncingActivities, setSyncingActivities] = useState<Set<string>>(new Set());
-  const [syncErrors, setSyncErrors] = useState<Map<string, string>>(new Map());
+  const [autoSync, setAutoSync] = useState<boolean>(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ open: boolean; activityId: string | null }>({ open: false, activityId: null });
   const [deleting, setDeleting] = useState(false);
   const supabase = createSupabaseClient();
@@ -44,23 +44,23 @@ export default function PartnerActivities({
         // Get account type
         const { data: userData } = await supabase
           .from('users')
-          .select('account_type')
+          .select('account_type, calendar_auto_sync')
           .eq('id', user.id)
           .single();
         if (userData) {
           setUserAccountType(userData.account_type);
+          setAutoSync(userData.account_type === 'pro' && !!userData.calendar_auto_sync);
         }
 
-        // Check for calendar connection
+        // Check for calendar connection (any provider)
         const { data: calendarData, error: calendarError } = await supabase
           .from('calendar_connections')
           .select('id')
           .eq('user_id', user.id)
-          .eq('provider', 'google')
-          .maybeSingle();
+          .limit(1);
         
         // Only set connection if data exists (ignore errors for missing connections)
-        setHasCalendarConnection(!!calendarData && !calendarError);
+        setHasCalendarConnection(!!calendarData && calendarData.length > 0 && !calendarError);
 
         // Get total activity count across all partners (for free users)
         if (userData?.account_type === 'free') {
@@ -89,78 +89,49 @@ export default function PartnerActivities({
     fetchUserData();
   }, [supabase]);
 
-  // Check activity limit when button is clicked (before showing form)
-  const handleAddActivityClick = async () => {
-    if (userAccountType === 'pro') {
-      setShowForm(!showForm);
-      return;
-    }
-
-    // For free users, check total activity count across all partners
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) {
-      setMessage({
-        type: 'error',
-        text: 'Unable to verify user. Please try again.'
-      });
-      return;
+  // With auto-sync on, activity changes are queued server-side (database trigger).
+  // Ask the server to push them now and refresh the persisted sync status.
+  const processCalendarSyncQueue = async () => {
+    try {
+      await fetch('/api/calendar/sync-queue', { method: 'POST' });
+    } catch (error) {
+      console.error('Error processing calendar sync queue:', error);
+      // Jobs stay queued and are retried by the scheduled run
     }
 
-    // First get all partner IDs for this user
-    const { data: userPartners, error: partnersError } = await supabase
-      .from('partners')
-      .select('id')
-      .eq('user_id', user.id);
+    const { data: statuses } = await supabase
+      .from('partner_notes')
+      .select('id, google_calendar_event_id, calendar_provider, calendar_sync_status, calendar_sync_error, calendar_synced_at')
+      .eq('partner_id', partnerId);
 
-    if (partnersError) {
-      console.error('Error fetching partners:', partnersError);
-      setMessage({
-        type: 'error',
-        text: 'Unable to verify activity limit. Please try again.'
-      });
-      return;
+    if (statuses) {
+      const statusMap = new Map(statuses.map((s) => [s.id, s]));
+      setActivities((prev) =>
+        prev.map((a) => (statusMap.has(a.id) ? { ...a, ...statusMap.get(a.id) } : a))
+      );
     }
+  };
 
-    let count = 0;
-    if (userPartners && userPartners.length > 0) {
-      const partnerIds = userPartners.map(p => p.id);
-      // Use a simpler query approach to avoid 406 errors
-      const { count: notesCount, error: notesError } = await supabase
-        .from('partner_notes')
-        .select('id', { count: 'exact' })
-        .in('partner_id', partnerIds)
-        .limit(0); // Don't fetch data, just get count
-
-      if (notesError) {
-        console.error('Error checking activity limit:', notesError);
-        setMessage({
-          type: 'error',
-          text: 'Unable to verify activity limit. Please try again.'
-        });
-        return;
-      }
-      count = notesCount ?? 0;
-    }
+  const getActivityLimitText = (count: number) => (
+    <>
+      Free accounts are limited to {FREE_TIER_ACTIVITY_LIMIT} total activities. You currently have {count} activities. Please{' '}
+      <Link href="/upgrade" className="underline font-semibold">
+        upgrade to Pro
+      </Link>{' '}
+      for unlimited activities.
+    </>
+  );
 
-    if (count !== null && count >= FREE_TIER_ACTIVITY_LIMIT) {
+  // Warn before showing the form; the limit itself is enforced by the activity API
+  const handleAddActivityClick = () => {
+    if (userAccountType === 'free' && totalActivityCount !== null && totalActivityCount >= FREE_TIER_ACTIVITY_LIMIT) {
       setMessage({
         type: 'error',
-        text: (
-          <>
-            Free accounts are limited to {FREE_TIER_ACTIVITY_LIMIT} total activities. You currently have {count} activities. Please{' '}
-            <Link href="/upgrade" className="underline font-semibold">
-              upgrade to Pro
-            </Link>{' '}
-            for unlimited activities.
-          </>
-        )
+        text: getActivityLimitText(totalActivityCount)
       });
       return;
     }
 
-    // Limit check passed, show form
     setShowForm(!showForm);
   };
 
@@ -171,96 +142,31 @@ export default function PartnerActivities({
     location?: string;
     description?: string;
   }) => {
-    // Double-check limit before submitting (in case limit was reached between button click and form submit)
-    if (userAccountType === 'free') {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) {
-        setMessage({
-          type: 'error',
-          text: 'Unable to verify user. Please try again.'
-        });
-        setShowForm(false);
-        return;
-      }
+    setLoading(true);
+    setMessage(null);
 
-      // First get all partner IDs for this user
-      const { data: userPartners, error: partnersError } = await supabase
-        .from('partners')
-        .select('id')
-        .eq('user_id', user.id);
-
-      if (partnersError) {
-        setMessage({
-          type: 'error',
-          text: 'Unable to verify activity limit. Please try again.'
-        });
-        setShowForm(false);
-        return;
-      }
+    try {
+      const response = await fetch(`/api/partners/${partnerId}/activities`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await response.json();
 
-      let count = 0;
-      if (userPartners && userPartners.length > 0) {
-        const partnerIds = userPartners.map(p => p.id);
-        // Use a simpler query approach to avoid 406 errors
-        const { count: notesCount, error: notesError } = await supabase
-          .from('partner_notes')
-          .select('id', { count: 'exact' })
-          .in('partner_id', partnerIds)
-          .limit(0); // Don't fetch data, just get count
-
-        if (notesError) {
+      if (!response.ok) {
+        if (data.error === 'ACTIVITY_LIMIT_REACHED') {
+          setTotalActivityCount(data.activityCount);
           setMessage({
             type: 'error',
-            text: 'Unable to verify activity limit. Please try again.'
+            text: getActivityLimitText(data.activityCount)
           });
           setShowForm(false);
           return;
         }
-        count = notesCount ?? 0;
+        throw new Error(data.details || data.error || 'Failed to create activity');
       }
 
-      if (count !== null && count >= FREE_TIER_ACTIVITY_LIMIT) {
-        setMessage({
-          type: 'error',
-          text: (
-            <>
-              Free accounts are limited to {FREE_TIER_ACTIVITY_LIMIT} total activities. You currently have {count} activities. Please{' '}
-              <Link href="/upgrade" className="underline font-semibold">
-                upgrade to Pro
-              </Link>{' '}
-              for unlimited activities.
-            </>
-          )
-        });
-        setShowForm(false);
-        return;
-      }
-    }
-
-    setLoading(true);
-    setMessage(null);
-    const { data: activity, error } = await supabase
-      .from('partner_notes')
-      .insert([{ ...formData, partner_id: partnerId }])
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating activity:', error);
-      setMessage({
-        type: 'error',
-        text: `Error creating activity: ${error.message}`
-      });
-    } else {
-      // Update partner's updated_at timestamp
-      await supabase
-        .from('partners')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', partnerId);
-      
-      setActivities([activity, ...activities]);
+      setActivities((prev) => [data.data, ...prev]);
       // Update total activity count for free users
       if (userAccountType === 'free' && totalActivityCount !== null) {
         setTotalActivityCount(totalActivityCount + 1);
@@ -272,8 +178,19 @@ export default function PartnerActivities({
       });
       // Clear success message after 3 seconds
       setTimeout(() => setMessage(null), 3000);
+
+      if (autoSync) {
+        processCalendarSyncQueue();
+      }
+    } catch (error: any) {
+      console.error('Error creating activity:', error);
+      setMessage({
+        type: 'error',
+        text: `Error creating activity: ${error.message}`
+      });
+    } finally {
+      setLoading(false);
     }
-    setLoading(false);
   };
 
   const handleUpdateActivity = async (activityId: string, formData: {
@@ -286,33 +203,35 @@ export default function PartnerActivities({
     setLoading(true);
     setMessage(null);
 
-    const { data: updatedActivity, error } = await supabase
-      .from('partner_notes')
-      .update(formData)
-      .eq('id', activityId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error updating activity:', error);
-      setMessage({
-        type: 'error',
-        text: `Error updating activity: ${error.message}`
+    try {
+      const response = await fetch(`/api/partners/${partnerId}/activities/${activityId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        // Fields left empty in the form are cleared
+        body: JSON.stringify({
+          ...formData,
+          end_time: formData.end_time ?? null,
+          location: formData.location ?? null,
+          description: formData.description ?? null,
+        }),
       });
-    } else {
-      // Update partner's updated_at timestamp
-      await supabase
-        .from('partners')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', partnerId);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to update activity');
+      }
+
+      const updatedActivity: PartnerActivity = data.data;
 
       // Update activity in state
       setActivities((prev) =>
         prev.map((a) => (a.id === activityId ? updatedActivity : a))
       );
 
-      // If activity is synced, update calendar event
-      if (updatedActivity.google_calendar_event_id) {
+      if (autoSync) {
+        processCalendarSyncQueue();
+      } else if (updatedActivity.google_calendar_event_id) {
+        // If activity is synced, update calendar event
         try {
           await fetch('/api/calendar/sync', {
             method: 'POST',
@@ -334,8 +253,15 @@ export default function PartnerActivities({
         text: 'Activity updated successfully!'
       });
       setTimeout(() => setMessage(null), 3000);
+    } catch (error: any) {
+      console.error('Error updating activity:', error);
+      setMessage({
+        type: 'error',
+        text: `Error updating activity: ${error.message}`
+      });
+    } finally {
+      setLoading(false);
     }
-    setLoading(false);
   };
 
   const handleSyncActivity = async (activityId: string) => {
@@ -381,11 +307,6 @@ export default function PartnerActivities({
     const isSynced = !!activity.google_calendar_event_id;
     
     setSyncingActivities((prev) => new Set(prev).add(activityId));
-    setSyncErrors((prev) => {
-      const newMap = new Map(prev);
-      newMap.delete(activityId);
-      return newMap;
-    });
 
     try {
       const endpoint = isSynced ? '/api/calendar/unsync' : '/api/calendar/sync';
@@ -410,7 +331,7 @@ export default function PartnerActivities({
         setActivities((prev) =>
           prev.map((a) =>
             a.id === activityId
-              ? { ...a, google_calendar_event_id: null }
+              ? { ...a, google_calendar_event_id: null, calendar_provider: null, calendar_sync_status: null, calendar_sync_error: null }
               : a
           )
         );
@@ -419,14 +340,21 @@ export default function PartnerActivities({
         setActivities((prev) =>
           prev.map((a) =>
             a.id === activityId
-              ? { ...a, google_calendar_event_id: data.event_id }
+              ? { ...a, google_calendar_event_id: data.event_id, calendar_provider: data.provider, calendar_sync_status: 'synced', calendar_sync_error: null }
               : a
           )
         );
       }
     } catch (error: any) {
       console.error('Error syncing activity:', error);
-      setSyncErrors((prev) => new Map(prev).set(activityId, error.message));
+      // The sync route also records the failure on the activity
+      setActivities((prev) =>
+        prev.map((a) =>
+          a.id === activityId
+            ? { ...a, calendar_sync_status: 'failed', calendar_sync_error: error.message }
+            : a
+        )
+      );
     } finally {
       setSyncingActivities((prev) => {
         const newSet = new Set(prev);
@@ -440,33 +368,24 @@ export default function PartnerActivities({
     setDeleteConfirm({ open: true, activityId });
   };
 
+  // Deleted activities go to the trash; their calendar events are removed when the trash is purged
   const handleDeleteActivity = async (activityId: string): Promise<boolean> => {
-    const activity = activities.find((a) => a.id === activityId);
-    
-    // If activity is synced, unsync it first
-    if (activity?.google_calendar_event_id) {
-      try {
-        await fetch('/api/calendar/unsync', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ activityId }),
-        });
-      } catch (error) {
-        console.error('Error unsyncing before delete:', error);
-        // Continue with delete even if unsync fails
+    let error: string | null = null;
+    try {
+      const response = await fetch(`/api/partners/${partnerId}/activities/${activityId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        error = data.details || data.error || 'Failed to delete activity';
       }
+    } catch (fetchError: any) {
+      error = fetchError.message;
     }
 
-    const { error } = await supabase
-      .from('partner_notes')
-      .delete()
-      .eq('id', activityId);
-
     if (error) {
       console.error('Error deleting activity:', error);
       setMessage({
         type: 'error',
-        text: `Error deleting activity: ${error.message}`
+        text: `Error deleting activity: ${error}`
       });
       return false;
     } else {
@@ -477,7 +396,7 @@ export default function PartnerActivities({
       }
       setMessage({
         type: 'success',
-        text: 'Activity deleted successfully!'
+        text: 'Activity moved to trash. You can restore it for 30 days.'
       });
       setTimeout(() => setMessage(null), 3000);
       return true;
@@ -650,6 +569,22 @@ export default function PartnerActivities({
                               {activity.description && (
                                 <p className="text-gray-900 mt-2 text-sm">{activity.description}</p>
                               )}
+                              {activity.calendar_sync_status === 'deleted_remotely' && !activity.google_calendar_event_id && (
+                                <p className="text-xs text-amber-700 mt-2">
+                                  Calendar event was deleted in your calendar
+                                </p>
+                              )}
+                              {activity.calendar_sync_status === 'pending' && (
+                                <p className="text-xs text-gray-500 mt-2">
+                                  Syncing to calendar...
+                                </p>
+                              )}
+                              {activity.calendar_sync_status === 'failed' && (
+                                <p className="text-xs text-red-600 mt-2">
+                                  Calendar sync failed{activity.calendar_sync_error ? `: ${activity.calendar_sync_error}` : ''}
+                                  {autoSync && ' - will retry automatically'}
+                                </p>
+                              )}
                             </div>
                             <div 
                               className="flex items-center space-x-2 ml-4"
@@ -666,7 +601,7 @@ export default function PartnerActivities({
                                     ? 'text-red-600 hover:text-red-800 hover:bg-red-50'
                                     : activity.google_calendar_event_id
                                     ? 'text-green-600 hover:text-green-800 hover:bg-green-50'
-                                    : syncErrors.has(activity.id)
+                                    : activity.calendar_sync_status === 'failed'
                                     ? 'text-red-600 hover:text-red-800 hover:bg-red-50'
                                     : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
                                 } disabled:opacity-50 disabled:cursor-not-allowed`}
@@ -679,8 +614,8 @@ export default function PartnerActivities({
                                     ? 'Syncing...'
                                     : activity.google_calendar_event_id
                                     ? 'Unsync from calendar'
-                                    : syncErrors.has(activity.id)
-                                    ? `Retry sync (${syncErrors.get(activity.id)})`
+                                    : activity.calendar_sync_status === 'failed'
+                                    ? `Retry sync (${activity.calendar_sync_error || 'sync failed'})`
                                     : 'Sync to calendar'
                                 }
                               >
@@ -763,7 +698,7 @@ export default function PartnerActivities({
       <ConfirmDialog
         open={deleteConfirm.open}
         title="Delete Activity"
-        message="Are you sure you want to delete this activity?"
+        message="Move this activity to the trash? You can restore it from the trash for 30 days."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         onConfirm={handleDeleteConfirm}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { NavigationLink } from '@/lib/navigation';
+import { getPartnerProfilePictureUrl } from '@/lib/photo-utils';
+import { Partner, PARTNER_STATUS_LABELS, PartnerStatus } from '@/shared';
+import { PARTNER_STATUS_COLORS } from './PartnerStatusBadge';
+
+export type BoardPartner = Pick<
+  Partner,
+  'id' | 'first_name' | 'last_name' | 'profile_picture_storage_path' | 'status' | 'status_changed_at'
+>;
+
+interface PartnerBoardProps {
+  initialPartners: BoardPartner[];
+}
+
+function getPartnerName(partner: Pick<Partner, 'first_name' | 'last_name'>): string {
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+}
+
+/**
+ * Partners in one column per status. Partners are moved by dragging a card to
+ * another column or with the status menu on the card (keyboard and touch).
+ */
+export default function PartnerBoard({ initialPartners }: PartnerBoardProps) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const [partners, setPartners] = useState(initialPartners);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<PartnerStatus | null>(null);
+  // Partner whose status is being saved
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const moveToStatus = async (partnerId: string, status: PartnerStatus) => {
+    const partner = partners.find((p) => p.id === partnerId);
+    if (!partner || partner.status === status || savingId) return;
+
+    // Move the card right away; put it back if saving fails
+    setSavingId(partnerId);
+    setMessage(null);
+    setPartners((prev) =>
+      prev.map((p) => (p.id === partnerId ? { ...p, status, status_changed_at: new Date().toISOString() } : p))
+    );
+
+    try {
+      const response = await fetch(`/api/partners/${partnerId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update status');
+      }
+
+      setPartners((prev) =>
+        prev.map((p) => (p.id === partnerId ? { ...p, status: data.data.status, status_changed_at: data.data.status_changed_at } : p))
+      );
+    } catch (error: any) {
+      setPartners((prev) => prev.map((p) => (p.id === partnerId ? partner : p)));
+      setMessage(`Couldn't move ${getPartnerName(partner)}: ${error.message}`);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: PartnerStatus) => {
+    e.preventDefault();
+    const partnerId = e.dataTransfer.getData('text/plain') || draggedId;
+    setDropTarget(null);
+    setDraggedId(null);
+    if (partnerId) {
+      moveToStatus(partnerId, status);
+    }
+  };
+
+  return (
+    <div>
+      {message && (
+        <div className="mb-4 p-3 rounded text-sm bg-red-50 text-red-800">
+          {message}
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {PartnerStatus.options.map((status) => {
+          const columnPartners = partners.filter((partner) => partner.status === status);
+
+          return (
+            <section
+              key={status}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(status);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === status ? null : current))}
+              onDrop={(e) => handleDrop(e, status)}
+              className={`flex-shrink-0 w-64 rounded-lg p-3 transition-colors ${
+                dropTarget === status ? 'bg-primary-50 ring-2 ring-primary-300' : 'bg-gray-100'
+              }`}
+            >
+              <h2 className="flex items-center justify-between mb-3">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${PARTNER_STATUS_COLORS[status]}`}>
+                  {PARTNER_STATUS_LABELS[status]}
+                </span>
+                <span className="text-xs text-gray-500">{columnPartners.length}</span>
+              </h2>
+
+              <ul className="space-y-2 min-h-[4rem]">
+                {columnPartners.map((partner) => {
+                  const profilePictureUrl = getPartnerProfilePictureUrl(partner, supabaseUrl);
+                  const name = getPartnerName(partner);
+
+                  return (
+                    <li
+                      key={partner.id}
+                      draggable={!savingId}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', partner.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggedId(partner.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropTarget(null);
+                      }}
+                      className={`bg-white rounded-lg shadow-sm p-3 cursor-grab ${
+                        draggedId === partner.id || savingId === partner.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        {profilePictureUrl ? (
+                          <img src={profilePictureUrl} alt={name} className="w-8 h-8 rounded-full object-cover flex-shrink-0" />
+                        ) : (
+                          <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center flex-shrink-0">
+                            <span className="text-gray-400 text-sm">{name[0].toUpperCase()}</span>
+                          </div>
+                        )}
+                        <NavigationLink
+                          href={`/partners/${partner.id}`}
+                          className="text-sm font-medium text-gray-900 hover:text-primary-700 truncate"
+                        >
+                          {name}
+                        </NavigationLink>
+                      </div>
+                      <div className="flex items-center justify-between gap-2 mt-2">
+                        <span className="text-xs text-gray-500">
+                          {formatDistanceToNow(parseISO(partner.status_changed_at))}
+                        </span>
+                        <select
+                          value={partner.status}
+                          disabled={!!savingId}
+                          onChange={(e) => moveToStatus(partner.id, e.target.value as PartnerStatus)}
+                          aria-label={`Status of ${name}`}
+                          className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+                        >
+                          {PartnerStatus.options.map((option) => (
+                            <option key={option} value={option}>
+                              {PARTNER_STATUS_LABELS[option]}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { NavigationLink } from '@/lib/navigation';
 import { Partner } from '@/shared';
 import { getPartnerProfilePictureUrl } from '@/lib/photo-utils';
 import BlackFlagIcon from '@/components/BlackFlagIcon';
+import PartnerStatusBadge from '@/components/PartnerStatusBadge';
 import { renderTextWithLinks } from '@/lib/text-utils';
 
 interface PartnerCardProps {
@@ -42,6 +43,9 @@ export default function PartnerCard({ partner, lastActivityDescription, showDele
               {partner.first_name && partner.last_name && ` ${partner.last_name}`}
             </h2>
           </div>
+          {partner.status && (
+            <PartnerStatusBadge status={partner.status} className="mb-2" />
+          )}
           {partner.black_flag && (
             <div className="flex justify-center mb-2">
               <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-black text-white" title="Black Flag">
@@ -57,6 +61,15 @@ export default function PartnerCard({ partner, lastActivityDescription, showDele
               {partner.phone_number}
             </p>
           )}
+          {partner.tags?.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {partner.tags.map((tag) => (
+                <span key={tag} className="px-2 py-0.5 rounded-full bg-primary-50 text-primary-700 text-xs">
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
           {(partner.description || lastActivityDescription) && (
             <p className="text-sm text-gray-700 mt-3 line-clamp-2">
               {renderTextWithLinks(partner.description || lastActivityDescription || '', true)}
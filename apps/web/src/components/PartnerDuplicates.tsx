@@ -0,0 +1,382 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Partner } from '@/shared';
+import { NavigationLink } from '@/lib/navigation';
+import { getPhotoUrl } from '@/lib/photo-utils';
+import type { DuplicatePartnerCandidate, DuplicateReason } from '@/lib/partner-duplicates';
+import {
+  getConflictingPartnerFields,
+  MergeablePartnerField,
+  PartnerFieldSources,
+} from '@/lib/partner-merge';
+import BlackFlagIcon from './BlackFlagIcon';
+import ConfirmDialog from './ConfirmDialog';
+
+interface Candidate extends DuplicatePartnerCandidate {
+  partners: [Partner, Partner];
+}
+
+interface MergeReview {
+  candidate: Candidate;
+  keepId: string;
+  fieldSources: PartnerFieldSources;
+}
+
+interface CompletedMerge {
+  merge_id: string;
+  keptName: string;
+  mergedName: string;
+  undo_expires_at: string | null;
+}
+
+const FIELD_LABELS: Record<MergeablePartnerField, string> = {
+  first_name: 'First name',
+  last_name: 'Last name',
+  email: 'Email',
+  phone_number: 'Phone',
+  description: 'Description',
+  facebook_profile: 'Facebook',
+  x_profile: 'X',
+  linkedin_profile: 'LinkedIn',
+  instagram_profile: 'Instagram',
+  profile_picture_storage_path: 'Profile picture',
+};
+
+function getPartnerName(partner: Partner): string {
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed partner';
+}
+
+function describeReason(reason: DuplicateReason, candidate: Candidate): string {
+  switch (reason) {
+    case 'face':
+      return `Similar face (${Math.round((candidate.face_similarity || 0) * 100)}%)`;
+    case 'email':
+      return 'Same email';
+    case 'phone':
+      return 'Same phone';
+    case 'name':
+      return 'Same name';
+  }
+}
+
+export default function PartnerDuplicates() {
+  const [loading, setLoading] = useState(true);
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [review, setReview] = useState<MergeReview | null>(null);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [lastMerge, setLastMerge] = useState<CompletedMerge | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadCandidates = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/partners/duplicates');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to scan for duplicates' });
+        return;
+      }
+
+      setCandidates(data.candidates);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error scanning for duplicates: ' + error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCandidates();
+  }, []);
+
+  const keep = review?.candidate.partners.find((p) => p.id === review.keepId);
+  const merge = review?.candidate.partners.find((p) => p.id !== review.keepId);
+  const conflicts = keep && merge ? getConflictingPartnerFields(keep, merge) : [];
+
+  const handleMerge = async () => {
+    if (!review || !keep || !merge || merging) return;
+
+    setMerging(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/partners/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keep_partner_id: keep.id,
+          merge_partner_id: merge.id,
+          field_sources: review.fieldSources,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to merge partners' });
+        return;
+      }
+
+      // The merged partner no longer exists, so drop every pair that includes it
+      setCandidates((prev) => prev.filter((c) => !c.partner_ids.includes(merge.id)));
+      setLastMerge({
+        merge_id: data.merge_id,
+        keptName: getPartnerName(keep),
+        mergedName: getPartnerName(merge),
+        undo_expires_at: data.undo_expires_at,
+      });
+      setReview(null);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error merging partners: ' + error.message });
+    } finally {
+      setMerging(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastMerge || undoing) return;
+
+    setUndoing(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/partners/merge/${lastMerge.merge_id}/undo`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to undo merge' });
+        return;
+      }
+
+      setMessage({ type: 'success', text: `${lastMerge.mergedName} was restored` });
+      setLastMerge(null);
+      await loadCandidates();
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error undoing merge: ' + error.message });
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  const spinner = (
+    <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+  );
+
+  const renderPartner = (partner: Partner) => (
+    <div className="flex items-center gap-3 min-w-0">
+      {partner.profile_picture_storage_path ? (
+        <img
+          src={getPhotoUrl(partner.profile_picture_storage_path)}
+          alt={getPartnerName(partner)}
+          className="w-12 h-12 rounded-full object-cover flex-shrink-0"
+        />
+      ) : (
+        <div className="w-12 h-12 rounded-full bg-gray-300 flex items-center justify-center flex-shrink-0">
+          <span className="text-gray-600">{(partner.first_name?.[0] || '?').toUpperCase()}</span>
+        </div>
+      )}
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <NavigationLink
+            href={`/partners/${partner.id}`}
+            className="font-semibold text-gray-900 hover:text-primary-600 truncate"
+          >
+            {getPartnerName(partner)}
+          </NavigationLink>
+          {partner.black_flag && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-black text-white flex-shrink-0" title="Black Flag">
+              <BlackFlagIcon className="w-4 h-4" />
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 truncate">
+          {[partner.email, partner.phone_number].filter(Boolean).join(' · ') || 'No contact details'}
+        </p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {lastMerge && (
+        <div className="p-4 rounded-lg bg-green-50 text-green-800 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <span>
+            {lastMerge.mergedName} was merged into {lastMerge.keptName}.
+            {lastMerge.undo_expires_at &&
+              ` You can undo this until ${new Date(lastMerge.undo_expires_at).toLocaleTimeString()}.`}
+          </span>
+          <button
+            type="button"
+            onClick={handleUndo}
+            disabled={undoing}
+            className="text-sm bg-white text-gray-800 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {undoing && spinner}
+            {undoing ? 'Undoing...' : 'Undo merge'}
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="bg-white rounded-lg shadow p-6 flex items-center gap-2 text-gray-600">
+          {spinner}
+          Scanning your partners...
+        </div>
+      ) : candidates.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-gray-600">No possible duplicates found.</div>
+      ) : (
+        <ul className="space-y-4">
+          {candidates.map((candidate) => {
+            const reviewing = review?.candidate === candidate;
+            return (
+              <li key={candidate.partner_ids.join('-')} className="bg-white rounded-lg shadow p-4 space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  {candidate.reasons.map((reason) => (
+                    <span key={reason} className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs font-medium">
+                      {describeReason(reason, candidate)}
+                    </span>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {candidate.partners.map((partner) => (
+                    <label key={partner.id} className="flex items-center gap-3 cursor-pointer">
+                      {reviewing && (
+                        <input
+                          type="radio"
+                          name={`keep-${candidate.partner_ids.join('-')}`}
+                          checked={review.keepId === partner.id}
+                          disabled={merging}
+                          onChange={() => setReview({ candidate, keepId: partner.id, fieldSources: {} })}
+                          className="h-4 w-4 text-primary-600 border-gray-300"
+                        />
+                      )}
+                      {renderPartner(partner)}
+                    </label>
+                  ))}
+                </div>
+
+                {reviewing && keep && merge ? (
+                  <div className="border-t border-gray-200 pt-4 space-y-4">
+                    <p className="text-sm text-gray-600">
+                      Keep <span className="font-semibold">{getPartnerName(keep)}</span>. Photos and activities of{' '}
+                      {getPartnerName(merge)} move to them (calendar events stay linked), empty fields are filled in,
+                      and {getPartnerName(merge)} is deleted.
+                    </p>
+                    {conflicts.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium text-gray-700">Both partners have a different value - choose one:</p>
+                        {conflicts.map((field) => (
+                          <div key={field} className="grid grid-cols-1 md:grid-cols-[8rem_1fr_1fr] gap-2 text-sm items-start">
+                            <span className="text-gray-500">{FIELD_LABELS[field]}</span>
+                            {(['keep', 'merge'] as const).map((source) => {
+                              const partner = source === 'keep' ? keep : merge;
+                              const selected = (review.fieldSources[field] || 'keep') === source;
+                              return (
+                                <label key={source} className="flex items-start gap-2 cursor-pointer min-w-0">
+                                  <input
+                                    type="radio"
+                                    name={`${field}-${candidate.partner_ids.join('-')}`}
+                                    checked={selected}
+                                    disabled={merging}
+                                    onChange={() =>
+                                      setReview({
+                                        ...review,
+                                        fieldSources: { ...review.fieldSources, [field]: source },
+                                      })
+                                    }
+                                    className="h-4 w-4 mt-0.5 text-primary-600 border-gray-300"
+                                  />
+                                  {field === 'profile_picture_storage_path' ? (
+                                    <img
+                                      src={getPhotoUrl(partner[field]!)}
+                                      alt={getPartnerName(partner)}
+                                      className="w-10 h-10 rounded-full object-cover"
+                                    />
+                                  ) : (
+                                    <span className="break-words min-w-0">{partner[field]}</span>
+                                  )}
+                                </label>
+                              );
+                            })}
+                          </div>
+                        ))}
+                        {conflicts.includes('description') && !review.fieldSources.description && (
+                          <p className="text-xs text-gray-500">Descriptions are combined unless you pick one.</p>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex items-center gap-3">
+                      <button
+                        type="button"
+                        onClick={() => setConfirmOpen(true)}
+                        disabled={merging}
+                        className="text-sm bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Merge
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setReview(null)}
+                        disabled={merging}
+                        className="text-sm px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setReview({ candidate, keepId: candidate.partners[0].id, fieldSources: {} })
+                    }
+                    disabled={merging}
+                    className="text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                  >
+                    Review merge
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={confirmOpen && !!keep && !!merge}
+        title="Merge Partners"
+        message={
+          keep && merge
+            ? `Merge ${getPartnerName(merge)} into ${getPartnerName(keep)}? You can undo this for a short time afterwards.`
+            : ''
+        }
+        confirmLabel="Merge"
+        cancelLabel="Cancel"
+        onConfirm={handleMerge}
+        onCancel={() => {
+          if (!merging) {
+            setConfirmOpen(false);
+          }
+        }}
+        confirmButtonClass="px-4 py-2 bg-primary-600 text-white rounded hover:bg-primary-700"
+        loading={merging}
+        loadingLabel="Merging..."
+      />
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { useNavigation } from '@/lib/navigation';
+import {
+  buildPartnerListParams,
+  DEFAULT_ACTIVITY_FILTER_DAYS,
+  getDefaultPartnerListOrder,
+  MAX_ACTIVITY_FILTER_DAYS,
+  MAX_PARTNER_VIEW_NAME_LENGTH,
+  PARTNER_FIELD_FILTER_PREFIX,
+  PARTNER_LIST_SORT_LABELS,
+  PARTNER_SORT_ORDER,
+  PARTNER_STATUS_LABELS,
+  parsePartnerListParams,
+  PartnerActivityType,
+  PartnerListSort,
+  PartnerStatus,
+} from '@/shared';
+import type { CustomFieldDefinition, PartnerView } from '@/shared';
+
+interface PartnerFiltersProps {
+  tags: { tag: string; count: number }[];
+  customFields: CustomFieldDefinition[];
+  views: PartnerView[];
+}
+
+const selectClassName =
+  'px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Sort, filters and saved views for the partners list, kept in the URL
+ * (the query parameters of GET /api/partners, e.g. sort=date_count,
+ * tags=a,b and field.<fieldId>=value)
+ */
+export default function PartnerFilters({ tags, customFields, views: initialViews }: PartnerFiltersProps) {
+  const navigation = useNavigation();
+  const params = navigation.getParams();
+  const selectedTags = String(params.tags || '').split(',').filter(Boolean);
+  // The list's sort and filters as canonical query parameters (unrelated and default ones left out)
+  const filters = parsePartnerListParams(
+    Object.fromEntries(Object.entries(params).map(([key, value]) => [key, String(value)]))
+  );
+  const listParams = filters ? buildPartnerListParams(filters) : {};
+  const sort = filters?.sort || PARTNER_SORT_ORDER.field;
+  const order = filters?.order || getDefaultPartnerListOrder(sort);
+
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
+  const [activityDays, setActivityDays] = useState(String(DEFAULT_ACTIVITY_FILTER_DAYS));
+  const [views, setViews] = useState(initialViews);
+  const [viewName, setViewName] = useState('');
+  const [viewError, setViewError] = useState<string | null>(null);
+  const [savingView, setSavingView] = useState(false);
+
+  // Keep the inputs in sync with the URL (back/forward, clearing)
+  const paramsKey = JSON.stringify(params);
+  useEffect(() => {
+    const values: Record<string, string> = {};
+    for (const field of customFields) {
+      values[field.id] = String(params[`${PARTNER_FIELD_FILTER_PREFIX}${field.id}`] || '');
+    }
+    setFieldValues(values);
+    setActivityDays(String(params.activity_days || DEFAULT_ACTIVITY_FILTER_DAYS));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paramsKey, customFields]);
+
+  const setFilter = (key: string, value: string) => {
+    navigation.setParams({ [key]: value || undefined });
+  };
+
+  const handleSortChange = (value: PartnerListSort) => {
+    // Each sort starts in its natural order
+    navigation.setParams({ sort: value === PARTNER_SORT_ORDER.field ? undefined : value, order: undefined });
+  };
+
+  const toggleOrder = () => {
+    const next = order === 'asc' ? 'desc' : 'asc';
+    navigation.setParams({ order: next === getDefaultPartnerListOrder(sort) ? undefined : next });
+  };
+
+  const handleActivityDaysApply = () => {
+    const days = Number(activityDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_ACTIVITY_FILTER_DAYS) {
+      setActivityDays(String(params.activity_days || DEFAULT_ACTIVITY_FILTER_DAYS));
+      return;
+    }
+    navigation.setParams({ activity_days: days === DEFAULT_ACTIVITY_FILTER_DAYS ? undefined : days });
+  };
+
+  const applyView = (view: PartnerView) => {
+    navigation.replace(navigation.getCurrentPath(), view.params);
+  };
+
+  const handleSaveView = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) return;
+
+    setSavingView(true);
+    setViewError(null);
+    try {
+      const response = await fetch('/api/partner-views', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: viewName, params: listParams }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save view');
+      }
+
+      setViews([...views, result.data].sort((a, b) => a.name.localeCompare(b.name)));
+      setViewName('');
+    } catch (error: any) {
+      setViewError(error.message || 'Failed to save view');
+    } finally {
+      setSavingView(false);
+    }
+  };
+
+  const handleDeleteView = async (view: PartnerView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+
+    setViewError(null);
+    try {
+      const response = await fetch(`/api/partner-views/${view.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Failed to delete view');
+      }
+      setViews(views.filter((saved) => saved.id !== view.id));
+    } catch (error: any) {
+      setViewError(error.message || 'Failed to delete view');
+    }
+  };
+
+  // The view matching the current sort and filters, if any (saved params come back in any key order)
+  const activeView = views.find(
+    (view) =>
+      Object.keys(view.params).length === Object.keys(listParams).length &&
+      Object.entries(view.params).every(([key, value]) => listParams[key] === value)
+  );
+
+  const toggleTag = (tag: string) => {
+    const next = selectedTags.includes(tag)
+      ? selectedTags.filter((selected) => selected !== tag)
+      : [...selectedTags, tag];
+    navigation.setParams({ tags: next.length > 0 ? next.join(',') : undefined });
+  };
+
+  const handleApply = (e: FormEvent) => {
+    e.preventDefault();
+    const updates: Record<string, string | undefined> = {};
+    for (const field of customFields) {
+      updates[`${PARTNER_FIELD_FILTER_PREFIX}${field.id}`] = fieldValues[field.id]?.trim() || undefined;
+    }
+    navigation.setParams(updates);
+  };
+
+  const hasFilters = Object.keys(listParams).length > 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6 space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="partner-sort" className="block text-xs font-medium text-gray-600 mb-1">
+            Sort by
+          </label>
+          <div className="flex items-center gap-1">
+            <select
+              id="partner-sort"
+              value={sort}
+              onChange={(e) => handleSortChange(e.target.value as PartnerListSort)}
+              className={selectClassName}
+            >
+              {PartnerListSort.options.map((option) => (
+                <option key={option} value={option}>
+                  {PARTNER_LIST_SORT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={toggleOrder}
+              title={order === 'asc' ? 'Ascending' : 'Descending'}
+              aria-label={order === 'asc' ? 'Sort descending' : 'Sort ascending'}
+              className="px-2 py-1.5 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {order === 'asc' ? '↑' : '↓'}
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="partner-status" className="block text-xs font-medium text-gray-600 mb-1">
+            Status
+          </label>
+          <select
+            id="partner-status"
+            value={String(params.status || '')}
+            onChange={(e) => setFilter('status', e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            {PartnerStatus.options.map((status) => (
+              <option key={status} value={status}>
+                {PARTNER_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="partner-black-flag" className="block text-xs font-medium text-gray-600 mb-1">
+            Black flag
+          </label>
+          <select
+            id="partner-black-flag"
+            value={String(params.black_flag || '')}
+            onChange={(e) => setFilter('black_flag', e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            <option value="true">Black-flagged</option>
+            <option value="false">Not black-flagged</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="partner-photos" className="block text-xs font-medium text-gray-600 mb-1">
+            Photos
+          </label>
+          <select
+            id="partner-photos"
+            value={String(params.has_photos || '')}
+            onChange={(e) => setFilter('has_photos', e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Any</option>
+            <option value="true">Has photos</option>
+            <option value="false">No photos</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="partner-activity" className="block text-xs font-medium text-gray-600 mb-1">
+            Activity
+          </label>
+          <div className="flex items-center gap-2">
+            <select
+              id="partner-activity"
+              value={String(params.activity_type || '')}
+              onChange={(e) => navigation.setParams({
+                activity_type: e.target.value || undefined,
+                activity_days: e.target.value ? params.activity_days : undefined,
+              })}
+              className={selectClassName}
+            >
+              <option value="">Any</option>
+              {PartnerActivityType.options.map((type) => (
+                <option key={type} value={type}>
+                  {type.charAt(0).toUpperCase() + type.slice(1)}
+                </option>
+              ))}
+            </select>
+            {params.activity_type && (
+              <>
+                <span className="text-sm text-gray-600">in the last</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_ACTIVITY_FILTER_DAYS}
+                  value={activityDays}
+                  onChange={(e) => setActivityDays(e.target.value)}
+                  onBlur={handleActivityDaysApply}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleActivityDaysApply();
+                  }}
+                  aria-label="Days"
+                  className="w-20 px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-600">days</span>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(({ tag, count }) => {
+            const selected = selectedTags.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  selected
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:border-primary-500'
+                }`}
+              >
+                {tag} <span className={selected ? 'text-primary-100' : 'text-gray-400'}>{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {customFields.length > 0 && (
+        <form onSubmit={handleApply} className="flex flex-wrap items-end gap-3">
+          {customFields.map((field) => (
+            <div key={field.id}>
+              <label htmlFor={`filter-${field.id}`} className="block text-xs font-medium text-gray-600 mb-1">
+                {field.name}
+              </label>
+              {field.type === 'select' ? (
+                <select
+                  id={`filter-${field.id}`}
+                  value={fieldValues[field.id] || ''}
+                  onChange={(e) => setFieldValues({ ...fieldValues, [field.id]: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value="">Any</option>
+                  {field.options.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={`filter-${field.id}`}
+                  type={field.type === 'text' ? 'text' : field.type}
+                  value={fieldValues[field.id] || ''}
+                  onChange={(e) => setFieldValues({ ...fieldValues, [field.id]: e.target.value })}
+                  placeholder={field.type === 'text' ? 'Contains…' : undefined}
+                  className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              )}
+            </div>
+          ))}
+          <button
+            type="submit"
+            className="px-4 py-1.5 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700"
+          >
+            Filter
+          </button>
+        </form>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-100">
+        <span className="text-xs font-medium text-gray-600">Saved views</span>
+        {views.map((view) => (
+          <span
+            key={view.id}
+            className={`inline-flex items-center rounded-full text-sm border ${
+              activeView?.id === view.id
+                ? 'bg-primary-600 border-primary-600 text-white'
+                : 'bg-white border-gray-300 text-gray-700 hover:border-primary-500'
+            }`}
+          >
+            <button type="button" onClick={() => applyView(view)} className="pl-3 pr-1 py-1">
+              {view.name}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDeleteView(view)}
+              aria-label={`Delete view ${view.name}`}
+              className={`pr-2 pl-1 py-1 ${activeView?.id === view.id ? 'text-primary-100' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {hasFilters && !activeView && (
+          <form onSubmit={handleSaveView} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+              placeholder="Name this view"
+              maxLength={MAX_PARTNER_VIEW_NAME_LENGTH}
+              aria-label="View name"
+              className="px-3 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <button
+              type="submit"
+              disabled={savingView || !viewName.trim()}
+              className="px-3 py-1 bg-primary-600 text-white rounded-md text-sm hover:bg-primary-700 disabled:opacity-50"
+            >
+              {savingView ? 'Saving…' : 'Save view'}
+            </button>
+          </form>
+        )}
+        {views.length === 0 && !hasFilters && (
+          <span className="text-sm text-gray-400">Sort or filter the list to save it as a view.</span>
+        )}
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={() => navigation.replace(navigation.getCurrentPath())}
+            className="text-sm text-gray-600 hover:text-gray-800 underline ml-auto"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+      {viewError && <p className="text-sm text-red-600">{viewError}</p>}
+    </div>
+  );
+}
@@ -5,7 +5,14 @@ import { useNavigation } from '@/lib/navigation';
 import { createSupabaseClient } from '@/lib/supabase/client';
 import { environment } from '@/lib/environment';
 import Link from 'next/link';
-import type { Partner } from '@/shared';
+import {
+  MAX_PARTNER_TAG_LENGTH,
+  MAX_PARTNER_TAGS,
+  normalizePartnerTags,
+  PARTNER_STATUS_LABELS,
+  PartnerStatus,
+} from '@/shared';
+import type { CustomFieldDefinition, Partner } from '@/shared';
 import BlackFlagIcon from '@/components/BlackFlagIcon';
 import { useTrackClick } from '@/hooks/useTrackClick';
 
@@ -13,6 +20,15 @@ interface PartnerFormProps {
   partner?: Partner | null;
 }
 
+// Custom field values are edited as strings ('' = not set)
+function getCustomFieldInputs(partner?: Partner | null): { [fieldId: string]: string } {
+  const inputs: { [fieldId: string]: string } = {};
+  for (const [fieldId, value] of Object.entries(partner?.custom_fields || {})) {
+    inputs[fieldId] = String(value);
+  }
+  return inputs;
+}
+
 export default function PartnerForm({ partner }: PartnerFormProps = {}) {
   const navigation = useNavigation();
   const trackClick = useTrackClick();
@@ -27,6 +43,9 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
     linkedin_profile: partner?.linkedin_profile || '',
     instagram_profile: partner?.instagram_profile || '',
     black_flag: partner?.black_flag || false,
+    status: (partner?.status || 'talking') as PartnerStatus,
+    tags: partner?.tags || [],
+    custom_fields: getCustomFieldInputs(partner),
   });
 
   const [formData, setFormData] = useState(getInitialFormData());
@@ -38,6 +57,9 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
   const [lastActivityDescription, setLastActivityDescription] = useState<string | null>(null);
   const [suggestionText, setSuggestionText] = useState<string>('');
   const [showSuggestion, setShowSuggestion] = useState(false);
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const suggestionRef = useRef<HTMLSpanElement>(null);
   const touchStartX = useRef<number | null>(null);
@@ -82,6 +104,23 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
     fetchLastActivity();
   }, [partner]);
 
+  // Fetch the account's custom fields and tags (for tag suggestions)
+  useEffect(() => {
+    const fetchCustomFields = async () => {
+      try {
+        const response = await fetch('/api/custom-fields');
+        if (!response.ok) return;
+        const result = await response.json();
+        if (!isMountedRef.current) return;
+        setCustomFields(result.data || []);
+        setKnownTags((result.tags || []).map(({ tag }: { tag: string }) => tag));
+      } catch (error) {
+        console.error('Error fetching custom fields:', error);
+      }
+    };
+    fetchCustomFields();
+  }, []);
+
   // Update initial form data when partner changes
   useEffect(() => {
     const initial = getInitialFormData();
@@ -169,6 +208,49 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
     touchStartX.current = null;
   };
 
+  const addTags = (value: string) => {
+    const tags = normalizePartnerTags([...formData.tags, ...value.split(',')]);
+    if (tags.length > MAX_PARTNER_TAGS) {
+      setFieldErrors((prev) => ({ ...prev, tags: `A partner can have up to ${MAX_PARTNER_TAGS} tags.` }));
+      return;
+    }
+    if (tags.some((tag) => tag.length > MAX_PARTNER_TAG_LENGTH)) {
+      setFieldErrors((prev) => ({ ...prev, tags: `Tags can be up to ${MAX_PARTNER_TAG_LENGTH} characters.` }));
+      return;
+    }
+    setFormData({ ...formData, tags });
+    setTagInput('');
+    clearFieldError('tags');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && tagInput.trim()) {
+      e.preventDefault();
+      addTags(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && formData.tags.length > 0) {
+      setFormData({ ...formData, tags: formData.tags.slice(0, -1) });
+    }
+  };
+
+  const tagSuggestions = tagInput.trim()
+    ? knownTags
+        .filter((tag) => tag.toLowerCase().startsWith(tagInput.trim().toLowerCase()))
+        .filter((tag) => !formData.tags.some((selected) => selected.toLowerCase() === tag.toLowerCase()))
+        .slice(0, 5)
+    : [];
+
+  // Custom field values that differ from the saved ones ('' clears a field)
+  const getChangedCustomFields = (): { [fieldId: string]: string | null } => {
+    const changed: { [fieldId: string]: string | null } = {};
+    for (const field of customFields) {
+      const value = (formData.custom_fields[field.id] || '').trim();
+      if (value !== (initialFormData.custom_fields[field.id] || '')) {
+        changed[field.id] = value || null;
+      }
+    }
+    return changed;
+  };
+
   // Check if form has changes (only for edit mode)
   const hasChanges: boolean = partner ? (
     formData.first_name !== initialFormData.first_name ||
@@ -180,7 +262,10 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
     formData.x_profile !== initialFormData.x_profile ||
     formData.linkedin_profile !== initialFormData.linkedin_profile ||
     formData.instagram_profile !== initialFormData.instagram_profile ||
-    formData.black_flag !== initialFormData.black_flag
+    formData.black_flag !== initialFormData.black_flag ||
+    formData.status !== initialFormData.status ||
+    formData.tags.join(',') !== initialFormData.tags.join(',') ||
+    Object.keys(getChangedCustomFields()).length > 0
   ) : true; // Always allow submission for new partners
 
   // Validation functions
@@ -210,6 +295,15 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
     }
   };
 
+  // Server errors for custom fields are keyed by field id
+  const getCustomFieldErrors = (details: { [fieldId: string]: string }) => {
+    const errors: { [key: string]: string } = {};
+    for (const [fieldId, error] of Object.entries(details)) {
+      errors[`custom_${fieldId}`] = error;
+    }
+    return errors;
+  };
+
     const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -265,6 +359,14 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
       errors.instagram_profile = 'Please enter a valid Instagram profile URL (e.g., https://instagram.com/username).';
     }
 
+    // Validate: custom field values (select and date inputs can't be invalid)
+    for (const field of customFields) {
+      const value = (formData.custom_fields[field.id] || '').trim();
+      if (field.type === 'number' && value && !Number.isFinite(Number(value))) {
+        errors[`custom_${field.id}`] = `${field.name} must be a number.`;
+      }
+    }
+
     // If there are validation errors, set them and scroll to first error
     if (Object.keys(errors).length > 0) {
       setFieldErrors(errors);
@@ -278,7 +380,7 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
         setTimeout(() => {
           fieldElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
           // Focus the input field if it's an input element
-          const inputElement = fieldElement.querySelector('input, textarea') as HTMLElement;
+          const inputElement = fieldElement.querySelector('input, textarea, select') as HTMLElement;
           if (inputElement) {
             inputElement.focus();
           }
@@ -301,9 +403,6 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
       return;
     }
 
-    // Auto-update description_time if description changed
-    const descriptionChanged = partner && formData.description !== (partner.description || '');
-    
     const partnerData: any = {
       user_id: user.id,
       first_name: formData.first_name || null,
@@ -316,22 +415,41 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
       linkedin_profile: formData.linkedin_profile || null,
       instagram_profile: formData.instagram_profile || null,
       black_flag: formData.black_flag || false,
+      status: formData.status,
+      tags: formData.tags,
+      custom_fields: getChangedCustomFields(),
     };
 
-    // Update description_time if description changed (only on update, not create)
-    if (partner && descriptionChanged && formData.description) {
-      partnerData.description_time = new Date().toISOString();
-    }
-
     if (partner) {
-      // Update existing partner
-      const { error } = await supabase
-        .from('partners')
-        .update(partnerData)
-        .eq('id', partner.id);
-
-      if (error) {
-        setMessage(error.message);
+      // Update existing partner via API route (sets description_time on the server)
+      const response = await fetch(`/api/partners/${partner.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          first_name: formData.first_name.trim(),
+          last_name: formData.last_name.trim(),
+          email: formData.email.trim(),
+          phone_number: formData.phone_number.trim(),
+          description: formData.description.trim(),
+          facebook_profile: formData.facebook_profile.trim(),
+          x_profile: formData.x_profile.trim(),
+          linkedin_profile: formData.linkedin_profile.trim(),
+          instagram_profile: formData.instagram_profile.trim(),
+          black_flag: formData.black_flag || false,
+          status: formData.status,
+          tags: formData.tags,
+          custom_fields: getChangedCustomFields(),
+        }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        if (result.error === 'Invalid custom fields' && result.details) {
+          setFieldErrors(getCustomFieldErrors(result.details));
+        }
+        setMessage(result.error || 'Error updating partner');
         setLoading(false);
         return;
       } else {
@@ -392,6 +510,9 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
           setMessage(result.message);
           setIsLimitReached(true);
         } else {
+          if (result.error === 'Invalid custom fields' && result.details) {
+            setFieldErrors(getCustomFieldErrors(result.details));
+          }
           setMessage(result.error || 'Error creating partner');
           setIsLimitReached(false);
         }
@@ -461,6 +582,29 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
         />
       </div>
 
+      <div>
+        <label
+          htmlFor="status"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Status
+        </label>
+        <select
+          id="status"
+          value={formData.status}
+          onChange={(e) =>
+            setFormData({ ...formData, status: e.target.value as PartnerStatus })
+          }
+          className="w-full border border-gray-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          {PartnerStatus.options.map((status) => (
+            <option key={status} value={status}>
+              {PARTNER_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Black Flag - Only show when editing, placed after last name */}
       {partner && (
         <div>
@@ -619,6 +763,130 @@ export default function PartnerForm({ partner }: PartnerFormProps = {}) {
         )}
       </div>
 
+      <div
+        ref={(ref) => { fieldRefs.current.tags = ref; }}
+      >
+        <label
+          htmlFor="tags"
+          className="block text-sm font-medium text-gray-700 mb-1"
+        >
+          Tags
+        </label>
+        <div
+          className={`w-full border rounded-lg px-2 py-1.5 flex flex-wrap items-center gap-1 focus-within:ring-2 focus-within:ring-primary-500 ${
+            fieldErrors.tags ? 'border-red-500' : 'border-gray-300'
+          }`}
+        >
+          {formData.tags.map((tag) => (
+            <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary-50 text-primary-700 text-sm">
+              {tag}
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, tags: formData.tags.filter((t) => t !== tag) })}
+                className="text-primary-400 hover:text-primary-700"
+                aria-label={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <input
+            id="tags"
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={handleTagKeyDown}
+            onBlur={() => tagInput.trim() && addTags(tagInput)}
+            placeholder={formData.tags.length === 0 ? 'Add tags (Enter or comma to add)' : ''}
+            className="flex-1 min-w-[8rem] px-2 py-0.5 outline-none"
+          />
+        </div>
+        {tagSuggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {tagSuggestions.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                // Keep the input focused so blur doesn't add the partial tag
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTags(tag)}
+                className="px-2 py-0.5 rounded-full border border-gray-300 text-xs text-gray-600 hover:border-primary-500"
+              >
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+        {fieldErrors.tags && (
+          <p className="mt-1 text-sm text-red-600">{fieldErrors.tags}</p>
+        )}
+      </div>
+
+      {customFields.length > 0 && (
+        <div className="border-t pt-4 mt-4">
+          <h3 className="text-lg font-semibold mb-4">Custom Fields</h3>
+
+          <div className="space-y-4">
+            {customFields.map((field) => {
+              const errorKey = `custom_${field.id}`;
+              const inputClassName = `w-full border rounded-lg px-4 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+                fieldErrors[errorKey]
+                  ? 'border-red-500 focus:ring-red-500'
+                  : 'border-gray-300'
+              }`;
+              const value = formData.custom_fields[field.id] || '';
+              const setValue = (newValue: string) => {
+                setFormData({ ...formData, custom_fields: { ...formData.custom_fields, [field.id]: newValue } });
+                clearFieldError(errorKey);
+              };
+
+              return (
+                <div
+                  key={field.id}
+                  ref={(ref) => { fieldRefs.current[errorKey] = ref; }}
+                >
+                  <label
+                    htmlFor={errorKey}
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    {field.name}
+                  </label>
+                  {field.type === 'select' ? (
+                    <select
+                      id={errorKey}
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      className={inputClassName}
+                    >
+                      <option value="">—</option>
+                      {/* Keep a stored value that is no longer one of the options */}
+                      {value && !field.options.includes(value) && <option value={value}>{value}</option>}
+                      {field.options.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      id={errorKey}
+                      type={field.type === 'number' ? 'text' : field.type}
+                      inputMode={field.type === 'number' ? 'decimal' : undefined}
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      className={inputClassName}
+                    />
+                  )}
+                  {fieldErrors[errorKey] && (
+                    <p className="mt-1 text-sm text-red-600">{fieldErrors[errorKey]}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="border-t pt-4 mt-4">
         <h3 className="text-lg font-semibold mb-4">Social Media Profiles</h3>
         
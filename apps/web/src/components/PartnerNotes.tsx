@@ -66,24 +66,36 @@ export default function PartnerNotes({
     }
 
     setLoading(true);
-    const { data: note, error } = await supabase
-      .from('partner_notes')
-      .insert([{ ...formData, partner_id: partnerId }])
-      .select()
-      .single();
+    try {
+      const response = await fetch(`/api/partners/${partnerId}/activities`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+      const data = await response.json();
 
-    if (error) {
+      if (!response.ok) {
+        setAlertDialog({
+          open: true,
+          title: data.error === 'ACTIVITY_LIMIT_REACHED' ? 'Note Limit Reached' : 'Error',
+          message: data.error === 'ACTIVITY_LIMIT_REACHED'
+            ? data.message
+            : 'Error creating note: ' + (data.details || data.error),
+        });
+      } else {
+        setNotes([data.data, ...notes]);
+        setShowForm(false);
+      }
+    } catch (error: any) {
       console.error('Error creating note:', error);
       setAlertDialog({
         open: true,
         title: 'Error',
         message: 'Error creating note: ' + error.message,
       });
-    } else {
-      setNotes([note, ...notes]);
-      setShowForm(false);
+    } finally {
+      setLoading(false);
     }
-    setLoading(false);
   };
 
   const handleDeleteClick = (noteId: string) => {
@@ -95,17 +107,17 @@ export default function PartnerNotes({
 
     try {
       setDeleting(true);
-      const { error } = await supabase
-        .from('partner_notes')
-        .delete()
-        .eq('id', deleteConfirm.noteId);
+      const response = await fetch(`/api/partners/${partnerId}/activities/${deleteConfirm.noteId}`, {
+        method: 'DELETE',
+      });
 
-      if (error) {
-        console.error('Error deleting note:', error);
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        console.error('Error deleting note:', data);
         setAlertDialog({
           open: true,
           title: 'Error',
-          message: 'Error deleting note: ' + error.message,
+          message: 'Error deleting note: ' + (data.details || data.error || response.statusText),
         });
       } else {
         setNotes(notes.filter((n) => n.id !== deleteConfirm.noteId));
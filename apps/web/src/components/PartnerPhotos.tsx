@@ -183,7 +183,7 @@ export default function PartnerPhotos({ partnerId }: PartnerPhotosProps) {
       <ConfirmDialog
         open={deleteConfirm.open}
         title="Delete Photo"
-        message="Are you sure you want to delete this photo?"
+        message="Move this photo to the trash? You can restore it from the trash for 30 days."
         confirmLabel="Delete"
         cancelLabel="Cancel"
         onConfirm={handleDeleteConfirm}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState } from 'react';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { describePartnerReminder, MAX_REMINDERS_PER_PARTNER, PartnerReminderKind } from '@/shared';
+import type { UpcomingReminder } from '@/lib/reminders';
+import ConfirmDialog from './ConfirmDialog';
+
+interface PartnerRemindersProps {
+  partnerId: string;
+  initialReminders: UpcomingReminder[];
+}
+
+const DEFAULT_NO_CONTACT_DAYS = 14;
+
+/**
+ * A partner's reminders: one-off reminders and "no contact in N days" rules.
+ * Due reminders are sent by email and push.
+ */
+export default function PartnerReminders({ partnerId, initialReminders }: PartnerRemindersProps) {
+  const [reminders, setReminders] = useState<UpcomingReminder[]>(initialReminders);
+  const [showForm, setShowForm] = useState(false);
+  const [kind, setKind] = useState<PartnerReminderKind>('no_contact');
+  const [remindAt, setRemindAt] = useState('');
+  const [noContactDays, setNoContactDays] = useState(String(DEFAULT_NO_CONTACT_DAYS));
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<{ open: boolean; reminderId: string | null }>({ open: false, reminderId: null });
+  const [deleting, setDeleting] = useState(false);
+
+  const reloadReminders = async () => {
+    const response = await fetch(`/api/partners/${partnerId}/reminders`);
+    const data = await response.json().catch(() => ({}));
+    if (response.ok) {
+      setReminders(data.data);
+    }
+  };
+
+  const resetForm = () => {
+    setShowForm(false);
+    setRemindAt('');
+    setNoContactDays(String(DEFAULT_NO_CONTACT_DAYS));
+    setNote('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const body =
+        kind === 'once'
+          ? { kind, remind_at: new Date(remindAt).toISOString(), note: note || undefined }
+          : { kind, no_contact_days: parseInt(noContactDays, 10), note: note || undefined };
+
+      const response = await fetch(`/api/partners/${partnerId}/reminders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create reminder');
+      }
+
+      await reloadReminders();
+      resetForm();
+      setMessage({ type: 'success', text: 'Reminder added' });
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deleteConfirm.reminderId) return;
+
+    setDeleting(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/reminders/${deleteConfirm.reminderId}`, { method: 'DELETE' });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete reminder');
+      }
+
+      setReminders((prev) => prev.filter((item) => item.reminder.id !== deleteConfirm.reminderId));
+    } catch (error: any) {
+      setMessage({ type: 'error', text: error.message });
+    } finally {
+      setDeleting(false);
+      setDeleteConfirm({ open: false, reminderId: null });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold">Reminders</h2>
+        {!showForm && reminders.length < MAX_REMINDERS_PER_PARTNER && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            + Add Reminder
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={`mb-4 p-3 rounded ${
+            message.type === 'error' ? 'bg-red-50 text-red-800' : 'bg-green-50 text-green-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="reminder-kind"
+                checked={kind === 'no_contact'}
+                onChange={() => setKind('no_contact')}
+              />
+              When there's no activity for a while
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="radio"
+                name="reminder-kind"
+                checked={kind === 'once'}
+                onChange={() => setKind('once')}
+              />
+              On a date
+            </label>
+          </div>
+
+          {kind === 'once' ? (
+            <div>
+              <label htmlFor="reminder-remind-at" className="block text-sm font-medium text-gray-700 mb-1">
+                Remind me on
+              </label>
+              <input
+                id="reminder-remind-at"
+                type="datetime-local"
+                required
+                value={remindAt}
+                onChange={(e) => setRemindAt(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2"
+              />
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="reminder-days" className="block text-sm font-medium text-gray-700 mb-1">
+                Remind me after this many days without activity
+              </label>
+              <input
+                id="reminder-days"
+                type="number"
+                min={1}
+                max={365}
+                required
+                value={noContactDays}
+                onChange={(e) => setNoContactDays(e.target.value)}
+                className="w-24 border border-gray-300 rounded-lg px-3 py-2"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="reminder-note" className="block text-sm font-medium text-gray-700 mb-1">
+              Note (optional)
+            </label>
+            <input
+              id="reminder-note"
+              type="text"
+              maxLength={500}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Ask how the trip went"
+              className="w-full border border-gray-300 rounded-lg px-3 py-2"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Reminder'}
+            </button>
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={saving}
+              className="px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {reminders.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {reminders.map(({ reminder, due_at }) => {
+            const dueAt = parseISO(due_at);
+            const overdue = dueAt <= new Date();
+
+            return (
+              <li key={reminder.id} className="py-3 flex justify-between items-start gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">{describePartnerReminder(reminder)}</p>
+                  {reminder.note && <p className="text-sm text-gray-700">{reminder.note}</p>}
+                  <p className={`text-xs mt-1 ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                    {overdue ? 'Due' : 'Next'} {format(dueAt, 'MMM d, yyyy h:mm a')} ({formatDistanceToNow(dueAt, { addSuffix: true })})
+                  </p>
+                </div>
+                <button
+                  onClick={() => setDeleteConfirm({ open: true, reminderId: reminder.id })}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Delete
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        !showForm && <p className="text-gray-500 text-sm">No reminders for this partner.</p>
+      )}
+
+      <ConfirmDialog
+        open={deleteConfirm.open}
+        title="Delete Reminder"
+        message="Delete this reminder? You won't be notified about it anymore."
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => {
+          if (!deleting) {
+            setDeleteConfirm({ open: false, reminderId: null });
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { PARTNER_STATUS_LABELS, PartnerStatus } from '@/shared';
+
+export const PARTNER_STATUS_COLORS: Record<PartnerStatus, string> = {
+  talking: 'bg-blue-100 text-blue-800',
+  first_date: 'bg-purple-100 text-purple-800',
+  seeing: 'bg-pink-100 text-pink-800',
+  exclusive: 'bg-green-100 text-green-800',
+  ended: 'bg-gray-100 text-gray-700',
+  ghosted: 'bg-yellow-100 text-yellow-800',
+};
+
+interface PartnerStatusBadgeProps {
+  status: PartnerStatus;
+  className?: string;
+}
+
+export default function PartnerStatusBadge({ status, className = '' }: PartnerStatusBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${PARTNER_STATUS_COLORS[status]} ${className}`}
+    >
+      {PARTNER_STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getPhotoUrl } from '@/lib/photo-utils';
+import type { PhotoReviewReason, PhotoUploadCandidate, PhotoUploadJobStatus } from '@/lib/photo-upload-queue';
+import ConfirmDialog from './ConfirmDialog';
+
+interface InboxItem {
+  id: string;
+  storage_path: string;
+  file_name: string | null;
+  status: PhotoUploadJobStatus;
+  review_reason: PhotoReviewReason | null;
+  face_count: number | null;
+  candidates: PhotoUploadCandidate[];
+  last_error: string | null;
+  created_at: string;
+}
+
+interface InboxPartner {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  profile_picture_storage_path: string | null;
+  black_flag: boolean;
+}
+
+const REVIEW_REASON_LABELS: Record<PhotoReviewReason, string> = {
+  no_face: 'No face found',
+  multiple_faces: 'Several faces',
+  ambiguous: 'Looks like several partners',
+  no_match: 'No matching partner',
+};
+
+function getPartnerName(partner: InboxPartner | undefined): string {
+  if (!partner) return 'Unknown partner';
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed partner';
+}
+
+export default function PhotoInbox() {
+  const [loading, setLoading] = useState(true);
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [partners, setPartners] = useState<InboxPartner[]>([]);
+  const [queued, setQueued] = useState(0);
+  const [processing, setProcessing] = useState(false);
+  const [selectedPartner, setSelectedPartner] = useState<Record<string, string>>({});
+  // Item being assigned or discarded
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+  const [discardItem, setDiscardItem] = useState<InboxItem | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadInbox = async () => {
+    try {
+      const response = await fetch('/api/photos/inbox');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to load photo inbox' });
+        return;
+      }
+
+      setItems(data.items);
+      setPartners(data.partners);
+      setQueued(data.queued);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error loading photo inbox: ' + error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadInbox();
+  }, []);
+
+  const partnerMap = new Map(partners.map((partner) => [partner.id, partner]));
+
+  const handleProcess = async () => {
+    if (processing) return;
+
+    setProcessing(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/photos/upload-queue', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to process photos' });
+        return;
+      }
+
+      if (data.summary.assigned > 0) {
+        setMessage({
+          type: 'success',
+          text: `${data.summary.assigned} photo${data.summary.assigned === 1 ? ' was' : 's were'} added to a matching partner`,
+        });
+      }
+      await loadInbox();
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error processing photos: ' + error.message });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleAssign = async (item: InboxItem, target: { partner_id: string } | { new_partner: true }) => {
+    if (busyItemId) return;
+
+    setBusyItemId(item.id);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/photos/inbox/${item.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.message || data.error || 'Failed to assign photo' });
+        return;
+      }
+
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      setMessage({
+        type: 'success',
+        text: 'new_partner' in target
+          ? 'Photo added to a new partner'
+          : `Photo added to ${getPartnerName(partnerMap.get(target.partner_id))}`,
+      });
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error assigning photo: ' + error.message });
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!discardItem || busyItemId) return;
+
+    setBusyItemId(discardItem.id);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/photos/inbox/${discardItem.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to discard photo' });
+        return;
+      }
+
+      setItems((prev) => prev.filter((i) => i.id !== discardItem.id));
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error discarding photo: ' + error.message });
+    } finally {
+      setBusyItemId(null);
+      setDiscardItem(null);
+    }
+  };
+
+  const spinner = (
+    <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+    </svg>
+  );
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex items-center gap-2 text-gray-600">
+        {spinner}
+        Loading photo inbox...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {queued > 0 && (
+        <div className="p-4 rounded-lg bg-primary-50 text-primary-800 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <span>
+            {queued} photo{queued === 1 ? ' is' : 's are'} still waiting for face recognition.
+          </span>
+          <button
+            type="button"
+            onClick={handleProcess}
+            disabled={processing}
+            className="text-sm bg-white text-gray-800 px-4 py-2 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {processing && spinner}
+            {processing ? 'Processing...' : 'Process now'}
+          </button>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-gray-600">Your photo inbox is empty.</div>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {items.map((item) => {
+            const busy = busyItemId === item.id;
+            const selected = selectedPartner[item.id] || '';
+            return (
+              <li key={item.id} className="bg-white rounded-lg shadow overflow-hidden flex flex-col">
+                <img
+                  src={getPhotoUrl(item.storage_path)}
+                  alt={item.file_name || 'Uploaded photo'}
+                  className="w-full h-56 object-cover bg-gray-100"
+                />
+                <div className="p-4 space-y-3 flex-1 flex flex-col">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs font-medium">
+                      {item.review_reason
+                        ? REVIEW_REASON_LABELS[item.review_reason]
+                        : 'Could not be processed'}
+                      {item.review_reason === 'multiple_faces' && item.face_count ? ` (${item.face_count})` : ''}
+                    </span>
+                    <span className="text-xs text-gray-500 truncate">{item.file_name}</span>
+                  </div>
+
+                  {item.status === 'failed' && item.last_error && (
+                    <p className="text-xs text-red-700">{item.last_error}</p>
+                  )}
+
+                  {item.candidates.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {item.candidates.map((candidate) => (
+                        <button
+                          key={candidate.partner_id}
+                          type="button"
+                          onClick={() => handleAssign(item, { partner_id: candidate.partner_id })}
+                          disabled={!!busyItemId}
+                          className="text-sm px-3 py-1 rounded-full border border-primary-200 text-primary-700 hover:bg-primary-50 disabled:opacity-50"
+                        >
+                          {getPartnerName(partnerMap.get(candidate.partner_id))} ({Math.round(candidate.similarity * 100)}%)
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2 mt-auto">
+                    <select
+                      value={selected}
+                      onChange={(e) => setSelectedPartner((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                      disabled={!!busyItemId}
+                      className="flex-1 min-w-0 text-sm border border-gray-300 rounded-lg px-2 py-2"
+                    >
+                      <option value="">Choose partner...</option>
+                      {partners.map((partner) => (
+                        <option key={partner.id} value={partner.id}>
+                          {getPartnerName(partner)}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleAssign(item, { partner_id: selected })}
+                      disabled={!selected || !!busyItemId}
+                      className="text-sm bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                    >
+                      {busy && spinner}
+                      {busy ? 'Saving...' : 'Assign'}
+                    </button>
+                  </div>
+                  <div className="flex justify-between">
+                    <button
+                      type="button"
+                      onClick={() => handleAssign(item, { new_partner: true })}
+                      disabled={!!busyItemId}
+                      className="text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                    >
+                      New partner from this photo
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDiscardItem(item)}
+                      disabled={!!busyItemId}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={!!discardItem}
+        title="Discard Photo"
+        message="Discard this photo? It will be deleted."
+        confirmLabel="Discard"
+        cancelLabel="Cancel"
+        onConfirm={handleDiscard}
+        onCancel={() => {
+          if (!busyItemId) {
+            setDiscardItem(null);
+          }
+        }}
+        confirmButtonClass="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+        loading={!!discardItem && busyItemId === discardItem.id}
+        loadingLabel="Discarding..."
+      />
+    </div>
+  );
+}
@@ -637,6 +637,8 @@ export function PhotoUploadWithFaceMatch({
             },
             partnerMatches: [],
             otherPartnerMatches: result.matches || [],
+            partnerScore: null,
+            otherPartnerScores: result.partnerScores || [],
             partnerHasOtherPhotos: false,
           };
           setAnalysis(analysis);
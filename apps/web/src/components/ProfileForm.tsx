@@ -5,6 +5,7 @@ import { createSupabaseClient } from '@/lib/supabase/client';
 import { environment } from '@/lib/environment';
 import { User } from '@/shared';
 import { useNavigation } from '@/lib/navigation';
+import { describeFaceMatchThreshold } from '@/lib/face-matching';
 import Link from 'next/link';
 import ConfirmDialog from './ConfirmDialog';
 
@@ -45,6 +46,13 @@ export default function ProfileForm({ user }: ProfileFormProps) {
   const [connectingCalendar, setConnectingCalendar] = useState(false);
   const [disconnectConfirm, setDisconnectConfirm] = useState<{ open: boolean; provider: string | null }>({ open: false, provider: null });
   const [disconnecting, setDisconnecting] = useState(false);
+  const [reconciling, setReconciling] = useState(false);
+  const [autoSync, setAutoSync] = useState(user.calendar_auto_sync ?? false);
+  const [savingAutoSync, setSavingAutoSync] = useState(false);
+  const [calendarFeed, setCalendarFeed] = useState<{ enabled: boolean; url: string | null; exclude_black_flagged: boolean } | null>(null);
+  const [feedAction, setFeedAction] = useState<'create' | 'rotate' | 'disable' | 'exclude' | null>(null);
+  const [rotateFeedConfirm, setRotateFeedConfirm] = useState(false);
+  const [feedCopied, setFeedCopied] = useState(false);
   const originalName = user.full_name || '';
   const originalTimezone = user.timezone || 'Asia/Jerusalem';
   
@@ -74,6 +82,25 @@ export default function ProfileForm({ user }: ProfileFormProps) {
     fetchCalendarConnections();
   }, [supabase, user.id]);
 
+  // Fetch ICS feed settings (Pro only)
+  useEffect(() => {
+    if (user.account_type !== 'pro') return;
+
+    const fetchCalendarFeed = async () => {
+      try {
+        const response = await fetch('/api/calendar/feed');
+        if (response.ok) {
+          // The feed URL is only returned when it is created or rotated
+          const data = await response.json();
+          setCalendarFeed({ enabled: data.enabled, url: null, exclude_black_flagged: data.exclude_black_flagged });
+        }
+      } catch (error) {
+        console.error('Error fetching calendar feed settings:', error);
+      }
+    };
+    fetchCalendarFeed();
+  }, [user.account_type]);
+
   const [formData, setFormData] = useState({
     full_name: originalName,
     timezone: originalTimezone,
@@ -126,10 +153,10 @@ export default function ProfileForm({ user }: ProfileFormProps) {
       return;
     }
 
-    if (provider === 'google') {
+    if (provider === 'google' || provider === 'outlook') {
       setConnectingCalendar(true);
       try {
-        const response = await fetch('/api/calendar/google/initiate');
+        const response = await fetch(`/api/calendar/${provider}/initiate`);
         const data = await response.json();
         if (data.authUrl) {
           environment.redirect(data.authUrl);
@@ -176,6 +203,160 @@ export default function ProfileForm({ user }: ProfileFormProps) {
     }
   };
 
+  const handleReconcileCalendar = async () => {
+    if (reconciling) return;
+
+    setReconciling(true);
+    setMessage('');
+    try {
+      const response = await fetch('/api/calendar/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error checking calendar: ' + (data.error || 'Failed to check calendar for changes'));
+        return;
+      }
+
+      const { pulled, pushed, deleted, conflicts } = data.summary;
+      const changes = pulled + pushed + deleted;
+      setMessage(
+        changes === 0
+          ? 'Calendar checked successfully - everything is up to date'
+          : `Calendar checked successfully - ${pulled} updated from calendar, ${pushed} updated in calendar, ${deleted} removed from calendar` +
+            (conflicts > 0 ? ` (${conflicts} conflicts resolved by latest change)` : '')
+      );
+    } catch (error: any) {
+      setMessage('Error checking calendar: ' + error.message);
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const handleToggleAutoSync = async () => {
+    if (savingAutoSync) return;
+
+    const enabled = !autoSync;
+    setSavingAutoSync(true);
+    setMessage('');
+
+    const { error } = await supabase
+      .from('users')
+      .update({ calendar_auto_sync: enabled })
+      .eq('id', user.id);
+
+    if (error) {
+      console.error('Error updating auto-sync setting:', error);
+      setMessage('Error updating auto-sync setting: ' + error.message);
+    } else {
+      setAutoSync(enabled);
+      setMessage(
+        enabled
+          ? 'Auto-sync enabled - new and edited activities will be added to your calendar automatically'
+          : 'Auto-sync disabled'
+      );
+    }
+    setSavingAutoSync(false);
+  };
+
+  const handleCreateFeed = async (rotate: boolean) => {
+    if (feedAction) return;
+
+    setFeedAction(rotate ? 'rotate' : 'create');
+    setMessage('');
+    try {
+      const response = await fetch('/api/calendar/feed', { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error creating calendar feed: ' + (data.error || 'Failed to create calendar feed'));
+        return;
+      }
+
+      setCalendarFeed((prev) => ({
+        enabled: true,
+        url: data.url,
+        exclude_black_flagged: prev?.exclude_black_flagged ?? true,
+      }));
+      setMessage(
+        rotate
+          ? 'Calendar feed link rotated - update the subscription in your calendar app with the new link, it is only shown now'
+          : 'Calendar feed enabled - copy the link into your calendar app to subscribe, it is only shown now'
+      );
+    } catch (error: any) {
+      setMessage('Error creating calendar feed: ' + error.message);
+    } finally {
+      setFeedAction(null);
+      setRotateFeedConfirm(false);
+    }
+  };
+
+  const handleDisableFeed = async () => {
+    if (feedAction) return;
+
+    setFeedAction('disable');
+    setMessage('');
+    try {
+      const response = await fetch('/api/calendar/feed', { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error disabling calendar feed: ' + (data.error || 'Failed to disable calendar feed'));
+        return;
+      }
+
+      setCalendarFeed((prev) => prev && { ...prev, enabled: false, url: null });
+      setMessage('Calendar feed disabled');
+    } catch (error: any) {
+      setMessage('Error disabling calendar feed: ' + error.message);
+    } finally {
+      setFeedAction(null);
+    }
+  };
+
+  const handleToggleFeedExclude = async () => {
+    if (feedAction || !calendarFeed) return;
+
+    const exclude = !calendarFeed.exclude_black_flagged;
+    setFeedAction('exclude');
+    setMessage('');
+    try {
+      const response = await fetch('/api/calendar/feed', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ exclude_black_flagged: exclude }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage('Error updating calendar feed: ' + (data.error || 'Failed to update calendar feed'));
+        return;
+      }
+
+      setCalendarFeed({ ...calendarFeed, exclude_black_flagged: exclude });
+    } catch (error: any) {
+      setMessage('Error updating calendar feed: ' + error.message);
+    } finally {
+      setFeedAction(null);
+    }
+  };
+
+  const handleCopyFeedUrl = async () => {
+    if (!calendarFeed?.url) return;
+
+    try {
+      await navigator.clipboard.writeText(calendarFeed.url);
+      setFeedCopied(true);
+      setTimeout(() => setFeedCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying feed URL:', error);
+      setMessage('Could not copy the link - select it and copy it manually');
+    }
+  };
+
   return (
     <div>
       {message && (
@@ -345,8 +526,188 @@ export default function ProfileForm({ user }: ProfileFormProps) {
         <p className="text-xs text-gray-500 mt-3">
           Connect your calendar to sync activities automatically. You can sync activities individually from the activity timeline.
         </p>
+        {calendarConnections.some((c) => c.connected) && (
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+            <label className="flex items-center justify-between gap-3 cursor-pointer">
+              <span>
+                <span className="block font-medium">Auto-sync activities</span>
+                <span className="block text-xs text-gray-500">
+                  Add, update and remove calendar events automatically when you create, edit or delete activities.
+                </span>
+              </span>
+              <span className="flex items-center gap-2">
+                {savingAutoSync && (
+                  <svg className="animate-spin h-4 w-4 text-gray-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                )}
+                <input
+                  type="checkbox"
+                  checked={autoSync}
+                  onChange={handleToggleAutoSync}
+                  disabled={savingAutoSync || user.account_type !== 'pro'}
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded disabled:opacity-50"
+                />
+              </span>
+            </label>
+          </div>
+        )}
+        {calendarConnections.some((c) => c.connected) && (
+          <div className="mt-4">
+            <button
+              type="button"
+              onClick={handleReconcileCalendar}
+              disabled={reconciling || disconnecting}
+              className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {reconciling && (
+                <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              )}
+              {reconciling ? 'Checking calendar...' : 'Check calendar for changes'}
+            </button>
+            <p className="text-xs text-gray-500 mt-2">
+              Moved, edited or deleted events in your calendar are also picked up automatically every 30 minutes.
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-8 pt-8 border-t border-gray-200">
+        <h2 className="text-lg font-semibold mb-2">Calendar Feed (ICS)</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          A private link to all your activities that any calendar app (Apple Calendar, Google Calendar, Outlook) can subscribe to, read-only.
+          Anyone with the link can see your activities - rotate it if it was shared by mistake.
+        </p>
+        {user.account_type !== 'pro' ? (
+          <p className="text-sm text-gray-600">
+            Calendar feeds are only available for Pro accounts. Please{' '}
+            <Link href="/upgrade" className="underline font-semibold">
+              upgrade to Pro
+            </Link>{' '}
+            to subscribe to your activities.
+          </p>
+        ) : calendarFeed?.enabled ? (
+          <div className="space-y-3">
+            {calendarFeed.url ? (
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={calendarFeed.url}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-gray-50"
+                />
+                <button
+                  type="button"
+                  onClick={handleCopyFeedUrl}
+                  className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  {feedCopied ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Your calendar feed is enabled. The link is only shown once, when it is created - rotate it to get a new link.
+              </p>
+            )}
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={calendarFeed.exclude_black_flagged}
+                onChange={handleToggleFeedExclude}
+                disabled={!!feedAction}
+                className="h-4 w-4 text-primary-600 border-gray-300 rounded disabled:opacity-50"
+              />
+              Exclude activities with black-flagged partners
+              {feedAction === 'exclude' && (
+                <svg className="animate-spin h-4 w-4 text-gray-500" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+              )}
+            </label>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setRotateFeedConfirm(true)}
+                disabled={!!feedAction}
+                className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Rotate link
+              </button>
+              <button
+                type="button"
+                onClick={handleDisableFeed}
+                disabled={!!feedAction}
+                className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                {feedAction === 'disable' && (
+                  <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                )}
+                {feedAction === 'disable' ? 'Disabling...' : 'Disable feed'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => handleCreateFeed(false)}
+            disabled={!!feedAction || !calendarFeed}
+            className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {feedAction === 'create' && (
+              <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+            )}
+            {feedAction === 'create' ? 'Creating link...' : 'Create feed link'}
+          </button>
+        )}
+      </div>
+
+      <div className="mt-8 pt-8 border-t border-gray-200">
+        <h2 className="text-lg font-semibold mb-2">Face Matching</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          How closely a new photo has to resemble a partner&apos;s photos to be treated as the same person.
+          A strict setting warns less often about look-alikes; a lenient one catches more photos of the same person.
+        </p>
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-700">
+            Current setting: <span className="font-medium">{describeFaceMatchThreshold(user.face_match_threshold)}</span>
+          </p>
+          <Link
+            href="/test-face-recognition/calibration"
+            className="text-sm bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Calibrate
+          </Link>
+        </div>
       </div>
 
+      <ConfirmDialog
+        open={rotateFeedConfirm}
+        title="Rotate Calendar Feed Link"
+        message="The current link will stop working immediately. Calendar apps subscribed to it need to be updated with the new link."
+        confirmLabel="Rotate"
+        cancelLabel="Cancel"
+        onConfirm={() => handleCreateFeed(true)}
+        onCancel={() => {
+          if (feedAction !== 'rotate') {
+            setRotateFeedConfirm(false);
+          }
+        }}
+        loading={feedAction === 'rotate'}
+        loadingLabel="Rotating..."
+      />
+
       <ConfirmDialog
         open={disconnectConfirm.open}
         title="Disconnect Calendar"
@@ -0,0 +1,41 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { NavigationLink } from '@/lib/navigation';
+import { SearchResult } from '@/shared';
+import { renderSearchSnippet } from '@/lib/text-utils';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+}
+
+/**
+ * Ranked search results: matching partners and activities with highlighted snippets
+ */
+export default function SearchResults({ results }: SearchResultsProps) {
+  return (
+    <ul className="bg-white rounded-lg shadow divide-y divide-gray-100">
+      {results.map((result) => {
+        const name = [result.partner.first_name, result.partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+
+        return (
+          <li key={result.activity?.id || result.partner.id}>
+            <NavigationLink href={`/partners/${result.partner.id}`} className="block p-4 hover:bg-gray-50 transition-colors">
+              <div className="flex items-baseline justify-between gap-4">
+                <p className="font-medium text-gray-900">{name}</p>
+                <p className="text-xs text-gray-500 whitespace-nowrap">
+                  {result.activity
+                    ? `${result.activity.type.charAt(0).toUpperCase() + result.activity.type.slice(1)} · ${format(parseISO(result.activity.start_time), 'MMM d, yyyy')}`
+                    : 'Partner'}
+                </p>
+              </div>
+              {result.snippet && (
+                <p className="text-sm text-gray-700 mt-1 break-words">{renderSearchSnippet(result.snippet, true)}</p>
+              )}
+            </NavigationLink>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
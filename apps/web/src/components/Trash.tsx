@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { getPhotoUrl } from '@/lib/photo-utils';
+import type { TrashContents, TrashItemType } from '@/lib/trash';
+
+function getPartnerName(partner: { first_name: string | null; last_name: string | null }): string {
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+}
+
+function formatDate(date: string): string {
+  return format(parseISO(date), 'MMM d, yyyy');
+}
+
+export default function Trash() {
+  const [loading, setLoading] = useState(true);
+  const [trash, setTrash] = useState<TrashContents>({ partners: [], photos: [], activities: [] });
+  // Item being restored
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      const response = await fetch('/api/trash');
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to load trash' });
+        return;
+      }
+
+      setTrash(data.data);
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error loading trash: ' + error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  const handleRestore = async (type: TrashItemType, id: string) => {
+    if (restoringId) return;
+
+    setRestoringId(id);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/trash/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type, id }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.message || data.error || 'Failed to restore' });
+        return;
+      }
+
+      setMessage({ type: 'success', text: `${type.charAt(0).toUpperCase() + type.slice(1)} restored` });
+      await loadTrash();
+    } catch (error: any) {
+      setMessage({ type: 'error', text: 'Error restoring: ' + error.message });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const restoreButton = (type: TrashItemType, id: string) => (
+    <button
+      type="button"
+      onClick={() => handleRestore(type, id)}
+      disabled={!!restoringId}
+      className="text-sm text-primary-600 hover:text-primary-800 disabled:opacity-50 flex-shrink-0"
+    >
+      {restoringId === id ? 'Restoring...' : 'Restore'}
+    </button>
+  );
+
+  if (loading) {
+    return <div className="bg-white rounded-lg shadow p-6 text-gray-600">Loading trash...</div>;
+  }
+
+  const isEmpty = trash.partners.length === 0 && trash.photos.length === 0 && trash.activities.length === 0;
+
+  return (
+    <div className="space-y-6">
+      {message && (
+        <div
+          className={`p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {message.text}
+        </div>
+      )}
+
+      {isEmpty && <div className="bg-white rounded-lg shadow p-6 text-gray-600">The trash is empty.</div>}
+
+      {trash.partners.length > 0 && (
+        <section className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Partners</h2>
+          <ul className="divide-y divide-gray-200">
+            {trash.partners.map((partner) => (
+              <li key={partner.id} className="py-3 flex items-center gap-4">
+                {partner.profile_picture_storage_path ? (
+                  <img
+                    src={getPhotoUrl(partner.profile_picture_storage_path)}
+                    alt={getPartnerName(partner)}
+                    className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+                  />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-gray-200 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{getPartnerName(partner)}</p>
+                  <p className="text-xs text-gray-500">
+                    {partner.photo_count} photo{partner.photo_count === 1 ? '' : 's'}, {partner.activity_count}{' '}
+                    activit{partner.activity_count === 1 ? 'y' : 'ies'} · Deleted {formatDate(partner.deleted_at)} ·
+                    Permanently deleted {formatDate(partner.purge_at)}
+                  </p>
+                </div>
+                {restoreButton('partner', partner.id)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {trash.photos.length > 0 && (
+        <section className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Photos</h2>
+          <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+            {trash.photos.map((photo) => (
+              <li key={photo.id} className="border border-gray-200 rounded-lg overflow-hidden flex flex-col">
+                <img
+                  src={getPhotoUrl(photo.storage_path)}
+                  alt={photo.file_name}
+                  className="w-full h-32 object-cover bg-gray-100"
+                />
+                <div className="p-2 flex-1 flex flex-col gap-1">
+                  <p className="text-sm font-medium truncate">{photo.partner_name}</p>
+                  <p className="text-xs text-gray-500">Permanently deleted {formatDate(photo.purge_at)}</p>
+                  <div className="mt-auto">{restoreButton('photo', photo.id)}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {trash.activities.length > 0 && (
+        <section className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold mb-4">Activities</h2>
+          <ul className="divide-y divide-gray-200">
+            {trash.activities.map((activity) => (
+              <li key={activity.id} className="py-3 flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">
+                    {activity.type.charAt(0).toUpperCase() + activity.type.slice(1)} with {activity.partner_name}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {format(parseISO(activity.start_time), 'MMM d, yyyy HH:mm')}
+                    {activity.location && ` · ${activity.location}`} · Permanently deleted {formatDate(activity.purge_at)}
+                  </p>
+                </div>
+                {restoreButton('activity', activity.id)}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import Link from 'next/link';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { ACTIVE_PARTNER_DAYS, formatInsightsMonth, PartnerInsights as Insights } from '@/shared';
+import PartnerStatusBadge from '@/components/PartnerStatusBadge';
+
+interface PartnerInsightsProps {
+  insights: Insights;
+}
+
+const ACTIVITY_TYPE_COLORS: Record<Insights['activity_types'][number]['type'], string> = {
+  date: 'bg-primary-500',
+  chat: 'bg-blue-500',
+  phone: 'bg-green-500',
+  other: 'bg-gray-400',
+};
+
+const formatActivityType = (type: string) => type.charAt(0).toUpperCase() + type.slice(1);
+
+/**
+ * Dashboard panel with the user's dating insights (computed in lib/insights.ts)
+ */
+export default function PartnerInsights({ insights }: PartnerInsightsProps) {
+  const maxDates = Math.max(...insights.dates_per_month.map(({ count }) => count), 1);
+  const totalDates = insights.dates_per_month.reduce((sum, { count }) => sum + count, 0);
+  const totalActivities = insights.activity_types.reduce((sum, { count }) => sum + count, 0);
+
+  if (totalActivities === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h2 className="text-xl font-bold mb-4">Insights</h2>
+        <p className="text-sm text-gray-500">
+          Add activities to your partners to see your dates per month, favorite places and more.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-bold mb-4">Insights</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="rounded-lg bg-gray-50 p-4">
+          <p className="text-sm text-gray-600">Dates in the last {insights.dates_per_month.length} months</p>
+          <p className="text-2xl font-bold text-gray-900">{totalDates}</p>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-4">
+          <p className="text-sm text-gray-600">Average time to a first date</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {insights.average_days_to_first_date === null
+              ? '—'
+              : `${insights.average_days_to_first_date} ${insights.average_days_to_first_date === 1 ? 'day' : 'days'}`}
+          </p>
+          {insights.first_date_partner_count > 0 && (
+            <p className="text-xs text-gray-500">
+              From first contact, over {insights.first_date_partner_count}{' '}
+              {insights.first_date_partner_count === 1 ? 'partner' : 'partners'}
+            </p>
+          )}
+        </div>
+        <div className="rounded-lg bg-gray-50 p-4">
+          <p className="text-sm text-gray-600">Active partners</p>
+          <p className="text-2xl font-bold text-gray-900">{insights.active_partner_count}</p>
+          <p className="text-xs text-gray-500">With an activity in the last {ACTIVE_PARTNER_DAYS} days</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-3">Dates per month</h3>
+          <div className="flex items-end gap-1 h-40" role="img" aria-label="Dates per month">
+            {insights.dates_per_month.map(({ month, count }) => (
+              <div key={month} className="flex-1 flex flex-col items-center justify-end h-full">
+                <span className="text-xs text-gray-600 mb-1">{count > 0 ? count : ''}</span>
+                <div
+                  className="w-full rounded-t bg-primary-500"
+                  style={{ height: `${(count / maxDates) * 100}%`, minHeight: count > 0 ? '4px' : '1px' }}
+                  title={`${formatInsightsMonth(month)}: ${count}`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 mt-1">
+            {insights.dates_per_month.map(({ month }) => (
+              <span key={month} className="flex-1 text-center text-[10px] text-gray-500">
+                {formatInsightsMonth(month, { year: false })}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-3">Activity types</h3>
+          <div className="flex h-4 rounded-full overflow-hidden bg-gray-100 mb-3">
+            {insights.activity_types
+              .filter(({ count }) => count > 0)
+              .map(({ type, count }) => (
+                <div
+                  key={type}
+                  className={ACTIVITY_TYPE_COLORS[type]}
+                  style={{ width: `${(count / totalActivities) * 100}%` }}
+                  title={`${formatActivityType(type)}: ${count}`}
+                />
+              ))}
+          </div>
+          <ul className="grid grid-cols-2 gap-2 text-sm">
+            {insights.activity_types.map(({ type, count }) => (
+              <li key={type} className="flex items-center gap-2">
+                <span className={`inline-block w-3 h-3 rounded-full ${ACTIVITY_TYPE_COLORS[type]}`} />
+                <span className="text-gray-700">{formatActivityType(type)}</span>
+                <span className="text-gray-500 ml-auto">
+                  {count} ({Math.round((count / totalActivities) * 100)}%)
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-3">Most frequent locations</h3>
+          {insights.top_locations.length > 0 ? (
+            <ul className="space-y-2">
+              {insights.top_locations.map(({ location, count }) => (
+                <li key={location} className="text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="text-gray-700 truncate">{location}</span>
+                    <span className="text-gray-500 ml-2">{count}</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-gray-100">
+                    <div
+                      className="h-2 rounded-full bg-primary-400"
+                      style={{ width: `${(count / insights.top_locations[0].count) * 100}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No locations on your activities yet.</p>
+          )}
+        </div>
+
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-3">Currently active</h3>
+          {insights.active_partners.length > 0 ? (
+            <ul className="divide-y divide-gray-100">
+              {insights.active_partners.map(({ partner, last_activity_at }) => (
+                <li key={partner.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Link href={`/partners/${partner.id}`} className="font-medium text-gray-900 hover:text-primary-700 truncate">
+                      {[partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner'}
+                    </Link>
+                    <PartnerStatusBadge status={partner.status} />
+                  </div>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {formatDistanceToNow(parseISO(last_activity_at), { addSuffix: true })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No partners with an activity in the last {ACTIVE_PARTNER_DAYS} days.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from 'next/link';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { describePartnerReminder } from '@/shared';
+import type { UpcomingReminder } from '@/lib/reminders';
+
+interface UpcomingRemindersProps {
+  reminders: UpcomingReminder[];
+}
+
+/**
+ * Dashboard panel with the next partner reminders, overdue ones first
+ */
+export default function UpcomingReminders({ reminders }: UpcomingRemindersProps) {
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h2 className="text-xl font-bold mb-4">Upcoming Reminders</h2>
+      {reminders.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {reminders.map(({ reminder, partner, due_at }) => {
+            const dueAt = parseISO(due_at);
+            const overdue = dueAt <= new Date();
+            const name = [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+
+            return (
+              <li key={reminder.id} className="py-3 flex justify-between items-start gap-4">
+                <div>
+                  <Link href={`/partners/${partner.id}`} className="font-medium text-gray-900 hover:text-primary-700">
+                    {name}
+                  </Link>
+                  <p className="text-sm text-gray-600">
+                    {describePartnerReminder(reminder)}
+                    {reminder.note && ` · ${reminder.note}`}
+                  </p>
+                </div>
+                <span
+                  className={`text-sm whitespace-nowrap ${overdue ? 'text-red-600' : 'text-gray-500'}`}
+                  title={format(dueAt, 'MMM d, yyyy h:mm a')}
+                >
+                  {overdue ? 'Due now' : formatDistanceToNow(dueAt, { addSuffix: true })}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No reminders yet. Add one from a partner&apos;s page to get a nudge by email and push.
+        </p>
+      )}
+    </div>
+  );
+}
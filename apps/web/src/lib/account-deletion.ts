@@ -0,0 +1,319 @@
+/**
+ * Account Deletion
+ *
+ * Deletions are scheduled in account_deletions (migration 035) and run once
+ * the grace period is over. This module drains the queue: it cancels the
+ * Stripe subscription, revokes calendar connections, deletes the user's files
+ * from storage and deletes the auth user, which removes public.users and every
+ * row that references it through ON DELETE CASCADE. Failed deletions are
+ * retried with exponential backoff up to MAX_ACCOUNT_DELETION_ATTEMPTS times;
+ * deletions that gave up are listed by the cron until they are fixed by hand.
+ *
+ * Requires the admin client: deletions are not writable with user credentials,
+ * so every query is scoped to the deletion's user explicitly.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EXPORT_BUCKET } from '@/lib/data-export';
+import { cancelUserSubscription } from '@/lib/stripe-subscriptions';
+import { getCalendarProvider } from '@/lib/calendar/factory';
+import type { CalendarConnection } from '@/lib/calendar/types';
+import { track } from '@/lib/analytics/server';
+
+// Time between the request and the deletion, during which it can be cancelled
+export const ACCOUNT_DELETION_GRACE_PERIOD_MS = 14 * 24 * 60 * 60 * 1000;
+
+// What the user types to confirm the request
+export const ACCOUNT_DELETION_CONFIRMATION = 'DELETE';
+
+// Buckets holding files under <userId>/: partner photos and photo inbox, data exports and import archives
+const USER_FILE_BUCKETS = ['partner-photos', EXPORT_BUCKET];
+
+// Attempts before a deletion is given up (it then needs to be looked at by hand)
+export const MAX_ACCOUNT_DELETION_ATTEMPTS = 8;
+
+// Deletions stuck in "processing" longer than this (e.g. a timed-out run) are picked up again
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+// Page size when listing storage folders
+const STORAGE_LIST_LIMIT = 1000;
+
+export type AccountDeletionStatus = 'pending' | 'processing' | 'failed';
+
+export interface AccountDeletion {
+  id: string;
+  user_id: string;
+  status: AccountDeletionStatus;
+  reason: string | null;
+  scheduled_for: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AccountDeletionQueueSummary {
+  processed: number;
+  deleted: number;
+  failed: number;
+  abandoned: number; // Failed for the last time in this run
+}
+
+/**
+ * Delay before the next attempt: 1, 2, 4, ... minutes, capped at 1 hour
+ */
+export function getAccountDeletionRetryDelayMs(attempts: number): number {
+  const minutes = Math.min(Math.pow(2, Math.max(attempts - 1, 0)), 60);
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Whether the deletion failed too many times to be retried
+ */
+export function isAccountDeletionAbandoned(deletion: Pick<AccountDeletion, 'status' | 'attempts'>): boolean {
+  return deletion.status === 'failed' && deletion.attempts >= MAX_ACCOUNT_DELETION_ATTEMPTS;
+}
+
+/**
+ * Delete the accounts whose grace period is over (and retry failed deletions)
+ */
+export async function processAccountDeletionQueue(
+  supabaseAdmin: SupabaseClient,
+  options: { limit?: number } = {}
+): Promise<AccountDeletionQueueSummary> {
+  const summary: AccountDeletionQueueSummary = { processed: 0, deleted: 0, failed: 0, abandoned: 0 };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString();
+
+  const { data: deletions, error } = await supabaseAdmin
+    .from('account_deletions')
+    .select('*')
+    .lte('next_attempt_at', now.toISOString())
+    .lt('attempts', MAX_ACCOUNT_DELETION_ATTEMPTS)
+    .or(`status.in.(pending,failed),and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit || 1);
+
+  if (error) {
+    throw new Error(`Failed to fetch account deletions: ${error.message}`);
+  }
+
+  for (const deletion of (deletions || []) as AccountDeletion[]) {
+    // Claim the deletion so concurrent runs don't delete the same account twice
+    const { data: claimed } = await supabaseAdmin
+      .from('account_deletions')
+      .update({ status: 'processing' })
+      .eq('id', deletion.id)
+      .eq('status', deletion.status)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      continue;
+    }
+
+    summary.processed++;
+
+    try {
+      await deleteAccount(supabaseAdmin, deletion);
+      summary.deleted++;
+    } catch (deletionError) {
+      const message = deletionError instanceof Error ? deletionError.message : 'Unknown error';
+      console.error('[Account Deletion] Deletion failed:', { userId: deletion.user_id, error: message });
+      const attempts = await failDeletion(supabaseAdmin, deletion, message);
+      summary.failed++;
+      if (attempts >= MAX_ACCOUNT_DELETION_ATTEMPTS) {
+        console.error('[Account Deletion] Giving up on deletion:', { userId: deletion.user_id, attempts });
+        summary.abandoned++;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Deletions that failed MAX_ACCOUNT_DELETION_ATTEMPTS times, oldest first
+ */
+export async function listAbandonedAccountDeletions(
+  supabaseAdmin: SupabaseClient
+): Promise<Pick<AccountDeletion, 'id' | 'user_id' | 'attempts' | 'last_error' | 'updated_at'>[]> {
+  const { data, error } = await supabaseAdmin
+    .from('account_deletions')
+    .select('id, user_id, attempts, last_error, updated_at')
+    .eq('status', 'failed')
+    .gte('attempts', MAX_ACCOUNT_DELETION_ATTEMPTS)
+    .order('updated_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch abandoned account deletions: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+async function deleteAccount(supabaseAdmin: SupabaseClient, deletion: AccountDeletion): Promise<void> {
+  const userId = deletion.user_id;
+
+  const { data: profile } = await supabaseAdmin
+    .from('users')
+    .select('account_type, created_at')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const { count: partnerCount } = await supabaseAdmin
+    .from('partners')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  // 1. Stop billing (404/400: no subscription, or it has already ended)
+  const cancellation = await cancelUserSubscription(supabaseAdmin, userId, {
+    reason: 'Account deleted',
+    immediately: true,
+  });
+
+  if (!cancellation.ok && cancellation.status === 500) {
+    throw new Error(cancellation.error);
+  }
+
+  // 2. Revoke calendar access
+  await revokeCalendarConnections(supabaseAdmin, userId);
+
+  // 3. Delete the user's files
+  for (const bucket of USER_FILE_BUCKETS) {
+    await removeUserFiles(supabaseAdmin, bucket, userId);
+  }
+
+  // 4. Delete the auth user; public.users and all related rows cascade
+  const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(userId);
+
+  if (deleteError && deleteError.status !== 404) {
+    throw new Error(`Failed to delete user: ${deleteError.message}`);
+  }
+
+  if (deleteError) {
+    // No auth user (e.g. removed by hand): delete the profile directly
+    const { error: profileError } = await supabaseAdmin.from('users').delete().eq('id', userId);
+    if (profileError) {
+      throw new Error(`Failed to delete user profile: ${profileError.message}`);
+    }
+  }
+
+  // Track [Account Deleted] event
+  try {
+    await track('[Account Deleted]', userId, {
+      account_type: profile?.account_type || null,
+      partner_count: partnerCount || 0,
+      subscription_cancelled: cancellation.ok,
+      account_age_days: profile?.created_at
+        ? Math.floor((Date.now() - new Date(profile.created_at).getTime()) / (24 * 60 * 60 * 1000))
+        : null,
+      grace_period_days: Math.round(ACCOUNT_DELETION_GRACE_PERIOD_MS / (24 * 60 * 60 * 1000)),
+      reason: deletion.reason,
+    });
+  } catch (analyticsError) {
+    // Log error but don't fail the deletion
+    console.error('Failed to track [Account Deleted] event:', analyticsError);
+  }
+}
+
+/**
+ * Revoke the app's access to the user's calendars and forget the tokens
+ * Revocation is best effort: the tokens are deleted even if the provider call fails
+ */
+async function revokeCalendarConnections(supabaseAdmin: SupabaseClient, userId: string): Promise<void> {
+  const { data: connections, error } = await supabaseAdmin
+    .from('calendar_connections')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar connections: ${error.message}`);
+  }
+
+  for (const connection of (connections || []) as CalendarConnection[]) {
+    try {
+      await getCalendarProvider(connection.provider).revokeAccess(connection);
+    } catch (revokeError) {
+      console.error('[Account Deletion] Failed to revoke calendar access:', {
+        userId,
+        provider: connection.provider,
+        error: revokeError instanceof Error ? revokeError.message : revokeError,
+      });
+    }
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('calendar_connections')
+    .delete()
+    .eq('user_id', userId);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete calendar connections: ${deleteError.message}`);
+  }
+}
+
+/**
+ * Delete every file under <userId>/ in a bucket
+ */
+async function removeUserFiles(supabaseAdmin: SupabaseClient, bucket: string, userId: string): Promise<void> {
+  const paths = await listFiles(supabaseAdmin, bucket, userId);
+
+  for (let i = 0; i < paths.length; i += STORAGE_LIST_LIMIT) {
+    const { error } = await supabaseAdmin.storage.from(bucket).remove(paths.slice(i, i + STORAGE_LIST_LIMIT));
+    if (error) {
+      throw new Error(`Failed to delete files from ${bucket}: ${error.message}`);
+    }
+  }
+}
+
+async function listFiles(supabaseAdmin: SupabaseClient, bucket: string, folder: string): Promise<string[]> {
+  const paths: string[] = [];
+
+  for (let offset = 0; ; offset += STORAGE_LIST_LIMIT) {
+    const { data: entries, error } = await supabaseAdmin.storage
+      .from(bucket)
+      .list(folder, { limit: STORAGE_LIST_LIMIT, offset });
+
+    if (error) {
+      throw new Error(`Failed to list files in ${bucket}: ${error.message}`);
+    }
+
+    for (const entry of entries || []) {
+      const path = `${folder}/${entry.name}`;
+      // Folders are listed without an id
+      if (entry.id) {
+        paths.push(path);
+      } else {
+        paths.push(...(await listFiles(supabaseAdmin, bucket, path)));
+      }
+    }
+
+    if (!entries || entries.length < STORAGE_LIST_LIMIT) {
+      return paths;
+    }
+  }
+}
+
+/**
+ * Record a failed attempt; returns the number of attempts so far
+ */
+async function failDeletion(supabaseAdmin: SupabaseClient, deletion: AccountDeletion, message: string): Promise<number> {
+  const attempts = deletion.attempts + 1;
+
+  await supabaseAdmin
+    .from('account_deletions')
+    .update({
+      status: 'failed',
+      attempts,
+      last_error: attempts >= MAX_ACCOUNT_DELETION_ATTEMPTS
+        ? `${message} (gave up after ${attempts} attempts)`
+        : message,
+      next_attempt_at: new Date(Date.now() + getAccountDeletionRetryDelayMs(attempts)).toISOString(),
+    })
+    .eq('id', deletion.id)
+    .eq('status', 'processing');
+
+  return attempts;
+}
@@ -0,0 +1,172 @@
+/**
+ * API Keys
+ *
+ * Keys look like "dmk_" followed by 43 base64url characters. Only the SHA-256
+ * hash is stored (api_keys, migration 031), so a lost key can't be recovered,
+ * only revoked and replaced.
+ *
+ * Each key has scopes; routes name the scope they need (see ./server.ts) and
+ * reject keys without it. Account, billing, key management, import/export,
+ * notification settings and calendar connection routes name none, so they
+ * are only available to the signed-in user.
+ *
+ * Requests made with a key call Supabase as the key's user: a short-lived
+ * access token is signed with the project's JWT secret so RLS applies as for a
+ * signed-in user. The token carries the scopes the route asked for
+ * (api_key_scopes claim), and RLS only lets such tokens write the tables those
+ * scopes cover (migration 044). Uses Web Crypto, so this also runs in middleware.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export const API_KEY_PREFIX = 'dmk_';
+
+export const API_KEY_SCOPES = [
+  'partners:read',
+  'partners:write',
+  'activities:write',
+  'photos:upload',
+  'calendar:sync',
+] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  'partners:read': 'Read partners, activities and photos',
+  'partners:write': 'Create, edit, merge and delete partners, reminders, custom fields and saved views',
+  'activities:write': 'Create, edit and delete activities',
+  'photos:upload': 'Upload, edit and delete photos, manage the photo inbox and face matching',
+  'calendar:sync': 'Sync activities with the connected calendar and manage the calendar feed',
+};
+
+export const MAX_API_KEYS_PER_USER = 10;
+
+// Characters of the key kept in api_keys.key_prefix to tell keys apart
+const STORED_PREFIX_LENGTH = 12;
+
+// Lifetime of the access token minted for one API key request
+const ACCESS_TOKEN_TTL_SECONDS = 5 * 60;
+
+// last_used_at is only written when older than this, not on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Columns returned to clients (never the hash)
+export const API_KEY_COLUMNS = 'id, user_id, name, key_prefix, scopes, last_used_at, revoked_at, created_at, updated_at';
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generate a new key; only keyPrefix and keyHash are stored
+ */
+export async function generateApiKey(): Promise<{ key: string; keyPrefix: string; keyHash: string }> {
+  const key = API_KEY_PREFIX + toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  return {
+    key,
+    keyPrefix: key.slice(0, STORED_PREFIX_LENGTH),
+    keyHash: await hashApiKey(key),
+  };
+}
+
+/**
+ * Look up an active (not revoked) key
+ * Requires the admin client: key hashes are not readable with user credentials.
+ */
+export async function findApiKey(supabaseAdmin: SupabaseClient, key: string): Promise<ApiKey | null> {
+  const { data, error } = await supabaseAdmin
+    .from('api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('key_hash', await hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up API key: ${error.message}`);
+  }
+
+  return data as ApiKey | null;
+}
+
+/**
+ * Record that a key was used
+ */
+export async function touchApiKey(supabaseAdmin: SupabaseClient, apiKey: ApiKey): Promise<void> {
+  if (apiKey.last_used_at && Date.now() - new Date(apiKey.last_used_at).getTime() < LAST_USED_UPDATE_INTERVAL_MS) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiKey.id);
+
+  if (error) {
+    // Usage tracking is best effort
+    console.error('[API Keys] Error updating last_used_at:', error);
+  }
+}
+
+/**
+ * Sign a Supabase access token for a user (HS256 with SUPABASE_JWT_SECRET),
+ * limited to the given scopes
+ */
+export async function createUserAccessToken(userId: string, scopes: ApiKeyScope[]): Promise<string> {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error('Missing SUPABASE_JWT_SECRET: API keys can not be used without it');
+  }
+
+  const encoder = new TextEncoder();
+  const now = Math.floor(Date.now() / 1000);
+  const header = toBase64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = toBase64Url(
+    encoder.encode(
+      JSON.stringify({
+        sub: userId,
+        role: 'authenticated',
+        aud: 'authenticated',
+        api_key_scopes: scopes,
+        iat: now,
+        exp: now + ACCESS_TOKEN_TTL_SECONDS,
+      })
+    )
+  );
+
+  const signingKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', signingKey, encoder.encode(`${header}.${payload}`));
+
+  return `${header}.${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
@@ -0,0 +1,167 @@
+/**
+ * Request Authentication
+ *
+ * Resolves the user of an API request and a Supabase client scoped to that
+ * user (RLS applies) from, in order:
+ * 1. An API key: "Authorization: Bearer dmk_..." (scripts, see ./api-keys.ts),
+ *    only on routes that name the scopes they need and only if the key has them
+ * 2. A Supabase access token: "Authorization: Bearer <jwt>" (mobile app)
+ * 3. The session cookie (web app)
+ *
+ * Failures are returned, not thrown, so routes can answer with the shared
+ * error response before entering their own error handling.
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { ApiKeyScope, createUserAccessToken, findApiKey, isApiKey, touchApiKey } from './api-keys';
+
+export type AuthMethod = 'api_key' | 'bearer' | 'cookie';
+
+export type AuthErrorCode =
+  | 'NOT_AUTHENTICATED' // No credentials
+  | 'INVALID_TOKEN' // Expired or malformed access token
+  | 'INVALID_API_KEY' // Unknown or revoked API key
+  | 'API_KEY_NOT_ALLOWED' // API key on a route that requires a session
+  | 'INSUFFICIENT_SCOPE'; // API key without the scope the route needs
+
+export interface AuthError {
+  code: AuthErrorCode;
+  message: string;
+  status: 401 | 403;
+}
+
+export interface AuthContext {
+  user: User;
+  supabase: SupabaseClient;
+  method: AuthMethod;
+  accessToken: string | null; // Supabase access token, when the request carried one
+  apiKeyId: string | null;
+}
+
+export type AuthResult = { ok: true; auth: AuthContext } | { ok: false; error: AuthError };
+
+export interface AuthenticateOptions {
+  scope?: ApiKeyScope | ApiKeyScope[]; // Scope(s) an API key needs; without any, API keys are rejected
+  // Read the cookie session without verifying it with Supabase Auth. Only for
+  // callers that authorize nothing with the result (sign-in tracking middleware).
+  trustCookieSession?: boolean;
+}
+
+const AUTH_ERRORS: Record<AuthErrorCode, AuthError> = {
+  NOT_AUTHENTICATED: { code: 'NOT_AUTHENTICATED', message: 'Not authenticated', status: 401 },
+  INVALID_TOKEN: { code: 'INVALID_TOKEN', message: 'Invalid or expired access token', status: 401 },
+  INVALID_API_KEY: { code: 'INVALID_API_KEY', message: 'Invalid or revoked API key', status: 401 },
+  API_KEY_NOT_ALLOWED: { code: 'API_KEY_NOT_ALLOWED', message: 'This endpoint can not be used with an API key', status: 403 },
+  INSUFFICIENT_SCOPE: { code: 'INSUFFICIENT_SCOPE', message: 'The API key does not have the scope this endpoint needs', status: 403 },
+};
+
+function fail(code: AuthErrorCode): AuthResult {
+  return { ok: false, error: AUTH_ERRORS[code] };
+}
+
+function createTokenClient(accessToken: string): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    },
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+}
+
+export function getBearerToken(request: Request): string | null {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+  return authHeader.substring(7).trim() || null;
+}
+
+export async function authenticateRequest(
+  request: Request,
+  options: AuthenticateOptions = {}
+): Promise<AuthResult> {
+  const token = getBearerToken(request);
+
+  if (token && isApiKey(token)) {
+    const scopes = options.scope ? ([] as ApiKeyScope[]).concat(options.scope) : [];
+    if (scopes.length === 0) {
+      return fail('API_KEY_NOT_ALLOWED');
+    }
+    return authenticateApiKey(token, scopes);
+  }
+
+  if (token) {
+    // Mobile app sends the Supabase access token
+    const supabase = createTokenClient(token);
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+    if (error || !user) {
+      return fail('INVALID_TOKEN');
+    }
+    return { ok: true, auth: { user, supabase, method: 'bearer', accessToken: token, apiKeyId: null } };
+  }
+
+  // Web app uses cookies
+  const supabase = createSupabaseRouteHandlerClient();
+
+  if (options.trustCookieSession) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      return fail('NOT_AUTHENTICATED');
+    }
+    return {
+      ok: true,
+      auth: { user: session.user, supabase, method: 'cookie', accessToken: session.access_token || null, apiKeyId: null },
+    };
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) {
+    return fail('NOT_AUTHENTICATED');
+  }
+  return { ok: true, auth: { user, supabase, method: 'cookie', accessToken: null, apiKeyId: null } };
+}
+
+async function authenticateApiKey(key: string, scopes: ApiKeyScope[]): Promise<AuthResult> {
+  const supabaseAdmin = createSupabaseAdminClient();
+  const apiKey = await findApiKey(supabaseAdmin, key);
+  if (!apiKey) {
+    return fail('INVALID_API_KEY');
+  }
+
+  await touchApiKey(supabaseAdmin, apiKey);
+
+  if (!scopes.every((scope) => apiKey.scopes.includes(scope))) {
+    return fail('INSUFFICIENT_SCOPE');
+  }
+
+  const { data: { user }, error } = await supabaseAdmin.auth.admin.getUserById(apiKey.user_id);
+  if (error || !user) {
+    return fail('INVALID_API_KEY');
+  }
+
+  const accessToken = await createUserAccessToken(user.id, scopes);
+  return {
+    ok: true,
+    auth: { user, supabase: createTokenClient(accessToken), method: 'api_key', accessToken, apiKeyId: apiKey.id },
+  };
+}
+
+/**
+ * Response for a failed authentication: { error: 'Unauthorized', code, message }
+ */
+export function authErrorResponse(error: AuthError): NextResponse {
+  return NextResponse.json(
+    { error: error.status === 403 ? 'Forbidden' : 'Unauthorized', code: error.code, message: error.message },
+    { status: error.status }
+  );
+}
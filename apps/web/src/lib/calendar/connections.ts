@@ -0,0 +1,73 @@
+/**
+ * Calendar Connection Lookup
+ * Resolves which connected calendar an activity should be synced with
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import type { CalendarConnection, CalendarProviderType } from './types';
+
+// Order used when a user has more than one calendar connected
+export const CALENDAR_PROVIDER_PRIORITY: CalendarProviderType[] = ['google', 'outlook'];
+
+export const CALENDAR_PROVIDER_LABELS: Record<CalendarProviderType, string> = {
+  google: 'Google Calendar',
+  outlook: 'Outlook Calendar',
+};
+
+/**
+ * Get the user's calendar connection.
+ * If a provider is given only that connection is returned, otherwise the
+ * first connected provider by CALENDAR_PROVIDER_PRIORITY.
+ */
+export async function getUserCalendarConnection(
+  supabase: SupabaseClient,
+  userId: string,
+  provider?: CalendarProviderType | null
+): Promise<CalendarConnection | null> {
+  const { data: connections, error } = await supabase
+    .from('calendar_connections')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error || !connections || connections.length === 0) {
+    return null;
+  }
+
+  if (provider) {
+    return (connections as CalendarConnection[]).find((c) => c.provider === provider) || null;
+  }
+
+  for (const candidate of CALENDAR_PROVIDER_PRIORITY) {
+    const connection = (connections as CalendarConnection[]).find((c) => c.provider === candidate);
+    if (connection) {
+      return connection;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Save the tokens of a connection after a provider refreshed them.
+ * Microsoft rotates the refresh token on every refresh, so the next request
+ * must start from the new one. Uses the admin client: tokens are refreshed
+ * wherever the connection is used, including cron runs and API key requests.
+ */
+export async function saveCalendarConnectionTokens(connection: CalendarConnection): Promise<void> {
+  const supabaseAdmin = createSupabaseAdminClient();
+
+  const { error } = await supabaseAdmin
+    .from('calendar_connections')
+    .update({
+      access_token: connection.access_token,
+      refresh_token: connection.refresh_token,
+      expires_at: connection.expires_at,
+    })
+    .eq('id', connection.id)
+    .eq('user_id', connection.user_id);
+
+  if (error) {
+    throw new Error(`Failed to save calendar tokens: ${error.message}`);
+  }
+}
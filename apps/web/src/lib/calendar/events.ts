@@ -0,0 +1,64 @@
+/**
+ * Calendar Event Mapping
+ * Converts partner activities into provider-agnostic calendar events
+ */
+
+import type { PartnerActivity, Partner } from '@/shared';
+import type { CalendarEvent } from './types';
+
+// Default event length when an activity has no end time
+export const DEFAULT_EVENT_DURATION_MS = 30 * 60 * 1000;
+
+export const DEFAULT_USER_TIMEZONE = 'Asia/Jerusalem';
+
+/**
+ * Format event title, e.g. "Date with Dana Cohen"
+ */
+export function formatActivityEventTitle(
+  activity: Pick<PartnerActivity, 'type'>,
+  partner: Pick<Partner, 'first_name' | 'last_name'>
+): string {
+  // Format activity type for display
+  const activityTypeLabel = activity.type.charAt(0).toUpperCase() + activity.type.slice(1);
+
+  // Format partner name
+  const partnerName = [partner.first_name, partner.last_name]
+    .filter(Boolean)
+    .join(' ')
+    .trim();
+
+  return partnerName
+    ? `${activityTypeLabel} with ${partnerName}`
+    : activityTypeLabel;
+}
+
+/**
+ * Activity end time, falling back to the default duration
+ */
+export function getActivityEndTime(
+  activity: Pick<PartnerActivity, 'start_time' | 'end_time'>
+): string {
+  if (activity.end_time) {
+    return activity.end_time;
+  }
+  const startTime = new Date(activity.start_time);
+  return new Date(startTime.getTime() + DEFAULT_EVENT_DURATION_MS).toISOString();
+}
+
+/**
+ * Build the calendar event pushed for an activity
+ */
+export function buildActivityCalendarEvent(
+  activity: Pick<PartnerActivity, 'type' | 'start_time' | 'end_time' | 'location' | 'description'>,
+  partner: Pick<Partner, 'first_name' | 'last_name'>,
+  timezone: string | null | undefined
+): CalendarEvent {
+  return {
+    title: formatActivityEventTitle(activity, partner),
+    description: activity.description || undefined,
+    start_time: activity.start_time,
+    end_time: getActivityEndTime(activity),
+    location: activity.location || undefined,
+    timezone: timezone || DEFAULT_USER_TIMEZONE,
+  };
+}
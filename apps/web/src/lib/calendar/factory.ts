@@ -5,10 +5,11 @@
 
 import type { CalendarProvider, CalendarProviderType } from './types';
 import { googleCalendarProvider } from './providers/google';
+import { outlookCalendarProvider } from './providers/outlook';
 
 const providers: Partial<Record<CalendarProviderType, CalendarProvider>> = {
   google: googleCalendarProvider,
-  // outlook: outlookCalendarProvider, // TODO: Implement when adding Outlook support
+  outlook: outlookCalendarProvider,
 };
 
 export function getCalendarProvider(
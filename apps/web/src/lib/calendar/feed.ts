@@ -0,0 +1,100 @@
+/**
+ * Private ICS Calendar Feed
+ *
+ * Each user can enable a read-only subscription URL containing a random token.
+ * Calendar apps poll the URL without OAuth, so the token is the only credential:
+ * only its SHA-256 is stored (users.calendar_feed_token_hash), the URL is shown
+ * once when it is created, and rotating it invalidates the old URL.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildActivitiesIcsCalendar, IcsActivity } from './ics';
+
+// Feed URLs look like /api/calendar/feed/<token>.ics
+export const CALENDAR_FEED_PATH = '/api/calendar/feed';
+
+// Activities loaded per query page, at most the PostgREST row limit
+const ACTIVITY_PAGE_SIZE = 1000;
+
+/**
+ * Generate a new unguessable feed token (256 bits, URL-safe)
+ */
+export function generateCalendarFeedToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function hashCalendarFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getCalendarFeedUrl(origin: string, token: string): string {
+  return `${origin}${CALENDAR_FEED_PATH}/${token}.ics`;
+}
+
+/**
+ * Build the ICS feed of the user owning the token
+ *
+ * Returns null if no user has this token or the user is no longer Pro.
+ * Requires the admin client: feed requests carry no user session.
+ */
+export async function buildCalendarFeedForToken(
+  supabaseAdmin: SupabaseClient,
+  token: string
+): Promise<string | null> {
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('id, account_type, timezone, calendar_feed_exclude_black_flagged')
+    .eq('calendar_feed_token_hash', hashCalendarFeedToken(token))
+    .maybeSingle();
+
+  if (!user || user.account_type !== 'pro') {
+    return null;
+  }
+
+  let partnersQuery = supabaseAdmin
+    .from('partners')
+    .select('id, first_name, last_name')
+    .eq('user_id', user.id)
+    .is('deleted_at', null);
+
+  if (user.calendar_feed_exclude_black_flagged) {
+    partnersQuery = partnersQuery.eq('black_flag', false);
+  }
+
+  const { data: partners, error: partnersError } = await partnersQuery;
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  const activities: IcsActivity[] = [];
+
+  if (partners && partners.length > 0) {
+    for (let from = 0; ; from += ACTIVITY_PAGE_SIZE) {
+      const { data, error: activitiesError } = await supabaseAdmin
+        .from('partner_notes')
+        .select('id, partner_id, type, start_time, end_time, location, description, created_at, updated_at')
+        .in('partner_id', partners.map((p) => p.id))
+        .is('deleted_at', null)
+        .order('start_time', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + ACTIVITY_PAGE_SIZE - 1);
+
+      if (activitiesError) {
+        throw new Error(`Failed to fetch activities: ${activitiesError.message}`);
+      }
+
+      activities.push(...(data || []));
+      if (!data || data.length < ACTIVITY_PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  return buildActivitiesIcsCalendar({
+    activities,
+    partners: new Map((partners || []).map((p) => [p.id, p])),
+    timezone: user.timezone,
+  });
+}
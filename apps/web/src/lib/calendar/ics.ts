@@ -0,0 +1,365 @@
+/**
+ * iCalendar (RFC 5545) Serialization and Parsing
+ * Used for the private ICS subscription feed of a user's activities and for
+ * importing activities from calendar exports
+ */
+
+import type { Partner, PartnerActivity } from '@/shared';
+import { formatActivityEventTitle, getActivityEndTime, DEFAULT_USER_TIMEZONE } from './events';
+
+// Product identifier written to every calendar
+export const ICS_PRODUCT_ID = '-//Dating Assistant//Activities//EN';
+
+// Domain part of event UIDs, keeps UIDs stable across feed refreshes
+const ICS_UID_DOMAIN = 'dating-assistant.app';
+
+// Content lines longer than this many octets must be folded (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75;
+
+export type IcsActivity = Pick<
+  PartnerActivity,
+  'id' | 'partner_id' | 'type' | 'start_time' | 'end_time' | 'location' | 'description' | 'created_at' | 'updated_at'
+>;
+
+export interface ParsedIcsEvent {
+  uid: string | null;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start_time: string; // ISO 8601, UTC
+  end_time: string | null;
+  all_day: boolean;
+}
+
+export interface BuildIcsCalendarOptions {
+  activities: IcsActivity[];
+  partners: Map<string, Pick<Partner, 'first_name' | 'last_name'>>;
+  timezone?: string | null;
+  calendarName?: string;
+}
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continuation lines
+ * starting with a single space. Multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Format an ISO 8601 instant as a UTC DATE-TIME, e.g. 20240601T170000Z
+ */
+export function formatIcsDateTime(isoString: string): string {
+  return new Date(isoString).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build a VCALENDAR containing one VEVENT per activity.
+ *
+ * Event times are written in UTC, which every client converts correctly;
+ * the user's timezone is advertised with X-WR-TIMEZONE so subscribing
+ * calendar apps display the feed in it.
+ */
+export function buildActivitiesIcsCalendar({
+  activities,
+  partners,
+  timezone,
+  calendarName = 'Dating Activities',
+}: BuildIcsCalendarOptions): string {
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    `X-WR-TIMEZONE:${timezone || DEFAULT_USER_TIMEZONE}`,
+  ];
+
+  for (const activity of activities) {
+    const partner = partners.get(activity.partner_id) || { first_name: null, last_name: null };
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${activity.id}@${ICS_UID_DOMAIN}`,
+      `DTSTAMP:${formatIcsDateTime(activity.updated_at || activity.created_at)}`,
+      `DTSTART:${formatIcsDateTime(activity.start_time)}`,
+      `DTEND:${formatIcsDateTime(getActivityEndTime(activity))}`,
+      `SUMMARY:${escapeIcsText(formatActivityEventTitle(activity, partner))}`,
+      `CATEGORIES:${escapeIcsText(activity.type)}`
+    );
+
+    if (activity.location) {
+      lines.push(`LOCATION:${escapeIcsText(activity.location)}`);
+    }
+    if (activity.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(activity.description)}`);
+    }
+    if (activity.updated_at) {
+      lines.push(`LAST-MODIFIED:${formatIcsDateTime(activity.updated_at)}`);
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+interface IcsContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Reverse escapeIcsText
+ */
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+function parseContentLine(line: string): IcsContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+
+  if (colonIndex === -1) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value || 0);
+
+  const wallClockAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in an IANA timezone to a UTC instant
+ * (throws RangeError for unknown timezones)
+ */
+function zonedTimeToUtc(wallClockAsUtc: number, timeZone: string): Date {
+  const offset = getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+  const guess = wallClockAsUtc - offset;
+  // Re-check around DST transitions, where the offset at the result differs
+  const correctedOffset = getTimeZoneOffsetMs(new Date(guess), timeZone);
+  return new Date(correctedOffset === offset ? guess : wallClockAsUtc - correctedOffset);
+}
+
+/**
+ * Parse a DATE or DATE-TIME property value to a UTC instant.
+ * Floating times, all-day dates and unknown TZIDs (e.g. Windows zone names
+ * in Outlook exports) are interpreted in the fallback timezone.
+ */
+function parseIcsDate(
+  property: IcsContentLine,
+  fallbackTimezone: string
+): { date: Date; allDay: boolean } | null {
+  const match = property.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const allDay = hour === undefined;
+  const wallClockAsUtc = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour || 0),
+    Number(minute || 0),
+    Number(second || 0)
+  );
+
+  if (utc) {
+    return { date: new Date(wallClockAsUtc), allDay };
+  }
+
+  const timeZone = (!allDay && property.params.TZID) || fallbackTimezone;
+  try {
+    return { date: zonedTimeToUtc(wallClockAsUtc, timeZone), allDay };
+  } catch {
+    return { date: zonedTimeToUtc(wallClockAsUtc, fallbackTimezone), allDay };
+  }
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D, P2W) to milliseconds
+ */
+function parseIcsDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    (((Number(weeks || 0) * 7 + Number(days || 0)) * 24 + Number(hours || 0)) * 60 + Number(minutes || 0)) * 60000 +
+    Number(seconds || 0) * 1000;
+
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar file.
+ *
+ * Cancelled events and events without a start are skipped. Recurring events
+ * are imported as their first occurrence only.
+ */
+export function parseIcsEvents(
+  ics: string,
+  fallbackTimezone: string = DEFAULT_USER_TIMEZONE
+): ParsedIcsEvent[] {
+  // Unfold continuation lines (CRLF or LF followed by a space or tab)
+  const lines = ics.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const events: ParsedIcsEvent[] = [];
+  // Components nested in the current VEVENT (e.g. VALARM) whose properties are ignored
+  let nestedDepth = 0;
+  let current: Map<string, IcsContentLine> | null = null;
+
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine);
+    if (!line) {
+      continue;
+    }
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) {
+        current = new Map();
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+
+    if (line.name === 'END' && current) {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+        continue;
+      }
+      if (line.value.toUpperCase() === 'VEVENT') {
+        const event = toParsedEvent(current, fallbackTimezone);
+        if (event) {
+          events.push(event);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    // Keep the first occurrence of each property
+    if (current && nestedDepth === 0 && !current.has(line.name)) {
+      current.set(line.name, line);
+    }
+  }
+
+  return events;
+}
+
+function toParsedEvent(
+  properties: Map<string, IcsContentLine>,
+  fallbackTimezone: string
+): ParsedIcsEvent | null {
+  if (properties.get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED') {
+    return null;
+  }
+
+  const dtstart = properties.get('DTSTART');
+  const start = dtstart ? parseIcsDate(dtstart, fallbackTimezone) : null;
+  if (!start) {
+    return null;
+  }
+
+  let end: Date | null = null;
+  const dtend = properties.get('DTEND');
+  const duration = properties.get('DURATION');
+  if (dtend) {
+    end = parseIcsDate(dtend, fallbackTimezone)?.date || null;
+  } else if (duration) {
+    const durationMs = parseIcsDuration(duration.value);
+    end = durationMs !== null ? new Date(start.date.getTime() + durationMs) : null;
+  }
+
+  const text = (name: string) => {
+    const value = properties.get(name)?.value;
+    return value ? unescapeIcsText(value).trim() || null : null;
+  };
+
+  return {
+    uid: text('UID'),
+    summary: text('SUMMARY') || '',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    start_time: start.date.toISOString(),
+    end_time: end && end.getTime() > start.date.getTime() ? end.toISOString() : null,
+    all_day: start.allDay,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * ICS Activity Import
+ *
+ * Turns parsed calendar events into activity proposals the user reviews
+ * before anything is inserted: each event is matched to an existing partner
+ * by the names in its summary, given an activity type, and flagged as a
+ * duplicate when an activity already starts at the same time.
+ */
+
+import type { Partner, PartnerActivityType } from '@/shared';
+import type { ParsedIcsEvent } from './ics';
+
+export interface ActivityImportProposal {
+  import_uid: string | null;
+  summary: string;
+  partner_id: string | null;
+  partner_candidates: string[]; // Partners matching equally well when ambiguous
+  type: PartnerActivityType;
+  start_time: string;
+  end_time: string | null;
+  location: string | null;
+  description: string | null;
+  duplicate: boolean; // An activity already starts at this time (or appears earlier in the file)
+}
+
+export interface ExistingActivityKey {
+  start_time: string;
+  import_uid?: string | null;
+}
+
+type ImportPartner = Pick<Partner, 'id' | 'first_name' | 'last_name'>;
+
+// Keywords in the event summary mapped to activity types, checked in order
+const ACTIVITY_TYPE_KEYWORDS: Array<{ type: PartnerActivityType; keywords: string[] }> = [
+  { type: 'phone', keywords: ['phone', 'call', 'facetime'] },
+  { type: 'chat', keywords: ['chat', 'message', 'texting', 'whatsapp'] },
+  { type: 'date', keywords: ['date', 'dinner', 'drinks', 'coffee', 'lunch', 'brunch'] },
+];
+
+function tokenize(value: string): string[] {
+  return value.toLocaleLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+}
+
+/**
+ * Minute-precision key, so seconds/milliseconds differences between a calendar
+ * export and the stored activity don't defeat deduplication
+ */
+export function getStartTimeKey(startTime: string): string {
+  return new Date(startTime).toISOString().slice(0, 16);
+}
+
+/**
+ * Pick the activity type from keywords in the event summary (defaults to date)
+ */
+export function detectActivityType(summary: string): PartnerActivityType {
+  const tokens = new Set(tokenize(summary));
+  for (const { type, keywords } of ACTIVITY_TYPE_KEYWORDS) {
+    if (keywords.some((keyword) => tokens.has(keyword))) {
+      return type;
+    }
+  }
+  return 'date';
+}
+
+/**
+ * Match an event summary to partners by name.
+ * A full name ("Dana Cohen") beats a first name alone ("Dana"); if several
+ * partners match equally well the result is ambiguous and left unassigned.
+ */
+export function matchPartnerByName(
+  summary: string,
+  partners: ImportPartner[]
+): { partner_id: string | null; candidates: string[] } {
+  const tokens = tokenize(summary);
+  const text = ` ${tokens.join(' ')} `;
+  let bestScore = 0;
+  let best: string[] = [];
+
+  for (const partner of partners) {
+    const firstName = tokenize(partner.first_name || '').join(' ');
+    const lastName = tokenize(partner.last_name || '').join(' ');
+    if (!firstName) {
+      continue;
+    }
+
+    let score = 0;
+    if (lastName && text.includes(` ${firstName} ${lastName} `)) {
+      score = 2;
+    } else if (text.includes(` ${firstName} `)) {
+      score = 1;
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = [partner.id];
+    } else if (score > 0 && score === bestScore) {
+      best.push(partner.id);
+    }
+  }
+
+  return {
+    partner_id: best.length === 1 ? best[0] : null,
+    candidates: best.length > 1 ? best : [],
+  };
+}
+
+/**
+ * Build import proposals for parsed events
+ */
+export function buildImportProposals(
+  events: ParsedIcsEvent[],
+  partners: ImportPartner[],
+  existingActivities: ExistingActivityKey[]
+): ActivityImportProposal[] {
+  const seenStartTimes = new Set(existingActivities.map((a) => getStartTimeKey(a.start_time)));
+  const seenUids = new Set(
+    existingActivities.map((a) => a.import_uid).filter((uid): uid is string => !!uid)
+  );
+
+  const sorted = [...events].sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+  return sorted.map((event) => {
+    const match = matchPartnerByName(event.summary, partners);
+    const startKey = getStartTimeKey(event.start_time);
+    const duplicate = seenStartTimes.has(startKey) || (!!event.uid && seenUids.has(event.uid));
+
+    seenStartTimes.add(startKey);
+    if (event.uid) {
+      seenUids.add(event.uid);
+    }
+
+    return {
+      import_uid: event.uid,
+      summary: event.summary,
+      partner_id: match.partner_id,
+      partner_candidates: match.candidates,
+      type: detectActivityType(event.summary),
+      start_time: event.start_time,
+      end_time: event.end_time,
+      location: event.location,
+      description: event.description,
+      duplicate,
+    };
+  });
+}
@@ -8,6 +8,7 @@ import type {
   CalendarConnection,
   CalendarEvent,
   CalendarEventCreateResult,
+  RemoteCalendarEvent,
 } from '../types';
 
 export class GoogleCalendarProvider implements CalendarProvider {
@@ -122,6 +123,53 @@ export class GoogleCalendarProvider implements CalendarProvider {
     });
   }
 
+  async getEvent(
+    connection: CalendarConnection,
+    eventId: string
+  ): Promise<RemoteCalendarEvent | null> {
+    const validConnection = await this.ensureValidToken(connection);
+    const auth = this.getOAuth2Client(validConnection);
+    const calendar = google.calendar({ version: 'v3', auth });
+
+    try {
+      const response = await calendar.events.get({
+        calendarId: validConnection.calendar_id || 'primary',
+        eventId: eventId,
+      });
+
+      const data = response.data;
+      if (!data.id || data.status === 'cancelled') {
+        return null;
+      }
+
+      // All-day events only carry a date
+      const startTime = data.start?.dateTime || data.start?.date;
+      const endTime = data.end?.dateTime || data.end?.date || startTime;
+      if (!startTime || !endTime) {
+        return null;
+      }
+
+      return {
+        id: data.id,
+        title: data.summary || '',
+        description: data.description || null,
+        start_time: new Date(startTime).toISOString(),
+        end_time: new Date(endTime).toISOString(),
+        location: data.location || null,
+        updated_at: data.updated
+          ? new Date(data.updated).toISOString()
+          : new Date().toISOString(),
+      };
+    } catch (error: any) {
+      // Deleted events return 404 (or 410 once purged)
+      const status = error?.response?.status ?? error?.code;
+      if (status === 404 || status === 410 || status === '404' || status === '410') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
   async deleteEvent(
     connection: CalendarConnection,
     eventId: string
@@ -168,6 +216,13 @@ export class GoogleCalendarProvider implements CalendarProvider {
       calendar_id: connection.calendar_id,
     };
   }
+
+  async revokeAccess(connection: CalendarConnection): Promise<void> {
+    const oauth2Client = this.getOAuth2Client(connection);
+
+    // Revoking the refresh token also invalidates the access tokens issued from it
+    await oauth2Client.revokeToken(connection.refresh_token || connection.access_token);
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,366 @@
+/**
+ * Outlook / Microsoft 365 Calendar Provider Implementation
+ *
+ * Talks to Microsoft Graph over plain HTTP. The auth and Graph base URLs are
+ * read from the environment on every call so the provider can be pointed at a
+ * local stub server (see tests/outlook-calendar.test.ts). Microsoft rotates
+ * the refresh token on every refresh; refreshed tokens are saved to
+ * calendar_connections before the request continues.
+ */
+
+import type {
+  CalendarProvider,
+  CalendarConnection,
+  CalendarEvent,
+  CalendarEventCreateResult,
+  RemoteCalendarEvent,
+} from '../types';
+import { saveCalendarConnectionTokens } from '../connections';
+
+// Delegated permissions requested during OAuth (offline_access → refresh token)
+export const OUTLOOK_CALENDAR_SCOPES = [
+  'offline_access',
+  'User.Read',
+  'Calendars.ReadWrite',
+];
+
+interface OutlookConfig {
+  clientId: string | undefined;
+  clientSecret: string | undefined;
+  redirectUri: string | undefined;
+  authBaseUrl: string;
+  graphBaseUrl: string;
+}
+
+interface OutlookTokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+function getOutlookConfig(): OutlookConfig {
+  const tenant = process.env.MICROSOFT_TENANT_ID || 'common';
+  const authBase = (process.env.MICROSOFT_AUTH_BASE_URL || 'https://login.microsoftonline.com').replace(/\/$/, '');
+  const graphBase = (process.env.MICROSOFT_GRAPH_BASE_URL || 'https://graph.microsoft.com/v1.0').replace(/\/$/, '');
+
+  return {
+    clientId: process.env.MICROSOFT_CLIENT_ID,
+    clientSecret: process.env.MICROSOFT_CLIENT_SECRET,
+    redirectUri: process.env.OUTLOOK_CALENDAR_REDIRECT_URI,
+    authBaseUrl: `${authBase}/${tenant}/oauth2/v2.0`,
+    graphBaseUrl: graphBase,
+  };
+}
+
+/**
+ * Convert an ISO 8601 instant to the wall-clock time in the given timezone.
+ * Graph interprets `dateTime` as local time in `timeZone`, so sending a UTC
+ * string with an IANA zone would shift the event.
+ */
+export function toGraphDateTime(isoString: string, timeZone: string): string {
+  const date = new Date(isoString);
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value || '00';
+
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}:${get('second')}`;
+}
+
+export class OutlookCalendarProvider implements CalendarProvider {
+  constructor(
+    private saveTokens: (connection: CalendarConnection) => Promise<void> = saveCalendarConnectionTokens
+  ) {}
+
+  /**
+   * Build the Microsoft identity platform authorization URL
+   */
+  getAuthorizationUrl(state: string): string {
+    const config = getOutlookConfig();
+    const params = new URLSearchParams({
+      client_id: config.clientId || '',
+      response_type: 'code',
+      redirect_uri: config.redirectUri || '',
+      response_mode: 'query',
+      scope: OUTLOOK_CALENDAR_SCOPES.join(' '),
+      prompt: 'consent', // Force consent screen to get refresh token
+      state,
+    });
+
+    return `${config.authBaseUrl}/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Exchange an authorization code for tokens
+   */
+  async exchangeCodeForTokens(
+    code: string
+  ): Promise<Omit<CalendarConnection, 'id' | 'user_id' | 'provider' | 'created_at' | 'updated_at'>> {
+    const config = getOutlookConfig();
+    const tokens = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.redirectUri || '',
+    });
+
+    return {
+      access_token: tokens.access_token!,
+      refresh_token: tokens.refresh_token || null,
+      expires_at: tokens.expires_in
+        ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+        : null,
+      calendar_id: 'primary',
+    };
+  }
+
+  /**
+   * POST to the token endpoint with client credentials
+   */
+  private async requestToken(params: Record<string, string>): Promise<OutlookTokenResponse> {
+    const config = getOutlookConfig();
+    const response = await fetch(`${config.authBaseUrl}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: config.clientId || '',
+        client_secret: config.clientSecret || '',
+        scope: OUTLOOK_CALENDAR_SCOPES.join(' '),
+        ...params,
+      }).toString(),
+    });
+
+    const data: OutlookTokenResponse = await response.json().catch(() => ({}));
+
+    if (!response.ok || !data.access_token) {
+      throw new Error(
+        data.error_description || data.error || 'Failed to get access token'
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Check if token is expired and refresh if needed
+   */
+  private async ensureValidToken(
+    connection: CalendarConnection
+  ): Promise<CalendarConnection> {
+    if (!connection.expires_at) {
+      return connection; // No expiration set, assume valid
+    }
+
+    const expiresAt = new Date(connection.expires_at);
+    const now = new Date();
+    const buffer = 5 * 60 * 1000; // 5 minutes buffer
+
+    if (expiresAt.getTime() - now.getTime() < buffer) {
+      // Token expired or about to expire, refresh it
+      const refreshed = { ...connection, ...(await this.refreshToken(connection)) };
+
+      // The old refresh token may stop working once a new one was issued
+      try {
+        await this.saveTokens(refreshed);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[Outlook Calendar] Failed to save refreshed tokens:', { connectionId: connection.id, error: message });
+      }
+
+      return refreshed;
+    }
+
+    return connection;
+  }
+
+  /**
+   * Events collection for the connection's calendar
+   */
+  private getEventsUrl(connection: CalendarConnection, eventId?: string): string {
+    const { graphBaseUrl } = getOutlookConfig();
+    const base = !connection.calendar_id || connection.calendar_id === 'primary'
+      ? `${graphBaseUrl}/me/events`
+      : `${graphBaseUrl}/me/calendars/${encodeURIComponent(connection.calendar_id)}/events`;
+
+    return eventId ? `${base}/${encodeURIComponent(eventId)}` : base;
+  }
+
+  /**
+   * Perform an authenticated Graph request and surface Graph error messages
+   */
+  private async graphRequest(
+    connection: CalendarConnection,
+    url: string,
+    init: { method: string; body?: unknown; headers?: Record<string, string> }
+  ): Promise<any> {
+    const response = await fetch(url, {
+      method: init.method,
+      headers: {
+        Authorization: `Bearer ${connection.access_token}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+
+    if (response.status === 204) {
+      return null;
+    }
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const message = data?.error?.message || `Microsoft Graph request failed with status ${response.status}`;
+      const error = new Error(message) as Error & { status?: number };
+      error.status = response.status;
+      throw error;
+    }
+
+    return data;
+  }
+
+  private toGraphEvent(event: CalendarEvent) {
+    return {
+      subject: event.title,
+      body: {
+        contentType: 'text',
+        content: event.description || '',
+      },
+      start: {
+        dateTime: toGraphDateTime(event.start_time, event.timezone),
+        timeZone: event.timezone,
+      },
+      end: {
+        dateTime: toGraphDateTime(event.end_time, event.timezone),
+        timeZone: event.timezone,
+      },
+      location: event.location ? { displayName: event.location } : undefined,
+    };
+  }
+
+  async createEvent(
+    connection: CalendarConnection,
+    event: CalendarEvent
+  ): Promise<CalendarEventCreateResult> {
+    const validConnection = await this.ensureValidToken(connection);
+
+    const data = await this.graphRequest(validConnection, this.getEventsUrl(validConnection), {
+      method: 'POST',
+      body: this.toGraphEvent(event),
+    });
+
+    if (!data?.id) {
+      throw new Error('Failed to create calendar event: No event ID returned');
+    }
+
+    return {
+      event_id: data.id,
+      provider: 'outlook',
+    };
+  }
+
+  async updateEvent(
+    connection: CalendarConnection,
+    eventId: string,
+    event: CalendarEvent
+  ): Promise<void> {
+    const validConnection = await this.ensureValidToken(connection);
+
+    await this.graphRequest(validConnection, this.getEventsUrl(validConnection, eventId), {
+      method: 'PATCH',
+      body: this.toGraphEvent(event),
+    });
+  }
+
+  async getEvent(
+    connection: CalendarConnection,
+    eventId: string
+  ): Promise<RemoteCalendarEvent | null> {
+    const validConnection = await this.ensureValidToken(connection);
+
+    try {
+      const data = await this.graphRequest(validConnection, this.getEventsUrl(validConnection, eventId), {
+        method: 'GET',
+        // Return start/end in UTC and a plain-text body so they can be compared with stored activities
+        headers: { Prefer: 'outlook.timezone="UTC", outlook.body-content-type="text"' },
+      });
+
+      if (!data?.id || data.isCancelled) {
+        return null;
+      }
+
+      // Graph returns UTC wall-clock times without an offset
+      const toIso = (value: string) => new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value}Z`).toISOString();
+
+      return {
+        id: data.id,
+        title: data.subject || '',
+        description: data.body?.content || data.bodyPreview || null,
+        start_time: toIso(data.start.dateTime),
+        end_time: toIso(data.end.dateTime),
+        location: data.location?.displayName || null,
+        updated_at: data.lastModifiedDateTime
+          ? new Date(data.lastModifiedDateTime).toISOString()
+          : new Date().toISOString(),
+      };
+    } catch (error: any) {
+      if (error?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteEvent(
+    connection: CalendarConnection,
+    eventId: string
+  ): Promise<void> {
+    const validConnection = await this.ensureValidToken(connection);
+
+    await this.graphRequest(validConnection, this.getEventsUrl(validConnection, eventId), {
+      method: 'DELETE',
+    });
+  }
+
+  async refreshToken(
+    connection: CalendarConnection
+  ): Promise<Omit<CalendarConnection, 'id' | 'user_id' | 'provider' | 'created_at' | 'updated_at'>> {
+    if (!connection.refresh_token) {
+      throw new Error('No refresh token available');
+    }
+
+    const tokens = await this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: connection.refresh_token,
+    });
+
+    return {
+      access_token: tokens.access_token!,
+      // Microsoft rotates refresh tokens; keep the old one if none was returned
+      refresh_token: tokens.refresh_token || connection.refresh_token,
+      expires_at: tokens.expires_in
+        ? new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+        : null,
+      calendar_id: connection.calendar_id,
+    };
+  }
+
+  async revokeAccess(): Promise<void> {
+    // The Microsoft identity platform has no endpoint to revoke the tokens of a
+    // single app; they stop working once deleted here and the access token expires
+    // (the user can remove the app's consent at https://myapps.microsoft.com)
+  }
+}
+
+// Export singleton instance
+export const outlookCalendarProvider = new OutlookCalendarProvider();
@@ -0,0 +1,313 @@
+/**
+ * Two-way Calendar Reconciliation
+ *
+ * Pulls the current state of every synced activity's calendar event and
+ * decides, per activity, whether the calendar or the app holds the newer
+ * version. A hash of the synced fields is stored on each push/pull
+ * (partner_notes.calendar_sync_hash) so we can tell which side changed since
+ * the last sync without relying on clocks.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PartnerActivity } from '@/shared';
+import { getCalendarProvider } from './factory';
+import { getUserCalendarConnection } from './connections';
+import { buildActivityCalendarEvent, getActivityEndTime } from './events';
+import type { CalendarConnection, CalendarProviderType, RemoteCalendarEvent } from './types';
+
+/**
+ * How to resolve an activity that changed both in the app and in the calendar
+ * - latest_wins: keep whichever side was modified most recently (default)
+ * - remote_wins: always take the calendar version
+ * - local_wins: always push the app version
+ */
+export type ConflictStrategy = 'latest_wins' | 'remote_wins' | 'local_wins';
+
+export type ReconcileAction = 'none' | 'pull' | 'push' | 'remote_deleted';
+
+export interface ReconcileDecision {
+  action: ReconcileAction;
+  conflict: boolean; // Both sides changed since the last sync
+}
+
+export interface ReconcileSummary {
+  checked: number;
+  unchanged: number;
+  pulled: number;
+  pushed: number;
+  deleted: number;
+  conflicts: number;
+  skipped: number; // Calendar for the activity's provider is no longer connected
+  errors: Array<{ activity_id: string; error: string }>;
+}
+
+type SyncedActivity = Pick<
+  PartnerActivity,
+  'id' | 'partner_id' | 'type' | 'start_time' | 'end_time' | 'location' | 'description' | 'updated_at' | 'google_calendar_event_id' | 'calendar_provider'
+> & { calendar_sync_hash?: string | null };
+
+interface SyncedFields {
+  start_time: string;
+  end_time: string;
+  location: string | null;
+  description: string | null;
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value || '').replace(/\r\n/g, '\n').trim();
+}
+
+function hashSyncedFields(fields: SyncedFields): string {
+  const normalized = [
+    new Date(fields.start_time).toISOString(),
+    new Date(fields.end_time).toISOString(),
+    normalizeText(fields.location),
+    normalizeText(fields.description),
+  ].join('\u0000');
+
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Hash of the activity fields mirrored in the calendar event
+ */
+export function computeActivitySyncHash(
+  activity: Pick<PartnerActivity, 'start_time' | 'end_time' | 'location' | 'description'>
+): string {
+  return hashSyncedFields({
+    start_time: activity.start_time,
+    end_time: getActivityEndTime(activity),
+    location: activity.location,
+    description: activity.description,
+  });
+}
+
+/**
+ * Hash of a calendar event, comparable with computeActivitySyncHash
+ */
+export function computeRemoteEventSyncHash(event: RemoteCalendarEvent): string {
+  return hashSyncedFields(event);
+}
+
+/**
+ * Decide what to do with one synced activity given its calendar event
+ */
+export function decideReconcileAction(
+  activity: SyncedActivity,
+  remote: RemoteCalendarEvent | null,
+  strategy: ConflictStrategy = 'latest_wins'
+): ReconcileDecision {
+  if (!remote) {
+    return { action: 'remote_deleted', conflict: false };
+  }
+
+  const localHash = computeActivitySyncHash(activity);
+  const remoteHash = computeRemoteEventSyncHash(remote);
+
+  if (localHash === remoteHash) {
+    return { action: 'none', conflict: false };
+  }
+
+  // Without a baseline (synced before two-way sync existed) treat both sides as changed
+  const baseHash = activity.calendar_sync_hash || null;
+  const localChanged = !baseHash || localHash !== baseHash;
+  const remoteChanged = !baseHash || remoteHash !== baseHash;
+
+  if (remoteChanged && !localChanged) {
+    return { action: 'pull', conflict: false };
+  }
+
+  if (localChanged && !remoteChanged) {
+    return { action: 'push', conflict: false };
+  }
+
+  // Both sides changed
+  if (strategy === 'remote_wins') {
+    return { action: 'pull', conflict: true };
+  }
+  if (strategy === 'local_wins') {
+    return { action: 'push', conflict: true };
+  }
+
+  const localUpdatedAt = new Date(activity.updated_at).getTime();
+  const remoteUpdatedAt = new Date(remote.updated_at).getTime();
+  return {
+    action: remoteUpdatedAt > localUpdatedAt ? 'pull' : 'push',
+    conflict: true,
+  };
+}
+
+/**
+ * Reconcile all synced activities of a user with their connected calendars
+ *
+ * The Supabase client must be able to read and update the user's
+ * partner_notes (the user's own client, or the admin client for cron runs).
+ */
+export async function reconcileUserCalendar(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { strategy?: ConflictStrategy } = {}
+): Promise<ReconcileSummary> {
+  const strategy = options.strategy || 'latest_wins';
+  const summary: ReconcileSummary = {
+    checked: 0,
+    unchanged: 0,
+    pulled: 0,
+    pushed: 0,
+    deleted: 0,
+    conflicts: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  // Get user's partners (needed for ownership and event titles)
+  const { data: partners, error: partnersError } = await supabase
+    .from('partners')
+    .select('id, first_name, last_name')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  if (!partners || partners.length === 0) {
+    return summary;
+  }
+
+  const partnerMap = new Map(partners.map((p) => [p.id, p]));
+
+  const { data: activities, error: activitiesError } = await supabase
+    .from('partner_notes')
+    .select('*')
+    .in('partner_id', Array.from(partnerMap.keys()))
+    .not('google_calendar_event_id', 'is', null)
+    .is('deleted_at', null);
+
+  if (activitiesError) {
+    throw new Error(`Failed to fetch activities: ${activitiesError.message}`);
+  }
+
+  if (!activities || activities.length === 0) {
+    return summary;
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('timezone')
+    .eq('id', userId)
+    .single();
+
+  // Cache connections per provider
+  const connections = new Map<CalendarProviderType, CalendarConnection | null>();
+  const getConnection = async (provider: CalendarProviderType) => {
+    if (!connections.has(provider)) {
+      connections.set(provider, await getUserCalendarConnection(supabase, userId, provider));
+    }
+    return connections.get(provider) || null;
+  };
+
+  for (const activity of activities as SyncedActivity[]) {
+    const providerType: CalendarProviderType = activity.calendar_provider || 'google';
+    const connection = await getConnection(providerType);
+
+    if (!connection) {
+      summary.skipped++;
+      continue;
+    }
+
+    summary.checked++;
+
+    try {
+      const provider = getCalendarProvider(providerType);
+      const remote = await provider.getEvent(connection, activity.google_calendar_event_id!);
+      const decision = decideReconcileAction(activity, remote, strategy);
+      const syncedAt = new Date().toISOString();
+
+      if (decision.conflict) {
+        summary.conflicts++;
+      }
+
+      switch (decision.action) {
+        case 'none': {
+          // Content matches; refresh the baseline if it was missing or stale
+          const hash = computeActivitySyncHash(activity);
+          if (activity.calendar_sync_hash !== hash) {
+            await updateActivity(supabase, activity.id, {
+              calendar_sync_hash: hash,
+              calendar_sync_status: 'synced',
+              calendar_synced_at: syncedAt,
+            });
+          }
+          summary.unchanged++;
+          break;
+        }
+
+        case 'pull': {
+          await updateActivity(supabase, activity.id, {
+            start_time: remote!.start_time,
+            end_time: remote!.end_time,
+            location: remote!.location,
+            description: remote!.description,
+            calendar_sync_hash: computeRemoteEventSyncHash(remote!),
+            calendar_sync_status: 'synced',
+            calendar_synced_at: syncedAt,
+          });
+          summary.pulled++;
+          break;
+        }
+
+        case 'push': {
+          const partner = partnerMap.get(activity.partner_id)!;
+          await provider.updateEvent(
+            connection,
+            activity.google_calendar_event_id!,
+            buildActivityCalendarEvent(activity, partner, user?.timezone)
+          );
+          await updateActivity(supabase, activity.id, {
+            calendar_sync_hash: computeActivitySyncHash(activity),
+            calendar_sync_status: 'synced',
+            calendar_synced_at: syncedAt,
+          });
+          summary.pushed++;
+          break;
+        }
+
+        case 'remote_deleted': {
+          // Keep the activity but unlink it and flag that the event is gone
+          await updateActivity(supabase, activity.id, {
+            google_calendar_event_id: null,
+            calendar_provider: null,
+            calendar_sync_hash: null,
+            calendar_sync_status: 'deleted_remotely',
+            calendar_synced_at: syncedAt,
+          });
+          summary.deleted++;
+          break;
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Calendar Reconcile] Error reconciling activity:', { activityId: activity.id, error: message });
+      summary.errors.push({ activity_id: activity.id, error: message });
+    }
+  }
+
+  return summary;
+}
+
+async function updateActivity(
+  supabase: SupabaseClient,
+  activityId: string,
+  updates: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from('partner_notes')
+    .update(updates)
+    .eq('id', activityId);
+
+  if (error) {
+    throw new Error(`Failed to update activity: ${error.message}`);
+  }
+}
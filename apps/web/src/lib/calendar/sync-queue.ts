@@ -0,0 +1,231 @@
+/**
+ * Calendar Auto-Sync Queue
+ *
+ * Activity changes of users with auto-sync enabled are queued in
+ * calendar_sync_jobs by a database trigger (migration 023). This module drains
+ * the queue: upsert jobs create or update the activity's calendar event,
+ * delete jobs remove it. Upsert jobs are dropped once auto-sync is turned off
+ * or Pro ends; delete jobs still run while the calendar is connected, so events
+ * of deleted activities don't stay behind. Failed jobs are retried with
+ * exponential backoff and the outcome is recorded on the activity
+ * (calendar_sync_status / _error) so the UI shows a persistent sync status.
+ *
+ * Requires the admin client: jobs are not writable with user credentials.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getUserCalendarConnection, CALENDAR_PROVIDER_LABELS } from './connections';
+import { pushActivityToCalendar, deleteCalendarEvent } from './sync';
+import type { CalendarProviderType } from './types';
+
+export const MAX_SYNC_ATTEMPTS = 8;
+
+// Jobs stuck in "processing" longer than this (e.g. a timed-out run) are picked up again
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+export interface CalendarSyncJob {
+  id: string;
+  user_id: string;
+  activity_id: string;
+  operation: 'upsert' | 'delete';
+  provider: CalendarProviderType | null;
+  event_id: string | null;
+  status: 'pending' | 'processing' | 'failed';
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+}
+
+export interface SyncQueueSummary {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  dropped: number; // Job no longer applies (activity gone, auto-sync turned off, calendar disconnected)
+}
+
+type JobOutcome = 'succeeded' | 'dropped';
+
+/**
+ * Delay before the next attempt: 1, 2, 4, ... minutes, capped at 6 hours
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const minutes = Math.min(Math.pow(2, Math.max(attempts - 1, 0)), 360);
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Process due sync jobs, optionally only for one user
+ */
+export async function processCalendarSyncQueue(
+  supabaseAdmin: SupabaseClient,
+  options: { userId?: string; limit?: number } = {}
+): Promise<SyncQueueSummary> {
+  const summary: SyncQueueSummary = { processed: 0, succeeded: 0, failed: 0, dropped: 0 };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString();
+
+  let query = supabaseAdmin
+    .from('calendar_sync_jobs')
+    .select('*')
+    .lte('next_attempt_at', now.toISOString())
+    .lt('attempts', MAX_SYNC_ATTEMPTS)
+    .or(`status.in.(pending,failed),and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit || 50);
+
+  if (options.userId) {
+    query = query.eq('user_id', options.userId);
+  }
+
+  const { data: jobs, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar sync jobs: ${error.message}`);
+  }
+
+  for (const job of (jobs || []) as CalendarSyncJob[]) {
+    // Claim the job so concurrent runs don't push the same change twice
+    const { data: claimed } = await supabaseAdmin
+      .from('calendar_sync_jobs')
+      .update({ status: 'processing' })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      continue;
+    }
+
+    summary.processed++;
+
+    try {
+      const outcome = await runJob(supabaseAdmin, job);
+      await completeJob(supabaseAdmin, job);
+      summary[outcome]++;
+    } catch (jobError) {
+      const message = jobError instanceof Error ? jobError.message : 'Unknown error';
+      console.error('[Calendar Sync Queue] Job failed:', { jobId: job.id, activityId: job.activity_id, error: message });
+      await failJob(supabaseAdmin, job, message);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+async function runJob(supabaseAdmin: SupabaseClient, job: CalendarSyncJob): Promise<JobOutcome> {
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('timezone, account_type, calendar_auto_sync')
+    .eq('id', job.user_id)
+    .single();
+
+  const autoSyncing = !!user && user.calendar_auto_sync && user.account_type === 'pro';
+
+  if (job.operation === 'delete') {
+    const provider = job.provider || 'google';
+    const connection = await getUserCalendarConnection(supabaseAdmin, job.user_id, provider);
+    if (!connection) {
+      if (!autoSyncing) {
+        return 'dropped';
+      }
+      throw new Error(`${CALENDAR_PROVIDER_LABELS[provider]} not connected`);
+    }
+    await deleteCalendarEvent(connection, job.event_id!);
+    return 'succeeded';
+  }
+
+  if (!user || !autoSyncing) {
+    await updateActivity(supabaseAdmin, job.activity_id, { calendar_sync_status: null, calendar_sync_error: null });
+    return 'dropped';
+  }
+
+  const { data: activity } = await supabaseAdmin
+    .from('partner_notes')
+    .select('*')
+    .eq('id', job.activity_id)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (!activity) {
+    return 'dropped'; // Deleted (or in the trash) before it was synced
+  }
+
+  const { data: partner } = await supabaseAdmin
+    .from('partners')
+    .select('first_name, last_name')
+    .eq('id', activity.partner_id)
+    .single();
+
+  if (!partner) {
+    return 'dropped';
+  }
+
+  // Already-synced activities stay on the provider that holds their event
+  const syncedProvider: CalendarProviderType | null = activity.google_calendar_event_id
+    ? activity.calendar_provider || 'google'
+    : null;
+  const connection = await getUserCalendarConnection(supabaseAdmin, job.user_id, syncedProvider);
+
+  if (!connection) {
+    throw new Error(
+      syncedProvider
+        ? `${CALENDAR_PROVIDER_LABELS[syncedProvider]} not connected`
+        : 'Calendar not connected'
+    );
+  }
+
+  await pushActivityToCalendar(supabaseAdmin, activity, partner, connection, user.timezone);
+  return 'succeeded';
+}
+
+async function completeJob(supabaseAdmin: SupabaseClient, job: CalendarSyncJob): Promise<void> {
+  // Only remove the job if no newer change was queued while it was processing
+  await supabaseAdmin
+    .from('calendar_sync_jobs')
+    .delete()
+    .eq('id', job.id)
+    .eq('status', 'processing');
+}
+
+async function failJob(supabaseAdmin: SupabaseClient, job: CalendarSyncJob, message: string): Promise<void> {
+  const attempts = job.attempts + 1;
+
+  await supabaseAdmin
+    .from('calendar_sync_jobs')
+    .update({
+      status: 'failed',
+      attempts,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'processing');
+
+  if (job.operation === 'upsert') {
+    await updateActivity(supabaseAdmin, job.activity_id, {
+      calendar_sync_status: 'failed',
+      calendar_sync_error: attempts >= MAX_SYNC_ATTEMPTS
+        ? `${message} (gave up after ${attempts} attempts)`
+        : message,
+    }).catch((updateError) => {
+      console.error('[Calendar Sync Queue] Error recording sync failure:', updateError);
+    });
+  }
+}
+
+async function updateActivity(
+  supabaseAdmin: SupabaseClient,
+  activityId: string,
+  updates: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('partner_notes')
+    .update(updates)
+    .eq('id', activityId);
+
+  if (error) {
+    throw new Error(`Failed to update activity: ${error.message}`);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Push Activities to Calendar
+ * Shared by the manual sync route and the auto-sync queue
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Partner, PartnerActivity } from '@/shared';
+import { getCalendarProvider } from './factory';
+import { buildActivityCalendarEvent } from './events';
+import { computeActivitySyncHash } from './reconcile';
+import type { CalendarConnection, CalendarProviderType } from './types';
+
+export interface PushActivityResult {
+  event_id: string;
+  provider: CalendarProviderType;
+  created: boolean;
+}
+
+/**
+ * Create or update the calendar event for an activity and record the new
+ * sync baseline on the activity row.
+ *
+ * If the event is newly created but its ID can't be saved, the event is
+ * deleted again so no orphaned events are left in the calendar.
+ */
+export async function pushActivityToCalendar(
+  supabase: SupabaseClient,
+  activity: Pick<PartnerActivity, 'id' | 'type' | 'start_time' | 'end_time' | 'location' | 'description' | 'google_calendar_event_id'>,
+  partner: Pick<Partner, 'first_name' | 'last_name'>,
+  connection: CalendarConnection,
+  timezone: string | null | undefined
+): Promise<PushActivityResult> {
+  const calendarEvent = buildActivityCalendarEvent(activity, partner, timezone);
+  const provider = getCalendarProvider(connection.provider);
+  const baseline = {
+    calendar_sync_hash: computeActivitySyncHash(activity),
+    calendar_sync_status: 'synced',
+    calendar_sync_error: null,
+    calendar_synced_at: new Date().toISOString(),
+  };
+
+  // If activity already has a calendar event ID, update it; otherwise create new
+  if (activity.google_calendar_event_id) {
+    await provider.updateEvent(
+      connection,
+      activity.google_calendar_event_id,
+      calendarEvent
+    );
+
+    // Record the pushed state as the new two-way sync baseline
+    const { error: baselineError } = await supabase
+      .from('partner_notes')
+      .update(baseline)
+      .eq('id', activity.id);
+
+    if (baselineError) {
+      console.error('Error updating activity sync baseline:', baselineError);
+    }
+
+    return {
+      event_id: activity.google_calendar_event_id,
+      provider: connection.provider,
+      created: false,
+    };
+  }
+
+  const result = await provider.createEvent(connection, calendarEvent);
+
+  // Store event ID in database
+  const { error: updateError } = await supabase
+    .from('partner_notes')
+    .update({
+      google_calendar_event_id: result.event_id,
+      calendar_provider: result.provider,
+      ...baseline,
+    })
+    .eq('id', activity.id);
+
+  if (updateError) {
+    console.error('Error updating activity with event ID:', updateError);
+    // Event was created but we couldn't save the ID - try to delete it again
+    try {
+      await provider.deleteEvent(connection, result.event_id);
+    } catch (deleteError) {
+      console.error('Error cleaning up calendar event:', deleteError);
+    }
+    throw new Error('Failed to save calendar event ID');
+  }
+
+  return {
+    event_id: result.event_id,
+    provider: result.provider,
+    created: true,
+  };
+}
+
+/**
+ * Delete a calendar event, treating an already-deleted event as success
+ */
+export async function deleteCalendarEvent(
+  connection: CalendarConnection,
+  eventId: string
+): Promise<void> {
+  const provider = getCalendarProvider(connection.provider);
+  try {
+    await provider.deleteEvent(connection, eventId);
+  } catch (error) {
+    const remote = await provider.getEvent(connection, eventId).catch(() => undefined);
+    if (remote === null) {
+      return; // Event is already gone
+    }
+    throw error;
+  }
+}
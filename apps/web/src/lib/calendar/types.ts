@@ -27,6 +27,20 @@ export interface CalendarEvent {
   timezone: string; // IANA timezone identifier
 }
 
+/**
+ * Event as currently stored in the provider's calendar
+ * Times are normalized to UTC ISO 8601 strings
+ */
+export interface RemoteCalendarEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  location: string | null;
+  updated_at: string; // Last modification time reported by the provider
+}
+
 export interface CalendarEventCreateResult {
   event_id: string;
   provider: CalendarProviderType;
@@ -50,6 +64,15 @@ export interface CalendarProvider {
     event: CalendarEvent
   ): Promise<void>;
 
+  /**
+   * Fetch a calendar event
+   * Returns null if the event was deleted or cancelled in the calendar
+   */
+  getEvent(
+    connection: CalendarConnection,
+    eventId: string
+  ): Promise<RemoteCalendarEvent | null>;
+
   /**
    * Delete a calendar event
    */
@@ -64,6 +87,13 @@ export interface CalendarProvider {
   refreshToken(
     connection: CalendarConnection
   ): Promise<Omit<CalendarConnection, 'id' | 'user_id' | 'provider' | 'created_at' | 'updated_at'>>;
+
+  /**
+   * Revoke the access the user granted to the app (e.g. when the account is deleted)
+   */
+  revokeAccess(
+    connection: CalendarConnection
+  ): Promise<void>;
 }
 
 
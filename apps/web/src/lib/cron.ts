@@ -0,0 +1,18 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Verify a scheduled job request
+ *
+ * Vercel Cron sends `Authorization: Bearer <CRON_SECRET>` when CRON_SECRET is
+ * set in the project environment. Requests are rejected when the secret is
+ * not configured so the jobs can't be triggered publicly.
+ */
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.warn('[Cron] CRON_SECRET is not set - rejecting scheduled job request');
+    return false;
+  }
+
+  return request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
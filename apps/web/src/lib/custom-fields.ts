@@ -0,0 +1,61 @@
+/**
+ * Custom Fields
+ *
+ * Per-account custom partner fields (custom_field_definitions, migration 037).
+ * Values live in partners.custom_fields keyed by field id and are checked
+ * against the definitions with validateCustomFieldValues from @/shared.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CustomFieldDefinition } from '@/shared';
+
+/**
+ * The user's custom field definitions in display order
+ */
+export async function getCustomFieldDefinitions(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<CustomFieldDefinition[]> {
+  const { data, error } = await supabase
+    .from('custom_field_definitions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch custom fields: ${error.message}`);
+  }
+
+  return (data || []) as CustomFieldDefinition[];
+}
+
+/**
+ * Tags used on the user's partners with the number of partners for each, most used first
+ */
+export async function getPartnerTagCounts(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ tag: string; count: number }[]> {
+  const { data, error } = await supabase
+    .from('partners')
+    .select('tags')
+    .eq('user_id', userId)
+    .neq('tags', '{}');
+
+  if (error) {
+    throw new Error(`Failed to fetch tags: ${error.message}`);
+  }
+
+  // Tag filters match exact spellings, so spellings are counted separately
+  const counts = new Map<string, number>();
+  for (const row of data || []) {
+    for (const tag of (row.tags || []) as string[]) {
+      counts.set(tag, (counts.get(tag) || 0) + 1);
+    }
+  }
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
@@ -0,0 +1,487 @@
+/**
+ * Account Data Export
+ *
+ * Export requests are queued in data_exports (migration 033). This module
+ * drains the queue: it collects the user's profile, partners, activities,
+ * photos (files and metadata), subscriptions and payments, writes each as
+ * JSON and CSV into a zip together with the photo files, and stores the zip
+ * in the private data-exports bucket. Archives larger than an import accepts
+ * are split into parts (see MAX_DATA_EXPORT_PART_BYTES). Failed exports are
+ * retried with exponential backoff; completed archives are deleted once they
+ * expire.
+ *
+ * Requires the admin client: exports are not writable with user credentials,
+ * so every query is scoped to the export's user explicitly.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createZip, ZipEntry } from '@/lib/zip';
+
+export const EXPORT_BUCKET = 'data-exports';
+export const MAX_DATA_EXPORT_ATTEMPTS = 3;
+
+// Archives are kept this long after they are built
+export const DATA_EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Lifetime of a download link
+export const DATA_EXPORT_URL_TTL_SECONDS = 60 * 60;
+
+// Largest archive part: every part holds all tables and the photos that fit,
+// so each can be imported on its own (MAX_IMPORT_ARCHIVE_BYTES in lib/data-import.ts)
+export const MAX_DATA_EXPORT_PART_BYTES = 500 * 1024 * 1024;
+
+// Zip headers per entry (local and central directory, without the name) and end of central directory
+const ZIP_ENTRY_HEADER_BYTES = 30 + 46;
+const ZIP_END_BYTES = 22;
+
+// Exports stuck in "processing" longer than this (e.g. a timed-out run) are picked up again
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+// Columns never exported: credentials and internal copies of other columns
+const EXCLUDED_USER_COLUMNS = ['calendar_feed_token_hash'];
+const EXCLUDED_PHOTO_COLUMNS = ['face_embedding'];
+
+export type DataExportStatus = 'pending' | 'processing' | 'failed' | 'completed' | 'expired';
+
+export interface DataExport {
+  id: string;
+  user_id: string;
+  status: DataExportStatus;
+  include_face_descriptors: boolean;
+  storage_paths: string[]; // Set when completed: one archive per part
+  file_size: number | null; // Of all parts together
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DataExportQueueSummary {
+  processed: number;
+  completed: number;
+  failed: number;
+}
+
+type ExportRow = Record<string, unknown>;
+
+// Stores one built part (numbered from 1)
+export type SaveDataExportPart = (archive: Buffer, part: number) => Promise<void>;
+
+/**
+ * Delay before the next attempt: 1, 2, 4, ... minutes, capped at 1 hour
+ */
+export function getDataExportRetryDelayMs(attempts: number): number {
+  const minutes = Math.min(Math.pow(2, Math.max(attempts - 1, 0)), 60);
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Whether the export is still being built (including failed attempts that will be retried)
+ */
+export function isDataExportInProgress(dataExport: Pick<DataExport, 'status' | 'attempts'>): boolean {
+  return dataExport.status === 'pending'
+    || dataExport.status === 'processing'
+    || (dataExport.status === 'failed' && dataExport.attempts < MAX_DATA_EXPORT_ATTEMPTS);
+}
+
+/**
+ * Serialize rows as CSV (RFC 4180); nested values are written as JSON
+ */
+export function toCsv(rows: ExportRow[]): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }
+  }
+
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [columns.map(formatValue).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => formatValue(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function omitColumns(row: ExportRow, columns: string[]): ExportRow {
+  const result = { ...row };
+  for (const column of columns) {
+    delete result[column];
+  }
+  return result;
+}
+
+async function selectRows(query: PromiseLike<{ data: unknown; error: { message: string } | null }>, label: string): Promise<ExportRow[]> {
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to fetch ${label}: ${error.message}`);
+  }
+  return (data as ExportRow[] | null) || [];
+}
+
+/**
+ * Build the zip archive for an export, in parts of at most maxPartBytes
+ *
+ * Layout of each part: README.txt, <name>.json and <name>.csv for profile,
+ * partners, custom_fields, status_history, reminders, activities, photos,
+ * subscriptions and payments, and the photo files under photos/<partnerId>/.
+ * Every part holds all tables; photos.json lists the photos of the part and
+ * links each to its file ("file"). Parts are handed to savePart as soon as
+ * they are full, so only one part's photos are held in memory.
+ */
+export async function buildDataExportArchive(
+  supabaseAdmin: SupabaseClient,
+  dataExport: Pick<DataExport, 'user_id' | 'include_face_descriptors'>,
+  savePart: SaveDataExportPart,
+  maxPartBytes = MAX_DATA_EXPORT_PART_BYTES
+): Promise<number> {
+  const userId = dataExport.user_id;
+
+  const profile = await selectRows(
+    supabaseAdmin.from('users').select('*').eq('id', userId),
+    'profile'
+  );
+  const partners = await selectRows(
+    supabaseAdmin.from('partners').select('*').eq('user_id', userId).is('deleted_at', null).order('created_at', { ascending: true }),
+    'partners'
+  );
+  const partnerIds = partners.map((partner) => partner.id as string);
+  const statusHistory = await selectRows(
+    supabaseAdmin.from('partner_status_changes').select('*').eq('user_id', userId).order('changed_at', { ascending: true }),
+    'status history'
+  );
+  const reminders = await selectRows(
+    supabaseAdmin.from('partner_reminders').select('*').eq('user_id', userId).order('created_at', { ascending: true }),
+    'reminders'
+  );
+  const customFields = await selectRows(
+    supabaseAdmin.from('custom_field_definitions').select('*').eq('user_id', userId).order('position', { ascending: true }),
+    'custom fields'
+  );
+
+  const activities = partnerIds.length
+    ? await selectRows(
+        supabaseAdmin.from('partner_notes').select('*').in('partner_id', partnerIds).is('deleted_at', null).order('start_time', { ascending: true }),
+        'activities'
+      )
+    : [];
+  const photos = partnerIds.length
+    ? await selectRows(
+        supabaseAdmin.from('partner_photos').select('*').in('partner_id', partnerIds).is('deleted_at', null).order('uploaded_at', { ascending: true }),
+        'photos'
+      )
+    : [];
+  const subscriptions = await selectRows(
+    supabaseAdmin.from('subscriptions').select('*').eq('user_id', userId),
+    'subscriptions'
+  );
+  const payments = await selectRows(
+    supabaseAdmin.from('payments').select('*').eq('user_id', userId).order('created_at', { ascending: true }),
+    'payments'
+  );
+
+  const excludedPhotoColumns = dataExport.include_face_descriptors
+    ? EXCLUDED_PHOTO_COLUMNS
+    : [...EXCLUDED_PHOTO_COLUMNS, 'face_descriptor'];
+  const photoFile = (photo: ExportRow) => `photos/${photo.partner_id}/${(photo.storage_path as string).split('/').pop()}`;
+
+  // Trashed partners are not exported; neither is their history
+  const exportedPartnerIds = new Set(partnerIds);
+  const tables = (photoRows: ExportRow[]): Array<[string, ExportRow[]]> => [
+    ['profile', profile.map((row) => omitColumns(row, EXCLUDED_USER_COLUMNS))],
+    ['partners', partners],
+    ['custom_fields', customFields],
+    ['status_history', statusHistory.filter((row) => exportedPartnerIds.has(row.partner_id as string))],
+    ['reminders', reminders.filter((row) => exportedPartnerIds.has(row.partner_id as string))],
+    ['activities', activities],
+    ['photos', photoRows.map((row) => omitColumns(row, excludedPhotoColumns))],
+    ['subscriptions', subscriptions],
+    ['payments', payments],
+  ];
+
+  const tableEntries = (part: number, photoRows: ExportRow[]): ZipEntry[] => [
+    buildReadme(dataExport, part),
+    ...tables(photoRows).flatMap(([name, rows]): ZipEntry[] => [
+      { name: `${name}.json`, data: JSON.stringify(rows, null, 2) },
+      { name: `${name}.csv`, data: toCsv(rows) },
+    ]),
+  ];
+
+  // Room taken in every part by the tables, at most as large as with all photos listed
+  const tableBytes = tableEntries(
+    Number.MAX_SAFE_INTEGER,
+    photos.map((photo) => ({ ...photo, file: photoFile(photo) }))
+  ).reduce((total, entry) => total + getZipEntryBytes(entry), ZIP_END_BYTES);
+
+  let part = 1;
+  let photoEntries: ZipEntry[] = [];
+  let photoRows: ExportRow[] = [];
+  let partBytes = tableBytes;
+
+  const flushPart = async () => {
+    await savePart(createZip([...tableEntries(part, photoRows), ...photoEntries]), part);
+    part++;
+    photoEntries = [];
+    photoRows = [];
+    partBytes = tableBytes;
+  };
+
+  for (const photo of photos) {
+    const storagePath = photo.storage_path as string;
+    const { data: blob, error } = await supabaseAdmin.storage.from('partner-photos').download(storagePath);
+
+    if (error || !blob) {
+      // A missing file shouldn't block the export; the metadata says so
+      console.error('[Data Export] Error downloading photo:', { photoId: photo.id, error: error?.message });
+      photoRows.push({ ...photo, file: null });
+      continue;
+    }
+
+    const entry: ZipEntry = { name: photoFile(photo), data: Buffer.from(await blob.arrayBuffer()), compress: false };
+    const entryBytes = getZipEntryBytes(entry);
+
+    if (photoEntries.length > 0 && partBytes + entryBytes > maxPartBytes) {
+      await flushPart();
+    }
+
+    photoEntries.push(entry);
+    photoRows.push({ ...photo, file: entry.name });
+    partBytes += entryBytes;
+  }
+
+  await flushPart();
+  return part - 1;
+}
+
+function buildReadme(dataExport: Pick<DataExport, 'include_face_descriptors'>, part: number): ZipEntry {
+  return {
+    name: 'README.txt',
+    data: [
+      'Account data export',
+      `Created: ${new Date().toISOString()}`,
+      `Part: ${part}`,
+      '',
+      'Each file is available as JSON and CSV (nested values in CSV cells are JSON):',
+      '- profile: your account',
+      '- partners: your partners',
+      '- status_history: changes of your partners\' relationship status',
+      '- custom_fields: your custom partner fields; partners store their values by field id',
+      '- reminders: your partner reminders',
+      '- activities: activities with your partners',
+      '- photos: photo metadata; "file" is the photo in the photos folder',
+      '- subscriptions, payments: billing history',
+      '',
+      `Exports larger than ${Math.round(MAX_DATA_EXPORT_PART_BYTES / (1024 * 1024))} MB are split into parts. Every part holds all`,
+      'files above, but only some of the photos: photos lists the photos of this part.',
+      'Each part can be imported on its own; import them one after another.',
+      '',
+      dataExport.include_face_descriptors
+        ? 'Face descriptors (128 numbers per photo describing the detected face) are included in photos.'
+        : 'Face descriptors are not included.',
+      '',
+    ].join('\n'),
+  };
+}
+
+/**
+ * Size of an entry in a zip built by createZip (deflated entries are never larger than stored ones)
+ */
+function getZipEntryBytes(entry: ZipEntry): number {
+  const nameBytes = Buffer.byteLength(entry.name, 'utf8');
+  const dataBytes = typeof entry.data === 'string' ? Buffer.byteLength(entry.data, 'utf8') : entry.data.length;
+  return ZIP_ENTRY_HEADER_BYTES + 2 * nameBytes + dataBytes;
+}
+
+/**
+ * Process due exports, optionally only for one user
+ */
+export async function processDataExportQueue(
+  supabaseAdmin: SupabaseClient,
+  options: { userId?: string; limit?: number } = {}
+): Promise<DataExportQueueSummary> {
+  const summary: DataExportQueueSummary = { processed: 0, completed: 0, failed: 0 };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString();
+
+  let query = supabaseAdmin
+    .from('data_exports')
+    .select('*')
+    .lte('next_attempt_at', now.toISOString())
+    .lt('attempts', MAX_DATA_EXPORT_ATTEMPTS)
+    .or(`status.in.(pending,failed),and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit || 1);
+
+  if (options.userId) {
+    query = query.eq('user_id', options.userId);
+  }
+
+  const { data: exports, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch data exports: ${error.message}`);
+  }
+
+  for (const dataExport of (exports || []) as DataExport[]) {
+    // Claim the export so concurrent runs don't build the same archive twice
+    const { data: claimed } = await supabaseAdmin
+      .from('data_exports')
+      .update({ status: 'processing' })
+      .eq('id', dataExport.id)
+      .eq('status', dataExport.status)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      continue;
+    }
+
+    summary.processed++;
+
+    try {
+      await runExport(supabaseAdmin, dataExport);
+      summary.completed++;
+    } catch (exportError) {
+      const message = exportError instanceof Error ? exportError.message : 'Unknown error';
+      console.error('[Data Export] Export failed:', { exportId: dataExport.id, error: message });
+      await failExport(supabaseAdmin, dataExport, message);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Delete archives of expired exports
+ */
+export async function expireDataExports(supabaseAdmin: SupabaseClient): Promise<number> {
+  const { data: expired, error } = await supabaseAdmin
+    .from('data_exports')
+    .select('id, storage_paths')
+    .eq('status', 'completed')
+    .lte('expires_at', new Date().toISOString())
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to fetch expired data exports: ${error.message}`);
+  }
+
+  if (!expired || expired.length === 0) {
+    return 0;
+  }
+
+  const paths = expired.flatMap((row) => (row.storage_paths || []) as string[]);
+  if (paths.length > 0) {
+    const { error: removeError } = await supabaseAdmin.storage.from(EXPORT_BUCKET).remove(paths);
+    if (removeError) {
+      throw new Error(`Failed to delete expired data exports: ${removeError.message}`);
+    }
+  }
+
+  await supabaseAdmin
+    .from('data_exports')
+    .update({ status: 'expired', storage_paths: [] })
+    .in('id', expired.map((row) => row.id));
+
+  return expired.length;
+}
+
+/**
+ * Short-lived download links for a completed export, one per part (none if any link fails)
+ */
+export async function getDataExportDownloadUrls(
+  supabaseAdmin: SupabaseClient,
+  dataExport: Pick<DataExport, 'storage_paths' | 'created_at'>
+): Promise<string[]> {
+  const paths = dataExport.storage_paths || [];
+  const urls: string[] = [];
+
+  for (const [index, path] of paths.entries()) {
+    const suffix = paths.length > 1 ? `-part-${index + 1}` : '';
+    const fileName = `data-export-${dataExport.created_at.slice(0, 10)}${suffix}.zip`;
+    const { data, error } = await supabaseAdmin.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUrl(path, DATA_EXPORT_URL_TTL_SECONDS, { download: fileName });
+
+    if (error || !data) {
+      console.error('[Data Export] Error creating download URL:', error);
+      return [];
+    }
+
+    urls.push(data.signedUrl);
+  }
+
+  return urls;
+}
+
+/**
+ * Storage path of a part: userId/exportId.zip, then userId/exportId-2.zip, ...
+ */
+export function getDataExportPartPath(dataExport: Pick<DataExport, 'id' | 'user_id'>, part: number): string {
+  return `${dataExport.user_id}/${dataExport.id}${part > 1 ? `-${part}` : ''}.zip`;
+}
+
+async function runExport(supabaseAdmin: SupabaseClient, dataExport: DataExport): Promise<void> {
+  const storagePaths: string[] = [];
+  let fileSize = 0;
+
+  await buildDataExportArchive(supabaseAdmin, dataExport, async (archive, part) => {
+    const storagePath = getDataExportPartPath(dataExport, part);
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(EXPORT_BUCKET)
+      .upload(storagePath, archive, { contentType: 'application/zip', upsert: true });
+
+    if (uploadError) {
+      throw new Error(`Failed to store archive: ${uploadError.message}`);
+    }
+
+    storagePaths.push(storagePath);
+    fileSize += archive.length;
+  });
+
+  const completedAt = new Date();
+  const { error } = await supabaseAdmin
+    .from('data_exports')
+    .update({
+      status: 'completed',
+      storage_paths: storagePaths,
+      file_size: fileSize,
+      last_error: null,
+      completed_at: completedAt.toISOString(),
+      expires_at: new Date(completedAt.getTime() + DATA_EXPORT_TTL_MS).toISOString(),
+    })
+    .eq('id', dataExport.id)
+    .eq('status', 'processing');
+
+  if (error) {
+    throw new Error(`Failed to update data export: ${error.message}`);
+  }
+}
+
+async function failExport(supabaseAdmin: SupabaseClient, dataExport: DataExport, message: string): Promise<void> {
+  const attempts = dataExport.attempts + 1;
+
+  await supabaseAdmin
+    .from('data_exports')
+    .update({
+      status: 'failed',
+      attempts,
+      last_error: attempts >= MAX_DATA_EXPORT_ATTEMPTS
+        ? `${message} (gave up after ${attempts} attempts)`
+        : message,
+      next_attempt_at: new Date(Date.now() + getDataExportRetryDelayMs(attempts)).toISOString(),
+    })
+    .eq('id', dataExport.id)
+    .eq('status', 'processing');
+}
@@ -0,0 +1,917 @@
+/**
+ * Account Data Import
+ *
+ * Restores an archive made by the data export (lib/data-export.ts) into an
+ * account. Imports are queued in data_imports (migration 034) and run twice:
+ * a dry run that only stores a report, then, once the user confirms, the
+ * import itself.
+ *
+ * - Partners are matched against the account's partners by email, phone or
+ *   full name; matched partners are kept as they are and receive the
+ *   archive's activities and photos. Other partners are created.
+ * - New partners and photos get IDs derived from the import and the archived
+ *   ID (UUID v5), so a run that is resumed or retried never creates them twice.
+ * - Activities are skipped when their partner already has one at the same
+ *   start time or one imported from the same archived activity.
+ * - Photos are re-uploaded to storage; photos whose partner already has a
+ *   file with the same name and size are skipped. Face descriptors missing
+ *   from the archive are regenerated with the server face detection.
+ * - Free accounts keep their partner and activity limits: whatever doesn't
+ *   fit is skipped and reported.
+ *
+ * Large archives are imported over several runs (see IMPORT_TIME_BUDGET_MS).
+ * Requires the admin client: imports are not writable with user credentials,
+ * so every query is scoped to the import's user explicitly.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { v5 as uuidv5 } from 'uuid';
+import {
+  FREE_TIER_ACTIVITY_LIMIT,
+  MAX_PARTNER_TAG_LENGTH,
+  MAX_PARTNER_TAGS,
+  normalizePartnerTags,
+  PartnerActivityType,
+  PartnerStatus,
+} from '@/shared';
+import { FREE_TIER_PARTNER_LIMIT } from '@/lib/pricing';
+import { normalizeEmail, normalizeName, normalizePhone } from '@/lib/partner-duplicates';
+import { getStartTimeKey } from '@/lib/calendar/import';
+import { detectFacesInImage } from '@/lib/face-detection/server';
+import { readZip, ReadZipLimits } from '@/lib/zip';
+import { EXPORT_BUCKET, MAX_DATA_EXPORT_PART_BYTES } from '@/lib/data-export';
+
+export const MAX_DATA_IMPORT_ATTEMPTS = 3;
+
+// Archives larger than this are rejected (they are read into memory); exports are split into parts that fit
+export const MAX_IMPORT_ARCHIVE_BYTES = MAX_DATA_EXPORT_PART_BYTES;
+
+// Limits on the extracted archive (JSON files compress well, photos don't)
+const IMPORT_ZIP_LIMITS: ReadZipLimits = {
+  maxEntryBytes: 100 * 1024 * 1024,
+  maxTotalBytes: 2 * MAX_IMPORT_ARCHIVE_BYTES,
+};
+
+// Stop starting new photos after this long and continue in the next run
+const IMPORT_TIME_BUDGET_MS = 200 * 1000;
+
+// Imports stuck in "processing" longer than this (e.g. a timed-out run) are picked up again
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+// Activities are inserted in batches of this size
+const ACTIVITY_INSERT_BATCH = 500;
+
+export type DataImportMode = 'dry_run' | 'apply';
+export type DataImportStatus = 'pending' | 'processing' | 'failed' | 'reviewed' | 'completed' | 'cancelled';
+export type PartnerMatchReason = 'email' | 'phone' | 'name';
+
+export interface DataImportReport {
+  partners: { total: number; created: number; matched: number; skipped: number };
+  activities: { total: number; created: number; duplicates: number; skipped: number };
+  photos: {
+    total: number;
+    created: number;
+    duplicates: number;
+    skipped: number;
+    missing_files: number;
+    descriptors_regenerated: number; // Dry run: descriptors that will be regenerated
+  };
+  matched_partners: Array<{ name: string; partner_id: string; reason: PartnerMatchReason }>;
+  warnings: string[];
+}
+
+export interface DataImportProgress {
+  activities_done?: boolean;
+  activities?: DataImportReport['activities'];
+  descriptors_regenerated?: number;
+}
+
+export interface DataImport {
+  id: string;
+  user_id: string;
+  storage_path: string | null;
+  mode: DataImportMode;
+  status: DataImportStatus;
+  report: DataImportReport | null;
+  progress: DataImportProgress;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DataImportQueueSummary {
+  processed: number;
+  reviewed: number;
+  completed: number;
+  continued: number; // Runs that ran out of time and continue later
+  failed: number;
+}
+
+type ImportOutcome = 'reviewed' | 'completed' | 'continued' | 'failed';
+
+const nullableString = z.string().nullable().optional();
+
+const ArchivePartnerSchema = z.object({
+  id: z.string().min(1),
+  first_name: nullableString,
+  last_name: nullableString,
+  email: nullableString,
+  phone_number: nullableString,
+  description: nullableString,
+  description_time: nullableString,
+  facebook_profile: nullableString,
+  x_profile: nullableString,
+  linkedin_profile: nullableString,
+  instagram_profile: nullableString,
+  profile_picture_storage_path: nullableString,
+  black_flag: z.boolean().nullable().optional(),
+  status: PartnerStatus.nullable().optional(),
+  tags: z.array(z.string()).nullable().optional(),
+  created_at: nullableString,
+});
+
+const ArchiveActivitySchema = z.object({
+  id: z.string().min(1),
+  partner_id: z.string().min(1),
+  start_time: z.string().datetime({ offset: true }),
+  end_time: z.string().datetime({ offset: true }).nullable().optional(),
+  type: PartnerActivityType,
+  location: nullableString,
+  description: nullableString,
+});
+
+const ArchivePhotoSchema = z.object({
+  id: z.string().min(1),
+  partner_id: z.string().min(1),
+  storage_path: z.string().min(1),
+  file_name: nullableString,
+  file_size: z.number().nullable().optional(),
+  mime_type: nullableString,
+  width: z.number().nullable().optional(),
+  height: z.number().nullable().optional(),
+  face_descriptor: z.array(z.number()).length(128).nullable().optional(),
+  uploaded_at: nullableString,
+  file: nullableString,
+});
+
+type ArchivePartner = z.infer<typeof ArchivePartnerSchema>;
+type ArchiveActivity = z.infer<typeof ArchiveActivitySchema>;
+type ArchivePhoto = z.infer<typeof ArchivePhotoSchema>;
+
+export interface ParsedArchive {
+  partners: ArchivePartner[];
+  activities: ArchiveActivity[];
+  photos: ArchivePhoto[];
+  files: Map<string, Buffer>;
+}
+
+export type ParseArchiveResult = { ok: true; archive: ParsedArchive } | { ok: false; error: string };
+
+interface ImportTarget {
+  userId: string;
+  accountType: string;
+  partners: Array<{
+    id: string;
+    first_name: string | null;
+    last_name: string | null;
+    email: string | null;
+    phone_number: string | null;
+    profile_picture_storage_path: string | null;
+  }>;
+  activities: Array<{ partner_id: string; start_time: string; import_uid: string | null }>;
+  photos: Array<{ id: string; partner_id: string; storage_path: string; file_name: string | null; file_size: number | null }>;
+}
+
+type PlannedAction = 'create' | 'created' | 'duplicate' | 'skip';
+
+interface PlannedPartner {
+  source: ArchivePartner;
+  partnerId: string | null; // null when skipped
+  action: 'create' | 'created' | 'match' | 'skip';
+}
+
+interface PlannedActivity {
+  source: ArchiveActivity;
+  partnerId: string | null;
+  action: PlannedAction;
+}
+
+interface PlannedPhoto {
+  source: ArchivePhoto;
+  partnerId: string | null;
+  photoId: string;
+  storagePath: string | null;
+  action: PlannedAction | 'missing';
+}
+
+export interface ImportPlan {
+  partners: PlannedPartner[];
+  activities: PlannedActivity[];
+  photos: PlannedPhoto[];
+  report: DataImportReport;
+}
+
+/**
+ * Delay before the next attempt: 1, 2, 4, ... minutes, capped at 1 hour
+ */
+export function getDataImportRetryDelayMs(attempts: number): number {
+  const minutes = Math.min(Math.pow(2, Math.max(attempts - 1, 0)), 60);
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Whether the import still needs the user or the queue (only one import runs at a time)
+ */
+export function isDataImportActive(dataImport: Pick<DataImport, 'status' | 'attempts'>): boolean {
+  return dataImport.status === 'pending'
+    || dataImport.status === 'processing'
+    || dataImport.status === 'reviewed'
+    || (dataImport.status === 'failed' && dataImport.attempts < MAX_DATA_IMPORT_ATTEMPTS);
+}
+
+/**
+ * Storage path for an uploaded archive
+ */
+export function getImportArchivePath(userId: string, uploadId: string): string {
+  return `${userId}/imports/${uploadId}.zip`;
+}
+
+function parseJsonFile<T>(files: Map<string, Buffer>, name: string, schema: z.ZodType<T>): T[] | string {
+  const file = files.get(name);
+  if (!file) {
+    return name === 'partners.json' ? `${name} is missing - is this a data export archive?` : [];
+  }
+
+  let rows: unknown;
+  try {
+    rows = JSON.parse(file.toString('utf8'));
+  } catch {
+    return `${name} is not valid JSON`;
+  }
+
+  const parsed = z.array(schema).safeParse(rows);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return `${name} is invalid: ${issue.path.join('.')} ${issue.message}`;
+  }
+  return parsed.data;
+}
+
+/**
+ * Read and validate an export archive
+ */
+export function parseDataExportArchive(archive: Buffer): ParseArchiveResult {
+  let files: Map<string, Buffer>;
+  try {
+    files = readZip(archive, IMPORT_ZIP_LIMITS);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Not a zip archive' };
+  }
+
+  const partners = parseJsonFile(files, 'partners.json', ArchivePartnerSchema);
+  if (typeof partners === 'string') return { ok: false, error: partners };
+  const activities = parseJsonFile(files, 'activities.json', ArchiveActivitySchema);
+  if (typeof activities === 'string') return { ok: false, error: activities };
+  const photos = parseJsonFile(files, 'photos.json', ArchivePhotoSchema);
+  if (typeof photos === 'string') return { ok: false, error: photos };
+
+  return { ok: true, archive: { partners, activities, photos, files } };
+}
+
+function getPartnerDisplayName(partner: Pick<ArchivePartner, 'first_name' | 'last_name'>): string {
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed partner';
+}
+
+function findMatchingPartner(
+  source: ArchivePartner,
+  partners: ImportTarget['partners']
+): { id: string; reason: PartnerMatchReason } | null {
+  const email = normalizeEmail(source.email ?? null);
+  if (email) {
+    const match = partners.find((partner) => normalizeEmail(partner.email) === email);
+    if (match) return { id: match.id, reason: 'email' };
+  }
+
+  const phone = normalizePhone(source.phone_number ?? null);
+  if (phone) {
+    const match = partners.find((partner) => normalizePhone(partner.phone_number) === phone);
+    if (match) return { id: match.id, reason: 'phone' };
+  }
+
+  // Full names only: a shared first name alone is too weak to merge on
+  const firstName = normalizeName(source.first_name ?? null);
+  const lastName = normalizeName(source.last_name ?? null);
+  if (firstName && lastName) {
+    const match = partners.find(
+      (partner) => normalizeName(partner.first_name) === firstName && normalizeName(partner.last_name) === lastName
+    );
+    if (match) return { id: match.id, reason: 'name' };
+  }
+
+  return null;
+}
+
+function getFileExtension(photo: ArchivePhoto): string {
+  const name = photo.file || photo.storage_path;
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : 'jpg';
+}
+
+/**
+ * Decide what happens to every partner, activity and photo of the archive
+ *
+ * Pure: the same archive and account state give the same plan, which is
+ * what makes the dry run report match the import.
+ */
+export function planDataImport(importId: string, archive: ParsedArchive, target: ImportTarget): ImportPlan {
+  const report: DataImportReport = {
+    partners: { total: archive.partners.length, created: 0, matched: 0, skipped: 0 },
+    activities: { total: archive.activities.length, created: 0, duplicates: 0, skipped: 0 },
+    photos: { total: archive.photos.length, created: 0, duplicates: 0, skipped: 0, missing_files: 0, descriptors_regenerated: 0 },
+    matched_partners: [],
+    warnings: [],
+  };
+  const isFree = target.accountType === 'free';
+  const existingPartnerIds = new Set(target.partners.map((partner) => partner.id));
+  let partnerCount = target.partners.length;
+
+  // Partners
+  const partnerMap = new Map<string, string | null>();
+  const partners: PlannedPartner[] = archive.partners.map((source) => {
+    const newId = uuidv5(source.id, importId);
+    if (existingPartnerIds.has(newId)) {
+      // Created by an earlier run of this import
+      report.partners.created++;
+      partnerMap.set(source.id, newId);
+      return { source, partnerId: newId, action: 'created' };
+    }
+
+    const match = findMatchingPartner(source, target.partners);
+    if (match) {
+      report.partners.matched++;
+      report.matched_partners.push({ name: getPartnerDisplayName(source), partner_id: match.id, reason: match.reason });
+      partnerMap.set(source.id, match.id);
+      return { source, partnerId: match.id, action: 'match' };
+    }
+
+    if (isFree && partnerCount >= FREE_TIER_PARTNER_LIMIT) {
+      report.partners.skipped++;
+      partnerMap.set(source.id, null);
+      return { source, partnerId: null, action: 'skip' };
+    }
+
+    partnerCount++;
+    report.partners.created++;
+    partnerMap.set(source.id, newId);
+    return { source, partnerId: newId, action: 'create' };
+  });
+
+  if (report.partners.skipped > 0) {
+    report.warnings.push(
+      `Free accounts are limited to ${FREE_TIER_PARTNER_LIMIT} partners: ${report.partners.skipped} partners and their activities and photos are not imported. Upgrade to Pro to import everything.`
+    );
+  }
+
+  // Activities
+  const seenStartTimes = new Set(target.activities.map((a) => `${a.partner_id}|${getStartTimeKey(a.start_time)}`));
+  const seenUids = new Set(target.activities.map((a) => a.import_uid).filter(Boolean));
+  let activityCount = target.activities.length;
+  let activitiesOverLimit = 0;
+
+  const activities: PlannedActivity[] = archive.activities.map((source) => {
+    const partnerId = partnerMap.get(source.partner_id) ?? null;
+    if (!partnerId) {
+      report.activities.skipped++;
+      return { source, partnerId: null, action: 'skip' };
+    }
+
+    const startKey = `${partnerId}|${getStartTimeKey(source.start_time)}`;
+    if (seenUids.has(source.id) || seenStartTimes.has(startKey)) {
+      report.activities.duplicates++;
+      return { source, partnerId, action: 'duplicate' };
+    }
+
+    if (isFree && activityCount >= FREE_TIER_ACTIVITY_LIMIT) {
+      report.activities.skipped++;
+      activitiesOverLimit++;
+      return { source, partnerId, action: 'skip' };
+    }
+
+    seenUids.add(source.id);
+    seenStartTimes.add(startKey);
+    activityCount++;
+    report.activities.created++;
+    return { source, partnerId, action: 'create' };
+  });
+
+  if (activitiesOverLimit > 0) {
+    report.warnings.push(
+      `Free accounts are limited to ${FREE_TIER_ACTIVITY_LIMIT} activities: ${activitiesOverLimit} activities are not imported. Upgrade to Pro to import everything.`
+    );
+  }
+
+  // Photos
+  const existingPhotoIds = new Set(target.photos.map((photo) => photo.id));
+  const existingFiles = new Set(target.photos.map((photo) => `${photo.partner_id}|${photo.file_name}|${photo.file_size}`));
+
+  const photos: PlannedPhoto[] = archive.photos.map((source) => {
+    const photoId = uuidv5(source.id, importId);
+    const partnerId = partnerMap.get(source.partner_id) ?? null;
+    if (!partnerId) {
+      report.photos.skipped++;
+      return { source, partnerId: null, photoId, storagePath: null, action: 'skip' };
+    }
+
+    // Structure: userId/partnerId/uuid.ext (for RLS policies)
+    const storagePath = `${target.userId}/${partnerId}/${photoId}.${getFileExtension(source)}`;
+    if (existingPhotoIds.has(photoId)) {
+      report.photos.created++;
+      return { source, partnerId, photoId, storagePath, action: 'created' };
+    }
+
+    const fileKey = `${partnerId}|${source.file_name ?? null}|${source.file_size ?? null}`;
+    if (source.file_name && existingFiles.has(fileKey)) {
+      report.photos.duplicates++;
+      return { source, partnerId, photoId, storagePath, action: 'duplicate' };
+    }
+
+    if (!source.file || !archive.files.has(source.file)) {
+      report.photos.missing_files++;
+      return { source, partnerId, photoId, storagePath, action: 'missing' };
+    }
+
+    existingFiles.add(fileKey);
+    report.photos.created++;
+    if (!source.face_descriptor) {
+      report.photos.descriptors_regenerated++;
+    }
+    return { source, partnerId, photoId, storagePath, action: 'create' };
+  });
+
+  if (report.photos.missing_files > 0) {
+    report.warnings.push(`${report.photos.missing_files} photos are listed in photos.json but their files are not in the archive.`);
+  }
+
+  return { partners, activities, photos, report };
+}
+
+async function loadImportTarget(supabaseAdmin: SupabaseClient, userId: string): Promise<ImportTarget> {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('account_type')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !user) {
+    throw new Error(`Failed to fetch user: ${userError?.message || 'User not found'}`);
+  }
+
+  const { data: partners, error: partnersError } = await supabaseAdmin
+    .from('partners')
+    .select('id, first_name, last_name, email, phone_number, profile_picture_storage_path')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  const partnerIds = (partners || []).map((partner) => partner.id);
+  let activities: ImportTarget['activities'] = [];
+  let photos: ImportTarget['photos'] = [];
+
+  if (partnerIds.length > 0) {
+    const { data: activityRows, error: activitiesError } = await supabaseAdmin
+      .from('partner_notes')
+      .select('partner_id, start_time, import_uid')
+      .in('partner_id', partnerIds)
+      .is('deleted_at', null);
+
+    if (activitiesError) {
+      throw new Error(`Failed to fetch activities: ${activitiesError.message}`);
+    }
+
+    const { data: photoRows, error: photosError } = await supabaseAdmin
+      .from('partner_photos')
+      .select('id, partner_id, storage_path, file_name, file_size')
+      .in('partner_id', partnerIds)
+      .is('deleted_at', null);
+
+    if (photosError) {
+      throw new Error(`Failed to fetch photos: ${photosError.message}`);
+    }
+
+    activities = activityRows || [];
+    photos = photoRows || [];
+  }
+
+  return { userId, accountType: user.account_type, partners: partners || [], activities, photos };
+}
+
+/**
+ * Process due imports, optionally only for one user
+ */
+export async function processDataImportQueue(
+  supabaseAdmin: SupabaseClient,
+  options: { userId?: string; limit?: number } = {}
+): Promise<DataImportQueueSummary> {
+  const summary: DataImportQueueSummary = { processed: 0, reviewed: 0, completed: 0, continued: 0, failed: 0 };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString();
+
+  let query = supabaseAdmin
+    .from('data_imports')
+    .select('*')
+    .lte('next_attempt_at', now.toISOString())
+    .lt('attempts', MAX_DATA_IMPORT_ATTEMPTS)
+    .or(`status.in.(pending,failed),and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit || 1);
+
+  if (options.userId) {
+    query = query.eq('user_id', options.userId);
+  }
+
+  const { data: imports, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch data imports: ${error.message}`);
+  }
+
+  for (const dataImport of (imports || []) as DataImport[]) {
+    // Claim the import so concurrent runs don't import the same archive twice
+    const { data: claimed } = await supabaseAdmin
+      .from('data_imports')
+      .update({ status: 'processing' })
+      .eq('id', dataImport.id)
+      .eq('status', dataImport.status)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      continue;
+    }
+
+    summary.processed++;
+
+    try {
+      const outcome = await runImport(supabaseAdmin, dataImport);
+      summary[outcome]++;
+    } catch (importError) {
+      const message = importError instanceof Error ? importError.message : 'Unknown error';
+      console.error('[Data Import] Import failed:', { importId: dataImport.id, error: message });
+      await failImport(supabaseAdmin, dataImport, message);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Delete an import's uploaded archive
+ */
+export async function deleteImportArchive(supabaseAdmin: SupabaseClient, dataImport: Pick<DataImport, 'id' | 'storage_path'>): Promise<void> {
+  if (!dataImport.storage_path) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.storage.from(EXPORT_BUCKET).remove([dataImport.storage_path]);
+  if (error) {
+    // The row keeps the path, so the cron tries again
+    console.error('[Data Import] Error deleting archive:', { importId: dataImport.id, error: error.message });
+    return;
+  }
+
+  await supabaseAdmin
+    .from('data_imports')
+    .update({ storage_path: null })
+    .eq('id', dataImport.id);
+}
+
+/**
+ * Cancel dry runs nobody confirmed and delete archives that are no longer needed
+ */
+export async function cleanupDataImports(supabaseAdmin: SupabaseClient, olderThanMs: number): Promise<number> {
+  const before = new Date(Date.now() - olderThanMs).toISOString();
+
+  const { data: abandoned, error: abandonedError } = await supabaseAdmin
+    .from('data_imports')
+    .update({ status: 'cancelled' })
+    .eq('status', 'reviewed')
+    .lt('updated_at', before)
+    .select('id');
+
+  if (abandonedError) {
+    throw new Error(`Failed to cancel abandoned data imports: ${abandonedError.message}`);
+  }
+
+  const { data: finished, error } = await supabaseAdmin
+    .from('data_imports')
+    .select('id, storage_path, status, attempts')
+    .not('storage_path', 'is', null)
+    .in('status', ['completed', 'cancelled', 'failed'])
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to fetch finished data imports: ${error.message}`);
+  }
+
+  for (const dataImport of finished || []) {
+    if (dataImport.status === 'failed' && dataImport.attempts < MAX_DATA_IMPORT_ATTEMPTS) {
+      continue; // Will be retried
+    }
+    await deleteImportArchive(supabaseAdmin, dataImport);
+  }
+
+  return abandoned?.length || 0;
+}
+
+async function runImport(supabaseAdmin: SupabaseClient, dataImport: DataImport): Promise<ImportOutcome> {
+  const startedAt = Date.now();
+
+  if (!dataImport.storage_path) {
+    await failImport(supabaseAdmin, dataImport, 'The uploaded archive was deleted', { permanent: true });
+    return 'failed';
+  }
+
+  const { data: file, error: downloadError } = await supabaseAdmin.storage
+    .from(EXPORT_BUCKET)
+    .download(dataImport.storage_path);
+
+  if (downloadError || !file) {
+    throw new Error(`Failed to download archive: ${downloadError?.message || 'File not found'}`);
+  }
+
+  if (file.size > MAX_IMPORT_ARCHIVE_BYTES) {
+    const message = `The archive is larger than ${Math.round(MAX_IMPORT_ARCHIVE_BYTES / (1024 * 1024))} MB`;
+    await failImport(supabaseAdmin, dataImport, message, { permanent: true });
+    return 'failed';
+  }
+
+  const parsed = parseDataExportArchive(Buffer.from(await file.arrayBuffer()));
+  if (!parsed.ok) {
+    // Retrying won't fix a broken archive
+    await failImport(supabaseAdmin, dataImport, parsed.error, { permanent: true });
+    return 'failed';
+  }
+
+  const target = await loadImportTarget(supabaseAdmin, dataImport.user_id);
+  const plan = planDataImport(dataImport.id, parsed.archive, target);
+
+  if (dataImport.mode === 'dry_run') {
+    await updateProcessingImport(supabaseAdmin, dataImport.id, {
+      status: 'reviewed',
+      report: plan.report,
+      last_error: null,
+    });
+    return 'reviewed';
+  }
+
+  const progress: DataImportProgress = { ...dataImport.progress };
+  await importPartners(supabaseAdmin, dataImport.user_id, plan);
+
+  if (!progress.activities_done) {
+    await importActivities(supabaseAdmin, plan);
+    progress.activities_done = true;
+    progress.activities = plan.report.activities;
+    await updateProcessingImport(supabaseAdmin, dataImport.id, { progress });
+  }
+
+  for (const photo of plan.photos) {
+    if (photo.action !== 'create') {
+      continue;
+    }
+
+    if (Date.now() - startedAt > IMPORT_TIME_BUDGET_MS) {
+      // Out of time: the next run continues with the photos not imported yet
+      await updateProcessingImport(supabaseAdmin, dataImport.id, {
+        status: 'pending',
+        progress,
+        next_attempt_at: new Date().toISOString(),
+      });
+      return 'continued';
+    }
+
+    const regenerated = await importPhoto(supabaseAdmin, photo, parsed.archive.files.get(photo.source.file!)!);
+    if (regenerated) {
+      progress.descriptors_regenerated = (progress.descriptors_regenerated || 0) + 1;
+    }
+    await updateProcessingImport(supabaseAdmin, dataImport.id, { progress });
+  }
+
+  await setProfilePictures(supabaseAdmin, plan, target);
+
+  const report: DataImportReport = {
+    ...plan.report,
+    activities: progress.activities || plan.report.activities,
+    photos: { ...plan.report.photos, descriptors_regenerated: progress.descriptors_regenerated || 0 },
+  };
+
+  await updateProcessingImport(supabaseAdmin, dataImport.id, {
+    status: 'completed',
+    report,
+    progress,
+    last_error: null,
+    completed_at: new Date().toISOString(),
+  });
+  await deleteImportArchive(supabaseAdmin, dataImport);
+
+  return 'completed';
+}
+
+async function importPartners(supabaseAdmin: SupabaseClient, userId: string, plan: ImportPlan): Promise<void> {
+  const rows = plan.partners
+    .filter((partner) => partner.action === 'create')
+    .map(({ source, partnerId }) => ({
+      id: partnerId,
+      user_id: userId,
+      first_name: source.first_name ?? null,
+      last_name: source.last_name ?? null,
+      email: source.email ?? null,
+      phone_number: source.phone_number ?? null,
+      description: source.description ?? null,
+      description_time: source.description_time ?? null,
+      facebook_profile: source.facebook_profile ?? null,
+      x_profile: source.x_profile ?? null,
+      linkedin_profile: source.linkedin_profile ?? null,
+      instagram_profile: source.instagram_profile ?? null,
+      black_flag: source.black_flag ?? false,
+      status: source.status ?? 'talking',
+      // Custom field values aren't imported: their field ids belong to the exporting account
+      tags: normalizePartnerTags(source.tags ?? [])
+        .filter((tag) => tag.length <= MAX_PARTNER_TAG_LENGTH)
+        .slice(0, MAX_PARTNER_TAGS),
+      ...(source.created_at && { created_at: source.created_at }),
+    }));
+
+  if (rows.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('partners')
+    .upsert(rows, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to import partners: ${error.message}`);
+  }
+}
+
+async function importActivities(supabaseAdmin: SupabaseClient, plan: ImportPlan): Promise<void> {
+  const rows = plan.activities
+    .filter((activity) => activity.action === 'create')
+    .map(({ source, partnerId }) => ({
+      partner_id: partnerId,
+      type: source.type,
+      start_time: source.start_time,
+      end_time: source.end_time ?? null,
+      location: source.location ?? null,
+      description: source.description ?? null,
+      imported_from: 'archive',
+      import_uid: source.id,
+    }));
+
+  for (let i = 0; i < rows.length; i += ACTIVITY_INSERT_BATCH) {
+    const { error } = await supabaseAdmin
+      .from('partner_notes')
+      .insert(rows.slice(i, i + ACTIVITY_INSERT_BATCH));
+
+    if (error) {
+      throw new Error(`Failed to import activities: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Upload one photo and create its record; returns whether the face descriptor was regenerated
+ */
+async function importPhoto(supabaseAdmin: SupabaseClient, photo: PlannedPhoto, file: Buffer): Promise<boolean> {
+  const { source } = photo;
+  let faceDescriptor = source.face_descriptor ?? null;
+  let width = source.width ?? null;
+  let height = source.height ?? null;
+  let regenerated = false;
+
+  if (!faceDescriptor) {
+    try {
+      const detection = await detectFacesInImage(file);
+      width = detection.imageWidth;
+      height = detection.imageHeight;
+      // Same rule as uploads: a descriptor is only kept for a single face
+      if (detection.detections.length === 1) {
+        faceDescriptor = detection.detections[0].descriptor;
+        regenerated = true;
+      }
+    } catch (detectionError) {
+      // The photo is still worth importing without face matching
+      console.error('[Data Import] Face detection failed:', { photoId: source.id, error: detectionError });
+    }
+  }
+
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from('partner-photos')
+    .upload(photo.storagePath!, file, {
+      contentType: source.mime_type || 'image/jpeg',
+      upsert: true,
+    });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload photo: ${uploadError.message}`);
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('partner_photos')
+    .upsert(
+      {
+        id: photo.photoId,
+        partner_id: photo.partnerId,
+        storage_path: photo.storagePath,
+        file_name: source.file_name || `${photo.photoId}.${getFileExtension(source)}`,
+        file_size: source.file_size ?? file.length,
+        mime_type: source.mime_type ?? null,
+        width,
+        height,
+        face_descriptor: faceDescriptor,
+        face_detection_attempted: true,
+        ...(source.uploaded_at && { uploaded_at: source.uploaded_at }),
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+  if (insertError) {
+    throw new Error(`Failed to save photo record: ${insertError.message}`);
+  }
+
+  return regenerated;
+}
+
+/**
+ * Restore profile pictures of imported partners; partners that already had one keep it
+ */
+async function setProfilePictures(supabaseAdmin: SupabaseClient, plan: ImportPlan, target: ImportTarget): Promise<void> {
+  const withPicture = new Set(
+    target.partners.filter((partner) => partner.profile_picture_storage_path).map((partner) => partner.id)
+  );
+
+  for (const partner of plan.partners) {
+    if (!partner.partnerId || partner.action === 'skip' || withPicture.has(partner.partnerId)) {
+      continue;
+    }
+
+    const photos = plan.photos.filter(
+      (photo) => photo.source.partner_id === partner.source.id && (photo.action === 'create' || photo.action === 'created')
+    );
+    const picture = photos.find((photo) => photo.source.storage_path === partner.source.profile_picture_storage_path) || photos[0];
+    if (!picture) {
+      continue;
+    }
+
+    await supabaseAdmin
+      .from('partners')
+      .update({ profile_picture_storage_path: picture.storagePath, updated_at: new Date().toISOString() })
+      .eq('id', partner.partnerId)
+      .is('profile_picture_storage_path', null);
+  }
+}
+
+async function updateProcessingImport(
+  supabaseAdmin: SupabaseClient,
+  importId: string,
+  updates: Partial<Pick<DataImport, 'status' | 'report' | 'progress' | 'last_error' | 'next_attempt_at' | 'completed_at'>>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('data_imports')
+    .update(updates)
+    .eq('id', importId)
+    .eq('status', 'processing');
+
+  if (error) {
+    throw new Error(`Failed to update data import: ${error.message}`);
+  }
+}
+
+async function failImport(
+  supabaseAdmin: SupabaseClient,
+  dataImport: DataImport,
+  message: string,
+  options: { permanent?: boolean } = {}
+): Promise<void> {
+  const attempts = options.permanent ? MAX_DATA_IMPORT_ATTEMPTS : dataImport.attempts + 1;
+
+  await supabaseAdmin
+    .from('data_imports')
+    .update({
+      status: 'failed',
+      attempts,
+      last_error: attempts >= MAX_DATA_IMPORT_ATTEMPTS && !options.permanent
+        ? `${message} (gave up after ${attempts} attempts)`
+        : message,
+      next_attempt_at: new Date(Date.now() + getDataImportRetryDelayMs(attempts)).toISOString(),
+    })
+    .eq('id', dataImport.id)
+    .eq('status', 'processing');
+}
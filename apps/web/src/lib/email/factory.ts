@@ -0,0 +1,41 @@
+import { IEmailTransport } from './types';
+import { MemoryEmailTransport } from './providers/memory';
+import { ResendEmailTransport } from './providers/resend';
+
+export type EmailTransportType = 'memory' | 'resend';
+
+/**
+ * Factory to create email transports
+ */
+export function createEmailTransport(type: EmailTransportType): IEmailTransport {
+  switch (type) {
+    case 'memory':
+      return new MemoryEmailTransport(true);
+
+    case 'resend': {
+      const apiKey = process.env.RESEND_API_KEY;
+      const from = process.env.EMAIL_FROM;
+      if (!apiKey || !from) {
+        throw new Error('RESEND_API_KEY and EMAIL_FROM must be set to send emails with Resend');
+      }
+      return new ResendEmailTransport(apiKey, from, process.env.RESEND_BASE_URL || undefined);
+    }
+
+    default:
+      throw new Error(`Unknown email transport: ${type}`);
+  }
+}
+
+/**
+ * Get transport from environment variable
+ * The memory transport delivers nothing, so it is only the default under
+ * tests; elsewhere it has to be chosen explicitly (EMAIL_TRANSPORT=memory).
+ */
+export function getEmailTransport(): IEmailTransport {
+  const transportType = process.env.EMAIL_TRANSPORT || (process.env.NODE_ENV === 'test' ? 'memory' : undefined);
+  if (!transportType) {
+    throw new Error('EMAIL_TRANSPORT must be set to send emails ("resend", or "memory" to only record them)');
+  }
+
+  return createEmailTransport(transportType as EmailTransportType);
+}
@@ -0,0 +1,21 @@
+import type { EmailMessage, IEmailTransport } from '../types';
+
+/**
+ * In-memory email transport
+ *
+ * Keeps sent messages in `messages` instead of delivering them: the sink for
+ * tests and local development. Logging only notes that a message was kept,
+ * not its recipient or content.
+ */
+export class MemoryEmailTransport implements IEmailTransport {
+  messages: EmailMessage[] = [];
+
+  constructor(private log = false) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.messages.push(message);
+    if (this.log) {
+      console.log('[Email] (not sent) Message kept in memory');
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import type { EmailMessage, IEmailTransport } from '../types';
+
+const RESEND_API_URL = 'https://api.resend.com';
+
+/**
+ * Resend email transport (https://resend.com/docs/api-reference/emails/send-email)
+ */
+export class ResendEmailTransport implements IEmailTransport {
+  constructor(
+    private apiKey: string,
+    private from: string,
+    private baseUrl = RESEND_API_URL
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/emails`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(`Resend error ${response.status}: ${body.message || response.statusText}`);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Email Transport Interface
+ *
+ * Sends transactional emails (reminders). send() throws when the message
+ * could not be handed over to the provider.
+ */
+export interface IEmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,86 @@
+/**
+ * Face Match Threshold Calibration
+ *
+ * Measures how well each threshold separates the user's own partners. Photo
+ * pairs of the same partner are labelled "same person" and pairs across
+ * partners "different people"; at each threshold we count false matches
+ * (different people scoring at or above it) and missed matches (the same
+ * person scoring below it).
+ */
+
+import type { PartnerPhoto } from '@/shared';
+import { calculateFaceSimilarity, FACE_DESCRIPTOR_LENGTH, parseFaceDescriptor } from './face-matching';
+
+// Thresholds reported by the calibration (includes every preset)
+export const CALIBRATION_THRESHOLDS = [0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5, 0.55, 0.6, 0.65, 0.7];
+
+// Most recent photos compared; pairs grow quadratically with the photo count
+export const MAX_CALIBRATION_PHOTOS = 400;
+
+export type CalibrationPhoto = Pick<PartnerPhoto, 'id' | 'partner_id' | 'face_descriptor'>;
+
+export interface ThresholdCalibrationResult {
+  threshold: number;
+  falseMatches: number;
+  missedMatches: number;
+  falseMatchRate: number | null; // null when there are no different-people pairs
+  missedMatchRate: number | null; // null when there are no same-person pairs
+}
+
+export interface FaceMatchCalibration {
+  photoCount: number; // Photos with a usable face descriptor
+  partnerCount: number;
+  samePersonPairs: number;
+  differentPersonPairs: number;
+  results: ThresholdCalibrationResult[];
+}
+
+/**
+ * Compare every pair of photos and report error rates per threshold
+ */
+export function calibrateFaceMatchThreshold(
+  photos: CalibrationPhoto[],
+  thresholds: number[] = CALIBRATION_THRESHOLDS
+): FaceMatchCalibration {
+  const faces: { partner_id: string; descriptor: number[] }[] = [];
+  for (const photo of photos) {
+    if (!photo.face_descriptor) continue;
+    const descriptor = parseFaceDescriptor(photo.face_descriptor);
+    if (descriptor && descriptor.length === FACE_DESCRIPTOR_LENGTH) {
+      faces.push({ partner_id: photo.partner_id, descriptor });
+    }
+  }
+
+  const samePerson: number[] = [];
+  const differentPeople: number[] = [];
+  for (let i = 0; i < faces.length; i++) {
+    for (let j = i + 1; j < faces.length; j++) {
+      const similarity = calculateFaceSimilarity(faces[i].descriptor, faces[j].descriptor);
+      if (faces[i].partner_id === faces[j].partner_id) {
+        samePerson.push(similarity);
+      } else {
+        differentPeople.push(similarity);
+      }
+    }
+  }
+
+  const results = thresholds.map((threshold) => {
+    const falseMatches = differentPeople.filter((similarity) => similarity >= threshold).length;
+    const missedMatches = samePerson.filter((similarity) => similarity < threshold).length;
+    return {
+      threshold,
+      falseMatches,
+      missedMatches,
+      falseMatchRate: differentPeople.length > 0 ? falseMatches / differentPeople.length : null,
+      missedMatchRate: samePerson.length > 0 ? missedMatches / samePerson.length : null,
+    };
+  });
+
+  return {
+    photoCount: faces.length,
+    partnerCount: new Set(faces.map((face) => face.partner_id)).size,
+    samePersonPairs: samePerson.length,
+    differentPersonPairs: differentPeople.length,
+    results,
+  };
+}
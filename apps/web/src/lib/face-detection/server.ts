@@ -0,0 +1,309 @@
+import * as faceapi from 'face-api.js';
+import * as tf from '@tensorflow/tfjs';
+import { createCanvas, loadImage, Image as CanvasImage, Canvas as CanvasClass, ImageData as CanvasImageData } from 'canvas';
+import path from 'path';
+import {
+  validateFaceDetection,
+  getDefaultConfig,
+  type LandmarkPosition
+} from '@dating-app/shared';
+import type { FaceDescriptor } from './types';
+
+/**
+ * Server-side face detection (Node.js canvas + face-api.js)
+ *
+ * Shared by /api/face-detection/detect and the bulk photo upload queue so
+ * both detect and validate faces exactly the same way.
+ */
+
+export type FaceDetectionOutcome = 'no_face' | 'multiple_faces' | 'face_too_small' | 'success';
+
+export interface ServerFaceDetection {
+  descriptor: FaceDescriptor;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  confidence: number;
+}
+
+export interface ServerFaceDetectionResult {
+  detections: ServerFaceDetection[]; // Valid faces only
+  outcome: FaceDetectionOutcome;
+  imageWidth: number;
+  imageHeight: number;
+  rawDetectionCount: number;
+  filteredCount: number; // Faces dropped by quality validation
+  validationReasons: string[];
+  faceSizePercentage?: number; // Of the first valid face
+  error: string | null; // Set when there is no valid face
+  diagnostics?: Record<string, any>; // Set when there is no valid face
+}
+
+// face-api.js bundles its own TensorFlow.js, but we need to ensure TensorFlow is initialized
+// with the CPU backend before face-api.js tries to use it
+let tfInitialized = false;
+let modelsLoaded = false;
+const MODEL_PATH = path.join(process.cwd(), 'public', 'models');
+
+// Resize if too large (max 600px on longest side) - same as web app
+const MAX_DIMENSION = 600;
+
+async function initializeTensorFlow() {
+  if (tfInitialized) return;
+
+  console.log('[Face Detection] Initializing TensorFlow.js CPU backend...');
+
+  // CRITICAL: Monkey patch face-api.js FIRST, before any TensorFlow operations
+  // This must be done first so face-api.js knows about Node.js canvas elements
+  faceapi.env.monkeyPatch({
+    Canvas: CanvasClass as any,
+    Image: CanvasImage as any,
+    ImageData: CanvasImageData as any
+  });
+  console.log('[Face Detection] Monkey patched face-api.js for Node.js canvas (Canvas, Image, ImageData)');
+
+  // Initialize TensorFlow.js CPU backend
+  // This ensures TensorFlow is ready before face-api.js tries to use it
+  // face-api.js will use this initialized TensorFlow instance
+  console.log('[Face Detection] Setting CPU backend...');
+  await tf.setBackend('cpu');
+  console.log('[Face Detection] Backend set, waiting for ready...');
+  await tf.ready();
+
+  tfInitialized = true;
+  console.log('[Face Detection] TensorFlow.js CPU backend initialized');
+}
+
+/**
+ * Load the face-api.js models from public/models (once per server instance)
+ */
+export async function loadFaceDetectionModels() {
+  if (modelsLoaded) return;
+
+  try {
+    // Initialize TensorFlow FIRST (this also patches canvas)
+    await initializeTensorFlow();
+
+    // Now load face-api.js models
+    // face-api.js will use the initialized TensorFlow instance
+    console.log(`[Face Detection] Loading models from: ${MODEL_PATH}`);
+    console.log('[Face Detection] Loading ssdMobilenetv1...');
+    await faceapi.nets.ssdMobilenetv1.loadFromDisk(MODEL_PATH);
+    console.log('[Face Detection] Loading faceLandmark68Net...');
+    await faceapi.nets.faceLandmark68Net.loadFromDisk(MODEL_PATH);
+    console.log('[Face Detection] Loading faceRecognitionNet...');
+    await faceapi.nets.faceRecognitionNet.loadFromDisk(MODEL_PATH);
+    console.log('[Face Detection] All models loaded from disk');
+
+    modelsLoaded = true;
+    console.log('[Face Detection] Models loaded successfully');
+  } catch (error) {
+    console.error('[Face Detection] Error loading models:', error);
+    throw error;
+  }
+}
+
+/**
+ * Detect and validate all faces in an image
+ * Bounding boxes are returned in original image coordinates.
+ */
+export async function detectFacesInImage(buffer: Buffer): Promise<ServerFaceDetectionResult> {
+  await loadFaceDetectionModels();
+
+  // Load image using canvas (Node.js compatible)
+  console.log('[Face Detection] Loading image...');
+  const img = await loadImage(buffer);
+  console.log(`[Face Detection] Image loaded: ${img.width}x${img.height}`);
+
+  // Store original dimensions before any resizing
+  const originalWidth = img.width;
+  const originalHeight = img.height;
+
+  // Create canvas and draw image
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(img, 0, 0);
+
+  let inputCanvas = canvas;
+
+  if (img.width > MAX_DIMENSION || img.height > MAX_DIMENSION) {
+    const scale = Math.min(MAX_DIMENSION / img.width, MAX_DIMENSION / img.height);
+    const newWidth = Math.round(img.width * scale);
+    const newHeight = Math.round(img.height * scale);
+
+    const resizedCanvas = createCanvas(newWidth, newHeight);
+    const resizedCtx = resizedCanvas.getContext('2d');
+    resizedCtx.drawImage(img, 0, 0, newWidth, newHeight);
+    inputCanvas = resizedCanvas;
+  }
+
+  // Detect all faces using face-api.js (same algorithm as web app)
+  // The canvas package provides Node.js-compatible HTMLCanvasElement
+  // face-api.js should work with it directly
+  console.log('[Face Detection] Starting face detection...');
+  const detectionStart = Date.now();
+  const detections = await faceapi
+    .detectAllFaces(inputCanvas as any)
+    .withFaceLandmarks()
+    .withFaceDescriptors();
+  const detectionDuration = Date.now() - detectionStart;
+  console.log(`[Face Detection] Detection completed in ${(detectionDuration / 1000).toFixed(2)}s`);
+  console.log(`[Face Detection] Found ${detections.length} face(s)`);
+
+  // Scale bounding boxes back to original size if we resized
+  // This ensures coordinates are in original image space (matching web app behavior)
+  const inputWidth = inputCanvas.width;
+  const inputHeight = inputCanvas.height;
+  const scaleX = originalWidth / inputWidth;
+  const scaleY = originalHeight / inputHeight;
+
+  console.log(`[Face Detection] Scaling coordinates: input=${inputWidth}x${inputHeight}, original=${originalWidth}x${originalHeight}, scale=${scaleX.toFixed(3)}x${scaleY.toFixed(3)}`);
+
+  // Get quality config
+  const qualityConfig = getDefaultConfig();
+
+  // Validate each detection using shared validation
+  const validationResults = detections.map(detection => {
+    // Scale bounding box to original dimensions
+    const boundingBox = {
+      x: detection.detection.box.x * scaleX,
+      y: detection.detection.box.y * scaleY,
+      width: detection.detection.box.width * scaleX,
+      height: detection.detection.box.height * scaleY,
+    };
+
+    // Extract landmarks if available (scale to original dimensions)
+    const landmarks: LandmarkPosition[] | undefined = detection.landmarks
+      ? detection.landmarks.positions.map(pos => ({
+          x: pos.x * scaleX,
+          y: pos.y * scaleY,
+        }))
+      : undefined;
+
+    // Validate face quality
+    const validationResult = validateFaceDetection(
+      boundingBox,
+      { width: originalWidth, height: originalHeight },
+      landmarks,
+      detection.detection.score,
+      qualityConfig
+    );
+
+    console.log(`[Face Detection] Detection validation: confidence=${detection.detection.score.toFixed(3)}, valid=${validationResult.isValid}, reasons=${validationResult.reasons.join('; ')}`);
+
+    return {
+      detection,
+      boundingBox,
+      validationResult,
+    };
+  });
+
+  // Filter to only valid detections
+  const validatedDetections = validationResults.filter(item => item.validationResult.isValid);
+  const invalidDetections = validationResults.filter(item => !item.validationResult.isValid);
+
+  // Group invalid detections by reason for diagnostics
+  const invalidByReason: Record<string, Array<{ confidence: number; reasons: string[] }>> = {};
+  invalidDetections.forEach(item => {
+    item.validationResult.reasons.forEach(reason => {
+      if (!invalidByReason[reason]) {
+        invalidByReason[reason] = [];
+      }
+      invalidByReason[reason].push({
+        confidence: item.detection.detection.score,
+        reasons: item.validationResult.reasons,
+      });
+    });
+  });
+
+  console.log(`[Face Detection] Filtered to ${validatedDetections.length} valid face(s) (out of ${detections.length} total detections)`);
+  if (invalidDetections.length > 0) {
+    console.log(`[Face Detection] Invalid detections by reason:`, invalidByReason);
+  }
+
+  // Collect all validation reasons from invalid detections
+  const validationReasons = Array.from(new Set(
+    invalidDetections.flatMap(item => item.validationResult.reasons)
+  ));
+
+  // Determine outcome
+  let outcome: FaceDetectionOutcome;
+  if (validatedDetections.length === 0) {
+    if (detections.length === 0) {
+      outcome = 'no_face';
+    } else {
+      // Check if the reason is face too small
+      const hasFaceTooSmall = validationReasons.some(reason =>
+        reason.toLowerCase().includes('face') && reason.toLowerCase().includes('small')
+      );
+      outcome = hasFaceTooSmall ? 'face_too_small' : 'no_face';
+    }
+  } else if (validatedDetections.length > 1) {
+    outcome = 'multiple_faces';
+  } else {
+    outcome = 'success';
+  }
+
+  // Calculate face size percentage if applicable (for the first valid detection)
+  let faceSizePercentage: number | undefined;
+  if (validatedDetections.length > 0) {
+    const firstDetection = validatedDetections[0];
+    const faceArea = firstDetection.boundingBox.width * firstDetection.boundingBox.height;
+    const imageArea = originalWidth * originalHeight;
+    faceSizePercentage = (faceArea / imageArea) * 100;
+  }
+
+  const result: ServerFaceDetectionResult = {
+    detections: validatedDetections.map((item) => ({
+      descriptor: Array.from(item.detection.descriptor),
+      boundingBox: item.boundingBox,
+      confidence: item.detection.detection.score,
+    })),
+    outcome,
+    imageWidth: originalWidth,
+    imageHeight: originalHeight,
+    rawDetectionCount: detections.length,
+    filteredCount: detections.length - validatedDetections.length,
+    validationReasons,
+    faceSizePercentage,
+    error: null,
+  };
+
+  if (validatedDetections.length === 0) {
+    // Build detailed diagnostic information
+    const diagnostics: Record<string, any> = {
+      imageDimensions: {
+        original: { width: originalWidth, height: originalHeight },
+        processed: { width: inputWidth, height: inputHeight },
+      },
+      thresholds: {
+        minConfidence: qualityConfig.minConfidence,
+        minFaceSize: qualityConfig.minPixelSize,
+        minFaceAreaPercentage: qualityConfig.minFaceAreaPercentage,
+        minRelativeSize: qualityConfig.minRelativeSize,
+        aspectRatioMin: qualityConfig.minAspectRatio,
+        aspectRatioMax: qualityConfig.maxAspectRatio,
+        minLandmarkCoverage: qualityConfig.minLandmarkCoverage,
+      },
+      rawDetections: detections.length,
+      validatedDetections: validatedDetections.length,
+      invalidDetections: invalidDetections.length,
+      invalidByReason,
+    };
+
+    if (detections.length === 0) {
+      diagnostics.reason = 'No faces detected by the model';
+    } else {
+      // Get the first reason from the first invalid detection
+      const firstInvalid = invalidDetections[0];
+      diagnostics.reason = firstInvalid?.validationResult.reasons[0] || 'Face(s) detected but validation failed';
+      diagnostics.allReasons = invalidDetections.flatMap(d => d.validationResult.reasons);
+    }
+
+    // Get error message from first invalid detection
+    result.error = invalidDetections.length > 0
+      ? invalidDetections[0].validationResult.reasons[0]
+      : 'No faces detected';
+    result.diagnostics = diagnostics;
+  }
+
+  return result;
+}
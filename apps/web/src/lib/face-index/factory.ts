@@ -0,0 +1,38 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { IFaceIndex } from './types';
+import { MemoryFaceIndex } from './providers/memory-index';
+import { PgvectorFaceIndex } from './providers/pgvector-index';
+
+export type FaceIndexType = 'memory' | 'pgvector';
+
+/**
+ * Factory to create face indexes
+ *
+ * The index queries with the given client, so row level security scopes the
+ * search to the signed-in user's photos.
+ */
+export function createFaceIndex(
+  supabase: SupabaseClient,
+  type: FaceIndexType = 'memory'
+): IFaceIndex {
+  switch (type) {
+    case 'memory':
+      return new MemoryFaceIndex(supabase);
+
+    case 'pgvector':
+      return new PgvectorFaceIndex(supabase);
+
+    default:
+      throw new Error(`Unknown face index: ${type}`);
+  }
+}
+
+/**
+ * Get index from environment variable or default
+ * (FACE_INDEX=pgvector requires migration 026 and the vector extension)
+ */
+export function getFaceIndex(supabase: SupabaseClient): IFaceIndex {
+  const indexType = (process.env.FACE_INDEX || 'memory') as FaceIndexType;
+
+  return createFaceIndex(supabase, indexType);
+}
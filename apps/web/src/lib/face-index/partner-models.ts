@@ -0,0 +1,132 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FaceMatch, PartnerFaceScore } from '@/shared';
+import type { FaceDescriptor } from '@/lib/face-detection/types';
+import { calculateFaceSimilarity, getDefaultFaceMatchThreshold } from '@/lib/face-matching';
+import type { IFaceIndex, FaceIndexQuery } from './types';
+
+/**
+ * A partner's face model: the mean of their photo face descriptors and how
+ * far those faces lie from it. Maintained by a trigger on partner_photos
+ * (see migration 027), so it is current after every upload and delete.
+ */
+export interface PartnerFaceModel {
+  partner_id: string;
+  centroid: number[];
+  spread: number;
+  photo_count: number;
+}
+
+// A partner whose photos vary a lot (years apart, glasses, beard) gets a wider
+// match distance: this share of their spread, up to the allowance below, so a
+// scattered model can't end up matching everyone
+export const FACE_MODEL_SPREAD_WEIGHT = 0.5;
+export const MAX_FACE_MODEL_SPREAD_ALLOWANCE = 0.1;
+
+interface PartnerFaceModelRow {
+  partner_id: string;
+  centroid: string | number[]; // pgvector columns are returned as '[1,2,...]'
+  spread: number;
+  photo_count: number;
+}
+
+/**
+ * Load the face models of the given partners (partners without face photos have none)
+ */
+export async function loadPartnerFaceModels(
+  supabase: SupabaseClient,
+  partnerIds: string[]
+): Promise<PartnerFaceModel[]> {
+  if (partnerIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('partner_face_models')
+    .select('partner_id, centroid, spread, photo_count')
+    .in('partner_id', partnerIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch partner face models: ${error.message}`);
+  }
+
+  return ((data || []) as PartnerFaceModelRow[]).map((row) => ({
+    partner_id: row.partner_id,
+    centroid: typeof row.centroid === 'string' ? JSON.parse(row.centroid) : row.centroid,
+    spread: row.spread,
+    photo_count: row.photo_count,
+  }));
+}
+
+/**
+ * Lowest similarity to a partner's centroid that still matches the partner:
+ * the match threshold, lowered (the distance widened) by part of their spread
+ */
+export function getPartnerFaceMatchThreshold(model: Pick<PartnerFaceModel, 'spread'>, threshold: number): number {
+  return threshold - Math.min(model.spread * FACE_MODEL_SPREAD_WEIGHT, MAX_FACE_MODEL_SPREAD_ALLOWANCE);
+}
+
+/**
+ * Score a face against partner face models
+ *
+ * A partner matches when the face is within the match threshold of their
+ * centroid, widened by their spread (see getPartnerFaceMatchThreshold): a new
+ * photo of a partner whose photos differ a lot is expected further from the
+ * centroid than one of a partner whose photos all look alike.
+ * Photo matches only add detail (matchCount); a single photo that
+ * happens to look alike doesn't make a partner match on its own, and a
+ * partner can match even when no individual photo does.
+ * Returns matching partners sorted by similarity (highest first).
+ * (partner_name / partner_profile_picture are left for the caller to fill in)
+ */
+export function scorePartnerFaceModels(
+  descriptor: FaceDescriptor,
+  models: PartnerFaceModel[],
+  photoMatches: FaceMatch[],
+  threshold: number = getDefaultFaceMatchThreshold()
+): PartnerFaceScore[] {
+  const matchCounts = new Map<string, number>();
+  for (const match of photoMatches) {
+    matchCounts.set(match.partner_id, (matchCounts.get(match.partner_id) || 0) + 1);
+  }
+
+  const scores: PartnerFaceScore[] = [];
+  for (const model of models) {
+    const similarity = calculateFaceSimilarity(descriptor, model.centroid);
+    if (similarity < getPartnerFaceMatchThreshold(model, threshold)) {
+      continue;
+    }
+
+    scores.push({
+      partner_id: model.partner_id,
+      partner_name: null, // Will be populated by caller
+      partner_profile_picture: null, // Will be populated by caller
+      similarity,
+      confidence: similarity * 100, // Convert to percentage
+      matchCount: matchCounts.get(model.partner_id) || 0,
+      photoCount: model.photo_count,
+      spread: model.spread,
+    });
+  }
+
+  return scores.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Find matching partners and matching photos for a face in one go
+ */
+export async function findPartnerFaceMatches(
+  supabase: SupabaseClient,
+  faceIndex: IFaceIndex,
+  descriptor: FaceDescriptor,
+  query: FaceIndexQuery
+): Promise<{ scores: PartnerFaceScore[]; matches: FaceMatch[] }> {
+  const [models, matches] = await Promise.all([
+    loadPartnerFaceModels(supabase, query.partnerIds),
+    faceIndex.findMatches(descriptor, query),
+  ]);
+
+  return {
+    scores: scorePartnerFaceModels(descriptor, models, matches, query.threshold),
+    matches,
+  };
+}
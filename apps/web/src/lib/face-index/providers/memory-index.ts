@@ -0,0 +1,74 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FaceMatch, PartnerPhoto } from '@/shared';
+import type { FaceDescriptor } from '@/lib/face-detection/types';
+import { findFaceMatches, getDefaultFaceMatchThreshold } from '@/lib/face-matching';
+import type { IFaceIndex, FaceIndexQuery } from '../types';
+
+type FaceIndexEntry = Pick<PartnerPhoto, 'id' | 'partner_id' | 'face_descriptor'>;
+
+/**
+ * In-memory face index
+ *
+ * Loads the descriptors of the searched partners and scans them linearly in
+ * Node. Works without any database extension; pass `entries` to search a
+ * fixed set of faces instead of loading them from Supabase.
+ */
+export class MemoryFaceIndex implements IFaceIndex {
+  constructor(
+    private supabase: SupabaseClient | null,
+    private entries: FaceIndexEntry[] | null = null
+  ) {}
+
+  private async loadEntries(partnerIds: string[]): Promise<FaceIndexEntry[]> {
+    if (partnerIds.length === 0) {
+      return [];
+    }
+
+    if (this.entries) {
+      const ids = new Set(partnerIds);
+      return this.entries.filter((entry) => ids.has(entry.partner_id) && entry.face_descriptor);
+    }
+
+    if (!this.supabase) {
+      throw new Error('MemoryFaceIndex needs a Supabase client or entries');
+    }
+
+    // Only the columns needed for matching, not whole photo rows
+    const { data, error } = await this.supabase
+      .from('partner_photos')
+      .select('id, partner_id, face_descriptor')
+      .in('partner_id', partnerIds)
+      .not('face_descriptor', 'is', null)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to fetch face descriptors: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async findMatches(descriptor: FaceDescriptor, query: FaceIndexQuery): Promise<FaceMatch[]> {
+    const entries = await this.loadEntries(query.partnerIds);
+    return findFaceMatches(descriptor, entries, query.threshold ?? getDefaultFaceMatchThreshold());
+  }
+
+  async countFaces(partnerIds: string[]): Promise<number> {
+    if (this.entries || partnerIds.length === 0) {
+      return (await this.loadEntries(partnerIds)).length;
+    }
+
+    const { count, error } = await this.supabase!
+      .from('partner_photos')
+      .select('id', { count: 'exact', head: true })
+      .in('partner_id', partnerIds)
+      .not('face_descriptor', 'is', null)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to count face descriptors: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+}
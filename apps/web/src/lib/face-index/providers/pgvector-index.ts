@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FaceMatch } from '@/shared';
+import type { FaceDescriptor } from '@/lib/face-detection/types';
+import { getDefaultFaceMatchThreshold, isFaceMatch, FACE_DESCRIPTOR_LENGTH } from '@/lib/face-matching';
+import type { IFaceIndex, FaceIndexQuery } from '../types';
+
+// Largest difference between single and double precision distances is far below this
+export const FACE_EMBEDDING_DISTANCE_MARGIN = 1e-4;
+
+interface FaceDistanceRow {
+  photo_id: string;
+  partner_id: string;
+  distance: number;
+}
+
+/**
+ * pgvector face index
+ *
+ * Searches partner_photos.face_embedding (vector(128), kept in sync with
+ * face_descriptor by a trigger, see migration 026) with the
+ * match_partner_photo_faces SQL function. Distances are computed in Postgres
+ * and only matches are returned, so descriptors never leave the database.
+ *
+ * The search is exact (L2 distance with a range filter, no approximate
+ * index). face_embedding is single precision, so it only narrows down the
+ * candidates, with a margin; the distances returned are computed in double
+ * precision from face_descriptor (migration 047) and the threshold is applied
+ * here as in the in-memory scan, so both indexes match the same faces.
+ */
+export class PgvectorFaceIndex implements IFaceIndex {
+  constructor(private supabase: SupabaseClient) {}
+
+  async findMatches(descriptor: FaceDescriptor, query: FaceIndexQuery): Promise<FaceMatch[]> {
+    // Descriptors of another length never match (see calculateFaceSimilarity)
+    if (query.partnerIds.length === 0 || descriptor.length !== FACE_DESCRIPTOR_LENGTH) {
+      return [];
+    }
+
+    const threshold = query.threshold ?? getDefaultFaceMatchThreshold();
+
+    const { data, error } = await this.supabase.rpc('match_partner_photo_faces', {
+      query_descriptor: descriptor,
+      partner_ids: query.partnerIds,
+      // similarity = 1 - min(distance, 1), so similarity >= threshold <=> distance <= 1 - threshold
+      // (a threshold of 0 matches every face, however far)
+      max_distance: threshold > 0 ? 1 - threshold + FACE_EMBEDDING_DISTANCE_MARGIN : null,
+    });
+
+    if (error) {
+      throw new Error(`Face index query failed: ${error.message}`);
+    }
+
+    const matches: FaceMatch[] = [];
+    for (const row of (data || []) as FaceDistanceRow[]) {
+      const similarity = Math.max(0, 1 - Math.min(row.distance, 1));
+      if (!isFaceMatch(similarity, threshold)) continue;
+
+      matches.push({
+        photo_id: row.photo_id,
+        partner_id: row.partner_id,
+        partner_name: null, // Will be populated by caller
+        partner_profile_picture: null, // Will be populated by caller
+        similarity,
+        confidence: similarity * 100, // Convert to percentage
+      });
+    }
+    return matches;
+  }
+
+  async countFaces(partnerIds: string[]): Promise<number> {
+    if (partnerIds.length === 0) {
+      return 0;
+    }
+
+    const { count, error } = await this.supabase
+      .from('partner_photos')
+      .select('id', { count: 'exact', head: true })
+      .in('partner_id', partnerIds)
+      .not('face_embedding', 'is', null)
+      .is('deleted_at', null);
+
+    if (error) {
+      throw new Error(`Failed to count face descriptors: ${error.message}`);
+    }
+
+    return count || 0;
+  }
+}
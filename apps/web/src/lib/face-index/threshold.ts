@@ -0,0 +1,25 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getDefaultFaceMatchThreshold, resolveFaceMatchThreshold } from '@/lib/face-matching';
+
+/**
+ * Face match threshold for a user (users.face_match_threshold, else the
+ * server default). Falls back to the server default if the setting can't be
+ * read, so a settings problem never blocks photo analysis.
+ */
+export async function getUserFaceMatchThreshold(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('face_match_threshold')
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching face match threshold:', error);
+    return getDefaultFaceMatchThreshold();
+  }
+
+  return resolveFaceMatchThreshold(data?.face_match_threshold);
+}
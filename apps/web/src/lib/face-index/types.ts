@@ -0,0 +1,31 @@
+import type { FaceMatch } from '@/shared';
+import type { FaceDescriptor } from '@/lib/face-detection/types';
+
+/**
+ * Which stored faces a query searches
+ */
+export interface FaceIndexQuery {
+  partnerIds: string[]; // Only photos of these partners are searched
+  threshold?: number; // Minimum similarity (defaults to getDefaultFaceMatchThreshold())
+}
+
+/**
+ * Face Index Interface
+ *
+ * Nearest-neighbour search over stored partner photo face descriptors.
+ * Every implementation must return the same matches as findFaceMatches:
+ * similarity = 1 - min(euclidean distance, 1), kept when similarity >= threshold,
+ * sorted by similarity (highest first).
+ */
+export interface IFaceIndex {
+  /**
+   * Find photos whose face matches the descriptor
+   * (partner_name / partner_profile_picture are left for the caller to fill in)
+   */
+  findMatches(descriptor: FaceDescriptor, query: FaceIndexQuery): Promise<FaceMatch[]>;
+
+  /**
+   * Number of photos with a face descriptor among the given partners
+   */
+  countFaces(partnerIds: string[]): Promise<number>;
+}
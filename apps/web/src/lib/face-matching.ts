@@ -1,26 +1,123 @@
 import { PartnerPhoto, FaceMatch } from '@/shared';
 
+// Similarity threshold (0.4 = 0.6 Euclidean distance)
+export const DEFAULT_FACE_MATCH_THRESHOLD = 0.4;
+
+// Threshold settings users can choose from (higher = stricter)
+export const FACE_MATCH_THRESHOLD_PRESETS = {
+  strict: 0.5,
+  balanced: DEFAULT_FACE_MATCH_THRESHOLD,
+  lenient: 0.3,
+} as const;
+
+export type FaceMatchThresholdPreset = keyof typeof FACE_MATCH_THRESHOLD_PRESETS;
+
+// Allowed range for configured thresholds (0 would match every face)
+export const MIN_FACE_MATCH_THRESHOLD = 0.05;
+export const MAX_FACE_MATCH_THRESHOLD = 0.95;
+
+// face-api.js descriptors are 128-dimensional
+export const FACE_DESCRIPTOR_LENGTH = 128;
+
 /**
- * Calculate similarity between two face descriptors
- * 
- * Note: This is a generic implementation. For provider-specific optimizations,
- * use the provider's calculateSimilarity method directly.
+ * Check a configured threshold is a number within the allowed range
  */
-export function calculateFaceSimilarity(
+export function isValidFaceMatchThreshold(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= MIN_FACE_MATCH_THRESHOLD &&
+    value <= MAX_FACE_MATCH_THRESHOLD
+  );
+}
+
+/**
+ * Server-wide threshold: FACE_MATCH_THRESHOLD env var, or the default
+ */
+export function getDefaultFaceMatchThreshold(): number {
+  const configured = process.env.FACE_MATCH_THRESHOLD;
+  const value = configured ? Number(configured) : NaN;
+  return isValidFaceMatchThreshold(value) ? value : DEFAULT_FACE_MATCH_THRESHOLD;
+}
+
+/**
+ * Threshold to match with: the user's own setting, else the server-wide one
+ */
+export function resolveFaceMatchThreshold(userThreshold?: number | null): number {
+  return isValidFaceMatchThreshold(userThreshold) ? userThreshold : getDefaultFaceMatchThreshold();
+}
+
+/**
+ * Human-readable name of a threshold setting, e.g. "Strict (0.50)"
+ * (null = the server default)
+ */
+export function describeFaceMatchThreshold(threshold: number | null | undefined): string {
+  if (threshold === null || threshold === undefined) {
+    return 'Default';
+  }
+
+  const preset = (Object.keys(FACE_MATCH_THRESHOLD_PRESETS) as FaceMatchThresholdPreset[]).find(
+    (name) => FACE_MATCH_THRESHOLD_PRESETS[name] === threshold
+  );
+  const label = preset ? preset.charAt(0).toUpperCase() + preset.slice(1) : 'Custom';
+  return `${label} (${threshold.toFixed(2)})`;
+}
+
+/**
+ * Parse a stored face descriptor (JSONB array, or a JSON-encoded string)
+ */
+export function parseFaceDescriptor(value: unknown): number[] | null {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (e) {
+      console.warn('Failed to parse face_descriptor:', e);
+      return null;
+    }
+  }
+
+  console.warn('Invalid face_descriptor type:', typeof value);
+  return null;
+}
+
+/**
+ * Euclidean distance between two face descriptors
+ * (Infinity when the lengths differ, so they never match)
+ */
+export function calculateFaceDistance(
   descriptor1: number[],
   descriptor2: number[]
 ): number {
   if (descriptor1.length !== descriptor2.length) {
-    return 0;
+    return Infinity;
   }
 
-  // Calculate Euclidean distance
   let sumSquaredDiff = 0;
   for (let i = 0; i < descriptor1.length; i++) {
     const diff = descriptor1[i] - descriptor2[i];
     sumSquaredDiff += diff * diff;
   }
-  const distance = Math.sqrt(sumSquaredDiff);
+  return Math.sqrt(sumSquaredDiff);
+}
+
+/**
+ * Calculate similarity between two face descriptors
+ * 
+ * Note: This is a generic implementation. For provider-specific optimizations,
+ * use the provider's calculateSimilarity method directly.
+ * Distances of 1 or more all map to similarity 0, which is why thresholds
+ * must be above 0 to tell faces apart.
+ */
+export function calculateFaceSimilarity(
+  descriptor1: number[],
+  descriptor2: number[]
+): number {
+  const distance = calculateFaceDistance(descriptor1, descriptor2);
 
   // Convert distance to similarity (0-1 scale)
   // Typical threshold: distance < 0.6 = match
@@ -30,11 +127,14 @@ export function calculateFaceSimilarity(
 
 /**
  * Find matching faces from existing photos
+ *
+ * Linear scan used by the in-memory face index. API routes should query a
+ * face index (see @/lib/face-index) instead of loading photos themselves.
  */
 export function findFaceMatches(
   newDescriptor: number[],
-  existingPhotos: PartnerPhoto[],
-  threshold: number = 0.4 // Similarity threshold (0.4 = 0.6 distance)
+  existingPhotos: Pick<PartnerPhoto, 'id' | 'partner_id' | 'face_descriptor'>[],
+  threshold: number = getDefaultFaceMatchThreshold()
 ): FaceMatch[] {
   const matches: FaceMatch[] = [];
 
@@ -42,20 +142,8 @@ export function findFaceMatches(
     if (!photo.face_descriptor) continue;
 
     // Ensure face_descriptor is an array (it might be stored as JSONB)
-    let descriptor: number[];
-    if (Array.isArray(photo.face_descriptor)) {
-      descriptor = photo.face_descriptor;
-    } else if (typeof photo.face_descriptor === 'string') {
-      try {
-        descriptor = JSON.parse(photo.face_descriptor);
-      } catch (e) {
-        console.warn('Failed to parse face_descriptor:', e);
-        continue;
-      }
-    } else {
-      console.warn('Invalid face_descriptor type:', typeof photo.face_descriptor);
-      continue;
-    }
+    const descriptor = parseFaceDescriptor(photo.face_descriptor);
+    if (!descriptor) continue;
 
     const similarity = calculateFaceSimilarity(
       newDescriptor,
@@ -81,6 +169,6 @@ export function findFaceMatches(
 /**
  * Check if similarity indicates a match
  */
-export function isFaceMatch(similarity: number, threshold: number = 0.4): boolean {
+export function isFaceMatch(similarity: number, threshold: number = getDefaultFaceMatchThreshold()): boolean {
   return similarity >= threshold;
 }
@@ -0,0 +1,205 @@
+/**
+ * Dating Insights
+ *
+ * Personal statistics for the dashboard (web and mobile through
+ * GET /api/insights): dates per month, activity type breakdown, average time
+ * from first contact to first date, most frequent locations and currently
+ * active partners. Computed from the user's partners and past activities
+ * (partner_notes); months are calendar months in the user's timezone.
+ * Scheduled activities don't count until they have started.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ACTIVE_PARTNER_DAYS,
+  ACTIVE_PARTNER_STATUSES,
+  INSIGHTS_MONTHS,
+  INSIGHTS_TOP_LOCATIONS,
+  Partner,
+  PartnerActivity,
+  PartnerActivityType,
+  PartnerInsights,
+} from '@/shared';
+import { DEFAULT_USER_TIMEZONE } from '@/lib/calendar/events';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Active partners listed (most recent activity first)
+const ACTIVE_PARTNERS_LIMIT = 10;
+
+// Activities loaded per query page
+const ACTIVITY_PAGE_SIZE = 1000;
+
+export type InsightsPartner = Pick<Partner, 'id' | 'first_name' | 'last_name' | 'status'>;
+export type InsightsActivity = Pick<PartnerActivity, 'partner_id' | 'type' | 'start_time' | 'location'>;
+
+/**
+ * Calendar month (YYYY-MM) of an instant in a timezone
+ * (throws RangeError for unknown timezones)
+ */
+function getMonthInTimezone(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit' }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || '';
+  return `${get('year')}-${get('month')}`;
+}
+
+/**
+ * The months ending with the given one (YYYY-MM), oldest first
+ */
+function getPrecedingMonths(lastMonth: string, count: number): string[] {
+  const [year, month] = lastMonth.split('-').map(Number);
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(Date.UTC(year, month - 1 - (count - 1 - index), 1));
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+function resolveTimezone(timezone: string | null | undefined): string {
+  if (!timezone) {
+    return DEFAULT_USER_TIMEZONE;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return DEFAULT_USER_TIMEZONE;
+  }
+}
+
+/**
+ * Compute the insights from the user's partners and activities
+ */
+export function computePartnerInsights(
+  partners: InsightsPartner[],
+  activities: InsightsActivity[],
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): PartnerInsights {
+  const timeZone = resolveTimezone(timezone);
+  const partnersById = new Map(partners.map((partner) => [partner.id, partner]));
+  const past = activities
+    .filter((activity) => partnersById.has(activity.partner_id) && new Date(activity.start_time) <= now)
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+  // Dates per month
+  const months = getPrecedingMonths(getMonthInTimezone(now, timeZone), INSIGHTS_MONTHS);
+  const datesByMonth = new Map(months.map((month) => [month, 0]));
+  for (const activity of past) {
+    if (activity.type !== 'date') continue;
+    const month = getMonthInTimezone(new Date(activity.start_time), timeZone);
+    if (datesByMonth.has(month)) {
+      datesByMonth.set(month, datesByMonth.get(month)! + 1);
+    }
+  }
+
+  // Activity types, in the usual order
+  const typeCounts = new Map<PartnerActivityType, number>();
+  for (const activity of past) {
+    typeCounts.set(activity.type, (typeCounts.get(activity.type) || 0) + 1);
+  }
+
+  // First contact (first activity of any type) and first date of each partner
+  const firstContacts = new Map<string, number>();
+  const firstDates = new Map<string, number>();
+  for (const activity of past) {
+    const time = new Date(activity.start_time).getTime();
+    if (!firstContacts.has(activity.partner_id)) {
+      firstContacts.set(activity.partner_id, time);
+    }
+    if (activity.type === 'date' && !firstDates.has(activity.partner_id)) {
+      firstDates.set(activity.partner_id, time);
+    }
+  }
+  const daysToFirstDate = Array.from(firstDates, ([partnerId, time]) => (time - firstContacts.get(partnerId)!) / DAY_MS);
+
+  // Locations, grouped ignoring case and surrounding spaces (shown as first written)
+  const locations = new Map<string, { location: string; count: number }>();
+  for (const activity of past) {
+    const location = activity.location?.trim();
+    if (!location) continue;
+    const key = location.toLowerCase();
+    const entry = locations.get(key) || { location, count: 0 };
+    entry.count += 1;
+    locations.set(key, entry);
+  }
+
+  // Active partners: in an active stage, with an activity in the last days
+  const lastActivities = new Map<string, string>();
+  for (const activity of past) {
+    lastActivities.set(activity.partner_id, activity.start_time);
+  }
+  const activeSince = now.getTime() - ACTIVE_PARTNER_DAYS * DAY_MS;
+  const activePartners = Array.from(lastActivities)
+    .filter(([partnerId, lastActivityAt]) => {
+      const partner = partnersById.get(partnerId)!;
+      return ACTIVE_PARTNER_STATUSES.includes(partner.status) && new Date(lastActivityAt).getTime() >= activeSince;
+    })
+    .sort(([, a], [, b]) => b.localeCompare(a))
+    .map(([partnerId, lastActivityAt]) => {
+      const { id, first_name, last_name, status } = partnersById.get(partnerId)!;
+      return { partner: { id, first_name, last_name, status }, last_activity_at: lastActivityAt };
+    });
+
+  return {
+    timezone: timeZone,
+    dates_per_month: months.map((month) => ({ month, count: datesByMonth.get(month)! })),
+    activity_types: PartnerActivityType.options.map((type) => ({ type, count: typeCounts.get(type) || 0 })),
+    average_days_to_first_date:
+      daysToFirstDate.length > 0
+        ? Math.round((daysToFirstDate.reduce((sum, days) => sum + days, 0) / daysToFirstDate.length) * 10) / 10
+        : null,
+    first_date_partner_count: daysToFirstDate.length,
+    top_locations: Array.from(locations.values())
+      .sort((a, b) => b.count - a.count || a.location.localeCompare(b.location))
+      .slice(0, INSIGHTS_TOP_LOCATIONS),
+    active_partners: activePartners.slice(0, ACTIVE_PARTNERS_LIMIT),
+    active_partner_count: activePartners.length,
+  };
+}
+
+/**
+ * The user's insights, in their timezone
+ *
+ * Runs with the caller's client, so RLS leaves out trashed partners.
+ */
+export async function getPartnerInsights(
+  supabase: SupabaseClient,
+  userId: string,
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): Promise<PartnerInsights> {
+  const { data: partners, error: partnersError } = await supabase
+    .from('partners')
+    .select('id, first_name, last_name, status')
+    .eq('user_id', userId);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  const activities: InsightsActivity[] = [];
+  for (let from = 0; ; from += ACTIVITY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('partner_notes')
+      .select('partner_id, type, start_time, location, partners!inner(user_id)')
+      .eq('partners.user_id', userId)
+      .is('deleted_at', null)
+      .lte('start_time', now.toISOString())
+      .order('start_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + ACTIVITY_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch activities: ${error.message}`);
+    }
+
+    activities.push(
+      ...(data || []).map(({ partner_id, type, start_time, location }) => ({ partner_id, type, start_time, location }))
+    );
+    if (!data || data.length < ACTIVITY_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return computePartnerInsights((partners || []) as InsightsPartner[], activities, timezone, now);
+}
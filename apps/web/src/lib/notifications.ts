@@ -0,0 +1,161 @@
+/**
+ * Push Notifications
+ *
+ * Notifications sent to the mobile app through lib/push: alerts for upcoming
+ * activities (/api/notifications/cron), failed subscription payments (Stripe
+ * webhook) and finished bulk photo uploads (lib/photo-upload-queue.ts).
+ * Partner reminders are sent by lib/reminders.ts.
+ *
+ * Notifications that must not be repeated are sent with a key recorded in
+ * notification_log (migration 040). The key is recorded before sending, so a
+ * notification that fails is not retried.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Partner, PartnerActivity, PartnerActivityType } from '@/shared';
+import { getPushSender } from '@/lib/push/factory';
+import type { IPushSender, PushMessage } from '@/lib/push/types';
+
+// Activities starting within this many minutes get an alert
+export const ACTIVITY_ALERT_LEAD_MINUTES = 60;
+
+const ACTIVITY_TYPE_NAMES: Record<PartnerActivityType, string> = {
+  date: 'Date',
+  chat: 'Chat',
+  phone: 'Call',
+  other: 'Activity',
+};
+
+export interface ActivityAlertSummary {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Send a notification unless one with the same key was already sent
+ *
+ * Returns the number of devices it was sent to, or null when it was a repeat.
+ */
+export async function sendNotificationOnce(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  message: PushMessage,
+  key: string,
+  sender: IPushSender = getPushSender()
+): Promise<number | null> {
+  const { error } = await supabaseAdmin
+    .from('notification_log')
+    .insert({ user_id: userId, category: message.category, key });
+
+  if (error) {
+    if (error.code === '23505') {
+      return null;
+    }
+    throw new Error(`Failed to record notification: ${error.message}`);
+  }
+
+  return sender.sendToUser(userId, message);
+}
+
+/**
+ * Alert users about activities starting within ACTIVITY_ALERT_LEAD_MINUTES
+ *
+ * Each activity is alerted once per start time, so a rescheduled activity
+ * gets a new alert. Activities of trashed partners are skipped.
+ */
+export async function sendUpcomingActivityAlerts(
+  supabaseAdmin: SupabaseClient,
+  sender: IPushSender = getPushSender(),
+  now: Date = new Date()
+): Promise<ActivityAlertSummary> {
+  const summary: ActivityAlertSummary = { sent: 0, failed: 0 };
+  const until = new Date(now.getTime() + ACTIVITY_ALERT_LEAD_MINUTES * 60 * 1000);
+
+  const { data: activities, error: activitiesError } = await supabaseAdmin
+    .from('partner_notes')
+    .select('id, partner_id, start_time, type, location')
+    .gt('start_time', now.toISOString())
+    .lte('start_time', until.toISOString())
+    .is('deleted_at', null);
+
+  if (activitiesError) {
+    throw new Error(`Failed to fetch upcoming activities: ${activitiesError.message}`);
+  }
+
+  const upcoming = (activities || []) as Pick<PartnerActivity, 'id' | 'partner_id' | 'start_time' | 'type' | 'location'>[];
+  if (upcoming.length === 0) {
+    return summary;
+  }
+
+  const { data: partners, error: partnersError } = await supabaseAdmin
+    .from('partners')
+    .select('id, user_id, first_name, last_name')
+    .in('id', Array.from(new Set(upcoming.map((activity) => activity.partner_id))))
+    .is('deleted_at', null);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  const partnersById = new Map(
+    ((partners || []) as Pick<Partner, 'id' | 'user_id' | 'first_name' | 'last_name'>[]).map((partner) => [partner.id, partner])
+  );
+
+  for (const activity of upcoming) {
+    const partner = partnersById.get(activity.partner_id);
+    if (!partner) {
+      continue;
+    }
+
+    const name = [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+    const minutes = Math.max(Math.round((new Date(activity.start_time).getTime() - now.getTime()) / 60000), 1);
+
+    try {
+      const devices = await sendNotificationOnce(
+        supabaseAdmin,
+        partner.user_id,
+        {
+          category: 'upcoming_activities',
+          title: `${ACTIVITY_TYPE_NAMES[activity.type] || 'Activity'} with ${name}`,
+          body: `Starts in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}${activity.location ? ` at ${activity.location}` : ''}`,
+          data: { type: 'activity', partnerId: partner.id, activityId: activity.id },
+        },
+        `${activity.id}:${new Date(activity.start_time).toISOString()}`,
+        sender
+      );
+      if (devices) {
+        summary.sent++;
+      }
+    } catch (error: any) {
+      console.error('[Notifications] Activity alert failed:', { activityId: activity.id, error: error.message });
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Tell the user a subscription payment failed (Stripe invoice.payment_failed)
+ *
+ * Sent once per payment attempt, so redelivered webhooks don't repeat it.
+ */
+export async function notifyPaymentFailed(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  invoice: { id: string; attempt_count: number | null },
+  sender: IPushSender = getPushSender()
+): Promise<void> {
+  await sendNotificationOnce(
+    supabaseAdmin,
+    userId,
+    {
+      category: 'payment_failures',
+      title: 'Payment failed',
+      body: "We couldn't charge your card for Pro. Update your payment method to keep your Pro features.",
+      data: { type: 'payment_failed' },
+    },
+    `${invoice.id}:${invoice.attempt_count || 1}`,
+    sender
+  );
+}
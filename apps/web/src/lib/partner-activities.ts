@@ -0,0 +1,68 @@
+/**
+ * Partner Activities
+ *
+ * Helpers for the activity API (/api/partners/[partnerId]/activities).
+ * The free-tier activity limit counts activities across all of the user's partners.
+ * The database enforces it too (migration 045), for inserts that skip the API.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FREE_TIER_ACTIVITY_LIMIT } from '@/shared';
+
+/**
+ * Number of activities the user has across all partners (activities in the trash don't count)
+ */
+export async function countUserActivities(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { data: partners, error: partnersError } = await supabase
+    .from('partners')
+    .select('id')
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  if (!partners || partners.length === 0) {
+    return 0;
+  }
+
+  const { count, error } = await supabase
+    .from('partner_notes')
+    .select('id', { count: 'exact', head: true })
+    .in('partner_id', partners.map((p) => p.id))
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to count activities: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+export function getActivityLimitMessage(activityCount: number): string {
+  return activityCount === FREE_TIER_ACTIVITY_LIMIT
+    ? `Free accounts are limited to ${FREE_TIER_ACTIVITY_LIMIT} total activities. Please upgrade to Pro for unlimited activities.`
+    : `With a free account you can't add activities if you already have more than ${FREE_TIER_ACTIVITY_LIMIT} activities. Please upgrade to Pro and try again.`;
+}
+
+/**
+ * Whether an insert into partner_notes was rejected by the database's free-tier limit
+ */
+export function isActivityLimitError(error: { message?: string } | null): boolean {
+  return error?.message === 'ACTIVITY_LIMIT_REACHED';
+}
+
+/**
+ * Trim string fields; empty strings and null clear optional fields
+ */
+export function normalizeActivityFields<T extends Record<string, string | null | undefined>>(
+  fields: T
+): Record<string, string | null> {
+  const normalized: Record<string, string | null> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    normalized[field] = typeof value === 'string' ? value.trim() || null : null;
+  }
+  return normalized;
+}
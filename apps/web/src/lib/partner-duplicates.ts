@@ -0,0 +1,130 @@
+/**
+ * Possible Duplicate Partners
+ *
+ * Finds pairs of a user's partners that are probably the same person, from
+ * their face models (centroids of their photo face descriptors) and from
+ * matching names, phone numbers and emails.
+ */
+
+import type { Partner } from '@/shared';
+import { calculateFaceSimilarity, getDefaultFaceMatchThreshold } from '@/lib/face-matching';
+import type { PartnerFaceModel } from '@/lib/face-index/partner-models';
+
+export type DuplicateReason = 'face' | 'email' | 'phone' | 'name';
+
+export interface DuplicatePartnerCandidate {
+  partner_ids: [string, string];
+  reasons: DuplicateReason[];
+  face_similarity: number | null; // Centroid similarity, null when either partner has no face photos
+  score: number; // Higher = more likely the same person
+}
+
+export type DuplicateCheckPartner = Pick<Partner, 'id' | 'first_name' | 'last_name' | 'email' | 'phone_number'>;
+
+// Weight of each signal, used to rank candidates
+const REASON_SCORES: Record<DuplicateReason, number> = {
+  face: 3,
+  email: 3,
+  phone: 3,
+  name: 2,
+};
+const FIRST_NAME_ONLY_SCORE = 1; // Supporting evidence only, never enough on its own
+
+// Phone numbers are compared on their last digits so "+972 50-123-4567" and "050 123 4567" match
+const PHONE_SUFFIX_DIGITS = 9;
+const MIN_PHONE_DIGITS = 7;
+
+export function normalizeName(value: string | null): string {
+  return (value || '').trim().toLocaleLowerCase().replace(/\s+/g, ' ');
+}
+
+export function normalizeEmail(value: string | null): string | null {
+  const email = (value || '').trim().toLowerCase();
+  return email || null;
+}
+
+export function normalizePhone(value: string | null): string | null {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-PHONE_SUFFIX_DIGITS) : null;
+}
+
+/**
+ * Compare names: 2 = same full name, 1 = same first name with a last name
+ * missing on one side, 0 = no match
+ */
+function compareNames(a: DuplicateCheckPartner, b: DuplicateCheckPartner): number {
+  const firstA = normalizeName(a.first_name);
+  const firstB = normalizeName(b.first_name);
+  if (!firstA || firstA !== firstB) {
+    return 0;
+  }
+
+  const lastA = normalizeName(a.last_name);
+  const lastB = normalizeName(b.last_name);
+  if (lastA && lastB) {
+    return lastA === lastB ? 2 : 0;
+  }
+  return 1;
+}
+
+/**
+ * Find pairs of partners that are probably the same person, most likely first
+ */
+export function findDuplicatePartners(
+  partners: DuplicateCheckPartner[],
+  faceModels: PartnerFaceModel[],
+  threshold: number = getDefaultFaceMatchThreshold()
+): DuplicatePartnerCandidate[] {
+  const models = new Map(faceModels.map((model) => [model.partner_id, model]));
+  const candidates: DuplicatePartnerCandidate[] = [];
+
+  for (let i = 0; i < partners.length; i++) {
+    for (let j = i + 1; j < partners.length; j++) {
+      const a = partners[i];
+      const b = partners[j];
+      const reasons: DuplicateReason[] = [];
+      let score = 0;
+
+      const modelA = models.get(a.id);
+      const modelB = models.get(b.id);
+      const faceSimilarity =
+        modelA && modelB ? calculateFaceSimilarity(modelA.centroid, modelB.centroid) : null;
+      if (faceSimilarity !== null && faceSimilarity >= threshold) {
+        reasons.push('face');
+        // Closer faces rank higher among face matches
+        score += REASON_SCORES.face + faceSimilarity;
+      }
+
+      const emailA = normalizeEmail(a.email);
+      if (emailA && emailA === normalizeEmail(b.email)) {
+        reasons.push('email');
+        score += REASON_SCORES.email;
+      }
+
+      const phoneA = normalizePhone(a.phone_number);
+      if (phoneA && phoneA === normalizePhone(b.phone_number)) {
+        reasons.push('phone');
+        score += REASON_SCORES.phone;
+      }
+
+      const nameMatch = compareNames(a, b);
+      if (nameMatch === 2) {
+        reasons.push('name');
+        score += REASON_SCORES.name;
+      } else if (nameMatch === 1) {
+        score += FIRST_NAME_ONLY_SCORE;
+      }
+
+      if (reasons.length > 0) {
+        candidates.push({
+          partner_ids: [a.id, b.id],
+          reasons,
+          face_similarity: faceSimilarity,
+          score,
+        });
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,277 @@
+/**
+ * Partner List Queries
+ *
+ * Cursor pagination, sorting, search and filters for GET /api/partners and
+ * the partners page. Sort and filters come from the shared query parameters
+ * (PartnerListFiltersSchema in packages/shared, also built by the mobile app),
+ * and are applied to the partner_list view (migration 042), which adds the
+ * latest activity, number of dates and number of photos to each partner.
+ * Cursors are opaque to clients: they encode the sort value and id of the
+ * last partner of a page, so pages stay stable while partners are added.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { subDays } from 'date-fns';
+import {
+  CustomFieldDefinition,
+  getDefaultPartnerListOrder,
+  normalizePartnerTags,
+  PARTNER_FIELD_FILTER_PREFIX,
+  PartnerActivityType,
+  PartnerListFiltersSchema,
+  PartnerListItem,
+  PartnerListSort,
+} from '@/shared';
+import { getCustomFieldDefinitions } from '@/lib/custom-fields';
+
+export const PARTNER_LIST_SORT_FIELDS = PartnerListSort.options;
+export type PartnerListSortField = PartnerListSort;
+
+export const DEFAULT_PARTNER_PAGE_SIZE = 50;
+export const MAX_PARTNER_PAGE_SIZE = 100;
+
+// Columns matched by the `q` search
+const SEARCH_FIELDS = ['first_name', 'last_name', 'email', 'phone_number'];
+
+export const PartnerListQuerySchema = PartnerListFiltersSchema.extend({
+  limit: z.coerce.number().int().min(1).max(MAX_PARTNER_PAGE_SIZE).default(DEFAULT_PARTNER_PAGE_SIZE),
+  cursor: z.string().optional(),
+  q: z.string().trim().max(100).optional(),
+});
+
+export interface PartnerFieldFilter {
+  field: Pick<CustomFieldDefinition, 'id' | 'type'>;
+  value: string;
+}
+
+type PartnersQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+export type PartnerListQuery = z.infer<typeof PartnerListQuerySchema>;
+
+interface PartnerCursor {
+  v: string | null; // Sort value of the last partner (counts as strings)
+  id: string;
+}
+
+export function encodePartnerCursor(partner: PartnerListItem, sort: PartnerListSortField): string {
+  const value = partner[sort];
+  const cursor: PartnerCursor = { v: value === null ? null : String(value), id: partner.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor, or null if it isn't one of ours
+ */
+export function decodePartnerCursor(cursor: string): PartnerCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!z.string().uuid().safeParse(parsed?.id).success || (parsed.v !== null && typeof parsed.v !== 'string')) {
+      return null;
+    }
+    return { v: parsed.v, id: parsed.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Quote a value for a PostgREST filter string (values may contain commas and parentheses)
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Custom field filters from query parameters, or the id of a field that isn't one of the user's
+ */
+export async function parsePartnerFieldFilters(
+  supabase: SupabaseClient,
+  userId: string,
+  params: Record<string, string | string[] | undefined>
+): Promise<{ filters: PartnerFieldFilter[] } | { unknownFieldId: string }> {
+  const filters: PartnerFieldFilter[] = [];
+  const entries = Object.entries(params).filter(([key]) => key.startsWith(PARTNER_FIELD_FILTER_PREFIX));
+
+  if (entries.length === 0) {
+    return { filters };
+  }
+
+  const definitions = await getCustomFieldDefinitions(supabase, userId);
+
+  for (const [key, raw] of entries) {
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (!value?.trim()) continue;
+
+    const fieldId = key.slice(PARTNER_FIELD_FILTER_PREFIX.length);
+    const field = definitions.find((definition) => definition.id === fieldId);
+    if (!field) {
+      return { unknownFieldId: fieldId };
+    }
+    filters.push({ field, value: value.trim() });
+  }
+
+  return { filters };
+}
+
+/**
+ * Narrow a partners query to partners with all of the tags and matching custom field values.
+ * Tags and text fields ignore case (tags through the tag_keys computed field of
+ * partner_list, migration 048); text fields match anywhere in the value, other types exactly.
+ */
+export function applyPartnerFilters<Q extends PartnersQuery>(
+  request: Q,
+  tags: string[] | undefined,
+  fieldFilters: PartnerFieldFilter[]
+): Q {
+  let filtered = request;
+
+  if (tags && tags.length > 0) {
+    const tagKeys = normalizePartnerTags(tags).map((tag) => tag.toLowerCase());
+    filtered = filtered.contains('tag_keys', tagKeys) as Q;
+  }
+
+  for (const { field, value } of fieldFilters) {
+    const column = `custom_fields->>${field.id}`;
+    filtered = (field.type === 'text'
+      ? filtered.ilike(column, `%${value.replace(/[%_\\]/g, '\\$&')}%`)
+      : filtered.eq(column, field.type === 'number' ? String(Number(value)) : value)) as Q;
+  }
+
+  return filtered;
+}
+
+export function isPartnerListAscending(query: Pick<PartnerListQuery, 'sort' | 'order'>): boolean {
+  return (query.order || getDefaultPartnerListOrder(query.sort)) === 'asc';
+}
+
+/**
+ * Ids of the partners with an activity of the type in the last days
+ */
+async function getRecentlyActivePartnerIds(
+  supabase: SupabaseClient,
+  type: PartnerActivityType,
+  days: number
+): Promise<string[]> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('partner_notes')
+    .select('partner_id')
+    .eq('type', type)
+    .gte('start_time', subDays(now, days).toISOString())
+    .lte('start_time', now.toISOString())
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch activities: ${error.message}`);
+  }
+
+  return Array.from(new Set((data || []).map((activity) => activity.partner_id as string)));
+}
+
+/**
+ * Fetch one page of the user's partners
+ * Partners without a value for the sort field come last in either order.
+ */
+export async function listPartners(
+  supabase: SupabaseClient,
+  userId: string,
+  query: PartnerListQuery,
+  cursor: PartnerCursor | null,
+  fieldFilters: PartnerFieldFilter[] = []
+): Promise<{ partners: PartnerListItem[]; nextCursor: string | null }> {
+  const ascending = isPartnerListAscending(query);
+  const op = ascending ? 'gt' : 'lt';
+
+  const activePartnerIds = query.activity_type
+    ? await getRecentlyActivePartnerIds(supabase, query.activity_type, query.activity_days)
+    : null;
+
+  if (activePartnerIds && activePartnerIds.length === 0) {
+    return { partners: [], nextCursor: null };
+  }
+
+  let request = supabase
+    .from('partner_list')
+    .select('*')
+    .eq('user_id', userId)
+    .order(query.sort, { ascending, nullsFirst: false })
+    .order('id', { ascending })
+    .limit(query.limit + 1); // One extra row tells whether there is a next page
+
+  if (query.black_flag !== undefined) {
+    request = request.eq('black_flag', query.black_flag);
+  }
+
+  if (query.has_photos !== undefined) {
+    request = query.has_photos ? request.gt('photo_count', 0) : request.eq('photo_count', 0);
+  }
+
+  if (query.status) {
+    request = request.eq('status', query.status);
+  }
+
+  if (activePartnerIds) {
+    request = request.in('id', activePartnerIds);
+  }
+
+  request = applyPartnerFilters(request, query.tags, fieldFilters);
+
+  if (query.q) {
+    // Wildcards typed by the user are dropped; the term is matched anywhere
+    const pattern = quoteFilterValue(`*${query.q.replace(/[*%\\]/g, '')}*`);
+    request = request.or(SEARCH_FIELDS.map((field) => `${field}.ilike.${pattern}`).join(','));
+  }
+
+  if (cursor) {
+    if (cursor.v === null) {
+      // Already in the trailing partners without a sort value
+      request = request.is(query.sort, null).filter('id', op, cursor.id);
+    } else {
+      const value = quoteFilterValue(cursor.v);
+      request = request.or(
+        `${query.sort}.${op}.${value},and(${query.sort}.eq.${value},id.${op}.${cursor.id}),${query.sort}.is.null`
+      );
+    }
+  }
+
+  const { data, error } = await request;
+
+  if (error) {
+    throw new Error(`Failed to fetch partners: ${error.message}`);
+  }
+
+  const rows = (data || []) as PartnerListItem[];
+  const partners = rows.slice(0, query.limit);
+  const nextCursor =
+    rows.length > query.limit ? encodePartnerCursor(partners[partners.length - 1], query.sort) : null;
+
+  return { partners, nextCursor };
+}
+
+/**
+ * Fetch all of the user's partners matching the query, page by page
+ */
+export async function listAllPartners(
+  supabase: SupabaseClient,
+  userId: string,
+  query: Omit<PartnerListQuery, 'limit' | 'cursor'>,
+  fieldFilters: PartnerFieldFilter[] = []
+): Promise<PartnerListItem[]> {
+  const partners: PartnerListItem[] = [];
+  let cursor: PartnerCursor | null = null;
+
+  do {
+    const page = await listPartners(
+      supabase,
+      userId,
+      { ...query, limit: MAX_PARTNER_PAGE_SIZE },
+      cursor,
+      fieldFilters
+    );
+    partners.push(...page.partners);
+    cursor = page.nextCursor ? decodePartnerCursor(page.nextCursor) : null;
+  } while (cursor);
+
+  return partners;
+}
@@ -0,0 +1,103 @@
+/**
+ * Partner Merge
+ *
+ * Decides the field values of the partner kept when two partners are merged.
+ * The move of photos, activities and reminders, the delete and the undo run
+ * in the database (merge_partners / undo_partner_merge, see migrations 029
+ * and 051).
+ */
+
+import { normalizePartnerTags } from '@/shared';
+import type { Partner } from '@/shared';
+
+// Fields the user can pick from either partner when merging
+export const MERGEABLE_PARTNER_FIELDS = [
+  'first_name',
+  'last_name',
+  'email',
+  'phone_number',
+  'description',
+  'facebook_profile',
+  'x_profile',
+  'linkedin_profile',
+  'instagram_profile',
+  'profile_picture_storage_path',
+] as const;
+
+export type MergeablePartnerField = (typeof MERGEABLE_PARTNER_FIELDS)[number];
+
+// Which partner each field is taken from ('keep' = the partner kept)
+export type PartnerFieldSources = Partial<Record<MergeablePartnerField, 'keep' | 'merge'>>;
+
+export type PartnerMergeUpdates = Partial<
+  Pick<Partner, MergeablePartnerField | 'description_time' | 'black_flag' | 'tags' | 'custom_fields'>
+>;
+
+/**
+ * Fields where both partners have different non-empty values, so the user
+ * should choose
+ */
+export function getConflictingPartnerFields(keep: Partner, merge: Partner): MergeablePartnerField[] {
+  return MERGEABLE_PARTNER_FIELDS.filter(
+    (field) => !!keep[field] && !!merge[field] && keep[field] !== merge[field]
+  );
+}
+
+/**
+ * Reconcile the kept partner's fields with the duplicate's
+ *
+ * Empty fields are filled from the duplicate. Conflicting fields keep the
+ * kept partner's value unless `sources` picks the duplicate's, except
+ * descriptions, which are combined when no choice was made. A black flag on
+ * either partner is kept, tags of both partners are kept and custom fields
+ * are filled from the duplicate. Returns only the fields that change.
+ */
+export function reconcilePartnerFields(
+  keep: Partner,
+  merge: Partner,
+  sources: PartnerFieldSources = {}
+): PartnerMergeUpdates {
+  const updates: PartnerMergeUpdates = {};
+
+  for (const field of MERGEABLE_PARTNER_FIELDS) {
+    const source = sources[field];
+    let value = keep[field];
+
+    if (source === 'merge' || (!source && !keep[field])) {
+      value = merge[field];
+    } else if (
+      !source &&
+      field === 'description' &&
+      keep.description &&
+      merge.description &&
+      keep.description !== merge.description
+    ) {
+      value = `${keep.description}\n\n${merge.description}`;
+    }
+
+    if (value !== keep[field]) {
+      updates[field] = value;
+    }
+  }
+
+  // The description time follows the description when it comes from the duplicate
+  if (updates.description !== undefined && updates.description === merge.description) {
+    updates.description_time = merge.description_time;
+  }
+
+  if (merge.black_flag && !keep.black_flag) {
+    updates.black_flag = true;
+  }
+
+  const tags = normalizePartnerTags([...(keep.tags || []), ...(merge.tags || [])]);
+  if (tags.length !== (keep.tags || []).length) {
+    updates.tags = tags;
+  }
+
+  const customFields = { ...(merge.custom_fields || {}), ...(keep.custom_fields || {}) };
+  if (Object.keys(customFields).length !== Object.keys(keep.custom_fields || {}).length) {
+    updates.custom_fields = customFields;
+  }
+
+  return updates;
+}
@@ -0,0 +1,50 @@
+/**
+ * Saved Partner Views
+ *
+ * Named sorts and filters of the partners list (partner_views, migration 042).
+ * A view stores the list's query parameters as built by buildPartnerListParams,
+ * so the web page and the mobile app apply it the same way.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildPartnerListParams, parsePartnerListParams, PartnerView } from '@/shared';
+import { parsePartnerFieldFilters } from '@/lib/partner-list';
+
+/**
+ * The user's saved views, by name
+ */
+export async function getPartnerViews(supabase: SupabaseClient, userId: string): Promise<PartnerView[]> {
+  const { data, error } = await supabase
+    .from('partner_views')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch saved views: ${error.message}`);
+  }
+
+  return (data || []) as PartnerView[];
+}
+
+/**
+ * The sort and filter parameters to save for a view (others are dropped, defaults
+ * left out), or an error if they are invalid or filter on a field the user doesn't have
+ */
+export async function normalizePartnerViewParams(
+  supabase: SupabaseClient,
+  userId: string,
+  params: Record<string, string>
+): Promise<{ params: Record<string, string> } | { error: string }> {
+  const parsed = parsePartnerListParams(params);
+  if (!parsed) {
+    return { error: 'Invalid sort or filters' };
+  }
+
+  const fieldFilters = await parsePartnerFieldFilters(supabase, userId, params);
+  if ('unknownFieldId' in fieldFilters) {
+    return { error: `Unknown custom field: ${fieldFilters.unknownFieldId}` };
+  }
+
+  return { params: buildPartnerListParams(parsed) };
+}
@@ -1,4 +1,4 @@
-import { FaceMatch, PhotoUploadDecision, PhotoUploadAnalysis } from '@/shared';
+import { FaceMatch, PartnerFaceScore, PhotoUploadDecision, PhotoUploadAnalysis } from '@/shared';
 
 /**
  * Analyze photo upload and determine the appropriate action
@@ -12,8 +12,13 @@ import { FaceMatch, PhotoUploadDecision, PhotoUploadAnalysis } from '@/shared';
  * Proceed: (4.1 AND 5.1) OR (4.1 AND 5.3) OR (4.2 AND 5.1) OR (4.2 AND 5.3)
  * Warn Same Person: (4.3 AND 5.1) OR (4.3 AND 5.3)
  * Warn Other Partners: (4.1 AND 5.2) OR (4.2 AND 5.2) OR (4.3 AND 5.2)
+ *
+ * Match status comes from the partner face models (scores), not from
+ * individual photo matches, which are passed through for display.
  */
 export function analyzePhotoUploadForPartner(
+  partnerScore: PartnerFaceScore | null,
+  otherPartnerScores: PartnerFaceScore[],
   partnerMatches: FaceMatch[],
   otherPartnerMatches: FaceMatch[],
   partnerHasOtherPhotos: boolean,
@@ -22,12 +27,12 @@ export function analyzePhotoUploadForPartner(
   // Determine partner match status
   const partnerMatchStatus = !partnerHasOtherPhotos 
     ? '4.1' // No photos yet
-    : partnerMatches.length > 0 
+    : partnerScore 
       ? '4.2' // Match found
       : '4.3'; // No match
 
   // Determine other partners match status
-  const otherPartnersMatchStatus = otherPartnerMatches.length > 0 
+  const otherPartnersMatchStatus = otherPartnerScores.length > 0 
     ? '5.2' // Match found
     : !otherPartnersHavePhotos
       ? '5.1' // No photos of other partners yet
@@ -83,6 +88,8 @@ export function analyzePhotoUploadForPartner(
     decision,
     partnerMatches,
     otherPartnerMatches,
+    partnerScore,
+    otherPartnerScores,
     partnerHasOtherPhotos,
   };
 }
@@ -91,19 +98,21 @@ export function analyzePhotoUploadForPartner(
  * Analyze photo upload without partner selection
  * 
  * Use Case 2: Upload photo without selecting partner
- * - Check matches across all user's partners
+ * - Check matches across all user's partners (by partner face model)
  * - Return decision: create new partner or warn about matches
  */
 export function analyzePhotoUploadWithoutPartner(
+  allPartnerScores: PartnerFaceScore[],
   allPartnerMatches: FaceMatch[]
-): { decision: 'create_new' | 'warn_matches'; matches: FaceMatch[] } {
-  if (allPartnerMatches.length === 0) {
-    return { decision: 'create_new', matches: [] };
+): { decision: 'create_new' | 'warn_matches'; matches: FaceMatch[]; partnerScores: PartnerFaceScore[] } {
+  if (allPartnerScores.length === 0) {
+    return { decision: 'create_new', matches: [], partnerScores: [] };
   }
 
   return {
     decision: 'warn_matches',
     matches: allPartnerMatches,
+    partnerScores: allPartnerScores,
   };
 }
 
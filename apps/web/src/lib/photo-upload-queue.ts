@@ -0,0 +1,412 @@
+/**
+ * Bulk Photo Upload Queue
+ *
+ * Bulk-uploaded images are stored in the user's inbox folder and queued in
+ * photo_upload_jobs (migration 030). This module drains the queue: faces are
+ * detected on the server with the same pipeline as /api/face-detection/detect
+ * and scored against the partner face models. An image whose single face
+ * matches exactly one partner is assigned to that partner; every other image
+ * goes to the photo inbox for review. Failed jobs are retried with
+ * exponential backoff. When every image of an upload (batch) is done, the
+ * user gets a push notification.
+ *
+ * Requires the admin client: jobs are not writable with user credentials.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import type { PartnerPhoto } from '@/shared';
+import type { FaceDescriptor } from '@/lib/face-detection/types';
+import { detectFacesInImage } from '@/lib/face-detection/server';
+import { getFaceIndex } from '@/lib/face-index/factory';
+import { findPartnerFaceMatches } from '@/lib/face-index/partner-models';
+import { getUserFaceMatchThreshold } from '@/lib/face-index/threshold';
+import { sendNotificationOnce } from '@/lib/notifications';
+
+export const PHOTO_BUCKET = 'partner-photos';
+export const MAX_PHOTO_UPLOAD_ATTEMPTS = 5;
+
+// Jobs stuck in "processing" longer than this (e.g. a timed-out run) are picked up again
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+export type PhotoUploadJobStatus = 'pending' | 'processing' | 'failed' | 'review' | 'assigned';
+export type PhotoReviewReason = 'no_face' | 'multiple_faces' | 'ambiguous' | 'no_match';
+
+export interface PhotoUploadCandidate {
+  partner_id: string;
+  similarity: number;
+}
+
+export interface PhotoUploadJob {
+  id: string;
+  user_id: string;
+  batch_id: string;
+  storage_path: string;
+  file_name: string | null;
+  file_size: number | null;
+  mime_type: string | null;
+  width: number | null;
+  height: number | null;
+  status: PhotoUploadJobStatus;
+  review_reason: PhotoReviewReason | null;
+  face_count: number | null;
+  face_descriptor: FaceDescriptor | null;
+  candidates: PhotoUploadCandidate[];
+  partner_id: string | null;
+  photo_id: string | null;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PhotoUploadQueueSummary {
+  processed: number;
+  assigned: number;
+  review: number;
+  failed: number;
+}
+
+type JobOutcome = 'assigned' | 'review';
+
+/**
+ * Storage path of a bulk-uploaded image until it is assigned to a partner
+ * Structure: userId/inbox/uuid.ext (first folder is the user, as for partner photos)
+ */
+export function getInboxStoragePath(userId: string, fileName: string): string {
+  const fileExt = fileName.includes('.') ? fileName.split('.').pop() : 'jpg';
+  return `${userId}/inbox/${uuidv4()}.${fileExt}`;
+}
+
+/**
+ * Delay before the next attempt: 1, 2, 4, ... minutes, capped at 1 hour
+ */
+export function getPhotoRetryDelayMs(attempts: number): number {
+  const minutes = Math.min(Math.pow(2, Math.max(attempts - 1, 0)), 60);
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Process due upload jobs, optionally only for one user
+ */
+export async function processPhotoUploadQueue(
+  supabaseAdmin: SupabaseClient,
+  options: { userId?: string; limit?: number } = {}
+): Promise<PhotoUploadQueueSummary> {
+  const summary: PhotoUploadQueueSummary = { processed: 0, assigned: 0, review: 0, failed: 0 };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_PROCESSING_MS).toISOString();
+
+  let query = supabaseAdmin
+    .from('photo_upload_jobs')
+    .select('*')
+    .lte('next_attempt_at', now.toISOString())
+    .lt('attempts', MAX_PHOTO_UPLOAD_ATTEMPTS)
+    .or(`status.in.(pending,failed),and(status.eq.processing,updated_at.lt.${staleBefore})`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit || 10);
+
+  if (options.userId) {
+    query = query.eq('user_id', options.userId);
+  }
+
+  const { data: jobs, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch photo upload jobs: ${error.message}`);
+  }
+
+  const batches = new Map<string, string>();
+
+  for (const job of (jobs || []) as PhotoUploadJob[]) {
+    // Claim the job so concurrent runs don't process the same image twice
+    const { data: claimed } = await supabaseAdmin
+      .from('photo_upload_jobs')
+      .update({ status: 'processing' })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .select('id')
+      .maybeSingle();
+
+    if (!claimed) {
+      continue;
+    }
+
+    summary.processed++;
+    batches.set(job.batch_id, job.user_id);
+
+    try {
+      const outcome = await runJob(supabaseAdmin, job);
+      summary[outcome]++;
+    } catch (jobError) {
+      const message = jobError instanceof Error ? jobError.message : 'Unknown error';
+      console.error('[Photo Upload Queue] Job failed:', { jobId: job.id, error: message });
+      await failJob(supabaseAdmin, job, message);
+      summary.failed++;
+    }
+  }
+
+  for (const [batchId, userId] of Array.from(batches)) {
+    try {
+      await notifyIfBatchFinished(supabaseAdmin, userId, batchId);
+    } catch (notifyError) {
+      // The photos are processed either way
+      console.error('[Photo Upload Queue] Error sending batch notification:', notifyError);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Number of the user's images still waiting for face detection
+ */
+export async function countQueuedPhotoUploads(supabase: SupabaseClient, userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('photo_upload_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ['pending', 'processing', 'failed'])
+    .lt('attempts', MAX_PHOTO_UPLOAD_ATTEMPTS);
+
+  if (error) {
+    throw new Error(`Failed to count photo upload jobs: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+async function runJob(supabaseAdmin: SupabaseClient, job: PhotoUploadJob): Promise<JobOutcome> {
+  const { data: file, error: downloadError } = await supabaseAdmin.storage
+    .from(PHOTO_BUCKET)
+    .download(job.storage_path);
+
+  if (downloadError || !file) {
+    throw new Error(`Failed to download photo: ${downloadError?.message || 'File not found'}`);
+  }
+
+  const detection = await detectFacesInImage(Buffer.from(await file.arrayBuffer()));
+  const detected = {
+    width: detection.imageWidth,
+    height: detection.imageHeight,
+    face_count: detection.detections.length,
+  };
+
+  if (detection.detections.length !== 1) {
+    await markForReview(supabaseAdmin, job, {
+      ...detected,
+      review_reason: detection.detections.length === 0 ? 'no_face' : 'multiple_faces',
+      face_descriptor: null,
+      candidates: [],
+    });
+    return 'review';
+  }
+
+  const descriptor = detection.detections[0].descriptor;
+
+  // The admin client bypasses RLS, so the search is scoped to the user's partners explicitly
+  const { data: partners, error: partnersError } = await supabaseAdmin
+    .from('partners')
+    .select('id')
+    .eq('user_id', job.user_id)
+    .is('deleted_at', null);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  const threshold = await getUserFaceMatchThreshold(supabaseAdmin, job.user_id);
+  const { scores } = await findPartnerFaceMatches(
+    supabaseAdmin,
+    getFaceIndex(supabaseAdmin),
+    descriptor,
+    { partnerIds: (partners || []).map((p) => p.id), threshold }
+  );
+  const candidates: PhotoUploadCandidate[] = scores.map((score) => ({
+    partner_id: score.partner_id,
+    similarity: score.similarity,
+  }));
+
+  if (scores.length === 1) {
+    await assignPhotoUploadJob(
+      supabaseAdmin,
+      { ...job, ...detected, face_descriptor: descriptor, candidates },
+      scores[0].partner_id
+    );
+    return 'assigned';
+  }
+
+  await markForReview(supabaseAdmin, job, {
+    ...detected,
+    review_reason: scores.length === 0 ? 'no_match' : 'ambiguous',
+    face_descriptor: descriptor,
+    candidates,
+  });
+  return 'review';
+}
+
+/**
+ * Add a queued or reviewed image to a partner's photos
+ *
+ * Moves the image out of the inbox folder, creates the photo record (which
+ * updates the partner's face model) and makes it the profile picture if the
+ * partner has none. The caller checks that the partner belongs to the job's user.
+ */
+export async function assignPhotoUploadJob(
+  supabaseAdmin: SupabaseClient,
+  job: PhotoUploadJob,
+  partnerId: string
+): Promise<PartnerPhoto> {
+  const fileExt = job.storage_path.split('.').pop();
+  // Structure: userId/partnerId/uuid.ext (for RLS policies)
+  const storagePath = `${job.user_id}/${partnerId}/${uuidv4()}.${fileExt}`;
+
+  const { error: moveError } = await supabaseAdmin.storage
+    .from(PHOTO_BUCKET)
+    .move(job.storage_path, storagePath);
+
+  if (moveError) {
+    throw new Error(`Failed to move photo: ${moveError.message}`);
+  }
+
+  const { data: photo, error: photoError } = await supabaseAdmin
+    .from('partner_photos')
+    .insert({
+      partner_id: partnerId,
+      storage_path: storagePath,
+      file_name: job.file_name,
+      file_size: job.file_size,
+      mime_type: job.mime_type,
+      width: job.width,
+      height: job.height,
+      face_descriptor: job.face_descriptor,
+      face_detection_attempted: true,
+    })
+    .select()
+    .single();
+
+  if (photoError || !photo) {
+    // Put the image back so the job can be retried or reviewed
+    await supabaseAdmin.storage.from(PHOTO_BUCKET).move(storagePath, job.storage_path);
+    throw new Error(`Failed to save photo record: ${photoError?.message || 'Unknown error'}`);
+  }
+
+  // Set this photo as profile picture if partner doesn't have one yet
+  const { data: partner } = await supabaseAdmin
+    .from('partners')
+    .select('profile_picture_storage_path')
+    .eq('id', partnerId)
+    .single();
+
+  await supabaseAdmin
+    .from('partners')
+    .update({
+      ...(partner && !partner.profile_picture_storage_path && { profile_picture_storage_path: storagePath }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', partnerId);
+
+  const { error: jobError } = await supabaseAdmin
+    .from('photo_upload_jobs')
+    .update({
+      status: 'assigned',
+      storage_path: storagePath,
+      width: job.width,
+      height: job.height,
+      face_count: job.face_count,
+      face_descriptor: job.face_descriptor,
+      candidates: job.candidates,
+      partner_id: partnerId,
+      photo_id: photo.id,
+      last_error: null,
+    })
+    .eq('id', job.id);
+
+  if (jobError) {
+    // The photo is saved; a stale job only shows up in the inbox again
+    console.error('[Photo Upload Queue] Error marking job assigned:', jobError);
+  }
+
+  return photo as PartnerPhoto;
+}
+
+/**
+ * Notify the user once no image of the batch is waiting for (another) attempt
+ */
+async function notifyIfBatchFinished(supabaseAdmin: SupabaseClient, userId: string, batchId: string): Promise<void> {
+  const { data: batchJobs, error } = await supabaseAdmin
+    .from('photo_upload_jobs')
+    .select('status, attempts')
+    .eq('batch_id', batchId);
+
+  if (error) {
+    throw new Error(`Failed to fetch batch jobs: ${error.message}`);
+  }
+
+  const jobs = (batchJobs || []) as Pick<PhotoUploadJob, 'status' | 'attempts'>[];
+  const waiting = jobs.some(
+    (job) =>
+      job.status === 'pending' ||
+      job.status === 'processing' ||
+      (job.status === 'failed' && job.attempts < MAX_PHOTO_UPLOAD_ATTEMPTS)
+  );
+
+  if (jobs.length === 0 || waiting) {
+    return;
+  }
+
+  const assigned = jobs.filter((job) => job.status === 'assigned').length;
+  const review = jobs.filter((job) => job.status === 'review').length;
+  const failed = jobs.length - assigned - review;
+  const details = [
+    assigned > 0 && `${assigned} added to partners`,
+    review > 0 && `${review} to review in your photo inbox`,
+    failed > 0 && `${failed} couldn't be processed`,
+  ].filter(Boolean);
+
+  await sendNotificationOnce(
+    supabaseAdmin,
+    userId,
+    {
+      category: 'photo_processing',
+      title: 'Your photos are ready',
+      body: `${jobs.length} ${jobs.length === 1 ? 'photo' : 'photos'} processed: ${details.join(', ')}.`,
+      data: { type: 'photo_batch', batchId, review: String(review) },
+    },
+    batchId
+  );
+}
+
+async function markForReview(
+  supabaseAdmin: SupabaseClient,
+  job: PhotoUploadJob,
+  updates: Pick<PhotoUploadJob, 'width' | 'height' | 'face_count' | 'review_reason' | 'face_descriptor' | 'candidates'>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('photo_upload_jobs')
+    .update({ ...updates, status: 'review', last_error: null })
+    .eq('id', job.id)
+    .eq('status', 'processing');
+
+  if (error) {
+    throw new Error(`Failed to update photo upload job: ${error.message}`);
+  }
+}
+
+async function failJob(supabaseAdmin: SupabaseClient, job: PhotoUploadJob, message: string): Promise<void> {
+  const attempts = job.attempts + 1;
+
+  await supabaseAdmin
+    .from('photo_upload_jobs')
+    .update({
+      status: 'failed',
+      attempts,
+      last_error: attempts >= MAX_PHOTO_UPLOAD_ATTEMPTS
+        ? `${message} (gave up after ${attempts} attempts)`
+        : message,
+      next_attempt_at: new Date(Date.now() + getPhotoRetryDelayMs(attempts)).toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'processing');
+}
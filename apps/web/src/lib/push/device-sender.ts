@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getNotificationPreferences, PushDevice, PushPlatform } from '@/shared';
+import type { IPushSender, IPushTransport, PushMessage } from './types';
+
+export type PushTransports = Partial<Record<PushPlatform, IPushTransport>>;
+
+/**
+ * Sends notifications to the devices a user registered (push_devices)
+ *
+ * Skips users who turned the message's category off, sends through the
+ * transport of each device's platform and removes tokens the push service
+ * reports as no longer valid. Requires the admin client.
+ */
+export class DevicePushSender implements IPushSender {
+  constructor(
+    private supabaseAdmin: SupabaseClient,
+    private transports: PushTransports
+  ) {}
+
+  async sendToUser(userId: string, message: PushMessage): Promise<number> {
+    const { data: user, error: userError } = await this.supabaseAdmin
+      .from('users')
+      .select('notification_preferences')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (userError) {
+      throw new Error(`Failed to fetch notification preferences: ${userError.message}`);
+    }
+
+    if (!user || !getNotificationPreferences(user.notification_preferences)[message.category]) {
+      return 0;
+    }
+
+    const { data: devices, error: devicesError } = await this.supabaseAdmin
+      .from('push_devices')
+      .select('id, token, platform')
+      .eq('user_id', userId);
+
+    if (devicesError) {
+      throw new Error(`Failed to fetch push devices: ${devicesError.message}`);
+    }
+
+    let sent = 0;
+    const failures: Error[] = [];
+    const unregisteredIds: string[] = [];
+
+    for (const device of (devices || []) as Pick<PushDevice, 'id' | 'token' | 'platform'>[]) {
+      const transport = this.transports[device.platform];
+      if (!transport) {
+        continue;
+      }
+
+      try {
+        const result = await transport.send(device.token, message);
+        if (result === 'sent') {
+          sent++;
+        } else {
+          unregisteredIds.push(device.id);
+        }
+      } catch (error: any) {
+        console.error('[Push] Send failed:', { deviceId: device.id, platform: device.platform, error: error.message });
+        failures.push(error);
+      }
+    }
+
+    if (unregisteredIds.length > 0) {
+      const { error: deleteError } = await this.supabaseAdmin
+        .from('push_devices')
+        .delete()
+        .in('id', unregisteredIds);
+
+      if (deleteError) {
+        console.error('[Push] Failed to remove unregistered devices:', deleteError.message);
+      }
+    }
+
+    if (sent === 0 && failures.length > 0) {
+      throw failures[0];
+    }
+
+    return sent;
+  }
+}
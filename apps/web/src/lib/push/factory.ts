@@ -0,0 +1,86 @@
+import { createSupabaseAdminClient } from '@/lib/supabase/client';
+import { IPushSender } from './types';
+import { DevicePushSender, PushTransports } from './device-sender';
+import { MemoryPushTransport } from './providers/memory';
+import { FcmPushTransport } from './providers/fcm';
+import { ApnsPushTransport, APNS_PRODUCTION_URL, APNS_SANDBOX_URL } from './providers/apns';
+
+export type PushTransportType = 'memory' | 'native';
+
+// Reused between requests so FCM access tokens and the APNs connection are kept
+let cachedTransports: { type: PushTransportType; transports: PushTransports } | null = null;
+
+// Keys in environment variables usually have escaped newlines
+function readPrivateKey(value: string): string {
+  return value.replace(/\\n/g, '\n');
+}
+
+/**
+ * Factory to create the push transports of each platform
+ *
+ * 'native' sends Android notifications with FCM and iOS notifications with
+ * APNs; a platform whose credentials are not set gets no notifications.
+ */
+export function createPushTransports(type: PushTransportType): PushTransports {
+  switch (type) {
+    case 'memory': {
+      const transport = new MemoryPushTransport(true);
+      return { android: transport, ios: transport };
+    }
+
+    case 'native': {
+      const transports: PushTransports = {};
+      const { FCM_PROJECT_ID, FCM_CLIENT_EMAIL, FCM_PRIVATE_KEY } = process.env;
+      const { APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY } = process.env;
+
+      if (FCM_PROJECT_ID && FCM_CLIENT_EMAIL && FCM_PRIVATE_KEY) {
+        transports.android = new FcmPushTransport(
+          { projectId: FCM_PROJECT_ID, clientEmail: FCM_CLIENT_EMAIL, privateKey: readPrivateKey(FCM_PRIVATE_KEY) },
+          process.env.FCM_BASE_URL || undefined,
+          process.env.FCM_TOKEN_URL || undefined
+        );
+      }
+
+      if (APNS_KEY_ID && APNS_TEAM_ID && APNS_PRIVATE_KEY) {
+        transports.ios = new ApnsPushTransport(
+          {
+            keyId: APNS_KEY_ID,
+            teamId: APNS_TEAM_ID,
+            privateKey: readPrivateKey(APNS_PRIVATE_KEY),
+            bundleId: process.env.APNS_BUNDLE_ID || 'com.datingapp.mobile',
+          },
+          process.env.APNS_BASE_URL || (process.env.APNS_PRODUCTION === 'true' ? APNS_PRODUCTION_URL : APNS_SANDBOX_URL)
+        );
+      }
+
+      if (!transports.android && !transports.ios) {
+        throw new Error('PUSH_TRANSPORT=native requires FCM_* or APNS_* credentials');
+      }
+
+      return transports;
+    }
+
+    default:
+      throw new Error(`Unknown push transport: ${type}`);
+  }
+}
+
+/**
+ * Get sender for the transports from environment variable
+ * The memory transport delivers nothing, so it is only the default under
+ * tests; elsewhere it has to be chosen explicitly (PUSH_TRANSPORT=memory).
+ */
+export function getPushSender(): IPushSender {
+  const transportType = (process.env.PUSH_TRANSPORT || (process.env.NODE_ENV === 'test' ? 'memory' : undefined)) as
+    | PushTransportType
+    | undefined;
+  if (!transportType) {
+    throw new Error('PUSH_TRANSPORT must be set to send notifications ("native", or "memory" to only record them)');
+  }
+
+  if (!cachedTransports || cachedTransports.type !== transportType) {
+    cachedTransports = { type: transportType, transports: createPushTransports(transportType) };
+  }
+
+  return new DevicePushSender(createSupabaseAdminClient(), cachedTransports.transports);
+}
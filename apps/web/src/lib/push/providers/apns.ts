@@ -0,0 +1,141 @@
+import { sign } from 'crypto';
+import { connect, ClientHttp2Session } from 'http2';
+import type { IPushTransport, PushDeliveryResult, PushMessage } from '../types';
+
+export const APNS_PRODUCTION_URL = 'https://api.push.apple.com';
+export const APNS_SANDBOX_URL = 'https://api.sandbox.push.apple.com'; // Development builds
+
+// APNs accepts provider tokens for up to an hour and rejects refreshes more often than every 20 minutes
+const PROVIDER_TOKEN_TTL_MS = 50 * 60 * 1000;
+
+export interface ApnsCredentials {
+  keyId: string;
+  teamId: string;
+  privateKey: string; // .p8 signing key (PEM)
+  bundleId: string; // apns-topic
+}
+
+interface ApnsResponse {
+  status: number;
+  reason?: string;
+}
+
+/**
+ * Apple Push Notification service transport (HTTP/2 provider API)
+ *
+ * Authenticates with a provider token (ES256 JWT signed with the .p8 key).
+ * The HTTP/2 connection is reused between notifications.
+ * https://developer.apple.com/documentation/usernotifications/sending-notification-requests-to-apns
+ */
+export class ApnsPushTransport implements IPushTransport {
+  private providerToken: { value: string; issuedAt: number } | null = null;
+  private session: ClientHttp2Session | null = null;
+
+  constructor(
+    private credentials: ApnsCredentials,
+    private baseUrl = APNS_PRODUCTION_URL
+  ) {}
+
+  async send(token: string, message: PushMessage): Promise<PushDeliveryResult> {
+    const response = await this.request(token, {
+      aps: {
+        alert: { title: message.title, body: message.body },
+        sound: 'default',
+      },
+      ...message.data,
+      category: message.category,
+    });
+
+    if (response.status === 200) {
+      return 'sent';
+    }
+
+    // 410: the token is no longer active; BadDeviceToken: token of another environment or app
+    if (response.status === 410 || response.reason === 'BadDeviceToken' || response.reason === 'Unregistered') {
+      return 'unregistered';
+    }
+
+    throw new Error(`APNs send failed (${response.status}): ${response.reason || 'Unknown error'}`);
+  }
+
+  /**
+   * Close the HTTP/2 connection (it is reopened by the next send)
+   */
+  close(): void {
+    this.session?.close();
+    this.session = null;
+  }
+
+  private getSession(): ClientHttp2Session {
+    if (!this.session || this.session.closed || this.session.destroyed) {
+      const session = connect(this.baseUrl);
+      session.on('error', (error) => {
+        console.error('[APNs] Connection error:', error.message);
+      });
+      session.on('close', () => {
+        if (this.session === session) {
+          this.session = null;
+        }
+      });
+      // Don't keep the process alive for an idle connection
+      session.unref();
+      this.session = session;
+    }
+    return this.session;
+  }
+
+  private request(token: string, payload: Record<string, unknown>): Promise<ApnsResponse> {
+    return new Promise((resolve, reject) => {
+      const stream = this.getSession().request({
+        ':method': 'POST',
+        ':path': `/3/device/${encodeURIComponent(token)}`,
+        authorization: `bearer ${this.getProviderToken()}`,
+        'apns-topic': this.credentials.bundleId,
+        'apns-push-type': 'alert',
+        'apns-priority': '10',
+        'content-type': 'application/json',
+      });
+
+      let status = 0;
+      let body = '';
+      stream.setEncoding('utf8');
+      stream.on('response', (headers) => {
+        status = Number(headers[':status']);
+      });
+      stream.on('data', (chunk: string) => {
+        body += chunk;
+      });
+      stream.on('end', () => {
+        let reason: string | undefined;
+        try {
+          reason = body ? JSON.parse(body).reason : undefined;
+        } catch {
+          reason = body;
+        }
+        resolve({ status, reason });
+      });
+      stream.on('error', reject);
+      stream.end(JSON.stringify(payload));
+    });
+  }
+
+  private getProviderToken(): string {
+    if (this.providerToken && Date.now() - this.providerToken.issuedAt < PROVIDER_TOKEN_TTL_MS) {
+      return this.providerToken.value;
+    }
+
+    const issuedAt = Date.now();
+    const unsigned = [
+      Buffer.from(JSON.stringify({ alg: 'ES256', kid: this.credentials.keyId })).toString('base64url'),
+      Buffer.from(JSON.stringify({ iss: this.credentials.teamId, iat: Math.floor(issuedAt / 1000) })).toString('base64url'),
+    ].join('.');
+    // JWS uses the raw r||s signature, not DER
+    const signature = sign('sha256', Buffer.from(unsigned), {
+      key: this.credentials.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    });
+
+    this.providerToken = { value: `${unsigned}.${signature.toString('base64url')}`, issuedAt };
+    return this.providerToken.value;
+  }
+}
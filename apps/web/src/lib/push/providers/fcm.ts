@@ -0,0 +1,110 @@
+import { createSign } from 'crypto';
+import type { IPushTransport, PushDeliveryResult, PushMessage } from '../types';
+
+const FCM_API_URL = 'https://fcm.googleapis.com';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging';
+
+// Refresh the access token this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface FcmCredentials {
+  projectId: string;
+  clientEmail: string; // Service account
+  privateKey: string; // Service account key (PEM)
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Firebase Cloud Messaging transport (HTTP v1 API)
+ *
+ * Authenticates as a service account: a signed JWT is exchanged for an OAuth
+ * access token, which is cached until shortly before it expires.
+ * https://firebase.google.com/docs/cloud-messaging/send-message
+ */
+export class FcmPushTransport implements IPushTransport {
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  constructor(
+    private credentials: FcmCredentials,
+    private baseUrl = FCM_API_URL,
+    private tokenUrl = GOOGLE_TOKEN_URL
+  ) {}
+
+  async send(token: string, message: PushMessage): Promise<PushDeliveryResult> {
+    const accessToken = await this.getAccessToken();
+    const response = await fetch(`${this.baseUrl}/v1/projects/${this.credentials.projectId}/messages:send`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message: {
+          token,
+          notification: { title: message.title, body: message.body },
+          data: { ...message.data, category: message.category },
+          android: { priority: 'high' },
+        },
+      }),
+    });
+
+    if (response.ok) {
+      return 'sent';
+    }
+
+    const body = await response.json().catch(() => ({}));
+    const errorCode = body.error?.details?.find((detail: any) => detail.errorCode)?.errorCode;
+
+    // UNREGISTERED: the app was uninstalled or the token expired
+    if (response.status === 404 || errorCode === 'UNREGISTERED') {
+      return 'unregistered';
+    }
+
+    throw new Error(`FCM send failed (${response.status}): ${body.error?.message || response.statusText}`);
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return this.accessToken.value;
+    }
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const unsigned = [
+      base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' })),
+      base64url(
+        JSON.stringify({
+          iss: this.credentials.clientEmail,
+          scope: FCM_SCOPE,
+          aud: this.tokenUrl,
+          iat: issuedAt,
+          exp: issuedAt + 3600,
+        })
+      ),
+    ].join('.');
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(this.credentials.privateKey);
+
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: `${unsigned}.${base64url(signature)}`,
+      }),
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok || !body.access_token) {
+      throw new Error(`FCM authentication failed (${response.status}): ${body.error_description || body.error || response.statusText}`);
+    }
+
+    this.accessToken = {
+      value: body.access_token,
+      expiresAt: Date.now() + (body.expires_in || 3600) * 1000,
+    };
+    return this.accessToken.value;
+  }
+}
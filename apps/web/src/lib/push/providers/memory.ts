@@ -0,0 +1,47 @@
+import type { IPushSender, IPushTransport, PushDeliveryResult, PushMessage } from '../types';
+
+/**
+ * In-memory push sender
+ *
+ * Keeps notifications in `sent` instead of delivering them: the sink for
+ * tests of code that sends notifications.
+ */
+export class MemoryPushSender implements IPushSender {
+  sent: Array<{ userId: string; message: PushMessage }> = [];
+
+  constructor(private log = false) {}
+
+  async sendToUser(userId: string, message: PushMessage): Promise<number> {
+    this.sent.push({ userId, message });
+    if (this.log) {
+      console.log('[Push] (not sent) Notification kept in memory', { category: message.category });
+    }
+    return 1;
+  }
+}
+
+/**
+ * In-memory push transport
+ *
+ * Keeps deliveries in `delivered` instead of calling a push service: the
+ * transport for tests and local development. Logging only notes the
+ * notification category, not the device or content.
+ * Tokens in `unregisteredTokens` are reported as no longer valid.
+ */
+export class MemoryPushTransport implements IPushTransport {
+  delivered: Array<{ token: string; message: PushMessage }> = [];
+  unregisteredTokens = new Set<string>();
+
+  constructor(private log = false) {}
+
+  async send(token: string, message: PushMessage): Promise<PushDeliveryResult> {
+    if (this.unregisteredTokens.has(token)) {
+      return 'unregistered';
+    }
+    this.delivered.push({ token, message });
+    if (this.log) {
+      console.log('[Push] (not sent) Notification kept in memory', { category: message.category });
+    }
+    return 'sent';
+  }
+}
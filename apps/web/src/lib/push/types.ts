@@ -0,0 +1,31 @@
+import type { NotificationCategory } from '@/shared';
+
+export interface PushMessage {
+  category: NotificationCategory; // Users can turn each category off
+  title: string;
+  body: string;
+  data?: Record<string, string>; // Passed to the app, e.g. the screen to open
+}
+
+/**
+ * Push Sender Interface
+ *
+ * Sends a notification to a user's mobile devices. Returns the number of
+ * devices it was sent to; throws when sending failed.
+ */
+export interface IPushSender {
+  sendToUser(userId: string, message: PushMessage): Promise<number>;
+}
+
+// 'unregistered': the token is no longer valid (app uninstalled, token rotated)
+export type PushDeliveryResult = 'sent' | 'unregistered';
+
+/**
+ * Push Transport Interface
+ *
+ * Delivers a notification to one device token through a push service (FCM,
+ * APNs). Throws on other errors (service down, bad credentials).
+ */
+export interface IPushTransport {
+  send(token: string, message: PushMessage): Promise<PushDeliveryResult>;
+}
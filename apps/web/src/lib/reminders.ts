@@ -0,0 +1,331 @@
+/**
+ * Partner Reminders
+ *
+ * Reminders (partner_reminders, migration 039) are either one-off (remind_at)
+ * or "no contact in N days" rules. A rule is due N days after the partner's
+ * latest activity (partner_notes.start_time), or after the rule was created
+ * when the partner has no activity yet, and is sent once per gap: a new
+ * activity starts the count again.
+ *
+ * Due reminders are sent by email and push from /api/reminders/cron; the
+ * transports come from lib/email and lib/push, so tests and local development
+ * can use the in-memory sinks. Reminders of trashed partners wait until the
+ * partner is restored.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Partner, PartnerReminder } from '@/shared';
+import { getEmailTransport } from '@/lib/email/factory';
+import type { IEmailTransport } from '@/lib/email/types';
+import { getPushSender } from '@/lib/push/factory';
+import type { IPushSender } from '@/lib/push/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// No-contact rules loaded per query page in the cron
+const REMINDER_PAGE_SIZE = 500;
+
+// Partner ids per query when loading the partners and latest activities of reminders
+const PARTNER_ID_CHUNK_SIZE = 200;
+
+type ReminderPartner = Pick<Partner, 'id' | 'user_id' | 'first_name' | 'last_name'>;
+
+export interface UpcomingReminder {
+  reminder: PartnerReminder;
+  partner: ReminderPartner;
+  due_at: string;
+  last_contact_at: string | null;
+}
+
+export interface ReminderDelivery {
+  email: IEmailTransport;
+  push: IPushSender;
+}
+
+export interface ReminderSendSummary {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * When a reminder is next due, or null when there is nothing to send
+ * (one-off reminder already sent, or no-contact rule already sent for the
+ * current gap)
+ */
+export function getReminderDueAt(
+  reminder: Pick<PartnerReminder, 'kind' | 'remind_at' | 'no_contact_days' | 'last_sent_at' | 'completed_at' | 'created_at'>,
+  lastContactAt: string | null
+): Date | null {
+  if (reminder.completed_at) {
+    return null;
+  }
+
+  if (reminder.kind === 'once') {
+    return reminder.remind_at && !reminder.last_sent_at ? new Date(reminder.remind_at) : null;
+  }
+
+  const since = new Date(lastContactAt || reminder.created_at);
+  const dueAt = new Date(since.getTime() + (reminder.no_contact_days || 0) * DAY_MS);
+
+  if (reminder.last_sent_at && new Date(reminder.last_sent_at) >= dueAt) {
+    return null;
+  }
+
+  return dueAt;
+}
+
+function getPartnerName(partner: Pick<Partner, 'first_name' | 'last_name'>): string {
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+}
+
+/**
+ * Email and push content of a due reminder
+ */
+export function buildReminderMessages(
+  reminder: Pick<PartnerReminder, 'kind' | 'no_contact_days' | 'note'>,
+  partner: ReminderPartner,
+  lastContactAt: string | null,
+  now: Date = new Date()
+): { subject: string; text: string; pushBody: string } {
+  const name = getPartnerName(partner);
+  const appUrl = process.env.NEXT_PUBLIC_WEB_APP_URL || 'http://localhost:3000';
+
+  let summary: string;
+  if (reminder.kind === 'once') {
+    summary = `Reminder to follow up with ${name}.`;
+  } else if (lastContactAt) {
+    const days = Math.floor((now.getTime() - new Date(lastContactAt).getTime()) / DAY_MS);
+    summary = `You haven't had any activity with ${name} in ${days} days.`;
+  } else {
+    summary = `You haven't had any activity with ${name} in ${reminder.no_contact_days} days.`;
+  }
+
+  return {
+    subject: reminder.kind === 'once' ? `Reminder: ${name}` : `Follow up with ${name}`,
+    text: [summary, reminder.note ? `\nYour note: ${reminder.note}` : '', `\n${appUrl}/partners/${partner.id}`]
+      .filter(Boolean)
+      .join('\n'),
+    pushBody: reminder.note ? `${summary} ${reminder.note}` : summary,
+  };
+}
+
+/**
+ * Partners of the reminders (without trashed ones) and their latest activity
+ *
+ * Partner ids are sent in chunks to keep request URLs short; latest
+ * activities come from latest_partner_activities (migration 049), one row per
+ * partner.
+ */
+async function loadReminderContext(
+  supabase: SupabaseClient,
+  reminders: PartnerReminder[]
+): Promise<{ partners: Map<string, ReminderPartner>; lastContacts: Map<string, string> }> {
+  const partners = new Map<string, ReminderPartner>();
+  const lastContacts = new Map<string, string>();
+  const partnerIds = Array.from(new Set(reminders.map((reminder) => reminder.partner_id)));
+
+  for (let from = 0; from < partnerIds.length; from += PARTNER_ID_CHUNK_SIZE) {
+    const { data: partnerRows, error: partnersError } = await supabase
+      .from('partners')
+      .select('id, user_id, first_name, last_name')
+      .in('id', partnerIds.slice(from, from + PARTNER_ID_CHUNK_SIZE))
+      .is('deleted_at', null);
+
+    if (partnersError) {
+      throw new Error(`Failed to fetch reminder partners: ${partnersError.message}`);
+    }
+
+    for (const partner of (partnerRows || []) as ReminderPartner[]) {
+      partners.set(partner.id, partner);
+    }
+  }
+
+  const ruleIds = Array.from(
+    new Set(reminders.filter((reminder) => reminder.kind === 'no_contact').map((reminder) => reminder.partner_id))
+  );
+
+  for (let from = 0; from < ruleIds.length; from += PARTNER_ID_CHUNK_SIZE) {
+    const { data: activities, error: activitiesError } = await supabase.rpc('latest_partner_activities', {
+      partner_ids: ruleIds.slice(from, from + PARTNER_ID_CHUNK_SIZE),
+    });
+
+    if (activitiesError) {
+      throw new Error(`Failed to fetch latest activities: ${activitiesError.message}`);
+    }
+
+    for (const activity of (activities || []) as Array<{ partner_id: string; start_time: string }>) {
+      lastContacts.set(activity.partner_id, activity.start_time);
+    }
+  }
+
+  return { partners, lastContacts };
+}
+
+/**
+ * The user's active reminders with their next due date, soonest first
+ * (overdue reminders that haven't been sent yet come first)
+ */
+export async function getUpcomingReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { partnerId?: string; limit?: number } = {}
+): Promise<UpcomingReminder[]> {
+  let request = supabase
+    .from('partner_reminders')
+    .select('*')
+    .eq('user_id', userId)
+    .is('completed_at', null);
+
+  if (options.partnerId) {
+    request = request.eq('partner_id', options.partnerId);
+  }
+
+  const { data, error } = await request;
+
+  if (error) {
+    throw new Error(`Failed to fetch reminders: ${error.message}`);
+  }
+
+  const reminders = (data || []) as PartnerReminder[];
+  const { partners, lastContacts } = await loadReminderContext(supabase, reminders);
+  const upcoming: UpcomingReminder[] = [];
+
+  for (const reminder of reminders) {
+    const partner = partners.get(reminder.partner_id);
+    const lastContactAt = lastContacts.get(reminder.partner_id) || null;
+    const dueAt = getReminderDueAt(reminder, lastContactAt);
+    if (partner && dueAt) {
+      upcoming.push({ reminder, partner, due_at: dueAt.toISOString(), last_contact_at: lastContactAt });
+    }
+  }
+
+  upcoming.sort((a, b) => a.due_at.localeCompare(b.due_at));
+
+  return options.limit ? upcoming.slice(0, options.limit) : upcoming;
+}
+
+async function loadActiveReminders(supabaseAdmin: SupabaseClient, now: Date): Promise<PartnerReminder[]> {
+  const { data: oneOff, error: oneOffError } = await supabaseAdmin
+    .from('partner_reminders')
+    .select('*')
+    .eq('kind', 'once')
+    .is('completed_at', null)
+    .lte('remind_at', now.toISOString());
+
+  if (oneOffError) {
+    throw new Error(`Failed to fetch reminders: ${oneOffError.message}`);
+  }
+
+  const rules: PartnerReminder[] = [];
+  for (let from = 0; ; from += REMINDER_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('partner_reminders')
+      .select('*')
+      .eq('kind', 'no_contact')
+      .is('completed_at', null)
+      .order('id', { ascending: true })
+      .range(from, from + REMINDER_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch reminder rules: ${error.message}`);
+    }
+
+    rules.push(...((data || []) as PartnerReminder[]));
+    if (!data || data.length < REMINDER_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return [...((oneOff || []) as PartnerReminder[]), ...rules];
+}
+
+/**
+ * Send every due reminder by email and push
+ *
+ * A reminder counts as sent when at least one channel delivered it; when
+ * both fail it is retried on the next run. Requires the admin client.
+ */
+export async function sendDueReminders(
+  supabaseAdmin: SupabaseClient,
+  delivery: ReminderDelivery = { email: getEmailTransport(), push: getPushSender() },
+  now: Date = new Date()
+): Promise<ReminderSendSummary> {
+  const summary: ReminderSendSummary = { sent: 0, failed: 0 };
+  const reminders = await loadActiveReminders(supabaseAdmin, now);
+  const { partners, lastContacts } = await loadReminderContext(supabaseAdmin, reminders);
+
+  const due = reminders.filter((reminder) => {
+    const dueAt = getReminderDueAt(reminder, lastContacts.get(reminder.partner_id) || null);
+    return partners.has(reminder.partner_id) && dueAt !== null && dueAt <= now;
+  });
+
+  if (due.length === 0) {
+    return summary;
+  }
+
+  const userIds = Array.from(new Set(due.map((reminder) => reminder.user_id)));
+  const { data: users, error: usersError } = await supabaseAdmin
+    .from('users')
+    .select('id, email')
+    .in('id', userIds);
+
+  if (usersError) {
+    throw new Error(`Failed to fetch reminder recipients: ${usersError.message}`);
+  }
+
+  const emails = new Map<string, string | null>(
+    (users || []).map((user: { id: string; email: string | null }) => [user.id, user.email])
+  );
+
+  for (const reminder of due) {
+    const partner = partners.get(reminder.partner_id)!;
+    const lastContactAt = lastContacts.get(reminder.partner_id) || null;
+    const messages = buildReminderMessages(reminder, partner, lastContactAt, now);
+    const email = emails.get(reminder.user_id);
+    let delivered = false;
+
+    if (email) {
+      try {
+        await delivery.email.send({ to: email, subject: messages.subject, text: messages.text });
+        delivered = true;
+      } catch (error: any) {
+        console.error('[Reminders] Email failed:', { reminderId: reminder.id, error: error.message });
+      }
+    }
+
+    try {
+      const devices = await delivery.push.sendToUser(reminder.user_id, {
+        category: 'reminders',
+        title: messages.subject,
+        body: messages.pushBody,
+        data: { type: 'reminder', partnerId: partner.id },
+      });
+      delivered = delivered || devices > 0;
+    } catch (error: any) {
+      console.error('[Reminders] Push failed:', { reminderId: reminder.id, error: error.message });
+    }
+
+    if (!delivered) {
+      summary.failed++;
+      continue;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('partner_reminders')
+      .update({
+        last_sent_at: now.toISOString(),
+        ...(reminder.kind === 'once' && { completed_at: now.toISOString() }),
+      })
+      .eq('id', reminder.id);
+
+    if (updateError) {
+      // Sent but not recorded: it will be sent again on the next run
+      console.error('[Reminders] Failed to record delivery:', { reminderId: reminder.id, error: updateError.message });
+      summary.failed++;
+    } else {
+      summary.sent++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,70 @@
+/**
+ * Full-text Search
+ *
+ * Searches the user's partners (name, contacts, description) and activities
+ * (location, description) with Postgres full-text search (search_partners,
+ * migration 041). Every word of the query must match as a prefix; results are
+ * ranked by Postgres and carry a highlighted snippet (see splitSearchSnippet
+ * in packages/shared). Trashed partners and activities are not searched.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { MAX_SEARCH_QUERY_LENGTH, PartnerActivityType, SearchResult } from '@/shared';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(MAX_SEARCH_QUERY_LENGTH),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).default(DEFAULT_SEARCH_LIMIT),
+});
+
+interface SearchRow {
+  result_type: 'partner' | 'activity';
+  partner_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  profile_picture_storage_path: string | null;
+  activity_id: string | null;
+  activity_type: PartnerActivityType | null;
+  activity_start_time: string | null;
+  snippet: string | null;
+  rank: number;
+}
+
+/**
+ * Search the user's partners and activities, best match first
+ *
+ * Runs with the caller's client, so RLS limits results to the user's data.
+ */
+export async function searchPartners(
+  supabase: SupabaseClient,
+  query: string,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): Promise<SearchResult[]> {
+  const { data, error } = await supabase.rpc('search_partners', {
+    search_query: query,
+    max_results: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search: ${error.message}`);
+  }
+
+  return ((data || []) as SearchRow[]).map((row) => ({
+    type: row.result_type,
+    partner: {
+      id: row.partner_id,
+      first_name: row.first_name,
+      last_name: row.last_name,
+      profile_picture_storage_path: row.profile_picture_storage_path,
+    },
+    activity:
+      row.result_type === 'activity' && row.activity_id
+        ? { id: row.activity_id, type: row.activity_type!, start_time: row.activity_start_time! }
+        : null,
+    snippet: row.snippet || '',
+    rank: row.rank,
+  }));
+}
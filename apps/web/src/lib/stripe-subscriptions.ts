@@ -0,0 +1,186 @@
+/**
+ * Subscription Cancellation
+ * Shared by POST /api/stripe/cancel-subscription and account deletion
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import Stripe from 'stripe';
+import { track, setUserProperties } from '@/lib/analytics/server';
+import { extractSubscriptionPrice } from '@/lib/stripe-helpers';
+
+// Lazy initialization to avoid build-time errors
+const getStripeInstance = () => {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+
+  if (!secretKey) {
+    throw new Error('STRIPE_SECRET_KEY is not set in environment variables.');
+  }
+
+  return new Stripe(secretKey, {
+    apiVersion: '2023-10-16',
+  });
+};
+
+// Stripe statuses of subscriptions that no longer bill the customer
+const ENDED_SUBSCRIPTION_STATUSES = ['canceled', 'incomplete_expired'];
+
+export type CancelSubscriptionResult =
+  | { ok: true; subscriptionId: string; cancelAt: string; alreadyEnded?: boolean }
+  | { ok: false; status: 400 | 404 | 500; error: string };
+
+/**
+ * Cancel the user's Stripe subscription and record it in subscriptions
+ *
+ * By default the subscription is cancelled at the end of the billing period
+ * (the user keeps Pro until then). With `immediately` it ends right away,
+ * whatever its status - used when the account is deleted. Subscriptions that
+ * have already ended (also when only Stripe knows it yet) count as cancelled
+ * then, so retries succeed.
+ */
+export async function cancelUserSubscription(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  options: { reason?: string | null; immediately?: boolean } = {}
+): Promise<CancelSubscriptionResult> {
+  const cancellationReason = options.reason || null;
+  const immediately = !!options.immediately;
+
+  const { data: subscription, error: subError } = await supabaseAdmin
+    .from('subscriptions')
+    .select('stripe_subscription_id, status, cancel_at_period_end, current_period_end')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (subError) {
+    console.error('Error fetching subscription:', subError);
+    return { ok: false, status: 500, error: `Failed to fetch subscription: ${subError.message}` };
+  }
+
+  if (!subscription) {
+    return { ok: false, status: 404, error: 'No subscription found' };
+  }
+
+  if (immediately && ENDED_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+    return {
+      ok: true,
+      subscriptionId: subscription.stripe_subscription_id,
+      cancelAt: subscription.current_period_end || new Date().toISOString(),
+      alreadyEnded: true,
+    };
+  }
+
+  // Check if already canceled
+  if (!immediately && subscription.cancel_at_period_end) {
+    return { ok: false, status: 400, error: 'Subscription is already scheduled for cancellation' };
+  }
+
+  const cancellable = immediately || subscription.status === 'active' || subscription.status === 'trialing';
+
+  if (!cancellable) {
+    return { ok: false, status: 400, error: `Subscription is not active (status: ${subscription.status})` };
+  }
+
+  if (!subscription.stripe_subscription_id) {
+    return { ok: false, status: 400, error: 'Invalid subscription' };
+  }
+
+  // Initialize Stripe only when a subscription is cancelled
+  const stripe = getStripeInstance();
+
+  let canceledSubscription: Stripe.Subscription | null;
+
+  if (immediately) {
+    try {
+      canceledSubscription = await stripe.subscriptions.cancel(subscription.stripe_subscription_id, {
+        cancellation_details: cancellationReason ? { comment: cancellationReason } : undefined,
+      });
+    } catch (error) {
+      if (!(await hasSubscriptionEnded(stripe, subscription.stripe_subscription_id, error))) {
+        throw error;
+      }
+      // Ended in Stripe before our record caught up: only the record is updated below
+      canceledSubscription = null;
+    }
+  } else {
+    // Cancel subscription at period end (graceful cancellation)
+    canceledSubscription = await stripe.subscriptions.update(subscription.stripe_subscription_id, {
+      cancel_at_period_end: true,
+    });
+  }
+
+  const cancelAt = immediately || !canceledSubscription
+    ? new Date().toISOString()
+    : new Date(canceledSubscription.current_period_end * 1000).toISOString();
+
+  // Update database (use admin client to bypass RLS)
+  const { error: updateError } = await supabaseAdmin
+    .from('subscriptions')
+    .update({
+      ...(immediately ? { status: 'canceled' } : { cancel_at_period_end: true }),
+      cancellation_reason: cancellationReason,
+      current_period_end: cancelAt,
+    })
+    .eq('user_id', userId);
+
+  if (updateError) {
+    console.error('Error updating subscription:', updateError);
+    return { ok: false, status: 500, error: `Failed to update subscription: ${updateError.message}` };
+  }
+
+  // The cancellation was tracked when the subscription ended
+  if (!canceledSubscription) {
+    return { ok: true, subscriptionId: subscription.stripe_subscription_id, cancelAt, alreadyEnded: true };
+  }
+
+  // Extract price information for analytics
+  const { price_amount, billing_interval } = extractSubscriptionPrice(canceledSubscription);
+
+  // Track [Subscription Cancelled] event for Amplitude analytics
+  // Note: This is a backup - the webhook will also track this event when it receives the subscription update
+  // Fire-and-forget: don't await to avoid blocking the caller
+  console.log(`[Cancel Subscription] Tracking [Subscription Cancelled] event for user: ${userId}, subscription: ${subscription.stripe_subscription_id}`);
+
+  track(
+    '[Subscription Cancelled]',
+    userId,
+    {
+      subscription_id: subscription.stripe_subscription_id,
+      plan_type: 'pro',
+      amount: price_amount || 0,
+      billing_interval: billing_interval || null,
+      cancel_at_period_end: !immediately,
+      cancellation_reason: cancellationReason || null,
+      timestamp: new Date().toISOString(),
+    }
+  ).catch((error) => {
+    console.error('[Cancel Subscription] Error tracking subscription cancelled:', error);
+  });
+
+  // Update user properties: subscription_status (account_type remains 'pro' until period ends)
+  // Fire-and-forget: don't await to avoid blocking the caller
+  setUserProperties(userId, {
+    subscription_status: 'canceled',
+    // Note: account_type remains 'pro' until period ends
+  }).catch((error) => {
+    console.error('[Cancel Subscription] Error setting user properties for subscription cancelled:', error);
+  });
+
+  return { ok: true, subscriptionId: subscription.stripe_subscription_id, cancelAt };
+}
+
+/**
+ * Whether a subscription Stripe refused to cancel has already ended: deleted
+ * (resource_missing), or cancelled in Stripe before the webhook updated our record
+ */
+async function hasSubscriptionEnded(stripe: Stripe, subscriptionId: string, error: unknown): Promise<boolean> {
+  if ((error as { code?: string } | null)?.code === 'resource_missing') {
+    return true;
+  }
+
+  try {
+    const current = await stripe.subscriptions.retrieve(subscriptionId);
+    return ENDED_SUBSCRIPTION_STATUSES.includes(current.status);
+  } catch {
+    return false;
+  }
+}
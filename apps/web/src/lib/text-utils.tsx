@@ -1,4 +1,5 @@
 import React from 'react';
+import { splitSearchSnippet } from '@/shared';
 
 /**
  * Renders text with clickable URLs that open in a new tab
@@ -75,3 +76,24 @@ export function renderTextWithLinks(text: string, insideLink: boolean = false):
   return <>{parts}</>;
 }
 
+
+/**
+ * Renders a search result snippet: matched words are highlighted and URLs are clickable
+ * @param snippet - Snippet returned by the search API (with highlight markers)
+ * @param insideLink - If true, URLs avoid nested links (see renderTextWithLinks)
+ */
+export function renderSearchSnippet(snippet: string, insideLink: boolean = false): React.ReactNode {
+  return (
+    <>
+      {splitSearchSnippet(snippet).map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {renderTextWithLinks(part.text, insideLink)}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{renderTextWithLinks(part.text, insideLink)}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
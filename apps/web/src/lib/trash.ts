@@ -0,0 +1,670 @@
+/**
+ * Trash
+ *
+ * Partners, photos and activities are soft-deleted (deleted_at, migration 036)
+ * and stay restorable for TRASH_RETENTION_MS. Trashing a partner trashes its
+ * photos and activities with the same deleted_at, so restoring the partner
+ * restores exactly what was trashed with it. Calendar events of trashed
+ * activities are kept until the purge, so a restored activity is still linked
+ * to its event.
+ *
+ * Requires the admin client: trashed rows are hidden from users by RLS, so
+ * every query is scoped to the user explicitly.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FREE_TIER_ACTIVITY_LIMIT } from '@/shared';
+import { FREE_TIER_PARTNER_LIMIT } from '@/lib/pricing';
+import { countUserActivities, getActivityLimitMessage } from '@/lib/partner-activities';
+import { getUserCalendarConnection } from '@/lib/calendar/connections';
+import { deleteCalendarEvent } from '@/lib/calendar/sync';
+import type { CalendarConnection, CalendarProviderType } from '@/lib/calendar/types';
+
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Partners purged per cron run (with all of their photos and activities)
+const PURGE_BATCH_SIZE = 50;
+
+const PHOTO_BUCKET = 'partner-photos';
+
+export type TrashItemType = 'partner' | 'photo' | 'activity';
+
+export interface TrashedPartner {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  profile_picture_storage_path: string | null;
+  deleted_at: string;
+  purge_at: string;
+  photo_count: number;
+  activity_count: number;
+}
+
+export interface TrashedPhoto {
+  id: string;
+  partner_id: string;
+  partner_name: string;
+  storage_path: string;
+  file_name: string;
+  deleted_at: string;
+  purge_at: string;
+}
+
+export interface TrashedActivity {
+  id: string;
+  partner_id: string;
+  partner_name: string;
+  type: string;
+  start_time: string;
+  location: string | null;
+  deleted_at: string;
+  purge_at: string;
+}
+
+export interface TrashContents {
+  partners: TrashedPartner[];
+  photos: TrashedPhoto[];
+  activities: TrashedActivity[];
+}
+
+export type TrashResult =
+  | { ok: true }
+  | { ok: false; status: 403 | 404 | 409 | 500; error: string; message?: string };
+
+export interface TrashPurgeSummary {
+  partners: number;
+  photos: number;
+  activities: number;
+}
+
+interface PurgeActivity {
+  id: string;
+  google_calendar_event_id: string | null;
+  calendar_provider: CalendarProviderType | null;
+}
+
+function getPartnerName(partner: { first_name: string | null; last_name: string | null }): string {
+  return [partner.first_name, partner.last_name].filter(Boolean).join(' ') || 'Unnamed Partner';
+}
+
+function getPurgeAt(deletedAt: string): string {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_MS).toISOString();
+}
+
+/**
+ * Move a partner to the trash together with its photos and activities
+ */
+export async function trashPartner(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  partnerId: string
+): Promise<TrashResult> {
+  const deletedAt = new Date().toISOString();
+
+  const { data: partner, error } = await supabaseAdmin
+    .from('partners')
+    .update({ deleted_at: deletedAt })
+    .eq('id', partnerId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, status: 500, error: `Failed to delete partner: ${error.message}` };
+  }
+
+  if (!partner) {
+    return { ok: false, status: 404, error: 'Partner not found' };
+  }
+
+  // Items already in the trash keep their own deleted_at (and are restored on their own)
+  for (const table of ['partner_photos', 'partner_notes']) {
+    const { error: childError } = await supabaseAdmin
+      .from(table)
+      .update({ deleted_at: deletedAt })
+      .eq('partner_id', partnerId)
+      .is('deleted_at', null);
+
+    if (childError) {
+      return { ok: false, status: 500, error: `Failed to delete partner: ${childError.message}` };
+    }
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Move a photo to the trash; if it was the profile picture, another photo takes its place
+ */
+export async function trashPhoto(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  partnerId: string,
+  photoId: string
+): Promise<TrashResult> {
+  const partner = await getActivePartner(supabaseAdmin, userId, partnerId);
+  if (!partner) {
+    return { ok: false, status: 404, error: 'Partner not found' };
+  }
+
+  const { data: photo, error } = await supabaseAdmin
+    .from('partner_photos')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', photoId)
+    .eq('partner_id', partnerId)
+    .is('deleted_at', null)
+    .select('storage_path')
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, status: 500, error: `Failed to delete photo: ${error.message}` };
+  }
+
+  if (!photo) {
+    return { ok: false, status: 404, error: 'Photo not found' };
+  }
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+
+  if (partner.profile_picture_storage_path === photo.storage_path) {
+    const { data: otherPhoto } = await supabaseAdmin
+      .from('partner_photos')
+      .select('storage_path')
+      .eq('partner_id', partnerId)
+      .is('deleted_at', null)
+      .limit(1)
+      .maybeSingle();
+
+    updates.profile_picture_storage_path = otherPhoto?.storage_path || null;
+  }
+
+  await supabaseAdmin.from('partners').update(updates).eq('id', partnerId);
+
+  return { ok: true };
+}
+
+/**
+ * Move an activity to the trash
+ */
+export async function trashActivity(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  partnerId: string,
+  activityId: string
+): Promise<{ ok: true; type: string } | Extract<TrashResult, { ok: false }>> {
+  const partner = await getActivePartner(supabaseAdmin, userId, partnerId);
+  if (!partner) {
+    return { ok: false, status: 404, error: 'Partner not found' };
+  }
+
+  const { data: activity, error } = await supabaseAdmin
+    .from('partner_notes')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', activityId)
+    .eq('partner_id', partnerId)
+    .is('deleted_at', null)
+    .select('type')
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, status: 500, error: `Failed to delete activity: ${error.message}` };
+  }
+
+  if (!activity) {
+    return { ok: false, status: 404, error: 'Activity not found' };
+  }
+
+  return { ok: true, type: activity.type };
+}
+
+/**
+ * Everything in the user's trash, most recently deleted first.
+ * Photos and activities trashed together with their partner are listed
+ * under the partner (photo_count / activity_count) only.
+ */
+export async function listTrash(supabaseAdmin: SupabaseClient, userId: string): Promise<TrashContents> {
+  const { data: partners, error: partnersError } = await supabaseAdmin
+    .from('partners')
+    .select('id, first_name, last_name, profile_picture_storage_path, deleted_at')
+    .eq('user_id', userId);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch partners: ${partnersError.message}`);
+  }
+
+  if (!partners || partners.length === 0) {
+    return { partners: [], photos: [], activities: [] };
+  }
+
+  const partnerMap = new Map(partners.map((partner) => [partner.id, partner]));
+  const partnerIds = partners.map((partner) => partner.id);
+
+  const [photosResult, activitiesResult] = await Promise.all([
+    supabaseAdmin
+      .from('partner_photos')
+      .select('id, partner_id, storage_path, file_name, deleted_at')
+      .in('partner_id', partnerIds)
+      .not('deleted_at', 'is', null),
+    supabaseAdmin
+      .from('partner_notes')
+      .select('id, partner_id, type, start_time, location, deleted_at')
+      .in('partner_id', partnerIds)
+      .not('deleted_at', 'is', null),
+  ]);
+
+  if (photosResult.error) {
+    throw new Error(`Failed to fetch photos: ${photosResult.error.message}`);
+  }
+  if (activitiesResult.error) {
+    throw new Error(`Failed to fetch activities: ${activitiesResult.error.message}`);
+  }
+
+  const trashedWithPartner = (item: { partner_id: string; deleted_at: string }) =>
+    partnerMap.get(item.partner_id)?.deleted_at === item.deleted_at;
+  const byDeletedAt = (a: { deleted_at: string }, b: { deleted_at: string }) =>
+    b.deleted_at.localeCompare(a.deleted_at);
+
+  const photos = photosResult.data || [];
+  const activities = activitiesResult.data || [];
+
+  return {
+    partners: partners
+      .filter((partner) => partner.deleted_at)
+      .map((partner) => ({
+        id: partner.id,
+        first_name: partner.first_name,
+        last_name: partner.last_name,
+        profile_picture_storage_path: partner.profile_picture_storage_path,
+        deleted_at: partner.deleted_at,
+        purge_at: getPurgeAt(partner.deleted_at),
+        photo_count: photos.filter((photo) => photo.partner_id === partner.id && trashedWithPartner(photo)).length,
+        activity_count: activities.filter((activity) => activity.partner_id === partner.id && trashedWithPartner(activity)).length,
+      }))
+      .sort(byDeletedAt),
+    photos: photos
+      .filter((photo) => !trashedWithPartner(photo))
+      .map((photo) => ({
+        ...photo,
+        partner_name: getPartnerName(partnerMap.get(photo.partner_id)!),
+        purge_at: getPurgeAt(photo.deleted_at),
+      }))
+      .sort(byDeletedAt),
+    activities: activities
+      .filter((activity) => !trashedWithPartner(activity))
+      .map((activity) => ({
+        ...activity,
+        partner_name: getPartnerName(partnerMap.get(activity.partner_id)!),
+        purge_at: getPurgeAt(activity.deleted_at),
+      }))
+      .sort(byDeletedAt),
+  };
+}
+
+/**
+ * Restore an item from the trash.
+ * Photos and activities of a partner that is itself in the trash can only be
+ * restored together with the partner. Free-tier limits apply as when creating.
+ */
+export async function restoreTrashItem(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  type: TrashItemType,
+  id: string
+): Promise<TrashResult> {
+  if (type === 'partner') {
+    return restorePartner(supabaseAdmin, userId, id);
+  }
+
+  const table = type === 'photo' ? 'partner_photos' : 'partner_notes';
+  const label = type === 'photo' ? 'Photo' : 'Activity';
+
+  const { data: item, error } = await supabaseAdmin
+    .from(table)
+    .select('id, partner_id, deleted_at, partners!inner(user_id, deleted_at, profile_picture_storage_path)')
+    .eq('id', id)
+    .eq('partners.user_id', userId)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, status: 500, error: `Failed to fetch ${type}: ${error.message}` };
+  }
+
+  if (!item) {
+    return { ok: false, status: 404, error: `${label} not found in trash` };
+  }
+
+  const partner = item.partners as unknown as { deleted_at: string | null; profile_picture_storage_path: string | null };
+
+  if (partner.deleted_at) {
+    return { ok: false, status: 409, error: `Restore the partner to restore this ${type}` };
+  }
+
+  if (type === 'activity') {
+    const limitResult = await checkActivityLimit(supabaseAdmin, userId);
+    if (!limitResult.ok) {
+      return limitResult;
+    }
+  }
+
+  const { data: restored, error: restoreError } = await supabaseAdmin
+    .from(table)
+    .update({ deleted_at: null })
+    .eq('id', id)
+    .select(type === 'photo' ? 'storage_path' : 'id')
+    .single();
+
+  if (restoreError) {
+    return { ok: false, status: 500, error: `Failed to restore ${type}: ${restoreError.message}` };
+  }
+
+  if (type === 'photo' && !partner.profile_picture_storage_path) {
+    await supabaseAdmin
+      .from('partners')
+      .update({ profile_picture_storage_path: (restored as unknown as { storage_path: string }).storage_path })
+      .eq('id', item.partner_id);
+  }
+
+  return { ok: true };
+}
+
+async function restorePartner(supabaseAdmin: SupabaseClient, userId: string, partnerId: string): Promise<TrashResult> {
+  const { data: partner, error } = await supabaseAdmin
+    .from('partners')
+    .select('id, deleted_at')
+    .eq('id', partnerId)
+    .eq('user_id', userId)
+    .not('deleted_at', 'is', null)
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, status: 500, error: `Failed to fetch partner: ${error.message}` };
+  }
+
+  if (!partner) {
+    return { ok: false, status: 404, error: 'Partner not found in trash' };
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('account_type')
+    .eq('id', userId)
+    .single();
+
+  if (user?.account_type === 'free') {
+    const { count, error: countError } = await supabaseAdmin
+      .from('partners')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('deleted_at', null);
+
+    if (countError) {
+      return { ok: false, status: 500, error: 'Failed to check partner limit' };
+    }
+
+    if (count !== null && count >= FREE_TIER_PARTNER_LIMIT) {
+      return {
+        ok: false,
+        status: 403,
+        error: 'PARTNER_LIMIT_REACHED',
+        message: `Your free subscription is limited to ${FREE_TIER_PARTNER_LIMIT} partners. Please upgrade to Pro to restore this partner.`,
+      };
+    }
+
+    // The activities come back with the partner, without the insert trigger of migration 045
+    const { count: restoredActivities, error: activitiesError } = await supabaseAdmin
+      .from('partner_notes')
+      .select('id', { count: 'exact', head: true })
+      .eq('partner_id', partnerId)
+      .eq('deleted_at', partner.deleted_at);
+
+    if (activitiesError) {
+      return { ok: false, status: 500, error: 'Failed to check activity limit' };
+    }
+
+    const activityCount = (await countUserActivities(supabaseAdmin, userId)) + (restoredActivities || 0);
+    if (activityCount > FREE_TIER_ACTIVITY_LIMIT) {
+      return {
+        ok: false,
+        status: 403,
+        error: 'ACTIVITY_LIMIT_REACHED',
+        message: `Your free subscription is limited to ${FREE_TIER_ACTIVITY_LIMIT} activities, and restoring this partner would bring you to ${activityCount}. Please upgrade to Pro to restore this partner.`,
+      };
+    }
+  }
+
+  // Photos and activities trashed together with the partner
+  for (const table of ['partner_photos', 'partner_notes']) {
+    const { error: childError } = await supabaseAdmin
+      .from(table)
+      .update({ deleted_at: null })
+      .eq('partner_id', partnerId)
+      .eq('deleted_at', partner.deleted_at);
+
+    if (childError) {
+      return { ok: false, status: 500, error: `Failed to restore partner: ${childError.message}` };
+    }
+  }
+
+  const { error: restoreError } = await supabaseAdmin
+    .from('partners')
+    .update({ deleted_at: null })
+    .eq('id', partnerId);
+
+  if (restoreError) {
+    return { ok: false, status: 500, error: `Failed to restore partner: ${restoreError.message}` };
+  }
+
+  return { ok: true };
+}
+
+async function checkActivityLimit(supabaseAdmin: SupabaseClient, userId: string): Promise<TrashResult> {
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('account_type')
+    .eq('id', userId)
+    .single();
+
+  if (user?.account_type !== 'free') {
+    return { ok: true };
+  }
+
+  const activityCount = await countUserActivities(supabaseAdmin, userId);
+  if (activityCount >= FREE_TIER_ACTIVITY_LIMIT) {
+    return {
+      ok: false,
+      status: 403,
+      error: 'ACTIVITY_LIMIT_REACHED',
+      message: getActivityLimitMessage(activityCount),
+    };
+  }
+
+  return { ok: true };
+}
+
+async function getActivePartner(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  partnerId: string
+): Promise<{ id: string; profile_picture_storage_path: string | null } | null> {
+  const { data: partner } = await supabaseAdmin
+    .from('partners')
+    .select('id, profile_picture_storage_path')
+    .eq('id', partnerId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  return partner;
+}
+
+/**
+ * Permanently delete items that have been in the trash for longer than TRASH_RETENTION_MS:
+ * rows, photo files and the calendar events of activities
+ */
+export async function purgeTrash(supabaseAdmin: SupabaseClient): Promise<TrashPurgeSummary> {
+  const summary: TrashPurgeSummary = { partners: 0, photos: 0, activities: 0 };
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_MS).toISOString();
+
+  // Partners first, with everything they contain (including items trashed earlier on their own)
+  const { data: partners, error: partnersError } = await supabaseAdmin
+    .from('partners')
+    .select('id, user_id')
+    .lte('deleted_at', cutoff)
+    .limit(PURGE_BATCH_SIZE);
+
+  if (partnersError) {
+    throw new Error(`Failed to fetch trashed partners: ${partnersError.message}`);
+  }
+
+  for (const partner of partners || []) {
+    summary.activities += await purgeActivities(supabaseAdmin, partner.user_id, { partnerId: partner.id });
+    summary.photos += await purgePhotos(supabaseAdmin, { partnerId: partner.id });
+
+    const { error } = await supabaseAdmin.from('partners').delete().eq('id', partner.id);
+    if (error) {
+      throw new Error(`Failed to delete partner: ${error.message}`);
+    }
+    summary.partners++;
+  }
+
+  // Photos and activities trashed on their own
+  summary.photos += await purgePhotos(supabaseAdmin, { cutoff });
+
+  const { data: activityOwners, error: ownersError } = await supabaseAdmin
+    .from('partner_notes')
+    .select('partners!inner(user_id)')
+    .lte('deleted_at', cutoff)
+    .limit(PURGE_BATCH_SIZE);
+
+  if (ownersError) {
+    throw new Error(`Failed to fetch trashed activities: ${ownersError.message}`);
+  }
+
+  const userIds = new Set(
+    (activityOwners || []).map((row) => (row.partners as unknown as { user_id: string }).user_id)
+  );
+  for (const userId of Array.from(userIds)) {
+    summary.activities += await purgeActivities(supabaseAdmin, userId, { cutoff });
+  }
+
+  return summary;
+}
+
+/**
+ * Delete activities of one user, either all activities of a partner or those trashed before cutoff.
+ * Users with auto-sync have calendar events removed by the delete trigger
+ * (calendar_sync_jobs, with retries); otherwise the event is deleted here.
+ */
+async function purgeActivities(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  filter: { partnerId: string } | { cutoff: string }
+): Promise<number> {
+  let query = supabaseAdmin
+    .from('partner_notes')
+    .select('id, google_calendar_event_id, calendar_provider, partners!inner(user_id)')
+    .eq('partners.user_id', userId);
+
+  query = 'partnerId' in filter
+    ? query.eq('partner_id', filter.partnerId)
+    : query.lte('deleted_at', filter.cutoff);
+
+  const { data: activities, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch activities: ${error.message}`);
+  }
+
+  if (!activities || activities.length === 0) {
+    return 0;
+  }
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('account_type, calendar_auto_sync')
+    .eq('id', userId)
+    .single();
+
+  const autoSync = user?.account_type === 'pro' && !!user.calendar_auto_sync;
+
+  if (!autoSync) {
+    const connections = new Map<CalendarProviderType, CalendarConnection | null>();
+
+    for (const activity of activities as unknown as PurgeActivity[]) {
+      if (!activity.google_calendar_event_id) continue;
+
+      const provider = activity.calendar_provider || 'google';
+      if (!connections.has(provider)) {
+        connections.set(provider, await getUserCalendarConnection(supabaseAdmin, userId, provider));
+      }
+      const connection = connections.get(provider);
+      if (!connection) continue;
+
+      try {
+        await deleteCalendarEvent(connection, activity.google_calendar_event_id);
+      } catch (calendarError) {
+        // Best effort, as when an activity is unsynced before it is deleted
+        console.warn('[Trash] Error deleting calendar event:', {
+          activityId: activity.id,
+          error: calendarError instanceof Error ? calendarError.message : calendarError,
+        });
+      }
+    }
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('partner_notes')
+    .delete()
+    .in('id', activities.map((activity) => activity.id));
+
+  if (deleteError) {
+    throw new Error(`Failed to delete activities: ${deleteError.message}`);
+  }
+
+  return activities.length;
+}
+
+/**
+ * Delete photos and their files, either all photos of a partner or those trashed before cutoff
+ */
+async function purgePhotos(
+  supabaseAdmin: SupabaseClient,
+  filter: { partnerId: string } | { cutoff: string }
+): Promise<number> {
+  let query = supabaseAdmin.from('partner_photos').select('id, storage_path');
+
+  query = 'partnerId' in filter
+    ? query.eq('partner_id', filter.partnerId)
+    : query.lte('deleted_at', filter.cutoff).limit(PURGE_BATCH_SIZE * 10);
+
+  const { data: photos, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch photos: ${error.message}`);
+  }
+
+  if (!photos || photos.length === 0) {
+    return 0;
+  }
+
+  const storagePaths = photos.map((photo) => photo.storage_path).filter(Boolean);
+  if (storagePaths.length > 0) {
+    const { error: storageError } = await supabaseAdmin.storage.from(PHOTO_BUCKET).remove(storagePaths);
+    if (storageError) {
+      throw new Error(`Failed to delete photo files: ${storageError.message}`);
+    }
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('partner_photos')
+    .delete()
+    .in('id', photos.map((photo) => photo.id));
+
+  if (deleteError) {
+    throw new Error(`Failed to delete photos: ${deleteError.message}`);
+  }
+
+  return photos.length;
+}
@@ -0,0 +1,229 @@
+/**
+ * Zip Archives
+ *
+ * Minimal zip reader and writer for server-side archives (data export and
+ * import). Entries are deflated with zlib or stored as-is (already compressed
+ * files such as JPEGs). No zip64: archives and entries must stay below 4 GB.
+ * Reading is bounded by the sizes the archive declares (see ReadZipLimits), so
+ * an uploaded archive can't inflate to more memory than the limits allow.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, "/" separated
+  data: Buffer | string;
+  compress?: boolean; // Default true
+  modifiedAt?: Date;
+}
+
+export interface ReadZipLimits {
+  maxEntryBytes?: number; // Largest uncompressed size of one file
+  maxTotalBytes?: number; // Uncompressed size of all files together
+}
+
+const MAX_ZIP_SIZE = 0xffffffff;
+
+const DEFAULT_MAX_ENTRY_BYTES = 200 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_BYTES = 1024 * 1024 * 1024;
+
+// Bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Buffer): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS date and time (local time, 2 second resolution, years 1980-2107)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a zip archive from entries
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  if (entries.length > 0xffff) {
+    throw new Error('Zip archive has too many files');
+  }
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name.replace(/^\/+/, ''), 'utf8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : entry.data;
+    const deflated = entry.compress === false ? null : deflateRawSync(data);
+    // Keep the original bytes when deflating doesn't help
+    const useDeflate = !!deflated && deflated.length < data.length;
+    const body = useDeflate ? deflated! : data;
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORE;
+    const checksum = crc32(data);
+    const { time, date } = toDosDateTime(entry.modifiedAt || new Date());
+
+    if (data.length > MAX_ZIP_SIZE || offset + 30 + name.length + body.length > MAX_ZIP_SIZE) {
+      throw new Error('Zip archive is too large (over 4 GB)');
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0); // Local file header signature
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // Central directory header signature
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6); // Version needed to extract
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and attributes stay 0
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0); // End of central directory signature
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+}
+
+/**
+ * Read the files of a zip archive (directories are skipped)
+ * Only stored and deflated entries are supported, which covers archives
+ * written by createZip and by common zip tools. Throws when a file is larger
+ * than declared or the declared sizes exceed the limits.
+ */
+export function readZip(archive: Buffer, limits: ReadZipLimits = {}): Map<string, Buffer> {
+  const maxEntryBytes = limits.maxEntryBytes ?? DEFAULT_MAX_ENTRY_BYTES;
+  const maxTotalBytes = limits.maxTotalBytes ?? DEFAULT_MAX_TOTAL_BYTES;
+
+  // The end of central directory record is at the end, followed by a comment of up to 64 KB
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  const files = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid zip central directory');
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const checksum = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const uncompressedSize = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const nameBytes = archive.subarray(offset + 46, offset + 46 + nameLength);
+    const name = nameBytes.toString(flags & UTF8_FLAG ? 'utf8' : 'latin1');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (flags & 0x0001) {
+      throw new Error(`Encrypted zip entries are not supported: ${name}`);
+    }
+    if (uncompressedSize > maxEntryBytes) {
+      throw new Error(`Zip entry is too large: ${name}`);
+    }
+    totalBytes += uncompressedSize;
+    if (totalBytes > maxTotalBytes) {
+      throw new Error('Zip archive is too large when extracted');
+    }
+
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new Error(`Invalid zip entry: ${name}`);
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const body = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORE) {
+      data = Buffer.from(body);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        // Never inflate past the declared size (zip bombs declare small sizes)
+        data = inflateRawSync(body, { maxOutputLength: Math.max(uncompressedSize, 1) });
+      } catch {
+        throw new Error(`Corrupted zip entry: ${name}`);
+      }
+    } else {
+      throw new Error(`Unsupported zip compression method ${method}: ${name}`);
+    }
+
+    if (data.length !== uncompressedSize || crc32(data) !== checksum) {
+      throw new Error(`Corrupted zip entry: ${name}`);
+    }
+
+    files.set(name.replace(/\\/g, '/'), data);
+  }
+
+  return files;
+}
@@ -1,7 +1,6 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { createSupabaseRouteHandlerClient } from '@/lib/supabase/server';
-import { createClient } from '@supabase/supabase-js';
+import { authenticateRequest } from '@/lib/auth/server';
 
 // In-memory cache to prevent duplicate tracking within a short time window
 // Key: userId, Value: timestamp when tracking was attempted
@@ -34,6 +33,7 @@ export async function middleware(request: NextRequest) {
     '/api/auth/update-profile',    // Skip update-profile - it updates last_login, we track on next request
     '/auth/signout',               // Sign out route
     '/auth/callback',              // Auth callback page (handles its own flow)
+    '/api/calendar/feed/',         // Public ICS feed polled by calendar apps (token auth, no session)
     '/_next',                      // Next.js internal routes
     '/static',                     // Static assets
     '/favicon.ico',                // Favicon
@@ -43,43 +43,15 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
   
-  // Only check authenticated routes (skip public routes)
-  // Check for authentication via cookies (web) or Bearer token (mobile)
-  const authHeader = request.headers.get('authorization');
-  let supabase = createSupabaseRouteHandlerClient();
-  let user;
-  let accessToken: string | null = null;
-  
   try {
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      // Mobile app or Bearer token authentication
-      accessToken = authHeader.substring(7);
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      supabase = createClient(supabaseUrl, supabaseAnonKey, {
-        global: {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        },
-      });
-      
-      const { data: { user: tokenUser }, error: userError } = await supabase.auth.getUser(accessToken);
-      if (userError || !tokenUser) {
-        // Not authenticated, continue without tracking
-        return NextResponse.next();
-      }
-      user = tokenUser;
-    } else {
-      // Web app - use cookies
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session?.user) {
-        // Not authenticated, continue without tracking
-        return NextResponse.next();
-      }
-      user = session.user;
-      accessToken = session.access_token || null;
+    // Only check authenticated routes (skip public routes)
+    // API keys are used by scripts and never count as a sign-in
+    const authResult = await authenticateRequest(request, { trustCookieSession: true });
+    if (!authResult.ok) {
+      // Not authenticated, continue without tracking
+      return NextResponse.next();
     }
+    const { supabase, user, accessToken } = authResult.auth;
     
     // Check if we've already tracked this sign-in recently (prevent duplicates)
     // NOTE: In serverless environments, each request may run in a different instance,
@@ -0,0 +1,15 @@
+-- Track which calendar provider holds an activity's synced event
+-- google_calendar_event_id keeps its name for backward compatibility and now
+-- stores the event ID for whichever provider is recorded here.
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS calendar_provider TEXT CHECK (calendar_provider IN ('google', 'outlook'));
+
+-- Existing synced activities were all created through Google Calendar
+UPDATE public.partner_notes
+SET calendar_provider = 'google'
+WHERE google_calendar_event_id IS NOT NULL
+AND calendar_provider IS NULL;
+
+-- Add comment for clarity
+COMMENT ON COLUMN public.partner_notes.calendar_provider IS 'Calendar provider holding the synced event (google or outlook). NULL when not synced.';
+COMMENT ON COLUMN public.partner_notes.google_calendar_event_id IS 'Event ID in the calendar provider named by calendar_provider (column name kept for backward compatibility)';
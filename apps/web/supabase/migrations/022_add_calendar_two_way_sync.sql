@@ -0,0 +1,29 @@
+-- Two-way calendar sync state for partner_notes
+-- calendar_sync_hash: hash of the synced fields (start/end time, location, description)
+--   at the last push or pull, used to detect which side changed since then
+-- calendar_sync_status: outcome of the last sync/reconcile for the activity
+-- calendar_synced_at: when the activity was last pushed to or pulled from the calendar
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS calendar_sync_hash TEXT;
+
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS calendar_sync_status TEXT CHECK (calendar_sync_status IN ('synced', 'deleted_remotely'));
+
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS calendar_synced_at TIMESTAMPTZ;
+
+-- Existing synced activities start without a baseline hash (first reconcile resolves by latest change)
+UPDATE public.partner_notes
+SET calendar_sync_status = 'synced'
+WHERE google_calendar_event_id IS NOT NULL
+AND calendar_sync_status IS NULL;
+
+-- Index for the reconcile job (only synced activities are checked)
+CREATE INDEX IF NOT EXISTS idx_partner_notes_calendar_event
+ON public.partner_notes(google_calendar_event_id)
+WHERE google_calendar_event_id IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.partner_notes.calendar_sync_hash IS 'Hash of synced fields at last push/pull, used by two-way calendar reconciliation';
+COMMENT ON COLUMN public.partner_notes.calendar_sync_status IS 'synced, or deleted_remotely when the linked calendar event was deleted in the calendar';
+COMMENT ON COLUMN public.partner_notes.calendar_synced_at IS 'When the activity was last pushed to or pulled from the calendar';
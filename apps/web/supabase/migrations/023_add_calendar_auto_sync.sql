@@ -0,0 +1,161 @@
+-- Automatic calendar sync
+-- When a Pro user enables users.calendar_auto_sync, every activity insert, edit
+-- and delete is queued in calendar_sync_jobs by a trigger on partner_notes, so
+-- changes made from any client (web, mobile, API) reach the connected calendar.
+-- The queue is drained by the web app (/api/calendar/sync-queue), which retries
+-- failed jobs with backoff.
+
+-- Per-user setting
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS calendar_auto_sync BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.users.calendar_auto_sync IS 'Automatically push activity changes to the connected calendar';
+
+-- Persistent sync status on activities: add pending/failed and the last error
+ALTER TABLE public.partner_notes
+DROP CONSTRAINT IF EXISTS partner_notes_calendar_sync_status_check;
+
+ALTER TABLE public.partner_notes
+ADD CONSTRAINT partner_notes_calendar_sync_status_check
+CHECK (calendar_sync_status IN ('pending', 'synced', 'failed', 'deleted_remotely'));
+
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS calendar_sync_error TEXT;
+
+COMMENT ON COLUMN public.partner_notes.calendar_sync_status IS 'pending (queued for auto-sync), synced, failed (auto-sync will retry), or deleted_remotely when the linked calendar event was deleted in the calendar';
+COMMENT ON COLUMN public.partner_notes.calendar_sync_error IS 'Last calendar sync error for the activity, cleared on a successful sync';
+
+-- Sync queue (one job per activity; newer changes replace older pending jobs)
+CREATE TABLE IF NOT EXISTS public.calendar_sync_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  activity_id UUID NOT NULL, -- No FK: delete jobs outlive their activity
+  operation TEXT NOT NULL CHECK (operation IN ('upsert', 'delete')),
+  provider TEXT CHECK (provider IN ('google', 'outlook')),
+  event_id TEXT, -- Calendar event to delete (delete jobs only)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(activity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_jobs_user_id ON public.calendar_sync_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_jobs_next_attempt ON public.calendar_sync_jobs(next_attempt_at);
+
+-- Enable RLS (jobs are written by the trigger and processed with the service role)
+ALTER TABLE public.calendar_sync_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own calendar sync jobs" ON public.calendar_sync_jobs;
+CREATE POLICY "Users can view own calendar sync jobs"
+  ON public.calendar_sync_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_calendar_sync_jobs_updated_at ON public.calendar_sync_jobs;
+CREATE TRIGGER update_calendar_sync_jobs_updated_at
+  BEFORE UPDATE ON public.calendar_sync_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue a sync job when an activity is created or its synced content changes
+CREATE OR REPLACE FUNCTION public.enqueue_activity_calendar_sync()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Updates written by the sync code itself set a new baseline hash; skip them
+    IF NEW.calendar_sync_hash IS DISTINCT FROM OLD.calendar_sync_hash THEN
+      RETURN NEW;
+    END IF;
+
+    -- Only fields mirrored in the calendar event matter
+    IF NEW.type IS NOT DISTINCT FROM OLD.type
+      AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+      AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+      AND NEW.location IS NOT DISTINCT FROM OLD.location
+      AND NEW.description IS NOT DISTINCT FROM OLD.description THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT u.id INTO owner_id
+  FROM public.partners p
+  JOIN public.users u ON u.id = p.user_id
+  WHERE p.id = NEW.partner_id
+  AND u.calendar_auto_sync = true
+  AND u.account_type = 'pro';
+
+  IF owner_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.calendar_sync_jobs (user_id, activity_id, operation)
+  VALUES (owner_id, NEW.id, 'upsert')
+  ON CONFLICT (activity_id) DO UPDATE
+  SET operation = 'upsert',
+      status = 'pending',
+      attempts = 0,
+      last_error = NULL,
+      next_attempt_at = NOW();
+
+  NEW.calendar_sync_status = 'pending';
+  NEW.calendar_sync_error = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_partner_notes_calendar_sync ON public.partner_notes;
+CREATE TRIGGER enqueue_partner_notes_calendar_sync
+  BEFORE INSERT OR UPDATE ON public.partner_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_activity_calendar_sync();
+
+-- Queue deletion of the calendar event when a synced activity is deleted
+-- (partners are deleted via the API, which deletes their activities first)
+CREATE OR REPLACE FUNCTION public.enqueue_activity_calendar_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id UUID;
+BEGIN
+  IF OLD.google_calendar_event_id IS NULL THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT u.id INTO owner_id
+  FROM public.partners p
+  JOIN public.users u ON u.id = p.user_id
+  WHERE p.id = OLD.partner_id
+  AND u.calendar_auto_sync = true
+  AND u.account_type = 'pro';
+
+  IF owner_id IS NULL THEN
+    RETURN OLD;
+  END IF;
+
+  INSERT INTO public.calendar_sync_jobs (user_id, activity_id, operation, provider, event_id)
+  VALUES (owner_id, OLD.id, 'delete', COALESCE(OLD.calendar_provider, 'google'), OLD.google_calendar_event_id)
+  ON CONFLICT (activity_id) DO UPDATE
+  SET operation = 'delete',
+      provider = EXCLUDED.provider,
+      event_id = EXCLUDED.event_id,
+      status = 'pending',
+      attempts = 0,
+      last_error = NULL,
+      next_attempt_at = NOW();
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_partner_notes_calendar_delete ON public.partner_notes;
+CREATE TRIGGER enqueue_partner_notes_calendar_delete
+  AFTER DELETE ON public.partner_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_activity_calendar_delete();
+
+COMMENT ON TABLE public.calendar_sync_jobs IS 'Queue of activity changes to push to the connected calendar (auto-sync)';
+COMMENT ON COLUMN public.calendar_sync_jobs.operation IS 'upsert (create or update the event) or delete';
+COMMENT ON COLUMN public.calendar_sync_jobs.next_attempt_at IS 'Earliest time the job is retried (exponential backoff after failures)';
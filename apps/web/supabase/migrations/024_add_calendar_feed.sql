@@ -0,0 +1,17 @@
+-- Private iCalendar (.ics) subscription feed of a user's activities
+-- calendar_feed_token: secret part of the feed URL (NULL = feed disabled); rotating it invalidates the old URL
+-- calendar_feed_exclude_black_flagged: leave activities with black-flagged partners out of the feed
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS calendar_feed_token TEXT;
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS calendar_feed_exclude_black_flagged BOOLEAN NOT NULL DEFAULT true;
+
+-- Feed requests look users up by token
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_calendar_feed_token
+ON public.users(calendar_feed_token)
+WHERE calendar_feed_token IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.users.calendar_feed_token IS 'Secret token of the private ICS feed URL (NULL when the feed is disabled)';
+COMMENT ON COLUMN public.users.calendar_feed_exclude_black_flagged IS 'Exclude activities with black-flagged partners from the ICS feed';
@@ -0,0 +1,69 @@
+-- Activities imported from calendar files (.ics)
+-- imported_from: source of an imported activity (NULL for activities created in the app)
+-- import_uid: UID of the source calendar event, used to skip events that were already imported
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS imported_from TEXT CHECK (imported_from IN ('ics'));
+
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS import_uid TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_partner_notes_import_uid
+ON public.partner_notes(import_uid)
+WHERE import_uid IS NOT NULL;
+
+-- Don't auto-sync imported activities back to the calendar (they would be duplicated)
+CREATE OR REPLACE FUNCTION public.enqueue_activity_calendar_sync()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id UUID;
+BEGIN
+  -- Activities imported from a calendar file already exist in a calendar
+  IF TG_OP = 'INSERT' AND NEW.imported_from IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    -- Updates written by the sync code itself set a new baseline hash; skip them
+    IF NEW.calendar_sync_hash IS DISTINCT FROM OLD.calendar_sync_hash THEN
+      RETURN NEW;
+    END IF;
+
+    -- Only fields mirrored in the calendar event matter
+    IF NEW.type IS NOT DISTINCT FROM OLD.type
+      AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time
+      AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time
+      AND NEW.location IS NOT DISTINCT FROM OLD.location
+      AND NEW.description IS NOT DISTINCT FROM OLD.description THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT u.id INTO owner_id
+  FROM public.partners p
+  JOIN public.users u ON u.id = p.user_id
+  WHERE p.id = NEW.partner_id
+  AND u.calendar_auto_sync = true
+  AND u.account_type = 'pro';
+
+  IF owner_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.calendar_sync_jobs (user_id, activity_id, operation)
+  VALUES (owner_id, NEW.id, 'upsert')
+  ON CONFLICT (activity_id) DO UPDATE
+  SET operation = 'upsert',
+      status = 'pending',
+      attempts = 0,
+      last_error = NULL,
+      next_attempt_at = NOW();
+
+  NEW.calendar_sync_status = 'pending';
+  NEW.calendar_sync_error = NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.partner_notes.imported_from IS 'Source of an imported activity: ics (NULL when created in the app)';
+COMMENT ON COLUMN public.partner_notes.import_uid IS 'UID of the calendar event the activity was imported from';
@@ -0,0 +1,84 @@
+-- pgvector face index for partner photos
+-- Face matching used to load every face_descriptor into the web server and compare
+-- them one by one. With FACE_INDEX=pgvector the distances are computed in Postgres
+-- instead and only matching photos are returned.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Vector copy of face_descriptor (JSONB stays the source of truth)
+ALTER TABLE public.partner_photos
+ADD COLUMN IF NOT EXISTS face_embedding vector(128);
+
+-- Convert a JSONB descriptor (array, or JSON-encoded array string) to a vector.
+-- Returns NULL for anything that isn't a 128-number array; such descriptors
+-- never match in the in-memory index either.
+CREATE OR REPLACE FUNCTION public.face_descriptor_to_embedding(descriptor JSONB)
+RETURNS vector AS $$
+DECLARE
+  arr JSONB;
+BEGIN
+  IF descriptor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  arr := CASE
+    WHEN jsonb_typeof(descriptor) = 'string' THEN (descriptor #>> '{}')::jsonb
+    ELSE descriptor
+  END;
+
+  IF jsonb_typeof(arr) <> 'array' OR jsonb_array_length(arr) <> 128 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN arr::text::vector(128);
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Keep face_embedding in sync with face_descriptor
+CREATE OR REPLACE FUNCTION public.sync_partner_photo_face_embedding()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.face_embedding = public.face_descriptor_to_embedding(NEW.face_descriptor);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_partner_photos_face_embedding ON public.partner_photos;
+CREATE TRIGGER sync_partner_photos_face_embedding
+  BEFORE INSERT OR UPDATE OF face_descriptor ON public.partner_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_partner_photo_face_embedding();
+
+-- Backfill existing photos
+UPDATE public.partner_photos
+SET face_embedding = public.face_descriptor_to_embedding(face_descriptor)
+WHERE face_descriptor IS NOT NULL
+AND face_embedding IS NULL;
+
+-- Searches are always scoped to one user's partners
+CREATE INDEX IF NOT EXISTS idx_partner_photos_partner_id_embedding
+ON public.partner_photos(partner_id)
+WHERE face_embedding IS NOT NULL;
+
+-- Exact nearest-neighbour search within a set of partners.
+-- Matches have L2 distance <= max_distance (NULL = no limit), closest first.
+-- Runs with the caller's permissions, so RLS limits it to the user's own photos.
+CREATE OR REPLACE FUNCTION public.match_partner_photo_faces(
+  query_embedding vector(128),
+  partner_ids UUID[],
+  max_distance DOUBLE PRECISION
+)
+RETURNS TABLE (photo_id UUID, partner_id UUID, distance DOUBLE PRECISION) AS $$
+  SELECT photos.id, photos.partner_id, photos.face_embedding <-> query_embedding AS distance
+  FROM public.partner_photos photos
+  WHERE photos.partner_id = ANY(partner_ids)
+  AND photos.face_embedding IS NOT NULL
+  AND (max_distance IS NULL OR photos.face_embedding <-> query_embedding <= max_distance)
+  ORDER BY distance;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.partner_photos.face_embedding IS 'face_descriptor as a pgvector vector, maintained by trigger; used by the pgvector face index';
+COMMENT ON FUNCTION public.match_partner_photo_faces IS 'Face index query: photos of the given partners whose face embedding is within max_distance (Euclidean) of the query';
@@ -0,0 +1,104 @@
+-- Per-partner face models
+-- Each partner with face photos gets a centroid (mean face embedding) and a
+-- spread (mean distance of the partner's faces from the centroid). Uploads are
+-- scored against the centroid, so one unusual photo of a partner no longer
+-- decides whether a new photo is "the same person".
+-- Models are maintained by a trigger on partner_photos, so uploads and deletes
+-- from any client (and photos moved between partners) keep them current.
+-- Requires migration 026 (face_embedding).
+
+CREATE TABLE IF NOT EXISTS public.partner_face_models (
+  partner_id UUID PRIMARY KEY REFERENCES public.partners(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  centroid vector(128) NOT NULL,
+  spread DOUBLE PRECISION NOT NULL DEFAULT 0,
+  photo_count INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_face_models_user_id ON public.partner_face_models(user_id);
+
+-- Enable RLS (models are written by the trigger only)
+ALTER TABLE public.partner_face_models ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own partner face models" ON public.partner_face_models;
+CREATE POLICY "Users can view own partner face models"
+  ON public.partner_face_models FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Recompute one partner's model from their photos' face embeddings
+CREATE OR REPLACE FUNCTION public.refresh_partner_face_model(target_partner_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  partner_user_id UUID;
+  model_centroid vector(128);
+  model_count INTEGER;
+  model_spread DOUBLE PRECISION;
+BEGIN
+  SELECT user_id INTO partner_user_id
+  FROM public.partners
+  WHERE id = target_partner_id;
+
+  -- Partner is being deleted (photos cascade); its model cascades too
+  IF partner_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT AVG(face_embedding), COUNT(*) INTO model_centroid, model_count
+  FROM public.partner_photos
+  WHERE partner_id = target_partner_id
+  AND face_embedding IS NOT NULL;
+
+  IF model_count = 0 THEN
+    DELETE FROM public.partner_face_models WHERE partner_id = target_partner_id;
+    RETURN;
+  END IF;
+
+  SELECT AVG(face_embedding <-> model_centroid) INTO model_spread
+  FROM public.partner_photos
+  WHERE partner_id = target_partner_id
+  AND face_embedding IS NOT NULL;
+
+  INSERT INTO public.partner_face_models (partner_id, user_id, centroid, spread, photo_count, updated_at)
+  VALUES (target_partner_id, partner_user_id, model_centroid, COALESCE(model_spread, 0), model_count, NOW())
+  ON CONFLICT (partner_id) DO UPDATE SET
+    centroid = EXCLUDED.centroid,
+    spread = EXCLUDED.spread,
+    photo_count = EXCLUDED.photo_count,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.sync_partner_face_model()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_partner_face_model(OLD.partner_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.partner_id IS DISTINCT FROM OLD.partner_id) THEN
+    PERFORM public.refresh_partner_face_model(NEW.partner_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs after sync_partner_photos_face_embedding has set face_embedding
+DROP TRIGGER IF EXISTS sync_partner_photos_face_model ON public.partner_photos;
+CREATE TRIGGER sync_partner_photos_face_model
+  AFTER INSERT OR DELETE OR UPDATE OF face_descriptor, partner_id ON public.partner_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_partner_face_model();
+
+-- Backfill models for existing photos
+SELECT public.refresh_partner_face_model(partner_id)
+FROM (
+  SELECT DISTINCT partner_id
+  FROM public.partner_photos
+  WHERE face_embedding IS NOT NULL
+) AS partners_with_faces;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.partner_face_models IS 'Per-partner face model (centroid and spread of photo face embeddings), maintained by trigger';
+COMMENT ON COLUMN public.partner_face_models.spread IS 'Mean Euclidean distance of the partner''s face embeddings from the centroid';
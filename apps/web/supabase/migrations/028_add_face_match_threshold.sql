@@ -0,0 +1,9 @@
+-- Per-user face match threshold
+-- NULL uses the server default (FACE_MATCH_THRESHOLD, else 0.4). Users pick a
+-- strict or lenient value on the face match calibration page.
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS face_match_threshold DOUBLE PRECISION
+CHECK (face_match_threshold IS NULL OR (face_match_threshold >= 0.05 AND face_match_threshold <= 0.95));
+
+COMMENT ON COLUMN public.users.face_match_threshold IS 'Minimum face similarity (0-1) for a photo to count as the same person; NULL = server default';
@@ -0,0 +1,176 @@
+-- Merging duplicate partners
+-- merge_partners moves the duplicate's photos and activities to the partner
+-- being kept, applies the reconciled fields and deletes the duplicate, all in
+-- one transaction. Each merge is recorded in partner_merges so it can be
+-- undone once, within 30 minutes, by undo_partner_merge.
+-- Both functions run with the caller's permissions (RLS applies).
+
+CREATE TABLE IF NOT EXISTS public.partner_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  kept_partner_id UUID REFERENCES public.partners(id) ON DELETE CASCADE NOT NULL,
+  merged_partner JSONB NOT NULL, -- Snapshot of the deleted partner row
+  kept_partner_before JSONB NOT NULL, -- Kept partner row before the merge
+  kept_partner_after JSONB NOT NULL, -- Kept partner row right after the merge
+  moved_photo_ids UUID[] NOT NULL DEFAULT '{}',
+  moved_activity_ids UUID[] NOT NULL DEFAULT '{}',
+  undo_expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '30 minutes',
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_merges_user_id ON public.partner_merges(user_id);
+
+-- Enable RLS
+ALTER TABLE public.partner_merges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own partner merges" ON public.partner_merges;
+CREATE POLICY "Users can view own partner merges"
+  ON public.partner_merges FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own partner merges" ON public.partner_merges;
+CREATE POLICY "Users can insert own partner merges"
+  ON public.partner_merges FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own partner merges" ON public.partner_merges;
+CREATE POLICY "Users can update own partner merges"
+  ON public.partner_merges FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Merge merge_partner_id into keep_partner_id; updates is a JSON object of
+-- reconciled partner fields for the kept partner. Returns the merge id.
+CREATE OR REPLACE FUNCTION public.merge_partners(
+  keep_partner_id UUID,
+  merge_partner_id UUID,
+  updates JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  kept public.partners;
+  merged public.partners;
+  reconciled public.partners;
+  merge_id UUID;
+BEGIN
+  IF keep_partner_id = merge_partner_id THEN
+    RAISE EXCEPTION 'Cannot merge a partner into itself';
+  END IF;
+
+  SELECT * INTO kept FROM public.partners
+  WHERE id = keep_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  SELECT * INTO merged FROM public.partners
+  WHERE id = merge_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF kept.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Partner not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  reconciled := jsonb_populate_record(kept, COALESCE(updates, '{}'::jsonb));
+
+  UPDATE public.partners SET
+    first_name = reconciled.first_name,
+    last_name = reconciled.last_name,
+    email = reconciled.email,
+    phone_number = reconciled.phone_number,
+    description = reconciled.description,
+    description_time = reconciled.description_time,
+    facebook_profile = reconciled.facebook_profile,
+    x_profile = reconciled.x_profile,
+    linkedin_profile = reconciled.linkedin_profile,
+    instagram_profile = reconciled.instagram_profile,
+    profile_picture_storage_path = reconciled.profile_picture_storage_path,
+    black_flag = reconciled.black_flag,
+    updated_at = NOW()
+  WHERE id = keep_partner_id
+  RETURNING * INTO reconciled;
+
+  INSERT INTO public.partner_merges (
+    user_id, kept_partner_id, merged_partner, kept_partner_before, kept_partner_after,
+    moved_photo_ids, moved_activity_ids
+  )
+  VALUES (
+    auth.uid(),
+    keep_partner_id,
+    to_jsonb(merged),
+    to_jsonb(kept),
+    to_jsonb(reconciled),
+    ARRAY(SELECT id FROM public.partner_photos WHERE partner_id = merge_partner_id),
+    ARRAY(SELECT id FROM public.partner_notes WHERE partner_id = merge_partner_id)
+  )
+  RETURNING id INTO merge_id;
+
+  -- Activities keep their calendar event links; only the partner changes
+  UPDATE public.partner_photos SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+  UPDATE public.partner_notes SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+
+  DELETE FROM public.partners WHERE id = merge_partner_id;
+
+  RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Undo a merge: recreate the deleted partner with its original id, move its
+-- photos and activities back, and restore kept partner fields that haven't
+-- been edited since the merge. Returns the restored partner id.
+CREATE OR REPLACE FUNCTION public.undo_partner_merge(target_merge_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  merge_record public.partner_merges;
+  restored public.partners;
+  kept_before public.partners;
+  kept_after public.partners;
+BEGIN
+  SELECT * INTO merge_record FROM public.partner_merges
+  WHERE id = target_merge_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF merge_record.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF merge_record.undone_at IS NOT NULL OR merge_record.undo_expires_at < NOW() THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'P0001';
+  END IF;
+
+  restored := jsonb_populate_record(NULL::public.partners, merge_record.merged_partner);
+  INSERT INTO public.partners SELECT (restored).*;
+
+  UPDATE public.partner_photos SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_photo_ids) AND partner_id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_notes SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_activity_ids) AND partner_id = merge_record.kept_partner_id;
+
+  kept_before := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_before);
+  kept_after := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_after);
+
+  UPDATE public.partners p SET
+    first_name = CASE WHEN p.first_name IS NOT DISTINCT FROM kept_after.first_name THEN kept_before.first_name ELSE p.first_name END,
+    last_name = CASE WHEN p.last_name IS NOT DISTINCT FROM kept_after.last_name THEN kept_before.last_name ELSE p.last_name END,
+    email = CASE WHEN p.email IS NOT DISTINCT FROM kept_after.email THEN kept_before.email ELSE p.email END,
+    phone_number = CASE WHEN p.phone_number IS NOT DISTINCT FROM kept_after.phone_number THEN kept_before.phone_number ELSE p.phone_number END,
+    description = CASE WHEN p.description IS NOT DISTINCT FROM kept_after.description THEN kept_before.description ELSE p.description END,
+    description_time = CASE WHEN p.description_time IS NOT DISTINCT FROM kept_after.description_time THEN kept_before.description_time ELSE p.description_time END,
+    facebook_profile = CASE WHEN p.facebook_profile IS NOT DISTINCT FROM kept_after.facebook_profile THEN kept_before.facebook_profile ELSE p.facebook_profile END,
+    x_profile = CASE WHEN p.x_profile IS NOT DISTINCT FROM kept_after.x_profile THEN kept_before.x_profile ELSE p.x_profile END,
+    linkedin_profile = CASE WHEN p.linkedin_profile IS NOT DISTINCT FROM kept_after.linkedin_profile THEN kept_before.linkedin_profile ELSE p.linkedin_profile END,
+    instagram_profile = CASE WHEN p.instagram_profile IS NOT DISTINCT FROM kept_after.instagram_profile THEN kept_before.instagram_profile ELSE p.instagram_profile END,
+    profile_picture_storage_path = CASE WHEN p.profile_picture_storage_path IS NOT DISTINCT FROM kept_after.profile_picture_storage_path THEN kept_before.profile_picture_storage_path ELSE p.profile_picture_storage_path END,
+    black_flag = CASE WHEN p.black_flag IS NOT DISTINCT FROM kept_after.black_flag THEN kept_before.black_flag ELSE p.black_flag END,
+    updated_at = NOW()
+  WHERE p.id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_merges SET undone_at = NOW() WHERE id = target_merge_id;
+
+  RETURN restored.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.partner_merges IS 'Duplicate partner merges, kept so a merge can be undone until undo_expires_at';
+COMMENT ON FUNCTION public.merge_partners IS 'Move photos and activities of merge_partner_id to keep_partner_id, apply reconciled fields and delete the duplicate';
+COMMENT ON FUNCTION public.undo_partner_merge IS 'Restore a merged partner with its photos and activities (once, before undo_expires_at)';
@@ -0,0 +1,52 @@
+-- Bulk photo upload
+-- Each uploaded image is stored in the user's inbox folder of the
+-- partner-photos bucket and queued in photo_upload_jobs. The web app
+-- (/api/photos/upload-queue) detects faces on the server and assigns images
+-- whose face matches exactly one partner. Images with no face, several faces,
+-- several matching partners or no match are kept for review in the photo inbox.
+
+CREATE TABLE IF NOT EXISTS public.photo_upload_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  batch_id UUID NOT NULL, -- Images uploaded in the same request
+  storage_path TEXT NOT NULL, -- Inbox path until the image is assigned
+  file_name TEXT,
+  file_size INTEGER,
+  mime_type TEXT,
+  width INTEGER,
+  height INTEGER,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'failed', 'review', 'assigned')),
+  review_reason TEXT CHECK (review_reason IN ('no_face', 'multiple_faces', 'ambiguous', 'no_match')),
+  face_count INTEGER,
+  face_descriptor JSONB, -- Set when exactly one face was found
+  candidates JSONB NOT NULL DEFAULT '[]', -- Matching partners: [{ partner_id, similarity }]
+  partner_id UUID REFERENCES public.partners(id) ON DELETE SET NULL,
+  photo_id UUID REFERENCES public.partner_photos(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_photo_upload_jobs_user_status ON public.photo_upload_jobs(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_photo_upload_jobs_next_attempt ON public.photo_upload_jobs(next_attempt_at);
+
+-- Enable RLS (jobs are written with the service role by the upload and queue routes)
+ALTER TABLE public.photo_upload_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own photo upload jobs" ON public.photo_upload_jobs;
+CREATE POLICY "Users can view own photo upload jobs"
+  ON public.photo_upload_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_photo_upload_jobs_updated_at ON public.photo_upload_jobs;
+CREATE TRIGGER update_photo_upload_jobs_updated_at
+  BEFORE UPDATE ON public.photo_upload_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.photo_upload_jobs IS 'Bulk-uploaded photos: queued for face detection, then auto-assigned to a partner or kept for review';
+COMMENT ON COLUMN public.photo_upload_jobs.status IS 'pending / processing / failed (retried with backoff), review (in the photo inbox) or assigned';
+COMMENT ON COLUMN public.photo_upload_jobs.review_reason IS 'Why the photo needs review: no_face, multiple_faces, ambiguous (several partners match) or no_match';
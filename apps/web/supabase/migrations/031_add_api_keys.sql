@@ -0,0 +1,37 @@
+-- API keys for scripts
+-- Scripts authenticate with "Authorization: Bearer dmk_..." instead of a
+-- session. Only the SHA-256 hash of a key is stored; the key itself is shown
+-- once when it is created. The web app (lib/auth/server.ts) looks keys up with
+-- the service role and calls Supabase as the key's user.
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL, -- First characters of the key, to tell keys apart
+  key_hash TEXT NOT NULL, -- Hex SHA-256 of the key
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash ON public.api_keys(key_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id);
+
+-- Enable RLS (keys are created and verified with the service role)
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own API keys" ON public.api_keys;
+CREATE POLICY "Users can view own API keys"
+  ON public.api_keys FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_api_keys_updated_at ON public.api_keys;
+CREATE TRIGGER update_api_keys_updated_at
+  BEFORE UPDATE ON public.api_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.api_keys IS 'API keys for scripts (only the hash is stored)';
+COMMENT ON COLUMN public.api_keys.revoked_at IS 'Set when the key is revoked; revoked keys are rejected';
@@ -0,0 +1,14 @@
+-- Personal API keys: scopes and usage
+-- scopes: what a key may do (partners:read, activities:write, photos:upload);
+-- routes that need none of these can't be called with a key.
+-- last_used_at: updated when the key is used (at most every few minutes).
+ALTER TABLE public.api_keys
+ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (scopes <@ ARRAY['partners:read', 'activities:write', 'photos:upload']);
+
+ALTER TABLE public.api_keys
+ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMPTZ;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.api_keys.scopes IS 'Allowed operations: partners:read, activities:write, photos:upload';
+COMMENT ON COLUMN public.api_keys.last_used_at IS 'Last request made with the key (updated at most every few minutes)';
@@ -0,0 +1,50 @@
+-- Account data export
+-- A user requests an export, which is queued in data_exports. The web app
+-- (/api/exports/process and /api/exports/cron) builds a zip with the user's
+-- profile, partners, activities, photos, subscriptions and payments (JSON and
+-- CSV, plus the photo files) and stores it in the private data-exports
+-- bucket. Archives are downloaded through short-lived signed URLs and deleted
+-- when the export expires.
+
+CREATE TABLE IF NOT EXISTS public.data_exports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'failed', 'completed', 'expired')),
+  include_face_descriptors BOOLEAN NOT NULL DEFAULT false,
+  storage_path TEXT, -- Set when completed: userId/exportId.zip in data-exports
+  file_size BIGINT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_exports_user_created ON public.data_exports(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_exports_status ON public.data_exports(status, next_attempt_at);
+
+-- Enable RLS (exports are written with the service role by the export routes)
+ALTER TABLE public.data_exports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own data exports" ON public.data_exports;
+CREATE POLICY "Users can view own data exports"
+  ON public.data_exports FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_data_exports_updated_at ON public.data_exports;
+CREATE TRIGGER update_data_exports_updated_at
+  BEFORE UPDATE ON public.data_exports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket for the archives (no storage policies: only the service role reads and writes it)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('data-exports', 'data-exports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.data_exports IS 'Account data export requests and the resulting zip archives';
+COMMENT ON COLUMN public.data_exports.status IS 'pending / processing / failed (retried with backoff), completed (archive ready) or expired (archive deleted)';
+COMMENT ON COLUMN public.data_exports.include_face_descriptors IS 'Whether photo face descriptors are included in the archive';
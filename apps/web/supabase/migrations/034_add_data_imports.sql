@@ -0,0 +1,54 @@
+-- Account data import
+-- Restores an archive made by the data export into an account. The archive is
+-- uploaded to <userId>/imports/ in the data-exports bucket and queued in
+-- data_imports. The web app (/api/imports/process and /api/imports/cron) first
+-- runs a dry run that stores a report (status reviewed); after the user
+-- confirms, the import runs for real. Partners are matched against existing
+-- partners by email, phone or full name; new partners, activities and photos
+-- get new IDs.
+
+CREATE TABLE IF NOT EXISTS public.data_imports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT, -- Uploaded archive; cleared when it is deleted
+  mode TEXT NOT NULL DEFAULT 'dry_run' CHECK (mode IN ('dry_run', 'apply')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'failed', 'reviewed', 'completed', 'cancelled')),
+  report JSONB, -- What the import does (dry run) or did (apply)
+  progress JSONB NOT NULL DEFAULT '{}', -- Resume state of an import spread over several runs
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_imports_user_created ON public.data_imports(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_imports_status ON public.data_imports(status, next_attempt_at);
+
+-- Enable RLS (imports are written with the service role by the import routes)
+ALTER TABLE public.data_imports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own data imports" ON public.data_imports;
+CREATE POLICY "Users can view own data imports"
+  ON public.data_imports FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_data_imports_updated_at ON public.data_imports;
+CREATE TRIGGER update_data_imports_updated_at
+  BEFORE UPDATE ON public.data_imports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Activities restored from an archive (import_uid = ID of the exported activity)
+ALTER TABLE public.partner_notes
+DROP CONSTRAINT IF EXISTS partner_notes_imported_from_check;
+
+ALTER TABLE public.partner_notes
+ADD CONSTRAINT partner_notes_imported_from_check CHECK (imported_from IN ('ics', 'archive'));
+
+-- Add comments for documentation
+COMMENT ON TABLE public.data_imports IS 'Restores of data export archives: dry run report, then the import itself';
+COMMENT ON COLUMN public.data_imports.status IS 'pending / processing / failed (retried with backoff), reviewed (dry run done, waiting for confirmation), completed or cancelled';
+COMMENT ON COLUMN public.partner_notes.imported_from IS 'Source of an imported activity: ics or archive (NULL when created in the app)';
+COMMENT ON COLUMN public.partner_notes.import_uid IS 'UID of the calendar event, or ID of the exported activity, the activity was imported from';
@@ -0,0 +1,48 @@
+-- Account deletion
+-- A user schedules the deletion of their account, which is queued in
+-- account_deletions with a grace period during which it can be cancelled.
+-- Once the grace period is over, the web app (/api/account/deletion/cron)
+-- cancels the Stripe subscription, revokes calendar connections, deletes the
+-- user's files from storage and deletes the auth user. The public.users row
+-- and everything that references it (including the account_deletions row)
+-- are removed by ON DELETE CASCADE.
+
+CREATE TABLE IF NOT EXISTS public.account_deletions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'failed')),
+  reason TEXT,
+  scheduled_for TIMESTAMPTZ NOT NULL, -- End of the grace period
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL, -- scheduled_for, then pushed back when a deletion fails
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_deletions_status ON public.account_deletions(status, next_attempt_at);
+
+-- Enable RLS (deletions are written with the service role by the account deletion routes)
+ALTER TABLE public.account_deletions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own account deletion" ON public.account_deletions;
+CREATE POLICY "Users can view own account deletion"
+  ON public.account_deletions FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_account_deletions_updated_at ON public.account_deletions;
+CREATE TRIGGER update_account_deletions_updated_at
+  BEFORE UPDATE ON public.account_deletions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Deleting the auth user removes the profile and all of its data
+ALTER TABLE public.users
+DROP CONSTRAINT IF EXISTS users_id_fkey;
+
+ALTER TABLE public.users
+ADD CONSTRAINT users_id_fkey FOREIGN KEY (id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.account_deletions IS 'Scheduled account deletions; the row is removed together with the user';
+COMMENT ON COLUMN public.account_deletions.status IS 'pending (grace period or due), processing, or failed (retried with backoff)';
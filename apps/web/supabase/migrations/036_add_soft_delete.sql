@@ -0,0 +1,126 @@
+-- Soft delete (trash) for partners, photos and activities
+-- Deleting a partner, photo or activity sets deleted_at instead of removing
+-- the row; deleting a partner also trashes its photos and activities with the
+-- same deleted_at, so restoring the partner brings them back together.
+-- Trashed rows are hidden from users by the SELECT policies below and can be
+-- restored from the trash for 30 days. After that the web app
+-- (/api/trash/cron) deletes the rows, their storage objects and the linked
+-- calendar events.
+
+ALTER TABLE public.partners
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE public.partner_photos
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+ALTER TABLE public.partner_notes
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Trash listing and purge
+CREATE INDEX IF NOT EXISTS idx_partners_deleted_at ON public.partners(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_partner_photos_deleted_at ON public.partner_photos(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_partner_notes_deleted_at ON public.partner_notes(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Hide trashed rows. The trash itself is read and restored with the service role
+-- by /api/trash; a trashed partner also hides its photos and activities, since
+-- the EXISTS subqueries only see partners the user can select.
+DROP POLICY IF EXISTS "Users can view own partners" ON public.partners;
+CREATE POLICY "Users can view own partners"
+  ON public.partners FOR SELECT
+  USING (auth.uid() = user_id AND deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Users can view own partner photos" ON public.partner_photos;
+CREATE POLICY "Users can view own partner photos"
+  ON public.partner_photos FOR SELECT
+  USING (
+    deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.partners
+      WHERE partners.id = partner_photos.partner_id
+      AND partners.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view own partner notes" ON public.partner_notes;
+CREATE POLICY "Users can view own partner notes"
+  ON public.partner_notes FOR SELECT
+  USING (
+    deleted_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.partners
+      WHERE partners.id = partner_notes.partner_id
+      AND partners.user_id = auth.uid()
+    )
+  );
+
+-- Face matching ignores trashed photos, also when called with the service role
+CREATE OR REPLACE FUNCTION public.match_partner_photo_faces(
+  query_embedding vector(128),
+  partner_ids UUID[],
+  max_distance DOUBLE PRECISION
+)
+RETURNS TABLE (photo_id UUID, partner_id UUID, distance DOUBLE PRECISION) AS $$
+  SELECT photos.id, photos.partner_id, photos.face_embedding <-> query_embedding AS distance
+  FROM public.partner_photos photos
+  WHERE photos.partner_id = ANY(partner_ids)
+  AND photos.face_embedding IS NOT NULL
+  AND photos.deleted_at IS NULL
+  AND (max_distance IS NULL OR photos.face_embedding <-> query_embedding <= max_distance)
+  ORDER BY distance;
+$$ LANGUAGE sql STABLE;
+
+-- Face models only include photos that are not in the trash
+CREATE OR REPLACE FUNCTION public.refresh_partner_face_model(target_partner_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  partner_user_id UUID;
+  model_centroid vector(128);
+  model_count INTEGER;
+  model_spread DOUBLE PRECISION;
+BEGIN
+  SELECT user_id INTO partner_user_id
+  FROM public.partners
+  WHERE id = target_partner_id;
+
+  -- Partner is being deleted (photos cascade); its model cascades too
+  IF partner_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT AVG(face_embedding), COUNT(*) INTO model_centroid, model_count
+  FROM public.partner_photos
+  WHERE partner_id = target_partner_id
+  AND face_embedding IS NOT NULL
+  AND deleted_at IS NULL;
+
+  IF model_count = 0 THEN
+    DELETE FROM public.partner_face_models WHERE partner_id = target_partner_id;
+    RETURN;
+  END IF;
+
+  SELECT AVG(face_embedding <-> model_centroid) INTO model_spread
+  FROM public.partner_photos
+  WHERE partner_id = target_partner_id
+  AND face_embedding IS NOT NULL
+  AND deleted_at IS NULL;
+
+  INSERT INTO public.partner_face_models (partner_id, user_id, centroid, spread, photo_count, updated_at)
+  VALUES (target_partner_id, partner_user_id, model_centroid, COALESCE(model_spread, 0), model_count, NOW())
+  ON CONFLICT (partner_id) DO UPDATE SET
+    centroid = EXCLUDED.centroid,
+    spread = EXCLUDED.spread,
+    photo_count = EXCLUDED.photo_count,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_partner_photos_face_model ON public.partner_photos;
+CREATE TRIGGER sync_partner_photos_face_model
+  AFTER INSERT OR DELETE OR UPDATE OF face_descriptor, partner_id, deleted_at ON public.partner_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_partner_face_model();
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.partners.deleted_at IS 'Set when the partner is in the trash; purged 30 days later';
+COMMENT ON COLUMN public.partner_photos.deleted_at IS 'Set when the photo (or its partner) is in the trash; purged 30 days later';
+COMMENT ON COLUMN public.partner_notes.deleted_at IS 'Set when the activity (or its partner) is in the trash; purged 30 days later';
@@ -0,0 +1,194 @@
+-- Partner tags and custom fields
+-- Tags are free-form labels stored on the partner. Custom fields are defined
+-- per account (text, number, date or select) and their values are stored on
+-- the partner as a JSON object keyed by field id. Definitions are written by
+-- the web app (/api/custom-fields) with the service role; values are
+-- validated against them by the partner API.
+
+ALTER TABLE public.partners
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.partners
+ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}';
+
+-- Tag and custom field filters on the partners list
+CREATE INDEX IF NOT EXISTS idx_partners_tags ON public.partners USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_partners_custom_fields ON public.partners USING GIN (custom_fields);
+
+CREATE TABLE IF NOT EXISTS public.custom_field_definitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'date', 'select')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custom_field_definitions_user_name
+ON public.custom_field_definitions(user_id, lower(name));
+
+-- Enable RLS (definitions are written with the service role)
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own custom fields" ON public.custom_field_definitions;
+CREATE POLICY "Users can view own custom fields"
+  ON public.custom_field_definitions FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_custom_field_definitions_updated_at ON public.custom_field_definitions;
+CREATE TRIGGER update_custom_field_definitions_updated_at
+  BEFORE UPDATE ON public.custom_field_definitions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Remove a deleted field's values from all of the user's partners
+CREATE OR REPLACE FUNCTION public.remove_partner_custom_field(target_user_id UUID, field_id UUID)
+RETURNS VOID AS $$
+  UPDATE public.partners
+  SET custom_fields = custom_fields - field_id::TEXT
+  WHERE user_id = target_user_id
+  AND custom_fields ? field_id::TEXT;
+$$ LANGUAGE sql;
+
+-- Merges keep the tags of both partners and fill custom fields the kept
+-- partner doesn't have (see lib/partner-merge.ts); undo restores them
+CREATE OR REPLACE FUNCTION public.merge_partners(
+  keep_partner_id UUID,
+  merge_partner_id UUID,
+  updates JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  kept public.partners;
+  merged public.partners;
+  reconciled public.partners;
+  merge_id UUID;
+BEGIN
+  IF keep_partner_id = merge_partner_id THEN
+    RAISE EXCEPTION 'Cannot merge a partner into itself';
+  END IF;
+
+  SELECT * INTO kept FROM public.partners
+  WHERE id = keep_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  SELECT * INTO merged FROM public.partners
+  WHERE id = merge_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF kept.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Partner not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  reconciled := jsonb_populate_record(kept, COALESCE(updates, '{}'::jsonb));
+
+  UPDATE public.partners SET
+    first_name = reconciled.first_name,
+    last_name = reconciled.last_name,
+    email = reconciled.email,
+    phone_number = reconciled.phone_number,
+    description = reconciled.description,
+    description_time = reconciled.description_time,
+    facebook_profile = reconciled.facebook_profile,
+    x_profile = reconciled.x_profile,
+    linkedin_profile = reconciled.linkedin_profile,
+    instagram_profile = reconciled.instagram_profile,
+    profile_picture_storage_path = reconciled.profile_picture_storage_path,
+    black_flag = reconciled.black_flag,
+    tags = reconciled.tags,
+    custom_fields = reconciled.custom_fields,
+    updated_at = NOW()
+  WHERE id = keep_partner_id
+  RETURNING * INTO reconciled;
+
+  INSERT INTO public.partner_merges (
+    user_id, kept_partner_id, merged_partner, kept_partner_before, kept_partner_after,
+    moved_photo_ids, moved_activity_ids
+  )
+  VALUES (
+    auth.uid(),
+    keep_partner_id,
+    to_jsonb(merged),
+    to_jsonb(kept),
+    to_jsonb(reconciled),
+    ARRAY(SELECT id FROM public.partner_photos WHERE partner_id = merge_partner_id),
+    ARRAY(SELECT id FROM public.partner_notes WHERE partner_id = merge_partner_id)
+  )
+  RETURNING id INTO merge_id;
+
+  -- Activities keep their calendar event links; only the partner changes
+  UPDATE public.partner_photos SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+  UPDATE public.partner_notes SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+
+  DELETE FROM public.partners WHERE id = merge_partner_id;
+
+  RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.undo_partner_merge(target_merge_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  merge_record public.partner_merges;
+  restored public.partners;
+  kept_before public.partners;
+  kept_after public.partners;
+BEGIN
+  SELECT * INTO merge_record FROM public.partner_merges
+  WHERE id = target_merge_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF merge_record.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF merge_record.undone_at IS NOT NULL OR merge_record.undo_expires_at < NOW() THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'P0001';
+  END IF;
+
+  restored := jsonb_populate_record(NULL::public.partners, merge_record.merged_partner);
+  -- Merges from before this migration have no tags or custom fields
+  restored.tags := COALESCE(restored.tags, '{}');
+  restored.custom_fields := COALESCE(restored.custom_fields, '{}');
+  INSERT INTO public.partners SELECT (restored).*;
+
+  UPDATE public.partner_photos SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_photo_ids) AND partner_id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_notes SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_activity_ids) AND partner_id = merge_record.kept_partner_id;
+
+  kept_before := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_before);
+  kept_after := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_after);
+
+  UPDATE public.partners p SET
+    first_name = CASE WHEN p.first_name IS NOT DISTINCT FROM kept_after.first_name THEN kept_before.first_name ELSE p.first_name END,
+    last_name = CASE WHEN p.last_name IS NOT DISTINCT FROM kept_after.last_name THEN kept_before.last_name ELSE p.last_name END,
+    email = CASE WHEN p.email IS NOT DISTINCT FROM kept_after.email THEN kept_before.email ELSE p.email END,
+    phone_number = CASE WHEN p.phone_number IS NOT DISTINCT FROM kept_after.phone_number THEN kept_before.phone_number ELSE p.phone_number END,
+    description = CASE WHEN p.description IS NOT DISTINCT FROM kept_after.description THEN kept_before.description ELSE p.description END,
+    description_time = CASE WHEN p.description_time IS NOT DISTINCT FROM kept_after.description_time THEN kept_before.description_time ELSE p.description_time END,
+    facebook_profile = CASE WHEN p.facebook_profile IS NOT DISTINCT FROM kept_after.facebook_profile THEN kept_before.facebook_profile ELSE p.facebook_profile END,
+    x_profile = CASE WHEN p.x_profile IS NOT DISTINCT FROM kept_after.x_profile THEN kept_before.x_profile ELSE p.x_profile END,
+    linkedin_profile = CASE WHEN p.linkedin_profile IS NOT DISTINCT FROM kept_after.linkedin_profile THEN kept_before.linkedin_profile ELSE p.linkedin_profile END,
+    instagram_profile = CASE WHEN p.instagram_profile IS NOT DISTINCT FROM kept_after.instagram_profile THEN kept_before.instagram_profile ELSE p.instagram_profile END,
+    profile_picture_storage_path = CASE WHEN p.profile_picture_storage_path IS NOT DISTINCT FROM kept_after.profile_picture_storage_path THEN kept_before.profile_picture_storage_path ELSE p.profile_picture_storage_path END,
+    black_flag = CASE WHEN p.black_flag IS NOT DISTINCT FROM kept_after.black_flag THEN kept_before.black_flag ELSE p.black_flag END,
+    tags = CASE WHEN p.tags IS NOT DISTINCT FROM kept_after.tags THEN COALESCE(kept_before.tags, '{}') ELSE p.tags END,
+    custom_fields = CASE WHEN p.custom_fields IS NOT DISTINCT FROM kept_after.custom_fields THEN COALESCE(kept_before.custom_fields, '{}') ELSE p.custom_fields END,
+    updated_at = NOW()
+  WHERE p.id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_merges SET undone_at = NOW() WHERE id = target_merge_id;
+
+  RETURN restored.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.partners.tags IS 'User-defined labels (case-insensitively unique per partner)';
+COMMENT ON COLUMN public.partners.custom_fields IS 'Custom field values keyed by custom_field_definitions.id';
+COMMENT ON TABLE public.custom_field_definitions IS 'Custom partner fields defined per account (text, number, date or select)';
+COMMENT ON COLUMN public.custom_field_definitions.options IS 'Choices of a select field, in display order';
@@ -0,0 +1,160 @@
+-- Partner relationship status
+-- Each partner is in one pipeline stage (talking, first date, seeing,
+-- exclusive, ended or ghosted). Every transition is recorded in
+-- partner_status_changes by a trigger, so the history stays complete whichever
+-- code path changes the status.
+
+ALTER TABLE public.partners
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'talking'
+CHECK (status IN ('talking', 'first_date', 'seeing', 'exclusive', 'ended', 'ghosted'));
+
+ALTER TABLE public.partners
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Existing partners have been talking since they were added (without
+-- touching updated_at, which orders the partners list)
+ALTER TABLE public.partners DISABLE TRIGGER update_partners_updated_at;
+UPDATE public.partners SET status_changed_at = created_at;
+ALTER TABLE public.partners ENABLE TRIGGER update_partners_updated_at;
+
+-- Board columns and status filters
+CREATE INDEX IF NOT EXISTS idx_partners_user_status ON public.partners(user_id, status);
+
+CREATE TABLE IF NOT EXISTS public.partner_status_changes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  partner_id UUID REFERENCES public.partners(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT, -- NULL for the status a partner was added with
+  to_status TEXT NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_status_changes_partner
+ON public.partner_status_changes(partner_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_partner_status_changes_user
+ON public.partner_status_changes(user_id, changed_at DESC);
+
+INSERT INTO public.partner_status_changes (partner_id, user_id, from_status, to_status, changed_at)
+SELECT id, user_id, NULL, status, created_at
+FROM public.partners;
+
+-- Enable RLS (history is written by the trigger below)
+ALTER TABLE public.partner_status_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own partner status changes" ON public.partner_status_changes;
+CREATE POLICY "Users can view own partner status changes"
+  ON public.partner_status_changes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Stamp status changes on the partner
+CREATE OR REPLACE FUNCTION public.set_partner_status_changed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_partners_status_changed_at ON public.partners;
+CREATE TRIGGER set_partners_status_changed_at
+  BEFORE UPDATE OF status ON public.partners
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_partner_status_changed_at();
+
+-- Record the initial status and every transition
+CREATE OR REPLACE FUNCTION public.record_partner_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.partner_status_changes (partner_id, user_id, from_status, to_status, changed_at)
+  VALUES (
+    NEW.id,
+    NEW.user_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    NEW.status_changed_at
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_partners_status_change ON public.partners;
+CREATE TRIGGER record_partners_status_change
+  AFTER INSERT OR UPDATE OF status ON public.partners
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_partner_status_change();
+
+-- Merges made before this migration stored partners without a status; undo
+-- restores them as talking (same function as migration 037 otherwise)
+CREATE OR REPLACE FUNCTION public.undo_partner_merge(target_merge_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  merge_record public.partner_merges;
+  restored public.partners;
+  kept_before public.partners;
+  kept_after public.partners;
+BEGIN
+  SELECT * INTO merge_record FROM public.partner_merges
+  WHERE id = target_merge_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF merge_record.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF merge_record.undone_at IS NOT NULL OR merge_record.undo_expires_at < NOW() THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'P0001';
+  END IF;
+
+  restored := jsonb_populate_record(NULL::public.partners, merge_record.merged_partner);
+  -- Merges from before migrations 037 and 038 have no tags, custom fields or status
+  restored.tags := COALESCE(restored.tags, '{}');
+  restored.custom_fields := COALESCE(restored.custom_fields, '{}');
+  restored.status := COALESCE(restored.status, 'talking');
+  restored.status_changed_at := COALESCE(restored.status_changed_at, restored.created_at, NOW());
+  INSERT INTO public.partners SELECT (restored).*;
+
+  UPDATE public.partner_photos SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_photo_ids) AND partner_id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_notes SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_activity_ids) AND partner_id = merge_record.kept_partner_id;
+
+  kept_before := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_before);
+  kept_after := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_after);
+
+  UPDATE public.partners p SET
+    first_name = CASE WHEN p.first_name IS NOT DISTINCT FROM kept_after.first_name THEN kept_before.first_name ELSE p.first_name END,
+    last_name = CASE WHEN p.last_name IS NOT DISTINCT FROM kept_after.last_name THEN kept_before.last_name ELSE p.last_name END,
+    email = CASE WHEN p.email IS NOT DISTINCT FROM kept_after.email THEN kept_before.email ELSE p.email END,
+    phone_number = CASE WHEN p.phone_number IS NOT DISTINCT FROM kept_after.phone_number THEN kept_before.phone_number ELSE p.phone_number END,
+    description = CASE WHEN p.description IS NOT DISTINCT FROM kept_after.description THEN kept_before.description ELSE p.description END,
+    description_time = CASE WHEN p.description_time IS NOT DISTINCT FROM kept_after.description_time THEN kept_before.description_time ELSE p.description_time END,
+    facebook_profile = CASE WHEN p.facebook_profile IS NOT DISTINCT FROM kept_after.facebook_profile THEN kept_before.facebook_profile ELSE p.facebook_profile END,
+    x_profile = CASE WHEN p.x_profile IS NOT DISTINCT FROM kept_after.x_profile THEN kept_before.x_profile ELSE p.x_profile END,
+    linkedin_profile = CASE WHEN p.linkedin_profile IS NOT DISTINCT FROM kept_after.linkedin_profile THEN kept_before.linkedin_profile ELSE p.linkedin_profile END,
+    instagram_profile = CASE WHEN p.instagram_profile IS NOT DISTINCT FROM kept_after.instagram_profile THEN kept_before.instagram_profile ELSE p.instagram_profile END,
+    profile_picture_storage_path = CASE WHEN p.profile_picture_storage_path IS NOT DISTINCT FROM kept_after.profile_picture_storage_path THEN kept_before.profile_picture_storage_path ELSE p.profile_picture_storage_path END,
+    black_flag = CASE WHEN p.black_flag IS NOT DISTINCT FROM kept_after.black_flag THEN kept_before.black_flag ELSE p.black_flag END,
+    tags = CASE WHEN p.tags IS NOT DISTINCT FROM kept_after.tags THEN COALESCE(kept_before.tags, '{}') ELSE p.tags END,
+    custom_fields = CASE WHEN p.custom_fields IS NOT DISTINCT FROM kept_after.custom_fields THEN COALESCE(kept_before.custom_fields, '{}') ELSE p.custom_fields END,
+    updated_at = NOW()
+  WHERE p.id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_merges SET undone_at = NOW() WHERE id = target_merge_id;
+
+  RETURN restored.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.partners.status IS 'Relationship stage: talking, first_date, seeing, exclusive, ended or ghosted';
+COMMENT ON COLUMN public.partners.status_changed_at IS 'When the partner entered the current status';
+COMMENT ON TABLE public.partner_status_changes IS 'History of partner status transitions (written by trigger)';
@@ -0,0 +1,50 @@
+-- Partner reminders
+-- A reminder is either one-off (remind_at) or a "no contact in N days" rule
+-- computed from the partner's latest activity (partner_notes.start_time).
+-- Due reminders are sent by email and push from /api/reminders/cron
+-- (lib/reminders.ts). Reminders are written by the web app with the service role.
+
+CREATE TABLE IF NOT EXISTS public.partner_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  partner_id UUID REFERENCES public.partners(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('once', 'no_contact')),
+  remind_at TIMESTAMPTZ,
+  no_contact_days INTEGER CHECK (no_contact_days BETWEEN 1 AND 365),
+  note TEXT,
+  last_sent_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (
+    (kind = 'once' AND remind_at IS NOT NULL)
+    OR (kind = 'no_contact' AND no_contact_days IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_reminders_partner ON public.partner_reminders(partner_id);
+
+-- Active reminders (scanned by the cron and the upcoming reminders panel)
+CREATE INDEX IF NOT EXISTS idx_partner_reminders_active
+ON public.partner_reminders(user_id)
+WHERE completed_at IS NULL;
+
+-- Enable RLS (reminders are written with the service role)
+ALTER TABLE public.partner_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reminders" ON public.partner_reminders;
+CREATE POLICY "Users can view own reminders"
+  ON public.partner_reminders FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_partner_reminders_updated_at ON public.partner_reminders;
+CREATE TRIGGER update_partner_reminders_updated_at
+  BEFORE UPDATE ON public.partner_reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE public.partner_reminders IS 'Follow-up reminders for partners (one-off or no contact in N days)';
+COMMENT ON COLUMN public.partner_reminders.no_contact_days IS 'no_contact: remind when the latest activity is this many days old';
+COMMENT ON COLUMN public.partner_reminders.last_sent_at IS 'Last delivery; a no_contact rule is sent once per gap between activities';
+COMMENT ON COLUMN public.partner_reminders.completed_at IS 'Set when a one-off reminder has been sent';
@@ -0,0 +1,54 @@
+-- Push notifications
+-- Mobile devices register their FCM (Android) or APNs (iOS) token in
+-- push_devices. Users turn kinds of notifications on or off in
+-- users.notification_preferences. notification_log records notifications that
+-- must be sent only once (e.g. the alert for an upcoming activity).
+-- Devices and the log are written by the web app with the service role.
+
+CREATE TABLE IF NOT EXISTS public.push_devices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+  last_registered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_devices_user ON public.push_devices(user_id);
+
+-- Enable RLS (devices are written with the service role)
+ALTER TABLE public.push_devices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own push devices" ON public.push_devices;
+CREATE POLICY "Users can view own push devices"
+  ON public.push_devices FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_push_devices_updated_at ON public.push_devices;
+CREATE TRIGGER update_push_devices_updated_at
+  BEFORE UPDATE ON public.push_devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Categories the user turned off are stored as false; missing means on
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS notification_preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.notification_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  category TEXT NOT NULL,
+  key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, category, key)
+);
+
+-- Enable RLS (service role only)
+ALTER TABLE public.notification_log ENABLE ROW LEVEL SECURITY;
+
+-- Add comments for documentation
+COMMENT ON TABLE public.push_devices IS 'Mobile devices that receive push notifications';
+COMMENT ON COLUMN public.push_devices.token IS 'FCM registration token (android) or APNs device token (ios)';
+COMMENT ON COLUMN public.users.notification_preferences IS 'Push notification categories the user turned off (false); missing categories are on';
+COMMENT ON TABLE public.notification_log IS 'Notifications sent once per key (e.g. activity id and start time)';
@@ -0,0 +1,156 @@
+-- Full-text search over partners and activities
+-- Partners are searched by name, contacts and description, activities by
+-- location and description. The search documents are expression indexes rather
+-- than stored columns, so `select *` payloads and partner merges (which insert
+-- whole rows) are unchanged. The 'simple' configuration is used because most of
+-- the text is names, handles and short notes that shouldn't be stemmed.
+
+CREATE OR REPLACE FUNCTION public.partner_search_vector(
+  first_name TEXT,
+  last_name TEXT,
+  email TEXT,
+  phone_number TEXT,
+  facebook_profile TEXT,
+  x_profile TEXT,
+  linkedin_profile TEXT,
+  instagram_profile TEXT,
+  description TEXT
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('simple', concat_ws(' ', first_name, last_name)), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ', email, phone_number, facebook_profile, x_profile, linkedin_profile, instagram_profile)), 'B') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.activity_search_vector(location TEXT, description TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('simple', coalesce(location, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_partners_search
+ON public.partners USING GIN (
+  public.partner_search_vector(
+    first_name, last_name, email, phone_number,
+    facebook_profile, x_profile, linkedin_profile, instagram_profile,
+    description
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_notes_search
+ON public.partner_notes USING GIN (public.activity_search_vector(location, description));
+
+-- Every word of the query must match, as a prefix ("ale" finds "Alex").
+-- tsquery operators and quotes in the input are treated as spaces. Returns
+-- NULL for queries without words, which match nothing.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(search_query TEXT)
+RETURNS tsquery AS $$
+  SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+  FROM regexp_split_to_table(
+    lower(trim(regexp_replace(search_query, '[''\\:&|!()<>*]', ' ', 'g'))),
+    '\s+'
+  ) AS term
+  WHERE term <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Snippet of the matching text. Matched words are wrapped in U+E000 / U+E001
+-- (SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END in packages/shared/search.ts).
+CREATE OR REPLACE FUNCTION public.search_snippet(document TEXT, query tsquery)
+RETURNS TEXT AS $$
+  SELECT ts_headline(
+    'simple',
+    document,
+    query,
+    'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+      ', MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked search over the caller's partners and their activities, best match
+-- first. Trashed partners and activities are skipped. Runs with the caller's
+-- permissions, so RLS limits it to the user's own data.
+CREATE OR REPLACE FUNCTION public.search_partners(search_query TEXT, max_results INTEGER)
+RETURNS TABLE (
+  result_type TEXT,
+  partner_id UUID,
+  first_name TEXT,
+  last_name TEXT,
+  profile_picture_storage_path TEXT,
+  activity_id UUID,
+  activity_type TEXT,
+  activity_start_time TIMESTAMPTZ,
+  snippet TEXT,
+  rank REAL
+) AS $$
+  WITH query AS (
+    SELECT public.to_prefix_tsquery(search_query) AS q
+  ),
+  partner_matches AS (
+    SELECT
+      'partner'::TEXT AS result_type,
+      p.id AS partner_id,
+      p.first_name,
+      p.last_name,
+      p.profile_picture_storage_path,
+      NULL::UUID AS activity_id,
+      NULL::TEXT AS activity_type,
+      NULL::TIMESTAMPTZ AS activity_start_time,
+      public.search_snippet(
+        concat_ws(' · ',
+          concat_ws(' ', p.first_name, p.last_name),
+          p.email, p.phone_number,
+          p.facebook_profile, p.x_profile, p.linkedin_profile, p.instagram_profile,
+          p.description
+        ),
+        query.q
+      ) AS snippet,
+      ts_rank(
+        public.partner_search_vector(
+          p.first_name, p.last_name, p.email, p.phone_number,
+          p.facebook_profile, p.x_profile, p.linkedin_profile, p.instagram_profile,
+          p.description
+        ),
+        query.q
+      ) AS rank
+    FROM public.partners p, query
+    WHERE p.user_id = auth.uid()
+    AND p.deleted_at IS NULL
+    AND public.partner_search_vector(
+      p.first_name, p.last_name, p.email, p.phone_number,
+      p.facebook_profile, p.x_profile, p.linkedin_profile, p.instagram_profile,
+      p.description
+    ) @@ query.q
+  ),
+  activity_matches AS (
+    SELECT
+      'activity'::TEXT,
+      p.id,
+      p.first_name,
+      p.last_name,
+      p.profile_picture_storage_path,
+      a.id,
+      a.type,
+      a.start_time,
+      public.search_snippet(concat_ws(' · ', a.location, a.description), query.q),
+      ts_rank(public.activity_search_vector(a.location, a.description), query.q)
+    FROM public.partner_notes a
+    JOIN public.partners p ON p.id = a.partner_id, query
+    WHERE p.user_id = auth.uid()
+    AND p.deleted_at IS NULL
+    AND a.deleted_at IS NULL
+    AND public.activity_search_vector(a.location, a.description) @@ query.q
+  )
+  SELECT * FROM (
+    SELECT * FROM partner_matches
+    UNION ALL
+    SELECT * FROM activity_matches
+  ) results
+  ORDER BY results.rank DESC, results.activity_start_time DESC NULLS FIRST
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.search_partners(TEXT, INTEGER) IS 'Ranked full-text search over the caller''s partners and activities, with highlighted snippets';
+COMMENT ON FUNCTION public.to_prefix_tsquery(TEXT) IS 'Query matching every word of the input as a prefix';
@@ -0,0 +1,69 @@
+-- Partner list sorting, filters and saved views
+-- partner_list is the partners table with the stats the list can be sorted and
+-- filtered by (latest activity, number of dates, number of photos). The stats
+-- are computed when queried, so they never go stale; trashed activities and
+-- photos don't count. The view runs with the caller's permissions, so the
+-- partners RLS policies (own partners, not in the trash) apply to it.
+-- Saved views are named sort and filter query parameters of the list.
+
+CREATE INDEX IF NOT EXISTS idx_partner_notes_partner_type_start
+ON public.partner_notes(partner_id, type, start_time DESC)
+WHERE deleted_at IS NULL;
+
+-- p.* is expanded when the view is created: migrations that add partner
+-- columns must drop and recreate it for the list to return them
+CREATE OR REPLACE VIEW public.partner_list
+WITH (security_invoker = true) AS
+SELECT
+  p.*,
+  activity_stats.last_activity_at,
+  COALESCE(activity_stats.date_count, 0) AS date_count,
+  COALESCE(photo_stats.photo_count, 0) AS photo_count
+FROM public.partners p
+LEFT JOIN LATERAL (
+  SELECT
+    MAX(n.start_time) AS last_activity_at,
+    COUNT(*) FILTER (WHERE n.type = 'date')::INTEGER AS date_count
+  FROM public.partner_notes n
+  WHERE n.partner_id = p.id
+  AND n.deleted_at IS NULL
+) activity_stats ON TRUE
+LEFT JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS photo_count
+  FROM public.partner_photos ph
+  WHERE ph.partner_id = p.id
+  AND ph.deleted_at IS NULL
+) photo_stats ON TRUE;
+
+GRANT SELECT ON public.partner_list TO authenticated;
+
+CREATE TABLE IF NOT EXISTS public.partner_views (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_partner_views_user_name
+ON public.partner_views(user_id, lower(name));
+
+-- Enable RLS (views are written with the service role)
+ALTER TABLE public.partner_views ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own partner views" ON public.partner_views;
+CREATE POLICY "Users can view own partner views"
+  ON public.partner_views FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_partner_views_updated_at ON public.partner_views;
+CREATE TRIGGER update_partner_views_updated_at
+  BEFORE UPDATE ON public.partner_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON VIEW public.partner_list IS 'Partners with their latest activity, number of dates and number of photos (trashed activities and photos excluded)';
+COMMENT ON TABLE public.partner_views IS 'Saved sorts and filters of the partners list';
+COMMENT ON COLUMN public.partner_views.params IS 'Partners list query parameters (sort, order, filters), as built by buildPartnerListParams';
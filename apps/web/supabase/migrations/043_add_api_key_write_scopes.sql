@@ -0,0 +1,12 @@
+-- Personal API keys: scopes for partner changes and calendar sync
+-- partners:write: create, edit, merge and delete partners (and their reminders,
+-- custom fields and saved views); calendar:sync: calendar sync and feed routes.
+ALTER TABLE public.api_keys
+DROP CONSTRAINT IF EXISTS api_keys_scopes_check;
+
+ALTER TABLE public.api_keys
+ADD CONSTRAINT api_keys_scopes_check
+  CHECK (scopes <@ ARRAY['partners:read', 'partners:write', 'activities:write', 'photos:upload', 'calendar:sync']);
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.api_keys.scopes IS 'Allowed operations: partners:read, partners:write, activities:write, photos:upload, calendar:sync';
@@ -0,0 +1,101 @@
+-- Limit what API key requests can write
+-- Requests made with an API key call Supabase with a short-lived token that
+-- carries the scopes of the route in an api_key_scopes claim (lib/auth/api-keys.ts).
+-- The restrictive policies below are combined with the existing "Users can ..."
+-- policies, so such a token can only write the tables its scopes cover, whatever
+-- the route does with it. Session and mobile tokens have no such claim and are
+-- not affected. Reads are still governed by the select policies alone.
+
+-- True without an api_key_scopes claim, otherwise if the claim has any of the scopes
+CREATE OR REPLACE FUNCTION public.api_key_has_scope(scopes TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NOT (COALESCE(auth.jwt(), '{}'::jsonb) ? 'api_key_scopes')
+    OR ARRAY(SELECT jsonb_array_elements_text(auth.jwt() -> 'api_key_scopes')) && scopes;
+$$;
+
+-- Profile: calendar feed settings and the face match threshold
+DROP POLICY IF EXISTS "API keys need a scope to update profiles" ON public.users;
+CREATE POLICY "API keys need a scope to update profiles"
+  ON public.users AS RESTRICTIVE FOR UPDATE
+  USING (public.api_key_has_scope(ARRAY['calendar:sync', 'photos:upload']));
+
+-- Partners (activity and photo changes also touch the partner's updated_at)
+DROP POLICY IF EXISTS "API keys need partners:write to insert partners" ON public.partners;
+CREATE POLICY "API keys need partners:write to insert partners"
+  ON public.partners AS RESTRICTIVE FOR INSERT
+  WITH CHECK (public.api_key_has_scope(ARRAY['partners:write']));
+
+DROP POLICY IF EXISTS "API keys need a scope to update partners" ON public.partners;
+CREATE POLICY "API keys need a scope to update partners"
+  ON public.partners AS RESTRICTIVE FOR UPDATE
+  USING (public.api_key_has_scope(ARRAY['partners:write', 'activities:write', 'photos:upload']));
+
+DROP POLICY IF EXISTS "API keys need partners:write to delete partners" ON public.partners;
+CREATE POLICY "API keys need partners:write to delete partners"
+  ON public.partners AS RESTRICTIVE FOR DELETE
+  USING (public.api_key_has_scope(ARRAY['partners:write']));
+
+-- Activities (calendar sync writes event links, merges move activities)
+DROP POLICY IF EXISTS "API keys need activities:write to insert partner notes" ON public.partner_notes;
+CREATE POLICY "API keys need activities:write to insert partner notes"
+  ON public.partner_notes AS RESTRICTIVE FOR INSERT
+  WITH CHECK (public.api_key_has_scope(ARRAY['activities:write']));
+
+DROP POLICY IF EXISTS "API keys need a scope to update partner notes" ON public.partner_notes;
+CREATE POLICY "API keys need a scope to update partner notes"
+  ON public.partner_notes AS RESTRICTIVE FOR UPDATE
+  USING (public.api_key_has_scope(ARRAY['activities:write', 'calendar:sync', 'partners:write']));
+
+DROP POLICY IF EXISTS "API keys need activities:write to delete partner notes" ON public.partner_notes;
+CREATE POLICY "API keys need activities:write to delete partner notes"
+  ON public.partner_notes AS RESTRICTIVE FOR DELETE
+  USING (public.api_key_has_scope(ARRAY['activities:write']));
+
+-- Photos (merges move photos)
+DROP POLICY IF EXISTS "API keys need photos:upload to insert partner photos" ON public.partner_photos;
+CREATE POLICY "API keys need photos:upload to insert partner photos"
+  ON public.partner_photos AS RESTRICTIVE FOR INSERT
+  WITH CHECK (public.api_key_has_scope(ARRAY['photos:upload']));
+
+DROP POLICY IF EXISTS "API keys need a scope to update partner photos" ON public.partner_photos;
+CREATE POLICY "API keys need a scope to update partner photos"
+  ON public.partner_photos AS RESTRICTIVE FOR UPDATE
+  USING (public.api_key_has_scope(ARRAY['photos:upload', 'partners:write']));
+
+DROP POLICY IF EXISTS "API keys need photos:upload to delete partner photos" ON public.partner_photos;
+CREATE POLICY "API keys need photos:upload to delete partner photos"
+  ON public.partner_photos AS RESTRICTIVE FOR DELETE
+  USING (public.api_key_has_scope(ARRAY['photos:upload']));
+
+-- Calendar connections: connecting a calendar needs a session
+DROP POLICY IF EXISTS "API keys can not insert calendar connections" ON public.calendar_connections;
+CREATE POLICY "API keys can not insert calendar connections"
+  ON public.calendar_connections AS RESTRICTIVE FOR INSERT
+  WITH CHECK (public.api_key_has_scope(ARRAY[]::TEXT[]));
+
+DROP POLICY IF EXISTS "API keys need calendar:sync to update calendar connections" ON public.calendar_connections;
+CREATE POLICY "API keys need calendar:sync to update calendar connections"
+  ON public.calendar_connections AS RESTRICTIVE FOR UPDATE
+  USING (public.api_key_has_scope(ARRAY['calendar:sync']));
+
+DROP POLICY IF EXISTS "API keys can not delete calendar connections" ON public.calendar_connections;
+CREATE POLICY "API keys can not delete calendar connections"
+  ON public.calendar_connections AS RESTRICTIVE FOR DELETE
+  USING (public.api_key_has_scope(ARRAY[]::TEXT[]));
+
+-- Partner merges
+DROP POLICY IF EXISTS "API keys need partners:write to insert partner merges" ON public.partner_merges;
+CREATE POLICY "API keys need partners:write to insert partner merges"
+  ON public.partner_merges AS RESTRICTIVE FOR INSERT
+  WITH CHECK (public.api_key_has_scope(ARRAY['partners:write']));
+
+DROP POLICY IF EXISTS "API keys need partners:write to update partner merges" ON public.partner_merges;
+CREATE POLICY "API keys need partners:write to update partner merges"
+  ON public.partner_merges AS RESTRICTIVE FOR UPDATE
+  USING (public.api_key_has_scope(ARRAY['partners:write']));
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.api_key_has_scope(TEXT[]) IS 'Whether the request is not made with an API key, or its token has one of the scopes';
@@ -0,0 +1,45 @@
+-- Enforce the free-tier activity limit in the database
+-- The API routes check the limit before inserting, but partner_notes can also be
+-- written directly through PostgREST. Free accounts can't insert activities once
+-- they have FREE_TIER_ACTIVITY_LIMIT (packages/shared) activities; keep both in sync.
+-- Activities in the trash, or of partners in the trash, don't count.
+CREATE OR REPLACE FUNCTION public.enforce_free_tier_activity_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id UUID;
+  activity_count INTEGER;
+BEGIN
+  SELECT p.user_id INTO owner_id
+  FROM public.partners p
+  WHERE p.id = NEW.partner_id;
+
+  IF owner_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.users u WHERE u.id = owner_id AND u.account_type = 'free'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO activity_count
+  FROM public.partner_notes n
+  JOIN public.partners p ON p.id = n.partner_id
+  WHERE p.user_id = owner_id
+    AND p.deleted_at IS NULL
+    AND n.deleted_at IS NULL;
+
+  IF activity_count >= 20 THEN
+    RAISE EXCEPTION 'ACTIVITY_LIMIT_REACHED'
+      USING ERRCODE = 'P0001', DETAIL = format('Free accounts are limited to 20 activities (%s)', activity_count);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_free_tier_activity_limit ON public.partner_notes;
+CREATE TRIGGER enforce_free_tier_activity_limit
+  BEFORE INSERT ON public.partner_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_free_tier_activity_limit();
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.enforce_free_tier_activity_limit() IS 'Rejects new activities of free accounts that have reached FREE_TIER_ACTIVITY_LIMIT (20) activities';
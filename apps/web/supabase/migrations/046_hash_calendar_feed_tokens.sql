@@ -0,0 +1,23 @@
+-- Store calendar feed tokens hashed
+-- calendar_feed_token_hash: hex SHA-256 of the secret part of the feed URL (NULL = feed disabled).
+-- The token itself is only returned when the feed is created or rotated; existing
+-- feed URLs keep working because their tokens are hashed in place.
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS calendar_feed_token_hash TEXT;
+
+UPDATE public.users
+SET calendar_feed_token_hash = encode(sha256(convert_to(calendar_feed_token, 'UTF8')), 'hex')
+WHERE calendar_feed_token IS NOT NULL;
+
+DROP INDEX IF EXISTS public.idx_users_calendar_feed_token;
+
+ALTER TABLE public.users
+DROP COLUMN IF EXISTS calendar_feed_token;
+
+-- Feed requests look users up by token hash
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_calendar_feed_token_hash
+ON public.users(calendar_feed_token_hash)
+WHERE calendar_feed_token_hash IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.users.calendar_feed_token_hash IS 'SHA-256 (hex) of the secret token of the private ICS feed URL (NULL when the feed is disabled)';
@@ -0,0 +1,52 @@
+-- Match faces with the same distances as the in-memory face index
+-- pgvector stores face_embedding as float4 and computes <-> in single precision,
+-- while the in-memory index compares the JSONB face_descriptor in float64, so
+-- faces right at the match threshold could match in one index and not the other.
+-- The embedding now only narrows down candidates (with a margin passed by the
+-- caller); the distance returned is computed in double precision from
+-- face_descriptor, and the caller applies the threshold (lib/face-index).
+
+-- Euclidean distance between a JSONB descriptor (array, or JSON-encoded array string)
+-- and a query descriptor, in double precision
+CREATE OR REPLACE FUNCTION public.face_descriptor_distance(
+  descriptor JSONB,
+  query_descriptor DOUBLE PRECISION[]
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT sqrt(SUM(diffs.diff * diffs.diff))
+  FROM (
+    SELECT (elem.value #>> '{}')::DOUBLE PRECISION - query_descriptor[elem.position] AS diff
+    FROM jsonb_array_elements(
+      CASE
+        WHEN jsonb_typeof(descriptor) = 'string' THEN (descriptor #>> '{}')::jsonb
+        ELSE descriptor
+      END
+    ) WITH ORDINALITY AS elem(value, position)
+  ) diffs;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The query is now passed as a double precision array instead of a vector
+DROP FUNCTION IF EXISTS public.match_partner_photo_faces(vector, UUID[], DOUBLE PRECISION);
+
+-- Exact nearest-neighbour search within a set of partners.
+-- Returns photos whose embedding is within max_distance (NULL = no limit), with
+-- the double precision distance, closest first.
+-- Runs with the caller's permissions, so RLS limits it to the user's own photos.
+CREATE OR REPLACE FUNCTION public.match_partner_photo_faces(
+  query_descriptor DOUBLE PRECISION[],
+  partner_ids UUID[],
+  max_distance DOUBLE PRECISION
+)
+RETURNS TABLE (photo_id UUID, partner_id UUID, distance DOUBLE PRECISION) AS $$
+  SELECT photos.id, photos.partner_id, public.face_descriptor_distance(photos.face_descriptor, query_descriptor) AS distance
+  FROM public.partner_photos photos
+  WHERE photos.partner_id = ANY(partner_ids)
+  AND photos.face_embedding IS NOT NULL
+  AND photos.deleted_at IS NULL
+  AND (max_distance IS NULL OR photos.face_embedding <-> query_descriptor::vector(128) <= max_distance)
+  ORDER BY distance;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.face_descriptor_distance IS 'Euclidean distance between a JSONB face descriptor and a query descriptor, in double precision';
+COMMENT ON FUNCTION public.match_partner_photo_faces IS 'Face index query: photos of the given partners whose face embedding is within max_distance (Euclidean, single precision) of the query, with the double precision distance';
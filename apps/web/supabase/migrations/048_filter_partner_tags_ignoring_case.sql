@@ -0,0 +1,21 @@
+-- Filter the partners list by tags ignoring case
+-- Tags keep the spelling they were first entered with ("Tel Aviv"), so the list
+-- filter compares lowercased tags instead (lib/partner-list.ts). tag_keys is a
+-- computed field of partner_list: PostgREST can filter on it, but select=* leaves it out.
+
+CREATE OR REPLACE FUNCTION public.partner_tag_keys(tags TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(lower(tag)), '{}') FROM unnest(tags) AS tag;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_partners_tag_keys
+ON public.partners USING GIN (public.partner_tag_keys(tags));
+
+CREATE OR REPLACE FUNCTION public.tag_keys(public.partner_list)
+RETURNS TEXT[] AS $$
+  SELECT public.partner_tag_keys($1.tags);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.partner_tag_keys(TEXT[]) IS 'Lowercased partner tags, compared by the partners list tag filter';
+COMMENT ON FUNCTION public.tag_keys(public.partner_list) IS 'Computed field of partner_list: the partner''s tags lowercased';
@@ -0,0 +1,25 @@
+-- Latest activity per partner
+-- Reminder rules are due N days after the partner's latest activity
+-- (lib/reminders.ts). Returning one row per partner keeps the reminders cron
+-- under the PostgREST row limit however many activities the partners have.
+-- Runs with the caller's permissions: RLS limits user clients to their own
+-- partners, the reminders cron uses the admin client.
+
+CREATE INDEX IF NOT EXISTS idx_partner_notes_partner_start_time
+ON public.partner_notes(partner_id, start_time DESC)
+WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.latest_partner_activities(partner_ids UUID[])
+RETURNS TABLE (
+  partner_id UUID,
+  start_time TIMESTAMPTZ
+) AS $$
+  SELECT a.partner_id, max(a.start_time)
+  FROM public.partner_notes a
+  WHERE a.partner_id = ANY(partner_ids)
+  AND a.deleted_at IS NULL
+  GROUP BY a.partner_id;
+$$ LANGUAGE sql STABLE;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.latest_partner_activities(UUID[]) IS 'Start time of the latest non-trashed activity of each of the given partners';
@@ -0,0 +1,191 @@
+-- Keep the status history of merged partners
+-- merge_partners deletes the duplicate, and its partner_status_changes rows
+-- cascade with it. The history is now saved in partner_merges and restored by
+-- undo_partner_merge, replacing the single row the status trigger records when
+-- the partner is inserted again. Merges made before this migration have no
+-- saved history and keep that row.
+
+ALTER TABLE public.partner_merges
+ADD COLUMN IF NOT EXISTS merged_status_changes JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Status history is written by triggers only (users can't write it), so the
+-- saved rows are put back by this function with the owner's permissions. Only
+-- the caller's merges that haven't been undone yet qualify, and the merged
+-- partner must have been restored already.
+CREATE OR REPLACE FUNCTION public.restore_merged_status_changes(target_merge_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  merge_record public.partner_merges;
+  restored_id UUID;
+BEGIN
+  SELECT * INTO merge_record FROM public.partner_merges
+  WHERE id = target_merge_id AND user_id = auth.uid() AND undone_at IS NULL;
+
+  IF merge_record.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF jsonb_array_length(merge_record.merged_status_changes) = 0 THEN
+    RETURN;
+  END IF;
+
+  restored_id := (merge_record.merged_partner->>'id')::UUID;
+
+  IF NOT EXISTS (SELECT 1 FROM public.partners WHERE id = restored_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Partner not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM public.partner_status_changes WHERE partner_id = restored_id;
+
+  INSERT INTO public.partner_status_changes (id, partner_id, user_id, from_status, to_status, changed_at)
+  SELECT id, restored_id, auth.uid(), from_status, to_status, changed_at
+  FROM jsonb_populate_recordset(NULL::public.partner_status_changes, merge_record.merged_status_changes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same function as migration 037, also saving the duplicate's status history
+CREATE OR REPLACE FUNCTION public.merge_partners(
+  keep_partner_id UUID,
+  merge_partner_id UUID,
+  updates JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  kept public.partners;
+  merged public.partners;
+  reconciled public.partners;
+  merge_id UUID;
+BEGIN
+  IF keep_partner_id = merge_partner_id THEN
+    RAISE EXCEPTION 'Cannot merge a partner into itself';
+  END IF;
+
+  SELECT * INTO kept FROM public.partners
+  WHERE id = keep_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  SELECT * INTO merged FROM public.partners
+  WHERE id = merge_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF kept.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Partner not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  reconciled := jsonb_populate_record(kept, COALESCE(updates, '{}'::jsonb));
+
+  UPDATE public.partners SET
+    first_name = reconciled.first_name,
+    last_name = reconciled.last_name,
+    email = reconciled.email,
+    phone_number = reconciled.phone_number,
+    description = reconciled.description,
+    description_time = reconciled.description_time,
+    facebook_profile = reconciled.facebook_profile,
+    x_profile = reconciled.x_profile,
+    linkedin_profile = reconciled.linkedin_profile,
+    instagram_profile = reconciled.instagram_profile,
+    profile_picture_storage_path = reconciled.profile_picture_storage_path,
+    black_flag = reconciled.black_flag,
+    tags = reconciled.tags,
+    custom_fields = reconciled.custom_fields,
+    updated_at = NOW()
+  WHERE id = keep_partner_id
+  RETURNING * INTO reconciled;
+
+  INSERT INTO public.partner_merges (
+    user_id, kept_partner_id, merged_partner, kept_partner_before, kept_partner_after,
+    moved_photo_ids, moved_activity_ids, merged_status_changes
+  )
+  VALUES (
+    auth.uid(),
+    keep_partner_id,
+    to_jsonb(merged),
+    to_jsonb(kept),
+    to_jsonb(reconciled),
+    ARRAY(SELECT id FROM public.partner_photos WHERE partner_id = merge_partner_id),
+    ARRAY(SELECT id FROM public.partner_notes WHERE partner_id = merge_partner_id),
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(c) ORDER BY c.changed_at), '[]'::jsonb)
+      FROM public.partner_status_changes c
+      WHERE c.partner_id = merge_partner_id
+    )
+  )
+  RETURNING id INTO merge_id;
+
+  -- Activities keep their calendar event links; only the partner changes
+  UPDATE public.partner_photos SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+  UPDATE public.partner_notes SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+
+  DELETE FROM public.partners WHERE id = merge_partner_id;
+
+  RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same function as migration 038, also restoring the saved status history
+CREATE OR REPLACE FUNCTION public.undo_partner_merge(target_merge_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  merge_record public.partner_merges;
+  restored public.partners;
+  kept_before public.partners;
+  kept_after public.partners;
+BEGIN
+  SELECT * INTO merge_record FROM public.partner_merges
+  WHERE id = target_merge_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF merge_record.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF merge_record.undone_at IS NOT NULL OR merge_record.undo_expires_at < NOW() THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'P0001';
+  END IF;
+
+  restored := jsonb_populate_record(NULL::public.partners, merge_record.merged_partner);
+  -- Merges from before migrations 037 and 038 have no tags, custom fields or status
+  restored.tags := COALESCE(restored.tags, '{}');
+  restored.custom_fields := COALESCE(restored.custom_fields, '{}');
+  restored.status := COALESCE(restored.status, 'talking');
+  restored.status_changed_at := COALESCE(restored.status_changed_at, restored.created_at, NOW());
+  INSERT INTO public.partners SELECT (restored).*;
+  PERFORM public.restore_merged_status_changes(target_merge_id);
+
+  UPDATE public.partner_photos SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_photo_ids) AND partner_id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_notes SET partner_id = restored.id
+  WHERE id = ANY(merge_record.moved_activity_ids) AND partner_id = merge_record.kept_partner_id;
+
+  kept_before := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_before);
+  kept_after := jsonb_populate_record(NULL::public.partners, merge_record.kept_partner_after);
+
+  UPDATE public.partners p SET
+    first_name = CASE WHEN p.first_name IS NOT DISTINCT FROM kept_after.first_name THEN kept_before.first_name ELSE p.first_name END,
+    last_name = CASE WHEN p.last_name IS NOT DISTINCT FROM kept_after.last_name THEN kept_before.last_name ELSE p.last_name END,
+    email = CASE WHEN p.email IS NOT DISTINCT FROM kept_after.email THEN kept_before.email ELSE p.email END,
+    phone_number = CASE WHEN p.phone_number IS NOT DISTINCT FROM kept_after.phone_number THEN kept_before.phone_number ELSE p.phone_number END,
+    description = CASE WHEN p.description IS NOT DISTINCT FROM kept_after.description THEN kept_before.description ELSE p.description END,
+    description_time = CASE WHEN p.description_time IS NOT DISTINCT FROM kept_after.description_time THEN kept_before.description_time ELSE p.description_time END,
+    facebook_profile = CASE WHEN p.facebook_profile IS NOT DISTINCT FROM kept_after.facebook_profile THEN kept_before.facebook_profile ELSE p.facebook_profile END,
+    x_profile = CASE WHEN p.x_profile IS NOT DISTINCT FROM kept_after.x_profile THEN kept_before.x_profile ELSE p.x_profile END,
+    linkedin_profile = CASE WHEN p.linkedin_profile IS NOT DISTINCT FROM kept_after.linkedin_profile THEN kept_before.linkedin_profile ELSE p.linkedin_profile END,
+    instagram_profile = CASE WHEN p.instagram_profile IS NOT DISTINCT FROM kept_after.instagram_profile THEN kept_before.instagram_profile ELSE p.instagram_profile END,
+    profile_picture_storage_path = CASE WHEN p.profile_picture_storage_path IS NOT DISTINCT FROM kept_after.profile_picture_storage_path THEN kept_before.profile_picture_storage_path ELSE p.profile_picture_storage_path END,
+    black_flag = CASE WHEN p.black_flag IS NOT DISTINCT FROM kept_after.black_flag THEN kept_before.black_flag ELSE p.black_flag END,
+    tags = CASE WHEN p.tags IS NOT DISTINCT FROM kept_after.tags THEN COALESCE(kept_before.tags, '{}') ELSE p.tags END,
+    custom_fields = CASE WHEN p.custom_fields IS NOT DISTINCT FROM kept_after.custom_fields THEN COALESCE(kept_before.custom_fields, '{}') ELSE p.custom_fields END,
+    updated_at = NOW()
+  WHERE p.id = merge_record.kept_partner_id;
+
+  UPDATE public.partner_merges SET undone_at = NOW() WHERE id = target_merge_id;
+
+  RETURN restored.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.partner_merges.merged_status_changes IS 'Status history (partner_status_changes rows) of the merged partner, restored on undo';
+COMMENT ON FUNCTION public.restore_merged_status_changes IS 'Put back the status history of a merged partner restored by undo_partner_merge';
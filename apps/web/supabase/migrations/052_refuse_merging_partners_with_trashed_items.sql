@@ -0,0 +1,111 @@
+-- Don't merge partners with items in the trash
+-- merge_partners runs with the caller's permissions, and RLS hides trashed
+-- photos and activities (migration 036): they weren't moved to the kept
+-- partner, and deleting the duplicate deleted them with it, leaving their photo
+-- files in storage. Merging a partner with items in the trash is now refused
+-- until they are restored (or purged from the trash).
+
+-- Trashed photos and activities of one of the caller's partners. Runs with the
+-- owner's permissions since RLS hides trashed rows from the caller.
+CREATE OR REPLACE FUNCTION public.count_trashed_partner_items(target_partner_id UUID)
+RETURNS INTEGER AS $$
+  SELECT (
+    (SELECT COUNT(*) FROM public.partner_photos WHERE partner_id = p.id AND deleted_at IS NOT NULL) +
+    (SELECT COUNT(*) FROM public.partner_notes WHERE partner_id = p.id AND deleted_at IS NOT NULL)
+  )::INTEGER
+  FROM public.partners p
+  WHERE p.id = target_partner_id AND p.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Same function as migration 051, refusing duplicates with items in the trash
+CREATE OR REPLACE FUNCTION public.merge_partners(
+  keep_partner_id UUID,
+  merge_partner_id UUID,
+  updates JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  kept public.partners;
+  merged public.partners;
+  reconciled public.partners;
+  merge_id UUID;
+BEGIN
+  IF keep_partner_id = merge_partner_id THEN
+    RAISE EXCEPTION 'Cannot merge a partner into itself';
+  END IF;
+
+  SELECT * INTO kept FROM public.partners
+  WHERE id = keep_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  SELECT * INTO merged FROM public.partners
+  WHERE id = merge_partner_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF kept.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Partner not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.count_trashed_partner_items(merge_partner_id) > 0 THEN
+    RAISE EXCEPTION 'Restore the photos and activities of this partner from the trash before merging it'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  reconciled := jsonb_populate_record(kept, COALESCE(updates, '{}'::jsonb));
+
+  UPDATE public.partners SET
+    first_name = reconciled.first_name,
+    last_name = reconciled.last_name,
+    email = reconciled.email,
+    phone_number = reconciled.phone_number,
+    description = reconciled.description,
+    description_time = reconciled.description_time,
+    facebook_profile = reconciled.facebook_profile,
+    x_profile = reconciled.x_profile,
+    linkedin_profile = reconciled.linkedin_profile,
+    instagram_profile = reconciled.instagram_profile,
+    profile_picture_storage_path = reconciled.profile_picture_storage_path,
+    black_flag = reconciled.black_flag,
+    tags = reconciled.tags,
+    custom_fields = reconciled.custom_fields,
+    updated_at = NOW()
+  WHERE id = keep_partner_id
+  RETURNING * INTO reconciled;
+
+  INSERT INTO public.partner_merges (
+    user_id, kept_partner_id, merged_partner, kept_partner_before, kept_partner_after,
+    moved_photo_ids, moved_activity_ids, moved_reminder_ids, merged_status_changes
+  )
+  VALUES (
+    auth.uid(),
+    keep_partner_id,
+    to_jsonb(merged),
+    to_jsonb(kept),
+    to_jsonb(reconciled),
+    ARRAY(SELECT id FROM public.partner_photos WHERE partner_id = merge_partner_id),
+    ARRAY(SELECT id FROM public.partner_notes WHERE partner_id = merge_partner_id),
+    ARRAY(SELECT id FROM public.partner_reminders WHERE partner_id = merge_partner_id),
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(c) ORDER BY c.changed_at), '[]'::jsonb)
+      FROM public.partner_status_changes c
+      WHERE c.partner_id = merge_partner_id
+    )
+  )
+  RETURNING id INTO merge_id;
+
+  -- Activities keep their calendar event links; only the partner changes
+  UPDATE public.partner_photos SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+  UPDATE public.partner_notes SET partner_id = keep_partner_id WHERE partner_id = merge_partner_id;
+  PERFORM public.move_partner_reminders(
+    ARRAY(SELECT id FROM public.partner_reminders WHERE partner_id = merge_partner_id),
+    keep_partner_id
+  );
+
+  DELETE FROM public.partners WHERE id = merge_partner_id;
+
+  RETURN merge_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add comments for documentation
+COMMENT ON FUNCTION public.count_trashed_partner_items IS 'Number of trashed photos and activities of one of the caller''s partners';
@@ -0,0 +1,18 @@
+-- Data export archives in parts
+-- Imports accept archives of up to 500 MB (lib/data-import.ts), so exports
+-- are split into parts of at most that size (lib/data-export.ts). Every part
+-- holds all tables and some of the photos, and can be imported on its own.
+-- storage_paths replaces storage_path: one path per part.
+
+ALTER TABLE public.data_exports
+ADD COLUMN IF NOT EXISTS storage_paths TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.data_exports
+SET storage_paths = ARRAY[storage_path]
+WHERE storage_path IS NOT NULL;
+
+ALTER TABLE public.data_exports DROP COLUMN IF EXISTS storage_path;
+
+-- Add comments for documentation
+COMMENT ON COLUMN public.data_exports.storage_paths IS 'Set when completed: the archive parts in data-exports (userId/exportId.zip, userId/exportId-2.zip, ...)';
+COMMENT ON COLUMN public.data_exports.file_size IS 'Size of all archive parts together, in bytes';
@@ -0,0 +1,387 @@
+/**
+ * Account Deletion Tests
+ *
+ * Runs lib/account-deletion.ts and lib/stripe-subscriptions.ts against an
+ * in-memory Supabase fake, with Stripe, analytics and calendar providers
+ * mocked (no Supabase or Stripe needed):
+ * 1. Retry delays
+ * 2. Deleting accounts once the grace period is over: calendar access, files, auth user
+ * 3. Failed deletions retried with backoff, then given up and listed
+ * 4. Immediate cancellation of subscriptions, including ones that already ended
+ */
+
+const stripeSubscriptions = { cancel: jest.fn(), update: jest.fn(), retrieve: jest.fn() };
+const track = jest.fn();
+const revokeAccess = jest.fn();
+
+jest.mock('stripe', () => ({
+  __esModule: true,
+  default: jest.fn(() => ({ subscriptions: stripeSubscriptions })),
+}));
+
+jest.mock('@/lib/analytics/server', () => ({
+  track: (...args: unknown[]) => track(...args),
+  setUserProperties: async () => {},
+}));
+
+jest.mock('@/lib/calendar/factory', () => ({
+  getCalendarProvider: () => ({ revokeAccess: (...args: unknown[]) => revokeAccess(...args) }),
+}));
+
+import {
+  getAccountDeletionRetryDelayMs,
+  listAbandonedAccountDeletions,
+  MAX_ACCOUNT_DELETION_ATTEMPTS,
+  processAccountDeletionQueue,
+} from '@/lib/account-deletion';
+import { cancelUserSubscription } from '@/lib/stripe-subscriptions';
+import { EXPORT_BUCKET } from '@/lib/data-export';
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables, with storage
+ * folders (bucket -> path -> file names) and auth user deletion
+ */
+function createFakeSupabase(tables: Tables, files: Record<string, Record<string, string[]>> = {}) {
+  const deletedUsers: string[] = [];
+  let deleteUserError: { status: number; message: string } | null = null;
+
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let action: 'select' | 'update' | 'delete' = 'select';
+    let values: Row = {};
+    let head = false;
+    let limit = Infinity;
+
+    const run = () => {
+      const rows = (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+
+      if (action === 'update') {
+        rows.forEach((row) => Object.assign(row, values));
+      } else if (action === 'delete') {
+        tables[table] = (tables[table] || []).filter((row) => !rows.includes(row));
+      }
+
+      rows.sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          if (a[column] !== b[column]) {
+            return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+          }
+        }
+        return 0;
+      });
+      return rows.slice(0, limit);
+    };
+
+    const builder: any = {
+      select: (_columns?: string, options?: { head?: boolean }) => {
+        head = !!options?.head;
+        return builder;
+      },
+      update: (update: Row) => {
+        action = 'update';
+        values = update;
+        return builder;
+      },
+      delete: () => {
+        action = 'delete';
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      lt: (column: string, value: any) => {
+        filters.push((row) => row[column] < value);
+        return builder;
+      },
+      lte: (column: string, value: any) => {
+        filters.push((row) => row[column] <= value);
+        return builder;
+      },
+      gte: (column: string, value: any) => {
+        filters.push((row) => row[column] >= value);
+        return builder;
+      },
+      // Only the shape used by the queue: status.in.(...),and(status.eq.<status>,updated_at.lt.<time>)
+      or: (expression: string) => {
+        const [, statuses, staleStatus, staleBefore] = expression.match(
+          /^status\.in\.\(([^)]*)\),and\(status\.eq\.(\w+),updated_at\.lt\.([^)]+)\)$/
+        )!;
+        filters.push(
+          (row) => statuses.split(',').includes(row.status) || (row.status === staleStatus && row.updated_at < staleBefore)
+        );
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        orders.push({ column, ascending: options.ascending });
+        return builder;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return builder;
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) => {
+        const rows = run();
+        return Promise.resolve(head ? { data: null, count: rows.length, error: null } : { data: rows, error: null }).then(
+          resolve,
+          reject
+        );
+      },
+    };
+
+    return builder;
+  };
+
+  const storage = {
+    from: (bucket: string) => ({
+      list: async (folder: string, options: { limit: number; offset: number }) => {
+        const bucketFiles = files[bucket] || {};
+        const subfolders = Object.keys(bucketFiles)
+          .filter((path) => path.startsWith(`${folder}/`))
+          .map((path) => path.slice(folder.length + 1).split('/')[0]);
+        const entries = [
+          ...Array.from(new Set(subfolders)).map((name) => ({ name, id: null })),
+          ...(bucketFiles[folder] || []).map((name) => ({ name, id: `${folder}/${name}` })),
+        ];
+        return { data: entries.slice(options.offset, options.offset + options.limit), error: null };
+      },
+      remove: async (paths: string[]) => {
+        const bucketFiles = files[bucket] || {};
+        for (const path of paths) {
+          const folder = path.slice(0, path.lastIndexOf('/'));
+          bucketFiles[folder] = (bucketFiles[folder] || []).filter((name) => `${folder}/${name}` !== path);
+          if (bucketFiles[folder].length === 0) {
+            delete bucketFiles[folder];
+          }
+        }
+        return { data: paths, error: null };
+      },
+    }),
+  };
+
+  const auth = {
+    admin: {
+      deleteUser: async (userId: string) => {
+        if (deleteUserError) {
+          return { data: null, error: deleteUserError };
+        }
+        deletedUsers.push(userId);
+        tables.users = (tables.users || []).filter((row) => row.id !== userId);
+        return { data: {}, error: null };
+      },
+    },
+  };
+
+  return {
+    client: { from, storage, auth } as any,
+    deletedUsers,
+    failDeleteUser: (error: { status: number; message: string } | null) => {
+      deleteUserError = error;
+    },
+  };
+}
+
+const deletionRow = (overrides: Row = {}): Row => ({
+  id: 'deletion-1',
+  user_id: 'user-1',
+  status: 'pending',
+  reason: null,
+  scheduled_for: new Date(Date.now() - MINUTE).toISOString(),
+  attempts: 0,
+  last_error: null,
+  next_attempt_at: new Date(Date.now() - MINUTE).toISOString(),
+  created_at: new Date(Date.now() - 15 * 24 * 60 * MINUTE).toISOString(),
+  updated_at: new Date(Date.now() - 15 * 24 * 60 * MINUTE).toISOString(),
+  ...overrides,
+});
+
+const userRow = (id = 'user-1'): Row => ({ id, account_type: 'free', created_at: '2025-01-01T00:00:00.000Z' });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  track.mockResolvedValue(undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  process.env.STRIPE_SECRET_KEY = 'sk_test_123';
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Retry delays', () => {
+  it('doubles the delay after each attempt, capped at one hour', () => {
+    expect([1, 2, 3, 4, 7, 8, 20].map((attempts) => getAccountDeletionRetryDelayMs(attempts) / MINUTE)).toEqual([
+      1, 2, 4, 8, 60, 60, 60,
+    ]);
+  });
+});
+
+describe('Deleting accounts', () => {
+  it('revokes calendar access, deletes files and the auth user once the grace period is over', async () => {
+    const tables: Tables = {
+      account_deletions: [
+        deletionRow(),
+        deletionRow({ id: 'deletion-2', user_id: 'user-2', next_attempt_at: new Date(Date.now() + MINUTE).toISOString() }),
+      ],
+      users: [userRow(), userRow('user-2')],
+      partners: [{ id: 'partner-1', user_id: 'user-1' }],
+      calendar_connections: [
+        { id: 'connection-1', user_id: 'user-1', provider: 'google' },
+        { id: 'connection-2', user_id: 'user-2', provider: 'google' },
+      ],
+    };
+    const files = {
+      'partner-photos': { 'user-1': ['a.jpg'], 'user-1/inbox': ['b.jpg'], 'user-2': ['c.jpg'] },
+      [EXPORT_BUCKET]: { 'user-1': ['export.zip'] },
+    };
+    const fake = createFakeSupabase(tables, files);
+
+    const summary = await processAccountDeletionQueue(fake.client, { limit: 10 });
+
+    expect(summary).toEqual({ processed: 1, deleted: 1, failed: 0, abandoned: 0 });
+    expect(fake.deletedUsers).toEqual(['user-1']);
+    expect(revokeAccess).toHaveBeenCalledTimes(1);
+    expect(tables.calendar_connections.map((row) => row.id)).toEqual(['connection-2']);
+    expect(files).toEqual({ 'partner-photos': { 'user-2': ['c.jpg'] }, [EXPORT_BUCKET]: {} });
+    expect(track).toHaveBeenCalledWith('[Account Deleted]', 'user-1', expect.objectContaining({ partner_count: 1, subscription_cancelled: false }));
+  });
+
+  it('deletes the profile when there is no auth user', async () => {
+    const tables: Tables = { account_deletions: [deletionRow()], users: [userRow()] };
+    const fake = createFakeSupabase(tables);
+    fake.failDeleteUser({ status: 404, message: 'User not found' });
+
+    await expect(processAccountDeletionQueue(fake.client)).resolves.toEqual({ processed: 1, deleted: 1, failed: 0, abandoned: 0 });
+    expect(tables.users).toEqual([]);
+  });
+
+  it('picks up deletions stuck in processing, but not ones still running', async () => {
+    const tables: Tables = {
+      account_deletions: [
+        deletionRow({ status: 'processing', updated_at: new Date(Date.now() - 20 * MINUTE).toISOString() }),
+        deletionRow({ id: 'deletion-2', user_id: 'user-2', status: 'processing', updated_at: new Date().toISOString() }),
+      ],
+      users: [userRow(), userRow('user-2')],
+    };
+    const fake = createFakeSupabase(tables);
+
+    await processAccountDeletionQueue(fake.client, { limit: 10 });
+
+    expect(fake.deletedUsers).toEqual(['user-1']);
+  });
+});
+
+describe('Failed deletions', () => {
+  it('retries failed deletions with backoff', async () => {
+    const tables: Tables = { account_deletions: [deletionRow({ attempts: 2, status: 'failed' })], users: [userRow()] };
+    const fake = createFakeSupabase(tables);
+    fake.failDeleteUser({ status: 500, message: 'Database error' });
+
+    const summary = await processAccountDeletionQueue(fake.client);
+
+    expect(summary).toEqual({ processed: 1, deleted: 0, failed: 1, abandoned: 0 });
+    const [deletion] = tables.account_deletions;
+    expect(deletion).toMatchObject({ status: 'failed', attempts: 3, last_error: 'Failed to delete user: Database error' });
+    expect(new Date(deletion.next_attempt_at).getTime() - Date.now()).toBeGreaterThan(3 * MINUTE);
+  });
+
+  it('gives up after the last attempt and lists the deletion until it is fixed', async () => {
+    const tables: Tables = {
+      account_deletions: [deletionRow({ attempts: MAX_ACCOUNT_DELETION_ATTEMPTS - 1, status: 'failed' })],
+      users: [userRow()],
+    };
+    const fake = createFakeSupabase(tables);
+    fake.failDeleteUser({ status: 500, message: 'Database error' });
+
+    expect(await processAccountDeletionQueue(fake.client)).toEqual({ processed: 1, deleted: 0, failed: 1, abandoned: 1 });
+    expect(tables.account_deletions[0].last_error).toBe(
+      `Failed to delete user: Database error (gave up after ${MAX_ACCOUNT_DELETION_ATTEMPTS} attempts)`
+    );
+
+    // Not retried anymore, even once due
+    tables.account_deletions[0].next_attempt_at = new Date(Date.now() - MINUTE).toISOString();
+    expect(await processAccountDeletionQueue(fake.client)).toEqual({ processed: 0, deleted: 0, failed: 0, abandoned: 0 });
+
+    expect(await listAbandonedAccountDeletions(fake.client)).toEqual([
+      expect.objectContaining({ id: 'deletion-1', user_id: 'user-1', attempts: MAX_ACCOUNT_DELETION_ATTEMPTS }),
+    ]);
+  });
+});
+
+describe('Immediate subscription cancellation', () => {
+  const subscriptionRow = (overrides: Row = {}): Row => ({
+    user_id: 'user-1',
+    stripe_subscription_id: 'sub_123',
+    status: 'active',
+    cancel_at_period_end: false,
+    current_period_end: '2026-11-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  const cancel = (tables: Tables) =>
+    cancelUserSubscription(createFakeSupabase(tables).client, 'user-1', { reason: 'Account deleted', immediately: true });
+
+  it('cancels the subscription in Stripe and records it', async () => {
+    const tables: Tables = { subscriptions: [subscriptionRow()] };
+    stripeSubscriptions.cancel.mockResolvedValue({ id: 'sub_123', status: 'canceled', items: { data: [] } });
+
+    const result = await cancel(tables);
+
+    expect(result).toMatchObject({ ok: true, subscriptionId: 'sub_123' });
+    expect(stripeSubscriptions.cancel).toHaveBeenCalledWith('sub_123', {
+      cancellation_details: { comment: 'Account deleted' },
+    });
+    expect(tables.subscriptions[0].status).toBe('canceled');
+    expect(track).toHaveBeenCalledWith('[Subscription Cancelled]', 'user-1', expect.anything());
+  });
+
+  it('treats subscriptions deleted in Stripe as cancelled', async () => {
+    const tables: Tables = { subscriptions: [subscriptionRow()] };
+    stripeSubscriptions.cancel.mockRejectedValue(Object.assign(new Error('No such subscription'), { code: 'resource_missing' }));
+
+    await expect(cancel(tables)).resolves.toMatchObject({ ok: true, alreadyEnded: true });
+    expect(tables.subscriptions[0].status).toBe('canceled');
+    expect(track).not.toHaveBeenCalled();
+  });
+
+  it('treats subscriptions already cancelled in Stripe as cancelled', async () => {
+    const tables: Tables = { subscriptions: [subscriptionRow()] };
+    stripeSubscriptions.cancel.mockRejectedValue(new Error('A canceled subscription can only update its metadata'));
+    stripeSubscriptions.retrieve.mockResolvedValue({ id: 'sub_123', status: 'canceled' });
+
+    await expect(cancel(tables)).resolves.toMatchObject({ ok: true, alreadyEnded: true });
+    expect(tables.subscriptions[0].status).toBe('canceled');
+  });
+
+  it('does not call Stripe for subscriptions recorded as ended', async () => {
+    const tables: Tables = { subscriptions: [subscriptionRow({ status: 'canceled' })] };
+
+    await expect(cancel(tables)).resolves.toEqual({
+      ok: true,
+      subscriptionId: 'sub_123',
+      cancelAt: '2026-11-01T00:00:00.000Z',
+      alreadyEnded: true,
+    });
+    expect(stripeSubscriptions.cancel).not.toHaveBeenCalled();
+  });
+
+  it('fails when Stripe cannot cancel a subscription that is still active', async () => {
+    const tables: Tables = { subscriptions: [subscriptionRow()] };
+    stripeSubscriptions.cancel.mockRejectedValue(new Error('Stripe is unavailable'));
+    stripeSubscriptions.retrieve.mockResolvedValue({ id: 'sub_123', status: 'active' });
+
+    await expect(cancel(tables)).rejects.toThrow('Stripe is unavailable');
+    expect(tables.subscriptions[0].status).toBe('active');
+  });
+
+  it('reports users without a subscription', async () => {
+    await expect(cancel({ subscriptions: [] })).resolves.toEqual({ ok: false, status: 404, error: 'No subscription found' });
+  });
+});
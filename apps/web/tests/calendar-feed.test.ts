@@ -0,0 +1,225 @@
+/**
+ * Calendar Feed Tests
+ *
+ * The private ICS subscription feed (lib/calendar/ics.ts and
+ * lib/calendar/feed.ts, no Supabase needed):
+ * 1. Escaping TEXT values and folding long content lines
+ * 2. Calendars built from activities, read back with parseIcsEvents
+ * 3. Feeds of users with more activities than a response holds
+ */
+
+import { buildActivitiesIcsCalendar, escapeIcsText, foldIcsLine, IcsActivity, parseIcsEvents } from '@/lib/calendar/ics';
+import { buildCalendarFeedForToken, hashCalendarFeedToken } from '@/lib/calendar/feed';
+
+type Row = Record<string, any>;
+
+// Rows per response, as capped by PostgREST (max-rows)
+const MAX_ROWS = 1000;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables
+ */
+function createFakeSupabase(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let range: [number, number] | null = null;
+
+    const run = () => {
+      const rows = (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+      rows.sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          if (a[column] !== b[column]) {
+            return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+          }
+        }
+        return 0;
+      });
+      return (range ? rows.slice(range[0], range[1] + 1) : rows).slice(0, MAX_ROWS);
+    };
+
+    const builder: any = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        orders.push({ column, ascending: options.ascending });
+        return builder;
+      },
+      range: (fromIndex: number, toIndex: number) => {
+        range = [fromIndex, toIndex];
+        return builder;
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  return { from } as any;
+}
+
+const activity = (overrides: Partial<IcsActivity>): IcsActivity => ({
+  id: 'activity-1',
+  partner_id: 'partner-1',
+  type: 'date',
+  start_time: '2026-03-14T19:00:00.000Z',
+  end_time: null,
+  location: null,
+  description: null,
+  created_at: '2026-03-01T10:00:00.000Z',
+  updated_at: '2026-03-02T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('Content lines', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeIcsText('a\\b; c, d\ne\r\nf\rg')).toBe('a\\\\b\\; c\\, d\\ne\\nf\\ng');
+    expect(escapeIcsText('Plain text: "quoted"')).toBe('Plain text: "quoted"');
+  });
+
+  it('leaves lines of up to 75 octets unfolded', () => {
+    const line = `SUMMARY:${'x'.repeat(67)}`;
+
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds longer lines with a leading space on continuation lines', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+
+    const folded = foldIcsLine(line).split('\r\n');
+
+    expect(folded.map((part) => part.length)).toEqual([75, 75, 64]);
+    expect(folded.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(folded.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  it('never splits multi-byte characters', () => {
+    const line = `LOCATION:${'קפה ☕ '.repeat(20)}`;
+
+    const folded = foldIcsLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.every((part) => Buffer.byteLength(part, 'utf8') <= 75)).toBe(true);
+    expect(folded.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('Calendars', () => {
+  const partners = new Map([['partner-1', { first_name: 'Dana', last_name: 'Cohen' }]]);
+
+  it('writes one event per activity with CRLF line endings', () => {
+    const ics = buildActivitiesIcsCalendar({
+      activities: [
+        activity({ location: 'Café Nimrod, Tel Aviv', description: 'Dinner;\nthen drinks' }),
+        activity({ id: 'activity-2', type: 'phone', start_time: '2026-03-15T08:00:00.000Z', end_time: '2026-03-15T09:15:00.000Z' }),
+      ],
+      partners,
+      timezone: 'Europe/Berlin',
+    });
+
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '').includes('\n')).toBe(false);
+    expect(ics).toContain('X-WR-TIMEZONE:Europe/Berlin\r\n');
+    expect(ics).toContain(
+      [
+        'BEGIN:VEVENT',
+        'UID:activity-1@dating-assistant.app',
+        'DTSTAMP:20260302T100000Z',
+        'DTSTART:20260314T190000Z',
+        'DTEND:20260314T193000Z',
+        'SUMMARY:Date with Dana Cohen',
+        'CATEGORIES:date',
+        'LOCATION:Café Nimrod\\, Tel Aviv',
+        'DESCRIPTION:Dinner\\;\\nthen drinks',
+        'LAST-MODIFIED:20260302T100000Z',
+        'END:VEVENT',
+      ].join('\r\n')
+    );
+  });
+
+  it('reads back the same events', () => {
+    const description = 'Long talk about travel plans, books and music. '.repeat(5).trim();
+    const ics = buildActivitiesIcsCalendar({
+      activities: [activity({ description, location: 'Tel Aviv; Jaffa' }), activity({ id: 'activity-2', partner_id: 'gone' })],
+      partners,
+    });
+
+    expect(parseIcsEvents(ics)).toEqual([
+      {
+        uid: 'activity-1@dating-assistant.app',
+        summary: 'Date with Dana Cohen',
+        description,
+        location: 'Tel Aviv; Jaffa',
+        start_time: '2026-03-14T19:00:00.000Z',
+        end_time: '2026-03-14T19:30:00.000Z',
+        all_day: false,
+      },
+      {
+        uid: 'activity-2@dating-assistant.app',
+        summary: 'Date',
+        description: null,
+        location: null,
+        start_time: '2026-03-14T19:00:00.000Z',
+        end_time: '2026-03-14T19:30:00.000Z',
+        all_day: false,
+      },
+    ]);
+  });
+
+  it('writes an empty calendar in the default timezone', () => {
+    const ics = buildActivitiesIcsCalendar({ activities: [], partners: new Map() });
+
+    expect(ics).toContain('X-WR-TIMEZONE:Asia/Jerusalem\r\n');
+    expect(ics).not.toContain('BEGIN:VEVENT');
+  });
+});
+
+describe('Feeds', () => {
+  const TOKEN = 'feed-token';
+
+  const makeTables = (activities: Row[], accountType = 'pro') => ({
+    users: [
+      {
+        id: 'user-1',
+        account_type: accountType,
+        timezone: 'UTC',
+        calendar_feed_exclude_black_flagged: false,
+        calendar_feed_token_hash: hashCalendarFeedToken(TOKEN),
+      },
+    ],
+    partners: [{ id: 'partner-1', user_id: 'user-1', first_name: 'Dana', last_name: null, black_flag: false, deleted_at: null }],
+    partner_notes: activities,
+  });
+
+  it('includes every activity of users with more activities than a response holds', async () => {
+    const activities = Array.from({ length: MAX_ROWS * 2 + 50 }, (_, index) => ({
+      ...activity({ id: `activity-${String(index).padStart(4, '0')}` }),
+      start_time: new Date(Date.UTC(2024, 0, 1) + index * 60 * 60 * 1000).toISOString(),
+      deleted_at: null,
+    }));
+
+    const ics = await buildCalendarFeedForToken(createFakeSupabase(makeTables(activities)), TOKEN);
+
+    expect(ics!.match(/BEGIN:VEVENT/g)).toHaveLength(activities.length);
+    // The newest activity comes last
+    expect(ics).toContain(`UID:activity-${activities.length - 1}@dating-assistant.app`);
+  });
+
+  it('returns no feed for unknown tokens or users who are no longer Pro', async () => {
+    await expect(buildCalendarFeedForToken(createFakeSupabase(makeTables([])), 'other-token')).resolves.toBeNull();
+    await expect(buildCalendarFeedForToken(createFakeSupabase(makeTables([], 'free')), TOKEN)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Calendar Import Tests
+ *
+ * Builds activity import proposals from parsed calendar events
+ * (lib/calendar/import.ts, no Supabase needed):
+ * 1. Matching events to partners by name (full name, first name, ambiguous)
+ * 2. Duplicates at the same start time to the minute, or with a known UID
+ */
+
+import { buildImportProposals, matchPartnerByName } from '@/lib/calendar/import';
+import type { ParsedIcsEvent } from '@/lib/calendar/ics';
+
+const partners = [
+  { id: 'dana-cohen', first_name: 'Dana', last_name: 'Cohen' },
+  { id: 'dana-levi', first_name: 'Dana', last_name: 'Levi' },
+  { id: 'alex', first_name: 'Alex', last_name: null },
+  { id: 'no-name', first_name: '', last_name: 'Smith' },
+];
+
+const event = (overrides: Partial<ParsedIcsEvent>): ParsedIcsEvent => ({
+  uid: null,
+  summary: 'Dinner with Alex',
+  description: null,
+  location: null,
+  start_time: '2026-03-14T19:00:00.000Z',
+  end_time: null,
+  all_day: false,
+  ...overrides,
+});
+
+describe('Matching partners by name', () => {
+  it('matches a first name as a whole word, ignoring case', () => {
+    expect(matchPartnerByName('dinner with ALEX', partners)).toEqual({ partner_id: 'alex', candidates: [] });
+    expect(matchPartnerByName('Dinner with Alexandra', partners)).toEqual({ partner_id: null, candidates: [] });
+  });
+
+  it('prefers a full name over a first name', () => {
+    expect(matchPartnerByName('Coffee with Dana Levi', partners)).toEqual({ partner_id: 'dana-levi', candidates: [] });
+  });
+
+  it('leaves events matching several partners equally well unassigned', () => {
+    expect(matchPartnerByName('Drinks with Dana', partners)).toEqual({
+      partner_id: null,
+      candidates: ['dana-cohen', 'dana-levi'],
+    });
+  });
+
+  it('skips partners without a first name', () => {
+    expect(matchPartnerByName('Call Smith', partners)).toEqual({ partner_id: null, candidates: [] });
+  });
+});
+
+describe('Import proposals', () => {
+  it('flags events starting in the same minute as an existing activity', () => {
+    const proposals = buildImportProposals(
+      [
+        event({ start_time: '2026-03-14T19:00:42.000Z' }),
+        event({ start_time: '2026-03-14T19:01:00.000Z', summary: 'Call Alex' }),
+      ],
+      partners,
+      [{ start_time: '2026-03-14T19:00:00.000Z' }]
+    );
+
+    expect(proposals.map(({ start_time, type, duplicate }) => ({ start_time, type, duplicate }))).toEqual([
+      { start_time: '2026-03-14T19:00:42.000Z', type: 'date', duplicate: true },
+      { start_time: '2026-03-14T19:01:00.000Z', type: 'phone', duplicate: false },
+    ]);
+  });
+
+  it('compares start times in UTC whatever their offset', () => {
+    const [proposal] = buildImportProposals(
+      [event({ start_time: '2026-03-14T21:00:30+02:00' })],
+      partners,
+      [{ start_time: '2026-03-14T19:00:00.000Z' }]
+    );
+
+    expect(proposal.duplicate).toBe(true);
+  });
+
+  it('flags events appearing twice in the file, and events imported before', () => {
+    const proposals = buildImportProposals(
+      [
+        event({ uid: 'b', start_time: '2026-03-15T19:00:10.000Z' }),
+        event({ uid: 'a', start_time: '2026-03-15T19:00:00.000Z' }),
+        event({ uid: 'imported', start_time: '2026-03-16T19:00:00.000Z' }),
+      ],
+      partners,
+      [{ start_time: '2026-01-01T10:00:00.000Z', import_uid: 'imported' }]
+    );
+
+    // Sorted by start time; the later event in the same minute is the duplicate
+    expect(proposals.map(({ import_uid, duplicate }) => ({ import_uid, duplicate }))).toEqual([
+      { import_uid: 'a', duplicate: false },
+      { import_uid: 'b', duplicate: true },
+      { import_uid: 'imported', duplicate: true },
+    ]);
+    expect(proposals[0].partner_id).toBe('alex');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Calendar Reconcile Tests
+ *
+ * Decides how to reconcile synced activities with their calendar events
+ * (decideReconcileAction in lib/calendar/reconcile.ts, no Supabase needed):
+ * 1. No change, and trivial differences (line endings, whitespace)
+ * 2. Changes on one side only (pull / push)
+ * 3. Conflicts with each strategy (latest_wins, remote_wins, local_wins)
+ * 4. Events deleted in the calendar
+ */
+
+import {
+  computeActivitySyncHash,
+  computeRemoteEventSyncHash,
+  decideReconcileAction,
+} from '@/lib/calendar/reconcile';
+import type { RemoteCalendarEvent } from '@/lib/calendar/types';
+
+const activity = {
+  id: 'activity-1',
+  partner_id: 'partner-1',
+  type: 'date' as const,
+  start_time: '2026-03-14T19:00:00.000Z',
+  end_time: '2026-03-14T21:00:00.000Z',
+  location: 'Cafe Luna',
+  description: 'Dinner',
+  updated_at: '2026-03-10T12:00:00.000Z',
+  google_calendar_event_id: 'event-1',
+  calendar_provider: 'google' as const,
+};
+
+const remote: RemoteCalendarEvent = {
+  id: 'event-1',
+  title: 'Date with Alex',
+  start_time: activity.start_time,
+  end_time: activity.end_time,
+  location: activity.location,
+  description: activity.description,
+  updated_at: '2026-03-10T12:00:00.000Z',
+};
+
+// Synced at the state above
+const synced = { ...activity, calendar_sync_hash: computeActivitySyncHash(activity) };
+
+describe('No change', () => {
+  it('does nothing when both sides match', () => {
+    expect(decideReconcileAction(synced, remote)).toEqual({ action: 'none', conflict: false });
+  });
+
+  it('ignores line endings and surrounding whitespace', () => {
+    const event = { ...remote, description: ' Dinner\r\n', location: 'Cafe Luna ' };
+
+    expect(computeRemoteEventSyncHash(event)).toBe(synced.calendar_sync_hash);
+    expect(decideReconcileAction(synced, event)).toEqual({ action: 'none', conflict: false });
+  });
+
+  it('does nothing without a baseline when both sides match', () => {
+    expect(decideReconcileAction({ ...activity, calendar_sync_hash: null }, remote)).toEqual({
+      action: 'none',
+      conflict: false,
+    });
+  });
+});
+
+describe('One side changed', () => {
+  it('pulls events changed in the calendar', () => {
+    const event = { ...remote, location: 'Bistro Nord' };
+
+    expect(decideReconcileAction(synced, event)).toEqual({ action: 'pull', conflict: false });
+  });
+
+  it('pushes activities changed in the app', () => {
+    const changed = { ...synced, start_time: '2026-03-14T20:00:00.000Z', end_time: '2026-03-14T22:00:00.000Z' };
+
+    expect(decideReconcileAction(changed, remote)).toEqual({ action: 'push', conflict: false });
+  });
+});
+
+describe('Conflicts', () => {
+  // Location changed in the app, description in the calendar
+  const changed = { ...synced, location: 'Bistro Nord', updated_at: '2026-03-11T12:00:00.000Z' };
+  const olderEvent = { ...remote, description: 'Dinner and a movie', updated_at: '2026-03-11T08:00:00.000Z' };
+  const newerEvent = { ...olderEvent, updated_at: '2026-03-11T18:00:00.000Z' };
+
+  it('keeps the most recently modified side with latest_wins (default)', () => {
+    expect(decideReconcileAction(changed, newerEvent)).toEqual({ action: 'pull', conflict: true });
+    expect(decideReconcileAction(changed, olderEvent)).toEqual({ action: 'push', conflict: true });
+    expect(decideReconcileAction(changed, newerEvent, 'latest_wins')).toEqual({ action: 'pull', conflict: true });
+  });
+
+  it('pushes when both sides were modified at the same time', () => {
+    const sameTimeEvent = { ...olderEvent, updated_at: changed.updated_at };
+
+    expect(decideReconcileAction(changed, sameTimeEvent)).toEqual({ action: 'push', conflict: true });
+  });
+
+  it('always takes the calendar version with remote_wins', () => {
+    expect(decideReconcileAction(changed, olderEvent, 'remote_wins')).toEqual({ action: 'pull', conflict: true });
+    expect(decideReconcileAction(changed, newerEvent, 'remote_wins')).toEqual({ action: 'pull', conflict: true });
+  });
+
+  it('always pushes the app version with local_wins', () => {
+    expect(decideReconcileAction(changed, olderEvent, 'local_wins')).toEqual({ action: 'push', conflict: true });
+    expect(decideReconcileAction(changed, newerEvent, 'local_wins')).toEqual({ action: 'push', conflict: true });
+  });
+
+  it('treats both sides as changed without a baseline', () => {
+    const unsynced = { ...changed, calendar_sync_hash: null };
+
+    expect(decideReconcileAction(unsynced, newerEvent)).toEqual({ action: 'pull', conflict: true });
+    expect(decideReconcileAction(unsynced, newerEvent, 'local_wins')).toEqual({ action: 'push', conflict: true });
+  });
+});
+
+describe('Deleted remote', () => {
+  it('reports events deleted in the calendar, whatever the strategy', () => {
+    expect(decideReconcileAction(synced, null)).toEqual({ action: 'remote_deleted', conflict: false });
+    expect(decideReconcileAction(synced, null, 'local_wins')).toEqual({ action: 'remote_deleted', conflict: false });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Calendar Sync Queue Tests
+ *
+ * Runs lib/calendar/sync-queue.ts against an in-memory Supabase fake, with
+ * calendar connections and provider calls mocked (no Supabase needed):
+ * 1. Retry delays
+ * 2. Claiming jobs: concurrent runs, jobs stuck in processing, changes queued meanwhile
+ * 3. Delete jobs against upsert jobs when auto-sync is off or the calendar is disconnected
+ * 4. Failed jobs retried with backoff and recorded on the activity
+ */
+
+const getUserCalendarConnection = jest.fn();
+const pushActivityToCalendar = jest.fn();
+const deleteCalendarEvent = jest.fn();
+
+jest.mock('@/lib/calendar/connections', () => ({
+  ...jest.requireActual('@/lib/calendar/connections'),
+  getUserCalendarConnection: (...args: unknown[]) => getUserCalendarConnection(...args),
+}));
+
+jest.mock('@/lib/calendar/sync', () => ({
+  pushActivityToCalendar: (...args: unknown[]) => pushActivityToCalendar(...args),
+  deleteCalendarEvent: (...args: unknown[]) => deleteCalendarEvent(...args),
+}));
+
+import { getRetryDelayMs, MAX_SYNC_ATTEMPTS, processCalendarSyncQueue } from '@/lib/calendar/sync-queue';
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables
+ */
+function createFakeSupabase(tables: Tables) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let action: 'select' | 'update' | 'delete' = 'select';
+    let values: Row = {};
+    let limit = Infinity;
+
+    const run = () => {
+      const rows = (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+
+      if (action === 'update') {
+        rows.forEach((row) => Object.assign(row, values));
+      } else if (action === 'delete') {
+        tables[table] = (tables[table] || []).filter((row) => !rows.includes(row));
+      }
+
+      rows.sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          if (a[column] !== b[column]) {
+            return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+          }
+        }
+        return 0;
+      });
+      // Copies, like rows read from the database
+      return rows.slice(0, limit).map((row) => ({ ...row }));
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (update: Row) => {
+        action = 'update';
+        values = update;
+        return builder;
+      },
+      delete: () => {
+        action = 'delete';
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      lt: (column: string, value: any) => {
+        filters.push((row) => row[column] < value);
+        return builder;
+      },
+      lte: (column: string, value: any) => {
+        filters.push((row) => row[column] <= value);
+        return builder;
+      },
+      // Only the shape used by the queue: status.in.(...),and(status.eq.<status>,updated_at.lt.<time>)
+      or: (expression: string) => {
+        const [, statuses, staleStatus, staleBefore] = expression.match(
+          /^status\.in\.\(([^)]*)\),and\(status\.eq\.(\w+),updated_at\.lt\.([^)]+)\)$/
+        )!;
+        filters.push(
+          (row) => statuses.split(',').includes(row.status) || (row.status === staleStatus && row.updated_at < staleBefore)
+        );
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        orders.push({ column, ascending: options.ascending });
+        return builder;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return builder;
+      },
+      single: async () => {
+        const [row] = run();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'No rows found' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  return { from } as any;
+}
+
+const jobRow = (overrides: Row = {}): Row => ({
+  id: 'job-1',
+  user_id: 'user-1',
+  activity_id: 'activity-1',
+  operation: 'upsert',
+  provider: null,
+  event_id: null,
+  status: 'pending',
+  attempts: 0,
+  last_error: null,
+  next_attempt_at: new Date(Date.now() - MINUTE).toISOString(),
+  updated_at: new Date(Date.now() - MINUTE).toISOString(),
+  ...overrides,
+});
+
+const makeTables = (options: { autoSync?: boolean; jobs?: Row[] } = {}): Tables => ({
+  users: [{ id: 'user-1', timezone: 'Europe/Berlin', account_type: 'pro', calendar_auto_sync: options.autoSync ?? true }],
+  partners: [{ id: 'partner-1', user_id: 'user-1', first_name: 'Dana', last_name: 'Cohen' }],
+  partner_notes: [
+    {
+      id: 'activity-1',
+      partner_id: 'partner-1',
+      google_calendar_event_id: null,
+      calendar_provider: null,
+      calendar_sync_status: 'pending',
+      calendar_sync_error: null,
+      deleted_at: null,
+    },
+  ],
+  calendar_sync_jobs: options.jobs || [jobRow()],
+});
+
+const googleConnection = { id: 'connection-1', user_id: 'user-1', provider: 'google' };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  getUserCalendarConnection.mockResolvedValue(googleConnection);
+  pushActivityToCalendar.mockResolvedValue(undefined);
+  deleteCalendarEvent.mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Retry delays', () => {
+  it('doubles the delay after each attempt, capped at 6 hours', () => {
+    expect([1, 2, 3, 4, 9, 10, 20].map((attempts) => getRetryDelayMs(attempts) / MINUTE)).toEqual([
+      1, 2, 4, 8, 256, 360, 360,
+    ]);
+  });
+});
+
+describe('Claiming jobs', () => {
+  it('runs each job once when several runs pick it up', async () => {
+    const tables = makeTables();
+    const supabase = createFakeSupabase(tables);
+
+    const summaries = await Promise.all([processCalendarSyncQueue(supabase), processCalendarSyncQueue(supabase)]);
+
+    expect(summaries.map((summary) => summary.processed).sort()).toEqual([0, 1]);
+    expect(pushActivityToCalendar).toHaveBeenCalledTimes(1);
+    expect(tables.calendar_sync_jobs).toEqual([]);
+  });
+
+  it('picks up jobs stuck in processing, but not ones still running or not due', async () => {
+    const tables = makeTables({
+      jobs: [
+        jobRow({ status: 'processing', updated_at: new Date(Date.now() - 20 * MINUTE).toISOString() }),
+        jobRow({ id: 'job-2', status: 'processing', updated_at: new Date().toISOString() }),
+        jobRow({ id: 'job-3', next_attempt_at: new Date(Date.now() + MINUTE).toISOString() }),
+        jobRow({ id: 'job-4', status: 'failed', attempts: MAX_SYNC_ATTEMPTS }),
+      ],
+    });
+
+    const summary = await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(summary).toEqual({ processed: 1, succeeded: 1, failed: 0, dropped: 0 });
+    expect(tables.calendar_sync_jobs.map((job) => job.id)).toEqual(['job-2', 'job-3', 'job-4']);
+  });
+
+  it('keeps jobs requeued by a newer change while they were processing', async () => {
+    const tables = makeTables();
+    pushActivityToCalendar.mockImplementation(async () => {
+      // The trigger resets the job when the activity changes again
+      Object.assign(tables.calendar_sync_jobs[0], { status: 'pending', attempts: 0 });
+    });
+
+    await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(tables.calendar_sync_jobs).toEqual([expect.objectContaining({ id: 'job-1', status: 'pending' })]);
+  });
+});
+
+describe('Delete and upsert jobs', () => {
+  it('pushes upserted activities with their partner to the calendar', async () => {
+    const tables = makeTables();
+
+    const summary = await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(summary).toEqual({ processed: 1, succeeded: 1, failed: 0, dropped: 0 });
+    expect(getUserCalendarConnection).toHaveBeenCalledWith(expect.anything(), 'user-1', null);
+    expect(pushActivityToCalendar).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ id: 'activity-1' }),
+      expect.objectContaining({ first_name: 'Dana', last_name: 'Cohen' }),
+      googleConnection,
+      'Europe/Berlin'
+    );
+  });
+
+  it('keeps synced activities on the provider that holds their event', async () => {
+    const tables = makeTables();
+    Object.assign(tables.partner_notes[0], { google_calendar_event_id: 'event-1', calendar_provider: 'outlook' });
+
+    await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(getUserCalendarConnection).toHaveBeenCalledWith(expect.anything(), 'user-1', 'outlook');
+  });
+
+  it('drops upsert jobs once auto-sync is off and clears the sync status', async () => {
+    const tables = makeTables({ autoSync: false });
+
+    const summary = await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(summary).toEqual({ processed: 1, succeeded: 0, failed: 0, dropped: 1 });
+    expect(pushActivityToCalendar).not.toHaveBeenCalled();
+    expect(tables.partner_notes[0].calendar_sync_status).toBeNull();
+  });
+
+  it('drops upsert jobs of activities in the trash', async () => {
+    const tables = makeTables();
+    tables.partner_notes[0].deleted_at = new Date().toISOString();
+
+    expect(await processCalendarSyncQueue(createFakeSupabase(tables))).toEqual({ processed: 1, succeeded: 0, failed: 0, dropped: 1 });
+    expect(pushActivityToCalendar).not.toHaveBeenCalled();
+  });
+
+  it('deletes events of deleted activities from the calendar that holds them, even with auto-sync off', async () => {
+    const tables = makeTables({
+      autoSync: false,
+      jobs: [jobRow({ operation: 'delete', provider: 'outlook', event_id: 'event-1' })],
+    });
+    const outlookConnection = { ...googleConnection, provider: 'outlook' };
+    getUserCalendarConnection.mockResolvedValue(outlookConnection);
+
+    const summary = await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(summary).toEqual({ processed: 1, succeeded: 1, failed: 0, dropped: 0 });
+    expect(getUserCalendarConnection).toHaveBeenCalledWith(expect.anything(), 'user-1', 'outlook');
+    expect(deleteCalendarEvent).toHaveBeenCalledWith(outlookConnection, 'event-1');
+    expect(tables.calendar_sync_jobs).toEqual([]);
+  });
+
+  it('drops delete jobs when the calendar is disconnected and auto-sync is off', async () => {
+    const tables = makeTables({ autoSync: false, jobs: [jobRow({ operation: 'delete', event_id: 'event-1' })] });
+    getUserCalendarConnection.mockResolvedValue(null);
+
+    expect(await processCalendarSyncQueue(createFakeSupabase(tables))).toEqual({ processed: 1, succeeded: 0, failed: 0, dropped: 1 });
+    expect(deleteCalendarEvent).not.toHaveBeenCalled();
+  });
+
+  it('retries delete jobs while auto-sync is on, without touching the activity', async () => {
+    const tables = makeTables({ jobs: [jobRow({ operation: 'delete', event_id: 'event-1' })] });
+    getUserCalendarConnection.mockResolvedValue(null);
+
+    expect(await processCalendarSyncQueue(createFakeSupabase(tables))).toEqual({ processed: 1, succeeded: 0, failed: 1, dropped: 0 });
+    expect(tables.calendar_sync_jobs[0]).toMatchObject({ status: 'failed', attempts: 1, last_error: 'Google Calendar not connected' });
+    expect(tables.partner_notes[0].calendar_sync_status).toBe('pending');
+  });
+});
+
+describe('Failed jobs', () => {
+  it('retries with backoff and records the error on the activity', async () => {
+    const tables = makeTables({ jobs: [jobRow({ status: 'failed', attempts: 2 })] });
+    pushActivityToCalendar.mockRejectedValue(new Error('Rate limit exceeded'));
+
+    const summary = await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(summary).toEqual({ processed: 1, succeeded: 0, failed: 1, dropped: 0 });
+    const [job] = tables.calendar_sync_jobs;
+    expect(job).toMatchObject({ status: 'failed', attempts: 3, last_error: 'Rate limit exceeded' });
+    expect(new Date(job.next_attempt_at).getTime() - Date.now()).toBeGreaterThan(3 * MINUTE);
+    expect(tables.partner_notes[0]).toMatchObject({ calendar_sync_status: 'failed', calendar_sync_error: 'Rate limit exceeded' });
+  });
+
+  it('tells the user when it gives up', async () => {
+    const tables = makeTables({ jobs: [jobRow({ status: 'failed', attempts: MAX_SYNC_ATTEMPTS - 1 })] });
+    getUserCalendarConnection.mockResolvedValue(null);
+
+    await processCalendarSyncQueue(createFakeSupabase(tables));
+
+    expect(tables.partner_notes[0].calendar_sync_error).toBe(
+      `Calendar not connected (gave up after ${MAX_SYNC_ATTEMPTS} attempts)`
+    );
+    expect(await processCalendarSyncQueue(createFakeSupabase(tables))).toEqual({ processed: 0, succeeded: 0, failed: 0, dropped: 0 });
+  });
+});
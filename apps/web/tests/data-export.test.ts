@@ -0,0 +1,242 @@
+/**
+ * Data Export Tests
+ *
+ * Formats used in account data export archives (no Supabase needed):
+ * 1. CSV files (toCsv in lib/data-export.ts): columns, quoting, nested values
+ * 2. Zip archives (lib/zip.ts): round trip of createZip through readZip
+ * 3. Archives split into parts (buildDataExportArchive) against an in-memory Supabase fake
+ */
+
+import { buildDataExportArchive, toCsv } from '@/lib/data-export';
+import { crc32, createZip, readZip } from '@/lib/zip';
+
+type Row = Record<string, any>;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables, with photo files to download
+ */
+function createFakeSupabase(tables: Record<string, Row[]>, files: Record<string, Buffer>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+
+    const builder: any = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      order: () => builder,
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve({ data: (tables[table] || []).filter((row) => filters.every((filter) => filter(row))), error: null }).then(
+          resolve,
+          reject
+        ),
+    };
+
+    return builder;
+  };
+
+  const storage = {
+    from: () => ({
+      download: async (path: string) =>
+        files[path]
+          ? { data: { arrayBuffer: async () => files[path] }, error: null }
+          : { data: null, error: { message: 'Object not found' } },
+    }),
+  };
+
+  return { from, storage } as any;
+}
+
+// Minimal RFC 4180 parser, to check that quoted values read back unchanged
+function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\r' && csv[i + 1] === '\n') {
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+      i++;
+    } else {
+      value += char;
+    }
+  }
+
+  return rows;
+}
+
+describe('CSV', () => {
+  it('writes a header with the columns of all rows, in order of appearance', () => {
+    const csv = toCsv([
+      { id: 1, name: 'Dana' },
+      { id: 2, email: 'noa@example.com' },
+    ]);
+
+    expect(csv).toBe('id,name,email\r\n1,Dana,\r\n2,,noa@example.com\r\n');
+  });
+
+  it('leaves plain values unquoted and writes null and undefined as empty', () => {
+    expect(toCsv([{ a: 'plain text', b: 0, c: false, d: null, e: undefined }])).toBe('a,b,c,d,e\r\nplain text,0,false,,\r\n');
+  });
+
+  it('quotes values with commas, quotes and line breaks', () => {
+    const csv = toCsv([{ note: 'Dinner, then drinks', quote: 'She said "hi"', lines: 'first\nsecond', crlf: 'a\r\nb' }]);
+
+    expect(csv).toBe('note,quote,lines,crlf\r\n"Dinner, then drinks","She said ""hi""","first\nsecond","a\r\nb"\r\n');
+    expect(parseCsv(csv)).toEqual([
+      ['note', 'quote', 'lines', 'crlf'],
+      ['Dinner, then drinks', 'She said "hi"', 'first\nsecond', 'a\r\nb'],
+    ]);
+  });
+
+  it('writes nested values as quoted JSON', () => {
+    const row = { tags: ['Jazz', 'Tel Aviv'], custom_fields: { field_1: 'blue, "light"', field_2: 3 } };
+
+    const [, values] = parseCsv(toCsv([row]));
+
+    expect(toCsv([row]).split('\r\n')[1]).toBe('"[""Jazz"",""Tel Aviv""]","{""field_1"":""blue, \\""light\\"""",""field_2"":3}"');
+    expect(values.map((value) => JSON.parse(value))).toEqual([row.tags, row.custom_fields]);
+  });
+
+  it('writes an empty header for no rows', () => {
+    expect(toCsv([])).toBe('\r\n');
+  });
+});
+
+describe('Zip round trip', () => {
+  it('reads back what was written', () => {
+    const photo = Buffer.from(Array.from({ length: 4096 }, (_, index) => (index * 7919) % 256));
+    const json = JSON.stringify({ partners: Array.from({ length: 50 }, (_, index) => ({ id: index, name: 'Dana' })) });
+
+    const archive = createZip([
+      { name: 'partners.json', data: json },
+      { name: 'photos/dana/1.jpg', data: photo, compress: false },
+      { name: 'notes/café ☕.txt', data: 'Unicode names' },
+      { name: 'empty.csv', data: '' },
+    ]);
+    const files = readZip(archive);
+
+    expect(Array.from(files.keys())).toEqual(['partners.json', 'photos/dana/1.jpg', 'notes/café ☕.txt', 'empty.csv']);
+    expect(files.get('partners.json')!.toString('utf8')).toBe(json);
+    expect(files.get('photos/dana/1.jpg')).toEqual(photo);
+    expect(files.get('notes/café ☕.txt')!.toString('utf8')).toBe('Unicode names');
+    expect(files.get('empty.csv')).toEqual(Buffer.alloc(0));
+  });
+
+  it('deflates compressible files and stores the rest', () => {
+    const text = 'Dana,Cohen\r\n'.repeat(1000);
+
+    const archive = createZip([{ name: 'partners.csv', data: text }]);
+
+    expect(archive.length).toBeLessThan(text.length / 10);
+    expect(readZip(archive).get('partners.csv')!.toString('utf8')).toBe(text);
+  });
+
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('rejects data that is not a zip archive', () => {
+    expect(() => readZip(Buffer.from('not a zip archive'))).toThrow();
+  });
+});
+
+describe('Archive parts', () => {
+  const PHOTO_BYTES = 20 * 1024;
+
+  const makeExport = (photoCount: number) => {
+    const photos = Array.from({ length: photoCount }, (_, index) => ({
+      id: `photo-${index}`,
+      partner_id: 'partner-1',
+      storage_path: `user-1/partner-1/${index}.jpg`,
+      deleted_at: null,
+    }));
+    const files = Object.fromEntries(
+      photos.map((photo, index) => [photo.storage_path, Buffer.alloc(PHOTO_BYTES, index)])
+    );
+    const tables = {
+      users: [{ id: 'user-1', email: 'user@example.com' }],
+      partners: [{ id: 'partner-1', user_id: 'user-1', first_name: 'Dana', deleted_at: null }],
+      partner_photos: photos,
+    };
+    return { tables, files };
+  };
+
+  const build = async (supabase: unknown, maxPartBytes?: number) => {
+    const parts: Buffer[] = [];
+    const count = await buildDataExportArchive(
+      supabase as any,
+      { user_id: 'user-1', include_face_descriptors: false },
+      async (archive, part) => {
+        expect(part).toBe(parts.length + 1);
+        parts.push(archive);
+      },
+      maxPartBytes
+    );
+    expect(count).toBe(parts.length);
+    return parts.map((archive) => ({ archive, files: readZip(archive) }));
+  };
+
+  it('writes one archive when everything fits', async () => {
+    const { tables, files } = makeExport(3);
+
+    const parts = await build(createFakeSupabase(tables, files));
+
+    expect(parts).toHaveLength(1);
+    expect(JSON.parse(parts[0].files.get('photos.json')!.toString('utf8'))).toHaveLength(3);
+  });
+
+  it('splits archives into parts no larger than the limit, each with all tables and its own photos', async () => {
+    const { tables, files } = makeExport(10);
+    delete files['user-1/partner-1/4.jpg'];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const maxPartBytes = 64 * 1024;
+
+    const parts = await build(createFakeSupabase(tables, files), maxPartBytes);
+
+    expect(parts.length).toBeGreaterThan(3);
+    const exported: string[] = [];
+    for (const part of parts) {
+      expect(part.archive.length).toBeLessThanOrEqual(maxPartBytes);
+      expect(part.files.has('partners.json')).toBe(true);
+      expect(part.files.has('activities.csv')).toBe(true);
+
+      const photoRows = JSON.parse(part.files.get('photos.json')!.toString('utf8'));
+      const photoFiles = Array.from(part.files.keys()).filter((name) => name.startsWith('photos/'));
+      expect(photoRows.map((row: Row) => row.file).filter(Boolean)).toEqual(photoFiles);
+      exported.push(...photoRows.map((row: Row) => row.id));
+    }
+
+    expect(exported).toEqual(tables.partner_photos.map((photo) => photo.id));
+    expect(parts[0].files.get('README.txt')!.toString('utf8')).toContain('Part: 1');
+    jest.restoreAllMocks();
+  });
+});
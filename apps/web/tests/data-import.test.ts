@@ -0,0 +1,322 @@
+/**
+ * Data Import Tests
+ *
+ * Reads and plans imports of export archives built in memory with lib/zip.ts
+ * (no Supabase needed):
+ * 1. Size limits on uploaded archives (declared sizes, zip bombs)
+ * 2. Import plans (planDataImport): new IDs, partners matched by email, phone
+ *    or full name, duplicate activities and photos, free-tier limits
+ */
+
+jest.mock('@/lib/face-detection/server', () => ({ detectFacesInImage: jest.fn() }));
+
+// uuid is published as ES modules only; v5 is a SHA-1 of the namespace and name (RFC 4122)
+jest.mock('uuid', () => {
+  const { createHash } = jest.requireActual('crypto');
+  return {
+    v5: (name: string, namespace: string) => {
+      const hash: Buffer = createHash('sha1').update(Buffer.from(namespace.replace(/-/g, ''), 'hex')).update(name).digest();
+      hash[6] = (hash[6] & 0x0f) | 0x50;
+      hash[8] = (hash[8] & 0x3f) | 0x80;
+      const hex = hash.subarray(0, 16).toString('hex');
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    },
+  };
+});
+
+import { createZip, readZip } from '@/lib/zip';
+import { parseDataExportArchive, planDataImport, ParsedArchive } from '@/lib/data-import';
+import { FREE_TIER_PARTNER_LIMIT } from '@/lib/pricing';
+import { FREE_TIER_ACTIVITY_LIMIT } from '@/shared';
+
+// Offset of the first central directory header in a one-entry archive
+function findCentralDirectory(archive: Buffer): number {
+  return archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+}
+
+describe('Archive size limits', () => {
+  const zeros = Buffer.alloc(1024 * 1024);
+
+  it('reads entries within the limits', () => {
+    const archive = createZip([{ name: 'zeros.bin', data: zeros }]);
+
+    expect(readZip(archive, { maxEntryBytes: zeros.length, maxTotalBytes: zeros.length }).get('zeros.bin')).toEqual(zeros);
+  });
+
+  it('rejects entries and archives declared larger than the limits', () => {
+    const archive = createZip([
+      { name: 'a.bin', data: zeros },
+      { name: 'b.bin', data: zeros },
+    ]);
+
+    expect(() => readZip(archive, { maxEntryBytes: zeros.length - 1 })).toThrow('Zip entry is too large: a.bin');
+    expect(() => readZip(archive, { maxTotalBytes: zeros.length * 2 - 1 })).toThrow('Zip archive is too large when extracted');
+  });
+
+  it('stops inflating at the declared size', () => {
+    const archive = createZip([{ name: 'bomb.bin', data: zeros }]);
+    // Declare 1 KB for an entry that inflates to 1 MB
+    archive.writeUInt32LE(1024, findCentralDirectory(archive) + 24);
+
+    expect(() => readZip(archive)).toThrow('Corrupted zip entry: bomb.bin');
+  });
+
+  it('reports oversized archives as import errors', () => {
+    const archive = createZip([{ name: 'partners.json', data: ' '.repeat(101 * 1024 * 1024) }]);
+
+    expect(parseDataExportArchive(archive)).toEqual({ ok: false, error: 'Zip entry is too large: partners.json' });
+  });
+});
+
+const IMPORT_ID = '0b7e6d4c-3f1a-4e2b-9c8d-5a6f7e8d9c0b';
+
+type ImportTarget = Parameters<typeof planDataImport>[2];
+
+function buildArchive(contents: { partners: object[]; activities?: object[]; photos?: object[]; files?: Record<string, string> }): ParsedArchive {
+  const parsed = parseDataExportArchive(
+    createZip([
+      { name: 'partners.json', data: JSON.stringify(contents.partners) },
+      { name: 'activities.json', data: JSON.stringify(contents.activities || []) },
+      { name: 'photos.json', data: JSON.stringify(contents.photos || []) },
+      ...Object.entries(contents.files || {}).map(([name, data]) => ({ name, data })),
+    ])
+  );
+  if (!parsed.ok) {
+    throw new Error(parsed.error);
+  }
+  return parsed.archive;
+}
+
+const target = (overrides: Partial<ImportTarget> = {}): ImportTarget => ({
+  userId: 'user-1',
+  accountType: 'pro',
+  partners: [],
+  activities: [],
+  photos: [],
+  ...overrides,
+});
+
+const existingPartner = (id: string, fields: Partial<ImportTarget['partners'][number]> = {}) => ({
+  id,
+  first_name: null,
+  last_name: null,
+  email: null,
+  phone_number: null,
+  profile_picture_storage_path: null,
+  ...fields,
+});
+
+const activity = (id: string, partnerId: string, startTime: string) => ({
+  id,
+  partner_id: partnerId,
+  start_time: startTime,
+  type: 'date',
+});
+
+describe('Import plan', () => {
+  const archive = buildArchive({
+    partners: [{ id: 'old-dana', first_name: 'Dana', last_name: 'Cohen' }],
+    activities: [activity('old-activity', 'old-dana', '2026-03-14T19:00:00.000Z')],
+    photos: [{ id: 'old-photo', partner_id: 'old-dana', storage_path: 'old-user/old-dana/1.PNG', file: 'photos/1.PNG', file_name: '1.PNG', file_size: 5 }],
+    files: { 'photos/1.PNG': 'image' },
+  });
+
+  it('gives imported partners and photos new IDs and links them to the new partner', () => {
+    const plan = planDataImport(IMPORT_ID, archive, target());
+    const [partner] = plan.partners;
+    const [photo] = plan.photos;
+
+    expect(partner.action).toBe('create');
+    expect(partner.partnerId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(partner.partnerId).not.toBe('old-dana');
+    expect(plan.activities[0]).toMatchObject({ partnerId: partner.partnerId, action: 'create' });
+    expect(photo).toMatchObject({ partnerId: partner.partnerId, action: 'create' });
+    expect(photo.storagePath).toBe(`user-1/${partner.partnerId}/${photo.photoId}.png`);
+    expect(plan.report.photos.descriptors_regenerated).toBe(1);
+  });
+
+  it('gives the same IDs on every run of an import, and only on that import', () => {
+    const plan = planDataImport(IMPORT_ID, archive, target());
+    const otherImport = planDataImport('1c8f7e5d-4a2b-4f3c-8d9e-6b7a8f9e0d1c', archive, target());
+
+    expect(planDataImport(IMPORT_ID, archive, target())).toEqual(plan);
+    expect(otherImport.partners[0].partnerId).not.toBe(plan.partners[0].partnerId);
+  });
+
+  it('counts partners and photos created by an earlier run as created', () => {
+    const first = planDataImport(IMPORT_ID, archive, target());
+    const partnerId = first.partners[0].partnerId!;
+
+    const second = planDataImport(
+      IMPORT_ID,
+      archive,
+      target({
+        partners: [existingPartner(partnerId, { first_name: 'Dana', last_name: 'Cohen' })],
+        photos: [{ id: first.photos[0].photoId, partner_id: partnerId, storage_path: first.photos[0].storagePath!, file_name: '1.PNG', file_size: 5 }],
+      })
+    );
+
+    expect(second.partners[0]).toMatchObject({ partnerId, action: 'created' });
+    expect(second.photos[0].action).toBe('created');
+    expect(second.report.partners).toEqual({ total: 1, created: 1, matched: 0, skipped: 0 });
+  });
+});
+
+describe('Matching existing partners', () => {
+  const archive = buildArchive({
+    partners: [
+      { id: 'by-email', first_name: 'Noa', email: ' NOA@example.com' },
+      { id: 'by-phone', first_name: 'Maya', phone_number: '+972 50-123-4567' },
+      { id: 'by-name', first_name: 'dana', last_name: 'COHEN' },
+      { id: 'first-name-only', first_name: 'Alex' },
+    ],
+  });
+  const existing = [
+    existingPartner('noa', { email: 'noa@example.com' }),
+    existingPartner('maya', { phone_number: '050 123 4567' }),
+    existingPartner('dana', { first_name: 'Dana', last_name: 'Cohen' }),
+    existingPartner('alex', { first_name: 'Alex' }),
+  ];
+
+  it('matches by email, phone number or full name', () => {
+    const plan = planDataImport(IMPORT_ID, archive, target({ partners: existing }));
+
+    expect(plan.partners.map(({ partnerId, action }) => ({ partnerId, action }))).toEqual([
+      { partnerId: 'noa', action: 'match' },
+      { partnerId: 'maya', action: 'match' },
+      { partnerId: 'dana', action: 'match' },
+      { partnerId: expect.any(String), action: 'create' },
+    ]);
+    expect(plan.partners[3].partnerId).not.toBe('alex');
+    expect(plan.report.matched_partners).toEqual([
+      { name: 'Noa', partner_id: 'noa', reason: 'email' },
+      { name: 'Maya', partner_id: 'maya', reason: 'phone' },
+      { name: 'dana COHEN', partner_id: 'dana', reason: 'name' },
+    ]);
+  });
+});
+
+describe('Duplicates', () => {
+  it('skips activities at the same start minute of the same partner, or imported before', () => {
+    const archive = buildArchive({
+      partners: [{ id: 'old-dana', email: 'dana@example.com' }],
+      activities: [
+        activity('same-minute', 'old-dana', '2026-03-14T19:00:30.000Z'),
+        activity('imported-before', 'old-dana', '2026-04-01T19:00:00.000Z'),
+        activity('new', 'old-dana', '2026-03-14T19:01:00.000Z'),
+        activity('same-minute-in-archive', 'old-dana', '2026-03-14T19:01:20.000Z'),
+      ],
+    });
+
+    const plan = planDataImport(
+      IMPORT_ID,
+      archive,
+      target({
+        partners: [existingPartner('dana', { email: 'dana@example.com' })],
+        activities: [
+          { partner_id: 'dana', start_time: '2026-03-14T19:00:00.000Z', import_uid: null },
+          { partner_id: 'dana', start_time: '2025-01-01T10:00:00.000Z', import_uid: 'imported-before' },
+          { partner_id: 'someone-else', start_time: '2026-03-14T19:01:00.000Z', import_uid: null },
+        ],
+      })
+    );
+
+    expect(plan.activities.map(({ source, action }) => [source.id, action])).toEqual([
+      ['same-minute', 'duplicate'],
+      ['imported-before', 'duplicate'],
+      ['new', 'create'],
+      ['same-minute-in-archive', 'duplicate'],
+    ]);
+    expect(plan.report.activities).toEqual({ total: 4, created: 1, duplicates: 3, skipped: 0 });
+  });
+
+  it('skips photos with the same file name and size, and reports missing files', () => {
+    const archive = buildArchive({
+      partners: [{ id: 'old-dana', email: 'dana@example.com' }],
+      photos: [
+        { id: 'same-file', partner_id: 'old-dana', storage_path: 'a/b/1.jpg', file: 'photos/1.jpg', file_name: 'beach.jpg', file_size: 5 },
+        { id: 'other-size', partner_id: 'old-dana', storage_path: 'a/b/2.jpg', file: 'photos/2.jpg', file_name: 'beach.jpg', file_size: 6 },
+        { id: 'no-file', partner_id: 'old-dana', storage_path: 'a/b/3.jpg', file: 'photos/3.jpg', file_name: 'park.jpg', file_size: 5 },
+      ],
+      files: { 'photos/1.jpg': 'image', 'photos/2.jpg': 'image!' },
+    });
+
+    const plan = planDataImport(
+      IMPORT_ID,
+      archive,
+      target({
+        partners: [existingPartner('dana', { email: 'dana@example.com' })],
+        photos: [{ id: 'photo-1', partner_id: 'dana', storage_path: 'user-1/dana/photo-1.jpg', file_name: 'beach.jpg', file_size: 5 }],
+      })
+    );
+
+    expect(plan.photos.map(({ source, action }) => [source.id, action])).toEqual([
+      ['same-file', 'duplicate'],
+      ['other-size', 'create'],
+      ['no-file', 'missing'],
+    ]);
+    expect(plan.report.warnings).toEqual(['1 photos are listed in photos.json but their files are not in the archive.']);
+  });
+});
+
+describe('Free-tier limits', () => {
+  it('skips new partners over the limit with their activities and photos', () => {
+    const archive = buildArchive({
+      partners: [
+        { id: 'new-1', first_name: 'Noa' },
+        { id: 'matched', email: 'dana@example.com' },
+        { id: 'new-2', first_name: 'Maya' },
+      ],
+      activities: [activity('activity-1', 'new-2', '2026-03-14T19:00:00.000Z'), activity('activity-2', 'matched', '2026-03-14T19:00:00.000Z')],
+      photos: [{ id: 'photo-1', partner_id: 'new-2', storage_path: 'a/b/1.jpg', file: 'photos/1.jpg' }],
+      files: { 'photos/1.jpg': 'image' },
+    });
+    const existing = [
+      existingPartner('dana', { email: 'dana@example.com' }),
+      ...Array.from({ length: FREE_TIER_PARTNER_LIMIT - 2 }, (_, index) => existingPartner(`partner-${index}`)),
+    ];
+
+    const plan = planDataImport(IMPORT_ID, archive, target({ accountType: 'free', partners: existing }));
+
+    expect(plan.partners.map(({ source, action }) => [source.id, action])).toEqual([
+      ['new-1', 'create'],
+      ['matched', 'match'],
+      ['new-2', 'skip'],
+    ]);
+    expect(plan.activities.map(({ action }) => action)).toEqual(['skip', 'create']);
+    expect(plan.photos[0]).toMatchObject({ partnerId: null, action: 'skip' });
+    expect(plan.report.warnings).toEqual([
+      `Free accounts are limited to ${FREE_TIER_PARTNER_LIMIT} partners: 1 partners and their activities and photos are not imported. Upgrade to Pro to import everything.`,
+    ]);
+  });
+
+  it('skips activities over the limit', () => {
+    const archive = buildArchive({
+      partners: [{ id: 'old-dana', email: 'dana@example.com' }],
+      activities: [
+        activity('activity-1', 'old-dana', '2026-03-14T19:00:00.000Z'),
+        activity('activity-2', 'old-dana', '2026-03-15T19:00:00.000Z'),
+        activity('activity-3', 'old-dana', '2026-03-16T19:00:00.000Z'),
+      ],
+    });
+    const existing = {
+      partners: [existingPartner('dana', { email: 'dana@example.com' })],
+      activities: Array.from({ length: FREE_TIER_ACTIVITY_LIMIT - 1 }, (_, index) => ({
+        partner_id: 'dana',
+        start_time: new Date(Date.UTC(2025, 0, index + 1)).toISOString(),
+        import_uid: null,
+      })),
+    };
+
+    const free = planDataImport(IMPORT_ID, archive, target({ accountType: 'free', ...existing }));
+    const pro = planDataImport(IMPORT_ID, archive, target(existing));
+
+    expect(free.activities.map(({ action }) => action)).toEqual(['create', 'skip', 'skip']);
+    expect(free.report.activities).toEqual({ total: 3, created: 1, duplicates: 0, skipped: 2 });
+    expect(free.report.warnings).toEqual([
+      `Free accounts are limited to ${FREE_TIER_ACTIVITY_LIMIT} activities: 2 activities are not imported. Upgrade to Pro to import everything.`,
+    ]);
+    expect(pro.report.activities.created).toBe(3);
+    expect(pro.report.warnings).toEqual([]);
+  });
+});
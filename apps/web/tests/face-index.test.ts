@@ -0,0 +1,78 @@
+/**
+ * Face Index Tests
+ *
+ * Compares the face index providers (lib/face-index) on synthetic descriptors
+ * (no Supabase needed):
+ * 1. The pgvector index, against a stubbed match_partner_photo_faces RPC that
+ *    filters on single precision distances like pgvector (migration 047),
+ *    matches the same faces as the in-memory index at the 0.4 threshold
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { MemoryFaceIndex } from '@/lib/face-index/providers/memory-index';
+import { PgvectorFaceIndex } from '@/lib/face-index/providers/pgvector-index';
+import { calculateFaceDistance, FACE_DESCRIPTOR_LENGTH } from '@/lib/face-matching';
+
+const THRESHOLD = 0.4; // Matches within a distance of 0.6
+
+// Descriptor at the given distance from the origin along the first axis
+const faceAt = (distance: number): number[] =>
+  Array.from({ length: FACE_DESCRIPTOR_LENGTH }, (_, index) => (index === 0 ? distance : 0));
+
+// Euclidean distance of float4 vectors, accumulated in float4 as pgvector's <-> does
+function singlePrecisionDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = Math.fround(Math.fround(a[i]) - Math.fround(b[i]));
+    sum = Math.fround(sum + Math.fround(diff * diff));
+  }
+  return Math.sqrt(sum);
+}
+
+const photos = [
+  { id: 'inside', partner_id: 'alex', face_descriptor: faceAt(0.6 - 1e-9) },
+  // Exactly at the threshold: 0.6 rounds up to 0.6000000238 in single precision
+  { id: 'boundary', partner_id: 'alex', face_descriptor: faceAt(0.6) },
+  { id: 'outside', partner_id: 'alex', face_descriptor: faceAt(0.6 + 1e-9) },
+  { id: 'far', partner_id: 'alex', face_descriptor: faceAt(0.7) },
+];
+
+function pgvectorStub(): SupabaseClient {
+  return {
+    rpc: async (
+      _name: string,
+      params: { query_descriptor: number[]; partner_ids: string[]; max_distance: number | null }
+    ) => ({
+      data: photos
+        .filter((photo) => params.partner_ids.includes(photo.partner_id))
+        .filter(
+          (photo) =>
+            params.max_distance === null ||
+            singlePrecisionDistance(photo.face_descriptor, params.query_descriptor) <= params.max_distance
+        )
+        .map((photo) => ({
+          photo_id: photo.id,
+          partner_id: photo.partner_id,
+          distance: calculateFaceDistance(photo.face_descriptor, params.query_descriptor),
+        }))
+        .sort((a, b) => a.distance - b.distance),
+      error: null,
+    }),
+  } as unknown as SupabaseClient;
+}
+
+describe('Providers at the threshold', () => {
+  it('rounds the boundary face past the threshold in single precision', () => {
+    expect(singlePrecisionDistance(faceAt(0.6), faceAt(0))).toBeGreaterThan(1 - THRESHOLD);
+  });
+
+  it('matches the same faces in the pgvector and in-memory indexes', async () => {
+    const query = { partnerIds: ['alex'], threshold: THRESHOLD };
+
+    const memoryMatches = await new MemoryFaceIndex(null, photos).findMatches(faceAt(0), query);
+    const pgvectorMatches = await new PgvectorFaceIndex(pgvectorStub()).findMatches(faceAt(0), query);
+
+    expect(memoryMatches.map((match) => match.photo_id)).toEqual(['inside', 'boundary']);
+    expect(pgvectorMatches).toEqual(memoryMatches);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Insights Tests
+ *
+ * Runs the dashboard insights computation of lib/insights.ts on in-memory
+ * partners and activities (no Supabase needed):
+ * 1. Dates per month in the user's timezone
+ * 2. Activity types, time to a first date and top locations
+ * 3. Currently active partners
+ */
+
+import { computePartnerInsights, InsightsActivity, InsightsPartner } from '@/lib/insights';
+import { formatInsightsMonth, INSIGHTS_MONTHS } from '@/shared';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+const partner = (id: string, overrides: Partial<InsightsPartner> = {}): InsightsPartner => ({
+  id,
+  first_name: id,
+  last_name: null,
+  status: 'talking',
+  ...overrides,
+});
+
+const activity = (
+  partnerId: string,
+  type: InsightsActivity['type'],
+  startTime: string,
+  location: string | null = null
+): InsightsActivity => ({ partner_id: partnerId, type, start_time: startTime, location });
+
+describe('Dates per month', () => {
+  it('counts dates in calendar months of the user timezone', () => {
+    const insights = computePartnerInsights(
+      [partner('alex')],
+      [
+        // 23:30 UTC on Sep 30 is already October in Jerusalem (UTC+3)
+        activity('alex', 'date', '2026-09-30T23:30:00Z'),
+        activity('alex', 'date', '2026-10-05T18:00:00Z'),
+        activity('alex', 'chat', '2026-10-06T18:00:00Z'),
+        activity('alex', 'date', '2026-08-01T18:00:00Z'),
+      ],
+      'Asia/Jerusalem',
+      NOW
+    );
+
+    expect(insights.dates_per_month).toHaveLength(INSIGHTS_MONTHS);
+    expect(insights.dates_per_month[0].month).toBe('2025-11');
+    expect(insights.dates_per_month.slice(-3)).toEqual([
+      { month: '2026-08', count: 1 },
+      { month: '2026-09', count: 0 },
+      { month: '2026-10', count: 2 },
+    ]);
+
+    const inNewYork = computePartnerInsights(
+      [partner('alex')],
+      [activity('alex', 'date', '2026-09-30T23:30:00Z')],
+      'America/New_York',
+      NOW
+    );
+    expect(inNewYork.timezone).toBe('America/New_York');
+    expect(inNewYork.dates_per_month.slice(-2)).toEqual([
+      { month: '2026-09', count: 1 },
+      { month: '2026-10', count: 0 },
+    ]);
+  });
+
+  it('falls back to the default timezone and leaves out scheduled dates', () => {
+    const insights = computePartnerInsights(
+      [partner('alex')],
+      [activity('alex', 'date', '2026-10-25T18:00:00Z')],
+      'Not/AZone',
+      NOW
+    );
+
+    expect(insights.timezone).toBe('Asia/Jerusalem');
+    expect(insights.dates_per_month.every(({ count }) => count === 0)).toBe(true);
+  });
+
+  it('labels months', () => {
+    expect(formatInsightsMonth('2026-10')).toMatch(/Oct/);
+    expect(formatInsightsMonth('2026-10', { year: false })).not.toMatch(/2026/);
+  });
+});
+
+describe('Breakdowns', () => {
+  const partners = [partner('alex'), partner('sam'), partner('kim')];
+  const activities = [
+    activity('alex', 'chat', '2026-09-01T10:00:00Z', 'Cafe Noir'),
+    activity('alex', 'date', '2026-09-05T10:00:00Z', ' cafe noir '),
+    activity('alex', 'date', '2026-09-12T10:00:00Z', 'Park'),
+    activity('sam', 'date', '2026-09-20T10:00:00Z', 'Cafe Noir'),
+    activity('kim', 'phone', '2026-10-01T10:00:00Z'),
+    activity('gone', 'date', '2026-10-01T10:00:00Z', 'Trashed partner place'),
+  ];
+
+  it('counts activity types in the usual order', () => {
+    const insights = computePartnerInsights(partners, activities, 'UTC', NOW);
+
+    expect(insights.activity_types).toEqual([
+      { type: 'date', count: 3 },
+      { type: 'chat', count: 1 },
+      { type: 'phone', count: 1 },
+      { type: 'other', count: 0 },
+    ]);
+  });
+
+  it('averages the days from first contact to first date', () => {
+    const insights = computePartnerInsights(partners, activities, 'UTC', NOW);
+
+    // Alex: 4 days from the first chat; Sam: first contact was the date
+    expect(insights.average_days_to_first_date).toBe(2);
+    expect(insights.first_date_partner_count).toBe(2);
+    expect(computePartnerInsights(partners, [], 'UTC', NOW).average_days_to_first_date).toBeNull();
+  });
+
+  it('ranks locations ignoring case and spaces', () => {
+    const insights = computePartnerInsights(partners, activities, 'UTC', NOW);
+
+    expect(insights.top_locations).toEqual([
+      { location: 'Cafe Noir', count: 3 },
+      { location: 'Park', count: 1 },
+    ]);
+  });
+});
+
+describe('Active partners', () => {
+  it('lists partners in an active stage with a recent activity, most recent first', () => {
+    const insights = computePartnerInsights(
+      [partner('alex'), partner('sam', { status: 'seeing' }), partner('kim', { status: 'ended' }), partner('lee')],
+      [
+        activity('alex', 'chat', '2026-10-01T10:00:00Z'),
+        activity('sam', 'date', '2026-10-15T10:00:00Z'),
+        activity('kim', 'date', '2026-10-18T10:00:00Z'), // Ended
+        activity('lee', 'date', '2026-08-01T10:00:00Z'), // Too long ago
+      ],
+      'UTC',
+      NOW
+    );
+
+    expect(insights.active_partner_count).toBe(2);
+    expect(insights.active_partners).toEqual([
+      { partner: { id: 'sam', first_name: 'sam', last_name: null, status: 'seeing' }, last_activity_at: '2026-10-15T10:00:00Z' },
+      { partner: { id: 'alex', first_name: 'alex', last_name: null, status: 'talking' }, last_activity_at: '2026-10-01T10:00:00Z' },
+    ]);
+  });
+});
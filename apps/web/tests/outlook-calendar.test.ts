@@ -0,0 +1,274 @@
+/**
+ * Outlook Calendar Provider Tests
+ *
+ * Runs the provider against a local stub of the Microsoft identity platform
+ * and Microsoft Graph:
+ * 1. Authorization URL generation
+ * 2. Code exchange, token refresh and saving rotated tokens
+ * 3. Create / read / update / delete events
+ * 4. Error propagation from Graph
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OutlookCalendarProvider, toGraphDateTime } from '@/lib/calendar/providers/outlook';
+import type { CalendarConnection, CalendarEvent } from '@/lib/calendar/types';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+// Stub Graph server state
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+const events = new Map<string, any>();
+let nextEventId = 1;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function handleRequest(req: IncomingMessage, body: string, res: ServerResponse) {
+  const url = req.url || '';
+
+  // Token endpoint
+  if (url === '/common/oauth2/v2.0/token' && req.method === 'POST') {
+    const params = new URLSearchParams(body);
+    if (params.get('grant_type') === 'authorization_code' && params.get('code') === 'good-code') {
+      return sendJson(res, 200, { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 });
+    }
+    if (params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === 'refresh-1') {
+      return sendJson(res, 200, { access_token: 'access-2', refresh_token: 'refresh-2', expires_in: 3600 });
+    }
+    return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Bad grant' });
+  }
+
+  // Graph endpoints require a bearer token
+  if (!req.headers.authorization?.startsWith('Bearer access-')) {
+    return sendJson(res, 401, { error: { code: 'InvalidAuthenticationToken', message: 'Access token is empty.' } });
+  }
+
+  if (url === '/v1.0/me/events' && req.method === 'POST') {
+    const id = `evt-${nextEventId++}`;
+    events.set(id, JSON.parse(body));
+    return sendJson(res, 201, { id, ...JSON.parse(body) });
+  }
+
+  const match = url.match(/^\/v1\.0\/me\/events\/([^/]+)$/);
+  if (match) {
+    const id = decodeURIComponent(match[1]);
+    if (!events.has(id)) {
+      return sendJson(res, 404, { error: { code: 'ErrorItemNotFound', message: 'The specified object was not found in the store.' } });
+    }
+    if (req.method === 'GET') {
+      // Mimic Prefer: outlook.timezone="UTC" (UTC wall-clock time, no offset)
+      const stored = events.get(id);
+      return sendJson(res, 200, {
+        id,
+        subject: stored.subject,
+        body: { contentType: 'text', content: stored.body?.content || '' },
+        start: { dateTime: '2024-06-01T17:00:00.0000000', timeZone: 'UTC' },
+        end: { dateTime: '2024-06-01T18:00:00.0000000', timeZone: 'UTC' },
+        location: stored.location || { displayName: '' },
+        lastModifiedDateTime: '2024-06-02T08:00:00Z',
+        isCancelled: false,
+      });
+    }
+    if (req.method === 'PATCH') {
+      events.set(id, { ...events.get(id), ...JSON.parse(body) });
+      return sendJson(res, 200, { id, ...events.get(id) });
+    }
+    if (req.method === 'DELETE') {
+      events.delete(id);
+      res.writeHead(204);
+      return res.end();
+    }
+  }
+
+  sendJson(res, 404, { error: { code: 'NotFound', message: `No stub for ${req.method} ${url}` } });
+}
+
+function makeConnection(overrides: Partial<CalendarConnection> = {}): CalendarConnection {
+  return {
+    id: 'conn-1',
+    user_id: 'user-1',
+    provider: 'outlook',
+    access_token: 'access-1',
+    refresh_token: 'refresh-1',
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    calendar_id: 'primary',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+const sampleEvent: CalendarEvent = {
+  title: 'Date with Dana',
+  description: 'Dinner',
+  start_time: '2024-06-01T17:00:00.000Z',
+  end_time: '2024-06-01T17:30:00.000Z',
+  location: 'Tel Aviv',
+  timezone: 'Asia/Jerusalem',
+};
+
+describe('OutlookCalendarProvider', () => {
+  const saveTokens = jest.fn(async (_connection: CalendarConnection) => {});
+  const provider = new OutlookCalendarProvider(saveTokens);
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method || '', url: req.url || '', headers: req.headers, body });
+        handleRequest(req, body, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    process.env.MICROSOFT_AUTH_BASE_URL = baseUrl;
+    process.env.MICROSOFT_GRAPH_BASE_URL = `${baseUrl}/v1.0`;
+    process.env.MICROSOFT_TENANT_ID = 'common';
+    process.env.MICROSOFT_CLIENT_ID = 'client-id';
+    process.env.MICROSOFT_CLIENT_SECRET = 'client-secret';
+    process.env.OUTLOOK_CALENDAR_REDIRECT_URI = 'http://localhost:3000/api/calendar/outlook/callback';
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    saveTokens.mockClear();
+  });
+
+  test('builds an authorization URL with offline access and state', () => {
+    const url = new URL(provider.getAuthorizationUrl('user-1'));
+
+    expect(url.origin).toBe(baseUrl);
+    expect(url.pathname).toBe('/common/oauth2/v2.0/authorize');
+    expect(url.searchParams.get('client_id')).toBe('client-id');
+    expect(url.searchParams.get('state')).toBe('user-1');
+    expect(url.searchParams.get('scope')).toContain('offline_access');
+    expect(url.searchParams.get('scope')).toContain('Calendars.ReadWrite');
+  });
+
+  test('exchanges an authorization code for tokens', async () => {
+    const tokens = await provider.exchangeCodeForTokens('good-code');
+
+    expect(tokens.access_token).toBe('access-1');
+    expect(tokens.refresh_token).toBe('refresh-1');
+    expect(tokens.calendar_id).toBe('primary');
+    expect(tokens.expires_at).not.toBeNull();
+  });
+
+  test('rejects a bad authorization code', async () => {
+    await expect(provider.exchangeCodeForTokens('bad-code')).rejects.toThrow('Bad grant');
+  });
+
+  test('creates, updates and deletes an event', async () => {
+    const connection = makeConnection();
+
+    const result = await provider.createEvent(connection, sampleEvent);
+    expect(result.provider).toBe('outlook');
+    expect(events.has(result.event_id)).toBe(true);
+
+    const created = events.get(result.event_id);
+    expect(created.subject).toBe('Date with Dana');
+    expect(created.location).toEqual({ displayName: 'Tel Aviv' });
+    // 17:00 UTC is 20:00 in Jerusalem (summer time)
+    expect(created.start).toEqual({ dateTime: '2024-06-01T20:00:00', timeZone: 'Asia/Jerusalem' });
+
+    await provider.updateEvent(connection, result.event_id, { ...sampleEvent, title: 'Date with Dana R.' });
+    expect(events.get(result.event_id).subject).toBe('Date with Dana R.');
+
+    await provider.deleteEvent(connection, result.event_id);
+    expect(events.has(result.event_id)).toBe(false);
+  });
+
+  test('reads an event back in UTC and returns null once deleted', async () => {
+    const connection = makeConnection();
+    const { event_id } = await provider.createEvent(connection, sampleEvent);
+
+    const remote = await provider.getEvent(connection, event_id);
+    expect(remote).toEqual({
+      id: event_id,
+      title: 'Date with Dana',
+      description: 'Dinner',
+      start_time: '2024-06-01T17:00:00.000Z',
+      end_time: '2024-06-01T18:00:00.000Z',
+      location: 'Tel Aviv',
+      updated_at: '2024-06-02T08:00:00.000Z',
+    });
+    expect(requests[requests.length - 1].headers.prefer).toContain('outlook.timezone="UTC"');
+
+    await provider.deleteEvent(connection, event_id);
+    await expect(provider.getEvent(connection, event_id)).resolves.toBeNull();
+  });
+
+  test('refreshes an expired token before calling Graph', async () => {
+    const connection = makeConnection({
+      access_token: 'stale',
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    await provider.createEvent(connection, sampleEvent);
+
+    expect(requests[0].url).toBe('/common/oauth2/v2.0/token');
+    expect(requests[1].headers.authorization).toBe('Bearer access-2');
+    expect(saveTokens).toHaveBeenCalledTimes(1);
+    expect(saveTokens.mock.calls[0][0]).toMatchObject({
+      id: 'conn-1',
+      user_id: 'user-1',
+      access_token: 'access-2',
+      refresh_token: 'refresh-2',
+    });
+    expect(Date.parse(saveTokens.mock.calls[0][0].expires_at!)).toBeGreaterThan(Date.now());
+  });
+
+  test('only saves tokens when they were refreshed', async () => {
+    await provider.createEvent(makeConnection(), sampleEvent);
+
+    expect(saveTokens).not.toHaveBeenCalled();
+  });
+
+  test('continues with the refreshed token when saving it fails', async () => {
+    saveTokens.mockRejectedValueOnce(new Error('Database unavailable'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const connection = makeConnection({ expires_at: new Date(Date.now() - 1000).toISOString() });
+
+    await expect(provider.createEvent(connection, sampleEvent)).resolves.toMatchObject({ provider: 'outlook' });
+
+    expect(requests[1].headers.authorization).toBe('Bearer access-2');
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  test('rotates tokens using the refresh token', async () => {
+    const refreshed = await provider.refreshToken(makeConnection());
+
+    expect(refreshed.access_token).toBe('access-2');
+    expect(refreshed.refresh_token).toBe('refresh-2');
+  });
+
+  test('surfaces Graph error messages', async () => {
+    await expect(
+      provider.deleteEvent(makeConnection(), 'missing-event')
+    ).rejects.toThrow('The specified object was not found in the store.');
+  });
+});
+
+describe('toGraphDateTime', () => {
+  test('converts UTC instants to wall-clock time in the target timezone', () => {
+    expect(toGraphDateTime('2024-01-15T12:00:00.000Z', 'America/New_York')).toBe('2024-01-15T07:00:00');
+    expect(toGraphDateTime('2024-01-15T23:30:00.000Z', 'Asia/Tokyo')).toBe('2024-01-16T08:30:00');
+  });
+});
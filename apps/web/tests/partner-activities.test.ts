@@ -0,0 +1,216 @@
+/**
+ * Partner Activities Tests
+ *
+ * The free-tier activity limit (lib/partner-activities.ts) and how
+ * POST /api/partners/[partnerId]/activities reports it, against an in-memory
+ * Supabase fake with authentication mocked (no Supabase needed):
+ * 1. Counting activities across the user's partners, without the trash
+ * 2. Limit messages and database limit errors
+ * 3. ACTIVITY_LIMIT_REACHED responses, from the count and from the database
+ */
+
+const authenticateRequest = jest.fn();
+
+jest.mock('@/lib/auth/server', () => ({
+  authenticateRequest: (...args: unknown[]) => authenticateRequest(...args),
+  authErrorResponse: jest.fn(),
+}));
+
+jest.mock('@/lib/analytics/server', () => ({ track: async () => {} }));
+
+import { NextRequest } from 'next/server';
+import { countUserActivities, getActivityLimitMessage, isActivityLimitError } from '@/lib/partner-activities';
+import { POST } from '@/app/api/partners/[partnerId]/activities/route';
+import { FREE_TIER_ACTIVITY_LIMIT } from '@/shared';
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const PARTNER_ID = '22222222-2222-4222-8222-222222222222';
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables; inserts into
+ * partner_notes fail with insertError when it is set (the database limit)
+ */
+function createFakeSupabase(tables: Tables, options: { insertError?: { message: string } } = {}) {
+  const queries: string[] = [];
+
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let action: 'select' | 'insert' | 'update' = 'select';
+    let values: Row = {};
+    let head = false;
+
+    const run = (): { data: any; count?: number; error: { message: string } | null } => {
+      queries.push(`${action} ${table}`);
+
+      if (action === 'insert') {
+        if (options.insertError) {
+          return { data: null, error: options.insertError };
+        }
+        const row = { id: `${table}-${(tables[table] || []).length + 1}`, deleted_at: null, ...values };
+        tables[table] = [...(tables[table] || []), row];
+        return { data: [{ ...row }], error: null };
+      }
+
+      const rows = (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+      if (action === 'update') {
+        rows.forEach((row) => Object.assign(row, values));
+      }
+      return head ? { data: null, count: rows.length, error: null } : { data: rows.map((row) => ({ ...row })), error: null };
+    };
+
+    const builder: any = {
+      select: (_columns?: string, selectOptions?: { head?: boolean }) => {
+        head = !!selectOptions?.head;
+        return builder;
+      },
+      insert: (row: Row) => {
+        action = 'insert';
+        values = row;
+        return builder;
+      },
+      update: (update: Row) => {
+        action = 'update';
+        values = update;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      single: async () => {
+        const { data, error } = run();
+        return error ? { data: null, error } : { data: data[0] || null, error: data[0] ? null : { message: 'No rows found' } };
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] || null, error };
+      },
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  return { client: { from } as any, queries };
+}
+
+const activities = (partnerId: string, count: number, deletedAt: string | null = null): Row[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `${partnerId}-activity-${index}`,
+    partner_id: partnerId,
+    deleted_at: deletedAt,
+  }));
+
+const makeTables = (accountType: 'free' | 'pro', activityCount: number): Tables => ({
+  users: [{ id: USER_ID, account_type: accountType }],
+  partners: [{ id: PARTNER_ID, user_id: USER_ID, deleted_at: null }],
+  partner_notes: activities(PARTNER_ID, activityCount),
+});
+
+describe('Counting activities', () => {
+  it('counts activities across the user\'s partners, without the trash', async () => {
+    const tables: Tables = {
+      partners: [
+        { id: 'partner-1', user_id: 'user-1', deleted_at: null },
+        { id: 'partner-2', user_id: 'user-1', deleted_at: null },
+        { id: 'partner-3', user_id: 'user-1', deleted_at: '2026-10-01T00:00:00.000Z' },
+        { id: 'partner-4', user_id: 'user-2', deleted_at: null },
+      ],
+      partner_notes: [
+        ...activities('partner-1', 3),
+        ...activities('partner-2', 2),
+        ...activities('partner-2', 4, '2026-10-01T00:00:00.000Z'),
+        ...activities('partner-3', 5),
+        ...activities('partner-4', 6),
+      ],
+    };
+
+    await expect(countUserActivities(createFakeSupabase(tables).client, 'user-1')).resolves.toBe(5);
+  });
+
+  it('returns 0 for users without partners without counting activities', async () => {
+    const { client, queries } = createFakeSupabase({ partners: [], partner_notes: activities('partner-1', 3) });
+
+    await expect(countUserActivities(client, 'user-1')).resolves.toBe(0);
+    expect(queries).toEqual(['select partners']);
+  });
+});
+
+describe('Limit messages and errors', () => {
+  it('explains the limit to users at the limit and to users above it', () => {
+    expect(getActivityLimitMessage(FREE_TIER_ACTIVITY_LIMIT)).toBe(
+      `Free accounts are limited to ${FREE_TIER_ACTIVITY_LIMIT} total activities. Please upgrade to Pro for unlimited activities.`
+    );
+    expect(getActivityLimitMessage(FREE_TIER_ACTIVITY_LIMIT + 5)).toBe(
+      `With a free account you can't add activities if you already have more than ${FREE_TIER_ACTIVITY_LIMIT} activities. Please upgrade to Pro and try again.`
+    );
+  });
+
+  it('recognizes inserts rejected by the database limit', () => {
+    expect(isActivityLimitError({ message: 'ACTIVITY_LIMIT_REACHED' })).toBe(true);
+    expect(isActivityLimitError({ message: 'duplicate key value violates unique constraint' })).toBe(false);
+    expect(isActivityLimitError({})).toBe(false);
+    expect(isActivityLimitError(null)).toBe(false);
+  });
+});
+
+describe('Creating activities', () => {
+  const createActivity = (supabase: unknown) => {
+    authenticateRequest.mockResolvedValue({ ok: true, auth: { supabase, user: { id: USER_ID } } });
+    const request = new NextRequest(`http://localhost/api/partners/${PARTNER_ID}/activities`, {
+      method: 'POST',
+      body: JSON.stringify({ start_time: '2026-10-19T19:00:00.000Z', type: 'date', location: '  ' }),
+    });
+    return POST(request, { params: { partnerId: PARTNER_ID } });
+  };
+
+  it('refuses free users at the limit with ACTIVITY_LIMIT_REACHED', async () => {
+    const tables = makeTables('free', FREE_TIER_ACTIVITY_LIMIT);
+
+    const response = await createActivity(createFakeSupabase(tables).client);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: 'ACTIVITY_LIMIT_REACHED',
+      message: getActivityLimitMessage(FREE_TIER_ACTIVITY_LIMIT),
+      activityCount: FREE_TIER_ACTIVITY_LIMIT,
+    });
+    expect(tables.partner_notes).toHaveLength(FREE_TIER_ACTIVITY_LIMIT);
+  });
+
+  it('answers the same way when the database rejects the insert', async () => {
+    const tables = makeTables('free', FREE_TIER_ACTIVITY_LIMIT - 1);
+
+    const response = await createActivity(
+      createFakeSupabase(tables, { insertError: { message: 'ACTIVITY_LIMIT_REACHED' } }).client
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: 'ACTIVITY_LIMIT_REACHED',
+      message: getActivityLimitMessage(FREE_TIER_ACTIVITY_LIMIT),
+      activityCount: FREE_TIER_ACTIVITY_LIMIT,
+    });
+  });
+
+  it('creates activities for free users below the limit and for Pro users', async () => {
+    for (const tables of [makeTables('free', FREE_TIER_ACTIVITY_LIMIT - 1), makeTables('pro', FREE_TIER_ACTIVITY_LIMIT)]) {
+      const response = await createActivity(createFakeSupabase(tables).client);
+
+      expect(response.status).toBe(201);
+      expect((await response.json()).data).toMatchObject({ partner_id: PARTNER_ID, type: 'date', location: null });
+    }
+  });
+});
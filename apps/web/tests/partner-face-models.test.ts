@@ -0,0 +1,81 @@
+/**
+ * Partner Face Model Tests
+ *
+ * Scores faces against partner face models (lib/face-index/partner-models.ts)
+ * built from synthetic descriptors (no Supabase needed):
+ * 1. Matching against the centroid at the match threshold
+ * 2. Wider match distance for partners whose photos vary (spread), up to a cap
+ * 3. Photo matches and ordering
+ */
+
+import {
+  getPartnerFaceMatchThreshold,
+  MAX_FACE_MODEL_SPREAD_ALLOWANCE,
+  PartnerFaceModel,
+  scorePartnerFaceModels,
+} from '@/lib/face-index/partner-models';
+import { FACE_DESCRIPTOR_LENGTH } from '@/lib/face-matching';
+import type { FaceMatch } from '@/shared';
+
+const THRESHOLD = 0.4; // Matches within a distance of 0.6
+
+// Descriptor at the given distance from the origin along the first axis
+const faceAt = (distance: number): number[] =>
+  Array.from({ length: FACE_DESCRIPTOR_LENGTH }, (_, index) => (index === 0 ? distance : 0));
+
+const model = (partnerId: string, spread: number, photoCount = 3): PartnerFaceModel => ({
+  partner_id: partnerId,
+  centroid: faceAt(0),
+  spread,
+  photo_count: photoCount,
+});
+
+const photoMatch = (partnerId: string): FaceMatch => ({
+  photo_id: `${partnerId}-photo`,
+  partner_id: partnerId,
+  partner_name: null,
+  partner_profile_picture: null,
+  similarity: 0.7,
+  confidence: 70,
+});
+
+describe('Matching the centroid', () => {
+  it('matches a tight model within the threshold only', () => {
+    expect(scorePartnerFaceModels(faceAt(0.55), [model('alex', 0)], [], THRESHOLD)).toHaveLength(1);
+    expect(scorePartnerFaceModels(faceAt(0.65), [model('alex', 0)], [], THRESHOLD)).toHaveLength(0);
+  });
+});
+
+describe('Spread', () => {
+  it('widens the match distance of partners whose photos vary', () => {
+    const face = faceAt(0.65);
+
+    const scores = scorePartnerFaceModels(face, [model('tight', 0.05), model('varied', 0.2)], [], THRESHOLD);
+
+    expect(scores.map((score) => score.partner_id)).toEqual(['varied']);
+    expect(scores[0].spread).toBe(0.2);
+    expect(scores[0].similarity).toBeCloseTo(0.35);
+  });
+
+  it('caps how far the spread widens the match distance', () => {
+    expect(getPartnerFaceMatchThreshold({ spread: 0 }, THRESHOLD)).toBe(THRESHOLD);
+    expect(getPartnerFaceMatchThreshold({ spread: 0.1 }, THRESHOLD)).toBeCloseTo(0.35);
+    expect(getPartnerFaceMatchThreshold({ spread: 5 }, THRESHOLD)).toBeCloseTo(THRESHOLD - MAX_FACE_MODEL_SPREAD_ALLOWANCE);
+
+    // Even a very scattered model doesn't match a face far from its centroid
+    expect(scorePartnerFaceModels(faceAt(0.75), [model('scattered', 5)], [], THRESHOLD)).toHaveLength(0);
+  });
+});
+
+describe('Scores', () => {
+  it('counts photo matches and sorts by similarity', () => {
+    const models = [model('far', 0.2), { ...model('near', 0), centroid: faceAt(0.5) }];
+
+    const scores = scorePartnerFaceModels(faceAt(0.6), models, [photoMatch('near'), photoMatch('near')], THRESHOLD);
+
+    expect(scores.map(({ partner_id, matchCount, photoCount }) => ({ partner_id, matchCount, photoCount }))).toEqual([
+      { partner_id: 'near', matchCount: 2, photoCount: 3 },
+      { partner_id: 'far', matchCount: 0, photoCount: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Partner Fields Tests
+ *
+ * Tags and custom field values of partners (packages/shared/partner-fields.ts,
+ * no Supabase needed):
+ * 1. Tag normalization (whitespace, case-insensitive duplicates, limits)
+ * 2. Custom field values checked against field definitions, per type
+ */
+
+import {
+  CustomFieldDefinition,
+  MAX_PARTNER_TAG_LENGTH,
+  MAX_PARTNER_TAGS,
+  mergeCustomFieldValues,
+  normalizePartnerTags,
+  PartnerTagsSchema,
+  validateCustomFieldValues,
+} from '@/shared';
+
+const CITY = '0f3c2b1a-6d5e-4f7a-8b9c-1d2e3f4a5b6c';
+const AGE = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+const MET_ON = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const APP = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+
+const definitions: Pick<CustomFieldDefinition, 'id' | 'name' | 'type' | 'options'>[] = [
+  { id: CITY, name: 'City', type: 'text', options: [] },
+  { id: AGE, name: 'Age', type: 'number', options: [] },
+  { id: MET_ON, name: 'Met on', type: 'date', options: [] },
+  { id: APP, name: 'App', type: 'select', options: ['Hinge', 'Bumble'] },
+];
+
+describe('Tags', () => {
+  it('trims tags, collapses inner whitespace and drops empty tags', () => {
+    expect(normalizePartnerTags(['  gym ', 'Tel \t Aviv', '', '   '])).toEqual(['gym', 'Tel Aviv']);
+  });
+
+  it('drops duplicates ignoring case, keeping the first spelling', () => {
+    expect(normalizePartnerTags(['Tel Aviv', 'gym', 'tel  aviv', 'GYM'])).toEqual(['Tel Aviv', 'gym']);
+  });
+
+  it('limits the number and length of tags', () => {
+    expect(PartnerTagsSchema.parse([' Gym', 'gym', 'Work'])).toEqual(['Gym', 'Work']);
+    expect(PartnerTagsSchema.safeParse(Array.from({ length: MAX_PARTNER_TAGS + 1 }, (_, index) => `tag ${index}`)).success).toBe(false);
+    expect(PartnerTagsSchema.safeParse(['x'.repeat(MAX_PARTNER_TAG_LENGTH + 1)]).success).toBe(false);
+  });
+});
+
+describe('Custom field values', () => {
+  it('accepts values matching each field type', () => {
+    const values = { [CITY]: ' Berlin ', [AGE]: '31', [MET_ON]: '2026-02-28', [APP]: 'Hinge' };
+
+    expect(validateCustomFieldValues(values, definitions)).toEqual({
+      ok: true,
+      values: { [CITY]: 'Berlin', [AGE]: 31, [MET_ON]: '2026-02-28', [APP]: 'Hinge' },
+    });
+  });
+
+  it('clears fields set to null or an empty string', () => {
+    expect(validateCustomFieldValues({ [CITY]: '  ', [AGE]: null }, definitions)).toEqual({
+      ok: true,
+      values: { [CITY]: null, [AGE]: null },
+    });
+  });
+
+  it('reports an error per invalid field', () => {
+    const result = validateCustomFieldValues(
+      {
+        [AGE]: 'thirty',
+        [MET_ON]: '2026-02-30',
+        [APP]: 'hinge',
+        '4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f7a': 'x',
+      },
+      definitions
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      errors: {
+        [AGE]: 'Age must be a number',
+        [MET_ON]: 'Met on must be a date (YYYY-MM-DD)',
+        [APP]: 'App must be one of: Hinge, Bumble',
+        '4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f7a': 'Unknown custom field',
+      },
+    });
+  });
+
+  it('rejects dates in other formats and numbers for date fields', () => {
+    expect(validateCustomFieldValues({ [MET_ON]: '28/02/2026' }, definitions).ok).toBe(false);
+    expect(validateCustomFieldValues({ [MET_ON]: 20260228 }, definitions).ok).toBe(false);
+  });
+
+  it('stores numbers given to text fields as text', () => {
+    expect(validateCustomFieldValues({ [CITY]: 10115 }, definitions)).toEqual({ ok: true, values: { [CITY]: '10115' } });
+  });
+
+  it('applies validated values to the stored fields', () => {
+    expect(mergeCustomFieldValues({ [CITY]: 'Berlin', [AGE]: 30 }, { [AGE]: 31, [CITY]: null, [APP]: 'Bumble' })).toEqual({
+      [AGE]: 31,
+      [APP]: 'Bumble',
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Partner List Tests
+ *
+ * Runs the shared partner list query parameters and lib/partner-list.ts
+ * against a recording Supabase stub (no Supabase needed):
+ * 1. Building and parsing sort and filter parameters (as saved in views)
+ * 2. Sort orders and cursors for the stats sorts
+ * 3. Filters applied to the partner_list view, including recent activity
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  decodePartnerCursor,
+  encodePartnerCursor,
+  isPartnerListAscending,
+  listPartners,
+  PartnerListQuerySchema,
+} from '@/lib/partner-list';
+import { buildPartnerListParams, parsePartnerListParams, PartnerListItem } from '@/shared';
+
+type Call = [string, ...unknown[]];
+
+/**
+ * Supabase client whose queries record their calls and resolve to the rows given per table
+ */
+function createRecordingSupabase(rows: Record<string, unknown[]>) {
+  const calls: Record<string, Call[]> = {};
+
+  const from = (table: string) => {
+    calls[table] = [];
+    const query: any = new Proxy(
+      {},
+      {
+        get(_target, method: string) {
+          if (method === 'then') {
+            return (resolve: (value: unknown) => void) => resolve({ data: rows[table] || [], error: null });
+          }
+          return (...args: unknown[]) => {
+            calls[table].push([method, ...args]);
+            return query;
+          };
+        },
+      }
+    );
+    return query;
+  };
+
+  return { supabase: { from } as unknown as SupabaseClient, calls };
+}
+
+const partner = (overrides: Partial<PartnerListItem> = {}): PartnerListItem => ({
+  id: '3f0a3b8e-4c1d-4f6a-9b2e-1d2c3b4a5f60',
+  user_id: 'user-1',
+  first_name: 'Alex',
+  last_name: null,
+  email: null,
+  phone_number: null,
+  description: null,
+  description_time: null,
+  facebook_profile: null,
+  x_profile: null,
+  linkedin_profile: null,
+  instagram_profile: null,
+  profile_picture_storage_path: null,
+  black_flag: false,
+  status: 'talking',
+  status_changed_at: '2026-01-01T00:00:00Z',
+  tags: [],
+  custom_fields: {},
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-02T00:00:00Z',
+  last_activity_at: null,
+  date_count: 0,
+  photo_count: 0,
+  ...overrides,
+});
+
+describe('List parameters', () => {
+  it('leaves out defaults and empty filters', () => {
+    expect(buildPartnerListParams({})).toEqual({});
+    expect(
+      buildPartnerListParams({
+        sort: 'updated_at',
+        order: 'desc',
+        activity_days: 90, // Without an activity type
+        tags: [],
+        fields: { 'field-1': '  ' },
+      })
+    ).toEqual({});
+  });
+
+  it('builds parameters that parse back to the same sort and filters', () => {
+    const params = buildPartnerListParams({
+      sort: 'date_count',
+      order: 'asc',
+      black_flag: false,
+      has_photos: true,
+      status: 'seeing',
+      activity_type: 'date',
+      activity_days: 90,
+      tags: ['gym', 'work'],
+      fields: { 'field-1': 'Berlin' },
+    });
+
+    expect(params).toEqual({
+      sort: 'date_count',
+      order: 'asc',
+      black_flag: 'false',
+      has_photos: 'true',
+      status: 'seeing',
+      activity_type: 'date',
+      activity_days: '90',
+      tags: 'gym,work',
+      'field.field-1': 'Berlin',
+    });
+    expect(buildPartnerListParams(parsePartnerListParams(params)!)).toEqual(params);
+  });
+
+  it('ignores unrelated parameters and rejects invalid ones', () => {
+    expect(parsePartnerListParams({ q: 'alex', cursor: 'abc', sort: 'first_name' })).toMatchObject({
+      sort: 'first_name',
+      fields: {},
+    });
+    expect(parsePartnerListParams({ sort: 'age' })).toBeNull();
+    expect(parsePartnerListParams({ activity_type: 'date', activity_days: '0' })).toBeNull();
+  });
+
+  it('keeps the natural order of each sort', () => {
+    expect(buildPartnerListParams({ sort: 'first_name', order: 'asc' })).toEqual({ sort: 'first_name' });
+    expect(buildPartnerListParams({ sort: 'first_name', order: 'desc' })).toEqual({ sort: 'first_name', order: 'desc' });
+    expect(isPartnerListAscending({ sort: 'last_activity_at' })).toBe(false);
+    expect(isPartnerListAscending({ sort: 'date_count' })).toBe(false);
+    expect(isPartnerListAscending({ sort: 'last_name' })).toBe(true);
+    expect(isPartnerListAscending({ sort: 'created_at', order: 'asc' })).toBe(true);
+  });
+});
+
+describe('Cursors', () => {
+  it('encodes counts and missing dates', () => {
+    const counted = decodePartnerCursor(encodePartnerCursor(partner({ date_count: 3 }), 'date_count'));
+    expect(counted).toEqual({ v: '3', id: partner().id });
+
+    const withoutActivity = decodePartnerCursor(encodePartnerCursor(partner(), 'last_activity_at'));
+    expect(withoutActivity).toEqual({ v: null, id: partner().id });
+  });
+});
+
+describe('Listing', () => {
+  it('sorts and filters the partner_list view', async () => {
+    const { supabase, calls } = createRecordingSupabase({ partner_list: [partner({ date_count: 2 })] });
+    const query = PartnerListQuerySchema.parse({ sort: 'date_count', has_photos: 'false', status: 'seeing' });
+
+    const { partners, nextCursor } = await listPartners(supabase, 'user-1', query, null);
+
+    expect(partners).toHaveLength(1);
+    expect(nextCursor).toBeNull();
+    expect(calls.partner_notes).toBeUndefined();
+    expect(calls.partner_list).toEqual(
+      expect.arrayContaining([
+        ['order', 'date_count', { ascending: false, nullsFirst: false }],
+        ['eq', 'photo_count', 0],
+        ['eq', 'status', 'seeing'],
+      ])
+    );
+  });
+
+  it('filters by tags ignoring case and spacing', async () => {
+    const { supabase, calls } = createRecordingSupabase({ partner_list: [] });
+    const query = PartnerListQuerySchema.parse({ tags: 'Gym, tel  AVIV,gym' });
+
+    await listPartners(supabase, 'user-1', query, null);
+
+    expect(calls.partner_list).toContainEqual(['contains', 'tag_keys', ['gym', 'tel aviv']]);
+    expect(calls.partner_list.some(([method, column]) => method === 'contains' && column === 'tags')).toBe(false);
+  });
+
+  it('keeps partners with a recent activity of the type', async () => {
+    const { supabase, calls } = createRecordingSupabase({
+      partner_notes: [{ partner_id: 'partner-1' }, { partner_id: 'partner-2' }, { partner_id: 'partner-1' }],
+      partner_list: [],
+    });
+    const query = PartnerListQuerySchema.parse({ activity_type: 'date', activity_days: '7' });
+
+    const before = Date.now();
+    await listPartners(supabase, 'user-1', query, null);
+
+    expect(calls.partner_notes).toEqual(expect.arrayContaining([['eq', 'type', 'date'], ['is', 'deleted_at', null]]));
+    const since = calls.partner_notes.find(([method]) => method === 'gte')!;
+    expect(before - Date.parse(since[2] as string)).toBeGreaterThanOrEqual(7 * 24 * 60 * 60 * 1000 - 1000);
+    expect(calls.partner_list).toContainEqual(['in', 'id', ['partner-1', 'partner-2']]);
+  });
+
+  it('returns no partners without querying the list when none had such an activity', async () => {
+    const { supabase, calls } = createRecordingSupabase({ partner_notes: [] });
+    const query = PartnerListQuerySchema.parse({ activity_type: 'phone' });
+
+    await expect(listPartners(supabase, 'user-1', query, null)).resolves.toEqual({ partners: [], nextCursor: null });
+    expect(calls.partner_list).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Partner Merge Tests
+ *
+ * Finding and merging duplicate partners with in-memory partners and
+ * synthetic face models (no Supabase needed):
+ * 1. Duplicate candidates by face, email, phone and name (lib/partner-duplicates.ts)
+ * 2. Ranking of candidates
+ * 3. Field values of the kept partner after a merge (lib/partner-merge.ts)
+ */
+
+import { findDuplicatePartners } from '@/lib/partner-duplicates';
+import { getConflictingPartnerFields, reconcilePartnerFields } from '@/lib/partner-merge';
+import type { PartnerFaceModel } from '@/lib/face-index/partner-models';
+import { FACE_DESCRIPTOR_LENGTH } from '@/lib/face-matching';
+import type { Partner } from '@/shared';
+
+// Descriptor at the given distance from the origin along the first axis
+const faceAt = (distance: number): number[] =>
+  Array.from({ length: FACE_DESCRIPTOR_LENGTH }, (_, index) => (index === 0 ? distance : 0));
+
+const faceModel = (partnerId: string, distance: number): PartnerFaceModel => ({
+  partner_id: partnerId,
+  centroid: faceAt(distance),
+  spread: 0,
+  photo_count: 2,
+});
+
+const partner = (overrides: Partial<Partner>): Partner => ({
+  id: 'partner',
+  user_id: 'user-1',
+  first_name: null,
+  last_name: null,
+  email: null,
+  phone_number: null,
+  description: null,
+  description_time: null,
+  facebook_profile: null,
+  x_profile: null,
+  linkedin_profile: null,
+  instagram_profile: null,
+  profile_picture_storage_path: null,
+  black_flag: false,
+  status: 'talking',
+  status_changed_at: '2026-01-01T00:00:00.000Z',
+  tags: [],
+  custom_fields: {},
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Duplicate candidates', () => {
+  it('matches emails ignoring case and phone numbers on their last digits', () => {
+    const candidates = findDuplicatePartners(
+      [
+        partner({ id: 'a', email: ' Dana@Example.com', phone_number: '+972 50-123-4567' }),
+        partner({ id: 'b', email: 'dana@example.com', phone_number: '050 123 4567' }),
+      ],
+      []
+    );
+
+    expect(candidates).toEqual([{ partner_ids: ['a', 'b'], reasons: ['email', 'phone'], face_similarity: null, score: 6 }]);
+  });
+
+  it('ignores phone numbers that are too short to compare', () => {
+    const partners = [partner({ id: 'a', phone_number: '12-34' }), partner({ id: 'b', phone_number: '1234' })];
+
+    expect(findDuplicatePartners(partners, [])).toEqual([]);
+  });
+
+  it('matches full names, but never first names alone', () => {
+    const partners = [
+      partner({ id: 'a', first_name: 'Dana', last_name: 'Cohen' }),
+      partner({ id: 'b', first_name: ' dana ', last_name: 'COHEN' }),
+      partner({ id: 'c', first_name: 'Dana', last_name: null }),
+      partner({ id: 'd', first_name: 'Dana', last_name: 'Levi' }),
+    ];
+
+    expect(findDuplicatePartners(partners, []).map((candidate) => candidate.partner_ids)).toEqual([['a', 'b']]);
+  });
+
+  it('matches face models within the threshold', () => {
+    const partners = [partner({ id: 'a' }), partner({ id: 'b' }), partner({ id: 'c' })];
+    const models = [faceModel('a', 0), faceModel('b', 0.3), faceModel('c', 0.9)];
+
+    const candidates = findDuplicatePartners(partners, models, 0.4);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({ partner_ids: ['a', 'b'], reasons: ['face'] });
+    expect(candidates[0].face_similarity).toBeCloseTo(0.7);
+    expect(candidates[0].score).toBeCloseTo(3.7);
+  });
+
+  it('ranks stronger evidence first, with a shared first name as support', () => {
+    const partners = [
+      partner({ id: 'a', first_name: 'Dana', email: 'dana@example.com' }),
+      partner({ id: 'b', first_name: 'Dana', last_name: 'Cohen', email: 'dana@example.com' }),
+      partner({ id: 'c', first_name: 'Noa', email: 'noa@example.com' }),
+      partner({ id: 'd', first_name: 'Maya', email: 'noa@example.com' }),
+    ];
+    const models = [faceModel('c', 0), faceModel('d', 0.1)];
+
+    const candidates = findDuplicatePartners(partners, models, 0.4);
+
+    expect(candidates.map(({ partner_ids, reasons }) => ({ partner_ids, reasons }))).toEqual([
+      { partner_ids: ['c', 'd'], reasons: ['face', 'email'] },
+      { partner_ids: ['a', 'b'], reasons: ['email'] },
+    ]);
+    expect(candidates[1].score).toBe(4);
+  });
+});
+
+describe('Merged fields', () => {
+  const keep = partner({
+    id: 'keep',
+    first_name: 'Dana',
+    email: 'dana@example.com',
+    description: 'Met at the climbing gym',
+    description_time: '2026-01-05T00:00:00.000Z',
+    tags: ['Climbing', 'Tel Aviv'],
+    custom_fields: { field_1: 'blue' },
+  });
+  const merge = partner({
+    id: 'merge',
+    first_name: 'Dana',
+    last_name: 'Cohen',
+    email: 'dana.cohen@example.com',
+    description: 'Likes jazz',
+    description_time: '2026-02-01T00:00:00.000Z',
+    black_flag: true,
+    tags: ['climbing', 'Jazz'],
+    custom_fields: { field_1: 'green', field_2: 3 },
+  });
+
+  it('lists fields with different values on both sides', () => {
+    expect(getConflictingPartnerFields(keep, merge)).toEqual(['email', 'description']);
+  });
+
+  it('fills empty fields and keeps the kept partner on conflicts by default', () => {
+    expect(reconcilePartnerFields(keep, merge)).toEqual({
+      last_name: 'Cohen',
+      description: 'Met at the climbing gym\n\nLikes jazz',
+      black_flag: true,
+      tags: ['Climbing', 'Tel Aviv', 'Jazz'],
+      custom_fields: { field_1: 'blue', field_2: 3 },
+    });
+  });
+
+  it('takes the chosen fields from the duplicate, with its description time', () => {
+    const updates = reconcilePartnerFields(keep, merge, { email: 'merge', description: 'merge', last_name: 'keep' });
+
+    expect(updates).toMatchObject({
+      email: 'dana.cohen@example.com',
+      description: 'Likes jazz',
+      description_time: '2026-02-01T00:00:00.000Z',
+    });
+    expect(updates).not.toHaveProperty('last_name');
+  });
+
+  it('keeps the kept description when chosen', () => {
+    expect(reconcilePartnerFields(keep, merge, { description: 'keep' })).not.toHaveProperty('description');
+  });
+
+  it('returns no updates when the duplicate adds nothing', () => {
+    expect(reconcilePartnerFields(keep, partner({ id: 'empty', tags: ['TEL AVIV'] }))).toEqual({});
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Partner Update Tests
+ *
+ * Runs PATCH /api/partners/[partnerId] against an in-memory Supabase fake,
+ * with authentication and custom field definitions mocked (no Supabase needed):
+ * 1. Trimmed fields, '' clearing a field
+ * 2. description_time, set when the description changes
+ * 3. Black-flagged partners need a description
+ * 4. Custom field values merged into the stored ones
+ */
+
+const authenticateRequest = jest.fn();
+const track = jest.fn();
+
+jest.mock('@/lib/auth/server', () => ({
+  authenticateRequest: (...args: unknown[]) => authenticateRequest(...args),
+  authErrorResponse: jest.fn(),
+}));
+
+jest.mock('@/lib/supabase/client', () => ({ createSupabaseAdminClient: jest.fn() }));
+
+jest.mock('@/lib/trash', () => ({ trashPartner: jest.fn() }));
+
+jest.mock('@/lib/analytics/server', () => ({
+  track: (...args: unknown[]) => track(...args),
+}));
+
+jest.mock('@/lib/custom-fields', () => ({
+  getCustomFieldDefinitions: async () => [
+    { id: CITY, name: 'City', type: 'text', options: [] },
+    { id: AGE, name: 'Age', type: 'number', options: [] },
+  ],
+}));
+
+import { NextRequest } from 'next/server';
+import { PATCH } from '@/app/api/partners/[partnerId]/route';
+
+type Row = Record<string, any>;
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const PARTNER_ID = '22222222-2222-4222-8222-222222222222';
+const CITY = '0f3c2b1a-6d5e-4f7a-8b9c-1d2e3f4a5b6c';
+const AGE = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+
+/**
+ * Minimal PostgREST-style query builder over the partners table
+ */
+function createFakeSupabase(partners: Row[]) {
+  const from = () => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let updates: Row | null = null;
+
+    const run = () => {
+      const rows = partners.filter((row) => filters.every((filter) => filter(row)));
+      if (updates) {
+        rows.forEach((row) => Object.assign(row, updates));
+      }
+      return rows.map((row) => ({ ...row }));
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (values: Row) => {
+        updates = values;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      single: async () => {
+        const [row] = run();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'No rows found' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+    };
+
+    return builder;
+  };
+
+  return { from } as any;
+}
+
+const partnerRow = (overrides: Row = {}): Row => ({
+  id: PARTNER_ID,
+  user_id: USER_ID,
+  first_name: 'Dana',
+  last_name: 'Cohen',
+  email: 'dana@example.com',
+  description: 'Met at the climbing gym',
+  description_time: '2026-01-01T00:00:00.000Z',
+  black_flag: false,
+  status: 'talking',
+  custom_fields: { [CITY]: 'Berlin', [AGE]: 30 },
+  ...overrides,
+});
+
+const updatePartner = async (partner: Row, body: unknown) => {
+  authenticateRequest.mockResolvedValue({
+    ok: true,
+    auth: { supabase: createFakeSupabase([partner]), user: { id: USER_ID } },
+  });
+  const request = new NextRequest(`http://localhost/api/partners/${PARTNER_ID}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+  const response = await PATCH(request, { params: { partnerId: PARTNER_ID } });
+  return { status: response.status, body: await response.json() };
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  track.mockResolvedValue(undefined);
+});
+
+describe('Fields', () => {
+  it('trims values and clears fields set to an empty string', async () => {
+    const partner = partnerRow();
+
+    const { status, body } = await updatePartner(partner, { first_name: '  Dana Lee ', last_name: '   ', email: '' });
+
+    expect(status).toBe(200);
+    expect(body.data).toMatchObject({ first_name: 'Dana Lee', last_name: null, email: null });
+    expect(partner).toMatchObject({ first_name: 'Dana Lee', last_name: null, email: null });
+  });
+
+  it('leaves fields that are not in the body unchanged', async () => {
+    const partner = partnerRow();
+
+    await updatePartner(partner, { status: 'first_date' });
+
+    expect(partner).toMatchObject({ first_name: 'Dana', last_name: 'Cohen', status: 'first_date' });
+    expect(track).toHaveBeenCalledWith('[Partner Status Changed]', USER_ID, {
+      partner_id: PARTNER_ID,
+      from_status: 'talking',
+      to_status: 'first_date',
+    });
+  });
+});
+
+describe('Description time', () => {
+  it('is set when the description changes', async () => {
+    const partner = partnerRow();
+
+    await updatePartner(partner, { description: 'Loves jazz' });
+
+    expect(partner.description).toBe('Loves jazz');
+    expect(Date.now() - new Date(partner.description_time).getTime()).toBeLessThan(60 * 1000);
+  });
+
+  it('is kept when the description stays the same or is cleared', async () => {
+    const unchanged = partnerRow();
+    await updatePartner(unchanged, { description: ' Met at the climbing gym ' });
+    expect(unchanged.description_time).toBe('2026-01-01T00:00:00.000Z');
+
+    const cleared = partnerRow();
+    await updatePartner(cleared, { description: '' });
+    expect(cleared).toMatchObject({ description: null, description_time: '2026-01-01T00:00:00.000Z' });
+  });
+});
+
+describe('Black flag', () => {
+  it('needs a description, given or already stored', async () => {
+    const withoutDescription = partnerRow({ description: null });
+    expect(await updatePartner(withoutDescription, { black_flag: true })).toEqual({
+      status: 400,
+      body: { error: 'Description is required when black flag is enabled' },
+    });
+    expect(withoutDescription.black_flag).toBe(false);
+
+    const withDescription = partnerRow();
+    expect((await updatePartner(withDescription, { black_flag: true })).status).toBe(200);
+    expect(withDescription.black_flag).toBe(true);
+  });
+
+  it('keeps the description of black-flagged partners', async () => {
+    const partner = partnerRow({ black_flag: true });
+
+    expect((await updatePartner(partner, { description: '  ' })).status).toBe(400);
+    expect(partner.description).toBe('Met at the climbing gym');
+
+    expect((await updatePartner(partner, { black_flag: false, description: '' })).status).toBe(200);
+    expect(partner).toMatchObject({ black_flag: false, description: null });
+  });
+});
+
+describe('Custom fields', () => {
+  it('merges the given values into the stored ones', async () => {
+    const partner = partnerRow();
+
+    const { status } = await updatePartner(partner, { custom_fields: { [AGE]: '31' } });
+
+    expect(status).toBe(200);
+    expect(partner.custom_fields).toEqual({ [CITY]: 'Berlin', [AGE]: 31 });
+  });
+
+  it('removes fields set to null', async () => {
+    const partner = partnerRow();
+
+    await updatePartner(partner, { custom_fields: { [CITY]: null } });
+
+    expect(partner.custom_fields).toEqual({ [AGE]: 30 });
+  });
+
+  it('rejects invalid values without changing the partner', async () => {
+    const partner = partnerRow();
+
+    const { status, body } = await updatePartner(partner, { first_name: 'Noa', custom_fields: { [AGE]: 'thirty' } });
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: 'Invalid custom fields', details: { [AGE]: 'Age must be a number' } });
+    expect(partner).toMatchObject({ first_name: 'Dana', custom_fields: { [CITY]: 'Berlin', [AGE]: 30 } });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Photo Upload Queue Tests
+ *
+ * Runs lib/photo-upload-queue.ts against an in-memory Supabase fake, with face
+ * detection, partner face matching and notifications mocked (no Supabase needed):
+ * 1. Images whose single face matches exactly one partner are assigned to it
+ * 2. Every other image goes to the inbox, with the reason and candidates
+ * 3. Failed jobs retried with backoff, then given up
+ * 4. The notification once every image of a batch is done, with its counts
+ */
+
+const detectFacesInImage = jest.fn();
+const findPartnerFaceMatches = jest.fn();
+const sendNotificationOnce = jest.fn();
+
+jest.mock('@/lib/face-detection/server', () => ({
+  detectFacesInImage: (...args: unknown[]) => detectFacesInImage(...args),
+}));
+
+jest.mock('@/lib/face-index/factory', () => ({ getFaceIndex: () => ({}) }));
+
+jest.mock('@/lib/face-index/partner-models', () => ({
+  findPartnerFaceMatches: (...args: unknown[]) => findPartnerFaceMatches(...args),
+}));
+
+jest.mock('@/lib/face-index/threshold', () => ({ getUserFaceMatchThreshold: async () => 0.6 }));
+
+jest.mock('@/lib/notifications', () => ({
+  sendNotificationOnce: (...args: unknown[]) => sendNotificationOnce(...args),
+}));
+
+// uuid is published as ES modules only; sequential IDs keep storage paths predictable
+jest.mock('uuid', () => {
+  let next = 0;
+  return { v4: () => `uuid-${++next}` };
+});
+
+import { MAX_PHOTO_UPLOAD_ATTEMPTS, processPhotoUploadQueue } from '@/lib/photo-upload-queue';
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables, with storage
+ * files (path -> contents) that can be downloaded and moved
+ */
+function createFakeSupabase(tables: Tables, files: Record<string, Buffer>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let action: 'select' | 'update' | 'insert' = 'select';
+    let values: Row = {};
+    let limit = Infinity;
+
+    const run = () => {
+      if (action === 'insert') {
+        const row = { id: `${table}-${(tables[table] || []).length + 1}`, ...values };
+        tables[table] = [...(tables[table] || []), row];
+        return [{ ...row }];
+      }
+
+      const rows = (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+
+      if (action === 'update') {
+        rows.forEach((row) => Object.assign(row, values));
+      }
+
+      rows.sort((a, b) => {
+        for (const { column, ascending } of orders) {
+          if (a[column] !== b[column]) {
+            return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+          }
+        }
+        return 0;
+      });
+      // Copies, like rows read from the database
+      return rows.slice(0, limit).map((row) => ({ ...row }));
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (row: Row) => {
+        action = 'insert';
+        values = row;
+        return builder;
+      },
+      update: (update: Row) => {
+        action = 'update';
+        values = update;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      lt: (column: string, value: any) => {
+        filters.push((row) => row[column] < value);
+        return builder;
+      },
+      lte: (column: string, value: any) => {
+        filters.push((row) => row[column] <= value);
+        return builder;
+      },
+      // Only the shape used by the queue: status.in.(...),and(status.eq.<status>,updated_at.lt.<time>)
+      or: (expression: string) => {
+        const [, statuses, staleStatus, staleBefore] = expression.match(
+          /^status\.in\.\(([^)]*)\),and\(status\.eq\.(\w+),updated_at\.lt\.([^)]+)\)$/
+        )!;
+        filters.push(
+          (row) => statuses.split(',').includes(row.status) || (row.status === staleStatus && row.updated_at < staleBefore)
+        );
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        orders.push({ column, ascending: options.ascending });
+        return builder;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return builder;
+      },
+      single: async () => {
+        const [row] = run();
+        return row ? { data: row, error: null } : { data: null, error: { message: 'No rows found' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  const storage = {
+    from: () => ({
+      download: async (path: string) =>
+        files[path]
+          ? { data: { arrayBuffer: async () => files[path] }, error: null }
+          : { data: null, error: { message: 'Object not found' } },
+      move: async (fromPath: string, toPath: string) => {
+        if (!files[fromPath]) {
+          return { data: null, error: { message: 'Object not found' } };
+        }
+        files[toPath] = files[fromPath];
+        delete files[fromPath];
+        return { data: {}, error: null };
+      },
+    }),
+  };
+
+  return { from, storage } as any;
+}
+
+const jobRow = (overrides: Row = {}): Row => ({
+  id: 'job-1',
+  user_id: 'user-1',
+  batch_id: 'batch-1',
+  storage_path: 'user-1/inbox/a.jpg',
+  file_name: 'IMG_0001.jpg',
+  file_size: 1024,
+  mime_type: 'image/jpeg',
+  width: null,
+  height: null,
+  status: 'pending',
+  review_reason: null,
+  face_count: null,
+  face_descriptor: null,
+  candidates: [],
+  partner_id: null,
+  photo_id: null,
+  attempts: 0,
+  last_error: null,
+  next_attempt_at: new Date(Date.now() - MINUTE).toISOString(),
+  updated_at: new Date(Date.now() - MINUTE).toISOString(),
+  ...overrides,
+});
+
+const makeTables = (jobs: Row[] = [jobRow()]): Tables => ({
+  partners: [
+    { id: 'partner-1', user_id: 'user-1', profile_picture_storage_path: null, deleted_at: null },
+    { id: 'partner-2', user_id: 'user-1', profile_picture_storage_path: 'user-1/partner-2/old.jpg', deleted_at: null },
+    { id: 'partner-3', user_id: 'user-1', profile_picture_storage_path: null, deleted_at: '2026-10-01T00:00:00.000Z' },
+    { id: 'partner-4', user_id: 'user-2', profile_picture_storage_path: null, deleted_at: null },
+  ],
+  partner_photos: [],
+  photo_upload_jobs: jobs,
+});
+
+const makeFiles = (tables: Tables): Record<string, Buffer> =>
+  Object.fromEntries(tables.photo_upload_jobs.map((job) => [job.storage_path, Buffer.from(job.id)]));
+
+const descriptor = Array.from({ length: 128 }, (_, index) => index / 128);
+const face = (faceDescriptor = descriptor) => ({ descriptor: faceDescriptor });
+const detection = (faces: unknown[]) => ({ imageWidth: 800, imageHeight: 600, detections: faces });
+const score = (partnerId: string, similarity: number) => ({ partner_id: partnerId, similarity });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  detectFacesInImage.mockResolvedValue(detection([face()]));
+  findPartnerFaceMatches.mockResolvedValue({ scores: [], matches: [] });
+  sendNotificationOnce.mockResolvedValue(1);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Assigning photos', () => {
+  it('assigns images whose single face matches exactly one partner', async () => {
+    const tables = makeTables();
+    const files = makeFiles(tables);
+    findPartnerFaceMatches.mockResolvedValue({ scores: [score('partner-1', 0.82)], matches: [] });
+
+    const summary = await processPhotoUploadQueue(createFakeSupabase(tables, files));
+
+    expect(summary).toEqual({ processed: 1, assigned: 1, review: 0, failed: 0 });
+    const [photo] = tables.partner_photos;
+    expect(photo).toMatchObject({
+      partner_id: 'partner-1',
+      file_name: 'IMG_0001.jpg',
+      width: 800,
+      height: 600,
+      face_descriptor: descriptor,
+      face_detection_attempted: true,
+    });
+    expect(photo.storage_path).toMatch(/^user-1\/partner-1\/uuid-\d+\.jpg$/);
+    expect(Object.keys(files)).toEqual([photo.storage_path]);
+    expect(tables.partners[0].profile_picture_storage_path).toBe(photo.storage_path);
+    expect(tables.photo_upload_jobs[0]).toMatchObject({
+      status: 'assigned',
+      partner_id: 'partner-1',
+      photo_id: photo.id,
+      storage_path: photo.storage_path,
+      face_count: 1,
+      candidates: [{ partner_id: 'partner-1', similarity: 0.82 }],
+    });
+  });
+
+  it('keeps the profile picture of partners that have one', async () => {
+    const tables = makeTables();
+    findPartnerFaceMatches.mockResolvedValue({ scores: [score('partner-2', 0.9)], matches: [] });
+
+    await processPhotoUploadQueue(createFakeSupabase(tables, makeFiles(tables)));
+
+    expect(tables.partners[1].profile_picture_storage_path).toBe('user-1/partner-2/old.jpg');
+  });
+
+  it('only scores the user\'s partners that are not in the trash', async () => {
+    const tables = makeTables();
+
+    await processPhotoUploadQueue(createFakeSupabase(tables, makeFiles(tables)));
+
+    expect(findPartnerFaceMatches).toHaveBeenCalledWith(expect.anything(), expect.anything(), descriptor, {
+      partnerIds: ['partner-1', 'partner-2'],
+      threshold: 0.6,
+    });
+  });
+});
+
+describe('Photos to review', () => {
+  const review = async (faces: unknown[], scores: unknown[] = []) => {
+    const tables = makeTables();
+    detectFacesInImage.mockResolvedValue(detection(faces));
+    findPartnerFaceMatches.mockResolvedValue({ scores, matches: [] });
+
+    const summary = await processPhotoUploadQueue(createFakeSupabase(tables, makeFiles(tables)));
+
+    expect(summary).toEqual({ processed: 1, assigned: 0, review: 1, failed: 0 });
+    expect(tables.partner_photos).toEqual([]);
+    return tables.photo_upload_jobs[0];
+  };
+
+  it('sends images without a face to the inbox', async () => {
+    expect(await review([])).toMatchObject({ status: 'review', review_reason: 'no_face', face_count: 0, face_descriptor: null });
+    expect(findPartnerFaceMatches).not.toHaveBeenCalled();
+  });
+
+  it('sends images with several faces to the inbox without matching them', async () => {
+    expect(await review([face(), face()])).toMatchObject({ review_reason: 'multiple_faces', face_count: 2, candidates: [] });
+    expect(findPartnerFaceMatches).not.toHaveBeenCalled();
+  });
+
+  it('sends faces matching no partner to the inbox', async () => {
+    expect(await review([face()])).toMatchObject({ review_reason: 'no_match', face_descriptor: descriptor, candidates: [] });
+  });
+
+  it('sends faces matching several partners to the inbox with the candidates', async () => {
+    expect(await review([face()], [score('partner-1', 0.8), score('partner-2', 0.7)])).toMatchObject({
+      review_reason: 'ambiguous',
+      width: 800,
+      height: 600,
+      candidates: [
+        { partner_id: 'partner-1', similarity: 0.8 },
+        { partner_id: 'partner-2', similarity: 0.7 },
+      ],
+    });
+  });
+});
+
+describe('Failed jobs', () => {
+  it('retries with backoff', async () => {
+    const tables = makeTables([jobRow({ status: 'failed', attempts: 2 })]);
+
+    const summary = await processPhotoUploadQueue(createFakeSupabase(tables, {}));
+
+    expect(summary).toEqual({ processed: 1, assigned: 0, review: 0, failed: 1 });
+    const [job] = tables.photo_upload_jobs;
+    expect(job).toMatchObject({ status: 'failed', attempts: 3, last_error: 'Failed to download photo: Object not found' });
+    expect(new Date(job.next_attempt_at).getTime() - Date.now()).toBeGreaterThan(3 * MINUTE);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const tables = makeTables([jobRow({ status: 'failed', attempts: MAX_PHOTO_UPLOAD_ATTEMPTS - 1 })]);
+    const files = makeFiles(tables);
+    detectFacesInImage.mockRejectedValue(new Error('Unsupported image'));
+
+    await processPhotoUploadQueue(createFakeSupabase(tables, files));
+
+    expect(tables.photo_upload_jobs[0].last_error).toBe(
+      `Unsupported image (gave up after ${MAX_PHOTO_UPLOAD_ATTEMPTS} attempts)`
+    );
+
+    tables.photo_upload_jobs[0].next_attempt_at = new Date(Date.now() - MINUTE).toISOString();
+    expect(await processPhotoUploadQueue(createFakeSupabase(tables, files))).toEqual({ processed: 0, assigned: 0, review: 0, failed: 0 });
+  });
+});
+
+describe('Batch notifications', () => {
+  it('notifies once every image of the batch is done, with the counts', async () => {
+    const tables = makeTables([
+      jobRow({ id: 'job-1', storage_path: 'user-1/inbox/a.jpg' }),
+      jobRow({ id: 'job-2', storage_path: 'user-1/inbox/b.jpg', status: 'assigned' }),
+      jobRow({ id: 'job-3', storage_path: 'user-1/inbox/c.jpg', status: 'review' }),
+      jobRow({ id: 'job-4', storage_path: 'user-1/inbox/d.jpg', status: 'failed', attempts: MAX_PHOTO_UPLOAD_ATTEMPTS }),
+      jobRow({ id: 'job-5', batch_id: 'batch-2', storage_path: 'user-1/inbox/e.jpg', status: 'assigned' }),
+    ]);
+    findPartnerFaceMatches.mockResolvedValue({ scores: [score('partner-1', 0.82)], matches: [] });
+
+    await processPhotoUploadQueue(createFakeSupabase(tables, makeFiles(tables)));
+
+    expect(sendNotificationOnce).toHaveBeenCalledTimes(1);
+    expect(sendNotificationOnce).toHaveBeenCalledWith(
+      expect.anything(),
+      'user-1',
+      {
+        category: 'photo_processing',
+        title: 'Your photos are ready',
+        body: '4 photos processed: 2 added to partners, 1 to review in your photo inbox, 1 couldn\'t be processed.',
+        data: { type: 'photo_batch', batchId: 'batch-1', review: '1' },
+      },
+      'batch-1'
+    );
+  });
+
+  it('waits for images that are still queued or will be retried', async () => {
+    const tables = makeTables([
+      jobRow({ id: 'job-1', storage_path: 'user-1/inbox/a.jpg' }),
+      jobRow({
+        id: 'job-2',
+        storage_path: 'user-1/inbox/b.jpg',
+        status: 'failed',
+        attempts: 1,
+        next_attempt_at: new Date(Date.now() + MINUTE).toISOString(),
+      }),
+    ]);
+
+    const summary = await processPhotoUploadQueue(createFakeSupabase(tables, makeFiles(tables)));
+
+    expect(summary.processed).toBe(1);
+    expect(sendNotificationOnce).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,414 @@
+/**
+ * Push Notification Tests
+ *
+ * Runs the push subsystem against an in-memory Supabase fake, the in-memory
+ * transport and local stubs of FCM and APNs (no Supabase or push service needed):
+ * 1. Sending to a user's devices (preferences, platforms, expired tokens)
+ * 2. Notifications sent once per key
+ * 3. Upcoming activity alerts
+ * 4. FCM transport (service account auth, unregistered tokens)
+ * 5. APNs transport (provider token, unregistered tokens)
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { createServer as createHttp2Server, Http2Server } from 'http2';
+import { AddressInfo } from 'net';
+import { createVerify, generateKeyPairSync } from 'crypto';
+import { DevicePushSender } from '@/lib/push/device-sender';
+import { MemoryPushSender, MemoryPushTransport } from '@/lib/push/providers/memory';
+import { FcmPushTransport } from '@/lib/push/providers/fcm';
+import { ApnsPushTransport } from '@/lib/push/providers/apns';
+import { sendNotificationOnce, sendUpcomingActivityAlerts } from '@/lib/notifications';
+import type { PushMessage } from '@/lib/push/types';
+
+type Row = Record<string, any>;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables
+ * (notification_log rejects duplicate keys like its unique constraint)
+ */
+function createFakeSupabase(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let deleting = false;
+    let inserted: Row | null = null;
+
+    const run = () => {
+      const rows = tables[table] || (tables[table] = []);
+      if (inserted) {
+        const values = inserted;
+        const duplicate =
+          table === 'notification_log' &&
+          rows.some((row) => row.user_id === values.user_id && row.category === values.category && row.key === values.key);
+        if (duplicate) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+        }
+        rows.push(values);
+        return { data: null, error: null };
+      }
+      const matching = rows.filter((row) => filters.every((filter) => filter(row)));
+      if (deleting) {
+        tables[table] = rows.filter((row) => !matching.includes(row));
+        return { data: null, error: null };
+      }
+      return { data: matching, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (values: Row) => {
+        inserted = values;
+        return builder;
+      },
+      delete: () => {
+        deleting = true;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      gt: (column: string, value: string) => {
+        filters.push((row) => row[column] > value);
+        return builder;
+      },
+      lte: (column: string, value: string) => {
+        filters.push((row) => row[column] <= value);
+        return builder;
+      },
+      maybeSingle: () => {
+        const { data, error } = run();
+        return Promise.resolve({ data: data?.[0] ?? null, error });
+      },
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  return { from } as any;
+}
+
+const USER_ID = 'user-1';
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+const MESSAGE: PushMessage = {
+  category: 'reminders',
+  title: 'Follow up with Alex',
+  body: "You haven't had any activity with Alex in 7 days.",
+  data: { type: 'reminder', partnerId: 'partner-1' },
+};
+
+function makeTables(preferences: Row = {}): Record<string, Row[]> {
+  return {
+    users: [{ id: USER_ID, notification_preferences: preferences }],
+    push_devices: [
+      { id: 'device-ios', user_id: USER_ID, token: 'ios-token', platform: 'ios' },
+      { id: 'device-android', user_id: USER_ID, token: 'android-token', platform: 'android' },
+      { id: 'device-other', user_id: 'user-2', token: 'other-token', platform: 'android' },
+    ],
+    notification_log: [],
+  };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Sending to devices', () => {
+  it("sends to each of the user's devices through its platform's transport", async () => {
+    const ios = new MemoryPushTransport();
+    const android = new MemoryPushTransport();
+    const sender = new DevicePushSender(createFakeSupabase(makeTables()), { ios, android });
+
+    const sent = await sender.sendToUser(USER_ID, MESSAGE);
+
+    expect(sent).toBe(2);
+    expect(ios.delivered).toEqual([{ token: 'ios-token', message: MESSAGE }]);
+    expect(android.delivered).toEqual([{ token: 'android-token', message: MESSAGE }]);
+  });
+
+  it('skips categories the user turned off', async () => {
+    const transport = new MemoryPushTransport();
+    const sender = new DevicePushSender(createFakeSupabase(makeTables({ reminders: false })), {
+      ios: transport,
+      android: transport,
+    });
+
+    expect(await sender.sendToUser(USER_ID, MESSAGE)).toBe(0);
+    expect(await sender.sendToUser(USER_ID, { ...MESSAGE, category: 'payment_failures' })).toBe(2);
+  });
+
+  it('skips platforms without a configured transport', async () => {
+    const android = new MemoryPushTransport();
+    const sender = new DevicePushSender(createFakeSupabase(makeTables()), { android });
+
+    expect(await sender.sendToUser(USER_ID, MESSAGE)).toBe(1);
+  });
+
+  it('removes devices whose token is no longer valid', async () => {
+    const tables = makeTables();
+    const transport = new MemoryPushTransport();
+    transport.unregisteredTokens.add('ios-token');
+    const sender = new DevicePushSender(createFakeSupabase(tables), { ios: transport, android: transport });
+
+    expect(await sender.sendToUser(USER_ID, MESSAGE)).toBe(1);
+    expect(tables.push_devices.map((device) => device.id)).toEqual(['device-android', 'device-other']);
+  });
+
+  it('throws when no device could be reached', async () => {
+    const transport = new MemoryPushTransport();
+    jest.spyOn(transport, 'send').mockRejectedValue(new Error('Push service down'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const sender = new DevicePushSender(createFakeSupabase(makeTables()), { ios: transport, android: transport });
+
+    await expect(sender.sendToUser(USER_ID, MESSAGE)).rejects.toThrow('Push service down');
+  });
+});
+
+describe('Notifications sent once', () => {
+  it('does not repeat a notification with the same key', async () => {
+    const supabase = createFakeSupabase(makeTables());
+    const sender = new MemoryPushSender();
+
+    expect(await sendNotificationOnce(supabase, USER_ID, MESSAGE, 'invoice-1:1', sender)).toBe(1);
+    expect(await sendNotificationOnce(supabase, USER_ID, MESSAGE, 'invoice-1:1', sender)).toBeNull();
+    expect(await sendNotificationOnce(supabase, USER_ID, MESSAGE, 'invoice-1:2', sender)).toBe(1);
+    expect(sender.sent).toHaveLength(2);
+  });
+});
+
+describe('Upcoming activity alerts', () => {
+  it('alerts once about activities starting within the hour', async () => {
+    const tables = {
+      ...makeTables(),
+      partners: [
+        { id: 'partner-1', user_id: USER_ID, first_name: 'Alex', last_name: 'Doe', deleted_at: null },
+        { id: 'partner-trashed', user_id: USER_ID, first_name: 'Gone', last_name: null, deleted_at: '2026-03-10T00:00:00.000Z' },
+      ],
+      partner_notes: [
+        { id: 'soon', partner_id: 'partner-1', start_time: '2026-03-15T12:30:00.000Z', type: 'date', location: 'Cafe Noir', deleted_at: null },
+        { id: 'later', partner_id: 'partner-1', start_time: '2026-03-15T14:00:00.000Z', type: 'date', location: null, deleted_at: null },
+        { id: 'past', partner_id: 'partner-1', start_time: '2026-03-15T11:30:00.000Z', type: 'chat', location: null, deleted_at: null },
+        { id: 'trashed', partner_id: 'partner-trashed', start_time: '2026-03-15T12:30:00.000Z', type: 'date', location: null, deleted_at: null },
+      ],
+    };
+    const sender = new MemoryPushSender();
+
+    const summary = await sendUpcomingActivityAlerts(createFakeSupabase(tables), sender, NOW);
+
+    expect(summary).toEqual({ sent: 1, failed: 0 });
+    expect(sender.sent).toEqual([
+      {
+        userId: USER_ID,
+        message: {
+          category: 'upcoming_activities',
+          title: 'Date with Alex Doe',
+          body: 'Starts in 30 minutes at Cafe Noir',
+          data: { type: 'activity', partnerId: 'partner-1', activityId: 'soon' },
+        },
+      },
+    ]);
+
+    // The next run doesn't repeat it
+    const again = await sendUpcomingActivityAlerts(createFakeSupabase(tables), sender, new Date('2026-03-15T12:05:00.000Z'));
+    expect(again).toEqual({ sent: 0, failed: 0 });
+    expect(sender.sent).toHaveLength(1);
+  });
+});
+
+function decodeJwt(jwt: string) {
+  const [header, payload, signature] = jwt.split('.');
+  return {
+    unsigned: `${header}.${payload}`,
+    header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+    payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+    signature: Buffer.from(signature, 'base64url'),
+  };
+}
+
+describe('FCM transport', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  let server: Server;
+  let baseUrl: string;
+  let tokenRequests = 0;
+  let sentMessages: any[] = [];
+
+  function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  function handleRequest(req: IncomingMessage, body: string, res: ServerResponse) {
+    if (req.url === '/token' && req.method === 'POST') {
+      tokenRequests++;
+      const params = new URLSearchParams(body);
+      const jwt = decodeJwt(params.get('assertion') || '..');
+      const valid = createVerify('RSA-SHA256').update(jwt.unsigned).verify(publicKey, jwt.signature);
+      if (!valid || jwt.payload.iss !== 'push@example.iam.gserviceaccount.com') {
+        return sendJson(res, 400, { error: 'invalid_grant', error_description: 'Invalid JWT signature.' });
+      }
+      return sendJson(res, 200, { access_token: 'fcm-access', expires_in: 3600 });
+    }
+
+    if (req.url === '/v1/projects/dating-app/messages:send' && req.method === 'POST') {
+      if (req.headers.authorization !== 'Bearer fcm-access') {
+        return sendJson(res, 401, { error: { code: 401, message: 'Request had invalid authentication credentials.' } });
+      }
+      const { message } = JSON.parse(body);
+      if (message.token === 'gone-token') {
+        return sendJson(res, 404, {
+          error: {
+            code: 404,
+            message: 'Requested entity was not found.',
+            details: [{ '@type': 'type.googleapis.com/google.firebase.fcm.v1.FcmError', errorCode: 'UNREGISTERED' }],
+          },
+        });
+      }
+      if (message.token === 'bad-token') {
+        return sendJson(res, 400, { error: { code: 400, message: 'The registration token is not a valid FCM registration token' } });
+      }
+      sentMessages.push(message);
+      return sendJson(res, 200, { name: 'projects/dating-app/messages/1' });
+    }
+
+    return sendJson(res, 404, { error: { code: 404, message: 'Not found' } });
+  }
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => handleRequest(req, body, res));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    tokenRequests = 0;
+    sentMessages = [];
+  });
+
+  function createTransport() {
+    return new FcmPushTransport(
+      { projectId: 'dating-app', clientEmail: 'push@example.iam.gserviceaccount.com', privateKey },
+      baseUrl,
+      `${baseUrl}/token`
+    );
+  }
+
+  it('authenticates as the service account and sends the notification', async () => {
+    const transport = createTransport();
+
+    expect(await transport.send('device-token', MESSAGE)).toBe('sent');
+    expect(await transport.send('device-token', MESSAGE)).toBe('sent');
+
+    // The access token is reused
+    expect(tokenRequests).toBe(1);
+    expect(sentMessages[0]).toEqual({
+      token: 'device-token',
+      notification: { title: MESSAGE.title, body: MESSAGE.body },
+      data: { type: 'reminder', partnerId: 'partner-1', category: 'reminders' },
+      android: { priority: 'high' },
+    });
+  });
+
+  it('reports unregistered tokens and throws on other errors', async () => {
+    const transport = createTransport();
+
+    expect(await transport.send('gone-token', MESSAGE)).toBe('unregistered');
+    await expect(transport.send('bad-token', MESSAGE)).rejects.toThrow('FCM send failed (400)');
+  });
+});
+
+describe('APNs transport', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+
+  let server: Http2Server;
+  let transport: ApnsPushTransport;
+  let received: Array<{ path: string; headers: Record<string, unknown>; payload: any }> = [];
+
+  beforeAll(async () => {
+    // Cleartext HTTP/2 stand-in for api.push.apple.com
+    server = createHttp2Server();
+    server.on('stream', (stream, headers) => {
+      let body = '';
+      stream.setEncoding('utf8');
+      stream.on('data', (chunk: string) => (body += chunk));
+      stream.on('end', () => {
+        const jwt = decodeJwt(String(headers.authorization || '').replace(/^bearer /, ''));
+        const valid = createVerify('SHA256')
+          .update(jwt.unsigned)
+          .verify({ key: publicKey, dsaEncoding: 'ieee-p1363' }, jwt.signature);
+        const path = String(headers[':path']);
+
+        let status = 200;
+        let reason: string | null = null;
+        if (!valid || jwt.header.kid !== 'KEY123' || jwt.payload.iss !== 'TEAM123') {
+          status = 403;
+          reason = 'InvalidProviderToken';
+        } else if (path === '/3/device/gone-token') {
+          status = 410;
+          reason = 'Unregistered';
+        } else {
+          received.push({ path, headers, payload: JSON.parse(body) });
+        }
+
+        stream.respond({ ':status': status, 'apns-id': 'apns-1' });
+        stream.end(reason ? JSON.stringify({ reason }) : undefined);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    transport = new ApnsPushTransport(
+      { keyId: 'KEY123', teamId: 'TEAM123', privateKey, bundleId: 'com.datingapp.mobile' },
+      `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    );
+  });
+
+  afterAll(async () => {
+    transport.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('sends the notification with a signed provider token', async () => {
+    expect(await transport.send('device-token', MESSAGE)).toBe('sent');
+
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/3/device/device-token');
+    expect(received[0].headers).toMatchObject({ 'apns-topic': 'com.datingapp.mobile', 'apns-push-type': 'alert' });
+    expect(received[0].payload).toEqual({
+      aps: { alert: { title: MESSAGE.title, body: MESSAGE.body }, sound: 'default' },
+      type: 'reminder',
+      partnerId: 'partner-1',
+      category: 'reminders',
+    });
+  });
+
+  it('reports unregistered tokens', async () => {
+    expect(await transport.send('gone-token', MESSAGE)).toBe('unregistered');
+  });
+});
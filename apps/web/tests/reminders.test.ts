@@ -0,0 +1,326 @@
+/**
+ * Partner Reminder Tests
+ *
+ * Runs lib/reminders.ts against an in-memory Supabase fake and the in-memory
+ * email and push sinks (no Supabase, mail server or push service needed):
+ * 1. Due dates of one-off reminders and "no contact in N days" rules
+ * 2. Upcoming reminders (sorting, trashed partners)
+ * 3. Delivery by email and push, once per reminder or gap
+ * 4. Latest activities of partners with more activities than a response holds
+ * 5. Failing channels
+ * 6. Transports chosen from the environment (the sinks are never a silent default)
+ */
+
+import { getReminderDueAt, getUpcomingReminders, sendDueReminders } from '@/lib/reminders';
+import { MemoryEmailTransport } from '@/lib/email/providers/memory';
+import { getEmailTransport } from '@/lib/email/factory';
+import { getPushSender } from '@/lib/push/factory';
+import { MemoryPushSender } from '@/lib/push/providers/memory';
+import type { PartnerReminder } from '@/shared';
+
+type Row = Record<string, any>;
+
+// Rows per response, as capped by PostgREST (max-rows)
+const MAX_ROWS = 1000;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables, with the
+ * latest_partner_activities function (migration 049)
+ */
+function createFakeSupabase(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let order: { column: string; ascending: boolean } | null = null;
+    let range: [number, number] | null = null;
+    let changes: Row | null = null;
+
+    const run = () => {
+      const rows = (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+      if (changes) {
+        rows.forEach((row) => Object.assign(row, changes));
+        return { data: null, error: null };
+      }
+      if (order) {
+        const { column, ascending } = order;
+        rows.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+      }
+      return { data: (range ? rows.slice(range[0], range[1] + 1) : rows).slice(0, MAX_ROWS), error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (values: Row) => {
+        changes = values;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      lte: (column: string, value: string) => {
+        filters.push((row) => row[column] !== null && row[column] <= value);
+        return builder;
+      },
+      order: (column: string, options: { ascending: boolean }) => {
+        order = { column, ascending: options.ascending };
+        return builder;
+      },
+      range: (fromIndex: number, toIndex: number) => {
+        range = [fromIndex, toIndex];
+        return builder;
+      },
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  const rpc = async (name: string, args: { partner_ids: string[] }) => {
+    if (name !== 'latest_partner_activities') {
+      return { data: null, error: { message: `Unknown function ${name}` } };
+    }
+    const latest = new Map<string, string>();
+    for (const activity of tables.partner_notes || []) {
+      const current = latest.get(activity.partner_id);
+      if (args.partner_ids.includes(activity.partner_id) && !activity.deleted_at && (!current || activity.start_time > current)) {
+        latest.set(activity.partner_id, activity.start_time);
+      }
+    }
+    return { data: Array.from(latest, ([partner_id, start_time]) => ({ partner_id, start_time })), error: null };
+  };
+
+  return { from, rpc } as any;
+}
+
+const USER_ID = 'user-1';
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+function makeReminder(fields: Partial<PartnerReminder>): PartnerReminder {
+  return {
+    id: 'reminder-1',
+    user_id: USER_ID,
+    partner_id: 'partner-1',
+    kind: 'no_contact',
+    remind_at: null,
+    no_contact_days: 7,
+    note: null,
+    last_sent_at: null,
+    completed_at: null,
+    created_at: '2026-03-01T00:00:00.000Z',
+    updated_at: '2026-03-01T00:00:00.000Z',
+    ...fields,
+  };
+}
+
+function makeTables(reminders: PartnerReminder[], activities: Row[] = []) {
+  return {
+    partner_reminders: reminders as Row[],
+    partners: [
+      { id: 'partner-1', user_id: USER_ID, first_name: 'Alex', last_name: 'Doe', deleted_at: null },
+      { id: 'partner-2', user_id: USER_ID, first_name: 'Sam', last_name: null, deleted_at: null },
+      { id: 'partner-trashed', user_id: USER_ID, first_name: 'Gone', last_name: null, deleted_at: '2026-03-10T00:00:00.000Z' },
+    ],
+    partner_notes: activities,
+    users: [{ id: USER_ID, email: 'user@example.com' }],
+  };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Due dates', () => {
+  it('uses remind_at for one-off reminders until they are sent', () => {
+    const reminder = makeReminder({ kind: 'once', remind_at: '2026-03-20T09:00:00.000Z', no_contact_days: null });
+
+    expect(getReminderDueAt(reminder, null)?.toISOString()).toBe('2026-03-20T09:00:00.000Z');
+    expect(getReminderDueAt({ ...reminder, last_sent_at: '2026-03-20T09:05:00.000Z' }, null)).toBeNull();
+  });
+
+  it('counts no-contact days from the latest activity, or from creation without one', () => {
+    const reminder = makeReminder({ no_contact_days: 7 });
+
+    expect(getReminderDueAt(reminder, '2026-03-10T18:00:00.000Z')?.toISOString()).toBe('2026-03-17T18:00:00.000Z');
+    expect(getReminderDueAt(reminder, null)?.toISOString()).toBe('2026-03-08T00:00:00.000Z');
+  });
+
+  it('sends a no-contact rule once per gap between activities', () => {
+    const reminder = makeReminder({ no_contact_days: 7, last_sent_at: '2026-03-08T00:15:00.000Z' });
+
+    // Already sent for this gap
+    expect(getReminderDueAt(reminder, null)).toBeNull();
+    // A new activity starts the count again
+    expect(getReminderDueAt(reminder, '2026-03-12T10:00:00.000Z')?.toISOString()).toBe('2026-03-19T10:00:00.000Z');
+  });
+
+  it('never returns a due date for completed reminders', () => {
+    expect(getReminderDueAt(makeReminder({ completed_at: '2026-03-02T00:00:00.000Z' }), null)).toBeNull();
+  });
+});
+
+describe('Upcoming reminders', () => {
+  it('lists active reminders soonest first and skips trashed partners', async () => {
+    const supabase = createFakeSupabase(
+      makeTables(
+        [
+          makeReminder({ id: 'later', kind: 'once', remind_at: '2026-04-01T09:00:00.000Z', no_contact_days: null }),
+          makeReminder({ id: 'overdue', partner_id: 'partner-2', no_contact_days: 3 }),
+          makeReminder({ id: 'trashed', partner_id: 'partner-trashed' }),
+        ],
+        [{ partner_id: 'partner-2', start_time: '2026-03-05T20:00:00.000Z', deleted_at: null }]
+      )
+    );
+
+    const upcoming = await getUpcomingReminders(supabase, USER_ID);
+
+    expect(upcoming.map((item) => item.reminder.id)).toEqual(['overdue', 'later']);
+    expect(upcoming[0]).toMatchObject({
+      due_at: '2026-03-08T20:00:00.000Z',
+      last_contact_at: '2026-03-05T20:00:00.000Z',
+      partner: { first_name: 'Sam' },
+    });
+  });
+});
+
+describe('Sending reminders', () => {
+  it('sends due reminders by email and push and records the delivery', async () => {
+    const tables = makeTables(
+      [
+        makeReminder({ id: 'once', kind: 'once', remind_at: '2026-03-15T11:00:00.000Z', no_contact_days: null, note: 'Ask about the trip' }),
+        makeReminder({ id: 'rule', partner_id: 'partner-2', no_contact_days: 5 }),
+        makeReminder({ id: 'future', kind: 'once', remind_at: '2026-03-16T11:00:00.000Z', no_contact_days: null }),
+      ],
+      [{ partner_id: 'partner-2', start_time: '2026-03-09T19:00:00.000Z', deleted_at: null }]
+    );
+    const email = new MemoryEmailTransport();
+    const push = new MemoryPushSender();
+
+    const summary = await sendDueReminders(createFakeSupabase(tables), { email, push }, NOW);
+
+    expect(summary).toEqual({ sent: 2, failed: 0 });
+    expect(email.messages.map((message) => message.subject).sort()).toEqual(['Follow up with Sam', 'Reminder: Alex Doe']);
+    expect(email.messages.every((message) => message.to === 'user@example.com')).toBe(true);
+    expect(email.messages.find((message) => message.subject === 'Reminder: Alex Doe')?.text).toContain('Ask about the trip');
+    expect(email.messages.find((message) => message.subject === 'Follow up with Sam')?.text).toContain('in 5 days');
+    expect(push.sent).toHaveLength(2);
+    expect(push.sent[0]).toMatchObject({ userId: USER_ID, message: { data: { type: 'reminder' } } });
+
+    const [once, rule, future] = tables.partner_reminders;
+    expect(once).toMatchObject({ last_sent_at: NOW.toISOString(), completed_at: NOW.toISOString() });
+    expect(rule).toMatchObject({ last_sent_at: NOW.toISOString(), completed_at: null });
+    expect(future.last_sent_at).toBeNull();
+
+    // Nothing new to send on the next run
+    const again = await sendDueReminders(createFakeSupabase(tables), { email, push }, NOW);
+    expect(again).toEqual({ sent: 0, failed: 0 });
+    expect(email.messages).toHaveLength(2);
+  });
+
+  it('finds the latest activity of partners with more activities than a response holds', async () => {
+    // partner-1 has more recent activities than fit in one response
+    const busy = Array.from({ length: MAX_ROWS + 200 }, (_, index) => ({
+      partner_id: 'partner-1',
+      start_time: new Date(NOW.getTime() - (index + 1) * 60 * 1000).toISOString(),
+      deleted_at: null,
+    }));
+    const tables = makeTables(
+      [makeReminder({ id: 'busy' }), makeReminder({ id: 'quiet', partner_id: 'partner-2', no_contact_days: 7 })],
+      [...busy, { partner_id: 'partner-2', start_time: '2026-03-12T19:00:00.000Z', deleted_at: null }]
+    );
+    const email = new MemoryEmailTransport();
+    const push = new MemoryPushSender();
+
+    const summary = await sendDueReminders(createFakeSupabase(tables), { email, push }, NOW);
+
+    expect(summary).toEqual({ sent: 0, failed: 0 });
+    expect(email.messages).toHaveLength(0);
+  });
+
+  it('does not send reminders of trashed partners', async () => {
+    const email = new MemoryEmailTransport();
+    const push = new MemoryPushSender();
+    const tables = makeTables([makeReminder({ partner_id: 'partner-trashed' })]);
+
+    const summary = await sendDueReminders(createFakeSupabase(tables), { email, push }, NOW);
+
+    expect(summary).toEqual({ sent: 0, failed: 0 });
+    expect(email.messages).toHaveLength(0);
+  });
+
+  it('counts a reminder as sent when one channel delivers it', async () => {
+    const email = new MemoryEmailTransport();
+    jest.spyOn(email, 'send').mockRejectedValue(new Error('SMTP down'));
+    const push = new MemoryPushSender();
+    const tables = makeTables([makeReminder({})]);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const summary = await sendDueReminders(createFakeSupabase(tables), { email, push }, NOW);
+
+    expect(summary).toEqual({ sent: 1, failed: 0 });
+    expect(push.sent).toHaveLength(1);
+    expect(tables.partner_reminders[0].last_sent_at).toBe(NOW.toISOString());
+  });
+
+  it('retries reminders when every channel fails', async () => {
+    const email = new MemoryEmailTransport();
+    jest.spyOn(email, 'send').mockRejectedValue(new Error('SMTP down'));
+    const push = new MemoryPushSender();
+    jest.spyOn(push, 'sendToUser').mockRejectedValue(new Error('Push down'));
+    const tables = makeTables([makeReminder({})]);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const summary = await sendDueReminders(createFakeSupabase(tables), { email, push }, NOW);
+
+    expect(summary).toEqual({ sent: 0, failed: 1 });
+    expect(tables.partner_reminders[0].last_sent_at).toBeNull();
+  });
+});
+
+describe('Transports', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const saved = { NODE_ENV: env.NODE_ENV, EMAIL_TRANSPORT: env.EMAIL_TRANSPORT, PUSH_TRANSPORT: env.PUSH_TRANSPORT };
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete env[name];
+      else env[name] = value;
+    }
+  });
+
+  it('refuses to fall back to the in-memory sinks outside tests', () => {
+    env.NODE_ENV = 'production';
+    delete env.EMAIL_TRANSPORT;
+    delete env.PUSH_TRANSPORT;
+
+    expect(() => getEmailTransport()).toThrow('EMAIL_TRANSPORT must be set');
+    expect(() => getPushSender()).toThrow('PUSH_TRANSPORT must be set');
+  });
+
+  it('uses the in-memory sinks when configured or under tests', () => {
+    env.NODE_ENV = 'production';
+    env.EMAIL_TRANSPORT = 'memory';
+    expect(getEmailTransport()).toBeInstanceOf(MemoryEmailTransport);
+
+    env.NODE_ENV = 'test';
+    delete env.EMAIL_TRANSPORT;
+    expect(getEmailTransport()).toBeInstanceOf(MemoryEmailTransport);
+  });
+
+  it('does not log recipients or content', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    env.EMAIL_TRANSPORT = 'memory';
+
+    await getEmailTransport().send({ to: 'sam@example.com', subject: 'Reminder: Alex', text: 'Call Alex' });
+
+    expect(JSON.stringify(log.mock.calls)).not.toMatch(/sam@example\.com|Alex/);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Request Authentication Tests
+ *
+ * Runs lib/auth/server.ts against mocked Supabase clients (no Supabase needed):
+ * 1. Session cookie (verified and trusted)
+ * 2. Supabase access token in a Bearer header
+ * 3. API keys (valid, unknown, scopes, usage tracking, session-only routes)
+ * 4. Error responses
+ */
+
+import { createHmac } from 'crypto';
+
+const cookieAuth = {
+  getUser: jest.fn(),
+  getSession: jest.fn(),
+};
+const tokenAuth = {
+  getUser: jest.fn(),
+};
+const apiKeyLookup = {
+  maybeSingle: jest.fn(),
+  eq: jest.fn(),
+  is: jest.fn(),
+};
+const apiKeyUpdate = {
+  update: jest.fn(),
+  eq: jest.fn(),
+};
+const adminAuth = {
+  getUserById: jest.fn(),
+};
+const createClientMock = jest.fn();
+
+jest.mock('@/lib/supabase/server', () => ({
+  createSupabaseRouteHandlerClient: () => ({ auth: cookieAuth }),
+}));
+
+jest.mock('@/lib/supabase/client', () => ({
+  createSupabaseAdminClient: () => ({
+    from: (table: string) => {
+      if (table !== 'api_keys') throw new Error(`Unexpected table ${table}`);
+      return { select: () => apiKeyLookup, update: apiKeyUpdate.update };
+    },
+    auth: { admin: adminAuth },
+  }),
+}));
+
+jest.mock('@supabase/supabase-js', () => ({
+  createClient: (...args: unknown[]) => {
+    createClientMock(...args);
+    return { auth: tokenAuth };
+  },
+}));
+
+import { authenticateRequest, authErrorResponse } from '@/lib/auth/server';
+import { generateApiKey, hashApiKey } from '@/lib/auth/api-keys';
+
+const JWT_SECRET = 'test-jwt-secret';
+const user = { id: '11111111-1111-4111-8111-111111111111', email: 'user@example.com' };
+
+function makeRequest(authorization?: string): Request {
+  return new Request('http://localhost/api/partners', {
+    headers: authorization ? { authorization } : {},
+  });
+}
+
+function decodeJwtPart(part: string) {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test';
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+  process.env.SUPABASE_JWT_SECRET = JWT_SECRET;
+  apiKeyLookup.eq.mockReturnValue(apiKeyLookup);
+  apiKeyLookup.is.mockReturnValue(apiKeyLookup);
+  apiKeyUpdate.update.mockReturnValue(apiKeyUpdate);
+  apiKeyUpdate.eq.mockResolvedValue({ error: null });
+});
+
+function mockApiKey(fields: Record<string, unknown> = {}) {
+  apiKeyLookup.maybeSingle.mockResolvedValue({
+    data: { id: 'key-1', user_id: user.id, scopes: ['partners:read'], last_used_at: null, ...fields },
+    error: null,
+  });
+  adminAuth.getUserById.mockResolvedValue({ data: { user }, error: null });
+}
+
+describe('Session cookie', () => {
+  it('verifies the cookie session with Supabase Auth', async () => {
+    cookieAuth.getUser.mockResolvedValue({ data: { user }, error: null });
+
+    const result = await authenticateRequest(makeRequest());
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.auth.user.id).toBe(user.id);
+    expect(result.auth.method).toBe('cookie');
+    expect(result.auth.accessToken).toBeNull();
+    expect(cookieAuth.getSession).not.toHaveBeenCalled();
+    expect(createClientMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests without a session', async () => {
+    cookieAuth.getUser.mockResolvedValue({ data: { user: null }, error: { message: 'Auth session missing!' } });
+
+    const result = await authenticateRequest(makeRequest());
+
+    expect(result).toEqual({
+      ok: false,
+      error: { code: 'NOT_AUTHENTICATED', message: 'Not authenticated', status: 401 },
+    });
+  });
+
+  it('reads the session without verifying it when trusted', async () => {
+    cookieAuth.getSession.mockResolvedValue({ data: { session: { user, access_token: 'session-token' } } });
+
+    const result = await authenticateRequest(makeRequest(), { trustCookieSession: true });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.auth.accessToken).toBe('session-token');
+    expect(cookieAuth.getUser).not.toHaveBeenCalled();
+  });
+});
+
+describe('Bearer access token', () => {
+  it('returns a client that sends the access token', async () => {
+    tokenAuth.getUser.mockResolvedValue({ data: { user }, error: null });
+
+    const result = await authenticateRequest(makeRequest('Bearer mobile-access-token'));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.auth.method).toBe('bearer');
+    expect(result.auth.accessToken).toBe('mobile-access-token');
+    expect(tokenAuth.getUser).toHaveBeenCalledWith('mobile-access-token');
+    expect(createClientMock.mock.calls[0][2].global.headers.Authorization).toBe('Bearer mobile-access-token');
+    expect(cookieAuth.getUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects an invalid access token without falling back to cookies', async () => {
+    tokenAuth.getUser.mockResolvedValue({ data: { user: null }, error: { message: 'invalid JWT' } });
+
+    const result = await authenticateRequest(makeRequest('Bearer expired-token'));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_TOKEN');
+    expect(cookieAuth.getUser).not.toHaveBeenCalled();
+  });
+});
+
+describe('API key', () => {
+  it('looks the key up by hash and calls Supabase as its user', async () => {
+    const { key, keyHash } = await generateApiKey();
+    mockApiKey();
+
+    const result = await authenticateRequest(makeRequest(`Bearer ${key}`), { scope: 'partners:read' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.auth.method).toBe('api_key');
+    expect(result.auth.apiKeyId).toBe('key-1');
+    expect(apiKeyLookup.eq).toHaveBeenCalledWith('key_hash', keyHash);
+    expect(apiKeyLookup.is).toHaveBeenCalledWith('revoked_at', null);
+
+    // The client sends a short-lived access token signed for the user
+    const accessToken = result.auth.accessToken!;
+    expect(createClientMock.mock.calls[0][2].global.headers.Authorization).toBe(`Bearer ${accessToken}`);
+    const [header, payload, signature] = accessToken.split('.');
+    const expected = createHmac('sha256', JWT_SECRET).update(`${header}.${payload}`).digest('base64url');
+    expect(signature).toBe(expected);
+    expect(decodeJwtPart(header)).toEqual({ alg: 'HS256', typ: 'JWT' });
+    const claims = decodeJwtPart(payload);
+    expect(claims.sub).toBe(user.id);
+    expect(claims.role).toBe('authenticated');
+    expect(claims.api_key_scopes).toEqual(['partners:read']);
+    expect(claims.exp).toBeGreaterThan(Date.now() / 1000);
+  });
+
+  it('rejects an unknown or revoked key', async () => {
+    const { key } = await generateApiKey();
+    apiKeyLookup.maybeSingle.mockResolvedValue({ data: null, error: null });
+
+    const result = await authenticateRequest(makeRequest(`Bearer ${key}`), { scope: 'partners:read' });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_API_KEY');
+    expect(adminAuth.getUserById).not.toHaveBeenCalled();
+  });
+
+  it('is refused on session-only routes', async () => {
+    const { key } = await generateApiKey();
+
+    const result = await authenticateRequest(makeRequest(`Bearer ${key}`));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatchObject({ code: 'API_KEY_NOT_ALLOWED', status: 403 });
+    expect(apiKeyLookup.maybeSingle).not.toHaveBeenCalled();
+  });
+
+  it('is refused on routes that need a scope the key does not have', async () => {
+    const { key } = await generateApiKey();
+    mockApiKey();
+
+    const result = await authenticateRequest(makeRequest(`Bearer ${key}`), { scope: 'activities:write' });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatchObject({ code: 'INSUFFICIENT_SCOPE', status: 403 });
+    expect(adminAuth.getUserById).not.toHaveBeenCalled();
+  });
+
+  it('needs every scope a route names', async () => {
+    const { key } = await generateApiKey();
+    mockApiKey({ scopes: ['partners:write'] });
+
+    const refused = await authenticateRequest(makeRequest(`Bearer ${key}`), { scope: ['partners:write', 'photos:upload'] });
+    expect(refused.ok).toBe(false);
+
+    mockApiKey({ scopes: ['partners:write', 'photos:upload'] });
+    const allowed = await authenticateRequest(makeRequest(`Bearer ${key}`), { scope: ['partners:write', 'photos:upload'] });
+    expect(allowed.ok).toBe(true);
+  });
+
+  it('records when the key was last used', async () => {
+    const { key } = await generateApiKey();
+    mockApiKey({ last_used_at: new Date(Date.now() - 60 * 60 * 1000).toISOString() });
+
+    await authenticateRequest(makeRequest(`Bearer ${key}`), { scope: 'partners:read' });
+
+    expect(apiKeyUpdate.update).toHaveBeenCalledWith({ last_used_at: expect.any(String) });
+    expect(apiKeyUpdate.eq).toHaveBeenCalledWith('id', 'key-1');
+  });
+
+  it('does not record every request of a recently used key', async () => {
+    const { key } = await generateApiKey();
+    mockApiKey({ last_used_at: new Date().toISOString() });
+
+    const result = await authenticateRequest(makeRequest(`Bearer ${key}`), { scope: 'partners:read' });
+
+    expect(result.ok).toBe(true);
+    expect(apiKeyUpdate.update).not.toHaveBeenCalled();
+  });
+
+  it('generates distinct keys and stores only a prefix and hash', async () => {
+    const first = await generateApiKey();
+    const second = await generateApiKey();
+
+    expect(first.key).toMatch(/^dmk_[A-Za-z0-9_-]{43}$/);
+    expect(first.key).not.toBe(second.key);
+    expect(first.keyPrefix).toBe(first.key.slice(0, 12));
+    expect(first.keyHash).toBe(await hashApiKey(first.key));
+    expect(first.keyHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('Error response', () => {
+  it('uses the shared error shape and status', async () => {
+    const response = authErrorResponse({ code: 'INVALID_TOKEN', message: 'Invalid or expired access token', status: 401 });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: 'Unauthorized',
+      code: 'INVALID_TOKEN',
+      message: 'Invalid or expired access token',
+    });
+  });
+});
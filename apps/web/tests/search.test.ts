@@ -0,0 +1,97 @@
+/**
+ * Search Tests
+ *
+ * Runs lib/search.ts against a stubbed search_partners RPC (no Supabase needed):
+ * 1. Splitting snippets into plain and highlighted parts
+ * 2. Mapping ranked rows to partner and activity results
+ * 3. Query validation
+ */
+
+import { searchPartners, SearchQuerySchema } from '@/lib/search';
+import { SEARCH_HIGHLIGHT_END, SEARCH_HIGHLIGHT_START, splitSearchSnippet } from '@/shared';
+
+const mark = (text: string) => `${SEARCH_HIGHLIGHT_START}${text}${SEARCH_HIGHLIGHT_END}`;
+
+describe('Snippets', () => {
+  it('splits a snippet into plain and highlighted parts', () => {
+    expect(splitSearchSnippet(`Met ${mark('Alex')} at ${mark('Cafe')} Noir`)).toEqual([
+      { text: 'Met ', highlighted: false },
+      { text: 'Alex', highlighted: true },
+      { text: ' at ', highlighted: false },
+      { text: 'Cafe', highlighted: true },
+      { text: ' Noir', highlighted: false },
+    ]);
+  });
+
+  it('handles snippets without highlights and unterminated highlights', () => {
+    expect(splitSearchSnippet('No matches here')).toEqual([{ text: 'No matches here', highlighted: false }]);
+    expect(splitSearchSnippet(`${SEARCH_HIGHLIGHT_START}Alex`)).toEqual([{ text: 'Alex', highlighted: true }]);
+    expect(splitSearchSnippet('')).toEqual([]);
+  });
+});
+
+describe('Searching', () => {
+  it('maps ranked rows to partner and activity results', async () => {
+    const rpc = jest.fn().mockResolvedValue({
+      data: [
+        {
+          result_type: 'partner',
+          partner_id: 'partner-1',
+          first_name: 'Alex',
+          last_name: 'Doe',
+          profile_picture_storage_path: null,
+          activity_id: null,
+          activity_type: null,
+          activity_start_time: null,
+          snippet: `${mark('Alex')} Doe`,
+          rank: 0.6,
+        },
+        {
+          result_type: 'activity',
+          partner_id: 'partner-2',
+          first_name: 'Sam',
+          last_name: null,
+          profile_picture_storage_path: 'user-1/sam.jpg',
+          activity_id: 'activity-1',
+          activity_type: 'date',
+          activity_start_time: '2026-03-14T19:00:00+00:00',
+          snippet: `Dinner with ${mark('Alex')}'s friends`,
+          rank: 0.2,
+        },
+      ],
+      error: null,
+    });
+
+    const results = await searchPartners({ rpc } as any, 'alex', 10);
+
+    expect(rpc).toHaveBeenCalledWith('search_partners', { search_query: 'alex', max_results: 10 });
+    expect(results).toEqual([
+      {
+        type: 'partner',
+        partner: { id: 'partner-1', first_name: 'Alex', last_name: 'Doe', profile_picture_storage_path: null },
+        activity: null,
+        snippet: `${mark('Alex')} Doe`,
+        rank: 0.6,
+      },
+      {
+        type: 'activity',
+        partner: { id: 'partner-2', first_name: 'Sam', last_name: null, profile_picture_storage_path: 'user-1/sam.jpg' },
+        activity: { id: 'activity-1', type: 'date', start_time: '2026-03-14T19:00:00+00:00' },
+        snippet: `Dinner with ${mark('Alex')}'s friends`,
+        rank: 0.2,
+      },
+    ]);
+  });
+
+  it('reports RPC errors', async () => {
+    const rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'function search_partners does not exist' } });
+
+    await expect(searchPartners({ rpc } as any, 'alex')).rejects.toThrow('Failed to search: function search_partners does not exist');
+  });
+
+  it('requires a non-empty query and caps the limit', () => {
+    expect(SearchQuerySchema.safeParse({ q: '   ' }).success).toBe(false);
+    expect(SearchQuerySchema.safeParse({ q: 'alex', limit: '500' }).success).toBe(false);
+    expect(SearchQuerySchema.parse({ q: ' alex ' })).toEqual({ q: 'alex', limit: 20 });
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Trash Tests
+ *
+ * Runs lib/trash.ts against an in-memory Supabase fake, with calendar event
+ * deletion mocked (no Supabase or calendar provider needed):
+ * 1. Trashing and restoring a partner with the photos and activities trashed with it
+ * 2. Listing the trash, with items trashed together with their partner grouped under it
+ * 3. Restores refused by a trashed partner (409) or the free-plan limits (403)
+ * 4. Purging items older than the retention period, with photo files and calendar events
+ */
+
+const deleteCalendarEvent = jest.fn();
+const getUserCalendarConnection = jest.fn();
+
+jest.mock('@/lib/calendar/sync', () => ({
+  deleteCalendarEvent: (...args: unknown[]) => deleteCalendarEvent(...args),
+}));
+
+jest.mock('@/lib/calendar/connections', () => ({
+  getUserCalendarConnection: (...args: unknown[]) => getUserCalendarConnection(...args),
+}));
+
+import { listTrash, purgeTrash, restoreTrashItem, trashPartner, TRASH_RETENTION_MS } from '@/lib/trash';
+import { FREE_TIER_ACTIVITY_LIMIT } from '@/shared';
+import { FREE_TIER_PARTNER_LIMIT } from '@/lib/pricing';
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+/**
+ * Minimal PostgREST-style query builder over in-memory tables. Photos and
+ * activities can embed their partner (partners!inner(...)) and be filtered on
+ * its columns (partners.user_id); storage removals are recorded.
+ */
+function createFakeSupabase(tables: Tables) {
+  const removedFiles: string[] = [];
+
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let action: 'select' | 'update' | 'delete' = 'select';
+    let changes: Row | null = null;
+    let embedPartner = false;
+    let head = false;
+    let limit: number | null = null;
+
+    const partnerOf = (row: Row) => (tables.partners || []).find((partner) => partner.id === row.partner_id);
+    const value = (row: Row, column: string) =>
+      column.startsWith('partners.') ? partnerOf(row)?.[column.slice('partners.'.length)] : row[column];
+
+    const run = () => {
+      let rows = (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+      if (limit !== null) {
+        rows = rows.slice(0, limit);
+      }
+      if (action === 'update') {
+        rows.forEach((row) => Object.assign(row, changes));
+      } else if (action === 'delete') {
+        tables[table] = (tables[table] || []).filter((row) => !rows.includes(row));
+      }
+      if (head) {
+        return { data: null, count: rows.length, error: null };
+      }
+      return {
+        data: rows.map((row) => (embedPartner ? { ...row, partners: partnerOf(row) } : { ...row })),
+        error: null,
+      };
+    };
+
+    const builder: any = {
+      select: (columns = '*', options?: { head?: boolean }) => {
+        embedPartner = embedPartner || columns.includes('partners!inner(');
+        head = !!options?.head;
+        if (embedPartner) {
+          filters.push((row) => partnerOf(row) !== undefined);
+        }
+        return builder;
+      },
+      update: (values: Row) => {
+        action = 'update';
+        changes = values;
+        return builder;
+      },
+      delete: () => {
+        action = 'delete';
+        return builder;
+      },
+      eq: (column: string, expected: unknown) => {
+        filters.push((row) => value(row, column) === expected);
+        return builder;
+      },
+      is: (column: string, expected: unknown) => {
+        filters.push((row) => (value(row, column) ?? null) === expected);
+        return builder;
+      },
+      not: (column: string, operator: string, expected: unknown) => {
+        filters.push((row) => operator === 'is' && (value(row, column) ?? null) !== expected);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(value(row, column)));
+        return builder;
+      },
+      lte: (column: string, expected: string) => {
+        filters.push((row) => value(row, column) != null && value(row, column) <= expected);
+        return builder;
+      },
+      limit: (count: number) => {
+        limit = count;
+        return builder;
+      },
+      maybeSingle: async () => {
+        const { data, error } = run();
+        return { data: data?.[0] || null, error };
+      },
+      single: async () => {
+        const { data, error } = run();
+        return data?.[0] ? { data: data[0], error } : { data: null, error: { message: 'No rows' } };
+      },
+      then: (resolve: (result: unknown) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+
+    return builder;
+  };
+
+  const storage = {
+    from: () => ({
+      remove: async (paths: string[]) => {
+        removedFiles.push(...paths);
+        return { data: null, error: null };
+      },
+    }),
+  };
+
+  return { supabase: { from, storage } as any, removedFiles };
+}
+
+const USER_ID = 'user-1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const partner = (id: string, overrides: Row = {}): Row => ({
+  id,
+  user_id: USER_ID,
+  first_name: id,
+  last_name: null,
+  profile_picture_storage_path: null,
+  deleted_at: null,
+  ...overrides,
+});
+
+const photo = (id: string, partnerId: string, overrides: Row = {}): Row => ({
+  id,
+  partner_id: partnerId,
+  storage_path: `${USER_ID}/${partnerId}/${id}.jpg`,
+  file_name: `${id}.jpg`,
+  deleted_at: null,
+  ...overrides,
+});
+
+const activity = (id: string, partnerId: string, overrides: Row = {}): Row => ({
+  id,
+  partner_id: partnerId,
+  type: 'date',
+  start_time: '2026-03-14T19:00:00.000Z',
+  location: null,
+  google_calendar_event_id: null,
+  calendar_provider: null,
+  deleted_at: null,
+  ...overrides,
+});
+
+const makeTables = (accountType: 'free' | 'pro', data: Partial<Tables>): Tables => ({
+  users: [{ id: USER_ID, account_type: accountType, calendar_auto_sync: false }],
+  partners: [],
+  partner_photos: [],
+  partner_notes: [],
+  ...data,
+});
+
+beforeEach(() => {
+  deleteCalendarEvent.mockReset();
+  getUserCalendarConnection.mockReset();
+});
+
+describe('Trashing and restoring partners', () => {
+  it('trashes and restores a partner together with its photos and activities', async () => {
+    const earlier = daysAgo(2);
+    const tables = makeTables('pro', {
+      partners: [partner('dana')],
+      partner_photos: [photo('photo-1', 'dana'), photo('photo-old', 'dana', { deleted_at: earlier })],
+      partner_notes: [activity('activity-1', 'dana'), activity('activity-2', 'dana')],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    await expect(trashPartner(supabase, USER_ID, 'dana')).resolves.toEqual({ ok: true });
+
+    const deletedAt = tables.partners[0].deleted_at;
+    expect(deletedAt).not.toBeNull();
+    expect(tables.partner_photos.map((row) => row.deleted_at)).toEqual([deletedAt, earlier]);
+    expect(tables.partner_notes.every((row) => row.deleted_at === deletedAt)).toBe(true);
+
+    await expect(restoreTrashItem(supabase, USER_ID, 'partner', 'dana')).resolves.toEqual({ ok: true });
+
+    // The photo trashed on its own stays in the trash
+    expect(tables.partners[0].deleted_at).toBeNull();
+    expect(tables.partner_photos.map((row) => row.deleted_at)).toEqual([null, earlier]);
+    expect(tables.partner_notes.every((row) => row.deleted_at === null)).toBe(true);
+  });
+
+  it('only trashes partners of the user that are not in the trash yet', async () => {
+    const tables = makeTables('pro', {
+      partners: [partner('dana', { deleted_at: daysAgo(1) }), partner('other', { user_id: 'user-2' })],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    await expect(trashPartner(supabase, USER_ID, 'dana')).resolves.toMatchObject({ ok: false, status: 404 });
+    await expect(trashPartner(supabase, USER_ID, 'other')).resolves.toMatchObject({ ok: false, status: 404 });
+    expect(tables.partners[1].deleted_at).toBeNull();
+  });
+});
+
+describe('Listing the trash', () => {
+  it('groups items trashed with their partner under it and lists the rest on their own', async () => {
+    const partnerDeletedAt = daysAgo(3);
+    const tables = makeTables('pro', {
+      partners: [
+        partner('dana', { last_name: 'Cohen', deleted_at: partnerDeletedAt }),
+        partner('noa'),
+      ],
+      partner_photos: [
+        photo('photo-1', 'dana', { deleted_at: partnerDeletedAt }),
+        photo('photo-2', 'dana', { deleted_at: daysAgo(5) }),
+        photo('photo-3', 'noa', { deleted_at: daysAgo(1) }),
+        photo('photo-4', 'noa'),
+      ],
+      partner_notes: [
+        activity('activity-1', 'dana', { deleted_at: partnerDeletedAt }),
+        activity('activity-2', 'dana', { deleted_at: partnerDeletedAt }),
+        activity('activity-3', 'noa', { deleted_at: daysAgo(4) }),
+      ],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    const trash = await listTrash(supabase, USER_ID);
+
+    expect(trash.partners).toEqual([
+      {
+        id: 'dana',
+        first_name: 'dana',
+        last_name: 'Cohen',
+        profile_picture_storage_path: null,
+        deleted_at: partnerDeletedAt,
+        purge_at: new Date(Date.parse(partnerDeletedAt) + TRASH_RETENTION_MS).toISOString(),
+        photo_count: 1,
+        activity_count: 2,
+      },
+    ]);
+    // Most recently deleted first
+    expect(trash.photos.map(({ id, partner_name }) => ({ id, partner_name }))).toEqual([
+      { id: 'photo-3', partner_name: 'noa' },
+      { id: 'photo-2', partner_name: 'dana Cohen' },
+    ]);
+    expect(trash.activities.map((item) => item.id)).toEqual(['activity-3']);
+  });
+
+  it('returns an empty trash for users without partners', async () => {
+    const { supabase } = createFakeSupabase(makeTables('pro', {}));
+
+    await expect(listTrash(supabase, USER_ID)).resolves.toEqual({ partners: [], photos: [], activities: [] });
+  });
+});
+
+describe('Restore conflicts', () => {
+  it('restores photos and activities of a trashed partner only with the partner', async () => {
+    const deletedAt = daysAgo(1);
+    const tables = makeTables('pro', {
+      partners: [partner('dana', { deleted_at: deletedAt })],
+      partner_notes: [activity('activity-1', 'dana', { deleted_at: deletedAt })],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    await expect(restoreTrashItem(supabase, USER_ID, 'activity', 'activity-1')).resolves.toEqual({
+      ok: false,
+      status: 409,
+      error: 'Restore the partner to restore this activity',
+    });
+    expect(tables.partner_notes[0].deleted_at).toBe(deletedAt);
+  });
+
+  it('refuses to restore a partner beyond the free partner limit', async () => {
+    const tables = makeTables('free', {
+      partners: [
+        ...Array.from({ length: FREE_TIER_PARTNER_LIMIT }, (_, index) => partner(`partner-${index}`)),
+        partner('dana', { deleted_at: daysAgo(1) }),
+      ],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    await expect(restoreTrashItem(supabase, USER_ID, 'partner', 'dana')).resolves.toMatchObject({
+      ok: false,
+      status: 403,
+      error: 'PARTNER_LIMIT_REACHED',
+    });
+  });
+
+  it('refuses to restore a partner whose activities would exceed the free activity limit', async () => {
+    const deletedAt = daysAgo(1);
+    const tables = makeTables('free', {
+      partners: [partner('noa'), partner('dana', { deleted_at: deletedAt })],
+      partner_notes: [
+        ...Array.from({ length: FREE_TIER_ACTIVITY_LIMIT - 2 }, (_, index) => activity(`noa-${index}`, 'noa')),
+        ...Array.from({ length: 3 }, (_, index) => activity(`dana-${index}`, 'dana', { deleted_at: deletedAt })),
+      ],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    const result = await restoreTrashItem(supabase, USER_ID, 'partner', 'dana');
+
+    expect(result).toMatchObject({ ok: false, status: 403, error: 'ACTIVITY_LIMIT_REACHED' });
+    expect(result.ok === false && result.message).toContain(`would bring you to ${FREE_TIER_ACTIVITY_LIMIT + 1}`);
+    expect(tables.partners[1].deleted_at).toBe(deletedAt);
+
+    // Up to the limit is fine
+    tables.partner_notes.pop();
+    await expect(restoreTrashItem(supabase, USER_ID, 'partner', 'dana')).resolves.toEqual({ ok: true });
+  });
+
+  it('refuses to restore an activity at the free activity limit', async () => {
+    const tables = makeTables('free', {
+      partners: [partner('noa')],
+      partner_notes: [
+        ...Array.from({ length: FREE_TIER_ACTIVITY_LIMIT }, (_, index) => activity(`noa-${index}`, 'noa')),
+        activity('trashed', 'noa', { deleted_at: daysAgo(1) }),
+      ],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    await expect(restoreTrashItem(supabase, USER_ID, 'activity', 'trashed')).resolves.toMatchObject({
+      ok: false,
+      status: 403,
+      error: 'ACTIVITY_LIMIT_REACHED',
+    });
+  });
+
+  it('gives restored photos the empty profile picture slot', async () => {
+    const tables = makeTables('pro', {
+      partners: [partner('dana')],
+      partner_photos: [photo('photo-1', 'dana', { deleted_at: daysAgo(1) })],
+    });
+    const { supabase } = createFakeSupabase(tables);
+
+    await expect(restoreTrashItem(supabase, USER_ID, 'photo', 'photo-1')).resolves.toEqual({ ok: true });
+
+    expect(tables.partners[0].profile_picture_storage_path).toBe(tables.partner_photos[0].storage_path);
+  });
+});
+
+describe('Purging', () => {
+  it('deletes partners, photos and activities trashed longer than the retention period', async () => {
+    const expired = daysAgo(31);
+    const recent = daysAgo(29);
+    const tables = makeTables('pro', {
+      partners: [partner('dana', { deleted_at: expired }), partner('noa'), partner('maya', { deleted_at: recent })],
+      partner_photos: [
+        photo('dana-photo', 'dana', { deleted_at: expired }),
+        photo('noa-old', 'noa', { deleted_at: expired }),
+        photo('noa-recent', 'noa', { deleted_at: recent }),
+        photo('noa-active', 'noa'),
+      ],
+      partner_notes: [
+        activity('dana-activity', 'dana', { deleted_at: expired }),
+        activity('noa-old', 'noa', { deleted_at: expired, google_calendar_event_id: 'event-1' }),
+        activity('noa-active', 'noa'),
+        activity('maya-activity', 'maya', { deleted_at: recent }),
+      ],
+    });
+    const connection = { provider: 'google' };
+    getUserCalendarConnection.mockResolvedValue(connection);
+    const { supabase, removedFiles } = createFakeSupabase(tables);
+
+    const summary = await purgeTrash(supabase);
+
+    expect(summary).toEqual({ partners: 1, photos: 2, activities: 2 });
+    expect(tables.partners.map((row) => row.id)).toEqual(['noa', 'maya']);
+    expect(tables.partner_photos.map((row) => row.id)).toEqual(['noa-recent', 'noa-active']);
+    expect(tables.partner_notes.map((row) => row.id)).toEqual(['noa-active', 'maya-activity']);
+    expect(removedFiles.sort()).toEqual([`${USER_ID}/dana/dana-photo.jpg`, `${USER_ID}/noa/noa-old.jpg`]);
+    expect(deleteCalendarEvent).toHaveBeenCalledWith(connection, 'event-1');
+  });
+
+  it('leaves calendar events to the sync queue for users with auto-sync', async () => {
+    const tables = makeTables('pro', {
+      partners: [partner('noa')],
+      partner_notes: [activity('noa-old', 'noa', { deleted_at: daysAgo(31), google_calendar_event_id: 'event-1' })],
+    });
+    tables.users[0].calendar_auto_sync = true;
+    const { supabase } = createFakeSupabase(tables);
+
+    await expect(purgeTrash(supabase)).resolves.toEqual({ partners: 0, photos: 0, activities: 1 });
+    expect(getUserCalendarConnection).not.toHaveBeenCalled();
+    expect(deleteCalendarEvent).not.toHaveBeenCalled();
+  });
+});
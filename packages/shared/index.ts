@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { PartnerCustomFieldsInputSchema, PartnerTagsSchema } from './partner-fields';
+import type { PartnerCustomFields } from './partner-fields';
+import type { NotificationPreferences } from './notifications';
 
 // Partner Activity Types
 export const PartnerActivityType = z.enum([
@@ -24,6 +27,38 @@ export const SubscriptionStatus = z.enum([
 ]);
 export type SubscriptionStatus = z.infer<typeof SubscriptionStatus>;
 
+// Calendar Providers
+export const CalendarProviderType = z.enum(['google', 'outlook']);
+export type CalendarProviderType = z.infer<typeof CalendarProviderType>;
+
+// Calendar Sync Status (per activity)
+export const CalendarSyncStatus = z.enum(['pending', 'synced', 'failed', 'deleted_remotely']);
+export type CalendarSyncStatus = z.infer<typeof CalendarSyncStatus>;
+
+// Partner Relationship Status (pipeline stages, in board order)
+export const PartnerStatus = z.enum([
+  'talking',
+  'first_date',
+  'seeing',
+  'exclusive',
+  'ended',
+  'ghosted',
+]);
+export type PartnerStatus = z.infer<typeof PartnerStatus>;
+
+export const PARTNER_STATUS_LABELS: Record<PartnerStatus, string> = {
+  talking: 'Talking',
+  first_date: 'First date',
+  seeing: 'Seeing',
+  exclusive: 'Exclusive',
+  ended: 'Ended',
+  ghosted: 'Ghosted',
+};
+
+// Partner Reminders: one-off, or a nudge after N days without an activity
+export const PartnerReminderKind = z.enum(['once', 'no_contact']);
+export type PartnerReminderKind = z.infer<typeof PartnerReminderKind>;
+
 // Database Types
 export interface User {
   id: string;
@@ -31,6 +66,9 @@ export interface User {
   full_name: string | null;
   account_type: AccountType;
   timezone?: string;
+  calendar_auto_sync?: boolean;
+  face_match_threshold?: number | null; // null = server default
+  notification_preferences?: Partial<NotificationPreferences>; // See getNotificationPreferences
   created_at: string;
   updated_at: string;
 }
@@ -50,10 +88,46 @@ export interface Partner {
   instagram_profile: string | null;
   profile_picture_storage_path: string | null;
   black_flag: boolean;
+  status: PartnerStatus;
+  status_changed_at: string;
+  tags: string[];
+  custom_fields: PartnerCustomFields; // Values by custom field id
+  deleted_at?: string | null; // Set while the partner is in the trash
+  created_at: string;
+  updated_at: string;
+}
+
+// One transition in a partner's status history (from_status is null for the initial status)
+export interface PartnerStatusChange {
+  id: string;
+  partner_id: string;
+  user_id: string;
+  from_status: PartnerStatus | null;
+  to_status: PartnerStatus;
+  changed_at: string;
+}
+
+export interface PartnerReminder {
+  id: string;
+  user_id: string;
+  partner_id: string;
+  kind: PartnerReminderKind;
+  remind_at: string | null; // once: when to send it
+  no_contact_days: number | null; // no_contact: days since the latest activity
+  note: string | null;
+  last_sent_at: string | null;
+  completed_at: string | null; // Set when a one-off reminder has been sent
   created_at: string;
   updated_at: string;
 }
 
+export function describePartnerReminder(reminder: Pick<PartnerReminder, 'kind' | 'no_contact_days'>): string {
+  if (reminder.kind === 'once') {
+    return 'One-off reminder';
+  }
+  return `No activity in ${reminder.no_contact_days} ${reminder.no_contact_days === 1 ? 'day' : 'days'}`;
+}
+
 export interface PartnerPhoto {
   id: string;
   partner_id: string;
@@ -65,6 +139,7 @@ export interface PartnerPhoto {
   height: number | null;
   face_descriptor: number[] | null;
   face_detection_attempted: boolean | null;
+  deleted_at?: string | null; // Set while the photo is in the trash
   uploaded_at: string;
   created_at: string;
   updated_at: string;
@@ -80,6 +155,20 @@ export interface FaceMatch {
   confidence: number; // Detection confidence as percentage
 }
 
+// Partner-level face match, scored against the partner's face model
+// (centroid of all their photo descriptors) rather than one photo
+export interface PartnerFaceScore {
+  partner_id: string;
+  partner_name: string | null;
+  partner_profile_picture: string | null; // Storage path to profile picture
+  black_flag?: boolean;
+  similarity: number; // 0-1, similarity to the partner's centroid
+  confidence: number; // similarity as percentage
+  matchCount: number; // Photos of the partner that match individually
+  photoCount: number; // Photos with a face in the partner's model
+  spread: number; // Mean distance of the partner's faces from the centroid
+}
+
 export type PhotoUploadDecision = 
   | { type: 'proceed'; reason: 'matches_partner_or_no_photos' | 'no_matches' }
   | { type: 'warn_same_person'; reason: 'doesnt_match_partner_has_photos' }
@@ -89,6 +178,8 @@ export interface PhotoUploadAnalysis {
   decision: PhotoUploadDecision;
   partnerMatches: FaceMatch[]; // Matches within the same partner
   otherPartnerMatches: FaceMatch[]; // Matches with other partners
+  partnerScore: PartnerFaceScore | null; // Set when the photo matches the partner's face model
+  otherPartnerScores: PartnerFaceScore[]; // Other partners whose face model matches, best first
   partnerHasOtherPhotos: boolean;
 }
 
@@ -100,7 +191,14 @@ export interface PartnerActivity {
   type: PartnerActivityType;
   location: string | null;
   description: string | null;
-  google_calendar_event_id: string | null;
+  google_calendar_event_id: string | null; // Event ID in the provider named by calendar_provider
+  calendar_provider: CalendarProviderType | null;
+  calendar_sync_status: CalendarSyncStatus | null;
+  calendar_sync_error: string | null; // Last auto-sync error, cleared on success
+  calendar_synced_at: string | null;
+  imported_from: 'ics' | null; // Set when the activity was imported from a calendar file
+  import_uid: string | null; // UID of the imported calendar event
+  deleted_at?: string | null; // Set while the activity is in the trash
   created_at: string;
   updated_at: string;
 }
@@ -135,8 +233,19 @@ export const PartnerSchema = z.object({
   x_profile: z.string().url().optional().or(z.literal('')),
   linkedin_profile: z.string().url().optional().or(z.literal('')),
   instagram_profile: z.string().url().optional().or(z.literal('')),
+  status: PartnerStatus.optional(), // Default: talking
+  tags: PartnerTagsSchema.optional(),
+  custom_fields: PartnerCustomFieldsInputSchema.optional(), // Checked against the account's field definitions
 });
 
+// Partial partner update (PATCH /api/partners/[partnerId]); '' clears a field.
+// tags replaces all tags; custom_fields only changes the fields it contains.
+export const PartnerUpdateSchema = PartnerSchema.extend({
+  black_flag: z.boolean().optional(),
+}).partial();
+
+export type PartnerUpdate = z.infer<typeof PartnerUpdateSchema>;
+
 export const PartnerActivitySchema = z.object({
   partner_id: z.string().uuid(),
   start_time: z.string().datetime(),
@@ -146,6 +255,47 @@ export const PartnerActivitySchema = z.object({
   description: z.string().optional(),
 });
 
+// Activity created through /api/partners/[partnerId]/activities (the partner comes from the URL)
+export const PartnerActivityCreateSchema = PartnerActivitySchema.omit({ partner_id: true });
+
+// Partial activity update (PATCH); null clears an optional field
+export const PartnerActivityUpdateSchema = PartnerActivityCreateSchema.extend({
+  end_time: z.string().datetime().nullable().optional(),
+  location: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+}).partial();
+
+export type PartnerActivityCreate = z.infer<typeof PartnerActivityCreateSchema>;
+export type PartnerActivityUpdate = z.infer<typeof PartnerActivityUpdateSchema>;
+
+// Activity confirmed from an ICS import review (nullable fields come straight from parsed events)
+export const ActivityImportSchema = PartnerActivitySchema.extend({
+  end_time: z.string().datetime().nullable().optional(),
+  location: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  import_uid: z.string().nullable().optional(),
+});
+
+export type ActivityImport = z.infer<typeof ActivityImportSchema>;
+
+// Reminder created through /api/partners/[partnerId]/reminders
+const ReminderNoteSchema = z.string().trim().max(500).optional();
+
+export const PartnerReminderSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('once'),
+    remind_at: z.string().datetime({ offset: true }),
+    note: ReminderNoteSchema,
+  }),
+  z.object({
+    kind: z.literal('no_contact'),
+    no_contact_days: z.number().int().min(1).max(365),
+    note: ReminderNoteSchema,
+  }),
+]);
+
+export type PartnerReminderCreate = z.infer<typeof PartnerReminderSchema>;
+
 // Keep PartnerNoteSchema as alias for backward compatibility
 export const PartnerNoteSchema = PartnerActivitySchema;
 
@@ -153,6 +303,7 @@ export const PartnerNoteSchema = PartnerActivitySchema;
 export const FREE_TIER_ACTIVITY_LIMIT = 20;
 export const FREE_TIER_NOTE_LIMIT = FREE_TIER_ACTIVITY_LIMIT; // Backward compatibility
 export const FREE_TIER_PHOTO_LIMIT = 20;
+export const MAX_REMINDERS_PER_PARTNER = 10;
 
 // Partner Sorting
 export const PARTNER_SORT_ORDER = {
@@ -160,5 +311,154 @@ export const PARTNER_SORT_ORDER = {
   ascending: false,
 };
 
+// Partner List Sorting and Filters
+// The partners list (web page, mobile screen and GET /api/partners) takes its
+// sort and filters as query parameters, built by buildPartnerListParams and
+// parsed with PartnerListFiltersSchema. Saved views store the same parameters.
+export const PartnerListSort = z.enum([
+  'updated_at',
+  'last_activity_at',
+  'date_count',
+  'first_name',
+  'last_name',
+  'created_at',
+]);
+export type PartnerListSort = z.infer<typeof PartnerListSort>;
+
+export const PARTNER_LIST_SORT_LABELS: Record<PartnerListSort, string> = {
+  updated_at: 'Recently updated',
+  last_activity_at: 'Last activity',
+  date_count: 'Number of dates',
+  first_name: 'First name',
+  last_name: 'Last name',
+  created_at: 'Date added',
+};
+
+// Custom field filters are passed as field.<fieldId>=<value> query parameters
+export const PARTNER_FIELD_FILTER_PREFIX = 'field.';
+
+export const DEFAULT_ACTIVITY_FILTER_DAYS = 30;
+export const MAX_ACTIVITY_FILTER_DAYS = 365;
+export const MAX_PARTNER_VIEWS = 20;
+export const MAX_PARTNER_VIEW_NAME_LENGTH = 50;
+
+const BooleanParamSchema = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+export const PartnerListFiltersSchema = z.object({
+  sort: PartnerListSort.default(PARTNER_SORT_ORDER.field),
+  order: z.enum(['asc', 'desc']).optional(), // Default: newest and most first, A-Z for names
+  black_flag: BooleanParamSchema.optional(),
+  has_photos: BooleanParamSchema.optional(),
+  status: PartnerStatus.optional(),
+  // Partners with an activity of this type in the last activity_days days
+  activity_type: PartnerActivityType.optional(),
+  activity_days: z.coerce.number().int().min(1).max(MAX_ACTIVITY_FILTER_DAYS).default(DEFAULT_ACTIVITY_FILTER_DAYS),
+  // Comma-separated; partners must have all of them
+  tags: z
+    .string()
+    .transform((value) => value.split(',').map((tag) => tag.trim()).filter(Boolean))
+    .optional(),
+});
+
+export type PartnerListFilters = z.infer<typeof PartnerListFiltersSchema>;
+
+export interface PartnerListParamsInput extends Partial<PartnerListFilters> {
+  fields?: Record<string, string>; // Custom field filter values by field id
+}
+
+/**
+ * Query parameters for a partners list sort and filters
+ * Defaults and empty filters are left out, so equal lists have equal parameters.
+ */
+export function buildPartnerListParams(input: PartnerListParamsInput): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (input.sort && input.sort !== PARTNER_SORT_ORDER.field) params.sort = input.sort;
+  if (input.order && input.order !== getDefaultPartnerListOrder(input.sort || PARTNER_SORT_ORDER.field)) {
+    params.order = input.order;
+  }
+  if (input.black_flag !== undefined) params.black_flag = String(input.black_flag);
+  if (input.has_photos !== undefined) params.has_photos = String(input.has_photos);
+  if (input.status) params.status = input.status;
+  if (input.activity_type) {
+    params.activity_type = input.activity_type;
+    if (input.activity_days && input.activity_days !== DEFAULT_ACTIVITY_FILTER_DAYS) {
+      params.activity_days = String(input.activity_days);
+    }
+  }
+  if (input.tags && input.tags.length > 0) params.tags = input.tags.join(',');
+
+  for (const [fieldId, value] of Object.entries(input.fields || {})) {
+    if (value.trim()) params[`${PARTNER_FIELD_FILTER_PREFIX}${fieldId}`] = value.trim();
+  }
+
+  return params;
+}
+
+/**
+ * Sort and filters from query parameters (other parameters are ignored), or null if they are invalid
+ */
+export function parsePartnerListParams(
+  params: Record<string, string | string[] | undefined>
+): (PartnerListFilters & { fields: Record<string, string> }) | null {
+  const values: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(params)) {
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (value !== undefined) values[key] = value;
+  }
+
+  const parsed = PartnerListFiltersSchema.safeParse(values);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (key.startsWith(PARTNER_FIELD_FILTER_PREFIX) && value.trim()) {
+      fields[key.slice(PARTNER_FIELD_FILTER_PREFIX.length)] = value.trim();
+    }
+  }
+
+  return { ...parsed.data, fields };
+}
+
+export function getDefaultPartnerListOrder(sort: PartnerListSort): 'asc' | 'desc' {
+  return sort === 'first_name' || sort === 'last_name' ? 'asc' : 'desc';
+}
+
+// A partner in the partners list, with the stats it can be sorted and filtered by
+export interface PartnerListItem extends Partner {
+  last_activity_at: string | null; // Start of the latest activity
+  date_count: number; // Activities of type date
+  photo_count: number;
+}
+
+// A named sort and filters of the partners list
+export interface PartnerView {
+  id: string;
+  user_id: string;
+  name: string;
+  params: Record<string, string>; // As built by buildPartnerListParams
+  created_at: string;
+  updated_at: string;
+}
+
+export const PartnerViewSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_PARTNER_VIEW_NAME_LENGTH),
+  params: z.record(z.string()),
+});
+
 // Face Quality Validation
 export * from './face-quality';
+
+// Partner Tags and Custom Fields
+export * from './partner-fields';
+
+// Push Notifications
+export * from './notifications';
+
+// Search
+export * from './search';
+
+// Insights
+export * from './insights';
@@ -0,0 +1,41 @@
+import type { Partner, PartnerActivityType, PartnerStatus } from './index';
+
+// Insights
+// Personal dating statistics for the dashboard, computed by the web app from
+// the user's partners and past activities. Months are calendar months in the
+// user's timezone; trashed partners and activities are left out.
+
+export const INSIGHTS_MONTHS = 12;
+export const INSIGHTS_TOP_LOCATIONS = 5;
+
+// Partners in one of these stages with an activity in the last
+// ACTIVE_PARTNER_DAYS days count as currently active
+export const ACTIVE_PARTNER_STATUSES: PartnerStatus[] = ['talking', 'first_date', 'seeing', 'exclusive'];
+export const ACTIVE_PARTNER_DAYS = 30;
+
+export interface PartnerInsights {
+  timezone: string;
+  dates_per_month: { month: string; count: number }[]; // YYYY-MM, the last INSIGHTS_MONTHS months, oldest first
+  activity_types: { type: PartnerActivityType; count: number }[];
+  // Between a partner's first activity of any type and their first date
+  average_days_to_first_date: number | null;
+  first_date_partner_count: number; // Partners the average is over
+  top_locations: { location: string; count: number }[];
+  active_partners: {
+    partner: Pick<Partner, 'id' | 'first_name' | 'last_name' | 'status'>;
+    last_activity_at: string;
+  }[]; // Most recent activity first, up to 10
+  active_partner_count: number;
+}
+
+/**
+ * Short label of an insights month (YYYY-MM), e.g. "Oct 2026"
+ */
+export function formatInsightsMonth(month: string, options: { year?: boolean } = {}): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString(undefined, {
+    month: 'short',
+    year: options.year === false ? undefined : 'numeric',
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,68 @@
+import { z } from 'zod';
+
+// Push Notifications
+// Mobile devices register their FCM (Android) or APNs (iOS) token. Users turn
+// each kind of notification on or off on the profile screen; the preferences
+// are stored on the user (users.notification_preferences) and a missing
+// entry means the notification is on.
+
+export const PushPlatform = z.enum(['ios', 'android']);
+export type PushPlatform = z.infer<typeof PushPlatform>;
+
+export const NotificationCategory = z.enum([
+  'reminders',
+  'upcoming_activities',
+  'payment_failures',
+  'photo_processing',
+]);
+export type NotificationCategory = z.infer<typeof NotificationCategory>;
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, string> = {
+  reminders: 'Partner reminders',
+  upcoming_activities: 'Upcoming activities',
+  payment_failures: 'Payment problems',
+  photo_processing: 'Photo uploads processed',
+};
+
+export type NotificationPreferences = Record<NotificationCategory, boolean>;
+
+export interface PushDevice {
+  id: string;
+  user_id: string;
+  token: string;
+  platform: PushPlatform;
+  last_registered_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Device registered through /api/notifications/devices
+export const PushDeviceSchema = z.object({
+  token: z.string().trim().min(1).max(4096),
+  platform: PushPlatform,
+});
+
+// Partial update of the preferences (PATCH /api/notifications/preferences)
+export const NotificationPreferencesUpdateSchema = z
+  .object({
+    reminders: z.boolean(),
+    upcoming_activities: z.boolean(),
+    payment_failures: z.boolean(),
+    photo_processing: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Preferences with every category filled in (stored preferences only contain
+ * the categories the user changed)
+ */
+export function getNotificationPreferences(
+  stored: Partial<Record<string, unknown>> | null | undefined
+): NotificationPreferences {
+  const preferences = {} as NotificationPreferences;
+  for (const category of NotificationCategory.options) {
+    preferences[category] = stored?.[category] !== false;
+  }
+  return preferences;
+}
@@ -0,0 +1,179 @@
+import { z } from 'zod';
+
+// Partner Tags and Custom Fields
+// Tags are free-form labels stored on the partner. Custom fields are defined
+// per account (custom_field_definitions) and their values are stored on the
+// partner, keyed by field id.
+
+export const MAX_PARTNER_TAGS = 20;
+export const MAX_PARTNER_TAG_LENGTH = 40;
+export const MAX_CUSTOM_FIELDS = 30;
+export const MAX_CUSTOM_FIELD_OPTIONS = 50;
+export const MAX_CUSTOM_FIELD_TEXT_LENGTH = 500;
+
+export const CustomFieldType = z.enum(['text', 'number', 'date', 'select']);
+export type CustomFieldType = z.infer<typeof CustomFieldType>;
+
+export interface CustomFieldDefinition {
+  id: string;
+  user_id: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // Choices of a select field, in display order
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Numbers for number fields, YYYY-MM-DD for date fields, strings otherwise
+export type CustomFieldValue = string | number;
+export type PartnerCustomFields = Record<string, CustomFieldValue>;
+
+/**
+ * Trim tags, collapse inner whitespace and drop case-insensitive duplicates
+ * (the first spelling wins)
+ */
+export function normalizePartnerTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const tag of tags) {
+    const value = tag.trim().replace(/\s+/g, ' ');
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) continue;
+    seen.add(key);
+    normalized.push(value);
+  }
+
+  return normalized;
+}
+
+export const PartnerTagsSchema = z
+  .array(z.string().trim().min(1).max(MAX_PARTNER_TAG_LENGTH))
+  .max(MAX_PARTNER_TAGS, `A partner can have up to ${MAX_PARTNER_TAGS} tags`)
+  .transform(normalizePartnerTags);
+
+const CustomFieldNameSchema = z.string().trim().min(1, 'Name is required').max(50);
+const CustomFieldOptionsSchema = z
+  .array(z.string().trim().min(1).max(50))
+  .max(MAX_CUSTOM_FIELD_OPTIONS)
+  .transform((options) => Array.from(new Set(options)));
+
+export const CustomFieldDefinitionSchema = z
+  .object({
+    name: CustomFieldNameSchema,
+    type: CustomFieldType,
+    options: CustomFieldOptionsSchema.optional(),
+  })
+  .superRefine((field, ctx) => {
+    if (field.type === 'select' && !field.options?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Select fields need at least one option' });
+    }
+  });
+
+// The type can't change: stored values would no longer match it
+export const CustomFieldDefinitionUpdateSchema = z
+  .object({
+    name: CustomFieldNameSchema,
+    options: CustomFieldOptionsSchema,
+    position: z.number().int().min(0),
+  })
+  .partial();
+
+export type CustomFieldDefinitionCreate = z.infer<typeof CustomFieldDefinitionSchema>;
+export type CustomFieldDefinitionUpdate = z.infer<typeof CustomFieldDefinitionUpdateSchema>;
+
+// Values sent by clients, keyed by field id; null or '' clears a field
+export const PartnerCustomFieldsInputSchema = z.record(
+  z.string().uuid(),
+  z.union([z.string().max(MAX_CUSTOM_FIELD_TEXT_LENGTH), z.number(), z.null()])
+);
+
+export type PartnerCustomFieldsInput = z.infer<typeof PartnerCustomFieldsInputSchema>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Check custom field values against the account's field definitions
+ *
+ * Numbers may be sent as numeric strings (text inputs). Returns the values to
+ * store, with null for fields to clear, or an error message per field id.
+ */
+export function validateCustomFieldValues(
+  values: PartnerCustomFieldsInput,
+  definitions: Pick<CustomFieldDefinition, 'id' | 'name' | 'type' | 'options'>[]
+): { ok: true; values: Record<string, CustomFieldValue | null> } | { ok: false; errors: Record<string, string> } {
+  const definitionMap = new Map(definitions.map((definition) => [definition.id, definition]));
+  const result: Record<string, CustomFieldValue | null> = {};
+  const errors: Record<string, string> = {};
+
+  for (const [fieldId, raw] of Object.entries(values)) {
+    const definition = definitionMap.get(fieldId);
+    if (!definition) {
+      errors[fieldId] = 'Unknown custom field';
+      continue;
+    }
+
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (value === null || value === '') {
+      result[fieldId] = null;
+      continue;
+    }
+
+    switch (definition.type) {
+      case 'number': {
+        const number = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(number)) {
+          errors[fieldId] = `${definition.name} must be a number`;
+        } else {
+          result[fieldId] = number;
+        }
+        break;
+      }
+      case 'date':
+        if (typeof value !== 'string' || !isValidDate(value)) {
+          errors[fieldId] = `${definition.name} must be a date (YYYY-MM-DD)`;
+        } else {
+          result[fieldId] = value;
+        }
+        break;
+      case 'select':
+        if (typeof value !== 'string' || !definition.options.includes(value)) {
+          errors[fieldId] = `${definition.name} must be one of: ${definition.options.join(', ')}`;
+        } else {
+          result[fieldId] = value;
+        }
+        break;
+      default:
+        result[fieldId] = String(value);
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { ok: false, errors } : { ok: true, values: result };
+}
+
+/**
+ * Apply validated values to a partner's stored custom fields (null removes a field)
+ */
+export function mergeCustomFieldValues(
+  current: PartnerCustomFields | null | undefined,
+  values: Record<string, CustomFieldValue | null>
+): PartnerCustomFields {
+  const merged: PartnerCustomFields = { ...(current || {}) };
+
+  for (const [fieldId, value] of Object.entries(values)) {
+    if (value === null) {
+      delete merged[fieldId];
+    } else {
+      merged[fieldId] = value;
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,52 @@
+import type { Partner, PartnerActivity } from './index';
+
+// Search
+// Full-text search over partners (name, contacts, description) and their
+// activities (location, description). Results are ranked by Postgres and
+// carry a snippet of the matching text in which matched words are wrapped in
+// SEARCH_HIGHLIGHT_START / SEARCH_HIGHLIGHT_END (private-use characters, so
+// they never clash with user text).
+
+export const SEARCH_HIGHLIGHT_START = '\uE000';
+export const SEARCH_HIGHLIGHT_END = '\uE001';
+
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+
+export interface SearchResult {
+  type: 'partner' | 'activity';
+  partner: Pick<Partner, 'id' | 'first_name' | 'last_name' | 'profile_picture_storage_path'>;
+  activity: Pick<PartnerActivity, 'id' | 'type' | 'start_time'> | null; // Set for activity matches
+  snippet: string;
+  rank: number;
+}
+
+export interface SearchSnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Split a search snippet into plain and highlighted parts (for rendering)
+ */
+export function splitSearchSnippet(snippet: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  let rest = snippet;
+
+  while (rest) {
+    const start = rest.indexOf(SEARCH_HIGHLIGHT_START);
+    if (start === -1) {
+      parts.push({ text: rest, highlighted: false });
+      break;
+    }
+    if (start > 0) {
+      parts.push({ text: rest.slice(0, start), highlighted: false });
+    }
+
+    const end = rest.indexOf(SEARCH_HIGHLIGHT_END, start);
+    const stop = end === -1 ? rest.length : end;
+    parts.push({ text: rest.slice(start + 1, stop), highlighted: true });
+    rest = rest.slice(stop + 1);
+  }
+
+  return parts.filter((part) => part.text);
+}